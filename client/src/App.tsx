@@ -31,6 +31,7 @@ import PromotionalBountiesPage from "@/pages/promotional-bounties-page";
 import PromotionalBountiesCreatePage from "@/pages/promotional-bounties-create-page";
 import PromotionalBountiesDetailPage from "@/pages/promotional-bounties-detail-page";
 import PromotionalBountiesReviewPage from "@/pages/promotional-bounties-review-page";
+import IssueSponsorsPage from "@/pages/issue-sponsors-page";
 import { ContributionDemo } from "@/components/contribution-demo";
 import { ChatWidget } from "@/components/chat-widget";
 import { PoolManagerWelcomeGuide } from "@/components/pool-manager-guide";
@@ -125,6 +126,9 @@ function Router() {
           <Route path="/promotional-bounties/:id" component={PromotionalBountiesDetailPage} />
           <Route path="/promotional-bounties/review" component={PromotionalBountiesReviewPage} />
 
+          {/* Public sponsor list of one issue */}
+          <Route path="/:owner/:repo/issues/:number" component={IssueSponsorsPage} />
+
           {/* Dynamic repo route - must come AFTER specific routes */}
           <Route path="/:owner/:repo" component={RepoRoxonnPage} />
 
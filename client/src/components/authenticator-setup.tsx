@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { QRCodeSVG } from 'qrcode.react';
+import { Button } from '@/components/ui/button';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, Smartphone } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import api from '@/lib/api';
+
+interface TotpEnrollment {
+    secret: string;
+    otpauthUrl: string;
+}
+
+/**
+ * Enrol or remove an authenticator app for step-up codes on sensitive wallet actions
+ */
+export function AuthenticatorSetup() {
+    const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+    const [code, setCode] = useState('');
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+
+    const { data: status, isLoading } = useQuery<{ totpEnabled: boolean }>({
+        queryKey: ['step-up-status'],
+        queryFn: () => api.get('/api/auth/step-up/status'),
+    });
+
+    const setupMutation = useMutation({
+        mutationFn: () => api.post<TotpEnrollment>('/api/auth/totp/setup'),
+        onSuccess: (data) => {
+            setEnrollment(data);
+            setCode('');
+        },
+        onError: () => {
+            toast({ title: 'Error', description: 'Failed to start authenticator setup', variant: 'destructive' });
+        }
+    });
+
+    const confirmMutation = useMutation({
+        mutationFn: () => api.post('/api/auth/totp/confirm', { code }),
+        onSuccess: () => {
+            setEnrollment(null);
+            setCode('');
+            queryClient.invalidateQueries({ queryKey: ['step-up-status'] });
+            toast({ title: 'Authenticator enabled', description: 'You can now confirm sensitive actions with your app.' });
+        },
+        onError: () => {
+            toast({ title: 'Invalid code', description: 'Check the time on your device and try again.', variant: 'destructive' });
+        }
+    });
+
+    const disableMutation = useMutation({
+        mutationFn: () => api.post('/api/auth/totp/disable', { code }),
+        onSuccess: () => {
+            setCode('');
+            queryClient.invalidateQueries({ queryKey: ['step-up-status'] });
+            toast({ title: 'Authenticator removed', description: 'Codes will be emailed to you instead.' });
+        },
+        onError: () => {
+            toast({ title: 'Invalid code', description: 'Enter the current code from your authenticator app.', variant: 'destructive' });
+        }
+    });
+
+    if (isLoading) {
+        return <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />;
+    }
+
+    const codeInput = (
+        <InputOTP maxLength={6} value={code} onChange={setCode}>
+            <InputOTPGroup>
+                {[0, 1, 2, 3, 4, 5].map(index => <InputOTPSlot key={index} index={index} />)}
+            </InputOTPGroup>
+        </InputOTP>
+    );
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <Smartphone className="h-5 w-5 text-cyan-400" />
+                    <h3 className="font-semibold">Authenticator App</h3>
+                </div>
+                {status?.totpEnabled ? (
+                    <Badge className="bg-emerald-500/20 text-emerald-400 border-emerald-500/30">Enabled</Badge>
+                ) : (
+                    <Badge variant="outline">Not set up</Badge>
+                )}
+            </div>
+            <p className="text-sm text-muted-foreground">
+                Wallet exports, payout requests, large transfers and large bounty allocations ask for a one-time code.
+                With an authenticator app you can use its code instead of waiting for an email.
+            </p>
+
+            {status?.totpEnabled ? (
+                <div className="space-y-3">
+                    <p className="text-sm">Enter a current code to remove the authenticator.</p>
+                    {codeInput}
+                    <Button variant="outline" onClick={() => disableMutation.mutate()} disabled={code.length !== 6 || disableMutation.isPending}>
+                        {disableMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                        Remove Authenticator
+                    </Button>
+                </div>
+            ) : enrollment ? (
+                <div className="space-y-3">
+                    <p className="text-sm">Scan this QR code with your authenticator app, then enter the code it shows.</p>
+                    <div className="inline-block rounded-lg bg-white p-3">
+                        <QRCodeSVG value={enrollment.otpauthUrl} size={160} />
+                    </div>
+                    <p className="font-mono text-xs text-muted-foreground break-all">{enrollment.secret}</p>
+                    {codeInput}
+                    <Button onClick={() => confirmMutation.mutate()} disabled={code.length !== 6 || confirmMutation.isPending}>
+                        {confirmMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                        Confirm and Enable
+                    </Button>
+                </div>
+            ) : (
+                <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+                    {setupMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                    Set Up Authenticator
+                </Button>
+            )}
+        </div>
+    );
+}
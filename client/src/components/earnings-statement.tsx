@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, FileText, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import api from '@/lib/api';
+import { STAGING_API_URL } from '@/config';
+import type { EarningsStatement as EarningsStatementData } from '@shared/schema';
+
+interface CurrenciesResponse {
+    popular: { code: string; name: string; flag: string }[];
+}
+
+type DownloadFormat = 'csv' | 'pdf';
+
+/**
+ * Lets a contributor export what they earned over a period, valued in fiat at payout time
+ */
+export function EarningsStatement() {
+    const today = new Date();
+    const [from, setFrom] = useState(format(new Date(today.getFullYear(), 0, 1), 'yyyy-MM-dd'));
+    const [to, setTo] = useState(format(today, 'yyyy-MM-dd'));
+    const [fiat, setFiat] = useState('USD');
+    const [downloading, setDownloading] = useState<DownloadFormat | null>(null);
+    const { toast } = useToast();
+
+    const periodValid = !!from && !!to && from <= to;
+    const query = `from=${from}&to=${to}&fiat=${fiat}`;
+
+    const { data: currencies } = useQuery<CurrenciesResponse>({
+        queryKey: ['subscription-currencies'],
+        queryFn: () => api.get('/api/subscription/currencies'),
+        staleTime: Infinity
+    });
+
+    const { data: statement, isLoading } = useQuery<EarningsStatementData>({
+        queryKey: ['earnings-statement', from, to, fiat],
+        queryFn: () => api.get(`/api/wallet/earnings-statement?${query}`),
+        enabled: periodValid
+    });
+
+    // Statements are file downloads, so they go through fetch to read the body as a blob
+    const handleDownload = async (fileFormat: DownloadFormat) => {
+        setDownloading(fileFormat);
+        try {
+            const response = await fetch(`${STAGING_API_URL}/api/wallet/earnings-statement?${query}&format=${fileFormat}`, {
+                credentials: 'include'
+            });
+            if (!response.ok) {
+                const error = await response.json().catch(() => ({}));
+                throw new Error(error.error || 'Failed to generate the statement');
+            }
+            const url = URL.createObjectURL(await response.blob());
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `roxonn-earnings-${from}-to-${to}.${fileFormat}`;
+            document.body.appendChild(link);
+            link.click();
+            link.remove();
+            URL.revokeObjectURL(url);
+        } catch (err: any) {
+            toast({ title: 'Download failed', description: err.message, variant: 'destructive' });
+        } finally {
+            setDownloading(null);
+        }
+    };
+
+    return (
+        <div className="card-noir p-6">
+            <div className="flex items-center gap-3 mb-4">
+                <div className="p-2 rounded-lg bg-emerald-500/10 text-emerald-500">
+                    <FileText className="w-5 h-5" />
+                </div>
+                <div>
+                    <h3 className="font-semibold">Earnings Statement</h3>
+                    <p className="text-sm text-muted-foreground">
+                        Bounties, sponsorships, referral rewards and promotional payouts, valued at the time they were paid.
+                    </p>
+                </div>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-3">
+                <div className="space-y-1">
+                    <Label htmlFor="earnings-from">From</Label>
+                    <Input id="earnings-from" type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                    <Label htmlFor="earnings-to">To</Label>
+                    <Input id="earnings-to" type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                    <Label>Fiat currency</Label>
+                    <Select value={fiat} onValueChange={setFiat}>
+                        <SelectTrigger>
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {(currencies?.popular ?? [{ code: 'USD', name: 'US Dollar', flag: '🇺🇸' }]).map(currency => (
+                                <SelectItem key={currency.code} value={currency.code}>
+                                    {currency.flag} {currency.code}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+            </div>
+
+            <div className="rounded-lg bg-muted/30 p-4 mt-4 text-sm">
+                {!periodValid ? (
+                    <p className="text-muted-foreground">Choose a period that starts before it ends.</p>
+                ) : isLoading ? (
+                    <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                ) : statement && statement.lines.length > 0 ? (
+                    <div className="space-y-1">
+                        <p>
+                            {statement.lines.length} payout{statement.lines.length === 1 ? '' : 's'}:{' '}
+                            {statement.totals.map(t => `${parseFloat(t.amount)} ${t.currency}`).join(' + ')}
+                        </p>
+                        <p className="font-semibold">
+                            ≈ {parseFloat(statement.totalFiatValue).toLocaleString(undefined, { maximumFractionDigits: 2 })} {statement.fiatCurrency}
+                        </p>
+                        {statement.unvaluedLines > 0 && (
+                            <p className="text-xs text-muted-foreground">
+                                {statement.unvaluedLines} payout{statement.unvaluedLines === 1 ? ' has' : 's have'} no recorded
+                                price and {statement.unvaluedLines === 1 ? 'is' : 'are'} left out of the fiat total.
+                            </p>
+                        )}
+                    </div>
+                ) : (
+                    <p className="text-muted-foreground">No earnings in this period.</p>
+                )}
+            </div>
+
+            <div className="flex gap-3 mt-4">
+                <Button variant="outline" onClick={() => handleDownload('csv')} disabled={!periodValid || downloading !== null}>
+                    {downloading === 'csv' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+                    Download CSV
+                </Button>
+                <Button variant="outline" onClick={() => handleDownload('pdf')} disabled={!periodValid || downloading !== null}>
+                    {downloading === 'pdf' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+                    Download PDF
+                </Button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,384 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { ethers } from 'ethers';
+import api from '@/lib/api';
+import { blockchainApi } from '@/lib/blockchain';
+import { useAuth } from '@/hooks/use-auth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, CalendarClock, Pause, Play, Trash2, Plus } from 'lucide-react';
+import type { FundingSchedule, FundingScheduleRun, FundingScheduleKind, FundingCadence } from '@shared/schema';
+
+type Currency = FundingSchedule['currency'];
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const STATUS_STYLES: Record<FundingSchedule['status'], string> = {
+    active: 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30',
+    paused: 'bg-amber-500/20 text-amber-400 border-amber-500/30',
+    completed: 'bg-cyan-500/20 text-cyan-400 border-cyan-500/30',
+    cancelled: 'bg-muted text-muted-foreground border-border',
+};
+
+const RUN_STYLES: Record<FundingScheduleRun['status'], string> = {
+    funded: 'text-emerald-400',
+    skipped: 'text-amber-400',
+    failed: 'text-red-400',
+};
+
+interface FundingScheduleView extends FundingSchedule {
+    funderUsername: string | null;
+    recentRuns: FundingScheduleRun[];
+}
+
+interface FundingSchedulesProps {
+    repoId: number;
+    canSchedule: boolean;
+}
+
+function describeSchedule(schedule: FundingScheduleView): string {
+    const amount = `${schedule.amount} ${schedule.currency}`;
+    if (schedule.kind === 'top_up') {
+        return `Add ${amount} when the pool drops below ${schedule.thresholdAmount} ${schedule.currency}`;
+    }
+    if (schedule.cadence === 'daily') {
+        return `${amount} every day`;
+    }
+    if (schedule.cadence === 'weekly') {
+        return `${amount} every ${WEEKDAYS[schedule.dayOfWeek ?? 1]}`;
+    }
+    return `${amount} on day ${schedule.dayOfMonth ?? 1} of each month`;
+}
+
+/**
+ * Recurring and automatic top-up funding for a repository pool, run by the server from the
+ * funder's wallet and reported to them by email
+ */
+export function FundingSchedules({ repoId, canSchedule }: FundingSchedulesProps) {
+    const { user } = useAuth();
+    const [kind, setKind] = useState<FundingScheduleKind>('recurring');
+    const [currency, setCurrency] = useState<Currency>('USDC');
+    const [amount, setAmount] = useState('');
+    const [cadence, setCadence] = useState<FundingCadence>('monthly');
+    const [dayOfWeek, setDayOfWeek] = useState('1');
+    const [dayOfMonth, setDayOfMonth] = useState('1');
+    const [thresholdAmount, setThresholdAmount] = useState('');
+    const [maxTotalAmount, setMaxTotalAmount] = useState('');
+    const [approveAmount, setApproveAmount] = useState('');
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+
+    const { data, isLoading } = useQuery<{ schedules: FundingScheduleView[] }>({
+        queryKey: ['funding-schedules', repoId],
+        queryFn: () => api.get(`/api/repositories/${repoId}/funding-schedules`),
+    });
+
+    // Scheduled ROXN funding spends a standing allowance rather than approving each run
+    const { data: roxnAllowance, refetch: refetchAllowance } = useQuery({
+        queryKey: ['roxn-allowance'],
+        queryFn: () => blockchainApi.getRoxnRewardsContractAllowance(),
+        enabled: canSchedule && currency === 'ROXN',
+    });
+
+    const invalidate = () => queryClient.invalidateQueries({ queryKey: ['funding-schedules', repoId] });
+
+    const createMutation = useMutation({
+        mutationFn: () => api.post(`/api/repositories/${repoId}/funding-schedules`, kind === 'recurring'
+            ? {
+                kind,
+                currency,
+                amount: amount.trim(),
+                cadence,
+                ...(cadence === 'weekly' && { dayOfWeek: parseInt(dayOfWeek) }),
+                ...(cadence === 'monthly' && { dayOfMonth: parseInt(dayOfMonth) }),
+                ...(maxTotalAmount.trim() && { maxTotalAmount: maxTotalAmount.trim() }),
+            }
+            : {
+                kind,
+                currency,
+                amount: amount.trim(),
+                thresholdAmount: thresholdAmount.trim(),
+                ...(maxTotalAmount.trim() && { maxTotalAmount: maxTotalAmount.trim() }),
+            }),
+        onSuccess: () => {
+            toast({ title: 'Funding scheduled', description: 'You will get an email after each run' });
+            setAmount('');
+            setThresholdAmount('');
+            setMaxTotalAmount('');
+            invalidate();
+        },
+        onError: () => {
+            toast({ title: 'Error', description: 'Failed to create funding schedule', variant: 'destructive' });
+        }
+    });
+
+    const statusMutation = useMutation({
+        mutationFn: (schedule: FundingScheduleView) => api.patch(`/api/repositories/${repoId}/funding-schedules/${schedule.id}`, {
+            status: schedule.status === 'active' ? 'paused' : 'active',
+        }),
+        onSuccess: invalidate,
+        onError: () => {
+            toast({ title: 'Error', description: 'Failed to update funding schedule', variant: 'destructive' });
+        }
+    });
+
+    const cancelMutation = useMutation({
+        mutationFn: (id: number) => api.delete(`/api/repositories/${repoId}/funding-schedules/${id}`),
+        onSuccess: invalidate,
+        onError: () => {
+            toast({ title: 'Error', description: 'Failed to cancel funding schedule', variant: 'destructive' });
+        }
+    });
+
+    const approveMutation = useMutation({
+        mutationFn: () => blockchainApi.approveRoxn(approveAmount.trim()),
+        onSuccess: () => {
+            toast({ title: 'ROXN approved', description: `Scheduled funding can now spend up to ${approveAmount.trim()} ROXN` });
+            setApproveAmount('');
+            refetchAllowance();
+        },
+        onError: (error: Error) => {
+            toast({ title: 'Error', description: error.message || 'Failed to approve ROXN', variant: 'destructive' });
+        }
+    });
+
+    const needsThreshold = kind === 'top_up' && !thresholdAmount.trim();
+    const canCreate = !!amount.trim() && !needsThreshold && !createMutation.isPending;
+
+    if (isLoading) {
+        return (
+            <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+        );
+    }
+
+    const schedules = data?.schedules ?? [];
+
+    return (
+        <div className="space-y-6">
+            <div className="space-y-2">
+                <h3 className="flex items-center gap-2 font-semibold">
+                    <CalendarClock className="h-4 w-4" />
+                    Scheduled Funding
+                </h3>
+                {schedules.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No recurring or top-up funding is set up for this repository.</p>
+                )}
+                {schedules.map(schedule => {
+                    const isFunder = schedule.funderId === user?.id;
+                    const isLive = schedule.status === 'active' || schedule.status === 'paused';
+                    return (
+                        <div key={schedule.id} className="space-y-2 rounded-lg border border-border/50 px-4 py-3">
+                            <div className="flex items-start justify-between gap-4">
+                                <div>
+                                    <p className="text-sm font-medium">{describeSchedule(schedule)}</p>
+                                    <p className="text-xs text-muted-foreground">
+                                        {schedule.funderUsername ? `Funded by @${schedule.funderUsername}` : 'Funder unknown'}
+                                        {' · '}{parseFloat(schedule.totalFunded)} {schedule.currency} funded
+                                        {schedule.maxTotalAmount && ` of ${schedule.maxTotalAmount} budget`}
+                                        {schedule.status === 'active' && schedule.kind === 'recurring' && ` · next ${new Date(schedule.nextRunAt).toLocaleDateString()}`}
+                                    </p>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <Badge className={`capitalize ${STATUS_STYLES[schedule.status]}`}>{schedule.status}</Badge>
+                                    {isFunder && isLive && (
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            onClick={() => statusMutation.mutate(schedule)}
+                                            disabled={statusMutation.isPending}
+                                        >
+                                            {schedule.status === 'active' ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                                        </Button>
+                                    )}
+                                    {isFunder && isLive && (
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            onClick={() => cancelMutation.mutate(schedule.id)}
+                                            disabled={cancelMutation.isPending}
+                                            className="text-muted-foreground hover:text-red-400"
+                                        >
+                                            <Trash2 className="h-4 w-4" />
+                                        </Button>
+                                    )}
+                                </div>
+                            </div>
+                            {schedule.recentRuns.length > 0 && (
+                                <ul className="space-y-1 text-xs text-muted-foreground">
+                                    {schedule.recentRuns.map(run => (
+                                        <li key={run.id}>
+                                            <span className={`capitalize ${RUN_STYLES[run.status]}`}>{run.status}</span>
+                                            {' '}{run.amount} {run.currency} · {new Date(run.createdAt).toLocaleString()}
+                                            {run.reason && ` · ${run.reason}`}
+                                            {run.transactionHash && (
+                                                <a
+                                                    href={`https://xdcscan.com/tx/${run.transactionHash}`}
+                                                    target="_blank"
+                                                    rel="noopener noreferrer"
+                                                    className="ml-2 text-cyan-400 hover:underline"
+                                                >
+                                                    View
+                                                </a>
+                                            )}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+
+            {canSchedule && (
+                <div className="space-y-4 rounded-lg border border-border/50 p-4">
+                    <h4 className="font-medium">Schedule funding from your wallet</h4>
+                    <div className="grid gap-4 sm:grid-cols-3">
+                        <div className="space-y-1">
+                            <Label>Type</Label>
+                            <Select value={kind} onValueChange={(value) => setKind(value as FundingScheduleKind)}>
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="recurring">Recurring</SelectItem>
+                                    <SelectItem value="top_up">Automatic top-up</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-1">
+                            <Label>Currency</Label>
+                            <Select value={currency} onValueChange={(value) => setCurrency(value as Currency)}>
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="USDC">USDC</SelectItem>
+                                    <SelectItem value="ROXN">ROXN</SelectItem>
+                                    <SelectItem value="XDC">XDC</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-1">
+                            <Label htmlFor="funding-amount">Amount per run</Label>
+                            <Input
+                                id="funding-amount"
+                                inputMode="decimal"
+                                value={amount}
+                                onChange={(e) => setAmount(e.target.value)}
+                                placeholder="500"
+                            />
+                        </div>
+                    </div>
+
+                    {kind === 'recurring' ? (
+                        <div className="grid gap-4 sm:grid-cols-3">
+                            <div className="space-y-1">
+                                <Label>Every</Label>
+                                <Select value={cadence} onValueChange={(value) => setCadence(value as FundingCadence)}>
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="daily">Day</SelectItem>
+                                        <SelectItem value="weekly">Week</SelectItem>
+                                        <SelectItem value="monthly">Month</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            {cadence === 'weekly' && (
+                                <div className="space-y-1">
+                                    <Label>On</Label>
+                                    <Select value={dayOfWeek} onValueChange={setDayOfWeek}>
+                                        <SelectTrigger>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {WEEKDAYS.map((day, index) => (
+                                                <SelectItem key={day} value={String(index)}>{day}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            )}
+                            {cadence === 'monthly' && (
+                                <div className="space-y-1">
+                                    <Label>Day of month</Label>
+                                    <Select value={dayOfMonth} onValueChange={setDayOfMonth}>
+                                        <SelectTrigger>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {Array.from({ length: 28 }, (_, i) => String(i + 1)).map(day => (
+                                                <SelectItem key={day} value={day}>{day}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            )}
+                        </div>
+                    ) : (
+                        <div className="space-y-1">
+                            <Label htmlFor="funding-threshold">Top up when the pool drops below</Label>
+                            <Input
+                                id="funding-threshold"
+                                inputMode="decimal"
+                                value={thresholdAmount}
+                                onChange={(e) => setThresholdAmount(e.target.value)}
+                                placeholder={`100 ${currency}`}
+                            />
+                        </div>
+                    )}
+
+                    <div className="space-y-1">
+                        <Label htmlFor="funding-budget">Total budget (optional)</Label>
+                        <Input
+                            id="funding-budget"
+                            inputMode="decimal"
+                            value={maxTotalAmount}
+                            onChange={(e) => setMaxTotalAmount(e.target.value)}
+                            placeholder="No limit"
+                        />
+                    </div>
+
+                    {currency === 'ROXN' && (
+                        <div className="space-y-2 rounded-lg bg-muted/30 p-3">
+                            <p className="text-xs text-muted-foreground">
+                                Scheduled ROXN funding only spends what you have approved for the rewards contract.
+                                Current allowance: {roxnAllowance ? ethers.formatEther(roxnAllowance) : '0'} ROXN
+                            </p>
+                            <div className="flex gap-2">
+                                <Input
+                                    inputMode="decimal"
+                                    value={approveAmount}
+                                    onChange={(e) => setApproveAmount(e.target.value)}
+                                    placeholder="Amount to approve"
+                                />
+                                <Button
+                                    variant="outline"
+                                    onClick={() => approveMutation.mutate()}
+                                    disabled={!approveAmount.trim() || approveMutation.isPending}
+                                >
+                                    {approveMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Approve'}
+                                </Button>
+                            </div>
+                        </div>
+                    )}
+
+                    <Button onClick={() => createMutation.mutate()} disabled={!canCreate} className="w-full">
+                        {createMutation.isPending ? (
+                            <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Scheduling...</>
+                        ) : (
+                            <><Plus className="mr-2 h-4 w-4" />Create Schedule</>
+                        )}
+                    </Button>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,273 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Check, X, Ban, ShieldCheck } from 'lucide-react';
+import type { MultisigPolicy, MultisigProposal, MultisigApproval, BountyAllocationCaps } from '@shared/schema';
+
+type ThresholdCurrency = keyof BountyAllocationCaps;
+
+const THRESHOLD_CURRENCIES: ThresholdCurrency[] = ['XDC', 'ROXN', 'USDC'];
+
+const STATUS_STYLES: Record<MultisigProposal['status'], string> = {
+    pending: 'bg-amber-500/20 text-amber-400 border-amber-500/30',
+    approved: 'bg-cyan-500/20 text-cyan-400 border-cyan-500/30',
+    executed: 'bg-green-500/20 text-green-400 border-green-500/30',
+    failed: 'bg-red-500/20 text-red-400 border-red-500/30',
+    rejected: 'bg-red-500/20 text-red-400 border-red-500/30',
+    cancelled: 'bg-muted text-muted-foreground border-border',
+};
+
+interface ProposalView extends MultisigProposal {
+    approvals: MultisigApproval[];
+    approvalCount: number;
+    rejectionCount: number;
+}
+
+interface MultisigResponse {
+    policy: MultisigPolicy | null;
+    approvers: string[];
+    proposals: ProposalView[];
+    canApprove: boolean;
+    canManage: boolean;
+}
+
+interface MultisigApprovalsProps {
+    repoId: number;
+}
+
+function describeProposal(proposal: ProposalView): string {
+    const amounts = proposal.amounts.map(a => `${a.amount} ${a.currency}`).join(' + ');
+    if (proposal.action === 'allocate') {
+        return `Allocate ${amounts} to #${proposal.issueNumber}`;
+    }
+    const recipient = proposal.payload.prAuthorUsername
+        ? `@${proposal.payload.prAuthorUsername}`
+        : proposal.payload.contributorAddress;
+    return `Pay ${amounts} on #${proposal.issueNumber} to ${recipient}`;
+}
+
+/**
+ * N-of-M pool manager approval for large bounties: the repository's policy and the trail of
+ * held allocations and payouts, with approve and reject actions for pool managers
+ */
+export function MultisigApprovals({ repoId }: MultisigApprovalsProps) {
+    const [requiredApprovals, setRequiredApprovals] = useState('2');
+    const [thresholds, setThresholds] = useState<BountyAllocationCaps>({});
+    const [enabled, setEnabled] = useState(false);
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+
+    const { data, isLoading } = useQuery<MultisigResponse>({
+        queryKey: ['repository-multisig', repoId],
+        queryFn: () => api.get(`/api/repositories/${repoId}/multisig`),
+    });
+
+    useEffect(() => {
+        if (data?.policy) {
+            setRequiredApprovals(String(data.policy.requiredApprovals));
+            setThresholds(data.policy.thresholds);
+            setEnabled(data.policy.enabled);
+        }
+    }, [data?.policy]);
+
+    const invalidate = () => queryClient.invalidateQueries({ queryKey: ['repository-multisig', repoId] });
+
+    const policyMutation = useMutation({
+        mutationFn: () => api.put(`/api/repositories/${repoId}/multisig/policy`, {
+            requiredApprovals: parseInt(requiredApprovals),
+            thresholds: Object.fromEntries(
+                Object.entries(thresholds).filter(([, amount]) => amount && amount.trim() !== '')
+            ),
+            enabled,
+        }),
+        onSuccess: () => {
+            toast({ title: 'Approval policy saved' });
+            invalidate();
+        },
+        onError: () => {
+            toast({ title: 'Error', description: 'Failed to save approval policy', variant: 'destructive' });
+        }
+    });
+
+    const decisionMutation = useMutation({
+        mutationFn: ({ id, decision }: { id: number; decision: 'approve' | 'reject' | 'cancel' }) =>
+            api.post<MultisigProposal>(`/api/repositories/${repoId}/multisig/proposals/${id}/${decision}`, {}),
+        onSuccess: (proposal) => {
+            if (proposal?.status === 'executed') {
+                toast({ title: 'Approved and executed', description: 'The quorum was reached and the transaction was sent' });
+            } else if (proposal?.status === 'failed') {
+                toast({ title: 'Approved but failed', description: proposal.error || 'The transaction could not be sent', variant: 'destructive' });
+            }
+            invalidate();
+        },
+        onError: (error: Error) => {
+            toast({
+                title: 'Error',
+                description: error.message.includes('409')
+                    ? 'This proposal has already been decided or you have already voted'
+                    : 'Failed to record your decision',
+                variant: 'destructive'
+            });
+            invalidate();
+        }
+    });
+
+    if (isLoading) {
+        return (
+            <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+        );
+    }
+    if (!data) {
+        return null;
+    }
+
+    const approverCount = data.approvers.length;
+    // The server refuses a quorum the pool managers could never reach
+    const quorumUnreachable = enabled && parseInt(requiredApprovals) > approverCount;
+    const canSavePolicy = parseInt(requiredApprovals) >= 1 && !quorumUnreachable && !policyMutation.isPending;
+
+    return (
+        <div className="space-y-6">
+            <div className="space-y-2">
+                <h3 className="flex items-center gap-2 font-semibold">
+                    <ShieldCheck className="h-4 w-4" />
+                    Multi-Signature Approvals
+                </h3>
+                <p className="text-sm text-muted-foreground">
+                    {data.policy?.enabled
+                        ? `Bounties at or above the thresholds need ${data.policy.requiredApprovals} of ${approverCount} pool managers to approve.`
+                        : 'Allocations and payouts run as soon as a manager submits them.'}
+                </p>
+            </div>
+
+            {data.canManage && (
+                <div className="space-y-4 rounded-lg border border-border/50 p-4">
+                    <div className="flex items-center justify-between">
+                        <Label htmlFor="multisig-enabled">Require approval for large bounties</Label>
+                        <Switch id="multisig-enabled" checked={enabled} onCheckedChange={setEnabled} />
+                    </div>
+                    <div className="grid gap-4 sm:grid-cols-4">
+                        <div className="space-y-1">
+                            <Label htmlFor="multisig-required">Approvals needed</Label>
+                            <Input
+                                id="multisig-required"
+                                inputMode="numeric"
+                                value={requiredApprovals}
+                                onChange={(e) => setRequiredApprovals(e.target.value)}
+                            />
+                        </div>
+                        {THRESHOLD_CURRENCIES.map(currency => (
+                            <div key={currency} className="space-y-1">
+                                <Label htmlFor={`threshold-${currency}`}>{currency} threshold</Label>
+                                <Input
+                                    id={`threshold-${currency}`}
+                                    inputMode="decimal"
+                                    value={thresholds[currency] ?? ''}
+                                    onChange={(e) => setThresholds(prev => ({ ...prev, [currency]: e.target.value }))}
+                                    placeholder="No threshold"
+                                />
+                            </div>
+                        ))}
+                    </div>
+                    <p className={`text-xs ${quorumUnreachable ? 'text-red-400' : 'text-muted-foreground'}`}>
+                        Approvers are the {approverCount} on-chain pool manager{approverCount === 1 ? '' : 's'} of this repository, so no more than {approverCount} approval{approverCount === 1 ? '' : 's'} can be required.
+                    </p>
+                    <Button onClick={() => policyMutation.mutate()} disabled={!canSavePolicy} className="w-full">
+                        {policyMutation.isPending ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Saving...</> : 'Save Policy'}
+                    </Button>
+                </div>
+            )}
+
+            <div className="space-y-2">
+                <h4 className="font-medium">Proposals</h4>
+                {data.proposals.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No allocations or payouts have needed approval yet.</p>
+                )}
+                {data.proposals.map(proposal => (
+                    <div key={proposal.id} className="space-y-3 rounded-lg border border-border/50 px-4 py-3">
+                        <div className="flex items-start justify-between gap-4">
+                            <div>
+                                <p className="text-sm font-medium">{describeProposal(proposal)}</p>
+                                <p className="text-xs text-muted-foreground">
+                                    {proposal.proposedByUsername ? `Proposed by @${proposal.proposedByUsername}` : 'Raised by a merged PR'}
+                                    {' · '}{new Date(proposal.createdAt).toLocaleString()}
+                                    {' · '}{proposal.approvalCount}/{proposal.requiredApprovals} approvals
+                                </p>
+                            </div>
+                            <Badge className={`capitalize ${STATUS_STYLES[proposal.status]}`}>{proposal.status}</Badge>
+                        </div>
+
+                        {proposal.approvals.length > 0 && (
+                            <ul className="space-y-1 text-xs text-muted-foreground">
+                                {proposal.approvals.map(vote => (
+                                    <li key={vote.id} className="flex items-center gap-2">
+                                        {vote.decision === 'approve'
+                                            ? <Check className="h-3 w-3 text-green-400" />
+                                            : <X className="h-3 w-3 text-red-400" />}
+                                        <span className="font-mono">@{vote.githubUsername}</span>
+                                        <span>{new Date(vote.createdAt).toLocaleString()}</span>
+                                        {vote.note && <span>— {vote.note}</span>}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                        {proposal.error && <p className="text-xs text-red-400">{proposal.error}</p>}
+                        {proposal.transactionHash && (
+                            <a
+                                href={`https://xdcscan.com/tx/${proposal.transactionHash}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-xs text-cyan-400 hover:underline"
+                            >
+                                View transaction
+                            </a>
+                        )}
+
+                        {proposal.status === 'pending' && (
+                            <div className="flex gap-2">
+                                {data.canApprove && (
+                                    <>
+                                        <Button
+                                            size="sm"
+                                            onClick={() => decisionMutation.mutate({ id: proposal.id, decision: 'approve' })}
+                                            disabled={decisionMutation.isPending}
+                                        >
+                                            <Check className="mr-1 h-4 w-4" />Approve
+                                        </Button>
+                                        <Button
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={() => decisionMutation.mutate({ id: proposal.id, decision: 'reject' })}
+                                            disabled={decisionMutation.isPending}
+                                        >
+                                            <X className="mr-1 h-4 w-4" />Reject
+                                        </Button>
+                                    </>
+                                )}
+                                {data.canManage && (
+                                    <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        onClick={() => decisionMutation.mutate({ id: proposal.id, decision: 'cancel' })}
+                                        disabled={decisionMutation.isPending}
+                                        className="text-muted-foreground hover:text-red-400"
+                                    >
+                                        <Ban className="mr-1 h-4 w-4" />Cancel
+                                    </Button>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
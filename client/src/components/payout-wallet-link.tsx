@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Link2, Loader2, Unlink } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import api from '@/lib/api';
+import csrfService from '@/lib/csrf';
+import { STAGING_API_URL } from '@/config';
+import { StepUpRequiredError, readStepUpError } from '@/lib/step-up';
+import { StepUpDialog } from '@/components/step-up-dialog';
+
+interface PayoutAddressResponse {
+    payoutAddress: { address: string; source: 'linked' | 'custodial' } | null;
+    linkedWallet: { address: string; linkedAt: string } | null;
+}
+
+type PendingAction =
+    | { kind: 'link'; nonce: string; signature: string }
+    | { kind: 'unlink' };
+
+// Link and unlink both need a step-up code, so they go through fetch to read the 401 body
+async function sendPayoutAddressRequest(action: PendingAction, stepUpCode?: string) {
+    const csrfToken = await csrfService.getToken();
+    const response = await fetch(`${STAGING_API_URL}/api/wallet/payout-address/link`, {
+        method: action.kind === 'link' ? 'POST' : 'DELETE',
+        credentials: 'include',
+        headers: {
+            'Content-Type': 'application/json',
+            'X-CSRF-Token': csrfToken,
+            ...(stepUpCode ? { 'X-Step-Up-Code': stepUpCode } : {})
+        },
+        body: action.kind === 'link'
+            ? JSON.stringify({ nonce: action.nonce, signature: action.signature, _csrf: csrfToken })
+            : undefined
+    });
+    if (!response.ok) {
+        const stepUp = await readStepUpError(response);
+        if (stepUp) throw stepUp;
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || 'Request failed');
+    }
+    return response.json();
+}
+
+/**
+ * Lets a contributor receive bounties in their own wallet instead of the custodial one
+ */
+export function PayoutWalletLink() {
+    const [isSigning, setIsSigning] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [pending, setPending] = useState<{ action: PendingAction; error: StepUpRequiredError; retried: boolean } | null>(null);
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+
+    const { data, isLoading } = useQuery<PayoutAddressResponse>({
+        queryKey: ['payout-address'],
+        queryFn: () => api.get('/api/wallet/payout-address'),
+    });
+
+    const submit = async (action: PendingAction, stepUpCode?: string) => {
+        setIsSubmitting(true);
+        try {
+            await sendPayoutAddressRequest(action, stepUpCode);
+            setPending(null);
+            queryClient.invalidateQueries({ queryKey: ['payout-address'] });
+            toast({
+                title: action.kind === 'link' ? 'Wallet linked' : 'Wallet unlinked',
+                description: action.kind === 'link'
+                    ? 'New bounty payouts will be sent to your own wallet.'
+                    : 'Bounty payouts will go to your Roxonn wallet again.'
+            });
+        } catch (err: any) {
+            if (err instanceof StepUpRequiredError) {
+                setPending({ action, error: err, retried: !!stepUpCode });
+                return;
+            }
+            setPending(null);
+            toast({ title: 'Error', description: err.message, variant: 'destructive' });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleLink = async () => {
+        if (!window.ethereum) {
+            toast({ title: 'No wallet found', description: 'Install MetaMask or another browser wallet to link it.', variant: 'destructive' });
+            return;
+        }
+        setIsSigning(true);
+        try {
+            const [address] = await window.ethereum.request({ method: 'eth_requestAccounts' });
+            const challenge = await api.post<{ nonce: string; message: string }>('/api/wallet/payout-address/challenge', { address });
+            const signature = await window.ethereum.request({ method: 'personal_sign', params: [challenge.message, address] });
+            await submit({ kind: 'link', nonce: challenge.nonce, signature });
+        } catch (err: any) {
+            toast({
+                title: 'Could not link wallet',
+                description: err.code === 4001 ? 'You rejected the request.' : 'Failed to sign the challenge',
+                variant: 'destructive'
+            });
+        } finally {
+            setIsSigning(false);
+        }
+    };
+
+    if (isLoading) {
+        return <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />;
+    }
+
+    return (
+        <div className="card-noir p-6">
+            <div className="flex items-center justify-between gap-3 mb-2">
+                <div className="flex items-center gap-3">
+                    <div className="p-2 rounded-lg bg-violet-500/10 text-violet-500">
+                        <Link2 className="w-5 h-5" />
+                    </div>
+                    <div>
+                        <h3 className="font-semibold">Payout Wallet</h3>
+                        <p className="text-sm text-muted-foreground">
+                            Receive bounties in a wallet you control. Your Roxonn wallet is used when none is linked.
+                        </p>
+                    </div>
+                </div>
+                {data?.payoutAddress && (
+                    <Badge variant="outline">{data.payoutAddress.source === 'linked' ? 'Self-custody' : 'Roxonn wallet'}</Badge>
+                )}
+            </div>
+
+            {data?.linkedWallet ? (
+                <div className="flex items-center justify-between gap-3 rounded-lg bg-muted/30 p-3 mt-4">
+                    <p className="font-mono text-xs truncate">{data.linkedWallet.address}</p>
+                    <Button variant="outline" size="sm" onClick={() => submit({ kind: 'unlink' })} disabled={isSubmitting}>
+                        <Unlink className="w-4 h-4 mr-2" />
+                        Unlink
+                    </Button>
+                </div>
+            ) : (
+                <Button className="mt-4" onClick={handleLink} disabled={isSigning || isSubmitting}>
+                    {isSigning ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Link2 className="w-4 h-4 mr-2" />}
+                    Link External Wallet
+                </Button>
+            )}
+
+            <StepUpDialog
+                purpose={pending ? 'payout_address' : null}
+                totpEnabled={pending?.error.totpEnabled}
+                error={pending?.retried ? pending.error.message : null}
+                isSubmitting={isSubmitting}
+                onSubmit={(code) => pending && submit(pending.action, code)}
+                onCancel={() => setPending(null)}
+            />
+        </div>
+    );
+}
@@ -1,110 +1,231 @@
 import { useState } from 'react';
-import { useQuery, useMutation } from '@tanstack/react-query';
-import { blockchainApi } from '../lib/blockchain';
-import { Button } from './ui/button';
-import { Input } from './ui/input';
-import { Card } from './ui/card';
-import { Label } from './ui/label';
-import { useToast } from '../hooks/use-toast';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, UserPlus, Trash2 } from 'lucide-react';
+import type { RepositoryManager, BountyAllocationCaps } from '@shared/schema';
+
+type ManagerRole = RepositoryManager['role'];
+type CapCurrency = keyof BountyAllocationCaps;
+
+const CAP_CURRENCIES: CapCurrency[] = ['XDC', 'ROXN', 'USDC'];
+
+const ROLE_DESCRIPTIONS: Record<ManagerRole, string> = {
+    owner: 'Allocates, cancels and pays out bounties, and manages the team',
+    allocator: 'Allocates and cancels bounties up to a per-bounty cap',
+    viewer: 'Sees the team and bounty pool',
+};
+
+interface RepositoryTeamResponse {
+    poolManagers: { githubUsername: string; role: 'owner' }[];
+    members: RepositoryManager[];
+}
 
 interface PoolManagersProps {
     repoId: number;
+    canManage: boolean;
+}
+
+function formatCaps(caps: BountyAllocationCaps): string {
+    const entries = CAP_CURRENCIES.filter(currency => caps[currency]).map(currency => `${caps[currency]} ${currency}`);
+    return entries.length > 0 ? entries.join(' · ') : 'No cap set';
+}
+
+function cleanCaps(caps: BountyAllocationCaps): BountyAllocationCaps {
+    return Object.fromEntries(
+        Object.entries(caps).filter(([, amount]) => amount && amount.trim() !== '')
+    ) as BountyAllocationCaps;
 }
 
-export function PoolManagers({ repoId }: PoolManagersProps) {
+/**
+ * Bounty team for a repository: on-chain pool managers plus delegated owners, allocators and viewers
+ */
+export function PoolManagers({ repoId, canManage }: PoolManagersProps) {
     const [username, setUsername] = useState('');
-    const [githubId, setGithubId] = useState('');
-    const [walletAddress, setWalletAddress] = useState('');
+    const [role, setRole] = useState<ManagerRole>('allocator');
+    const [caps, setCaps] = useState<BountyAllocationCaps>({});
     const { toast } = useToast();
+    const queryClient = useQueryClient();
 
-    const { data: repository, refetch } = useQuery({
-        queryKey: ['repository', repoId],
-        queryFn: () => blockchainApi.getRepository(repoId)
+    const { data: team, isLoading } = useQuery<RepositoryTeamResponse>({
+        queryKey: ['repository-managers', repoId],
+        queryFn: () => api.get(`/api/repositories/${repoId}/managers`),
     });
 
-    const addPoolManagerMutation = useMutation({
-        mutationFn: () => blockchainApi.addPoolManager(repoId, walletAddress, username, parseInt(githubId)),
+    const invalidateTeam = () => queryClient.invalidateQueries({ queryKey: ['repository-managers', repoId] });
+
+    const inviteMutation = useMutation({
+        mutationFn: () => api.post(`/api/repositories/${repoId}/managers`, {
+            githubUsername: username.trim(),
+            role,
+            allocationCaps: role === 'allocator' ? cleanCaps(caps) : {},
+        }),
         onSuccess: () => {
-            toast({
-                title: 'Success',
-                description: 'Pool manager added successfully'
-            });
+            toast({ title: 'Invite sent', description: `${username.trim()} can accept it from this repository's page` });
             setUsername('');
-            setGithubId('');
-            setWalletAddress('');
-            refetch();
+            setCaps({});
+            invalidateTeam();
         },
-        onError: (error) => {
+        onError: (error: Error) => {
             toast({
                 title: 'Error',
-                description: 'Failed to add pool manager',
+                description: error.message.includes('409')
+                    ? `${username.trim()} is already a member or has a pending invite`
+                    : 'Failed to send invite',
                 variant: 'destructive'
             });
         }
     });
 
-    const handleAddPoolManager = () => {
-        if (!username || !githubId || !walletAddress) return;
-        addPoolManagerMutation.mutate();
-    };
+    const updateRoleMutation = useMutation({
+        mutationFn: (member: RepositoryManager & { nextRole: ManagerRole }) =>
+            api.patch(`/api/repositories/${repoId}/managers/${member.id}`, {
+                role: member.nextRole,
+                allocationCaps: member.allocationCaps,
+            }),
+        onSuccess: invalidateTeam,
+        onError: () => {
+            toast({ title: 'Error', description: 'Failed to update role', variant: 'destructive' });
+        }
+    });
+
+    const revokeMutation = useMutation({
+        mutationFn: (id: number) => api.delete(`/api/repositories/${repoId}/managers/${id}`),
+        onSuccess: invalidateTeam,
+        onError: () => {
+            toast({ title: 'Error', description: 'Failed to remove manager', variant: 'destructive' });
+        }
+    });
+
+    const hasCap = CAP_CURRENCIES.some(currency => caps[currency]?.trim());
+    const canInvite = !!username.trim() && (role !== 'allocator' || hasCap) && !inviteMutation.isPending;
+
+    if (isLoading) {
+        return (
+            <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+        );
+    }
 
     return (
-        <Card className="p-4">
-            <div className="space-y-4">
-                <div>
-                    <h3 className="text-lg font-semibold mb-2">Pool Managers</h3>
-                    {repository && repository.poolManagers.length > 0 && (
-                        <div className="space-y-2 mb-4">
-                            {repository.poolManagers.map((manager, index) => (
-                                <div key={index} className="text-sm font-mono">
-                                    {manager}
-                                </div>
-                            ))}
+        <div className="space-y-6">
+            <div className="space-y-2">
+                <h3 className="font-semibold">Bounty Team</h3>
+                {team?.poolManagers.map(manager => (
+                    <div key={manager.githubUsername} className="flex items-center justify-between rounded-lg border border-border/50 px-4 py-3">
+                        <span className="font-mono text-sm">@{manager.githubUsername}</span>
+                        <Badge className="bg-cyan-500/20 text-cyan-400 border-cyan-500/30">Pool manager</Badge>
+                    </div>
+                ))}
+                {team?.members.map(member => (
+                    <div key={member.id} className="flex items-center justify-between gap-4 rounded-lg border border-border/50 px-4 py-3">
+                        <div>
+                            <span className="font-mono text-sm">@{member.githubUsername}</span>
+                            {member.role === 'allocator' && (
+                                <p className="text-xs text-muted-foreground">Cap per bounty: {formatCaps(member.allocationCaps)}</p>
+                            )}
+                        </div>
+                        <div className="flex items-center gap-2">
+                            {member.status === 'pending' && (
+                                <Badge className="bg-amber-500/20 text-amber-400 border-amber-500/30">Invited</Badge>
+                            )}
+                            {canManage ? (
+                                <>
+                                    <Select
+                                        value={member.role}
+                                        onValueChange={(value) => updateRoleMutation.mutate({ ...member, nextRole: value as ManagerRole })}
+                                    >
+                                        <SelectTrigger className="w-32">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="owner">Owner</SelectItem>
+                                            <SelectItem value="allocator">Allocator</SelectItem>
+                                            <SelectItem value="viewer">Viewer</SelectItem>
+                                        </SelectContent>
+                                    </Select>
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        onClick={() => revokeMutation.mutate(member.id)}
+                                        disabled={revokeMutation.isPending}
+                                        className="text-muted-foreground hover:text-red-400"
+                                    >
+                                        <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                </>
+                            ) : (
+                                <Badge variant="outline" className="capitalize">{member.role}</Badge>
+                            )}
                         </div>
-                    )}
-                </div>
-
-                <div className="space-y-4">
-                    <div>
-                        <Label htmlFor="username">GitHub Username</Label>
-                        <Input
-                            id="username"
-                            value={username}
-                            onChange={(e) => setUsername(e.target.value)}
-                            placeholder="username"
-                        />
                     </div>
+                ))}
+                {team && team.poolManagers.length === 0 && team.members.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No pool managers yet.</p>
+                )}
+            </div>
 
-                    <div>
-                        <Label htmlFor="githubId">GitHub ID</Label>
-                        <Input
-                            id="githubId"
-                            type="number"
-                            value={githubId}
-                            onChange={(e) => setGithubId(e.target.value)}
-                            placeholder="123456"
-                        />
+            {canManage && (
+                <div className="space-y-4 rounded-lg border border-border/50 p-4">
+                    <h4 className="font-medium">Invite a manager</h4>
+                    <div className="grid gap-4 sm:grid-cols-2">
+                        <div className="space-y-1">
+                            <Label htmlFor="manager-username">GitHub Username</Label>
+                            <Input
+                                id="manager-username"
+                                value={username}
+                                onChange={(e) => setUsername(e.target.value)}
+                                placeholder="username"
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <Label>Role</Label>
+                            <Select value={role} onValueChange={(value) => setRole(value as ManagerRole)}>
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="owner">Owner</SelectItem>
+                                    <SelectItem value="allocator">Allocator</SelectItem>
+                                    <SelectItem value="viewer">Viewer</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
                     </div>
+                    <p className="text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[role]}</p>
 
-                    <div>
-                        <Label htmlFor="walletAddress">Wallet Address</Label>
-                        <Input
-                            id="walletAddress"
-                            value={walletAddress}
-                            onChange={(e) => setWalletAddress(e.target.value)}
-                            placeholder="0x..."
-                        />
-                    </div>
+                    {role === 'allocator' && (
+                        <div className="grid gap-4 sm:grid-cols-3">
+                            {CAP_CURRENCIES.map(currency => (
+                                <div key={currency} className="space-y-1">
+                                    <Label htmlFor={`cap-${currency}`}>{currency} cap per bounty</Label>
+                                    <Input
+                                        id={`cap-${currency}`}
+                                        inputMode="decimal"
+                                        value={caps[currency] ?? ''}
+                                        onChange={(e) => setCaps(prev => ({ ...prev, [currency]: e.target.value }))}
+                                        placeholder="0"
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                    )}
 
-                    <Button 
-                        onClick={handleAddPoolManager}
-                        disabled={!username || !githubId || !walletAddress || addPoolManagerMutation.isPending}
-                        className="w-full"
-                    >
-                        {addPoolManagerMutation.isPending ? 'Adding...' : 'Add Pool Manager'}
+                    <Button onClick={() => inviteMutation.mutate()} disabled={!canInvite} className="w-full">
+                        {inviteMutation.isPending ? (
+                            <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Inviting...</>
+                        ) : (
+                            <><UserPlus className="mr-2 h-4 w-4" />Send Invite</>
+                        )}
                     </Button>
                 </div>
-            </div>
-        </Card>
+            )}
+        </div>
     );
 }
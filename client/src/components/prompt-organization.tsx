@@ -0,0 +1,405 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Building2, Loader2, UserPlus, Trash2, LogOut, Check } from 'lucide-react';
+import type { PromptOrganization, PromptOrganizationMember, OrganizationUsageReportRow } from '@shared/schema';
+
+type MemberRole = PromptOrganizationMember['role'];
+type MemberWithUsage = PromptOrganizationMember & { monthlyUsed: number };
+
+interface MyOrganizationResponse {
+    organization: PromptOrganization | null;
+    membership: MemberWithUsage | null;
+    invites: (PromptOrganizationMember & { organizationName: string })[];
+}
+
+interface UsageReportResponse {
+    month: string;
+    rows: OrganizationUsageReportRow[];
+}
+
+function parseCap(value: string): number | null {
+    const cap = parseInt(value, 10);
+    return isNaN(cap) || cap <= 0 ? null : cap;
+}
+
+function formatUsage(used: number, cap: number | null): string {
+    return cap === null ? `${used} used this month` : `${used} / ${cap} this month`;
+}
+
+/**
+ * Shared VS Code AI prompt pool: join or create an organisation, and for its admins,
+ * manage members, monthly caps and usage reports
+ */
+export function PromptOrganizationPanel() {
+    const [name, setName] = useState('');
+    const [depositAmount, setDepositAmount] = useState('');
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+
+    const { data, isLoading } = useQuery<MyOrganizationResponse>({
+        queryKey: ['prompt-organization'],
+        queryFn: () => api.get('/api/prompt-organizations/me'),
+    });
+
+    const invalidate = () => queryClient.invalidateQueries({ queryKey: ['prompt-organization'] });
+
+    const createMutation = useMutation({
+        mutationFn: () => api.post('/api/prompt-organizations', { name: name.trim() }),
+        onSuccess: () => {
+            setName('');
+            invalidate();
+        },
+        onError: (error: Error) => {
+            toast({
+                title: 'Error',
+                description: error.message.includes('409') ? 'You are already a member of an organisation' : 'Failed to create organisation',
+                variant: 'destructive'
+            });
+        }
+    });
+
+    const acceptMutation = useMutation({
+        mutationFn: (id: number) => api.post(`/api/user/prompt-organization-invites/${id}/accept`),
+        onSuccess: invalidate,
+        onError: (error: Error) => {
+            toast({
+                title: 'Error',
+                description: error.message.includes('409') ? 'Leave your current organisation before joining another' : 'Failed to accept invite',
+                variant: 'destructive'
+            });
+        }
+    });
+
+    const depositMutation = useMutation({
+        mutationFn: (organizationId: number) =>
+            api.post<{ userBalance: number; poolBalance: number }>(`/api/prompt-organizations/${organizationId}/deposit`, { prompts: parseInt(depositAmount, 10) }),
+        onSuccess: (balances) => {
+            toast({ title: 'Prompts deposited', description: `The pool now holds ${balances.poolBalance} prompts` });
+            setDepositAmount('');
+            invalidate();
+        },
+        onError: () => {
+            toast({ title: 'Error', description: 'Failed to deposit prompts. Check your prompt balance.', variant: 'destructive' });
+        }
+    });
+
+    const leaveMutation = useMutation({
+        mutationFn: (member: PromptOrganizationMember) => api.delete(`/api/prompt-organizations/${member.organizationId}/members/${member.id}`),
+        onSuccess: invalidate,
+        onError: (error: Error) => {
+            toast({
+                title: 'Error',
+                description: error.message.includes('409') ? 'Make another member an admin before leaving' : 'Failed to leave organisation',
+                variant: 'destructive'
+            });
+        }
+    });
+
+    if (isLoading) {
+        return (
+            <div className="card-noir p-6 flex justify-center">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+        );
+    }
+
+    const organization = data?.organization;
+    const membership = data?.membership;
+    const depositValid = parseInt(depositAmount, 10) > 0;
+
+    return (
+        <div className="card-noir p-6 space-y-6">
+            <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-violet-500/10 text-violet-500">
+                    <Building2 className="w-5 h-5" />
+                </div>
+                <div>
+                    <h3 className="font-semibold">{organization ? organization.name : 'Organisation Prompt Pool'}</h3>
+                    <p className="text-sm text-muted-foreground">
+                        {organization
+                            ? 'Your VS Code AI requests draw from this shared pool.'
+                            : 'Share one pool of VS Code AI prompts across your team.'}
+                    </p>
+                </div>
+            </div>
+
+            {organization && membership ? (
+                <>
+                    <div className="grid gap-4 sm:grid-cols-2">
+                        <div className="rounded-lg bg-muted/30 p-4">
+                            <p className="text-xs text-muted-foreground">Pool balance</p>
+                            <p className="text-2xl font-semibold">{organization.promptBalance}</p>
+                        </div>
+                        <div className="rounded-lg bg-muted/30 p-4">
+                            <p className="text-xs text-muted-foreground">Your usage</p>
+                            <p className="text-2xl font-semibold">{formatUsage(membership.monthlyUsed, membership.monthlyPromptCap)}</p>
+                        </div>
+                    </div>
+
+                    <div className="flex items-end gap-3">
+                        <div className="space-y-1 flex-1">
+                            <Label htmlFor="pool-deposit">Deposit prompts from your balance</Label>
+                            <Input
+                                id="pool-deposit"
+                                inputMode="numeric"
+                                value={depositAmount}
+                                onChange={(e) => setDepositAmount(e.target.value)}
+                                placeholder="100"
+                            />
+                        </div>
+                        <Button onClick={() => depositMutation.mutate(organization.id)} disabled={!depositValid || depositMutation.isPending}>
+                            {depositMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Deposit'}
+                        </Button>
+                        <Button variant="outline" onClick={() => leaveMutation.mutate(membership)} disabled={leaveMutation.isPending}>
+                            <LogOut className="mr-2 h-4 w-4" />Leave
+                        </Button>
+                    </div>
+
+                    {membership.role === 'admin' && <OrganizationAdmin organizationId={organization.id} />}
+                </>
+            ) : (
+                <>
+                    {data?.invites.map(invite => (
+                        <div key={invite.id} className="flex items-center justify-between rounded-lg border border-border/50 px-4 py-3">
+                            <div>
+                                <p className="font-medium">{invite.organizationName}</p>
+                                <p className="text-xs text-muted-foreground capitalize">
+                                    Invited as {invite.role}
+                                    {invite.monthlyPromptCap !== null && ` · ${invite.monthlyPromptCap} prompts per month`}
+                                </p>
+                            </div>
+                            <Button size="sm" onClick={() => acceptMutation.mutate(invite.id)} disabled={acceptMutation.isPending}>
+                                <Check className="mr-2 h-4 w-4" />Join
+                            </Button>
+                        </div>
+                    ))}
+                    <div className="flex items-end gap-3">
+                        <div className="space-y-1 flex-1">
+                            <Label htmlFor="organization-name">Create an organisation</Label>
+                            <Input
+                                id="organization-name"
+                                value={name}
+                                onChange={(e) => setName(e.target.value)}
+                                placeholder="Company name"
+                            />
+                        </div>
+                        <Button onClick={() => createMutation.mutate()} disabled={name.trim().length < 2 || createMutation.isPending}>
+                            {createMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Create'}
+                        </Button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
+
+/**
+ * Members, invites and the monthly usage report, for organisation admins
+ */
+function OrganizationAdmin({ organizationId }: { organizationId: number }) {
+    const [username, setUsername] = useState('');
+    const [role, setRole] = useState<MemberRole>('member');
+    const [cap, setCap] = useState('');
+    const [month, setMonth] = useState(format(new Date(), 'yyyy-MM'));
+    const [capEdits, setCapEdits] = useState<Record<number, string>>({});
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+
+    const { data: team } = useQuery<{ members: MemberWithUsage[] }>({
+        queryKey: ['prompt-organization-members', organizationId],
+        queryFn: () => api.get(`/api/prompt-organizations/${organizationId}/members`),
+    });
+
+    const { data: report, isLoading: reportLoading } = useQuery<UsageReportResponse>({
+        queryKey: ['prompt-organization-usage', organizationId, month],
+        queryFn: () => api.get(`/api/prompt-organizations/${organizationId}/usage?month=${month}`),
+        enabled: /^\d{4}-\d{2}$/.test(month),
+    });
+
+    const invalidateTeam = () => {
+        queryClient.invalidateQueries({ queryKey: ['prompt-organization-members', organizationId] });
+        queryClient.invalidateQueries({ queryKey: ['prompt-organization'] });
+    };
+
+    const conflictMessage = (error: Error, fallback: string) =>
+        error.message.includes('409') ? 'An organisation needs at least one admin' : fallback;
+
+    const inviteMutation = useMutation({
+        mutationFn: () => api.post(`/api/prompt-organizations/${organizationId}/members`, {
+            githubUsername: username.trim(),
+            role,
+            monthlyPromptCap: parseCap(cap),
+        }),
+        onSuccess: () => {
+            toast({ title: 'Invite sent', description: `${username.trim()} can accept it from their profile` });
+            setUsername('');
+            setCap('');
+            invalidateTeam();
+        },
+        onError: (error: Error) => {
+            toast({
+                title: 'Error',
+                description: error.message.includes('409')
+                    ? `${username.trim()} is already a member or has a pending invite`
+                    : 'Failed to send invite',
+                variant: 'destructive'
+            });
+        }
+    });
+
+    const updateMutation = useMutation({
+        mutationFn: (member: { id: number; role: MemberRole; monthlyPromptCap: number | null }) =>
+            api.patch(`/api/prompt-organizations/${organizationId}/members/${member.id}`, {
+                role: member.role,
+                monthlyPromptCap: member.monthlyPromptCap,
+            }),
+        onSuccess: invalidateTeam,
+        onError: (error: Error) => {
+            toast({ title: 'Error', description: conflictMessage(error, 'Failed to update member'), variant: 'destructive' });
+        }
+    });
+
+    const revokeMutation = useMutation({
+        mutationFn: (id: number) => api.delete(`/api/prompt-organizations/${organizationId}/members/${id}`),
+        onSuccess: invalidateTeam,
+        onError: (error: Error) => {
+            toast({ title: 'Error', description: conflictMessage(error, 'Failed to remove member'), variant: 'destructive' });
+        }
+    });
+
+    const saveCap = (member: MemberWithUsage) => {
+        const edit = capEdits[member.id];
+        if (edit === undefined) return;
+        updateMutation.mutate({ id: member.id, role: member.role, monthlyPromptCap: parseCap(edit) });
+        setCapEdits(prev => {
+            const { [member.id]: _, ...rest } = prev;
+            return rest;
+        });
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="space-y-2">
+                <h4 className="font-medium">Members</h4>
+                {team?.members.map(member => (
+                    <div key={member.id} className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-border/50 px-4 py-3">
+                        <div>
+                            <span className="font-mono text-sm">@{member.githubUsername}</span>
+                            <p className="text-xs text-muted-foreground">{formatUsage(member.monthlyUsed, member.monthlyPromptCap)}</p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            {member.status === 'pending' && (
+                                <Badge className="bg-amber-500/20 text-amber-400 border-amber-500/30">Invited</Badge>
+                            )}
+                            <Input
+                                className="w-28"
+                                inputMode="numeric"
+                                placeholder="No cap"
+                                value={capEdits[member.id] ?? member.monthlyPromptCap?.toString() ?? ''}
+                                onChange={(e) => setCapEdits(prev => ({ ...prev, [member.id]: e.target.value }))}
+                                onBlur={() => saveCap(member)}
+                            />
+                            <Select
+                                value={member.role}
+                                onValueChange={(value) => updateMutation.mutate({ id: member.id, role: value as MemberRole, monthlyPromptCap: member.monthlyPromptCap })}
+                            >
+                                <SelectTrigger className="w-28">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="admin">Admin</SelectItem>
+                                    <SelectItem value="member">Member</SelectItem>
+                                </SelectContent>
+                            </Select>
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => revokeMutation.mutate(member.id)}
+                                disabled={revokeMutation.isPending}
+                                className="text-muted-foreground hover:text-red-400"
+                            >
+                                <Trash2 className="h-4 w-4" />
+                            </Button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <div className="space-y-4 rounded-lg border border-border/50 p-4">
+                <h4 className="font-medium">Invite a member</h4>
+                <div className="grid gap-4 sm:grid-cols-3">
+                    <div className="space-y-1">
+                        <Label htmlFor="org-member-username">GitHub Username</Label>
+                        <Input id="org-member-username" value={username} onChange={(e) => setUsername(e.target.value)} placeholder="username" />
+                    </div>
+                    <div className="space-y-1">
+                        <Label>Role</Label>
+                        <Select value={role} onValueChange={(value) => setRole(value as MemberRole)}>
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="admin">Admin</SelectItem>
+                                <SelectItem value="member">Member</SelectItem>
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-1">
+                        <Label htmlFor="org-member-cap">Monthly prompt cap</Label>
+                        <Input id="org-member-cap" inputMode="numeric" value={cap} onChange={(e) => setCap(e.target.value)} placeholder="No cap" />
+                    </div>
+                </div>
+                <Button onClick={() => inviteMutation.mutate()} disabled={!username.trim() || inviteMutation.isPending} className="w-full">
+                    {inviteMutation.isPending ? (
+                        <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Inviting...</>
+                    ) : (
+                        <><UserPlus className="mr-2 h-4 w-4" />Send Invite</>
+                    )}
+                </Button>
+            </div>
+
+            <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                    <h4 className="font-medium">Usage report</h4>
+                    <Input type="month" className="w-40" value={month} onChange={(e) => setMonth(e.target.value)} />
+                </div>
+                {reportLoading ? (
+                    <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                ) : report && report.rows.length > 0 ? (
+                    <table className="w-full text-sm">
+                        <thead className="text-left text-xs text-muted-foreground">
+                            <tr>
+                                <th className="py-1">Member</th>
+                                <th className="py-1">Model</th>
+                                <th className="py-1 text-right">Requests</th>
+                                <th className="py-1 text-right">Tokens in / out</th>
+                                <th className="py-1 text-right">Prompts</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {report.rows.map(row => (
+                                <tr key={`${row.userId}-${row.model}`} className="border-t border-border/50">
+                                    <td className="py-1 font-mono">@{row.githubUsername ?? row.userId}</td>
+                                    <td className="py-1">{row.model}</td>
+                                    <td className="py-1 text-right">{row.requests}</td>
+                                    <td className="py-1 text-right">{row.inputTokens.toLocaleString()} / {row.outputTokens.toLocaleString()}</td>
+                                    <td className="py-1 text-right">{row.promptsCharged}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                ) : (
+                    <p className="text-sm text-muted-foreground">No usage in this month.</p>
+                )}
+            </div>
+        </div>
+    );
+}
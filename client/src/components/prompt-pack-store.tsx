@@ -0,0 +1,271 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CreditCard, Loader2, Sparkles, Wallet } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import api from '@/lib/api';
+import csrfService from '@/lib/csrf';
+import { STAGING_API_URL } from '@/config';
+import { StepUpRequiredError, readStepUpError } from '@/lib/step-up';
+import { StepUpDialog } from '@/components/step-up-dialog';
+import type { PromptPack, PromptPackPurchase } from '@shared/schema';
+
+interface CurrenciesResponse {
+    popular: { code: string; name: string; flag: string; fiatType: number }[];
+}
+
+interface PurchasesResponse {
+    purchases: PromptPackPurchase[];
+    promptBalance: number;
+}
+
+const STATUS_STYLES: Record<PromptPackPurchase['status'], string> = {
+    pending: 'bg-amber-500/20 text-amber-400 border-amber-500/30',
+    credited: 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30',
+    failed: 'bg-red-500/20 text-red-400 border-red-500/30',
+};
+
+function formatPrice(pack: PromptPack): string {
+    return `${(pack.priceMicros / 1_000_000).toFixed(2)} ${pack.currencyCode}`;
+}
+
+// Larger packs need a step-up code, so the purchase goes through fetch to read the 401 body
+async function sendWalletPurchase(packId: string, stepUpCode?: string): Promise<PromptPackPurchase> {
+    const csrfToken = await csrfService.getToken();
+    const response = await fetch(`${STAGING_API_URL}/api/prompt-packs/${packId}/wallet-purchase`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: {
+            'Content-Type': 'application/json',
+            'X-CSRF-Token': csrfToken,
+            ...(stepUpCode ? { 'X-Step-Up-Code': stepUpCode } : {})
+        },
+        body: JSON.stringify({ _csrf: csrfToken })
+    });
+    if (!response.ok) {
+        const stepUp = await readStepUpError(response);
+        if (stepUp) throw stepUp;
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || 'Check your USDC balance and transfer limits, then try again.');
+    }
+    return response.json();
+}
+
+/**
+ * Prompt pack storefront: buy VS Code AI prompts by card or bank through Onramp, or with USDC from the Roxonn wallet
+ */
+export function PromptPackStore() {
+    const [fiatType, setFiatType] = useState<number | undefined>(undefined);
+    const [orderIds, setOrderIds] = useState<Record<number, string>>({});
+    const [checkoutPackId, setCheckoutPackId] = useState<string | null>(null);
+    const [walletStepUp, setWalletStepUp] = useState<{ packId: string; error: StepUpRequiredError; retried: boolean } | null>(null);
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+
+    const { data: packs, isLoading } = useQuery<{ packs: PromptPack[] }>({
+        queryKey: ['prompt-packs'],
+        queryFn: () => api.get('/api/prompt-packs'),
+    });
+
+    const { data: currencies } = useQuery<CurrenciesResponse>({
+        queryKey: ['subscription-currencies'],
+        queryFn: () => api.get('/api/subscription/currencies'),
+        staleTime: Infinity
+    });
+
+    const { data: history } = useQuery<PurchasesResponse>({
+        queryKey: ['prompt-pack-purchases'],
+        queryFn: () => api.get('/api/prompt-packs/purchases'),
+    });
+
+    const invalidatePurchases = () => queryClient.invalidateQueries({ queryKey: ['prompt-pack-purchases'] });
+
+    // The webhook credits the purchase, so refresh the history for a while after the widget reports completion
+    const pollPurchases = () => {
+        let attempts = 0;
+        const interval = setInterval(() => {
+            attempts++;
+            invalidatePurchases();
+            if (attempts >= 15) clearInterval(interval);
+        }, 2000);
+    };
+
+    const walletMutation = useMutation({
+        mutationFn: ({ packId, stepUpCode }: { packId: string; stepUpCode?: string }) => sendWalletPurchase(packId, stepUpCode),
+        onSuccess: (purchase) => {
+            setWalletStepUp(null);
+            toast({ title: 'Prompts added', description: `${purchase.promptAmount} prompts were added to your balance` });
+            invalidatePurchases();
+        },
+        onError: (error: Error, { packId, stepUpCode }) => {
+            if (error instanceof StepUpRequiredError) {
+                setWalletStepUp({ packId, error, retried: !!stepUpCode });
+                return;
+            }
+            setWalletStepUp(null);
+            toast({ title: 'Payment failed', description: error.message, variant: 'destructive' });
+            invalidatePurchases();
+        }
+    });
+
+    const verifyMutation = useMutation({
+        mutationFn: (purchase: PromptPackPurchase) =>
+            api.post<PromptPackPurchase>(`/api/prompt-packs/purchases/${purchase.id}/verify`, {
+                orderId: orderIds[purchase.id]?.trim() || undefined,
+            }),
+        onSuccess: (purchase) => {
+            toast(purchase.status === 'credited'
+                ? { title: 'Purchase confirmed', description: `${purchase.promptAmount} prompts were added to your balance` }
+                : { title: 'Still pending', description: 'The payment has not been confirmed yet.' });
+            invalidatePurchases();
+        },
+        onError: () => {
+            toast({ title: 'Verification failed', description: 'The order could not be confirmed. Check the Order ID from your receipt.', variant: 'destructive' });
+        }
+    });
+
+    const handleCheckout = async (pack: PromptPack) => {
+        setCheckoutPackId(pack.id);
+        try {
+            const { checkout } = await api.post(`/api/prompt-packs/${pack.id}/checkout`, {
+                fiatType,
+                logoUrl: `${window.location.origin}/favicon.png`,
+            });
+            invalidatePurchases();
+
+            const { OnrampWebSDK } = await import('@onramp.money/onramp-web-sdk');
+            const onrampInstance = new OnrampWebSDK({
+                ...checkout,
+                fiatAmount: Number(checkout.fiatAmount),
+                fiatType: Number(checkout.fiatType),
+                flowType: Number(checkout.flowType),
+            });
+            onrampInstance.on('TX_EVENTS', (e: any) => {
+                if (e.type === 'ONRAMP_WIDGET_TX_COMPLETED') {
+                    pollPurchases();
+                }
+            });
+            onrampInstance.on('WIDGET_EVENTS', (e: any) => {
+                if (e.type === 'ONRAMP_WIDGET_CLOSE_REQUEST_CONFIRMED') {
+                    setCheckoutPackId(null);
+                }
+            });
+            onrampInstance.show();
+        } catch (err) {
+            toast({ title: 'Checkout failed', description: 'Please try again later.', variant: 'destructive' });
+            setCheckoutPackId(null);
+        }
+    };
+
+    return (
+        <div className="card-noir p-6 space-y-6">
+            <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                    <div className="p-2 rounded-lg bg-cyan-500/10 text-cyan-500">
+                        <Sparkles className="w-5 h-5" />
+                    </div>
+                    <div>
+                        <h3 className="font-semibold">VS Code AI Prompts</h3>
+                        <p className="text-sm text-muted-foreground">
+                            Balance: {history?.promptBalance ?? '—'} prompts
+                        </p>
+                    </div>
+                </div>
+                <Select value={fiatType?.toString()} onValueChange={(value) => setFiatType(parseInt(value, 10))}>
+                    <SelectTrigger className="w-32">
+                        <SelectValue placeholder="Currency" />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {currencies?.popular.map(currency => (
+                            <SelectItem key={currency.code} value={currency.fiatType.toString()}>
+                                {currency.flag} {currency.code}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+
+            {isLoading ? (
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            ) : packs && packs.packs.length > 0 ? (
+                <div className="grid gap-4 sm:grid-cols-2">
+                    {packs.packs.map(pack => (
+                        <div key={pack.id} className="rounded-lg border border-border/50 p-4 space-y-3">
+                            <div>
+                                <p className="font-medium">{pack.name}</p>
+                                <p className="text-sm text-muted-foreground">{pack.promptAmount} prompts · {formatPrice(pack)}</p>
+                                {pack.description && <p className="text-xs text-muted-foreground mt-1">{pack.description}</p>}
+                            </div>
+                            <div className="flex gap-2">
+                                <Button size="sm" onClick={() => handleCheckout(pack)} disabled={checkoutPackId !== null}>
+                                    {checkoutPackId === pack.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CreditCard className="mr-2 h-4 w-4" />}
+                                    Buy
+                                </Button>
+                                <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => walletMutation.mutate({ packId: pack.id })}
+                                    disabled={walletMutation.isPending}
+                                >
+                                    {walletMutation.isPending && walletMutation.variables?.packId === pack.id
+                                        ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                        : <Wallet className="mr-2 h-4 w-4" />}
+                                    Pay with USDC
+                                </Button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <p className="text-sm text-muted-foreground">No prompt packs are on sale right now.</p>
+            )}
+
+            {history && history.purchases.length > 0 && (
+                <div className="space-y-2">
+                    <h4 className="font-medium">Purchases</h4>
+                    {history.purchases.map(purchase => (
+                        <div key={purchase.id} className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-border/50 px-4 py-3 text-sm">
+                            <div>
+                                <p>{purchase.promptAmount} prompts · {purchase.priceUsdc} USDC</p>
+                                <p className="text-xs text-muted-foreground">
+                                    {new Date(purchase.createdAt).toLocaleString()}
+                                    {purchase.onrampOrderId && ` · Order ${purchase.onrampOrderId}`}
+                                </p>
+                            </div>
+                            <div className="flex items-center gap-2">
+                                {purchase.status === 'pending' && (
+                                    <>
+                                        {purchase.paymentMethod === 'onramp_merchant' && (
+                                            <Input
+                                                className="w-40"
+                                                placeholder="Order ID"
+                                                value={orderIds[purchase.id] ?? ''}
+                                                onChange={(e) => setOrderIds(prev => ({ ...prev, [purchase.id]: e.target.value }))}
+                                            />
+                                        )}
+                                        <Button size="sm" variant="outline" onClick={() => verifyMutation.mutate(purchase)} disabled={verifyMutation.isPending}>
+                                            Verify
+                                        </Button>
+                                    </>
+                                )}
+                                <Badge className={`capitalize ${STATUS_STYLES[purchase.status]}`}>{purchase.status}</Badge>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <StepUpDialog
+                purpose={walletStepUp ? 'transfer' : null}
+                totpEnabled={walletStepUp?.error.totpEnabled}
+                error={walletStepUp?.retried ? walletStepUp.error.message : null}
+                isSubmitting={walletMutation.isPending}
+                onSubmit={(code) => walletStepUp && walletMutation.mutate({ packId: walletStepUp.packId, stepUpCode: code })}
+                onCancel={() => setWalletStepUp(null)}
+            />
+        </div>
+    );
+}
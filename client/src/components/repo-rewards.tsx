@@ -7,7 +7,8 @@ import { Card } from './ui/card';
 import { Label } from './ui/label';
 import { useToast } from '../hooks/use-toast';
 import { ethers } from 'ethers';
-import { Loader2, AlertCircle, Info, RefreshCw } from 'lucide-react'; // Removed ArrowRight as it's not used
+import { Loader2, AlertCircle, Info, RefreshCw, Hourglass } from 'lucide-react'; // Removed ArrowRight as it's not used
+import { format, formatDistanceToNow } from 'date-fns';
 import { useWallet } from '../hooks/use-wallet';
 import { ROXN_TOKEN_ADDRESS, UNIFIED_REWARDS_CONTRACT_ADDRESS } from '../config';
 import { 
@@ -125,9 +126,9 @@ export function RepoRewards({ repoId, issueId, isPoolManager, repositoryFullName
     });
     
     const { data: fundingStatus, isLoading: fundingStatusLoading } = useQuery({
-        queryKey: ['repositoryFundingStatus', repoId],
-        queryFn: () => blockchainApi.getRepositoryFundingStatus(repoId),
-        enabled: isPoolManager && selectedCurrency === 'XDC',
+        queryKey: ['repositoryFundingStatus', repoId, selectedCurrency],
+        queryFn: () => blockchainApi.getRepositoryFundingStatus(repoId, selectedCurrency),
+        enabled: isPoolManager,
         refetchInterval: 60000 
     });
 
@@ -245,14 +246,32 @@ export function RepoRewards({ repoId, issueId, isPoolManager, repositoryFullName
                 toast({ title: 'Insufficient funds for gas', description: `Leave at least ${XDC_GAS_RESERVE} XDC for gas.`, variant: 'destructive' });
                 return;
             }
-            if (fundingStatus && amountValue > fundingStatus.remainingLimit) {
-                toast({ title: 'Exceeds daily funding limit', description: `Remaining: ${fundingStatus.remainingLimit.toFixed(2)} XDC.`, variant: 'destructive' });
+            if (fundingStatus && exceedsFundingLimit(amountValue)) {
                 return;
             }
         }
         addXDCFundsMutation.mutate(amountXdc);
     };
 
+    // The server enforces these too; checking here saves a rejected transaction
+    const exceedsFundingLimit = (amountValue: number) => {
+        if (!fundingStatus) return false;
+        const { currency } = fundingStatus;
+        if (amountValue > fundingStatus.perTransactionLimit) {
+            toast({ title: 'Exceeds per-transaction limit', description: `Maximum per funding: ${fundingStatus.perTransactionLimit} ${currency}.`, variant: 'destructive' });
+            return true;
+        }
+        if (amountValue > fundingStatus.remainingLimit) {
+            toast({ title: 'Exceeds daily funding limit', description: `Remaining: ${fundingStatus.remainingLimit.toFixed(2)} ${currency}.`, variant: 'destructive' });
+            return true;
+        }
+        if (amountValue > fundingStatus.weeklyRemaining) {
+            toast({ title: 'Exceeds weekly funding limit', description: `Remaining this week: ${fundingStatus.weeklyRemaining.toFixed(2)} ${currency}.`, variant: 'destructive' });
+            return true;
+        }
+        return false;
+    };
+
     const handleAllocateBounty = () => {
         if (!rewardAmount || parseFloat(rewardAmount) <= 0 || !issueId) return;
         const currencyType = selectedCurrency; // 'XDC', 'ROXN', or 'USDC'
@@ -264,6 +283,9 @@ export function RepoRewards({ repoId, issueId, isPoolManager, repositoryFullName
             toast({ title: 'Invalid Amount', description: 'Please enter a valid ROXN amount.', variant: 'destructive' });
             return;
         }
+        if (exceedsFundingLimit(parseFloat(amountRoxn))) {
+            return;
+        }
         if (parseFloat(amountRoxn) > parseFloat(roxnBalance)) {
             toast({ title: 'Insufficient ROXN Balance', variant: 'destructive' });
             return;
@@ -282,6 +304,9 @@ export function RepoRewards({ repoId, issueId, isPoolManager, repositoryFullName
             toast({ title: 'Invalid Amount', description: 'Please enter a valid USDC amount.', variant: 'destructive' });
             return;
         }
+        if (exceedsFundingLimit(parseFloat(amountUsdc))) {
+            return;
+        }
         // TODO: Add USDC balance check when balance query is implemented
         // For now, directly call the mutation which will handle approval + funding
         addUsdcFundsMutation.mutate(amountUsdc);
@@ -308,9 +333,9 @@ export function RepoRewards({ repoId, issueId, isPoolManager, repositoryFullName
                     <div className="mb-4">
                         <div className="flex justify-between items-center mb-1">
                             <p className="text-sm text-gray-500 dark:text-gray-400">Current XDC Pool: {poolInfoLoading ? <Loader2 className="h-4 w-4 animate-spin inline"/> : currentXdcPoolAmount} XDC</p>
-                            {isPoolManager && selectedCurrency === 'XDC' && fundingStatus && (
+                            {isPoolManager && fundingStatus && (
                                 <Button variant="ghost" size="sm" className="h-6 px-2 text-blue-500" onClick={() => setShowFundingInfo(!showFundingInfo)}>
-                                    <Info className="h-4 w-4 mr-1" /> XDC Funding Limits
+                                    <Info className="h-4 w-4 mr-1" /> {currencySymbol} Funding Limits
                                 </Button>
                             )}
                         </div>
@@ -334,13 +359,15 @@ export function RepoRewards({ repoId, issueId, isPoolManager, repositoryFullName
                                 Current USDC Pool: {poolInfoLoading ? <Loader2 className="h-4 w-4 animate-spin inline"/> : (poolInfo?.usdcPoolRewards || '0')} USDC
                             </p>
                         </div>
-                        {isPoolManager && selectedCurrency === 'XDC' && showFundingInfo && fundingStatus && (
+                        {isPoolManager && showFundingInfo && fundingStatus && (
                             <div className="bg-blue-50 dark:bg-blue-950 border border-blue-100 dark:border-blue-900 rounded-md p-3 mb-4">
-                                <h4 className="text-sm font-medium text-blue-800 dark:text-blue-300 mb-2">Daily XDC Funding Limit Information</h4>
+                                <h4 className="text-sm font-medium text-blue-800 dark:text-blue-300 mb-2">{fundingStatus.currency} Funding Limit Information</h4>
                                 <ul className="text-xs text-blue-700 dark:text-blue-400 space-y-1">
-                                    <li>• Daily limit: <span className="font-medium">{fundingStatus.dailyLimit} XDC</span> per repository</li>
-                                    <li>• Used today: <span className="font-medium">{fundingStatus.currentTotal.toFixed(2)} XDC</span></li>
-                                    <li>• Remaining: <span className="font-medium">{fundingStatus.remainingLimit.toFixed(2)} XDC</span></li>
+                                    <li>• Per funding: <span className="font-medium">up to {fundingStatus.perTransactionLimit} {fundingStatus.currency}</span></li>
+                                    <li>• Daily limit: <span className="font-medium">{fundingStatus.dailyLimit} {fundingStatus.currency}</span> per repository</li>
+                                    <li>• Used in the last 24 hours: <span className="font-medium">{fundingStatus.currentTotal.toFixed(2)} {fundingStatus.currency}</span></li>
+                                    <li>• Remaining today: <span className="font-medium">{fundingStatus.remainingLimit.toFixed(2)} {fundingStatus.currency}</span></li>
+                                    <li>• Weekly limit: <span className="font-medium">{fundingStatus.weeklyLimit} {fundingStatus.currency}</span>, {fundingStatus.weeklyRemaining.toFixed(2)} remaining</li>
                                     <li>• Resets at: <span className="font-medium">{new Date(fundingStatus.windowEndTime).toLocaleString()}</span></li>
                                 </ul>
                             </div>
@@ -516,7 +543,15 @@ export function RepoRewards({ repoId, issueId, isPoolManager, repositoryFullName
                                         key={`${selectedCurrency}-issue-reward-${issue.issueId}`}
                                         className="flex justify-between text-sm p-2 bg-gray-50 dark:bg-gray-800 rounded"
                                     >
-                                        <span>Issue #{issue.issueId}</span>
+                                        <span>
+                                            Issue #{issue.issueId}
+                                            {issue.expiresAt && (
+                                                <span className="ml-2 inline-flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400" title={`Returns to the pool on ${format(new Date(issue.expiresAt), 'MMM d, yyyy HH:mm')}`}>
+                                                    <Hourglass className="h-3 w-3" />
+                                                    expires {formatDistanceToNow(new Date(issue.expiresAt), { addSuffix: true })}
+                                                </span>
+                                            )}
+                                        </span>
                                         <span className="font-medium">
                                             {selectedCurrency === 'XDC' 
                                                 ? `${issue.xdcAmount || '0'} XDC`
@@ -9,6 +9,8 @@ import { Badge } from '@/components/ui/badge';
 import { Loader2, AlertTriangle, DollarSign, Coins, Zap } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { blockchainApi } from '@/lib/blockchain';
+import { StepUpRequiredError } from '@/lib/step-up';
+import { StepUpDialog } from '@/components/step-up-dialog';
 import { useQuery, useQueryClient, useMutation } from '@tanstack/react-query';
 import type { IssueBountyDetails, UnifiedPoolInfo } from '@shared/schema';
 
@@ -48,6 +50,16 @@ interface Currency {
   network: string;
 } // Import UnifiedPoolInfo if needed for queryClient invalidation
 
+type AllocationRequest = {
+    amount: string;
+    currencyType: 'XDC' | 'ROXN' | 'USDC';
+    githubRepoFullName: string;
+    issueTitle: string;
+    issueUrl: string;
+    expiresInDays?: number;
+    stepUpCode?: string;
+};
+
 interface SetRewardModalProps {
     isOpen: boolean;
     onClose: () => void;
@@ -78,6 +90,9 @@ export function SetRewardModal({
 }: SetRewardModalProps) {
     const [selectedCurrency, setSelectedCurrency] = useState<Currency>({ symbol: 'XDC', network: 'XDC' });
     const [rewardInputAmount, setRewardInputAmount] = useState(''); // Unified input for any currency
+    const [expiresInDays, setExpiresInDays] = useState(''); // Empty means the bounty never expires
+    // Allocation waiting on a step-up code, and the server's message if the last code was rejected
+    const [pendingStepUp, setPendingStepUp] = useState<{ request: AllocationRequest; error: StepUpRequiredError } | null>(null);
     const { toast } = useToast();
     const queryClient = useQueryClient();
 
@@ -111,7 +126,7 @@ export function SetRewardModal({
 
     const { mutate: assignUnifiedBounty, isPending: isAssigningBounty } = useMutation({
         mutationKey: ['allocateUnifiedBounty', repoId, issue.id, selectedCurrency.symbol],
-        mutationFn: (data: { amount: string; currencyType: 'XDC' | 'ROXN' | 'USDC'; githubRepoFullName: string; issueTitle: string; issueUrl: string }) => {
+        mutationFn: (data: AllocationRequest) => {
             return blockchainApi.allocateUnifiedBounty(
                 repoId, 
                 issue.id, 
@@ -119,10 +134,33 @@ export function SetRewardModal({
                 data.currencyType,
                 data.githubRepoFullName,
                 data.issueTitle, 
-                data.issueUrl 
+                data.issueUrl,
+                data.stepUpCode,
+                data.expiresInDays
             );
         },
         onSuccess: (data) => { 
+            setPendingStepUp(null);
+            if (data.approvalRequired) {
+                toast({
+                    title: `${selectedCurrency.symbol} Bounty Awaiting Approval`,
+                    description: `${data.message} Pool managers can approve it on the Team tab.`,
+                    duration: 9000
+                });
+                onClose();
+                onParentSuccess();
+                return;
+            }
+            if (data.queued) {
+                toast({
+                    title: `${selectedCurrency.symbol} Bounty Queued`,
+                    description: data.message,
+                    duration: 9000
+                });
+                onClose();
+                onParentSuccess();
+                return;
+            }
             const explorerUrl = `https://xdcscan.com/tx/${data.transactionHash}`;
             toast({
                 title: `${selectedCurrency.symbol} Bounty Transaction Submitted`,
@@ -137,7 +175,12 @@ export function SetRewardModal({
             onClose();
             onParentSuccess(); // This should trigger refetch of poolInfo in parent
         },
-        onError: (err: any) => {
+        onError: (err: any, variables) => {
+            if (err instanceof StepUpRequiredError) {
+                setPendingStepUp({ request: variables, error: err });
+                return;
+            }
+            setPendingStepUp(null);
             toast({
                 title: `Error Setting ${selectedCurrency.symbol} Bounty`,
                 description: err instanceof Error ? err.message : `Failed to allocate ${selectedCurrency.symbol} reward`,
@@ -150,6 +193,29 @@ export function SetRewardModal({
         },
     });
 
+    const { mutate: cancelBounty, isPending: isCancellingBounty } = useMutation({
+        mutationFn: () => blockchainApi.cancelUnifiedBounty(repoId, issue.id),
+        onSuccess: (data) => {
+            toast({
+                title: 'Bounty Cancelled',
+                description: `${data.amount} ${data.currencyType} was returned to the repository pool.`,
+            });
+            onClose();
+            onParentSuccess();
+        },
+        onError: (err: any) => {
+            toast({
+                title: 'Error Cancelling Bounty',
+                description: err instanceof Error ? err.message : 'Failed to cancel bounty',
+                variant: 'destructive'
+            });
+        },
+        onSettled: () => {
+             queryClient.invalidateQueries({ queryKey: ['poolInfo', repoId] });
+             queryClient.invalidateQueries({ queryKey: ['issueBountyDetails', repoId, issue.id] });
+        },
+    });
+
     const handleSetReward = () => {
         if (!rewardInputAmount || isAssigningBounty) return; 
 
@@ -158,7 +224,8 @@ export function SetRewardModal({
             currencyType: selectedCurrency.symbol as 'XDC' | 'ROXN' | 'USDC',
             githubRepoFullName: githubRepoFullName,
             issueTitle: issue.title,
-            issueUrl: issueUrl
+            issueUrl: issueUrl,
+            expiresInDays: parseInt(expiresInDays, 10) || undefined
         });
     };
 
@@ -188,15 +255,19 @@ export function SetRewardModal({
         setRewardInputAmount('');
     }, [selectedCurrency.symbol, isOpen]);
 
+    useEffect(() => {
+        setExpiresInDays('');
+    }, [isOpen]);
+
     const isDisabled = isAssigningBounty || rewardAlreadyExistsForSelectedCurrency || isLoadingCurrentBounty;
 
     return (
-        <Dialog open={isOpen} onOpenChange={() => !isAssigningBounty && onClose()}>
+        <Dialog open={isOpen} onOpenChange={() => !isAssigningBounty && !isCancellingBounty && onClose()}>
             <DialogContent>
                 <DialogHeader>
                     <DialogTitle>Set Bounty for Issue #{issue.id}</DialogTitle>
                     <DialogDescription>
-                        Set the bounty amount for this issue. This action cannot be undone or changed later.
+                        Set the bounty amount for this issue. A bounty cannot be edited, but it can be cancelled to return the funds to the pool.
                     </DialogDescription>
                 </DialogHeader>
 
@@ -275,7 +346,16 @@ export function SetRewardModal({
                     {!isLoadingCurrentBounty && rewardAlreadyExistsForSelectedCurrency && (
                         <div className="flex items-center gap-2 text-sm text-orange-600 bg-orange-500/10 p-3 rounded-md border border-orange-500/30">
                             <AlertTriangle className="h-4 w-4 flex-shrink-0" />
-                            <span>A bounty of {currentRewardDisplay} is already assigned. You cannot change it.</span>
+                            <span>A bounty of {currentRewardDisplay} is already assigned. Cancel it to return the funds to the pool before setting a new amount.</span>
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                className="ml-auto"
+                                onClick={() => cancelBounty()}
+                                disabled={isCancellingBounty}
+                            >
+                                {isCancellingBounty ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Cancel Bounty'}
+                            </Button>
                         </div>
                     )}
 
@@ -293,8 +373,23 @@ export function SetRewardModal({
                         />
                         <p className="text-xs text-muted-foreground">Minimum bounty: {selectedCurrency.symbol === 'XDC' ? '1 XDC' : '0.0001 ROXN/USDC'}</p>
                     </div>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="expiresInDays">Expires after (days, optional)</Label>
+                        <Input
+                            id="expiresInDays"
+                            type="number"
+                            step="1"
+                            min="1"
+                            value={expiresInDays}
+                            onChange={(e) => setExpiresInDays(e.target.value.replace(/\D/g, ''))}
+                            placeholder="Never"
+                            disabled={isDisabled}
+                        />
+                        <p className="text-xs text-muted-foreground">If no fix is merged by then, the bounty returns to the pool. The issue gets a reminder beforehand.</p>
+                    </div>
                     
-                    <p className="text-xs text-muted-foreground"><span className="font-semibold text-orange-600">Warning:</span> Setting a bounty is final and cannot be updated.</p>
+                    <p className="text-xs text-muted-foreground"><span className="font-semibold text-orange-600">Warning:</span> A bounty cannot be updated once set. To change it, cancel it and allocate a new one.</p>
                 </div>
                 <DialogFooter>
                     <Button
@@ -318,6 +413,14 @@ export function SetRewardModal({
                         )}
                     </Button>
                 </DialogFooter>
+                <StepUpDialog
+                    purpose={pendingStepUp ? 'bounty_allocation' : null}
+                    totpEnabled={pendingStepUp?.error.totpEnabled}
+                    error={pendingStepUp?.request.stepUpCode ? pendingStepUp.error.message : null}
+                    isSubmitting={isAssigningBounty}
+                    onSubmit={(code) => pendingStepUp && assignUnifiedBounty({ ...pendingStepUp.request, stepUpCode: code })}
+                    onCancel={() => setPendingStepUp(null)}
+                />
             </DialogContent>
         </Dialog>
     );
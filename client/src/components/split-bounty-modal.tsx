@@ -0,0 +1,174 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2, Plus, Trash2, AlertTriangle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { blockchainApi } from '@/lib/blockchain';
+import { useQuery, useQueryClient, useMutation } from '@tanstack/react-query';
+
+const MAX_RECIPIENTS = 10;
+
+interface ShareRow {
+    githubUsername: string;
+    percentage: string;
+}
+
+interface SplitBountyModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    issue: {
+        id: number;
+        title: string;
+    };
+    repoId: number;
+    rewardDisplay: string;
+}
+
+export function SplitBountyModal({ isOpen, onClose, issue, repoId, rewardDisplay }: SplitBountyModalProps) {
+    const [rows, setRows] = useState<ShareRow[]>([{ githubUsername: '', percentage: '' }, { githubUsername: '', percentage: '' }]);
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+
+    const { data: currentSplit, isLoading: isLoadingSplit } = useQuery({
+        queryKey: ['bountySplit', repoId, issue.id],
+        queryFn: () => blockchainApi.getBountySplit(repoId, issue.id),
+        enabled: isOpen,
+    });
+
+    useEffect(() => { // Prefill with the recorded split when the modal opens
+        if (isOpen && currentSplit && currentSplit.length > 0) {
+            setRows(currentSplit.map(share => ({
+                githubUsername: share.githubUsername,
+                percentage: String(share.shareBps / 100),
+            })));
+        }
+    }, [isOpen, currentSplit]);
+
+    const isPaid = !!currentSplit?.some(share => share.status === 'paid');
+    const total = rows.reduce((sum, row) => sum + (parseInt(row.percentage) || 0), 0);
+    const isValid = total === 100 && rows.every(row => row.githubUsername.trim() && parseInt(row.percentage) > 0);
+
+    const { mutate: saveSplit, isPending: isSaving } = useMutation({
+        mutationFn: () => blockchainApi.setBountySplit(
+            repoId,
+            issue.id,
+            rows.map(row => ({
+                githubUsername: row.githubUsername.trim().replace(/^@/, ''),
+                percentage: parseInt(row.percentage),
+            }))
+        ),
+        onSuccess: () => {
+            toast({ title: 'Bounty Split Saved', description: 'The split has been recorded and posted on the issue.' });
+            onClose();
+        },
+        onError: (err: any) => {
+            toast({
+                title: 'Error Saving Split',
+                description: err instanceof Error ? err.message : 'Failed to save bounty split',
+                variant: 'destructive'
+            });
+        },
+        onSettled: () => {
+            queryClient.invalidateQueries({ queryKey: ['bountySplit', repoId, issue.id] });
+        },
+    });
+
+    const updateRow = (index: number, field: keyof ShareRow, value: string) => {
+        setRows(prev => prev.map((row, i) => i === index ? { ...row, [field]: value } : row));
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={() => !isSaving && onClose()}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>Split Bounty for Issue #{issue.id}</DialogTitle>
+                    <DialogDescription>
+                        Share the {rewardDisplay} bounty between several contributors. Everyone is paid in one transaction when the fixing PR is merged.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4 py-4">
+                    <div className="text-sm text-muted-foreground">
+                        {issue.title}
+                    </div>
+
+                    {isLoadingSplit && <Loader2 className="h-4 w-4 animate-spin" />}
+
+                    {isPaid && (
+                        <div className="flex items-center gap-2 text-sm text-orange-600 bg-orange-500/10 p-3 rounded-md border border-orange-500/30">
+                            <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                            <span>This bounty has already been paid out.</span>
+                        </div>
+                    )}
+
+                    <div className="space-y-2">
+                        <div className="grid grid-cols-[1fr_100px_40px] gap-2">
+                            <Label>GitHub Username</Label>
+                            <Label>Share %</Label>
+                        </div>
+                        {rows.map((row, index) => (
+                            <div key={index} className="grid grid-cols-[1fr_100px_40px] gap-2">
+                                <Input
+                                    value={row.githubUsername}
+                                    onChange={(e) => updateRow(index, 'githubUsername', e.target.value)}
+                                    placeholder="username"
+                                    disabled={isSaving || isPaid}
+                                />
+                                <Input
+                                    type="number"
+                                    min="1"
+                                    max="100"
+                                    step="1"
+                                    value={row.percentage}
+                                    onChange={(e) => updateRow(index, 'percentage', e.target.value)}
+                                    placeholder="50"
+                                    disabled={isSaving || isPaid}
+                                />
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+                                    disabled={isSaving || isPaid || rows.length <= 1}
+                                >
+                                    <Trash2 className="h-4 w-4" />
+                                </Button>
+                            </div>
+                        ))}
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setRows(prev => [...prev, { githubUsername: '', percentage: '' }])}
+                            disabled={isSaving || isPaid || rows.length >= MAX_RECIPIENTS}
+                        >
+                            <Plus className="mr-2 h-4 w-4" /> Add Contributor
+                        </Button>
+                    </div>
+
+                    <div className={`text-sm ${total === 100 ? 'text-muted-foreground' : 'text-orange-600'}`}>
+                        Total: {total}% {total !== 100 && '(must equal 100%)'}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                        You can also set a split from the issue with <code>/bounty split @alice 60 @bob 40</code>.
+                    </p>
+                </div>
+                <DialogFooter>
+                    <Button variant="outline" onClick={onClose} disabled={isSaving}>
+                        Cancel
+                    </Button>
+                    <Button onClick={() => saveSplit()} disabled={!isValid || isSaving || isPaid}>
+                        {isSaving ? (
+                            <>
+                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                Saving...
+                            </>
+                        ) : (
+                            'Save Split'
+                        )}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
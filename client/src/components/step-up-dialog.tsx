@@ -0,0 +1,97 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { Loader2, ShieldCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import api from '@/lib/api';
+import type { StepUpPurpose } from '@/lib/step-up';
+
+const PURPOSE_LABELS: Record<StepUpPurpose, string> = {
+    wallet_export: 'export your wallet',
+    transfer: 'send this transfer',
+    payout_request: 'request this payout',
+    bounty_allocation: 'allocate this bounty',
+    payout_address: 'change your payout wallet',
+};
+
+interface StepUpDialogProps {
+    purpose: StepUpPurpose | null; // Dialog is open while a purpose is set
+    totpEnabled?: boolean;
+    error?: string | null; // Server message from a rejected code
+    isSubmitting?: boolean;
+    onSubmit: (code: string) => void;
+    onCancel: () => void;
+}
+
+/**
+ * Collects a step-up code for a sensitive action: one emailed on request, or the current
+ * code from the user's authenticator app
+ */
+export function StepUpDialog({ purpose, totpEnabled = false, error, isSubmitting = false, onSubmit, onCancel }: StepUpDialogProps) {
+    const [code, setCode] = useState('');
+    const [emailSent, setEmailSent] = useState(false);
+    const [isSending, setIsSending] = useState(false);
+    const { toast } = useToast();
+
+    useEffect(() => { // Start clean each time the dialog opens
+        if (purpose) {
+            setCode('');
+            setEmailSent(false);
+        }
+    }, [purpose]);
+
+    const handleSendEmail = async () => {
+        if (!purpose) return;
+        setIsSending(true);
+        try {
+            await api.post('/api/auth/step-up/request', { purpose });
+            setEmailSent(true);
+            toast({ title: 'Code sent', description: 'Check your email for a 6-digit code.' });
+        } catch (err: any) {
+            toast({
+                title: 'Could not send code',
+                description: err.message?.includes('429') ? 'Too many codes requested. Try again in a few minutes.' : 'Failed to send code',
+                variant: 'destructive'
+            });
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    return (
+        <Dialog open={!!purpose} onOpenChange={(open) => { if (!open) onCancel(); }}>
+            <DialogContent className="sm:max-w-sm">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <ShieldCheck className="h-5 w-5 text-emerald-400" /> Confirm it's you
+                    </DialogTitle>
+                    <DialogDescription>
+                        Enter a 6-digit code to {purpose ? PURPOSE_LABELS[purpose] : 'continue'}.
+                        {totpEnabled ? ' Use your authenticator app, or have a code emailed to you.' : ' We will email you a code.'}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="flex flex-col items-center gap-4 py-2">
+                    <InputOTP maxLength={6} value={code} onChange={setCode}>
+                        <InputOTPGroup>
+                            {[0, 1, 2, 3, 4, 5].map(index => <InputOTPSlot key={index} index={index} />)}
+                        </InputOTPGroup>
+                    </InputOTP>
+                    {error && <p className="text-sm text-red-400">{error}</p>}
+                    <Button variant="link" size="sm" onClick={handleSendEmail} disabled={isSending}>
+                        {isSending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                        {emailSent ? 'Resend email code' : 'Email me a code'}
+                    </Button>
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={onCancel}>Cancel</Button>
+                    <Button onClick={() => onSubmit(code)} disabled={code.length !== 6 || isSubmitting}>
+                        {isSubmitting ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Confirming...</> : 'Confirm'}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -7,6 +7,7 @@ import { Shield, Copy, Check, ExternalLink, Loader2 } from 'lucide-react';
 import api from '@/lib/api';
 import { generateEphemeralKeyPair, deriveSharedSecret, decryptWithSharedSecret } from '@/lib/ecdh';
 import { Input } from './ui/input';
+import { useQuery } from '@tanstack/react-query';
 
 // Define proper types for network configuration
 interface NetworkConfig {
@@ -34,6 +35,14 @@ export function WalletExport() {
   const [otpRequested, setOtpRequested] = useState(false);
   const [otpCode, setOtpCode] = useState('');
 
+  // With an authenticator app enrolled, its code works without waiting for the email
+  const { data: stepUpStatus } = useQuery<{ totpEnabled: boolean }>({
+    queryKey: ['step-up-status'],
+    queryFn: () => api.get('/api/auth/step-up/status'),
+    enabled: !!user,
+  });
+  const totpEnabled = !!stepUpStatus?.totpEnabled;
+
   // Start / stop the countdown timer
   useEffect(() => {
     if (!displayKey) return;
@@ -222,7 +231,9 @@ export function WalletExport() {
       await api.post('/api/wallet/export-request');
       setOtpRequested(true);
     } catch (err: any) {
-      setError(err.message || 'Failed to send OTP');
+      setError(err.message?.includes('429')
+        ? 'Too many codes requested. Please wait a few minutes and try again.'
+        : err.message || 'Failed to send OTP');
     }
   };
 
@@ -263,9 +274,9 @@ export function WalletExport() {
             <Button onClick={handleSendOtp} disabled={otpRequested || loading}>
               {otpRequested ? 'OTP Sent' : 'Send OTP to Email'}
             </Button>
-            {otpRequested && (
+            {(otpRequested || totpEnabled) && (
               <Input
-                placeholder="Enter 6-digit OTP"
+                placeholder={totpEnabled ? "Authenticator or email code" : "Enter 6-digit OTP"}
                 value={otpCode}
                 onChange={e => setOtpCode(e.target.value)}
                 maxLength={6}
@@ -0,0 +1,176 @@
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { BookUser, Loader2, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import api from '@/lib/api';
+import type { WithdrawalAddressStatus } from '@shared/schema';
+
+interface WithdrawalAddressView {
+    id: number;
+    address: string;
+    label: string | null;
+    status: WithdrawalAddressStatus;
+    confirmedAt: string | null;
+    activatesAt: string | null;
+    createdAt: string;
+}
+
+interface WithdrawalAddressesResponse {
+    addresses: WithdrawalAddressView[];
+    coolingOffHours: number;
+}
+
+const CONFIRM_PARAM = 'confirmWithdrawalAddress';
+
+function StatusBadge({ entry }: { entry: WithdrawalAddressView }) {
+    if (entry.status === 'active') {
+        return <Badge className="bg-emerald-500/20 text-emerald-400 border-emerald-500/30">Active</Badge>;
+    }
+    if (entry.status === 'cooling_off') {
+        return (
+            <Badge className="bg-amber-500/20 text-amber-400 border-amber-500/30">
+                Usable {entry.activatesAt ? new Date(entry.activatesAt).toLocaleString() : 'soon'}
+            </Badge>
+        );
+    }
+    return <Badge variant="outline">Check your email</Badge>;
+}
+
+/**
+ * Address book of withdrawal destinations. Also confirms an address when the page is opened
+ * from the emailed link.
+ */
+export function WithdrawalAddresses() {
+    const [address, setAddress] = useState('');
+    const [label, setLabel] = useState('');
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+
+    const { data, isLoading } = useQuery<WithdrawalAddressesResponse>({
+        queryKey: ['withdrawal-addresses'],
+        queryFn: () => api.get('/api/wallet/withdrawal-addresses'),
+    });
+
+    const addMutation = useMutation({
+        mutationFn: () => api.post('/api/wallet/withdrawal-addresses', { address: address.trim(), label: label.trim() || undefined }),
+        onSuccess: () => {
+            setAddress('');
+            setLabel('');
+            queryClient.invalidateQueries({ queryKey: ['withdrawal-addresses'] });
+            toast({ title: 'Confirmation sent', description: 'Follow the link in your email to confirm this address.' });
+        },
+        onError: (err: any) => {
+            const message = err.message?.includes('409')
+                ? 'This address is already in your list'
+                : err.message?.includes('400')
+                    ? 'Check the address, or remove an old one first'
+                    : 'Failed to add address';
+            toast({ title: 'Error', description: message, variant: 'destructive' });
+        }
+    });
+
+    const removeMutation = useMutation({
+        mutationFn: (id: number) => api.delete(`/api/wallet/withdrawal-addresses/${id}`),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['withdrawal-addresses'] });
+            toast({ title: 'Address removed' });
+        },
+        onError: () => {
+            toast({ title: 'Error', description: 'Failed to remove address', variant: 'destructive' });
+        }
+    });
+
+    const confirmMutation = useMutation({
+        mutationFn: (token: string) => api.post<WithdrawalAddressView>('/api/wallet/withdrawal-addresses/confirm', { token }),
+        onSuccess: (confirmed) => {
+            queryClient.invalidateQueries({ queryKey: ['withdrawal-addresses'] });
+            toast({
+                title: 'Address confirmed',
+                description: `It can receive funds from ${confirmed.activatesAt ? new Date(confirmed.activatesAt).toLocaleString() : 'after the cooling-off period'}.`
+            });
+        },
+        onError: () => {
+            toast({ title: 'Error', description: 'This confirmation link is invalid or has expired', variant: 'destructive' });
+        }
+    });
+
+    useEffect(() => { // Opened from the confirmation email
+        const params = new URLSearchParams(window.location.search);
+        const token = params.get(CONFIRM_PARAM);
+        if (!token) return;
+        params.delete(CONFIRM_PARAM);
+        const query = params.toString();
+        window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+        confirmMutation.mutate(token);
+    }, []);
+
+    const isValidAddress = /^(0x|xdc)[0-9a-fA-F]{40}$/.test(address.trim());
+
+    return (
+        <div className="card-noir p-6">
+            <div className="flex items-center gap-3 mb-2">
+                <div className="p-2 rounded-lg bg-cyan-500/10 text-cyan-500">
+                    <BookUser className="w-5 h-5" />
+                </div>
+                <div>
+                    <h3 className="font-semibold">Withdrawal Addresses</h3>
+                    <p className="text-sm text-muted-foreground">
+                        Funds can only be sent to these addresses. New ones need email confirmation and
+                        become usable {data?.coolingOffHours ?? 24} hours after confirming.
+                    </p>
+                </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-2 my-4">
+                <Input
+                    placeholder="0x... or xdc..."
+                    value={address}
+                    onChange={e => setAddress(e.target.value)}
+                    className="font-mono"
+                />
+                <Input
+                    placeholder="Label (optional)"
+                    value={label}
+                    onChange={e => setLabel(e.target.value)}
+                    maxLength={50}
+                    className="sm:max-w-[180px]"
+                />
+                <Button onClick={() => addMutation.mutate()} disabled={!isValidAddress || addMutation.isPending}>
+                    {addMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+                    Add
+                </Button>
+            </div>
+
+            {isLoading ? (
+                <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            ) : data?.addresses.length ? (
+                <div className="space-y-2">
+                    {data.addresses.map(entry => (
+                        <div key={entry.id} className="flex items-center justify-between gap-3 rounded-lg bg-muted/30 p-3">
+                            <div className="min-w-0">
+                                {entry.label && <p className="text-sm font-medium">{entry.label}</p>}
+                                <p className="font-mono text-xs text-muted-foreground truncate">{entry.address}</p>
+                            </div>
+                            <div className="flex items-center gap-2 flex-shrink-0">
+                                <StatusBadge entry={entry} />
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => removeMutation.mutate(entry.id)}
+                                    disabled={removeMutation.isPending}
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </Button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <p className="text-sm text-muted-foreground">No withdrawal addresses yet.</p>
+            )}
+        </div>
+    );
+}
@@ -3,11 +3,23 @@ import { useAuth } from './use-auth';
 import { STAGING_API_URL } from '../config';
 import csrfService from '../lib/csrf';
 
+export interface CurrencyLimitStatus {
+  currency: 'XDC' | 'ROXN' | 'USDC';
+  limits: { daily: string; weekly: string; perTransaction: string };
+  dailyUsed: string;
+  weeklyUsed: string;
+  dailyRemaining: string;
+  weeklyRemaining: string;
+  dailyResetAt: string | null;
+  weeklyResetAt: string | null;
+}
+
 export interface TransferLimitStatus {
-  usedAmount: number;
+  usedAmount: number; // XDC daily window, kept for existing callers
   remainingLimit: number;
   dailyLimit: number;
   resetTime: number | null;
+  currencies: CurrencyLimitStatus[];
 }
 
 export function useTransferLimits() {
@@ -20,7 +32,8 @@ export function useTransferLimits() {
         usedAmount: 0, 
         remainingLimit: 1000, 
         dailyLimit: 1000, 
-        resetTime: null 
+        resetTime: null,
+        currencies: []
       };
       
       const csrfToken = await csrfService.getToken();
@@ -2,6 +2,7 @@ import { ethers } from 'ethers';
 import { STAGING_API_URL, ROXN_TOKEN_ADDRESS } from '../config'; // Removed NEW_ROXN_REWARDS_CONTRACT_ADDRESS
 import { invalidateWalletInfo } from './queryClient';
 import csrfService from './csrf';
+import { readStepUpError } from './step-up';
 // Import new types from shared schema
 import type { 
     UnifiedPoolInfo,    // Changed from NewRoxnPoolInfo
@@ -14,6 +15,10 @@ export interface AllocateBountyResponse {
     message: string;
     transactionHash?: string;
     blockNumber?: number;
+    queued?: boolean; // Waiting for the gas relayer; no transaction yet
+    relayRequestId?: number;
+    approvalRequired?: boolean; // Held for pool manager approval; runs once the quorum is reached
+    proposalId?: number;
 }
 
 // This local interface might be replaced by UnifiedPoolInfo if structures match
@@ -34,6 +39,13 @@ export interface TokenInfo {
     balance: string;
 }
 
+export interface BountySplitShare {
+    githubUsername: string;
+    shareBps: number;
+    status?: 'pending' | 'paid';
+    transactionHash?: string | null;
+}
+
 class BlockchainApi {
     async getPoolInfo(repoId: number): Promise<UnifiedPoolInfo> { // Renamed from getRepository, updated return type
         const response = await fetch(`${STAGING_API_URL}/api/blockchain/pool-info/${repoId}`, {
@@ -47,14 +59,19 @@ class BlockchainApi {
         return await response.json();
     }
     
-    async getRepositoryFundingStatus(repoId: number): Promise<{
+    async getRepositoryFundingStatus(repoId: number, currency: 'XDC' | 'ROXN' | 'USDC' = 'XDC'): Promise<{
+        currency: 'XDC' | 'ROXN' | 'USDC';
         dailyLimit: number;
         currentTotal: number;
         remainingLimit: number;
+        weeklyLimit: number;
+        weeklyTotal: number;
+        weeklyRemaining: number;
+        perTransactionLimit: number;
         windowStartTime: string;
         windowEndTime: string;
     }> {
-        const response = await fetch(`${STAGING_API_URL}/api/blockchain/repository/${repoId}/funding-status`, {
+        const response = await fetch(`${STAGING_API_URL}/api/blockchain/repository/${repoId}/funding-status?currency=${currency}`, {
             credentials: 'include'
         });
         
@@ -179,7 +196,9 @@ class BlockchainApi {
         currencyType: 'XDC' | 'ROXN' | 'USDC', // Currency type
         githubRepoFullName: string,
         issueTitle: string,
-        issueUrl: string 
+        issueUrl: string,
+        stepUpCode?: string, // Required by the server for large allocations
+        expiresInDays?: number // Return the bounty to the pool if unfixed after this many days
     ): Promise<AllocateBountyResponse> {
         const csrfToken = await csrfService.getToken();
         
@@ -192,7 +211,8 @@ class BlockchainApi {
                 credentials: 'include',
                 headers: {
                     'Content-Type': 'application/json',
-                    'X-CSRF-Token': csrfToken
+                    'X-CSRF-Token': csrfToken,
+                    ...(stepUpCode ? { 'X-Step-Up-Code': stepUpCode } : {})
                 },
                 body: JSON.stringify({
                     bountyAmount,
@@ -200,6 +220,7 @@ class BlockchainApi {
                     githubRepoFullName,
                     issueTitle,
                     issueUrl,
+                    ...(expiresInDays ? { expiresInDays } : {}),
                     _csrf: csrfToken
                 }),
                 signal: controller.signal
@@ -208,6 +229,8 @@ class BlockchainApi {
             clearTimeout(timeoutId);
 
             if (!response.ok) {
+                const stepUp = await readStepUpError(response);
+                if (stepUp) throw stepUp;
                 const error = await response.json();
                 throw new Error(error.message || error.error || 'Failed to allocate bounty');
             }
@@ -307,6 +330,68 @@ class BlockchainApi {
         return response.json();
     }
 
+    async cancelUnifiedBounty(repoId: number, issueId: number): Promise<{ message: string; transactionHash: string; amount: string; currencyType: 'XDC' | 'ROXN' | 'USDC' }> {
+        const csrfToken = await csrfService.getToken();
+        
+        const response = await fetch(`${STAGING_API_URL}/api/blockchain/cancel-bounty/${repoId}/${issueId}`, {
+            method: 'POST',
+            credentials: 'include',
+            headers: {
+                'Content-Type': 'application/json',
+                'X-CSRF-Token': csrfToken
+            },
+            body: JSON.stringify({
+                _csrf: csrfToken
+            })
+        });
+
+        if (!response.ok) {
+            const error = await response.json();
+            throw new Error(error.details || error.error || 'Failed to cancel bounty');
+        }
+        return response.json();
+    }
+
+    async getBountySplit(repoId: number, issueId: number): Promise<BountySplitShare[]> {
+        const response = await fetch(`${STAGING_API_URL}/api/blockchain/bounty-split/${repoId}/${issueId}`, {
+            credentials: 'include'
+        });
+
+        if (!response.ok) {
+            const error = await response.json();
+            throw new Error(error.message || error.error || 'Failed to fetch bounty split');
+        }
+        const result = await response.json();
+        return result.shares;
+    }
+
+    async setBountySplit(
+        repoId: number,
+        issueId: number,
+        shares: { githubUsername: string; percentage: number }[]
+    ): Promise<{ message: string; shares: BountySplitShare[] }> {
+        const csrfToken = await csrfService.getToken();
+        
+        const response = await fetch(`${STAGING_API_URL}/api/blockchain/bounty-split/${repoId}/${issueId}`, {
+            method: 'POST',
+            credentials: 'include',
+            headers: {
+                'Content-Type': 'application/json',
+                'X-CSRF-Token': csrfToken
+            },
+            body: JSON.stringify({
+                shares,
+                _csrf: csrfToken
+            })
+        });
+
+        if (!response.ok) {
+            const error = await response.json();
+            throw new Error(error.message || error.error || 'Failed to set bounty split');
+        }
+        return response.json();
+    }
+
     async getUserType(address: string): Promise<{ userType: string; address: string }> {
         const response = await fetch(`${STAGING_API_URL}/api/blockchain/user/${address}/type`, {
             credentials: 'include'
@@ -0,0 +1,23 @@
+export type StepUpPurpose = 'wallet_export' | 'transfer' | 'payout_request' | 'bounty_allocation' | 'payout_address';
+
+/**
+ * Thrown when the server wants a fresh step-up code before it performs an action.
+ * Callers show the step-up dialog and retry with the code.
+ */
+export class StepUpRequiredError extends Error {
+  constructor(message: string, public purpose: StepUpPurpose, public totpEnabled: boolean = false) {
+    super(message);
+    this.name = 'StepUpRequiredError';
+  }
+}
+
+/**
+ * Turn a failed response into a StepUpRequiredError when the server asked for step-up,
+ * or null so the caller can handle the error as before
+ */
+export async function readStepUpError(response: Response): Promise<StepUpRequiredError | null> {
+  if (response.status !== 401) return null;
+  const body = await response.clone().json().catch(() => null);
+  if (!body?.stepUpRequired) return null;
+  return new StepUpRequiredError(body.error || 'Step-up authentication required', body.purpose, !!body.totpEnabled);
+}
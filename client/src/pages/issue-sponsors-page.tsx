@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useRoute, Link } from "wouter";
+import { formatDistanceToNow, format } from "date-fns";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ExternalLink, HeartHandshake, Loader2 } from "lucide-react";
+import type { IssueSponsorshipSummary, IssueSponsorshipStatus } from "@shared/schema";
+import api from "@/lib/api";
+
+type Currency = "XDC" | "ROXN" | "USDC";
+
+const STATUS_LABELS: Record<IssueSponsorshipStatus, { label: string; className: string }> = {
+  pending: { label: "Pending", className: "bg-muted text-muted-foreground border-border" },
+  held: { label: "In escrow", className: "bg-emerald-500/20 text-emerald-400 border-emerald-500/30" },
+  paying: { label: "Paying", className: "bg-cyan-500/20 text-cyan-400 border-cyan-500/30" },
+  paid: { label: "Paid", className: "bg-cyan-500/20 text-cyan-400 border-cyan-500/30" },
+  refunding: { label: "Refunding", className: "bg-amber-500/20 text-amber-400 border-amber-500/30" },
+  refunded: { label: "Refunded", className: "bg-amber-500/20 text-amber-400 border-amber-500/30" },
+  failed: { label: "Failed", className: "bg-red-500/20 text-red-400 border-red-500/30" },
+};
+
+export default function IssueSponsorsPage() {
+  const [, params] = useRoute("/:owner/:repo/issues/:number");
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [currency, setCurrency] = useState<Currency>("USDC");
+  const [amount, setAmount] = useState("");
+  const [days, setDays] = useState("90");
+  const [displayName, setDisplayName] = useState("");
+
+  const owner = params?.owner ?? "";
+  const repo = params?.repo ?? "";
+  const issueNumber = params?.number ?? "";
+  const queryKey = ["issue-sponsors", owner, repo, issueNumber];
+
+  const { data: summary, isLoading, error } = useQuery<IssueSponsorshipSummary>({
+    queryKey,
+    queryFn: () => api.get(`/api/public/issues/${owner}/${repo}/${issueNumber}/sponsors`),
+    enabled: !!owner && !!repo && !!issueNumber,
+  });
+
+  const sponsorMutation = useMutation({
+    mutationFn: () => api.post(`/api/repositories/${summary!.githubRepoId}/issues/${issueNumber}/sponsorships`, {
+      currency,
+      amount: amount.trim(),
+      expiresInDays: parseInt(days, 10),
+      ...(displayName.trim() && { displayName: displayName.trim() }),
+    }),
+    onSuccess: () => {
+      toast({ title: "Thank you for sponsoring", description: `${amount.trim()} ${currency} is held in escrow until this issue is fixed` });
+      setAmount("");
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: () => {
+      toast({
+        title: "Sponsorship failed",
+        description: "Check that the issue is still open and your wallet has enough balance, then try again",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-4xl space-y-4">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-32 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !summary) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="card-noir p-6 text-center text-muted-foreground">
+          This issue could not be found, or its repository is not public on Roxonn.
+        </div>
+      </div>
+    );
+  }
+
+  const issueUrl = `https://github.com/${summary.repoFullName}/issues/${summary.issueNumber}`;
+  const activeCount = summary.sponsors.filter(s => s.status === "held").length;
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <Link href={`/repos/${summary.repoFullName}`} className="text-sm text-muted-foreground hover:underline">
+            {summary.repoFullName}
+          </Link>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <HeartHandshake className="h-6 w-6 text-pink-400" />
+            Sponsors of issue #{summary.issueNumber}
+          </h1>
+        </div>
+        <Button variant="outline" asChild>
+          <a href={issueUrl} target="_blank" rel="noopener noreferrer">
+            View on GitHub <ExternalLink className="ml-2 h-4 w-4" />
+          </a>
+        </Button>
+      </div>
+
+      <div className="card-noir p-6">
+        <p className="text-sm text-muted-foreground">Held in escrow for whoever fixes this issue</p>
+        <p className="text-3xl font-bold mt-1">
+          {summary.totals.length > 0 ? summary.totals.map(t => `${parseFloat(t.amount)} ${t.currency}`).join(" + ") : "Nothing yet"}
+        </p>
+        <p className="text-sm text-muted-foreground mt-2">
+          {activeCount} active sponsor{activeCount === 1 ? "" : "s"}. Paid to the author of the merged pull request that closes the issue,
+          and refunded to each sponsor if it is closed without a fix or their deadline passes.
+        </p>
+      </div>
+
+      <div className="card-noir p-6">
+        <h2 className="font-semibold mb-4">Sponsor this issue</h2>
+        {!user ? (
+          <p className="text-sm text-muted-foreground">
+            <Link href="/auth" className="text-cyan-400 hover:underline">Sign in</Link> to sponsor this issue from your Roxonn wallet,
+            or comment <code>/bounty sponsor 100 USDC</code> on the issue.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-1">
+                <Label>Currency</Label>
+                <Select value={currency} onValueChange={(value) => setCurrency(value as Currency)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="USDC">USDC</SelectItem>
+                    <SelectItem value="ROXN">ROXN</SelectItem>
+                    <SelectItem value="XDC">XDC</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="sponsor-amount">Amount</Label>
+                <Input id="sponsor-amount" inputMode="decimal" value={amount} onChange={(e) => setAmount(e.target.value)} placeholder="100" />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="sponsor-days">Refund after (days)</Label>
+                <Input id="sponsor-days" inputMode="numeric" value={days} onChange={(e) => setDays(e.target.value.replace(/\D/g, ""))} />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sponsor-name">Show as (optional)</Label>
+              <Input id="sponsor-name" value={displayName} onChange={(e) => setDisplayName(e.target.value)} placeholder={user.githubUsername} maxLength={64} />
+            </div>
+            <Button
+              onClick={() => sponsorMutation.mutate()}
+              disabled={!amount.trim() || !parseInt(days, 10) || sponsorMutation.isPending}
+              className="w-full"
+            >
+              {sponsorMutation.isPending ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Sponsoring...</> : "Sponsor from my wallet"}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="card-noir p-6">
+        <h2 className="font-semibold mb-4">Sponsors</h2>
+        {summary.sponsors.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Be the first to sponsor this issue.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Sponsor</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Refund deadline</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {summary.sponsors.map(sponsor => (
+                <TableRow key={sponsor.id}>
+                  <TableCell>
+                    <div className="font-medium">{sponsor.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {sponsor.githubUsername && sponsor.name !== sponsor.githubUsername && `@${sponsor.githubUsername} · `}
+                      {formatDistanceToNow(new Date(sponsor.createdAt), { addSuffix: true })}
+                    </div>
+                  </TableCell>
+                  <TableCell>{parseFloat(sponsor.amount)} {sponsor.currency}</TableCell>
+                  <TableCell>
+                    <Badge className={STATUS_LABELS[sponsor.status].className}>{STATUS_LABELS[sponsor.status].label}</Badge>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {sponsor.status === "held" ? format(new Date(sponsor.expiresAt), "MMM d, yyyy") : "—"}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,8 @@ import { Redirect, Link } from "wouter";
 import { ethers } from "ethers";
 import { MyRepositories } from "@/components/my-repositories";
 import { ReferralWidget } from "@/components/referral-widget";
+import { PromptOrganizationPanel } from "@/components/prompt-organization";
+import { PromptPackStore } from "@/components/prompt-pack-store";
 import { useQuery } from '@tanstack/react-query';
 
 // GitHub Icon component
@@ -289,6 +291,16 @@ export default function ProfilePage() {
                 <motion.div variants={itemVariants}>
                   <ReferralWidget />
                 </motion.div>
+
+                {/* Prompt Packs */}
+                <motion.div variants={itemVariants}>
+                  <PromptPackStore />
+                </motion.div>
+
+                {/* Organisation Prompt Pool */}
+                <motion.div variants={itemVariants}>
+                  <PromptOrganizationPanel />
+                </motion.div>
               </div>
             </div>
           )}
@@ -9,6 +9,8 @@ import { useState } from "react";
 import { Copy, Share2, Trophy, DollarSign, Coins, Users, CheckCircle2, Clock, ExternalLink, Loader2, Gift, Sparkles, Crown, Medal, Award } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { Redirect } from "wouter";
+import { StepUpRequiredError, readStepUpError } from "@/lib/step-up";
+import { StepUpDialog } from "@/components/step-up-dialog";
 
 interface ReferralStats {
   totalReferrals: number;
@@ -219,19 +221,26 @@ export default function ReferralsPage() {
   });
 
   // Request payout mutation
+  // Payout requests need a step-up code; set while the dialog is collecting one
+  const [payoutStepUp, setPayoutStepUp] = useState<{ error: StepUpRequiredError; retried: boolean } | null>(null);
+
   const requestPayoutMutation = useMutation({
-    mutationFn: async () => {
+    mutationFn: async (stepUpCode?: string) => {
       const response = await fetch(`${STAGING_API_URL}/api/referral/rewards/claim`, {
         method: 'POST',
-        credentials: 'include'
+        credentials: 'include',
+        headers: stepUpCode ? { 'X-Step-Up-Code': stepUpCode } : undefined
       });
       if (!response.ok) {
+        const stepUp = await readStepUpError(response);
+        if (stepUp) throw stepUp;
         const error = await response.json();
         throw new Error(error.error || 'Failed to request payout');
       }
       return response.json();
     },
     onSuccess: (data) => {
+      setPayoutStepUp(null);
       queryClient.invalidateQueries({ queryKey: ['referralInfo'] });
       queryClient.invalidateQueries({ queryKey: ['payoutStatus'] });
       toast({
@@ -239,7 +248,12 @@ export default function ReferralsPage() {
         description: data.message || "Our team will review and process your rewards."
       });
     },
-    onError: (error: Error) => {
+    onError: (error: Error, stepUpCode) => {
+      if (error instanceof StepUpRequiredError) {
+        setPayoutStepUp({ error, retried: !!stepUpCode });
+        return;
+      }
+      setPayoutStepUp(null);
       toast({ title: "Error", description: error.message, variant: "destructive" });
     }
   });
@@ -487,7 +501,7 @@ export default function ReferralsPage() {
                   {hasPendingRewards && !payoutStatus?.hasPendingRequest && (
                     <Button
                       className="w-full btn-primary"
-                      onClick={() => requestPayoutMutation.mutate()}
+                      onClick={() => requestPayoutMutation.mutate(undefined)}
                       disabled={requestPayoutMutation.isPending || loadingPayoutStatus}
                     >
                       {requestPayoutMutation.isPending ? (
@@ -593,6 +607,15 @@ export default function ReferralsPage() {
           </motion.div>
         </motion.div>
       </div>
+
+      <StepUpDialog
+        purpose={payoutStepUp ? 'payout_request' : null}
+        totpEnabled={payoutStepUp?.error.totpEnabled}
+        error={payoutStepUp?.retried ? payoutStepUp.error.message : null}
+        isSubmitting={requestPayoutMutation.isPending}
+        onSubmit={(code) => requestPayoutMutation.mutate(code)}
+        onCancel={() => setPayoutStepUp(null)}
+      />
     </div>
   );
 }
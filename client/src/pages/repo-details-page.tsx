@@ -12,15 +12,20 @@ import {
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { formatDistanceToNow } from "date-fns";
-import { ExternalLink, GitPullRequest, GitBranch, Star, GitFork, AlertCircle, Loader2, ChevronLeft, Shield, ShieldCheck, ShieldAlert, Coins } from "lucide-react";
+import { ExternalLink, GitPullRequest, GitBranch, Star, GitFork, AlertCircle, Loader2, ChevronLeft, Shield, ShieldCheck, ShieldAlert, Coins, Users } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { RepoRewards } from "@/components/repo-rewards";
+import { PoolManagers } from "@/components/pool-managers";
+import { MultisigApprovals } from "@/components/multisig-approvals";
+import { FundingSchedules } from "@/components/funding-schedules";
 import { useState, useEffect } from "react";
 import { SetRewardModal } from "@/components/set-reward-modal";
+import { SplitBountyModal } from "@/components/split-bounty-modal";
 import { blockchainApi } from "@/lib/blockchain";
-import type { UnifiedPoolInfo, IssueBountyDetails } from "@shared/schema";
+import type { UnifiedPoolInfo, IssueBountyDetails, RepositoryManager, BountyAllocationCaps } from "@shared/schema";
+import api from "@/lib/api";
 import { ethers } from "ethers";
 import { STAGING_API_URL } from '../config';
 import { RepoDetailsGuide } from "@/components/welcome-guide";
@@ -80,6 +85,13 @@ interface RepoDetailsResponse {
   pullRequests: PullRequest[];
 }
 
+interface RepositoryAccessResponse {
+  role: RepositoryManager['role'] | null;
+  allocationCaps: BountyAllocationCaps;
+  canManage: boolean;
+  invite: RepositoryManager | null;
+}
+
 // Animation variants
 const containerVariants = {
   hidden: { opacity: 0 },
@@ -103,8 +115,8 @@ export default function RepoDetailsPage() {
   const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const isPoolManager = user?.role === "poolmanager";
   const [selectedIssue, setSelectedIssue] = useState<Issue | null>(null);
+  const [splitIssue, setSplitIssue] = useState<{ issue: Issue; rewardDisplay: string } | null>(null);
 
   const [issueBountiesMap, setIssueBountiesMap] = useState<Map<number, IssueBountyDetails | { error: string } | null>>(new Map());
   const [isLoadingBounties, setIsLoadingBounties] = useState(false);
@@ -135,6 +147,27 @@ export default function RepoDetailsPage() {
 
   const repoId = githubData?.repo?.id;
 
+  const { data: repoAccess } = useQuery<RepositoryAccessResponse>({
+    queryKey: ["repository-managers", repoId, "me"],
+    queryFn: () => api.get(`/api/repositories/${repoId}/managers/me`),
+    enabled: !!repoId && !!user,
+    retry: false
+  });
+
+  // Bounty actions follow the user's role on this repository's team, not their global role
+  const isPoolManager = repoAccess?.role === "owner" || repoAccess?.role === "allocator";
+  const canSeeTeam = !!repoAccess?.role || !!repoAccess?.canManage;
+
+  const handleAcceptInvite = async (inviteId: number) => {
+    try {
+      await api.post(`/api/user/manager-invites/${inviteId}/accept`);
+      toast({ title: "Invite accepted", description: "You can now manage bounties on this repository" });
+      queryClient.invalidateQueries({ queryKey: ["repository-managers", repoId] });
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to accept invite", variant: "destructive" });
+    }
+  };
+
   useEffect(() => {
     if (githubData?.repo?.permissions) {
       setHasAdminPermission(githubData.repo.permissions.admin);
@@ -322,6 +355,17 @@ export default function RepoDetailsPage() {
               )}
             </div>
 
+            {repoAccess?.invite && (
+              <div className="mx-6 mt-4 flex items-center justify-between gap-4 rounded-lg border border-emerald-500/30 bg-emerald-500/10 px-4 py-3">
+                <p className="text-sm">
+                  You've been invited to this repository's bounty team as <span className="font-semibold capitalize">{repoAccess.invite.role}</span>.
+                </p>
+                <Button size="sm" onClick={() => handleAcceptInvite(repoAccess.invite!.id)}>
+                  Accept Invite
+                </Button>
+              </div>
+            )}
+
             {/* Tabs */}
             <Tabs defaultValue="issues" className="w-full">
               <div className="px-6 py-3 bg-muted/30 border-b border-border/50">
@@ -335,6 +379,11 @@ export default function RepoDetailsPage() {
                   <TabsTrigger value="rewards" className="data-[state=active]:bg-amber-500/10 data-[state=active]:text-amber-400 rounded-lg">
                     <Star className="mr-2 h-4 w-4" /> Rewards
                   </TabsTrigger>
+                  {canSeeTeam && (
+                    <TabsTrigger value="team" className="data-[state=active]:bg-emerald-500/10 data-[state=active]:text-emerald-400 rounded-lg">
+                      <Users className="mr-2 h-4 w-4" /> Team
+                    </TabsTrigger>
+                  )}
                 </TabsList>
               </div>
 
@@ -453,6 +502,9 @@ export default function RepoDetailsPage() {
                                   {isPoolManager && (
                                     <Button size="sm" className="btn-primary text-xs" onClick={() => handleSetReward(githubIssue)}>Set Reward</Button>
                                   )}
+                                  {isPoolManager && hasBounty && (
+                                    <Button variant="outline" size="sm" className="border-border/50 hover:border-amber-500/50 text-xs" onClick={() => setSplitIssue({ issue: githubIssue, rewardDisplay })}>Split</Button>
+                                  )}
                                   {!isPoolManager && user?.role !== 'contributor' && (
                                     <Button size="sm" className="btn-primary text-xs" onClick={() => handleContribute(githubIssue.id)}>Contribute</Button>
                                   )}
@@ -553,12 +605,28 @@ export default function RepoDetailsPage() {
                   {repoId && (
                     <RepoRewards
                       repoId={repoId}
-                      isPoolManager={isPoolManager}
+                      isPoolManager={user?.role === "poolmanager"}
                       repositoryFullName={repoFullName}
                     />
                   )}
                 </div>
+                {repoId && (
+                  <div className="card-noir p-6 mt-6">
+                    <FundingSchedules repoId={repoId} canSchedule={user?.role === "poolmanager"} />
+                  </div>
+                )}
               </TabsContent>
+
+              {canSeeTeam && repoId && (
+                <TabsContent value="team" className="p-6">
+                  <div className="card-noir p-6">
+                    <PoolManagers repoId={repoId} canManage={!!repoAccess?.canManage} />
+                  </div>
+                  <div className="card-noir p-6 mt-6">
+                    <MultisigApprovals repoId={repoId} />
+                  </div>
+                </TabsContent>
+              )}
             </Tabs>
           </motion.div>
         </motion.div>
@@ -581,6 +649,19 @@ export default function RepoDetailsPage() {
           issueUrl={selectedIssue.html_url}
         />
       )}
+
+      {splitIssue && repoId && (
+        <SplitBountyModal
+          isOpen={!!splitIssue}
+          onClose={() => setSplitIssue(null)}
+          issue={{
+            id: splitIssue.issue.number,
+            title: splitIssue.issue.title
+          }}
+          repoId={repoId}
+          rewardDisplay={splitIssue.rewardDisplay}
+        />
+      )}
     </div>
   );
 }
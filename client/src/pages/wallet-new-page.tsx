@@ -11,6 +11,10 @@ import { ethers } from "ethers";
 import { useQuery } from "@tanstack/react-query";
 import { STAGING_API_URL } from "@/config";
 import { WalletExport } from "@/components/wallet-export";
+import { AuthenticatorSetup } from "@/components/authenticator-setup";
+import { WithdrawalAddresses } from "@/components/withdrawal-addresses";
+import { PayoutWalletLink } from "@/components/payout-wallet-link";
+import { EarningsStatement } from "@/components/earnings-statement";
 import { QRCodeSVG } from "qrcode.react";
 import { useNotification } from "@/components/ui/notification";
 import {
@@ -425,6 +429,17 @@ export default function WalletNewPage() {
                 <WalletExport />
               </DialogContent>
             </Dialog>
+            <Dialog>
+              <DialogTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <Shield className="w-4 h-4 mr-2" />
+                  Two-Factor
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="sm:max-w-md">
+                <AuthenticatorSetup />
+              </DialogContent>
+            </Dialog>
           </div>
         </motion.div>
 
@@ -594,6 +609,18 @@ export default function WalletNewPage() {
           </div>
         </motion.div>
 
+        {/* Payout Wallet, Withdrawal Address Book and Earnings Statement */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5, delay: 0.35 }}
+          className="grid grid-cols-1 gap-6 mb-8"
+        >
+          <PayoutWalletLink />
+          <WithdrawalAddresses />
+          <EarningsStatement />
+        </motion.div>
+
         {/* Transactions Tab */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
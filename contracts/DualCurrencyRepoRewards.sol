@@ -81,12 +81,14 @@ contract DualCurrencyRepoRewards is Initializable, ContextUpgradeable, OwnableUp
     uint256 public contributorFeeRate; // Basis points
 
     bytes32 public constant UPGRADER_ROLE = keccak256("UPGRADER_ROLE"); // Retained from original
+    uint256 public constant MAX_SPLIT_RECIPIENTS = 10; // Constants do not occupy storage slots
     mapping(address => bool) public upgraders; // Retained from original
     
     // NEW VARIABLES - APPENDED AT END TO PRESERVE STORAGE LAYOUT
     IERC20 public usdcToken; // USDC ERC20 token
     mapping(uint256 => uint256) public repositoryUSDCPools; // repoId => USDC pool amount
     mapping(uint256 => mapping(uint256 => uint8)) public issueCurrencyTypes; // repoId => issueId => currencyType
+    mapping(uint256 => mapping(uint256 => mapping(uint8 => uint256))) public issueExtraRewards; // repoId => issueId => currencyType => amount in a currency other than the issue's own
 
     // Events
     event UserRegistered(address indexed user, string username, string role);
@@ -96,6 +98,8 @@ contract DualCurrencyRepoRewards is Initializable, ContextUpgradeable, OwnableUp
     event ROXNFundAddedToRepository(uint256 indexed repoId, address indexed funder, uint256 amount);
     event USDCFundAddedToRepository(uint256 indexed repoId, address indexed funder, uint256 amount);
     event RewardDistributed(uint256 indexed repoId, uint256 indexed issueId, address indexed contributor, uint256 amount, CurrencyType currencyType);
+    event RewardCancelled(uint256 indexed repoId, uint256 indexed issueId, uint256 amount, CurrencyType currencyType);
+    event RewardIncreased(uint256 indexed repoId, uint256 indexed issueId, uint256 amount, CurrencyType currencyType);
     
     event ForwarderInitialized(address forwarderAddress);
     event TokenInitialized(address tokenAddress); // For ROXN token
@@ -421,6 +425,246 @@ contract DualCurrencyRepoRewards is Initializable, ContextUpgradeable, OwnableUp
             }
         }
         emit RewardDistributed(repoId, issueId, contributorAddress, netReward, bountyType); // Use cached enum for event
+        _distributeExtraRewardsTo(repoId, issueId, contributorAddress);
+    }
+
+    /**
+     * @dev Cancels an allocated issue reward and returns the full amount to the
+     * repository pool it was taken from. The issue is left in the Cancelled state
+     * with a zero reward, so a new bounty can be allocated to it later.
+     */
+    function cancelIssueReward(
+        uint256 repoId,
+        uint256 issueId
+    ) external onlyPoolManager(repoId) nonReentrant {
+        Repository storage repo = repositories[repoId];
+        Issue storage issue = repo.issueRewards[issueId];
+
+        uint256 rewardToReturn = issue.rewardAmount;
+        require(rewardToReturn > 0, "DualCurrencyRepoRewards: No reward allocated");
+        require(issue.status == 1, "DualCurrencyRepoRewards: Issue not in allocated state"); // 1 = Allocated
+
+        CurrencyType bountyType = CurrencyType(issueCurrencyTypes[repoId][issueId]);
+
+        if (bountyType == CurrencyType.ROXN) {
+            repo.poolRewardsROXN += rewardToReturn;
+        } else if (bountyType == CurrencyType.USDC) {
+            repo.poolRewardsUSDC += rewardToReturn;
+        } else {
+            repo.poolRewards += rewardToReturn;
+        }
+
+        issue.rewardAmount = 0;
+        issue.status = 3; // 3 = Cancelled
+        issue.isRoxnReward = false;
+        delete issueCurrencyTypes[repoId][issueId];
+        if (repo.issueCount > 0) {
+             repo.issueCount--;
+        }
+
+        emit RewardCancelled(repoId, issueId, rewardToReturn, bountyType);
+        _refundExtraRewards(repo, repoId, issueId);
+    }
+
+    /**
+     * @dev Adds to an allocated issue reward from the repository pool. In the issue's
+     * own currency this raises its reward; in another currency the amount is held
+     * as an extra reward that is paid out (or refunded) alongside the main one.
+     */
+    function increaseIssueReward(
+        uint256 repoId,
+        uint256 issueId,
+        uint256 amount,
+        CurrencyType _currencyType
+    ) external onlyPoolManager(repoId) {
+        Repository storage repo = repositories[repoId];
+        Issue storage issue = repo.issueRewards[issueId];
+
+        require(amount > 0, "DualCurrencyRepoRewards: Bounty amount must be positive");
+        require(issue.rewardAmount > 0, "DualCurrencyRepoRewards: No reward allocated");
+        require(issue.status == 1, "DualCurrencyRepoRewards: Issue not in allocated state"); // 1 = Allocated
+
+        if (_currencyType == CurrencyType.ROXN) {
+            require(repo.poolRewardsROXN >= amount, "DualCurrencyRepoRewards: Insufficient pool ROXN rewards");
+            repo.poolRewardsROXN -= amount;
+        } else if (_currencyType == CurrencyType.USDC) {
+            require(repo.poolRewardsUSDC >= amount, "DualCurrencyRepoRewards: Insufficient pool USDC rewards");
+            repo.poolRewardsUSDC -= amount;
+        } else {
+            require(repo.poolRewards >= amount, "DualCurrencyRepoRewards: Insufficient pool XDC rewards");
+            repo.poolRewards -= amount;
+        }
+
+        if (uint8(_currencyType) == issueCurrencyTypes[repoId][issueId]) {
+            issue.rewardAmount += amount;
+        } else {
+            issueExtraRewards[repoId][issueId][uint8(_currencyType)] += amount;
+        }
+
+        emit RewardIncreased(repoId, issueId, amount, _currencyType);
+    }
+
+    /**
+     * @dev Pays one issue reward out to several contributors in a single call.
+     * Shares are expressed in basis points and must add up to 10000. The last
+     * recipient receives any rounding remainder so the full reward is paid out.
+     * Emits one RewardDistributed event per recipient.
+     */
+    function distributeRewardSplit(
+        uint256 repoId,
+        uint256 issueId,
+        address[] calldata contributorAddresses,
+        uint256[] calldata sharesBps
+    ) external onlyPoolManager(repoId) nonReentrant {
+        require(contributorAddresses.length > 0, "DualCurrencyRepoRewards: No contributors");
+        require(contributorAddresses.length == sharesBps.length, "DualCurrencyRepoRewards: Shares length mismatch");
+        require(contributorAddresses.length <= MAX_SPLIT_RECIPIENTS, "DualCurrencyRepoRewards: Too many contributors");
+
+        uint256 totalBps = 0;
+        for (uint i = 0; i < sharesBps.length; i++) {
+            require(sharesBps[i] > 0, "DualCurrencyRepoRewards: Share must be positive");
+            require(contributorAddresses[i] != address(0), "DualCurrencyRepoRewards: Invalid contributor address");
+            totalBps += sharesBps[i];
+        }
+        require(totalBps == 10000, "DualCurrencyRepoRewards: Shares must total 10000 bps");
+
+        Repository storage repo = repositories[repoId];
+        uint256 rewardToDistribute = repo.issueRewards[issueId].rewardAmount;
+        CurrencyType bountyType = CurrencyType(issueCurrencyTypes[repoId][issueId]);
+
+        require(rewardToDistribute > 0, "DualCurrencyRepoRewards: No reward allocated");
+        require(repo.issueRewards[issueId].status == 1, "DualCurrencyRepoRewards: Issue not in allocated state"); // 1 = Allocated
+
+        delete repo.issueRewards[issueId];
+        delete issueCurrencyTypes[repoId][issueId];
+        if (repo.issueCount > 0) {
+             repo.issueCount--;
+        }
+
+        if (bountyType == CurrencyType.ROXN) {
+            require(roxnToken.balanceOf(address(this)) >= rewardToDistribute, "DualCurrencyRepoRewards: Insufficient contract ROXN balance");
+        } else if (bountyType == CurrencyType.USDC) {
+            require(usdcToken.balanceOf(address(this)) >= rewardToDistribute, "DualCurrencyRepoRewards: Insufficient contract USDC balance");
+        } else {
+            require(address(this).balance >= rewardToDistribute, "DualCurrencyRepoRewards: Insufficient contract XDC balance");
+        }
+
+        for (uint i = 0; i < contributorAddresses.length; i++) {
+            _addContributorIfMissing(repo, contributorAddresses[i]);
+        }
+        _payShares(repoId, issueId, bountyType, rewardToDistribute, contributorAddresses, sharesBps);
+        _distributeExtraRewards(repoId, issueId, contributorAddresses, sharesBps);
+    }
+
+    function _distributeExtraRewardsTo(uint256 repoId, uint256 issueId, address contributorAddress) internal {
+        address[] memory recipients = new address[](1);
+        recipients[0] = contributorAddress;
+        uint256[] memory sharesBps = new uint256[](1);
+        sharesBps[0] = 10000;
+        _distributeExtraRewards(repoId, issueId, recipients, sharesBps);
+    }
+
+    /**
+     * @dev Pays out an issue's extra-currency rewards with the same shares and
+     * commission as its main reward. Emits RewardDistributed per recipient and currency.
+     */
+    function _distributeExtraRewards(
+        uint256 repoId,
+        uint256 issueId,
+        address[] memory recipients,
+        uint256[] memory sharesBps
+    ) internal {
+        for (uint8 c = 0; c <= uint8(CurrencyType.USDC); c++) {
+            uint256 extra = issueExtraRewards[repoId][issueId][c];
+            if (extra == 0) {
+                continue;
+            }
+            delete issueExtraRewards[repoId][issueId][c];
+            CurrencyType currencyType = CurrencyType(c);
+
+            if (currencyType == CurrencyType.ROXN) {
+                require(roxnToken.balanceOf(address(this)) >= extra, "DualCurrencyRepoRewards: Insufficient contract ROXN balance for extra reward");
+            } else if (currencyType == CurrencyType.USDC) {
+                require(usdcToken.balanceOf(address(this)) >= extra, "DualCurrencyRepoRewards: Insufficient contract USDC balance for extra reward");
+            } else {
+                require(address(this).balance >= extra, "DualCurrencyRepoRewards: Insufficient contract XDC balance for extra reward");
+            }
+            _payShares(repoId, issueId, currencyType, extra, recipients, sharesBps);
+        }
+    }
+
+    /**
+     * @dev Takes the contributor commission from an amount and pays the rest by shares.
+     * The last recipient receives any rounding remainder. Emits RewardDistributed per recipient.
+     */
+    function _payShares(
+        uint256 repoId,
+        uint256 issueId,
+        CurrencyType currencyType,
+        uint256 amount,
+        address[] memory recipients,
+        uint256[] memory sharesBps
+    ) internal {
+        uint256 netTotal = amount;
+        if (feeCollector != address(0) && contributorFeeRate > 0) {
+            uint256 commission = (amount * contributorFeeRate) / 10000;
+            netTotal = amount - commission;
+            if (commission > 0) {
+                _transferReward(currencyType, feeCollector, commission);
+            }
+        }
+
+        uint256 paidOut = 0;
+        for (uint i = 0; i < recipients.length; i++) {
+            uint256 share = i == recipients.length - 1
+                ? netTotal - paidOut
+                : (netTotal * sharesBps[i]) / 10000;
+            paidOut += share;
+            if (share > 0) {
+                _transferReward(currencyType, recipients[i], share);
+            }
+            emit RewardDistributed(repoId, issueId, recipients[i], share, currencyType);
+        }
+    }
+
+    function _refundExtraRewards(Repository storage repo, uint256 repoId, uint256 issueId) internal {
+        for (uint8 c = 0; c <= uint8(CurrencyType.USDC); c++) {
+            uint256 extra = issueExtraRewards[repoId][issueId][c];
+            if (extra == 0) {
+                continue;
+            }
+            delete issueExtraRewards[repoId][issueId][c];
+            CurrencyType currencyType = CurrencyType(c);
+
+            if (currencyType == CurrencyType.ROXN) {
+                repo.poolRewardsROXN += extra;
+            } else if (currencyType == CurrencyType.USDC) {
+                repo.poolRewardsUSDC += extra;
+            } else {
+                repo.poolRewards += extra;
+            }
+            emit RewardCancelled(repoId, issueId, extra, currencyType);
+        }
+    }
+
+    function _addContributorIfMissing(Repository storage repo, address contributorAddress) internal {
+        for (uint i = 0; i < repo.contributors.length; i++) {
+            if (repo.contributors[i] == contributorAddress) {
+                return;
+            }
+        }
+        repo.contributors.push(contributorAddress);
+    }
+
+    function _transferReward(CurrencyType currencyType, address to, uint256 amount) internal {
+        if (currencyType == CurrencyType.ROXN) {
+            roxnToken.safeTransfer(to, amount);
+        } else if (currencyType == CurrencyType.USDC) {
+            usdcToken.safeTransfer(to, amount);
+        } else {
+            (bool success, ) = payable(to).call{value: amount}("");
+            require(success, "DualCurrencyRepoRewards: Failed to send XDC");
+        }
     }
 
     // Admin functions remain largely the same
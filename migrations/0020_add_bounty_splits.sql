@@ -0,0 +1,19 @@
+-- Migration: Add Bounty Splits Table
+-- Description: Stores per-contributor percentage shares for issues whose bounty is paid to several people
+
+CREATE TABLE IF NOT EXISTS bounty_splits (
+  id SERIAL PRIMARY KEY,
+  github_repo_id TEXT NOT NULL,
+  github_issue_number INTEGER NOT NULL,
+  github_username TEXT NOT NULL,
+  share_bps INTEGER NOT NULL CHECK (share_bps > 0 AND share_bps <= 10000),
+  set_by TEXT NOT NULL,
+  status TEXT DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'paid')),
+  transaction_hash TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  paid_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (github_repo_id, github_issue_number, github_username)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bounty_splits_repo_issue ON bounty_splits(github_repo_id, github_issue_number);
+CREATE INDEX IF NOT EXISTS idx_bounty_splits_github_username ON bounty_splits(github_username);
@@ -0,0 +1,22 @@
+-- Migration: Add Bounty Claims Table
+-- Description: Lets a contributor reserve an allocated bounty for a limited time via /claim
+
+CREATE TABLE IF NOT EXISTS bounty_claims (
+  id SERIAL PRIMARY KEY,
+  github_repo_id TEXT NOT NULL,
+  github_issue_number INTEGER NOT NULL,
+  github_username TEXT NOT NULL,
+  status TEXT DEFAULT 'active' NOT NULL CHECK (status IN ('active', 'released', 'expired', 'completed')),
+  assigned_by TEXT,
+  claimed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  closed_by TEXT
+);
+
+-- Only one active claim per issue
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bounty_claims_active_issue
+  ON bounty_claims(github_repo_id, github_issue_number) WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_bounty_claims_github_username ON bounty_claims(github_username);
+CREATE INDEX IF NOT EXISTS idx_bounty_claims_status_expires_at ON bounty_claims(status, expires_at);
@@ -0,0 +1,25 @@
+-- Migration: Add Payout Ledger Table
+-- Description: Records every bounty distribution before it is sent, so each issue is paid at most once
+
+CREATE TABLE IF NOT EXISTS payout_ledger (
+  id SERIAL PRIMARY KEY,
+  github_repo_id TEXT NOT NULL,
+  github_issue_number INTEGER NOT NULL,
+  status TEXT DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'submitted', 'confirmed', 'failed')),
+  currency TEXT NOT NULL CHECK (currency IN ('XDC', 'ROXN', 'USDC')),
+  amount TEXT NOT NULL,
+  recipients JSONB NOT NULL,
+  source TEXT NOT NULL,
+  transaction_hash TEXT,
+  gas_used TEXT,
+  attempts INTEGER DEFAULT 1 NOT NULL,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  confirmed_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  CONSTRAINT payout_ledger_repo_issue_unique UNIQUE (github_repo_id, github_issue_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payout_ledger_status ON payout_ledger(status);
+CREATE INDEX IF NOT EXISTS idx_payout_ledger_recipients ON payout_ledger USING GIN (recipients);
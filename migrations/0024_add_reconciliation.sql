@@ -0,0 +1,47 @@
+-- Migration: Add Reconciliation Tables
+-- Description: Stores replayed rewards contract events, rebuilt pool balances and reconciler run reports
+
+CREATE TABLE IF NOT EXISTS chain_reward_events (
+  id SERIAL PRIMARY KEY,
+  event_name TEXT NOT NULL,
+  github_repo_id TEXT NOT NULL,
+  github_issue_number INTEGER,
+  currency TEXT NOT NULL CHECK (currency IN ('XDC', 'ROXN', 'USDC')),
+  amount TEXT NOT NULL,
+  address TEXT,
+  block_number INTEGER NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  log_index INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  CONSTRAINT chain_reward_events_tx_log_unique UNIQUE (transaction_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chain_reward_events_repo ON chain_reward_events(github_repo_id, block_number, log_index);
+
+CREATE TABLE IF NOT EXISTS repository_pool_balances (
+  id SERIAL PRIMARY KEY,
+  github_repo_id TEXT NOT NULL UNIQUE,
+  xdc_balance TEXT DEFAULT '0' NOT NULL,
+  roxn_balance TEXT DEFAULT '0' NOT NULL,
+  usdc_balance TEXT DEFAULT '0' NOT NULL,
+  on_chain_xdc_balance TEXT,
+  on_chain_roxn_balance TEXT,
+  on_chain_usdc_balance TEXT,
+  has_mismatch BOOLEAN DEFAULT FALSE NOT NULL,
+  last_event_block INTEGER,
+  reconciled_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS reconciliation_runs (
+  id SERIAL PRIMARY KEY,
+  status TEXT DEFAULT 'running' NOT NULL CHECK (status IN ('running', 'completed', 'failed')),
+  from_block INTEGER NOT NULL,
+  to_block INTEGER NOT NULL,
+  events_processed INTEGER DEFAULT 0 NOT NULL,
+  mismatches JSONB DEFAULT '[]'::jsonb NOT NULL,
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_runs_started_at ON reconciliation_runs(started_at DESC);
@@ -0,0 +1,23 @@
+-- Migration: Add Repository Managers Table
+-- Description: Delegated bounty managers per repository with owner, allocator and viewer roles
+
+CREATE TABLE IF NOT EXISTS repository_managers (
+  id SERIAL PRIMARY KEY,
+  github_repo_id TEXT NOT NULL,
+  github_username TEXT NOT NULL,
+  user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'allocator', 'viewer')),
+  allocation_caps JSONB DEFAULT '{}'::jsonb NOT NULL,
+  status TEXT DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'active', 'revoked')),
+  invited_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+-- One membership per user per repository; a revoked member can be invited again
+CREATE UNIQUE INDEX IF NOT EXISTS idx_repository_managers_repo_username
+  ON repository_managers(github_repo_id, LOWER(github_username));
+
+CREATE INDEX IF NOT EXISTS idx_repository_managers_username_status
+  ON repository_managers(LOWER(github_username), status);
@@ -0,0 +1,53 @@
+-- Migration: Add Limits Engine Tables
+-- Description: Per-currency daily, weekly and per-transaction limits for transfers and repository funding,
+-- with admin overrides and an audit of every limit decision
+
+CREATE TABLE IF NOT EXISTS limit_overrides (
+  id SERIAL PRIMARY KEY,
+  scope TEXT NOT NULL CHECK (scope IN ('transfer', 'repo_funding')),
+  subject_id TEXT NOT NULL,
+  currency TEXT NOT NULL CHECK (currency IN ('XDC', 'ROXN', 'USDC')),
+  daily_limit TEXT,
+  weekly_limit TEXT,
+  per_transaction_limit TEXT,
+  reason TEXT,
+  set_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_limit_overrides_subject
+  ON limit_overrides(scope, subject_id, currency);
+
+CREATE TABLE IF NOT EXISTS limit_usage (
+  id SERIAL PRIMARY KEY,
+  scope TEXT NOT NULL CHECK (scope IN ('transfer', 'repo_funding')),
+  subject_id TEXT NOT NULL,
+  currency TEXT NOT NULL CHECK (currency IN ('XDC', 'ROXN', 'USDC')),
+  amount NUMERIC(36, 18) NOT NULL,
+  user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  transaction_hash TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+-- Window sums read the last 7 days for one subject and currency
+CREATE INDEX IF NOT EXISTS idx_limit_usage_window
+  ON limit_usage(scope, subject_id, currency, created_at);
+
+CREATE TABLE IF NOT EXISTS limit_decisions (
+  id SERIAL PRIMARY KEY,
+  scope TEXT NOT NULL CHECK (scope IN ('transfer', 'repo_funding')),
+  subject_id TEXT NOT NULL,
+  currency TEXT NOT NULL CHECK (currency IN ('XDC', 'ROXN', 'USDC')),
+  amount TEXT NOT NULL,
+  allowed BOOLEAN NOT NULL,
+  reason TEXT,
+  limits JSONB NOT NULL,
+  daily_used TEXT NOT NULL,
+  weekly_used TEXT NOT NULL,
+  user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_limit_decisions_subject
+  ON limit_decisions(scope, subject_id, created_at DESC);
@@ -0,0 +1,27 @@
+-- Migration: Add Step-Up Authentication Tables
+-- Description: Hashed email one-time codes with attempt counters, and optional authenticator app (TOTP) enrolment
+
+CREATE TABLE IF NOT EXISTS step_up_challenges (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  purpose TEXT NOT NULL CHECK (purpose IN ('wallet_export', 'transfer', 'payout_request', 'bounty_allocation')),
+  code_hash TEXT NOT NULL,
+  attempts INTEGER DEFAULT 0 NOT NULL,
+  max_attempts INTEGER DEFAULT 5 NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  consumed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_step_up_challenges_user_purpose
+  ON step_up_challenges(user_id, purpose, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS user_totp_secrets (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+  encrypted_secret TEXT NOT NULL,
+  enabled BOOLEAN DEFAULT FALSE NOT NULL,
+  last_used_step INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  enabled_at TIMESTAMP WITH TIME ZONE
+);
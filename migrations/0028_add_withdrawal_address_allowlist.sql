@@ -0,0 +1,36 @@
+-- Migration: Add Withdrawal Address Allowlist
+-- Description: Per-user withdrawal address book with email confirmation and a cooling-off period, plus a change log
+
+CREATE TABLE IF NOT EXISTS withdrawal_addresses (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  address TEXT NOT NULL,
+  label TEXT,
+  confirmation_token_hash TEXT,
+  confirmation_expires_at TIMESTAMP WITH TIME ZONE,
+  confirmed_at TIMESTAMP WITH TIME ZONE,
+  activates_at TIMESTAMP WITH TIME ZONE,
+  removed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+-- One live entry per user and address; removed entries stay for the record
+CREATE UNIQUE INDEX IF NOT EXISTS idx_withdrawal_addresses_user_address_live
+  ON withdrawal_addresses(user_id, address) WHERE removed_at IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_withdrawal_addresses_token
+  ON withdrawal_addresses(confirmation_token_hash) WHERE confirmation_token_hash IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS withdrawal_address_events (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  address_id INTEGER REFERENCES withdrawal_addresses(id) ON DELETE SET NULL,
+  address TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('added', 'confirmed', 'removed', 'transfer_blocked')),
+  details JSONB,
+  ip_address TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_withdrawal_address_events_user
+  ON withdrawal_address_events(user_id, created_at DESC);
@@ -0,0 +1,38 @@
+-- Migration: Add Linked Wallets (Self-Custody Payouts)
+-- Description: External payout wallets proven by a signed challenge, and a step-up purpose for changing them
+
+CREATE TABLE IF NOT EXISTS linked_wallets (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  address TEXT NOT NULL,
+  signature TEXT NOT NULL,
+  message TEXT NOT NULL,
+  linked_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  unlinked_at TIMESTAMP WITH TIME ZONE
+);
+
+-- One live payout wallet per user, and an address can only be linked to one account at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_linked_wallets_user_live
+  ON linked_wallets(user_id) WHERE unlinked_at IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_linked_wallets_address_live
+  ON linked_wallets(LOWER(address)) WHERE unlinked_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS wallet_link_challenges (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  address TEXT NOT NULL,
+  nonce TEXT NOT NULL UNIQUE,
+  message TEXT NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_link_challenges_user
+  ON wallet_link_challenges(user_id, created_at DESC);
+
+-- Changing the payout wallet needs a step-up code
+ALTER TABLE step_up_challenges DROP CONSTRAINT IF EXISTS step_up_challenges_purpose_check;
+ALTER TABLE step_up_challenges ADD CONSTRAINT step_up_challenges_purpose_check
+  CHECK (purpose IN ('wallet_export', 'transfer', 'payout_request', 'bounty_allocation', 'payout_address'));
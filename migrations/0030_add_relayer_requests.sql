@@ -0,0 +1,38 @@
+-- Migration: Add Relayer Requests
+-- Description: Signed EIP-2771 forward requests sent (or queued) by the platform relayer, with per-request gas cost for sponsorship metering
+
+CREATE TABLE IF NOT EXISTS relayer_requests (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  repo_id TEXT,
+  action TEXT NOT NULL CHECK (action IN ('add_pool_manager', 'allocate_bounty', 'cancel_bounty', 'increase_bounty', 'distribute_bounty', 'distribute_bounty_split', 'fund_roxn', 'fund_usdc')),
+  from_address TEXT NOT NULL,
+  to_address TEXT NOT NULL,
+  data TEXT NOT NULL,
+  gas TEXT NOT NULL,
+  nonce TEXT NOT NULL,
+  signature TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'submitted', 'confirmed', 'failed')),
+  transaction_hash TEXT,
+  gas_used TEXT,
+  cost_xdc DECIMAL(36, 18),
+  attempts INTEGER DEFAULT 0 NOT NULL,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  confirmed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- A forwarder nonce can only be used once per signer; failed requests never consumed theirs
+CREATE UNIQUE INDEX IF NOT EXISTS idx_relayer_requests_signer_nonce
+  ON relayer_requests(LOWER(from_address), nonce) WHERE status <> 'failed';
+
+CREATE INDEX IF NOT EXISTS idx_relayer_requests_queue
+  ON relayer_requests(status, id) WHERE status = 'queued';
+
+-- Sponsorship windows are summed per user and per repository
+CREATE INDEX IF NOT EXISTS idx_relayer_requests_user_spend
+  ON relayer_requests(user_id, confirmed_at) WHERE status = 'confirmed';
+
+CREATE INDEX IF NOT EXISTS idx_relayer_requests_repo_spend
+  ON relayer_requests(repo_id, confirmed_at) WHERE status = 'confirmed';
@@ -0,0 +1,35 @@
+-- Migration: Add Relayer Transactions
+-- Description: Record of every transaction broadcast by the relayer hot wallet, including gas-bumped rebroadcasts and the final receipt status
+
+CREATE TABLE IF NOT EXISTS relayer_transactions (
+  id SERIAL PRIMARY KEY,
+  purpose TEXT NOT NULL,
+  from_address TEXT NOT NULL,
+  to_address TEXT NOT NULL,
+  data TEXT NOT NULL,
+  value TEXT DEFAULT '0' NOT NULL,
+  nonce INTEGER NOT NULL,
+  gas_limit TEXT NOT NULL,
+  gas_price TEXT NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  broadcast_hashes JSONB DEFAULT '[]'::jsonb NOT NULL,
+  bump_count INTEGER DEFAULT 0 NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'failed', 'dropped')),
+  block_number INTEGER,
+  gas_used TEXT,
+  effective_gas_price TEXT,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  last_broadcast_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  settled_at TIMESTAMP WITH TIME ZONE
+);
+
+-- A dropped transaction gave its nonce back; any other row has it for good
+CREATE UNIQUE INDEX IF NOT EXISTS idx_relayer_transactions_sender_nonce
+  ON relayer_transactions(LOWER(from_address), nonce) WHERE status <> 'dropped';
+
+CREATE INDEX IF NOT EXISTS idx_relayer_transactions_pending
+  ON relayer_transactions(last_broadcast_at) WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_relayer_transactions_created
+  ON relayer_transactions(created_at DESC);
@@ -0,0 +1,54 @@
+-- Migration: Add Multi-Signature Approvals
+-- Description: Per-repository N-of-M approval policies for large bounty allocations and distributions, held proposals and their approval trail
+
+CREATE TABLE IF NOT EXISTS multisig_policies (
+  id SERIAL PRIMARY KEY,
+  github_repo_id TEXT NOT NULL UNIQUE,
+  required_approvals INTEGER NOT NULL CHECK (required_approvals >= 1),
+  thresholds JSONB DEFAULT '{}'::jsonb NOT NULL,
+  enabled BOOLEAN DEFAULT TRUE NOT NULL,
+  updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS multisig_proposals (
+  id SERIAL PRIMARY KEY,
+  github_repo_id TEXT NOT NULL,
+  issue_number INTEGER NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('allocate', 'distribute')),
+  amounts JSONB NOT NULL,
+  payload JSONB DEFAULT '{}'::jsonb NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('dashboard', 'bot', 'webhook')),
+  proposed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  proposed_by_username TEXT,
+  signer_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  required_approvals INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'executed', 'failed', 'rejected', 'cancelled')),
+  transaction_hash TEXT,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  approved_at TIMESTAMP WITH TIME ZONE,
+  resolved_at TIMESTAMP WITH TIME ZONE
+);
+
+-- A second allocation or payout for the same issue waits for the open proposal to resolve
+CREATE UNIQUE INDEX IF NOT EXISTS idx_multisig_proposals_open
+  ON multisig_proposals(github_repo_id, issue_number, action) WHERE status IN ('pending', 'approved');
+
+CREATE INDEX IF NOT EXISTS idx_multisig_proposals_repo
+  ON multisig_proposals(github_repo_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS multisig_approvals (
+  id SERIAL PRIMARY KEY,
+  proposal_id INTEGER NOT NULL REFERENCES multisig_proposals(id) ON DELETE CASCADE,
+  user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  github_username TEXT NOT NULL,
+  decision TEXT NOT NULL CHECK (decision IN ('approve', 'reject')),
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+-- One vote per pool manager per proposal
+CREATE UNIQUE INDEX IF NOT EXISTS idx_multisig_approvals_voter
+  ON multisig_approvals(proposal_id, LOWER(github_username));
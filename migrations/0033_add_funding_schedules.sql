@@ -0,0 +1,48 @@
+-- Migration: Add Funding Schedules
+-- Description: Recurring and balance-triggered top-up funding for repository pools, with a history of every scheduled run
+
+CREATE TABLE IF NOT EXISTS funding_schedules (
+  id SERIAL PRIMARY KEY,
+  github_repo_id TEXT NOT NULL,
+  funder_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('recurring', 'top_up')),
+  currency TEXT NOT NULL CHECK (currency IN ('XDC', 'ROXN', 'USDC')),
+  amount TEXT NOT NULL,
+  cadence TEXT CHECK (cadence IN ('daily', 'weekly', 'monthly')),
+  day_of_week INTEGER CHECK (day_of_week BETWEEN 0 AND 6),
+  day_of_month INTEGER CHECK (day_of_month BETWEEN 1 AND 28),
+  threshold_amount TEXT,
+  max_total_amount TEXT,
+  total_funded NUMERIC(36, 18) DEFAULT 0 NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'completed', 'cancelled')),
+  next_run_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  consecutive_failures INTEGER DEFAULT 0 NOT NULL,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  last_run_status TEXT CHECK (last_run_status IN ('funded', 'skipped', 'failed')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  CHECK (kind <> 'recurring' OR cadence IS NOT NULL),
+  CHECK (kind <> 'top_up' OR threshold_amount IS NOT NULL)
+);
+
+-- The scheduler only looks at active schedules that are due
+CREATE INDEX IF NOT EXISTS idx_funding_schedules_due
+  ON funding_schedules(next_run_at) WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_funding_schedules_repo
+  ON funding_schedules(github_repo_id);
+
+CREATE TABLE IF NOT EXISTS funding_schedule_runs (
+  id SERIAL PRIMARY KEY,
+  schedule_id INTEGER NOT NULL REFERENCES funding_schedules(id) ON DELETE CASCADE,
+  status TEXT NOT NULL CHECK (status IN ('funded', 'skipped', 'failed')),
+  currency TEXT NOT NULL CHECK (currency IN ('XDC', 'ROXN', 'USDC')),
+  amount TEXT NOT NULL,
+  pool_balance TEXT,
+  transaction_hash TEXT,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_funding_schedule_runs_schedule
+  ON funding_schedule_runs(schedule_id, created_at DESC);
@@ -0,0 +1,34 @@
+-- Migration: Add Issue Sponsorships
+-- Description: Ledger of third-party sponsorships of individual issues, held in escrow until paid to the fixer or refunded
+
+CREATE TABLE IF NOT EXISTS issue_sponsorships (
+  id SERIAL PRIMARY KEY,
+  github_repo_id TEXT NOT NULL,
+  github_issue_number INTEGER NOT NULL,
+  sponsor_id INTEGER NOT NULL REFERENCES users(id),
+  display_name TEXT,
+  currency TEXT NOT NULL CHECK (currency IN ('XDC', 'ROXN', 'USDC')),
+  amount TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'held', 'paying', 'paid', 'refunding', 'refunded', 'failed')),
+  escrow_tx_hash TEXT,
+  recipient_username TEXT,
+  payout_address TEXT,
+  payout_tx_hash TEXT,
+  refund_reason TEXT,
+  refund_tx_hash TEXT,
+  failure_reason TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_issue_sponsorships_issue
+  ON issue_sponsorships(github_repo_id, github_issue_number);
+
+CREATE INDEX IF NOT EXISTS idx_issue_sponsorships_sponsor
+  ON issue_sponsorships(sponsor_id, created_at DESC);
+
+-- The sweep only looks at sponsorships still in escrow
+CREATE INDEX IF NOT EXISTS idx_issue_sponsorships_held
+  ON issue_sponsorships(expires_at) WHERE status = 'held';
@@ -0,0 +1,24 @@
+-- Migration: Add Bounty Expiries
+-- Description: Optional deadlines on allocated bounties, after which the bounty is returned to the repository pool
+
+CREATE TABLE IF NOT EXISTS bounty_expiries (
+  id SERIAL PRIMARY KEY,
+  github_repo_id TEXT NOT NULL,
+  github_issue_number INTEGER NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  set_by TEXT,
+  status TEXT DEFAULT 'active' NOT NULL CHECK (status IN ('active', 'returning', 'returned', 'cleared')),
+  reminded_at TIMESTAMP WITH TIME ZONE,
+  return_tx_hash TEXT,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+-- One live deadline per issue
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bounty_expiries_live_issue
+  ON bounty_expiries(github_repo_id, github_issue_number) WHERE status IN ('active', 'returning');
+
+-- The expiry sweep only looks at active deadlines
+CREATE INDEX IF NOT EXISTS idx_bounty_expiries_active_expires_at
+  ON bounty_expiries(expires_at) WHERE status = 'active';
@@ -0,0 +1,16 @@
+-- Migration: Add Token Price Snapshots
+-- Description: USD prices of XDC, ROXN and USDC over time, used to value contributor earnings statements at payout time
+
+CREATE TABLE IF NOT EXISTS token_price_snapshots (
+  id SERIAL PRIMARY KEY,
+  currency TEXT NOT NULL CHECK (currency IN ('XDC', 'ROXN', 'USDC')),
+  usd_price TEXT NOT NULL,
+  source TEXT NOT NULL,
+  captured_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  recorded_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+-- Statements look up the latest price at or before each payout
+CREATE INDEX IF NOT EXISTS idx_token_price_snapshots_currency_captured_at
+  ON token_price_snapshots(currency, captured_at DESC);
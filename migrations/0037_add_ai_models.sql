@@ -0,0 +1,25 @@
+-- Migration: Add AI Model Registry
+-- Description: Models the VS Code AI proxy routes to, editable by admins. API keys stay in config, env or Parameter Store and are referenced by name.
+
+CREATE TABLE IF NOT EXISTS ai_models (
+  id SERIAL PRIMARY KEY,
+  model_id TEXT NOT NULL UNIQUE,
+  display_name TEXT NOT NULL,
+  description TEXT,
+  provider_type TEXT NOT NULL CHECK (provider_type IN ('azure_openai', 'azure_ai_inference', 'openai_compatible', 'ollama')),
+  endpoint TEXT NOT NULL,
+  upstream_model TEXT NOT NULL,
+  api_version TEXT,
+  path_style TEXT NOT NULL CHECK (path_style IN ('azure_deployment', 'azure_models', 'openai')),
+  secret_ref TEXT,
+  prompt_cost INTEGER NOT NULL DEFAULT 1 CHECK (prompt_cost >= 0),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+-- At most one model serves requests for 'default' or an unknown model id
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_models_single_default
+  ON ai_models(is_default) WHERE is_default = TRUE;
@@ -0,0 +1,33 @@
+-- Migration: Add AI Usage Metering
+-- Description: Per-model token rates, prompt holds for in-flight VS Code AI requests, and a per-request token breakdown on the prompt ledger
+
+ALTER TABLE ai_models ADD COLUMN IF NOT EXISTS input_rate TEXT;
+ALTER TABLE ai_models ADD COLUMN IF NOT EXISTS output_rate TEXT;
+
+CREATE TABLE IF NOT EXISTS ai_usage_authorizations (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  model TEXT NOT NULL,
+  estimated_input_tokens INTEGER NOT NULL,
+  estimated_output_tokens INTEGER NOT NULL,
+  authorized_prompts INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'authorized' CHECK (status IN ('authorized', 'settled', 'released')),
+  input_tokens INTEGER,
+  output_tokens INTEGER,
+  charged_prompts INTEGER,
+  release_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  settled_at TIMESTAMP WITH TIME ZONE
+);
+
+-- The sweep looks for holds that were never settled
+CREATE INDEX IF NOT EXISTS idx_ai_usage_authorizations_open
+  ON ai_usage_authorizations(created_at) WHERE status = 'authorized';
+CREATE INDEX IF NOT EXISTS idx_ai_usage_authorizations_user_id
+  ON ai_usage_authorizations(user_id, created_at DESC);
+
+ALTER TABLE prompt_transactions ADD COLUMN IF NOT EXISTS authorization_id INTEGER;
+ALTER TABLE prompt_transactions ADD COLUMN IF NOT EXISTS model TEXT;
+ALTER TABLE prompt_transactions ADD COLUMN IF NOT EXISTS input_tokens INTEGER;
+ALTER TABLE prompt_transactions ADD COLUMN IF NOT EXISTS output_tokens INTEGER;
+ALTER TABLE prompt_transactions ADD COLUMN IF NOT EXISTS prompts_charged INTEGER;
@@ -0,0 +1,15 @@
+-- Migration: Add AI Model Fallbacks
+-- Description: Fallback chains for VS Code AI models, and the exo compute network as a registry provider
+
+ALTER TABLE ai_models ADD COLUMN IF NOT EXISTS fallback_models JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- The exo network is reached through the compute nodes, not an HTTP endpoint
+ALTER TABLE ai_models ALTER COLUMN endpoint DROP NOT NULL;
+
+ALTER TABLE ai_models DROP CONSTRAINT IF EXISTS ai_models_provider_type_check;
+ALTER TABLE ai_models ADD CONSTRAINT ai_models_provider_type_check
+  CHECK (provider_type IN ('azure_openai', 'azure_ai_inference', 'openai_compatible', 'ollama', 'exo_network'));
+
+ALTER TABLE ai_models DROP CONSTRAINT IF EXISTS ai_models_path_style_check;
+ALTER TABLE ai_models ADD CONSTRAINT ai_models_path_style_check
+  CHECK (path_style IN ('azure_deployment', 'azure_models', 'openai', 'exo_task'));
@@ -0,0 +1,59 @@
+-- Migration: Add Prompt Organizations
+-- Description: Shared VS Code AI prompt pools for organisations, with member invites, per-member monthly caps and a pool ledger
+
+CREATE TABLE IF NOT EXISTS prompt_organizations (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  prompt_balance INTEGER NOT NULL DEFAULT 0 CHECK (prompt_balance >= 0),
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS prompt_organization_members (
+  id SERIAL PRIMARY KEY,
+  organization_id INTEGER NOT NULL REFERENCES prompt_organizations(id) ON DELETE CASCADE,
+  github_username TEXT NOT NULL,
+  user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('admin', 'member')),
+  monthly_prompt_cap INTEGER CHECK (monthly_prompt_cap > 0),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'active', 'revoked')),
+  invited_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+-- One row per GitHub user per organisation; revoked rows are reused on re-invite
+CREATE UNIQUE INDEX IF NOT EXISTS idx_prompt_organization_members_username
+  ON prompt_organization_members(organization_id, lower(github_username));
+
+-- Requests draw from a single pool, so a user is active in at most one organisation
+CREATE UNIQUE INDEX IF NOT EXISTS idx_prompt_organization_members_active_user
+  ON prompt_organization_members(user_id) WHERE status = 'active';
+
+CREATE TABLE IF NOT EXISTS prompt_organization_transactions (
+  id SERIAL PRIMARY KEY,
+  organization_id INTEGER NOT NULL REFERENCES prompt_organizations(id) ON DELETE CASCADE,
+  user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  transaction_type TEXT NOT NULL CHECK (transaction_type IN ('deposit', 'usage_vscode_ai', 'usage_vscode_ai_hold', 'usage_vscode_ai_release', 'admin_adjustment')),
+  prompts_changed INTEGER NOT NULL,
+  balance_after_tx INTEGER NOT NULL,
+  notes TEXT,
+  authorization_id INTEGER,
+  model TEXT,
+  input_tokens INTEGER,
+  output_tokens INTEGER,
+  prompts_charged INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_prompt_organization_transactions_org
+  ON prompt_organization_transactions(organization_id, created_at DESC);
+
+ALTER TABLE ai_usage_authorizations
+  ADD COLUMN IF NOT EXISTS organization_id INTEGER REFERENCES prompt_organizations(id) ON DELETE SET NULL;
+
+-- Monthly caps and usage reports sum an organisation's requests by member and period
+CREATE INDEX IF NOT EXISTS idx_ai_usage_authorizations_organization
+  ON ai_usage_authorizations(organization_id, user_id, created_at) WHERE organization_id IS NOT NULL;
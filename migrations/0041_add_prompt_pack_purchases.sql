@@ -0,0 +1,30 @@
+-- Migration: Add Prompt Pack Purchases
+-- Description: Self-serve prompt pack checkout through Onramp merchant checkout or a USDC payment from the user's wallet
+
+CREATE TABLE IF NOT EXISTS prompt_pack_purchases (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  pack_id TEXT NOT NULL REFERENCES prompt_packs(id),
+  prompt_amount INTEGER NOT NULL CHECK (prompt_amount > 0),
+  price_usdc TEXT NOT NULL,
+  payment_method TEXT NOT NULL CHECK (payment_method IN ('onramp_merchant', 'usdc_wallet')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'credited', 'failed')),
+  merchant_recognition_id TEXT,
+  onramp_order_id TEXT,
+  tx_hash TEXT,
+  failure_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  credited_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+-- A checkout, an Onramp order or an on-chain payment can only ever pay for one purchase
+CREATE UNIQUE INDEX IF NOT EXISTS idx_prompt_pack_purchases_merchant_id
+  ON prompt_pack_purchases(merchant_recognition_id) WHERE merchant_recognition_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_prompt_pack_purchases_order_id
+  ON prompt_pack_purchases(onramp_order_id) WHERE onramp_order_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_prompt_pack_purchases_tx_hash
+  ON prompt_pack_purchases(tx_hash) WHERE tx_hash IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_prompt_pack_purchases_user_id
+  ON prompt_pack_purchases(user_id, created_at DESC);
@@ -0,0 +1,9 @@
+-- Migration: Add Step-Up Lockouts
+-- Description: Per-user count of failed step-up codes, emailed or authenticator, with a lockout that doubles each time it is hit
+
+CREATE TABLE IF NOT EXISTS step_up_lockouts (
+  user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  failed_attempts INTEGER DEFAULT 0 NOT NULL,
+  last_failed_at TIMESTAMP WITH TIME ZONE,
+  locked_until TIMESTAMP WITH TIME ZONE
+);
@@ -0,0 +1,8 @@
+-- Migration: Key Payout Ledger By Allocation
+-- Description: An issue's bounty can be allocated again after it is paid, so the ledger allows one payout per allocation rather than one per issue
+
+ALTER TABLE payout_ledger ADD COLUMN IF NOT EXISTS allocation_seq INTEGER DEFAULT 1 NOT NULL;
+
+ALTER TABLE payout_ledger DROP CONSTRAINT IF EXISTS payout_ledger_repo_issue_unique;
+ALTER TABLE payout_ledger ADD CONSTRAINT payout_ledger_allocation_unique
+  UNIQUE (github_repo_id, github_issue_number, allocation_seq);
@@ -0,0 +1,8 @@
+-- Migration: Add AI Usage Heartbeat
+-- Description: Holds are touched while their response is still streaming, so the stale-hold sweep only releases requests that stopped reporting
+
+ALTER TABLE ai_usage_authorizations ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL;
+
+DROP INDEX IF EXISTS idx_ai_usage_authorizations_open;
+CREATE INDEX IF NOT EXISTS idx_ai_usage_authorizations_open
+  ON ai_usage_authorizations(updated_at) WHERE status = 'authorized';
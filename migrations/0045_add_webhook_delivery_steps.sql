@@ -0,0 +1,13 @@
+-- Migration: Add Webhook Delivery Steps
+-- Description: Records the on-chain steps of a queued webhook delivery, so a retried or replayed bounty command does not allocate twice
+
+CREATE TABLE IF NOT EXISTS webhook_delivery_steps (
+  id SERIAL PRIMARY KEY,
+  delivery_id TEXT NOT NULL,
+  step TEXT NOT NULL,
+  status TEXT DEFAULT 'started' NOT NULL CHECK (status IN ('started', 'completed')),
+  transaction_hash TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  CONSTRAINT webhook_delivery_steps_delivery_step_unique UNIQUE (delivery_id, step)
+);
@@ -17,6 +17,8 @@ import { createZohoLead } from "./zoho";
 import { config } from "./config";
 import { DatabaseStorage } from "./storage";
 import crypto from "crypto";
+import { stepUpService } from "./services/stepUpService";
+import type { StepUpPurpose } from "../shared/schema";
 
 // Initialize the database storage to get the session store
 const storage = new DatabaseStorage();
@@ -139,6 +141,57 @@ export const requireVSCodeAuth = async (req: Request, res: Response, next: NextF
   }
 };
 
+/**
+ * Require a fresh step-up code (emailed or from an authenticator app) for a sensitive action.
+ * The code is read from the X-Step-Up-Code header, or `otp` in the body for the wallet export client.
+ * Pass `when` to only ask for it above a threshold. A 401 with `stepUpRequired` tells the client to
+ * collect a code and retry.
+ */
+export function requireStepUp(purpose: StepUpPurpose, options: { when?: (req: Request) => boolean | Promise<boolean> } = {}) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    let required: boolean;
+    try {
+      required = options.when ? await options.when(req) : true;
+    } catch (error) {
+      log(`Step-up check failed for user ${req.user.id}: ${error instanceof Error ? error.message : error}`, 'auth');
+      return res.status(500).json({ error: 'Step-up verification failed' });
+    }
+    if (!required) {
+      return next();
+    }
+
+    const code = (req.headers['x-step-up-code'] as string | undefined) || req.body?.otp;
+    if (!code) {
+      return res.status(401).json({
+        error: 'Step-up authentication required',
+        stepUpRequired: true,
+        purpose,
+        totpEnabled: await stepUpService.isTotpEnabled(req.user.id)
+      });
+    }
+
+    try {
+      const result = await stepUpService.verify(req.user.id, purpose, String(code).trim());
+      if (!result.verified) {
+        return res.status(401).json({
+          error: result.reason,
+          stepUpRequired: true,
+          purpose,
+          totpEnabled: await stepUpService.isTotpEnabled(req.user.id)
+        });
+      }
+      next();
+    } catch (error) {
+      log(`Step-up verification failed for user ${req.user.id}: ${error instanceof Error ? error.message : error}`, 'auth');
+      res.status(500).json({ error: 'Step-up verification failed' });
+    }
+  };
+}
+
 // Generate a CSRF token
 function generateCsrfToken(): string {
   return crypto.randomBytes(32).toString('hex');
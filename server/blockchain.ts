@@ -11,10 +11,18 @@ import type {
     IssueReward, 
     AllocateRewardResponse,
     UnifiedPoolInfo,
-    IssueBountyDetails
+    IssueBountyDetails,
+    User,
+    RelayAction,
+    RelayerRequest,
+    RelayerTransaction
 } from '../shared/schema'; 
 import { getWalletPrivateKey } from "./tatum";
 import { walletService } from "./walletService";
+import { limitsService } from "./services/limitsService";
+import { withdrawalAddressService } from "./services/withdrawalAddressService";
+import { relayerService, RelayQueuedError } from "./services/relayerService";
+import { relayerTransactionService, RelayerTransactionService, type RelayerTxRequest } from "./services/relayerTransactionService";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -55,7 +63,10 @@ interface ExtendedContract extends ethers.Contract {
     addROXNFundToRepository(repoId: number, amount: bigint, overrides?: ethers.Overrides): Promise<ethers.TransactionResponse>;
     addUSDCFundToRepository(repoId: number, amount: bigint, overrides?: ethers.Overrides): Promise<ethers.TransactionResponse>;
     distributeReward(repoId: number, issueId: number, contributorAddress: string): Promise<ethers.ContractTransaction>;
-    getRepository(repoId: number): Promise<[string[], string[], bigint, bigint, bigint, any[]]>;
+    distributeRewardSplit(repoId: number, issueId: number, contributorAddresses: string[], sharesBps: number[]): Promise<ethers.ContractTransaction>;
+    cancelIssueReward(repoId: number, issueId: number): Promise<ethers.ContractTransaction>;
+    increaseIssueReward(repoId: number, issueId: number, amount: bigint, _currencyType: number): Promise<ethers.ContractTransaction>;
+    getRepository(repoId: number, overrides?: ethers.Overrides): Promise<[string[], string[], bigint, bigint, bigint, any[]]>;
     getIssueRewards(repoId: number, issueIds: number[]): Promise<any[]>;
     registerUser(userAddress: string, username: string, typeOfUser: string, overrides?: ethers.Overrides): Promise<ethers.TransactionResponse>;
 }
@@ -86,6 +97,57 @@ type DualCurrencyRepositoryDetailsTuple = [
     any[]       // issues
 ];
 
+interface RelayOptions {
+    // Park the signed request in the queue instead of paying gas directly when the relayer is low
+    allowQueue?: boolean;
+    // Skip the sponsorship budget; for calls that have no user-paid fallback
+    alwaysSponsor?: boolean;
+    // Called with the transaction hash as soon as the relayer broadcasts the call
+    onBroadcast?: (txHash: string) => Promise<void>;
+}
+
+const FORWARD_REQUEST_TYPES = {
+    ForwardRequest: [
+        { name: 'from', type: 'address' },
+        { name: 'to', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'gas', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'data', type: 'bytes' }
+    ]
+};
+
+// Gas the forwarder needs on top of the inner call for signature checks and the nonce write
+const FORWARDER_GAS_OVERHEAD = BigInt(100000);
+
+// Event the rewards contract emits when a relayed call succeeds. addPoolManager emits none, so it
+// is checked against the repository's pool managers instead.
+const RELAY_ACTION_EVENTS: Record<RelayAction, string | null> = {
+    add_pool_manager: null,
+    allocate_bounty: 'RewardAllocated',
+    cancel_bounty: 'RewardCancelled',
+    increase_bounty: 'RewardIncreased',
+    distribute_bounty: 'RewardDistributed',
+    distribute_bounty_split: 'RewardDistributed',
+    fund_roxn: 'ROXNFundAddedToRepository',
+    fund_usdc: 'USDCFundAddedToRepository',
+};
+
+// Submitted relay requests with no outcome after this long are settled from the chain
+const RELAY_REQUEST_STALE_MS = 15 * 60 * 1000;
+
+/**
+ * A bounty allocation that was relayed after the request that made it had returned, i.e. sent
+ * from the queue or settled after its receipt wait timed out
+ */
+export interface RelayedAllocation {
+    repoId: number;
+    issueId: number;
+    amount: string;
+    currency: 'XDC' | 'ROXN' | 'USDC';
+    transactionHash: string;
+}
+
 interface UnsignedTransaction {
     to: string;
     data: string;
@@ -104,6 +166,8 @@ export class BlockchainService {
     private usdcTokenContract!: TokenContract; // USDC ERC20 token (USDC rewards handled by main contract)
     private proofOfComputeContract!: ProofOfComputeContract;
     private userWallets: Map<string, ethers.Wallet> = new Map();
+    // Sends from the sponsorship escrow wallet, with the same nonce handling as the relayer's
+    private escrowTransactionService = new RelayerTransactionService();
 
     constructor() {
         this.initializeProvider().catch(error => {
@@ -200,6 +264,10 @@ export class BlockchainService {
 
             this.provider = connectedProvider;
             this.relayerWallet = new ethers.Wallet(config.relayerPrivateKey, this.provider);
+            relayerTransactionService.initialize(this.relayerWallet);
+            if (config.sponsorshipEscrowPrivateKey) {
+                this.escrowTransactionService.initialize(this.getSponsorshipEscrowWallet());
+            }
 
             const contractConfig = {
                 address: config.repoRewardsContractAddress.replace('xdc', '0x'),
@@ -320,13 +388,9 @@ export class BlockchainService {
                 to: this.contract.target as string,
                 data: data,
                 gasPrice: gasPrice,
-                gasLimit: BigInt(300000),
-                chainId: 50
+                gasLimit: BigInt(300000)
             };
 
-            const nonce = await this.provider.getTransactionCount(this.relayerWallet.address);
-            (unsignedTx as any)['nonce'] = nonce;
-
             const relayerBalance = await this.provider.getBalance(this.relayerWallet.address);
             const estimatedCost = gasPrice * unsignedTx.gasLimit;
             
@@ -337,15 +401,11 @@ export class BlockchainService {
                 throw new Error(`Insufficient relayer balance. Need ${ethers.formatEther(estimatedCost)} XDC, have ${ethers.formatEther(relayerBalance)} XDC`);
             }
 
-            const response = await this.relayerWallet.sendTransaction(unsignedTx);
-            log(`Transaction sent: ${response.hash}`, "blockchain");
+            const sent = await relayerTransactionService.send(unsignedTx, 'register_user');
+            log(`Transaction sent: ${sent.transactionHash}`, "blockchain");
             
-            const receipt = await response.wait();
-            if (receipt) {
-                log(`Transaction confirmed in block ${receipt.blockNumber}`, "blockchain");
-            } else {
-                log(`Transaction confirmed but receipt was null`, "blockchain");
-            }
+            const receipt = await relayerTransactionService.waitForReceipt(sent);
+            log(`Transaction confirmed in block ${receipt.blockNumber}`, "blockchain");
 
             return receipt;
         } catch (error: any) {
@@ -385,23 +445,15 @@ export class BlockchainService {
                 [repoId, poolManager, username, githubId]
             );
             
-            const { request, signature } = await this.prepareMetaTransaction(
-                userId,
-                this.contract.target as string,
-                addManagerData,
-                BigInt(200000)
-            );
-            
+            // Registering a pool manager is always sponsored; there is no user-paid path for it
             log(`Sending addPoolManager meta-transaction for repository ${repoId}`, "blockchain");
-            const tx = await this.executeMetaTransaction(request, signature, BigInt(400000));
-            
-            const receipt = await tx.wait();
+            const receipt = await this.relayUserCall(user, 'add_pool_manager', repoId, addManagerData, { alwaysSponsor: true });
             
             if (!receipt) {
                 throw new Error('Transaction failed');
             }
             
-            log(`Pool manager added. TX: ${tx.hash}`, "blockchain");
+            log(`Pool manager added. TX: ${receipt.hash}`, "blockchain");
             return receipt;
         } catch (error: any) {
             log(`Failed to add pool manager: ${error.message}`, "blockchain");
@@ -414,7 +466,8 @@ export class BlockchainService {
         issueId: number,
         reward: string,
         currencyType: 'XDC' | 'ROXN' | 'USDC',
-        userId: number
+        userId: number,
+        relayOptions: RelayOptions = {}
     ): Promise<AllocateRewardResponse> {
         try {
             const user = await storage.getUserById(userId);
@@ -436,6 +489,17 @@ export class BlockchainService {
             
             const currencyTypeEnum = currencyType === 'ROXN' ? 1 : (currencyType === 'USDC' ? 2 : 0); // 0=XDC, 1=ROXN, 2=USDC
             
+            const relayed = await this.relayUserCall(
+                user,
+                'allocate_bounty',
+                repoId,
+                this.contract.interface.encodeFunctionData('allocateIssueReward', [repoId, issueId, rewardBigInt, currencyTypeEnum]),
+                relayOptions
+            );
+            if (relayed) {
+                return { transactionHash: relayed.hash, blockNumber: relayed.blockNumber };
+            }
+            
             log(`Ensuring user ${user.username} (${userAddress}) has enough XDC for allocateIssueReward transaction`, "blockchain");
             const gasWasSubsidized = await this.ensureUserHasGas(userAddress);
             
@@ -501,6 +565,192 @@ export class BlockchainService {
         }
     }
 
+    /**
+     * Cancels an allocated issue bounty. The contract credits the amount back to the
+     * repository pool in the bounty's own currency.
+     */
+    async cancelIssueReward(repoId: number, issueId: number, userId: number): Promise<AllocateRewardResponse> {
+        try {
+            const user = await storage.getUserById(userId);
+            if (!user) {
+                throw new Error('User not found');
+            }
+            
+            if (!user.xdcWalletAddress) {
+                throw new Error('User wallet address not found');
+            }
+            
+            const userAddress = user.xdcWalletAddress.replace('xdc', '0x');
+            
+            const relayed = await this.relayUserCall(
+                user,
+                'cancel_bounty',
+                repoId,
+                this.contract.interface.encodeFunctionData('cancelIssueReward', [repoId, issueId])
+            );
+            if (relayed) {
+                log(`Bounty cancelled and returned to pool. TX: ${relayed.hash}`, "blockchain");
+                return { transactionHash: relayed.hash, blockNumber: relayed.blockNumber };
+            }
+            
+            log(`Ensuring user ${user.username} (${userAddress}) has enough XDC for cancelIssueReward transaction`, "blockchain");
+            const gasWasSubsidized = await this.ensureUserHasGas(userAddress);
+            
+            if (gasWasSubsidized) {
+                log(`Gas was subsidized, waiting for network to stabilize...`, "blockchain");
+                await new Promise(resolve => setTimeout(resolve, 5000));
+            }
+            
+            if (!user.walletReferenceId) {
+                throw new Error('User wallet reference ID not found');
+            }
+            
+            const userPrivateKey = await this.getWalletSecret(user.walletReferenceId);
+            const userWallet = new ethers.Wallet(userPrivateKey.privateKey, this.provider);
+            
+            const data = this.contract.interface.encodeFunctionData(
+                'cancelIssueReward',
+                [repoId, issueId]
+            );
+            
+            const feeData = await this.provider.getFeeData();
+            const gasPrice = feeData.gasPrice! * BigInt(120) / BigInt(100);
+            
+            const estimatedGas = await this.provider.estimateGas({
+                from: userWallet.address,
+                to: this.contract.target,
+                data: data,
+                gasPrice
+            });
+            const safeGasLimit = estimatedGas * BigInt(130) / BigInt(100);
+            
+            log(`Cancelling bounty for issue ${issueId} in repo ${repoId}`, "blockchain");
+            const tx = await userWallet.sendTransaction({
+                to: this.contract.target,
+                data: data,
+                gasPrice: gasPrice,
+                gasLimit: safeGasLimit
+            });
+            
+            log(`Waiting for cancelIssueReward transaction to be confirmed...`, "blockchain");
+            const receipt = await tx.wait();
+            
+            if (!receipt) {
+                throw new Error('Transaction failed');
+            }
+            
+            log(`Bounty cancelled and returned to pool. TX: ${tx.hash}`, "blockchain");
+            
+            return {
+                transactionHash: tx.hash,
+                blockNumber: receipt.blockNumber
+            };
+        } catch (error: any) {
+            log(`Failed to cancel reward: ${error.message}`, "blockchain");
+            throw error;
+        }
+    }
+
+    /**
+     * Adds to an allocated issue bounty from the repository pool. A currency other than the
+     * bounty's own is held on-chain as an extra reward and paid out with it.
+     */
+    async increaseIssueReward(
+        repoId: number,
+        issueId: number,
+        amount: string,
+        currencyType: 'XDC' | 'ROXN' | 'USDC',
+        userId: number
+    ): Promise<AllocateRewardResponse> {
+        try {
+            const user = await storage.getUserById(userId);
+            if (!user) {
+                throw new Error('User not found');
+            }
+            
+            if (!user.xdcWalletAddress) {
+                throw new Error('User wallet address not found');
+            }
+            
+            const userAddress = user.xdcWalletAddress.replace('xdc', '0x');
+            
+            const amountBigInt = currencyType === 'USDC'
+                ? ethers.parseUnits(amount, 6)
+                : ethers.parseEther(amount);
+            const currencyTypeEnum = currencyType === 'ROXN' ? 1 : (currencyType === 'USDC' ? 2 : 0);
+            
+            const relayed = await this.relayUserCall(
+                user,
+                'increase_bounty',
+                repoId,
+                this.contract.interface.encodeFunctionData('increaseIssueReward', [repoId, issueId, amountBigInt, currencyTypeEnum])
+            );
+            if (relayed) {
+                return { transactionHash: relayed.hash, blockNumber: relayed.blockNumber };
+            }
+            
+            log(`Ensuring user ${user.username} (${userAddress}) has enough XDC for increaseIssueReward transaction`, "blockchain");
+            const gasWasSubsidized = await this.ensureUserHasGas(userAddress);
+            
+            if (gasWasSubsidized) {
+                log(`Gas was subsidized, waiting for network to stabilize...`, "blockchain");
+                await new Promise(resolve => setTimeout(resolve, 5000));
+            }
+            
+            if (!user.walletReferenceId) {
+                throw new Error('User wallet reference ID not found');
+            }
+            
+            const userPrivateKey = await this.getWalletSecret(user.walletReferenceId);
+            const userWallet = new ethers.Wallet(userPrivateKey.privateKey, this.provider);
+            
+            const data = this.contract.interface.encodeFunctionData(
+                'increaseIssueReward',
+                [repoId, issueId, amountBigInt, currencyTypeEnum]
+            );
+            
+            const feeData = await this.provider.getFeeData();
+            const gasPrice = feeData.gasPrice! * BigInt(120) / BigInt(100);
+            
+            const estimatedGas = await this.provider.estimateGas({
+                from: userWallet.address,
+                to: this.contract.target,
+                data: data,
+                gasPrice
+            });
+            const safeGasLimit = estimatedGas * BigInt(130) / BigInt(100);
+            
+            log(`Increasing bounty for issue ${issueId} in repo ${repoId} by ${amount} ${currencyType}`, "blockchain");
+            const tx = await userWallet.sendTransaction({
+                to: this.contract.target,
+                data: data,
+                gasPrice: gasPrice,
+                gasLimit: safeGasLimit
+            });
+            
+            log(`Waiting for increaseIssueReward transaction to be confirmed...`, "blockchain");
+            const receipt = await tx.wait();
+            
+            if (!receipt) {
+                throw new Error('Transaction failed');
+            }
+            
+            log(`Bounty increased. TX: ${tx.hash}`, "blockchain");
+            
+            return {
+                transactionHash: tx.hash,
+                blockNumber: receipt.blockNumber
+            };
+        } catch (error: any) {
+            log(`Failed to increase reward: ${error.message}`, "blockchain");
+            throw error;
+        }
+    }
+
+    /**
+     * Sent from the user's wallet rather than relayed: the call is payable, and through the
+     * forwarder the attached XDC would have to come from the relayer.
+     */
     async addXDCFundToRepository(repoId: number, amountXdc: string, userId?: number): Promise<ethers.TransactionResponse> {
         try {
             const amountWei = ethers.parseEther(amountXdc);
@@ -587,31 +837,7 @@ export class BlockchainService {
         }
     }
 
-    private async prepareMetaTransaction(
-        userId: number,
-        targetContract: string,
-        data: string,
-        gasEstimate: bigint = BigInt(300000)
-    ): Promise<{request: any, signature: string}> {
-        const user = await storage.getUserById(userId);
-        if (!user || !user.xdcWalletAddress || !user.walletReferenceId) {
-            throw new Error('User details not found');
-        }
-        
-        const userAddress = user.xdcWalletAddress.replace('xdc', '0x');
-        
-        const userPrivateKey = await this.getWalletSecret(user.walletReferenceId);
-        const userWallet = new ethers.Wallet(userPrivateKey.privateKey);
-        
-        const forwardRequest = {
-            from: userAddress,
-            to: targetContract,
-            value: 0,
-            gas: gasEstimate,
-            nonce: await this.forwarderContract.getNonce(userAddress),
-            data: data
-        };
-        
+    private async signForwardRequest(userWallet: ethers.Wallet, forwardRequest: Record<string, unknown>): Promise<string> {
         const domain = {
             name: 'CustomForwarder',
             version: '0.0.1',
@@ -619,20 +845,260 @@ export class BlockchainService {
             verifyingContract: this.forwarderContract.target as string
         };
         
-        const types = {
-            ForwardRequest: [
-                { name: 'from', type: 'address' },
-                { name: 'to', type: 'address' },
-                { name: 'value', type: 'uint256' },
-                { name: 'gas', type: 'uint256' },
-                { name: 'nonce', type: 'uint256' },
-                { name: 'data', type: 'bytes' }
-            ]
+        return await userWallet.signTypedData(domain, FORWARD_REQUEST_TYPES, forwardRequest);
+    }
+
+    private toForwardRequest(request: RelayerRequest) {
+        return {
+            from: request.fromAddress,
+            to: request.toAddress,
+            value: 0,
+            gas: BigInt(request.gas),
+            nonce: BigInt(request.nonce),
+            data: request.data
         };
-        
-        const signature = await userWallet.signTypedData(domain, types, forwardRequest);
-        
-        return { request: forwardRequest, signature };
+    }
+
+    async isRelayerBalanceLow(): Promise<boolean> {
+        const balance = await this.provider.getBalance(this.relayerWallet.address);
+        return balance < ethers.parseEther(config.relayerMinBalanceXdc);
+    }
+
+    /**
+     * Sends a call to the rewards contract through CustomForwarder with the relayer paying gas.
+     * Returns null when the call is not sponsored (budget used up, sponsorship off, or the relayer
+     * cannot send it now and queueing is not allowed); the caller then sends it from the user's
+     * own wallet. Throws RelayQueuedError when the request was queued instead.
+     */
+    private async relayUserCall(
+        user: User,
+        action: RelayAction,
+        repoId: number | null,
+        data: string,
+        options: RelayOptions = {}
+    ): Promise<ethers.TransactionReceipt | null> {
+        if (!user.xdcWalletAddress || !user.walletReferenceId) {
+            throw new Error('User wallet not found');
+        }
+        const userAddress = user.xdcWalletAddress.replace('xdc', '0x');
+        const targetContract = this.contract.target as string;
+
+        if (!options.alwaysSponsor) {
+            const sponsorship = await relayerService.checkSponsorship(user.id, repoId !== null ? String(repoId) : null);
+            if (!sponsorship.sponsored) {
+                log(`Not sponsoring ${action} for user ${user.id}: ${sponsorship.reason}`, "relayer");
+                return null;
+            }
+        }
+
+        // Requests already waiting for this signer hold the earlier nonces
+        const mustWait = await this.isRelayerBalanceLow() || await relayerService.hasPending(userAddress);
+        if (mustWait && !options.allowQueue) {
+            if (options.alwaysSponsor) {
+                throw new Error('The gas relayer is busy or low on funds. Please try again later.');
+            }
+            log(`Relayer cannot send ${action} for user ${user.id} now, falling back to user-paid gas`, "relayer");
+            return null;
+        }
+
+        const estimatedGas = await this.provider.estimateGas({ from: userAddress, to: targetContract, data });
+        const gas = estimatedGas * BigInt(130) / BigInt(100);
+
+        const userPrivateKey = await this.getWalletSecret(user.walletReferenceId);
+        const userWallet = new ethers.Wallet(userPrivateKey.privateKey);
+        const chainNonce: bigint = await this.forwarderContract.getNonce(userAddress);
+
+        const request = await relayerService.createRequest(
+            { userId: user.id, repoId: repoId !== null ? String(repoId) : null, action, fromAddress: userAddress, toAddress: targetContract, data, gas },
+            chainNonce,
+            nonce => this.signForwardRequest(userWallet, { from: userAddress, to: targetContract, value: 0, gas, nonce, data })
+        );
+
+        if (mustWait) {
+            log(`Queued ${action} for user ${user.id} as relay request ${request.id}`, "relayer");
+            throw new RelayQueuedError(request.id, action);
+        }
+
+        return await this.submitRelayRequest(request, false, options.onBroadcast);
+    }
+
+    /**
+     * Simulates, sends and meters one stored forward request. The forwarder does not revert when
+     * the inner call fails, so the simulation is what keeps failed calls from burning a nonce.
+     * A request whose receipt does not arrive in time stays submitted, holding its nonce, until
+     * settleStaleRelayRequests finds its outcome on-chain.
+     */
+    private async submitRelayRequest(
+        request: RelayerRequest,
+        retryable: boolean,
+        onBroadcast?: (txHash: string) => Promise<void>
+    ): Promise<ethers.TransactionReceipt> {
+        const forwardRequest = this.toForwardRequest(request);
+        let tx: RelayerTransaction | null = null;
+        try {
+            const [success, returnData] = await this.forwarderContract.execute.staticCall(forwardRequest, request.signature);
+            if (!success) {
+                const reason = this.contract.interface.makeError(returnData, { to: request.toAddress, data: request.data }).shortMessage;
+                retryable = false;
+                throw new Error(`Relayed ${request.action} would revert: ${reason}`);
+            }
+
+            tx = await this.executeMetaTransaction(forwardRequest, request.signature, forwardRequest.gas + FORWARDER_GAS_OVERHEAD);
+            await relayerService.markSubmitted(request.id, tx.transactionHash);
+            await onBroadcast?.(tx.transactionHash);
+        } catch (error: any) {
+            if (tx) {
+                await relayerService.markUnconfirmed(request.id, error.message);
+            } else {
+                await relayerService.markFailed(request, error.message, retryable);
+            }
+            throw error;
+        }
+
+        let receipt: ethers.TransactionReceipt;
+        try {
+            receipt = await relayerTransactionService.waitForReceipt(tx);
+        } catch (error: any) {
+            // Once sent, the nonce may already be spent, so the request is never retried
+            const outcome = await relayerTransactionService.lookup(tx.transactionHash).catch(() => null);
+            if (outcome?.receipt || outcome?.transaction.status === 'dropped') {
+                await relayerService.markFailed(request, error.message, false);
+            } else {
+                await relayerService.markUnconfirmed(request.id, error.message);
+            }
+            throw error;
+        }
+
+        await this.settleRelayedCall(request, receipt);
+        return receipt;
+    }
+
+    /**
+     * Records the outcome of a mined forward request. CustomForwarder.execute returns false
+     * rather than reverting when the call it forwards fails, so a successful receipt is not
+     * enough: the call counts as confirmed only if the rewards contract shows it took effect.
+     */
+    private async settleRelayedCall(request: RelayerRequest, receipt: ethers.TransactionReceipt): Promise<void> {
+        if (receipt.status !== 1) {
+            await relayerService.markFailed(request, `Transaction ${receipt.hash} reverted`, false);
+            throw new Error(`Relayed ${request.action} reverted. TX: ${receipt.hash}`);
+        }
+        if (!await this.relayedCallSucceeded(request, receipt)) {
+            await relayerService.markFailed(request, `The forwarded call failed in ${receipt.hash}`, false);
+            throw new Error(`Relayed ${request.action} was mined but the rewards contract call failed. TX: ${receipt.hash}`);
+        }
+
+        await relayerService.markConfirmed(request.id, receipt.gasUsed, receipt.gasPrice);
+        log(`Relayed ${request.action} for user ${request.userId}. TX: ${receipt.hash}, gas used: ${receipt.gasUsed}`, "relayer");
+    }
+
+    private async relayedCallSucceeded(request: RelayerRequest, receipt: ethers.TransactionReceipt): Promise<boolean> {
+        const expectedEvent = RELAY_ACTION_EVENTS[request.action];
+        if (expectedEvent) {
+            return receipt.logs.some(entry =>
+                entry.address.toLowerCase() === request.toAddress.toLowerCase() &&
+                this.contract.interface.parseLog(entry)?.name === expectedEvent
+            );
+        }
+
+        const [repoId, poolManager] = this.contract.interface.decodeFunctionData('addPoolManager', request.data);
+        const repository = await this.getRepository(Number(repoId), receipt.blockNumber);
+        return repository.poolManagers.some((address: string) => address.toLowerCase() === String(poolManager).toLowerCase());
+    }
+
+    /**
+     * The allocation a relayed allocate_bounty request made, for the bookkeeping its caller
+     * could not do because it had already returned
+     */
+    private toRelayedAllocation(request: RelayerRequest, receipt: ethers.TransactionReceipt): RelayedAllocation {
+        const [repoId, issueId, reward, currencyType] = this.contract.interface.decodeFunctionData('allocateIssueReward', request.data);
+        const currency = Number(currencyType) === 2 ? 'USDC' : Number(currencyType) === 1 ? 'ROXN' : 'XDC';
+        return {
+            repoId: Number(repoId),
+            issueId: Number(issueId),
+            amount: ethers.formatUnits(reward, currency === 'USDC' ? 6 : 18),
+            currency,
+            transactionHash: receipt.hash,
+        };
+    }
+
+    /**
+     * Settles submitted requests whose sender stopped waiting, e.g. after a receipt timeout or a
+     * restart, so they stop blocking their signer. Requests still pending on-chain are left for
+     * the next run. `onAllocated` does the bookkeeping for allocations confirmed here.
+     */
+    async settleStaleRelayRequests(onAllocated?: (allocation: RelayedAllocation) => Promise<void>): Promise<void> {
+        const stale = await relayerService.listStaleSubmitted(new Date(Date.now() - RELAY_REQUEST_STALE_MS));
+        for (const request of stale) {
+            try {
+                const outcome = request.transactionHash ? await relayerTransactionService.lookup(request.transactionHash) : null;
+                if (!outcome) {
+                    log(`Relay request ${request.id} has no relayer transaction to settle it from`, "relayer-ERROR");
+                    continue;
+                }
+                if (outcome.receipt) {
+                    await this.settleRelayedCall(request, outcome.receipt);
+                    if (request.action === 'allocate_bounty') {
+                        await onAllocated?.(this.toRelayedAllocation(request, outcome.receipt));
+                    }
+                } else if (outcome.transaction.status === 'dropped') {
+                    await relayerService.markFailed(request, outcome.transaction.error || 'Relayer transaction was dropped', false);
+                }
+            } catch (error: any) {
+                log(`Failed to settle relay request ${request.id}: ${error.message}`, "relayer-ERROR");
+            }
+        }
+    }
+
+    /**
+     * Sends queued forward requests while the relayer has enough XDC, after settling submitted
+     * ones that went stale. `onAllocated` does the bookkeeping for queued allocations once they
+     * confirm. Runs on a timer.
+     */
+    async processRelayQueue(onAllocated?: (allocation: RelayedAllocation) => Promise<void>): Promise<void> {
+        await this.settleStaleRelayRequests(onAllocated);
+
+        const queued = await relayerService.listQueued();
+        if (queued.length === 0) return;
+
+        // Signers with an earlier request still queued; their later nonces must wait
+        const blockedSigners = new Set<string>();
+
+        for (const request of queued) {
+            const signer = request.fromAddress.toLowerCase();
+            if (blockedSigners.has(signer)) continue;
+
+            if (await this.isRelayerBalanceLow()) {
+                log(`Relayer balance below ${config.relayerMinBalanceXdc} XDC, leaving ${queued.length} requests queued`, "relayer");
+                return;
+            }
+
+            const chainNonce: bigint = await this.forwarderContract.getNonce(request.fromAddress);
+            const nonce = BigInt(request.nonce);
+            if (nonce !== chainNonce) {
+                // Either the nonce was used by another request or an earlier request failed and left a gap
+                await relayerService.markFailed(request, `Forwarder nonce is ${chainNonce}, request was signed for ${nonce}`, false);
+                blockedSigners.add(signer);
+                continue;
+            }
+
+            let receipt: ethers.TransactionReceipt;
+            try {
+                receipt = await this.submitRelayRequest(request, true);
+            } catch (error: any) {
+                log(`Failed to send queued relay request ${request.id}: ${error.message}`, "relayer-ERROR");
+                blockedSigners.add(signer);
+                continue;
+            }
+
+            if (request.action === 'allocate_bounty' && onAllocated) {
+                try {
+                    await onAllocated(this.toRelayedAllocation(request, receipt));
+                } catch (error: any) {
+                    log(`Failed to record queued allocation from relay request ${request.id}: ${error.message}`, "relayer-ERROR");
+                }
+            }
+        }
     }
 
     async ensureUserHasGas(userAddress: string, transactionAmount: string = "0", minGasAmount: string = "0.005"): Promise<boolean> {
@@ -678,7 +1144,7 @@ export class BlockchainService {
         request: any,
         signature: string,
         gasLimit: bigint = BigInt(500000)
-    ): Promise<ethers.TransactionResponse> {
+    ): Promise<RelayerTransaction> {
         const forwarderInterface = new ethers.Interface(CustomForwarderABI);
         
         const data = forwarderInterface.encodeFunctionData(
@@ -686,18 +1152,17 @@ export class BlockchainService {
             [request, signature]
         );
         
-        const unsignedTx = {
+        return await relayerTransactionService.send({
             to: this.forwarderContract.target as string,
             data: data,
-            gasLimit: Number(gasLimit),
-            chainId: 50
-        };
-        
-        const tx = await this.relayerWallet.sendTransaction(unsignedTx);
-        
-        return tx;
+            gasLimit
+        }, 'meta_transaction');
     }
 
+    /**
+     * The token contracts do not trust the forwarder and have no permit, so approvals are always
+     * paid by the user even when the funding call that follows is relayed.
+     */
     async approveTokensForContract(amount: string, userId: number, spenderAddress: string): Promise<ethers.TransactionResponse> {
         try {
             const amountWei = ethers.parseEther(amount);
@@ -765,7 +1230,17 @@ export class BlockchainService {
         }
     }
 
-    async distributeReward(repoId: number, issueId: number, contributorAddress: string, userId: number): Promise<ethers.TransactionReceipt | null> {
+    /**
+     * Pays an issue's reward to one contributor. `onBroadcast` gets the transaction hash as soon as
+     * it is sent, before the receipt is awaited.
+     */
+    async distributeReward(
+        repoId: number,
+        issueId: number,
+        contributorAddress: string,
+        userId: number,
+        onBroadcast?: (txHash: string) => Promise<void>
+    ): Promise<ethers.TransactionReceipt | null> {
         try {
             const user = await storage.getUserById(userId);
             if (!user) {
@@ -781,6 +1256,18 @@ export class BlockchainService {
             const ethContributorAddress = contributorAddress.replace('xdc', '0x');
             log(`Converting contributor address from ${contributorAddress} to ${ethContributorAddress}`, "blockchain");
             
+            const relayed = await this.relayUserCall(
+                user,
+                'distribute_bounty',
+                repoId,
+                this.contract.interface.encodeFunctionData('distributeReward', [repoId, issueId, ethContributorAddress]),
+                { onBroadcast }
+            );
+            if (relayed) {
+                log(`XDC Reward distributed. TX: ${relayed.hash}`, "blockchain");
+                return relayed;
+            }
+            
             log(`Ensuring user ${user.username} (${userAddress}) has enough XDC for distributeReward transaction`, "blockchain");
             const gasWasSubsidized = await this.ensureUserHasGas(userAddress);
             
@@ -821,6 +1308,7 @@ export class BlockchainService {
             
             log(`Sending distributeReward transaction with gasPrice: ${ethers.formatUnits(gasPrice, 'gwei')} gwei, gasLimit: ${safeGasLimit}`, "blockchain");
             const tx = await userWallet.sendTransaction(transactionRequest);
+            await onBroadcast?.(tx.hash);
             
             log(`Waiting for distributeReward transaction to be confirmed...`, "blockchain");
             const receipt = await tx.wait();
@@ -837,6 +1325,107 @@ export class BlockchainService {
         }
     }
 
+    /**
+     * Distributes an issue reward across several contributors in one transaction.
+     * Shares are basis points and must total 10000; the contract pays any rounding
+     * remainder to the last recipient. `onBroadcast` gets the transaction hash as soon as it is sent.
+     */
+    async distributeRewardSplit(
+        repoId: number,
+        issueId: number,
+        recipients: { address: string; shareBps: number }[],
+        userId: number,
+        onBroadcast?: (txHash: string) => Promise<void>
+    ): Promise<ethers.TransactionReceipt | null> {
+        try {
+            if (recipients.length === 0) {
+                throw new Error('At least one recipient is required');
+            }
+            const totalBps = recipients.reduce((sum, r) => sum + r.shareBps, 0);
+            if (totalBps !== 10000) {
+                throw new Error(`Split shares must total 10000 bps, got ${totalBps}`);
+            }
+
+            const user = await storage.getUserById(userId);
+            if (!user) {
+                throw new Error('User not found');
+            }
+            
+            if (!user.xdcWalletAddress) {
+                throw new Error('User wallet address not found');
+            }
+            
+            const userAddress = user.xdcWalletAddress.replace('xdc', '0x');
+            const ethAddresses = recipients.map(r => r.address.replace('xdc', '0x'));
+            const sharesBps = recipients.map(r => r.shareBps);
+            
+            const relayed = await this.relayUserCall(
+                user,
+                'distribute_bounty_split',
+                repoId,
+                this.contract.interface.encodeFunctionData('distributeRewardSplit', [repoId, issueId, ethAddresses, sharesBps]),
+                { onBroadcast }
+            );
+            if (relayed) {
+                log(`Split reward distributed. TX: ${relayed.hash}`, "blockchain");
+                return relayed;
+            }
+            
+            log(`Ensuring user ${user.username} (${userAddress}) has enough XDC for distributeRewardSplit transaction`, "blockchain");
+            const gasWasSubsidized = await this.ensureUserHasGas(userAddress);
+            
+            if (gasWasSubsidized) {
+                log(`Gas was subsidized, waiting for network to stabilize...`, "blockchain");
+                await new Promise(resolve => setTimeout(resolve, 5000));
+            }
+            
+            if (!user.walletReferenceId) {
+                throw new Error('User wallet reference ID not found');
+            }
+            
+            const userPrivateKey = await this.getWalletSecret(user.walletReferenceId);
+            const userWallet = new ethers.Wallet(userPrivateKey.privateKey, this.provider);
+            
+            const data = this.contract.interface.encodeFunctionData(
+                'distributeRewardSplit', 
+                [repoId, issueId, ethAddresses, sharesBps]
+            );
+            
+            const feeData = await this.provider.getFeeData();
+            const gasPrice = feeData.gasPrice! * BigInt(120) / BigInt(100);
+            
+            const estimatedGas = await this.provider.estimateGas({
+                from: userWallet.address,
+                to: this.contract.target,
+                data: data,
+                gasPrice
+            });
+            const safeGasLimit = estimatedGas * BigInt(130) / BigInt(100);
+            
+            log(`Sending distributeRewardSplit transaction for issue ${issueId} in repo ${repoId} to ${ethAddresses.length} recipients`, "blockchain");
+            const tx = await userWallet.sendTransaction({
+                to: this.contract.target,
+                data: data,
+                gasPrice: gasPrice,
+                gasLimit: safeGasLimit
+            });
+            await onBroadcast?.(tx.hash);
+            
+            log(`Waiting for distributeRewardSplit transaction to be confirmed...`, "blockchain");
+            const receipt = await tx.wait();
+            
+            if (!receipt) {
+                throw new Error('Transaction failed');
+            }
+            
+            log(`Split reward distributed. TX: ${tx.hash}`, "blockchain");
+            return receipt;
+        } catch (error: any) {
+            log(`Failed to distribute split reward: ${error.message}`, "blockchain");
+            throw error;
+        }
+    }
+
     async getPoolManager(walletAddress: string): Promise<any> {
         return await this.contract.getPoolManager(walletAddress);
     }
@@ -845,7 +1434,10 @@ export class BlockchainService {
         return await this.contract.getContributor(walletAddress);
     }
 
-    async getRepository(repoId: number): Promise<any> {
+    /**
+     * Read a repository's pools and issues, at the latest block unless `blockTag` pins an earlier one.
+     */
+    async getRepository(repoId: number, blockTag?: number): Promise<any> {
         try {
             if (!this.contract || !this.contract.target) {
                 log(`Contract not properly initialized when calling getRepository`, "blockchain-ERROR");
@@ -854,7 +1446,7 @@ export class BlockchainService {
 
             log(`Calling getRepository on contract ${this.contract.target} for repoId ${repoId}`, "blockchain-debug");
 
-            const rawResult = await this.contract.getRepository(repoId);
+            const rawResult = await this.contract.getRepository(repoId, { blockTag });
             if (!rawResult || !Array.isArray(rawResult) || (rawResult.length !== 5 && rawResult.length !== 6)) {
                 log(`Contract returned empty data for repoId ${repoId} - repository may not be initialized`, "blockchain-warn");
                 return {
@@ -1017,13 +1609,20 @@ export class BlockchainService {
                     log(`Formatted as XDC: ${xdcAmountStr}`, "blockchain");
                 }
                 
+                // Amounts added in the other currencies are held separately from the issue's own reward
+                const extraAmounts = await this.getIssueExtraRewards(repoId, issueId, currencyTypeNum);
+                if (extraAmounts.XDC) xdcAmountStr = extraAmounts.XDC;
+                if (extraAmounts.ROXN) roxnAmountStr = extraAmounts.ROXN;
+                if (extraAmounts.USDC) usdcAmountStr = extraAmounts.USDC;
+                
                 results.push({
                     issueId: issueId.toString(),
                     status: this.mapStatus(issueFromContract.status ?? 0),
                     xdcAmount: xdcAmountStr,
                     roxnAmount: roxnAmountStr,
                     usdcAmount: usdcAmountStr,
-                    isRoxn: isRoxn
+                    isRoxn: isRoxn,
+                    currency: currencyTypeNum == 2 ? 'USDC' : (currencyTypeNum == 1 || isRoxn ? 'ROXN' : 'XDC')
                 });
             }
             
@@ -1037,6 +1636,82 @@ export class BlockchainService {
         }
     }
 
+    private async getIssueExtraRewards(
+        repoId: number,
+        issueId: number,
+        primaryCurrencyType: number
+    ): Promise<Partial<Record<'XDC' | 'ROXN' | 'USDC', string>>> {
+        const currencies: ('XDC' | 'ROXN' | 'USDC')[] = ['XDC', 'ROXN', 'USDC'];
+        const extras: Partial<Record<'XDC' | 'ROXN' | 'USDC', string>> = {};
+        for (let currencyType = 0; currencyType < currencies.length; currencyType++) {
+            if (currencyType === primaryCurrencyType) {
+                continue;
+            }
+            try {
+                const amount: bigint = await this.contract.issueExtraRewards(repoId, issueId, currencyType);
+                if (amount > BigInt(0)) {
+                    extras[currencies[currencyType]] = ethers.formatUnits(amount, currencyType === 2 ? 6 : 18);
+                }
+            } catch (err: any) {
+                log(`Could not fetch extra ${currencies[currencyType]} reward for repo ${repoId} issue ${issueId}: ${err.message}`, "blockchain-warn");
+            }
+        }
+        return extras;
+    }
+
+    async getBlockNumber(): Promise<number> {
+        return await this.provider.getBlockNumber();
+    }
+
+    /**
+     * Fetch the pool and bounty events emitted by the rewards contract in a block range, in chain order.
+     * Used by the reconciler to rebuild pool balances and bounty states.
+     */
+    async getRewardEvents(fromBlock: number, toBlock: number): Promise<RewardContractEvent[]> {
+        const eventNames: RewardContractEvent['name'][] = [
+            'RewardAllocated',
+            'RewardDistributed',
+            'RewardCancelled',
+            'RewardIncreased',
+            'XDCFundAddedToRepository',
+            'ROXNFundAddedToRepository',
+            'USDCFundAddedToRepository'
+        ];
+        const fundCurrencies: Record<string, 'XDC' | 'ROXN' | 'USDC'> = {
+            XDCFundAddedToRepository: 'XDC',
+            ROXNFundAddedToRepository: 'ROXN',
+            USDCFundAddedToRepository: 'USDC'
+        };
+        const currencyTypes: ('XDC' | 'ROXN' | 'USDC')[] = ['XDC', 'ROXN', 'USDC'];
+
+        const events: RewardContractEvent[] = [];
+        for (const name of eventNames) {
+            const logs = await this.contract.queryFilter(name, fromBlock, toBlock);
+            for (const eventLog of logs) {
+                if (!('args' in eventLog)) {
+                    continue;
+                }
+                const args = eventLog.args;
+                const isFund = name in fundCurrencies;
+                events.push({
+                    name,
+                    repoId: args.repoId.toString(),
+                    issueId: isFund ? null : Number(args.issueId),
+                    amount: args.amount as bigint,
+                    currency: isFund ? fundCurrencies[name] : currencyTypes[Number(args.currencyType)],
+                    address: name === 'RewardDistributed'
+                        ? args.contributor.toLowerCase()
+                        : isFund ? args.funder.toLowerCase() : null,
+                    blockNumber: eventLog.blockNumber,
+                    transactionHash: eventLog.transactionHash,
+                    logIndex: eventLog.index
+                });
+            }
+        }
+
+        return events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+    }
+
     async checkUserType(userAddress: string): Promise<[string, string]> {
         return await this.contract.checkUserType(userAddress);
     }
@@ -1316,6 +1991,24 @@ export class BlockchainService {
     }
     
     async sendFunds(userId: string | number, recipientAddress: string, amount: bigint): Promise<ethers.TransactionResponse> {
+        // Only addresses in the user's confirmed address book, past their cooling-off period
+        await withdrawalAddressService.assertCanWithdraw(Number(userId), recipientAddress, {
+            currency: 'XDC',
+            amount: ethers.formatEther(amount)
+        });
+
+        // Count the transfer against the user's XDC limits before anything is signed
+        const limitCheck = await limitsService.reserve({
+            scope: 'transfer',
+            subjectId: userId.toString(),
+            currency: 'XDC',
+            amount: ethers.formatEther(amount),
+            userId: Number(userId)
+        });
+        if (!limitCheck.allowed) {
+            throw new Error(limitCheck.reason);
+        }
+
         try {
             const walletReferenceId = await this.getUserWalletReferenceId(Number(userId));
             
@@ -1367,15 +2060,22 @@ export class BlockchainService {
             );
             
             log(`Transaction submitted with hash: ${tx.hash}`, "blockchain");
+            await limitsService.recordTransactionHash(limitCheck.usageId!, tx.hash)
+                .catch(err => log(`Failed to link transfer ${tx.hash} to its limit reservation: ${err}`, "blockchain"));
             
             return tx;
         } catch (error) {
             log(`Error in sendFunds: ${error}`, "blockchain");
+            await limitsService.release(limitCheck.usageId!);
             throw error;
         }
     }
 
-    async addROXNFundToRepository(repoId: number, roxnAmount: string, userId: number): Promise<ethers.TransactionResponse | null> {
+    /**
+     * Scheduled funding passes `useExistingAllowance` so it spends the standing allowance the
+     * funder granted up front instead of approving the amount itself.
+     */
+    async addROXNFundToRepository(repoId: number, roxnAmount: string, userId: number, useExistingAllowance: boolean = false): Promise<ethers.TransactionResponse | null> {
         try {
             const user = await storage.getUserById(userId);
             if (!user || !user.xdcWalletAddress || !user.walletReferenceId) {
@@ -1384,14 +2084,27 @@ export class BlockchainService {
             const userWalletPrivateKey = await this.getWalletSecret(user.walletReferenceId);
             const userWallet = new ethers.Wallet(userWalletPrivateKey.privateKey, this.provider);
 
-            log(`User ${user.username} initiating approval for ${roxnAmount} ROXN to unified rewards contract ${this.contract.target}`, "blockchain");
-            await this.approveTokensForContract(roxnAmount, userId, this.contract.target as string);
-            
-            await new Promise(resolve => setTimeout(resolve, 5000));
+            if (!useExistingAllowance) {
+                log(`User ${user.username} initiating approval for ${roxnAmount} ROXN to unified rewards contract ${this.contract.target}`, "blockchain");
+                await this.approveTokensForContract(roxnAmount, userId, this.contract.target as string);
+
+                await new Promise(resolve => setTimeout(resolve, 5000));
+            }
 
             log(`User ${user.username} adding ${roxnAmount} ROXN to repository ${repoId} via unified system`, "blockchain");
             const amountWei = ethers.parseEther(roxnAmount);
 
+            const relayed = await this.relayUserCall(
+                user,
+                'fund_roxn',
+                repoId,
+                this.contract.interface.encodeFunctionData('addROXNFundToRepository', [repoId, amountWei])
+            );
+            if (relayed) {
+                log(`ROXN funds added to repo ${repoId} in unified system. TX: ${relayed.hash}`, "blockchain");
+                return await this.provider.getTransaction(relayed.hash);
+            }
+
             const contractWithSigner = this.contract.connect(userWallet) as ExtendedContract;
             
             const feeData = await this.provider.getFeeData();
@@ -1447,6 +2160,17 @@ export class BlockchainService {
 
             log(`User ${user.username} adding ${usdcAmount} USDC to repository ${repoId} via main contract`, "blockchain");
 
+            const relayed = await this.relayUserCall(
+                user,
+                'fund_usdc',
+                repoId,
+                this.contract.interface.encodeFunctionData('addUSDCFundToRepository', [repoId, amountInSmallestUnit])
+            );
+            if (relayed) {
+                log(`USDC funds added to repo ${repoId}. TX: ${relayed.hash}`, "blockchain");
+                return await this.provider.getTransaction(relayed.hash);
+            }
+
             const contractWithSigner = this.contract.connect(userWallet) as ExtendedContract;
             
             const feeData = await this.provider.getFeeData();
@@ -1495,6 +2219,229 @@ export class BlockchainService {
         }
     }
 
+    /**
+     * A wallet's balance in base units for one funding currency
+     */
+    async getFundingBalance(address: string, currency: 'XDC' | 'ROXN' | 'USDC'): Promise<bigint> {
+        const ethAddress = address.startsWith('xdc') ? address.replace('xdc', '0x') : address;
+        if (currency === 'XDC') {
+            return await this.provider.getBalance(ethAddress);
+        }
+        if (currency === 'ROXN') {
+            return await this.getTokenBalance(ethAddress);
+        }
+        if (!this.usdcTokenContract) {
+            throw new Error('USDC token not initialized - check USDC_XDC_ADDRESS in .env');
+        }
+        return await this.usdcTokenContract.balanceOf(ethAddress);
+    }
+
+    private getSponsorshipEscrowWallet(): ethers.Wallet {
+        if (!config.sponsorshipEscrowPrivateKey) {
+            throw new Error('Sponsorship escrow wallet is not configured');
+        }
+        return new ethers.Wallet(config.sponsorshipEscrowPrivateKey, this.provider);
+    }
+
+    getSponsorshipEscrowAddress(): string {
+        return this.getSponsorshipEscrowWallet().address;
+    }
+
+    /**
+     * Sends XDC, ROXN or USDC from a wallet and waits for the receipt. onBroadcast is called with the
+     * hash once the node has accepted the transaction, so callers can record it before waiting.
+     */
+    private async transferCurrency(
+        wallet: ethers.Wallet,
+        currency: 'XDC' | 'ROXN' | 'USDC',
+        recipientAddress: string,
+        amount: string,
+        onBroadcast?: (txHash: string) => Promise<void>
+    ): Promise<ethers.TransactionReceipt> {
+        const tx = await this.sendCurrency(wallet, currency, recipientAddress, amount);
+        await onBroadcast?.(tx.hash);
+        return await this.waitForTransfer(tx, currency);
+    }
+
+    private async sendCurrency(
+        wallet: ethers.Wallet,
+        currency: 'XDC' | 'ROXN' | 'USDC',
+        recipientAddress: string,
+        amount: string
+    ): Promise<ethers.TransactionResponse> {
+        const to = recipientAddress.startsWith('xdc') ? '0x' + recipientAddress.substring(3) : recipientAddress;
+        const feeData = await this.provider.getFeeData();
+        const gasPrice = feeData.gasPrice ? feeData.gasPrice * BigInt(120) / BigInt(100) : undefined;
+
+        if (currency === 'XDC') {
+            return await wallet.sendTransaction({ to, value: ethers.parseEther(amount), gasPrice, chainId: 50 });
+        }
+        const token = currency === 'ROXN' ? this.tokenContract : this.usdcTokenContract;
+        if (!token) {
+            throw new Error(`${currency} token contract not initialized`);
+        }
+        const amountInSmallestUnit = ethers.parseUnits(amount, currency === 'USDC' ? 6 : 18);
+        const tokenWithSigner = token.connect(wallet) as TokenContract;
+        return await tokenWithSigner.getFunction('transfer')(to, amountInSmallestUnit, { gasPrice });
+    }
+
+    private async waitForTransfer(tx: ethers.TransactionResponse, currency: 'XDC' | 'ROXN' | 'USDC'): Promise<ethers.TransactionReceipt> {
+        const receipt = await tx.wait();
+        if (!receipt || receipt.status !== 1) {
+            throw new Error(`${currency} transfer failed: ${tx.hash}`);
+        }
+        return receipt;
+    }
+
+    /**
+     * Receipt of a transaction sent earlier, or null while it is not mined
+     */
+    async getTransactionReceipt(txHash: string): Promise<ethers.TransactionReceipt | null> {
+        return await this.provider.getTransactionReceipt(txHash);
+    }
+
+    /**
+     * Moves a sponsor's pledge from their Roxonn wallet into the sponsorship escrow
+     */
+    async transferToSponsorshipEscrow(
+        userId: number,
+        currency: 'XDC' | 'ROXN' | 'USDC',
+        amount: string,
+        onBroadcast?: (txHash: string) => Promise<void>
+    ): Promise<ethers.TransactionReceipt> {
+        const escrowAddress = this.getSponsorshipEscrowAddress();
+        return await this.transferFromUserWallet(userId, currency, amount, escrowAddress, 'sponsor_issue', 'sponsorship escrow', onBroadcast);
+    }
+
+    /**
+     * Pays the platform treasury from a user's Roxonn wallet, e.g. for a prompt pack
+     */
+    async transferToTreasury(
+        userId: number,
+        currency: 'XDC' | 'ROXN' | 'USDC',
+        amount: string,
+        action: string,
+        onBroadcast?: (txHash: string) => Promise<void>
+    ): Promise<ethers.TransactionReceipt> {
+        const treasuryAddress = config.platformTreasuryAddressXdc;
+        if (!treasuryAddress) {
+            throw new Error('Platform treasury address not configured');
+        }
+        return await this.transferFromUserWallet(userId, currency, amount, treasuryAddress, action, 'the platform treasury', onBroadcast);
+    }
+
+    /**
+     * Sends funds from a user's Roxonn wallet after checking their balance and gas.
+     * Counted against the user's transfer limits like any other outgoing transfer.
+     */
+    private async transferFromUserWallet(
+        userId: number,
+        currency: 'XDC' | 'ROXN' | 'USDC',
+        amount: string,
+        recipientAddress: string,
+        action: string,
+        recipientLabel: string,
+        onBroadcast?: (txHash: string) => Promise<void>
+    ): Promise<ethers.TransactionReceipt> {
+        const user = await storage.getUserById(userId);
+        if (!user || !user.xdcWalletAddress || !user.walletReferenceId) {
+            throw new Error('User wallet not found');
+        }
+
+        const balance = await this.getFundingBalance(user.xdcWalletAddress, currency);
+        if (balance < ethers.parseUnits(amount, currency === 'USDC' ? 6 : 18)) {
+            throw new Error(`Insufficient ${currency} balance`);
+        }
+        await this.ensureUserHasGas(user.xdcWalletAddress, currency === 'XDC' ? amount : '0');
+
+        const limitCheck = await limitsService.reserve({
+            scope: 'transfer',
+            subjectId: userId.toString(),
+            currency,
+            amount,
+            userId
+        });
+        if (!limitCheck.allowed) {
+            throw new Error(limitCheck.reason);
+        }
+
+        let broadcast = false;
+        try {
+            const { privateKey } = await this.getWalletSecret(user.walletReferenceId);
+            const userWallet = new ethers.Wallet(privateKey, this.provider);
+            log(`User ${user.username} moving ${amount} ${currency} to ${recipientLabel}`, "blockchain");
+            const receipt = await this.transferCurrency(userWallet, currency, recipientAddress, amount, async (txHash) => {
+                broadcast = true;
+                await limitsService.recordTransactionHash(limitCheck.usageId!, txHash)
+                    .catch(err => log(`Failed to link ${action} ${txHash} to its limit reservation: ${err}`, "blockchain"));
+                await onBroadcast?.(txHash);
+            });
+            await this.recordTransactionTrace(userId, action, null, receipt.hash, { currency, amount, recipientAddress });
+            return receipt;
+        } catch (error) {
+            log(`Error sending ${currency} to ${recipientLabel} for user ${userId}: ${error}`, "blockchain");
+            // A broadcast transfer may still be mined, so it keeps counting against the limits
+            if (!broadcast) {
+                await limitsService.release(limitCheck.usageId!);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Pays a sponsorship out of escrow, to the contributor who fixed the issue or back to the sponsor
+     */
+    async transferFromSponsorshipEscrow(
+        currency: 'XDC' | 'ROXN' | 'USDC',
+        recipientAddress: string,
+        amount: string,
+        onBroadcast?: (txHash: string) => Promise<void>
+    ): Promise<ethers.TransactionReceipt> {
+        const escrowWallet = this.getSponsorshipEscrowWallet();
+        log(`Sponsorship escrow sending ${amount} ${currency} to ${recipientAddress}`, "blockchain");
+
+        const to = recipientAddress.startsWith('xdc') ? '0x' + recipientAddress.substring(3) : recipientAddress;
+        let request: RelayerTxRequest;
+        if (currency === 'XDC') {
+            request = { to, data: '0x', gasLimit: BigInt(21000), value: ethers.parseEther(amount) };
+        } else {
+            const token = currency === 'ROXN' ? this.tokenContract : this.usdcTokenContract;
+            if (!token) {
+                throw new Error(`${currency} token contract not initialized`);
+            }
+            const data = token.interface.encodeFunctionData('transfer', [to, ethers.parseUnits(amount, currency === 'USDC' ? 6 : 18)]);
+            const tokenAddress = await token.getAddress();
+            const gasEstimate = await this.provider.estimateGas({ from: escrowWallet.address, to: tokenAddress, data });
+            request = { to: tokenAddress, data, gasLimit: gasEstimate * BigInt(130) / BigInt(100) };
+        }
+
+        const tx = await this.escrowTransactionService.send(request, `sponsorship_${currency.toLowerCase()}_transfer`);
+        await onBroadcast?.(tx.transactionHash);
+        return await this.escrowTransactionService.waitForReceipt(tx);
+    }
+
+    /**
+     * Outcome of a transfer out of the sponsorship escrow, following any gas-bumped rebroadcast
+     * of it. Null while it is not mined; a dropped transfer sent nothing, so it counts as failed.
+     */
+    async getEscrowTransferStatus(txHash: string): Promise<'confirmed' | 'failed' | null> {
+        const found = await this.escrowTransactionService.lookup(txHash);
+        if (!found) {
+            throw new Error(`No sponsorship escrow transfer was recorded for ${txHash}`);
+        }
+        if (found.receipt) {
+            return found.receipt.status === 1 ? 'confirmed' : 'failed';
+        }
+        return found.transaction.status === 'dropped' ? 'failed' : null;
+    }
+
+    /**
+     * Settle escrow transfers that were mined and rebroadcast stuck ones. Runs on a timer.
+     */
+    async checkPendingEscrowTransactions(): Promise<void> {
+        await this.escrowTransactionService.checkPendingTransactions();
+    }
+
     async checkRepositoryInitialization(repoId: number): Promise<{
         isInitialized: boolean;
         hasPoolManagers: boolean;
@@ -1653,6 +2600,19 @@ export interface Issue {
     status: string;
 }
 
+export interface RewardContractEvent {
+    name: 'RewardAllocated' | 'RewardDistributed' | 'RewardCancelled' | 'RewardIncreased'
+        | 'XDCFundAddedToRepository' | 'ROXNFundAddedToRepository' | 'USDCFundAddedToRepository';
+    repoId: string;
+    issueId: number | null; // null for funding events
+    amount: bigint; // Raw token units
+    currency: 'XDC' | 'ROXN' | 'USDC';
+    address: string | null; // Contributor for distributions, funder for funding events
+    blockNumber: number;
+    transactionHash: string;
+    logIndex: number;
+}
+
 interface Transaction {
     hash: string;
     blockNumber: number;
@@ -2,7 +2,6 @@
 import dotenv from 'dotenv';
 import { resolve, dirname } from 'path';
 import { fileURLToPath } from 'url';
-import { getParameter } from './aws';
 
 // Get directory path in ES modules
 const __filename = fileURLToPath(import.meta.url);
@@ -75,6 +74,78 @@ export const baseConfig = {
   platformFeeRate: parseInt(process.env.PLATFORM_FEE_RATE || '50'), // Default 0.5%
   contributorFeeRate: parseInt(process.env.CONTRIBUTOR_FEE_RATE || '50'), // Default 0.5%
   
+  // Bounty claims (/claim on GitHub issues)
+  bountyClaimWindowHours: parseInt(process.env.BOUNTY_CLAIM_WINDOW_HOURS || '72'),
+  maxActiveBountyClaimsPerUser: parseInt(process.env.MAX_ACTIVE_BOUNTY_CLAIMS_PER_USER || '3'),
+
+  // Bounty expiry (/bounty 100 USDC --expires 30d): reminder lead time and longest allowed deadline
+  bountyExpiryReminderHours: parseInt(process.env.BOUNTY_EXPIRY_REMINDER_HOURS || '72'),
+  bountyExpiryMaxDays: parseInt(process.env.BOUNTY_EXPIRY_MAX_DAYS || '365'),
+
+  // Earnings statements value payouts with the nearest earlier price snapshot, falling back to these
+  // USD reference prices. USDC is valued at 1 USD; leave a price empty to show the token unvalued.
+  xdcReferenceUsdPrice: process.env.XDC_REFERENCE_USD_PRICE || '',
+  roxnReferenceUsdPrice: process.env.ROXN_REFERENCE_USD_PRICE || '',
+
+  // GitHub App webhook queue (retries with exponential backoff before dead-lettering)
+  webhookMaxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '6'),
+  webhookRetryBaseSeconds: parseInt(process.env.WEBHOOK_RETRY_BASE_SECONDS || '30'),
+
+  // On-chain reconciliation. Start at the rewards contract's deployment block so balances are rebuilt from its first event;
+  // reconciliation stays off until it is set.
+  reconciliationStartBlock: parseInt(process.env.RECONCILIATION_START_BLOCK || '0'),
+  reconciliationBlockChunk: parseInt(process.env.RECONCILIATION_BLOCK_CHUNK || '5000'),
+  reconciliationMaxBlocksPerRun: parseInt(process.env.RECONCILIATION_MAX_BLOCKS_PER_RUN || '200000'),
+  reconciliationIntervalMinutes: parseInt(process.env.RECONCILIATION_INTERVAL_MINUTES || '60'),
+
+  // Step-up authentication for sensitive wallet actions. Amounts at or above a threshold need a fresh
+  // emailed or authenticator code; export and payout requests always do.
+  stepUpCodeTtlMinutes: parseInt(process.env.STEP_UP_CODE_TTL_MINUTES || '5'),
+  stepUpMaxAttempts: parseInt(process.env.STEP_UP_MAX_ATTEMPTS || '5'),
+  // Failed codes in a row, across purposes, before step-up is locked; each further run doubles the lock
+  stepUpLockoutThreshold: parseInt(process.env.STEP_UP_LOCKOUT_THRESHOLD || '10'),
+  stepUpLockoutMinutes: parseInt(process.env.STEP_UP_LOCKOUT_MINUTES || '15'),
+  stepUpTransferThresholdXdc: process.env.STEP_UP_TRANSFER_THRESHOLD_XDC || '100',
+  stepUpTransferThresholdUsdc: process.env.STEP_UP_TRANSFER_THRESHOLD_USDC || '100',
+  stepUpAllocationThresholdXdc: process.env.STEP_UP_ALLOCATION_THRESHOLD_XDC || '500',
+  stepUpAllocationThresholdRoxn: process.env.STEP_UP_ALLOCATION_THRESHOLD_ROXN || '50000',
+  stepUpAllocationThresholdUsdc: process.env.STEP_UP_ALLOCATION_THRESHOLD_USDC || '500',
+
+  // Withdrawal address allowlist. New addresses need an email confirmation, then wait out a
+  // cooling-off period (kept between 24 and 48 hours) before funds can be sent to them.
+  withdrawalAddressCoolingOffHours: Math.min(48, Math.max(24, parseInt(process.env.WITHDRAWAL_ADDRESS_COOLING_OFF_HOURS || '24'))),
+  withdrawalAddressConfirmationTtlHours: parseInt(process.env.WITHDRAWAL_ADDRESS_CONFIRMATION_TTL_HOURS || '24'),
+
+  // Gas sponsorship for user contract calls relayed through CustomForwarder. Budgets are rolling
+  // 24-hour XDC caps; past them the user pays their own gas. Below the minimum relayer balance,
+  // requests that can wait are queued until the relayer is topped up.
+  relayerSponsorshipEnabled: process.env.RELAYER_SPONSORSHIP_ENABLED !== 'false',
+  relayerUserDailyBudgetXdc: process.env.RELAYER_USER_DAILY_BUDGET_XDC || '2',
+  relayerRepoDailyBudgetXdc: process.env.RELAYER_REPO_DAILY_BUDGET_XDC || '10',
+  relayerMinBalanceXdc: process.env.RELAYER_MIN_BALANCE_XDC || '5',
+  relayerQueueIntervalSeconds: parseInt(process.env.RELAYER_QUEUE_INTERVAL_SECONDS || '60'),
+
+  // Relayer hot wallet. Transactions still pending after the stuck threshold are rebroadcast at a
+  // higher gas price, up to the bump limit and price cap. The alert balance raises a warning on the
+  // admin status endpoint before the minimum balance starts queueing requests.
+  relayerStuckTxMinutes: parseInt(process.env.RELAYER_STUCK_TX_MINUTES || '3'),
+  relayerGasBumpPercent: Math.max(10, parseInt(process.env.RELAYER_GAS_BUMP_PERCENT || '20')),
+  relayerMaxGasBumps: parseInt(process.env.RELAYER_MAX_GAS_BUMPS || '5'),
+  relayerMaxGasPriceGwei: process.env.RELAYER_MAX_GAS_PRICE_GWEI || '100',
+  relayerBalanceAlertXdc: process.env.RELAYER_BALANCE_ALERT_XDC || '20',
+
+  // Scheduled repository funding. Top-up schedules check the pool balance on every scheduler pass
+  // and wait out the cooldown after funding. A schedule is paused after this many failed runs in a row.
+  fundingSchedulerIntervalSeconds: parseInt(process.env.FUNDING_SCHEDULER_INTERVAL_SECONDS || '300'),
+  fundingTopUpCooldownHours: parseInt(process.env.FUNDING_TOP_UP_COOLDOWN_HOURS || '24'),
+  fundingScheduleMaxFailures: parseInt(process.env.FUNDING_SCHEDULE_MAX_FAILURES || '3'),
+
+  // Third-party issue sponsorships are held in the escrow wallet until the issue is fixed (paid to the
+  // contributor) or closed unfixed / past its deadline (refunded to the sponsor)
+  sponsorshipDefaultDays: parseInt(process.env.SPONSORSHIP_DEFAULT_DAYS || '90'),
+  sponsorshipMaxDays: parseInt(process.env.SPONSORSHIP_MAX_DAYS || '365'),
+  sponsorshipSweepIntervalSeconds: parseInt(process.env.SPONSORSHIP_SWEEP_INTERVAL_SECONDS || '900'),
+
   // Database (non-sensitive parts)
   dbSchema: process.env.DB_SCHEMA || 'staging',
   
@@ -142,6 +213,19 @@ export const baseConfig = {
   // Uses the same endpoint and API version as Grok-3
   azureOpenaiDeploymentNameGrok3Mini: process.env.AZURE_OPENAI_DEPLOYMENT_NAME_GROK_3_MINI,
 
+  // VS Code AI metering. Each request holds its estimated cost in prompts up front (output estimated from
+  // max_tokens, or this default) and settles the actual token usage afterwards. In-flight requests touch
+  // their hold every minute; holds a crashed request stopped touching are released after the timeout.
+  aiMeteringDefaultOutputTokens: parseInt(process.env.AI_METERING_DEFAULT_OUTPUT_TOKENS || '1024'),
+  aiMeteringHoldTimeoutMinutes: parseInt(process.env.AI_METERING_HOLD_TIMEOUT_MINUTES || '15'),
+
+  // Circuit breaker per AI deployment. Once enough recent requests fail, the deployment is skipped in
+  // favour of its fallbacks until the cooldown passes, then a single trial request decides whether it is back.
+  aiCircuitWindowSeconds: parseInt(process.env.AI_CIRCUIT_WINDOW_SECONDS || '60'),
+  aiCircuitMinRequests: parseInt(process.env.AI_CIRCUIT_MIN_REQUESTS || '5'),
+  aiCircuitErrorRatePercent: parseInt(process.env.AI_CIRCUIT_ERROR_RATE_PERCENT || '50'),
+  aiCircuitCooldownSeconds: parseInt(process.env.AI_CIRCUIT_COOLDOWN_SECONDS || '30'),
+
   // New User Trial Prompts
   newUserTrialPrompts: parseInt(process.env.NEW_USER_TRIAL_PROMPTS || '5'), // Default to 5 trial prompts
   
@@ -171,6 +255,7 @@ export let config = {
   githubAppWebhookSecret: process.env.GITHUB_APP_WEBHOOK_SECRET,
   sessionSecret: process.env.SESSION_SECRET,
   relayerPrivateKey: process.env.PRIVATE_KEY || '',
+  sponsorshipEscrowPrivateKey: process.env.SPONSORSHIP_ESCROW_PRIVATE_KEY || '',
   encryptionKey: process.env.ENCRYPTION_KEY,
   privateKeySecret: process.env.PRIVATE_KEY_SECRET || 'roxonn-secret',
   databaseUrl: process.env.DATABASE_URL,
@@ -223,6 +308,7 @@ export async function initializeConfig() {
       'github/app-webhook-secret': 'githubAppWebhookSecret',
       'auth/session-secret': 'sessionSecret',
       'blockchain/relayer-private-key': 'relayerPrivateKey',
+      'blockchain/sponsorship-escrow-private-key': 'sponsorshipEscrowPrivateKey',
       'crypto/encryption-key': 'encryptionKey',
       'crypto/private-key-secret': 'privateKeySecret',
       'database/url': 'databaseUrl',
@@ -257,6 +343,10 @@ export async function initializeConfig() {
       // 'blockchain/new-roxn-rewards-impl-address': 'newRoxnRewardsImplAddress',
     };
     
+    // Imported here rather than at the top: aws.ts imports db.ts, which reads config.databaseUrl,
+    // so a static import would read config before this module has finished initializing
+    const { getParameter } = await import('./aws');
+
     // Load parameters in parallel
     const parameterPromises = Object.entries(parameterMap).map(async ([paramName, configKey]) => {
       const value = await getParameter(paramName);
@@ -6,15 +6,20 @@ const ses = new SESClient({ region: config.awsRegion });
 const SOURCE_EMAIL = config.supportEmail; // verified in SES
 const ADMIN_EMAIL = process.env.ADMIN_EMAIL || config.supportEmail; // Admin notification recipient
 
-export async function sendOtpEmail(to: string, code: string) {
+export async function sendOtpEmail(
+  to: string,
+  code: string,
+  action: { subject: string; description: string } = { subject: 'Wallet Export', description: 'export your wallet' },
+  ttlMinutes: number = 5
+) {
   const params = {
     Destination: { ToAddresses: [to] },
     Source: SOURCE_EMAIL,
     Message: {
-      Subject: { Data: 'Your Roxonn Wallet Export Code' },
+      Subject: { Data: `Your Roxonn ${action.subject} Code` },
       Body: {
         Text: {
-          Data: `Your one-time code to export your wallet is: ${code}\n\nThis code will expire in 5 minutes.`
+          Data: `Your one-time code to ${action.description} is: ${code}\n\nThis code will expire in ${ttlMinutes} minutes. If you did not request it, secure your account.`
         }
       }
     }
@@ -28,6 +33,117 @@ export async function sendOtpEmail(to: string, code: string) {
   }
 }
 
+/**
+ * Ask the user to confirm a new withdrawal address. The cooling-off period starts on confirmation.
+ */
+export async function sendWithdrawalAddressConfirmationEmail(
+  to: string,
+  data: { address: string; label: string | null; confirmUrl: string; coolingOffHours: number; expiresInHours: number }
+) {
+  const params = {
+    Destination: { ToAddresses: [to] },
+    Source: SOURCE_EMAIL,
+    Message: {
+      Subject: { Data: 'Confirm your new Roxonn withdrawal address' },
+      Body: {
+        Text: {
+          Data: `A withdrawal address was added to your Roxonn wallet:
+
+Address: ${data.address}${data.label ? `\nLabel: ${data.label}` : ''}
+
+Confirm it here: ${data.confirmUrl}
+
+The link expires in ${data.expiresInHours} hours. Once confirmed, the address can receive funds after ${data.coolingOffHours} hours.
+
+If you did not add this address, do not click the link. Remove it from your wallet page and secure your account.`
+        }
+      }
+    }
+  };
+  try {
+    await ses.send(new SendEmailCommand(params));
+    log(`Withdrawal address confirmation sent to ${to}`, 'email');
+  } catch (err: any) {
+    log(`Failed to send withdrawal address confirmation: ${err.message}`, 'email-ERROR');
+    throw new Error('Failed to send confirmation email');
+  }
+}
+
+/**
+ * Tell the user their withdrawal address book changed
+ */
+export async function sendWithdrawalAddressChangeEmail(
+  to: string,
+  data: { address: string; change: 'confirmed' | 'removed'; activatesAt?: Date | null }
+) {
+  const summary = data.change === 'confirmed'
+    ? `was confirmed and can receive funds from ${data.activatesAt?.toUTCString() ?? 'soon'}`
+    : 'was removed from your withdrawal addresses';
+  const params = {
+    Destination: { ToAddresses: [to] },
+    Source: SOURCE_EMAIL,
+    Message: {
+      Subject: { Data: 'Your Roxonn withdrawal addresses changed' },
+      Body: {
+        Text: {
+          Data: `The address ${data.address} ${summary}.\n\nIf this was not you, secure your account and contact ${SOURCE_EMAIL}.`
+        }
+      }
+    }
+  };
+  try {
+    await ses.send(new SendEmailCommand(params));
+    log(`Withdrawal address change notice sent to ${to}`, 'email');
+  } catch (err: any) {
+    // A missed notice should not undo the change itself
+    log(`Failed to send withdrawal address change notice: ${err.message}`, 'email-ERROR');
+  }
+}
+
+/**
+ * Report a scheduled funding run to the funder, whether it went through or not
+ */
+export async function sendFundingScheduleReportEmail(
+  to: string,
+  data: {
+    repoFullName: string;
+    status: 'funded' | 'skipped' | 'failed';
+    amount: string;
+    currency: string;
+    transactionHash?: string | null;
+    reason?: string | null;
+    paused?: boolean;
+  }
+) {
+  const headline = data.status === 'funded'
+    ? `${data.amount} ${data.currency} was added to the ${data.repoFullName} bounty pool.`
+    : `A scheduled ${data.amount} ${data.currency} funding of ${data.repoFullName} was ${data.status === 'skipped' ? 'skipped' : 'not completed'}.`;
+  const details = [
+    data.transactionHash ? `Transaction: https://xdcscan.com/tx/${data.transactionHash}` : null,
+    data.reason ? `Reason: ${data.reason}` : null,
+    data.paused ? 'The schedule has been paused after repeated failures. Resume it from the repository page once the problem is fixed.' : null,
+  ].filter(Boolean).join('\n\n');
+  const params = {
+    Destination: { ToAddresses: [to] },
+    Source: SOURCE_EMAIL,
+    Message: {
+      Subject: { Data: `Roxonn scheduled funding ${data.status === 'funded' ? 'completed' : data.status}: ${data.repoFullName}` },
+      Body: {
+        Text: {
+          Data: `${headline}${details ? `\n\n${details}` : ''}\n\nManage your funding schedules from the repository page on Roxonn.`
+        }
+      }
+    }
+  };
+  try {
+    await ses.send(new SendEmailCommand(params));
+    log(`Funding schedule report sent to ${to}`, 'email');
+  } catch (err: any) {
+    // The run is already recorded; a missed report is only logged
+    log(`Failed to send funding schedule report: ${err.message}`, 'email-ERROR');
+  }
+}
+
 /**
  * Send notification to admin when a user requests a referral payout
  */
@@ -2,14 +2,28 @@ import axios, { AxiosRequestConfig } from 'axios';
 import { Request, Response } from 'express';
 import crypto from 'crypto';
 import { config } from './config';
-import { blockchain } from './blockchain';
+import { blockchain, type RelayedAllocation } from './blockchain';
 import { storage } from './storage';
 import { log } from './utils';
 import { Webhooks } from "@octokit/webhooks";
 import { ethers } from 'ethers';
 // Import Octokit App Auth
 import { createAppAuth } from "@octokit/auth-app";
-import type { IssueBountyDetails } from "@shared/schema";
+import type { BountyClaim, BountyExpiry, IssueBountyDetails, IssueSponsorship, MultisigPolicy, MultisigProposal, MultisigProposalPayload } from "@shared/schema";
+import { bountyClaimService } from './services/bountyClaimService';
+import { bountyExpiryService } from './services/bountyExpiryService';
+import { payoutLedgerService } from './services/payoutLedgerService';
+import { repositoryManagerService, type RepositoryAccess } from './services/repositoryManagerService';
+import { payoutAddressService } from './services/payoutAddressService';
+import { multisigService, MultisigPolicyError } from './services/multisigService';
+import { webhookDeliveryStepService } from './services/webhookDeliveryStepService';
+import {
+  issueSponsorshipService,
+  totalSponsorships,
+  SponsorshipRejectedError,
+  type SponsorshipOutcome,
+  type SponsorshipSettlement
+} from './services/issueSponsorshipService';
 
 // Comment out old webhooks instance
 /*
@@ -461,6 +475,1027 @@ async function handleIssueEvent(payload: WebhookPayload) {
 }
 */
 
+// --- Bounty Split Helpers ---
+
+interface SplitRecipient {
+  githubUsername: string;
+  shareBps: number;
+}
+
+interface IssuePayoutResult {
+  transactionHash: string | null;
+  recipients: SplitRecipient[];
+}
+
+type BountyAmount = { amount: string; currency: 'XDC' | 'ROXN' | 'USDC' };
+
+// Picks the currency an on-chain bounty was allocated in (USDC first, then ROXN, then XDC)
+export function getBountyAmountAndCurrency(issueBounty: IssueBountyDetails): BountyAmount | null {
+  if (issueBounty.currency) {
+    const amounts = getBountyAmounts(issueBounty);
+    return amounts.find(a => a.currency === issueBounty.currency) || null;
+  }
+  if (parseFloat(issueBounty.usdcAmount || "0") > 0) {
+    return { amount: issueBounty.usdcAmount!, currency: 'USDC' };
+  }
+  if (issueBounty.isRoxn || parseFloat(issueBounty.roxnAmount || "0") > 0) {
+    return { amount: issueBounty.roxnAmount || "0", currency: 'ROXN' };
+  }
+  if (parseFloat(issueBounty.xdcAmount || "0") > 0) {
+    return { amount: issueBounty.xdcAmount!, currency: 'XDC' };
+  }
+  return null;
+}
+
+// Every non-zero amount on a bounty, starting with the currency it was allocated in
+export function getBountyAmounts(issueBounty: IssueBountyDetails): BountyAmount[] {
+  const amounts: BountyAmount[] = [
+    { amount: issueBounty.usdcAmount || "0", currency: 'USDC' },
+    { amount: issueBounty.roxnAmount || "0", currency: 'ROXN' },
+    { amount: issueBounty.xdcAmount || "0", currency: 'XDC' },
+  ];
+  const primary = issueBounty.currency || getBountyAmountAndCurrency(issueBounty)?.currency;
+  return amounts
+    .filter(a => parseFloat(a.amount) > 0)
+    .sort((a, b) => Number(b.currency === primary) - Number(a.currency === primary));
+}
+
+function formatBountyAmounts(amounts: BountyAmount[]): string {
+  return amounts.map(a => `${a.amount} ${a.currency}`).join(' + ');
+}
+
+function formatSplitTable(recipients: SplitRecipient[], amount?: string, currency?: string): string {
+  const decimals = currency === 'USDC' ? 2 : 4;
+  const rows = recipients.map(r => {
+    const share = `${r.shareBps / 100}%`;
+    const value = amount && currency
+      ? `${(parseFloat(amount) * r.shareBps / 10000).toFixed(decimals)} ${currency}`
+      : '-';
+    return `| @${r.githubUsername} | ${share} | ${value} |`;
+  });
+  return ['| Contributor | Share | Amount |', '|-------------|-------|--------|', ...rows].join('\n');
+}
+
+// Splits a bounty amount by basis points; the last recipient takes the rounding remainder, as the contract does
+function computeShareAmounts(amount: string, currency: 'XDC' | 'ROXN' | 'USDC', sharesBps: number[]): string[] {
+  const decimals = currency === 'USDC' ? 6 : 18;
+  const total = ethers.parseUnits(amount, decimals);
+  let allocated = BigInt(0);
+  return sharesBps.map((bps, i) => {
+    const share = i === sharesBps.length - 1 ? total - allocated : total * BigInt(bps) / BigInt(10000);
+    allocated += share;
+    return ethers.formatUnits(share, decimals);
+  });
+}
+
+/**
+ * Pays the bounty on an issue. If a pool manager recorded a split for the issue,
+ * every recipient is paid in one transaction; otherwise the whole reward goes to
+ * the PR author. The payout is reserved in the payout ledger before anything is
+ * sent, so a second handler firing for the same issue is a no-op. Amounts added
+ * in other currencies are paid by the contract in the same transaction.
+ * Payouts over the repository's approval threshold are held as a proposal
+ * unless `approved` says the pool managers already signed off.
+ * Returns null when nothing could be paid.
+ */
+async function distributeIssueBounty(params: {
+  repoId: number;
+  issueNumber: number;
+  prAuthorUsername: string;
+  poolManagerId: number;
+  installationId: string;
+  repoFullName: string;
+  bounty: BountyAmount;
+  extraAmounts?: BountyAmount[];
+  logTag: string;
+  approved?: boolean;
+}): Promise<IssuePayoutResult | null> {
+  const { repoId, issueNumber, prAuthorUsername, poolManagerId, installationId, repoFullName, bounty, extraAmounts = [], logTag, approved = false } = params;
+
+  const split = (await storage.getBountySplit(String(repoId), issueNumber))
+    .filter((share: any) => share.status === 'pending');
+
+  const recipients: SplitRecipient[] = split.length > 0
+    ? split.map((share: any) => ({ githubUsername: share.githubUsername, shareBps: share.shareBps }))
+    : [{ githubUsername: prAuthorUsername, shareBps: 10000 }];
+
+  if (split.length === 0) {
+    // A split recorded by a maintainer overrides any claim; otherwise only the claimant can be paid
+    const claim = await bountyClaimService.getActiveClaim(String(repoId), issueNumber);
+    if (claim && claim.githubUsername.toLowerCase() !== prAuthorUsername.toLowerCase()) {
+      log(`Issue #${issueNumber} is claimed by ${claim.githubUsername}, not PR author ${prAuthorUsername}. Holding payout.`, logTag);
+      const [owner, repo] = repoFullName.split('/');
+      const body = `⏸️ **Bounty Payout Held**
+
+This issue is claimed by @${claim.githubUsername} until ${claim.expiresAt.toUTCString()}, so the bounty was not paid to @${prAuthorUsername}.
+
+A pool manager can reassign the claim with \`/claim @${prAuthorUsername}\` or record a split with \`/bounty split\`.
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+      await postGitHubComment(installationId, owner, repo, issueNumber, body);
+      return null;
+    }
+  }
+
+  // A split is paid atomically, so every recipient needs a wallet before anything is sent.
+  // Contributors who linked a self-custody wallet are paid there instead of their custodial one.
+  const addresses: string[] = [];
+  for (const recipient of recipients) {
+    const user = await storage.getUserByGithubUsername(recipient.githubUsername);
+    const payoutAddress = user ? await payoutAddressService.resolve(user) : null;
+    if (!payoutAddress) {
+      log(`Recipient ${recipient.githubUsername} not registered or has no wallet. Skipping distribution for issue #${issueNumber}.`, logTag);
+      return null;
+    }
+    log(`Paying ${recipient.githubUsername} at their ${payoutAddress.source} wallet ${payoutAddress.address}`, logTag);
+    addresses.push(payoutAddress.address);
+  }
+
+  if (!approved) {
+    const policy = await multisigService.needsApproval(String(repoId), [bounty, ...extraAmounts]);
+    if (policy) {
+      let proposal: MultisigProposal | null;
+      try {
+        proposal = await proposeMultisigAction({
+          policy,
+          githubRepoId: String(repoId),
+          issueNumber,
+          action: 'distribute',
+          amounts: [bounty, ...extraAmounts],
+          payload: { prAuthorUsername },
+          source: 'webhook',
+          proposer: null,
+          signerId: poolManagerId,
+        });
+      } catch (error) {
+        if (!(error instanceof MultisigPolicyError)) {
+          throw error;
+        }
+        log(`Payout for issue #${issueNumber} needs approval that cannot be reached: ${error.message}`, logTag);
+        const [owner, repo] = repoFullName.split('/');
+        const body = `⏸️ **Bounty Payout Held**
+
+This payout needs pool manager approval, but the approval policy cannot be met. ${error.message}
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+        await postGitHubComment(installationId, owner, repo, issueNumber, body);
+        return null;
+      }
+      log(proposal
+        ? `Payout for issue #${issueNumber} held for approval as proposal ${proposal.id}`
+        : `Payout for issue #${issueNumber} already has an open approval proposal`, logTag);
+      return null;
+    }
+  }
+
+  const sharesBps = recipients.map(r => r.shareBps);
+  const shareAmounts = computeShareAmounts(bounty.amount, bounty.currency, sharesBps);
+  const extraShares = extraAmounts.map(extra => computeShareAmounts(extra.amount, extra.currency, sharesBps));
+  const payout = await payoutLedgerService.runPayout({
+    githubRepoId: String(repoId),
+    issueNumber,
+    currency: bounty.currency,
+    amount: bounty.amount,
+    recipients: recipients.map((r, i) => ({
+      ...r,
+      address: addresses[i],
+      amount: shareAmounts[i],
+      ...(extraAmounts.length > 0 && {
+        extraAmounts: extraAmounts.map((extra, j) => ({ currency: extra.currency, amount: extraShares[j][i] })),
+      }),
+    })),
+    source: logTag,
+  }, (onBroadcast) => {
+    if (split.length === 0) {
+      log(`Attempting distribution for issue #${issueNumber} to ${addresses[0]}`, logTag);
+      return blockchain.distributeReward(repoId, issueNumber, addresses[0], poolManagerId, onBroadcast);
+    }
+    log(`Attempting split distribution for issue #${issueNumber} to ${recipients.map(r => r.githubUsername).join(', ')}`, logTag);
+    const wallets = recipients.map((r, i) => ({ address: addresses[i], shareBps: r.shareBps }));
+    return blockchain.distributeRewardSplit(repoId, issueNumber, wallets, poolManagerId, onBroadcast);
+  });
+  if (!payout) {
+    return null;
+  }
+
+  const transactionHash = payout.receipt?.hash || null;
+  if (split.length > 0) {
+    await storage.markBountySplitPaid(String(repoId), issueNumber, transactionHash);
+  }
+  await bountyClaimService.complete(String(repoId), issueNumber);
+  await bountyExpiryService.clear(String(repoId), issueNumber);
+
+  const [owner, repo] = repoFullName.split('/');
+  await syncBountyBadges({ installationId, owner, repo, issueNumber, state: 'paid', amounts: [bounty, ...extraAmounts] });
+  return { transactionHash, recipients };
+}
+
+async function postSplitPayoutComment(
+  installationId: string,
+  repoFullName: string,
+  issueNumber: number,
+  payout: IssuePayoutResult,
+  amount?: string,
+  currency?: string
+): Promise<void> {
+  if (payout.recipients.length < 2) {
+    return;
+  }
+  const [owner, repo] = repoFullName.split('/');
+  const txLine = payout.transactionHash
+    ? `🔗 [View transaction](https://xdcscan.com/tx/${payout.transactionHash})`
+    : '';
+  const body = `💸 **Bounty Paid**
+
+The bounty for this issue was split between ${payout.recipients.length} contributors:
+
+${formatSplitTable(payout.recipients, amount, currency)}
+
+${txLine}
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+  try {
+    await postGitHubComment(installationId, owner, repo, issueNumber, body);
+  } catch (error: any) {
+    log(`Failed to post split payout comment for issue #${issueNumber}: ${error.message}`, 'bounty-command-ERROR');
+  }
+}
+
+/**
+ * Stores a contributor split for an issue and announces it on the issue.
+ * Used by both the `/bounty split` command and the dashboard.
+ */
+export async function recordBountySplit(params: {
+  githubRepoId: string;
+  installationId: string | null;
+  owner: string;
+  repo: string;
+  issueNumber: number;
+  shares: BountySplitShare[];
+  setBy: string;
+}): Promise<SplitRecipient[]> {
+  const { githubRepoId, installationId, owner, repo, issueNumber, shares, setBy } = params;
+  const recipients: SplitRecipient[] = shares.map(share => ({
+    githubUsername: share.githubUsername,
+    shareBps: share.percentage * 100,
+  }));
+  await storage.setBountySplit(githubRepoId, issueNumber, recipients, setBy);
+  log(`Bounty split set by ${setBy} for issue #${issueNumber}: ${recipients.map(r => `${r.githubUsername}=${r.shareBps}`).join(', ')}`, 'bounty-command');
+
+  if (!installationId) {
+    return recipients;
+  }
+
+  // Per-recipient amounts are informational, so a failed lookup should not block the comment
+  let bountyAmount: ReturnType<typeof getBountyAmountAndCurrency> = null;
+  try {
+    const [issueBounty] = await blockchain.getIssueRewards(parseInt(githubRepoId), [issueNumber]);
+    bountyAmount = issueBounty ? getBountyAmountAndCurrency(issueBounty) : null;
+  } catch (error: any) {
+    log(`Could not fetch bounty for issue #${issueNumber} while recording split: ${error.message}`, 'bounty-command');
+  }
+
+  const unregistered: string[] = [];
+  for (const recipient of recipients) {
+    const user = await storage.getUserByGithubUsername(recipient.githubUsername);
+    if (!user || !await payoutAddressService.resolve(user)) {
+      unregistered.push(`@${recipient.githubUsername}`);
+    }
+  }
+  const walletNote = unregistered.length > 0
+    ? `\n⚠️ ${unregistered.join(', ')} must sign up on [Roxonn](https://app.roxonn.com) before the bounty can be paid out.\n`
+    : '';
+
+  const body = `🤝 **Bounty Split Recorded**
+
+When a PR fixing this issue is merged, the bounty will be paid to:
+
+${formatSplitTable(recipients, bountyAmount?.amount, bountyAmount?.currency)}
+${walletNote}
+A platform fee is deducted from each share at payout. Comment \`/bounty split\` again to replace this split.
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+  await postGitHubComment(installationId, owner, repo, issueNumber, body);
+  return recipients;
+}
+
+/**
+ * Why an issue's bounty cannot go back to the pool right now, or null if it can: a payout being
+ * sent, or one waiting for approval, would otherwise race the return.
+ */
+async function getBountyReturnBlocker(githubRepoId: string, issueNumber: number): Promise<string | null> {
+  if (await payoutLedgerService.hasPayoutInFlight(githubRepoId, issueNumber)) {
+    return `The bounty on issue #${issueNumber} is being paid out`;
+  }
+  if (await multisigService.hasOpenProposal(githubRepoId, issueNumber, 'distribute')) {
+    return `The bounty on issue #${issueNumber} has a payout waiting for approval. Reject or cancel that proposal first`;
+  }
+  return null;
+}
+
+/**
+ * Cancels the active bounty on an issue, returning the funds to the repository pool,
+ * and posts a confirmation on the issue. Used by `/bounty cancel`, the dashboard and,
+ * with `expiry` set, the expiry sweep. Throws if the issue has no allocated bounty,
+ * or while it is being paid out.
+ */
+export async function cancelIssueBounty(params: {
+  githubRepoId: string;
+  installationId: string | null;
+  owner: string;
+  repo: string;
+  issueNumber: number;
+  poolManagerId: number;
+  cancelledBy: string;
+  expiry?: BountyExpiry;
+}): Promise<{ transactionHash: string; amount: string; currency: 'XDC' | 'ROXN' | 'USDC' }> {
+  const { githubRepoId, installationId, owner, repo, issueNumber, poolManagerId, cancelledBy, expiry } = params;
+  const blockchainRepoId = parseInt(githubRepoId);
+
+  const [issueBounty] = await blockchain.getIssueRewards(blockchainRepoId, [issueNumber]);
+  const bountyAmount = issueBounty && issueBounty.status === 'Allocated' ? getBountyAmountAndCurrency(issueBounty) : null;
+  if (!bountyAmount) {
+    throw new Error(`Issue #${issueNumber} has no active bounty to cancel`);
+  }
+  const blocker = await getBountyReturnBlocker(githubRepoId, issueNumber);
+  if (blocker) {
+    throw new Error(blocker);
+  }
+
+  // Amounts added in other currencies are refunded by the same contract call
+  const amounts = getBountyAmounts(issueBounty);
+  const result = await blockchain.cancelIssueReward(blockchainRepoId, issueNumber, poolManagerId);
+  log(`Bounty of ${formatBountyAmounts(amounts)} on issue #${issueNumber} cancelled by ${cancelledBy}. TX: ${result.transactionHash}`, 'bounty-command');
+
+  for (const { amount, currency } of amounts) {
+    try {
+      await storage.upsertMultiCurrencyBounty({
+        repoId: githubRepoId,
+        issueId: issueNumber,
+        currencyType: currency,
+        amount,
+        status: 'cancelled',
+        transactionHash: result.transactionHash,
+      });
+    } catch (error: any) {
+      log(`Failed to record cancelled ${currency} bounty for issue #${issueNumber}: ${error.message}`, 'bounty-command-ERROR');
+    }
+  }
+
+  let releasedClaim: BountyClaim | null = null;
+  try {
+    releasedClaim = await bountyClaimService.release(githubRepoId, issueNumber, cancelledBy);
+  } catch (error: any) {
+    log(`Failed to release claim on cancelled issue #${issueNumber}: ${error.message}`, 'bounty-command-ERROR');
+  }
+  if (!expiry) {
+    try {
+      await bountyExpiryService.clear(githubRepoId, issueNumber);
+    } catch (error: any) {
+      log(`Failed to clear the deadline on cancelled issue #${issueNumber}: ${error.message}`, 'bounty-command-ERROR');
+    }
+  }
+
+  if (installationId) {
+    await syncBountyBadges({ installationId, owner, repo, issueNumber, state: 'cancelled', amounts });
+
+    const mentions = expiry ? formatMentions([expiry.setBy, releasedClaim?.githubUsername]) : '';
+    const body = expiry
+      ? `⌛ **Bounty Expired**
+
+The bounty of **${formatBountyAmounts(amounts)}** on this issue passed its deadline of **${expiry.expiresAt.toUTCString()}** without a merged fix and was returned to the repository pool.${releasedClaim ? ` The claim held by @${releasedClaim.githubUsername} was released.` : ''}
+
+${mentions}
+
+🔗 [View transaction](https://xdcscan.com/tx/${result.transactionHash})
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`
+      : `🚫 **Bounty Cancelled**
+
+The bounty of **${formatBountyAmounts(amounts)}** on this issue was cancelled by @${cancelledBy} and returned to the repository pool.
+
+🔗 [View transaction](https://xdcscan.com/tx/${result.transactionHash})
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+    await postGitHubComment(installationId, owner, repo, issueNumber, body);
+  }
+
+  return { transactionHash: result.transactionHash, ...bountyAmount };
+}
+
+/**
+ * Pays an issue's whole bounty to one wallet address. A contributor who linked a self-custody
+ * wallet is paid there rather than at the custodial address. Used by the dashboard and by
+ * approved proposals. Returns null if the payout ledger already has this bounty.
+ */
+export async function distributeBountyToAddress(params: {
+  githubRepoId: string;
+  issueNumber: number;
+  contributorAddress: string;
+  poolManagerId: number;
+  source: string;
+}): Promise<{ transactionHash: string | null; amounts: BountyAmount[] } | null> {
+  const { githubRepoId, issueNumber, contributorAddress, poolManagerId, source } = params;
+  const blockchainRepoId = parseInt(githubRepoId);
+
+  const [issueBounty] = await blockchain.getIssueRewards(blockchainRepoId, [issueNumber]);
+  const bountyAmount = issueBounty && issueBounty.status === 'Allocated' ? getBountyAmountAndCurrency(issueBounty) : null;
+  if (!bountyAmount) {
+    throw new Error(`Issue #${issueNumber} has no allocated bounty to distribute`);
+  }
+
+  const contributor = await storage.getUserByWalletAddress(contributorAddress);
+  const payoutAddress = contributor ? await payoutAddressService.resolve(contributor) : null;
+  const recipientAddress = payoutAddress?.address || contributorAddress;
+  const extraAmounts = getBountyAmounts(issueBounty).slice(1);
+  const payout = await payoutLedgerService.runPayout({
+    githubRepoId,
+    issueNumber,
+    currency: bountyAmount.currency,
+    amount: bountyAmount.amount,
+    recipients: [{
+      githubUsername: contributor?.githubUsername || '',
+      address: recipientAddress,
+      shareBps: 10000,
+      amount: bountyAmount.amount,
+      ...(extraAmounts.length > 0 && { extraAmounts }),
+    }],
+    source,
+  }, (onBroadcast) => blockchain.distributeReward(blockchainRepoId, issueNumber, recipientAddress, poolManagerId, onBroadcast));
+  if (!payout) {
+    return null;
+  }
+  await bountyExpiryService.clear(githubRepoId, issueNumber);
+
+  const amounts = [bountyAmount, ...extraAmounts];
+  const registration = await storage.findRegisteredRepositoryByGithubId(githubRepoId);
+  if (registration?.installationId) {
+    const [owner, repo] = registration.githubRepoFullName.split('/');
+    await syncBountyBadges({ installationId: registration.installationId, owner, repo, issueNumber, state: 'paid', amounts });
+  }
+  return { transactionHash: payout.receipt?.hash || null, amounts };
+}
+
+/**
+ * Holds an allocation or payout that is over the repository's approval threshold and asks the
+ * pool managers for approval on the issue. If the proposer's own approval already meets the
+ * quorum, the action runs straight away. Returns null if the issue already has an open proposal
+ * for this action.
+ */
+export async function proposeMultisigAction(params: {
+  policy: MultisigPolicy;
+  githubRepoId: string;
+  issueNumber: number;
+  action: MultisigProposal['action'];
+  amounts: BountyAmount[];
+  payload?: MultisigProposalPayload;
+  source: MultisigProposal['source'];
+  proposer: { id: number; githubUsername: string } | null;
+  signerId: number;
+}): Promise<MultisigProposal | null> {
+  const result = await multisigService.propose(params);
+  if (!result) {
+    return null;
+  }
+  if (result.quorumReached) {
+    await executeMultisigProposal(result.proposal);
+    return await multisigService.getProposal(result.proposal.id, params.githubRepoId) || result.proposal;
+  }
+
+  const registration = await storage.findRegisteredRepositoryByGithubId(params.githubRepoId);
+  if (registration?.installationId) {
+    const [owner, repo] = registration.githubRepoFullName.split('/');
+    const what = params.action === 'allocate' ? 'allocation' : 'payout';
+    const by = params.proposer ? ` proposed by @${params.proposer.githubUsername}` : ` for @${params.payload?.prAuthorUsername}'s merged PR`;
+    const body = `🗳️ **Approval Required**
+
+The ${what} of **${formatBountyAmounts(params.amounts)}**${by} is over this repository's approval threshold. It needs **${result.proposal.requiredApprovals}** pool manager approvals and will run as soon as it has them.
+
+Pool managers can approve or reject it on the Team tab at [Roxonn](https://app.roxonn.com/repos/${owner}/${repo}).
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+    try {
+      await postGitHubComment(registration.installationId, owner, repo, params.issueNumber, body);
+    } catch (error: any) {
+      log(`Failed to post approval request for issue #${params.issueNumber}: ${error.message}`, 'multisig-ERROR');
+    }
+  }
+  return result.proposal;
+}
+
+/**
+ * Runs a proposal that reached its quorum, signed by the pool manager recorded on it, and posts
+ * the outcome with the list of approvers. Failures are recorded on the proposal, not thrown.
+ */
+export async function executeMultisigProposal(proposal: MultisigProposal): Promise<void> {
+  const registration = await storage.findRegisteredRepositoryByGithubId(proposal.githubRepoId);
+  const installationId = registration?.installationId || null;
+  const [owner, repo] = registration ? registration.githubRepoFullName.split('/') : ['', ''];
+  const { issueNumber } = proposal;
+  const blockchainRepoId = parseInt(proposal.githubRepoId);
+
+  let transactionHash: string | null = null;
+  let outcome: string;
+  try {
+    if (!registration) {
+      throw new Error('The repository is no longer registered');
+    }
+    if (!proposal.signerId) {
+      throw new Error('The pool manager who would sign this transaction no longer has an account');
+    }
+
+    if (proposal.action === 'allocate') {
+      // The first amount allocates the bounty unless it is already live; the rest are increases
+      const [issueBounty] = await blockchain.getIssueRewards(blockchainRepoId, [issueNumber]);
+      const wasAllocated = issueBounty?.status === 'Allocated';
+      let isAllocated = wasAllocated;
+      for (const item of proposal.amounts) {
+        const result = isAllocated
+          ? await blockchain.increaseIssueReward(blockchainRepoId, issueNumber, item.amount, item.currency, proposal.signerId)
+          : await blockchain.allocateIssueReward(blockchainRepoId, issueNumber, item.amount, item.currency, proposal.signerId);
+        isAllocated = true;
+        transactionHash = result.transactionHash;
+      }
+
+      const [updated] = await blockchain.getIssueRewards(blockchainRepoId, [issueNumber]);
+      const amounts = updated ? getBountyAmounts(updated) : proposal.amounts;
+      for (const { amount, currency } of amounts) {
+        try {
+          await storage.upsertMultiCurrencyBounty({
+            repoId: proposal.githubRepoId,
+            issueId: issueNumber,
+            currencyType: currency,
+            amount,
+            status: 'allocated',
+            transactionHash: transactionHash || undefined,
+          });
+        } catch (recordError: any) {
+          log(`Failed to record approved bounty for issue #${issueNumber}: ${recordError.message}`, 'multisig-ERROR');
+        }
+      }
+      if (installationId) {
+        await syncBountyBadges({ installationId, owner, repo, issueNumber, state: 'allocated', amounts });
+      }
+      // An increase keeps the deadline of the bounty it adds to unless the proposal set a new one
+      const expiry = proposal.payload.expiresInDays || !wasAllocated
+        ? await applyBountyExpiry(proposal.githubRepoId, issueNumber, proposal.payload.expiresInDays, proposal.proposedByUsername)
+        : null;
+      outcome = `The bounty on this issue is now **${formatBountyAmounts(amounts)}**.`
+        + (expiry ? ` It returns to the pool if no fix is merged by **${expiry.expiresAt.toUTCString()}**.` : '');
+
+    } else if (proposal.payload.contributorAddress) {
+      const payout = await distributeBountyToAddress({
+        githubRepoId: proposal.githubRepoId,
+        issueNumber,
+        contributorAddress: proposal.payload.contributorAddress,
+        poolManagerId: proposal.signerId,
+        source: 'multisig',
+      });
+      if (!payout) {
+        throw new Error('This bounty is already being paid or has been paid');
+      }
+      transactionHash = payout.transactionHash;
+      outcome = `**${formatBountyAmounts(payout.amounts)}** was paid to \`${proposal.payload.contributorAddress}\`.`;
+
+    } else if (proposal.payload.prAuthorUsername) {
+      if (!installationId) {
+        throw new Error('The Roxonn GitHub App is no longer installed on this repository');
+      }
+      // Splits, claims and payout wallets are looked up again, as they may have changed while waiting
+      const [issueBounty] = await blockchain.getIssueRewards(blockchainRepoId, [issueNumber]);
+      const bounty = issueBounty && issueBounty.status === 'Allocated' ? getBountyAmountAndCurrency(issueBounty) : null;
+      if (!bounty) {
+        throw new Error(`Issue #${issueNumber} has no allocated bounty to distribute`);
+      }
+      const payout = await distributeIssueBounty({
+        repoId: blockchainRepoId,
+        issueNumber,
+        prAuthorUsername: proposal.payload.prAuthorUsername,
+        poolManagerId: proposal.signerId,
+        installationId,
+        repoFullName: registration.githubRepoFullName,
+        bounty,
+        extraAmounts: getBountyAmounts(issueBounty).slice(1),
+        logTag: 'multisig',
+        approved: true,
+      });
+      if (!payout) {
+        throw new Error('The payout could not be sent. Check the issue for details.');
+      }
+      transactionHash = payout.transactionHash;
+      await postSplitPayoutComment(installationId, registration.githubRepoFullName, issueNumber, payout, bounty.amount, bounty.currency);
+      outcome = `The bounty was paid to ${payout.recipients.map(r => `@${r.githubUsername}`).join(', ')}.`;
+
+    } else {
+      throw new Error('The proposal does not name a recipient');
+    }
+
+    await multisigService.markExecuted(proposal.id, transactionHash);
+  } catch (error: any) {
+    await multisigService.markFailed(proposal.id, error.message);
+    if (installationId) {
+      const body = `❌ **Approved ${proposal.action === 'allocate' ? 'Allocation' : 'Payout'} Failed**
+
+The proposal for **${formatBountyAmounts(proposal.amounts)}** was approved but could not be executed:
+
+${error.message}
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+      try {
+        await postGitHubComment(installationId, owner, repo, issueNumber, body);
+      } catch (commentError: any) {
+        log(`Failed to post multisig failure for issue #${issueNumber}: ${commentError.message}`, 'multisig-ERROR');
+      }
+    }
+    return;
+  }
+
+  if (installationId) {
+    const approvers = (await multisigService.listVotes(proposal.id))
+      .filter(vote => vote.decision === 'approve')
+      .map(vote => `@${vote.githubUsername}`);
+    const txLine = transactionHash ? `\n\n🔗 [View transaction](https://xdcscan.com/tx/${transactionHash})` : '';
+    const body = `✅ **Approved ${proposal.action === 'allocate' ? 'Allocation' : 'Payout'} Executed**
+
+${outcome}
+
+Approved by ${approvers.join(', ')}.${txLine}
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+    try {
+      await postGitHubComment(installationId, owner, repo, issueNumber, body);
+    } catch (error: any) {
+      log(`Failed to post multisig result for issue #${issueNumber}: ${error.message}`, 'multisig-ERROR');
+    }
+  }
+}
+
+/**
+ * Expires bounty claims whose window has passed and lets each issue know the bounty is open again.
+ * Run periodically from the server's cron loop.
+ */
+export async function expireBountyClaims(): Promise<number> {
+  const expired = await bountyClaimService.expireStaleClaims();
+
+  for (const claim of expired) {
+    try {
+      const registration = await storage.findRegisteredRepositoryByGithubId(claim.githubRepoId);
+      if (!registration || !registration.installationId) {
+        continue;
+      }
+      const [owner, repo] = registration.githubRepoFullName.split('/');
+      const body = `⌛ **Claim Expired**
+
+The claim held by @${claim.githubUsername} has expired. The bounty on this issue is open again. Comment \`/claim\` to reserve it.
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+      await postGitHubComment(registration.installationId, owner, repo, claim.githubIssueNumber, body);
+    } catch (error: any) {
+      log(`Failed to notify expired claim on issue #${claim.githubIssueNumber}: ${error.message}`, 'bounty-claim');
+    }
+  }
+
+  return expired.length;
+}
+
+// --- Bounty Expiry ---
+function formatMentions(usernames: (string | null | undefined)[]): string {
+  const unique = Array.from(new Set(usernames.filter((username): username is string => !!username)));
+  return unique.length > 0 ? `cc ${unique.map(username => `@${username}`).join(' ')}` : '';
+}
+
+/**
+ * Records an allocation the relayer sent after the dashboard request that made it had returned
+ * (see the relay queue), and labels the issue. The deadline was already set when it was queued.
+ */
+export async function recordRelayedAllocation(allocation: RelayedAllocation): Promise<void> {
+  const githubRepoId = String(allocation.repoId);
+  const [issueBounty] = await blockchain.getIssueRewards(allocation.repoId, [allocation.issueId]);
+  const amounts = issueBounty ? getBountyAmounts(issueBounty) : [{ amount: allocation.amount, currency: allocation.currency }];
+  for (const { amount, currency } of amounts) {
+    await storage.upsertMultiCurrencyBounty({
+      repoId: githubRepoId,
+      issueId: allocation.issueId,
+      currencyType: currency,
+      amount,
+      status: 'allocated',
+      transactionHash: allocation.transactionHash,
+    });
+  }
+
+  const registration = await storage.findRegisteredRepositoryByGithubId(githubRepoId);
+  if (registration?.installationId) {
+    const [owner, repo] = registration.githubRepoFullName.split('/');
+    await syncBountyBadges({ installationId: registration.installationId, owner, repo, issueNumber: allocation.issueId, state: 'allocated', amounts });
+  }
+  log(`Recorded relayed allocation of ${allocation.amount} ${allocation.currency} on issue #${allocation.issueId} in repo ${githubRepoId}`, 'relayer');
+}
+
+/**
+ * Sets the deadline on a freshly allocated bounty, or clears one left over from an earlier
+ * bounty on the issue. Failures are logged rather than thrown, as the allocation already went through.
+ */
+export async function applyBountyExpiry(
+  githubRepoId: string,
+  issueNumber: number,
+  expiresInDays: number | undefined,
+  setBy: string | null
+): Promise<BountyExpiry | null> {
+  try {
+    if (expiresInDays) {
+      return await bountyExpiryService.set(githubRepoId, issueNumber, expiresInDays, setBy);
+    }
+    await bountyExpiryService.clear(githubRepoId, issueNumber);
+  } catch (error: any) {
+    log(`Failed to update the deadline on issue #${issueNumber} in repo ${githubRepoId}: ${error.message}`, 'bounty-expiry-ERROR');
+  }
+  return null;
+}
+
+/**
+ * Reminds issues whose bounty deadline is near, then returns every bounty past its deadline to
+ * the repository pool. Both mention the pool manager who set the deadline and any claimant.
+ * Deadlines whose bounty was paid or cancelled in the meantime are dropped, and a return is
+ * retried on a later run while the bounty is being paid out or a payout waits for approval.
+ * Returns the number of reminders and returns handled.
+ */
+export async function processBountyExpiries(): Promise<number> {
+  let handled = 0;
+
+  for (const expiry of await bountyExpiryService.listDueReminders()) {
+    try {
+      const [issueBounty] = await blockchain.getIssueRewards(parseInt(expiry.githubRepoId), [expiry.githubIssueNumber]);
+      if (!issueBounty || issueBounty.status !== 'Allocated') {
+        await bountyExpiryService.clear(expiry.githubRepoId, expiry.githubIssueNumber);
+        continue;
+      }
+      await bountyExpiryService.markReminded(expiry.id);
+      handled++;
+
+      const registration = await storage.findRegisteredRepositoryByGithubId(expiry.githubRepoId);
+      if (!registration || !registration.installationId) {
+        continue;
+      }
+      const claim = await bountyClaimService.getActiveClaim(expiry.githubRepoId, expiry.githubIssueNumber);
+      const [owner, repo] = registration.githubRepoFullName.split('/');
+      const body = `⏰ **Bounty Expiring Soon**
+
+The bounty of **${formatBountyAmounts(getBountyAmounts(issueBounty))}** on this issue returns to the repository pool on **${expiry.expiresAt.toUTCString()}** unless a fix is merged before then.${claim ? ` It is currently claimed by @${claim.githubUsername}.` : ''}
+
+${formatMentions([expiry.setBy, claim?.githubUsername])}
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+      await postGitHubComment(registration.installationId, owner, repo, expiry.githubIssueNumber, body);
+    } catch (error: any) {
+      log(`Failed to remind expiring bounty on issue #${expiry.githubIssueNumber}: ${error.message}`, 'bounty-expiry-ERROR');
+    }
+  }
+
+  for (const expiry of await bountyExpiryService.claimExpired()) {
+    try {
+      const blockchainRepoId = parseInt(expiry.githubRepoId);
+      const [issueBounty] = await blockchain.getIssueRewards(blockchainRepoId, [expiry.githubIssueNumber]);
+      if (!issueBounty || issueBounty.status !== 'Allocated') {
+        await bountyExpiryService.markCleared(expiry.id);
+        continue;
+      }
+
+      const [signer] = await storage.getRepositoryPoolManagers(blockchainRepoId);
+      if (!signer) {
+        throw new Error('The repository has no pool manager to sign the return');
+      }
+      const registration = await storage.findRegisteredRepositoryByGithubId(expiry.githubRepoId);
+      const [owner, repo] = registration ? registration.githubRepoFullName.split('/') : ['', ''];
+      const result = await cancelIssueBounty({
+        githubRepoId: expiry.githubRepoId,
+        installationId: registration?.installationId || null,
+        owner,
+        repo,
+        issueNumber: expiry.githubIssueNumber,
+        poolManagerId: signer.id,
+        cancelledBy: 'bounty-expiry',
+        expiry,
+      });
+      await bountyExpiryService.markReturned(expiry.id, result.transactionHash);
+      handled++;
+    } catch (error: any) {
+      await bountyExpiryService.releaseClaim(expiry.id, error.message);
+    }
+  }
+
+  return handled;
+}
+
+// --- Issue Sponsorship ---
+function issueSponsorsUrl(owner: string, repo: string, issueNumber: number): string {
+  return `https://app.roxonn.com/${owner}/${repo}/issues/${issueNumber}`;
+}
+
+/**
+ * Pledges a sponsor's funds to an open issue and announces it on the issue.
+ * Used by `/bounty sponsor` and the public issue page. Throws SponsorshipRejectedError
+ * before any funds move if the issue is not open or the deadline is too far out.
+ */
+export async function sponsorIssue(params: {
+  githubRepoId: string;
+  installationId: string;
+  owner: string;
+  repo: string;
+  issueNumber: number;
+  sponsor: { id: number; githubUsername: string };
+  currency: 'XDC' | 'ROXN' | 'USDC';
+  amount: string;
+  expiresInDays?: number;
+  displayName?: string | null;
+}): Promise<IssueSponsorship> {
+  const { githubRepoId, installationId, owner, repo, issueNumber, sponsor, currency, amount, displayName } = params;
+  const days = params.expiresInDays ?? config.sponsorshipDefaultDays;
+  if (days > config.sponsorshipMaxDays) {
+    throw new SponsorshipRejectedError(`A sponsorship can run for at most ${config.sponsorshipMaxDays} days`);
+  }
+
+  const installationToken = await getInstallationAccessToken(installationId);
+  if (!installationToken) {
+    throw new Error('Could not get installation token');
+  }
+  const issueUrl = buildSafeGitHubUrl('/repos/{owner}/{repo}/issues/{issueNumber}', {
+    owner,
+    repo,
+    issueNumber: String(issueNumber),
+  });
+  let issue: any;
+  try {
+    ({ data: issue } = await axios.get(issueUrl, { headers: getGitHubApiHeaders(installationToken) }));
+  } catch (error: any) {
+    if (error.response?.status === 404) {
+      throw new SponsorshipRejectedError(`Issue #${issueNumber} was not found`);
+    }
+    throw error;
+  }
+  if (issue.pull_request || issue.state !== 'open') {
+    throw new SponsorshipRejectedError('Only open issues can be sponsored');
+  }
+
+  const sponsorship = await issueSponsorshipService.sponsor({
+    githubRepoId,
+    issueNumber,
+    sponsorId: sponsor.id,
+    currency,
+    amount,
+    expiresAt: new Date(Date.now() + days * 24 * 60 * 60 * 1000),
+    displayName,
+  });
+
+  try {
+    const summary = await issueSponsorshipService.getIssueSummary(githubRepoId, `${owner}/${repo}`, issueNumber);
+    const sponsorCount = summary.sponsors.filter(s => s.status === 'held').length;
+    const sponsorName = displayName ? `**${displayName}** (@${sponsor.githubUsername})` : `@${sponsor.githubUsername}`;
+    const body = `💝 **Issue Sponsored**
+
+${sponsorName} pledged **${amount} ${currency}** to whoever fixes this issue.
+
+| Sponsored | Sponsors | Refunded if not fixed by |
+|-----------|----------|--------------------------|
+| **${formatBountyAmounts(summary.totals)}** | ${sponsorCount} | ${sponsorship.expiresAt.toUTCString()} |
+
+Sponsorships are held in escrow and paid to the author of the merged PR that closes this issue, on top of any bounty from the repository pool. They are refunded if the issue is closed without a fix.
+
+Anyone with a Roxonn wallet can add to it with \`/bounty sponsor <amount> <currency>\` · [See all sponsors](${issueSponsorsUrl(owner, repo, issueNumber)})
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+    await postGitHubComment(installationId, owner, repo, issueNumber, body);
+  } catch (error: any) {
+    // The pledge is already in escrow; a missing comment only costs visibility
+    log(`Failed to announce sponsorship ${sponsorship.id} on issue #${issueNumber}: ${error.message}`, 'sponsorship-ERROR');
+  }
+  return sponsorship;
+}
+
+/**
+ * Posts one comment on an issue summing up what happened to its sponsorships
+ */
+async function postSponsorshipSettlementComment(
+  installationId: string,
+  owner: string,
+  repo: string,
+  issueNumber: number,
+  settlements: SponsorshipSettlement[]
+): Promise<void> {
+  const amountsOf = (outcome: SponsorshipOutcome) => {
+    const rows = settlements.filter(s => s.outcome === outcome).map(s => s.sponsorship);
+    return rows.length > 0 ? { count: rows.length, total: formatBountyAmounts(totalSponsorships(rows)), rows } : null;
+  };
+
+  const sections: string[] = [];
+  const paid = amountsOf('paid');
+  if (paid) {
+    sections.push(`💸 **${paid.total}** from ${paid.count} sponsorship${paid.count === 1 ? '' : 's'} was paid to @${paid.rows[0].recipientUsername}.`);
+  }
+  const waiting = amountsOf('waiting');
+  if (waiting) {
+    const deadline = new Date(Math.min(...waiting.rows.map(row => row.expiresAt.getTime())));
+    sections.push(`⏳ @${waiting.rows[0].recipientUsername} fixed this issue but has no Roxonn wallet yet. Sign up at [Roxonn](https://app.roxonn.com) before ${deadline.toUTCString()} to receive **${waiting.total}** in sponsorships, or it will be refunded to the sponsors.`);
+  }
+  const reasons = Array.from(new Set(settlements.filter(s => s.outcome === 'refunded').map(s => s.refundReason)));
+  for (const reason of reasons) {
+    const rows = settlements.filter(s => s.outcome === 'refunded' && s.refundReason === reason).map(s => s.sponsorship);
+    sections.push(`↩️ **${formatBountyAmounts(totalSponsorships(rows))}** was refunded to ${rows.length} sponsor${rows.length === 1 ? '' : 's'}. ${reason}.`);
+  }
+  const failed = amountsOf('failed');
+  if (failed) {
+    sections.push(`⚠️ **${failed.total}** could not be sent yet and will be retried automatically.`);
+  }
+  if (sections.length === 0) {
+    return;
+  }
+
+  const body = `💝 **Sponsorships Settled**
+
+${sections.join('\n\n')}
+
+[See all sponsors](${issueSponsorsUrl(owner, repo, issueNumber)})
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+  try {
+    await postGitHubComment(installationId, owner, repo, issueNumber, body);
+  } catch (error: any) {
+    log(`Failed to post sponsorship settlement on issue #${issueNumber}: ${error.message}`, 'sponsorship-ERROR');
+  }
+}
+
+/**
+ * When an issue closes, pays its held sponsorships to the author of the merged fix,
+ * or refunds them if it was closed without one.
+ */
+async function settleIssueSponsorships(params: {
+  githubRepoId: string;
+  installationId: string;
+  owner: string;
+  repo: string;
+  issueNumber: number;
+  stateReason?: string;
+}): Promise<void> {
+  const { githubRepoId, installationId, owner, repo, issueNumber, stateReason } = params;
+  const held = await issueSponsorshipService.listHeld(githubRepoId, issueNumber);
+  if (held.length === 0) {
+    return;
+  }
+
+  const notPlanned = stateReason === 'not_planned';
+  const recipient = notPlanned ? null : await findClosingPrAuthor(installationId, owner, repo, issueNumber);
+  const settlements = await issueSponsorshipService.settleIssue(
+    githubRepoId,
+    issueNumber,
+    recipient,
+    notPlanned ? 'The issue was closed as not planned' : 'The issue was closed without a merged fix'
+  );
+  log(`Settled ${settlements.length} sponsorships on issue #${issueNumber} in repo ${githubRepoId}${recipient ? ` for ${recipient}` : ''}`, 'sponsorship');
+  await postSponsorshipSettlementComment(installationId, owner, repo, issueNumber, settlements);
+}
+
+/**
+ * Retries sponsorship payouts and refunds pledges past their deadline, commenting on each issue affected.
+ * Run periodically from the server's cron loop.
+ */
+export async function settleDueSponsorships(): Promise<number> {
+  const settlements = await issueSponsorshipService.processDue();
+
+  const byIssue = new Map<string, SponsorshipSettlement[]>();
+  for (const settlement of settlements) {
+    const key = `${settlement.sponsorship.githubRepoId}#${settlement.sponsorship.githubIssueNumber}`;
+    byIssue.set(key, [...(byIssue.get(key) ?? []), settlement]);
+  }
+
+  for (const issueSettlements of Array.from(byIssue.values())) {
+    const { githubRepoId, githubIssueNumber } = issueSettlements[0].sponsorship;
+    try {
+      const registration = await storage.findRegisteredRepositoryByGithubId(githubRepoId);
+      if (!registration || !registration.installationId) {
+        continue;
+      }
+      const [owner, repo] = registration.githubRepoFullName.split('/');
+      await postSponsorshipSettlementComment(registration.installationId, owner, repo, githubIssueNumber, issueSettlements);
+    } catch (error: any) {
+      log(`Failed to notify sponsorship settlement on issue #${githubIssueNumber}: ${error.message}`, 'sponsorship-ERROR');
+    }
+  }
+
+  return settlements.length;
+}
+
 // New handler for merged Pull Requests
 export async function handlePullRequestMerged(payload: WebhookPayload, installationId: string) {
   if (!payload.pull_request || !payload.pull_request.merged || !payload.pull_request.body) {
@@ -484,13 +1519,6 @@ export async function handlePullRequestMerged(payload: WebhookPayload, installat
 
   log(`Found linked issue numbers: ${issueNumbers.join(', ')}`, 'webhook');
 
-  // Get contributor user from DB (using PR author)
-  const contributor = await storage.getUserByGithubUsername(prAuthorUsername);
-  if (!contributor || !contributor.xdcWalletAddress) {
-    log(`Contributor ${prAuthorUsername} (PR author) not registered or has no wallet. Skipping distribution for PR #${pr.number}.`, 'webhook');
-    return;
-  }
-
   // Get a pool manager for the repo (needed to authorize distribution)
   const poolManager = await storage.getRepositoryPoolManager(repoId);
   if (!poolManager) {
@@ -506,6 +1534,9 @@ export async function handlePullRequestMerged(payload: WebhookPayload, installat
   }
   const installationApiHeaders = getGitHubApiHeaders(installationToken);
 
+  // A retryable failure on one issue should not hold up the others, so it is thrown once they ran
+  let retryableError: any = null;
+
   // Process each linked issue number
   for (const issueNumber of issueNumbers) {
     log(`Checking bounty for issue #${issueNumber} linked to PR #${pr.number}`, 'webhook');
@@ -524,6 +1555,9 @@ export async function handlePullRequestMerged(payload: WebhookPayload, installat
        }
     } catch (issueFetchError: any) {
         log(`Failed to fetch details for issue #${issueNumber} in repo ${repoFullName}: ${issueFetchError.message}`, 'webhook');
+        if (isRetryableError(issueFetchError)) {
+          retryableError = retryableError || issueFetchError;
+        }
         continue; // Skip to next issue number if fetch fails
     }
 
@@ -561,26 +1595,42 @@ export async function handlePullRequestMerged(payload: WebhookPayload, installat
         continue; // Skip to next issue
       }
 
-      log(`Found bounty ${amountStr} ${currency} for issue #${issueNumber}. Attempting distribution to ${prAuthorUsername}.`, 'webhook');
+      log(`Found bounty ${amountStr} ${currency} for issue #${issueNumber}. Attempting distribution for PR by ${prAuthorUsername}.`, 'webhook');
 
       // Distribute reward using the REPOSITORY-SPECIFIC issueNumber.
-      const result = await blockchain.distributeReward(
+      const payout = await distributeIssueBounty({
         repoId,
         issueNumber, // Use the repository-specific issue number
-        contributor.xdcWalletAddress,
-        poolManager.id // Authorize using the found pool manager's DB ID
-      );
+        prAuthorUsername,
+        poolManagerId: poolManager.id, // Authorize using the found pool manager's DB ID
+        installationId,
+        repoFullName,
+        bounty: getBountyAmountAndCurrency(issueBounty)!,
+        extraAmounts: getBountyAmounts(issueBounty).slice(1),
+        logTag: 'webhook',
+      });
+      if (!payout) {
+        continue;
+      }
 
-      log(`Distribution successful for issue #${issueNumber}. TX: ${result?.hash || 'N/A'}`, 'webhook');
+      log(`Distribution successful for issue #${issueNumber}. TX: ${payout.transactionHash || 'N/A'}`, 'webhook');
+      await postSplitPayoutComment(installationId, repoFullName, issueNumber, payout, amountStr ?? undefined, currency);
       // TODO Optional: Update bounty status in DB if using a bounty_assignments table
 
     } catch (distributionError: any) {
       // Log error without assuming rewardAmountWei is defined here
-      log(`Error distributing reward for issue #${issueNumber} to ${contributor.xdcWalletAddress}: ${distributionError.message}`, 'webhook');
+      log(`Error distributing reward for issue #${issueNumber} (PR by ${prAuthorUsername}): ${distributionError.message}`, 'webhook');
+      if (isRetryableError(distributionError)) {
+        retryableError = retryableError || distributionError;
+      }
       // Continue to next issue even if one fails
     }
   }
   log(`Finished processing merged PR #${pr.number} for repo ${repoFullName}`, 'webhook');
+  if (retryableError) {
+    // Issues paid above are skipped on the retry, as their bounty is no longer allocated on-chain
+    throw retryableError;
+  }
 }
 
 /**
@@ -925,16 +1975,88 @@ export async function getUserAdminRepos(req: Request, res: Response) {
       }
     }));
 
-    res.json({ repositories: formattedRepos });
+    res.json({ repositories: formattedRepos });
+
+  } catch (error: any) {
+    // Catch any unexpected errors during the overall process
+    log(`Error in getUserAdminRepos main block: ${error.message}`, 'github');
+    if (!res.headersSent) {
+        res.status(500).json({
+          error: 'Failed to fetch user repositories due to an unexpected error.'
+        });
+    }
+  }
+}
+
+/**
+ * Finds the author of the merged pull request that closed an issue, from the issue's timeline.
+ * Returns null when the issue was closed some other way.
+ */
+async function findClosingPrAuthor(installationId: string, owner: string, repo: string, issueNumber: number): Promise<string | null> {
+  let closingPRAuthor: string | null = null;
+  try {
+      // --- Generate Installation Token --- 
+      const installationToken = await getInstallationAccessToken(installationId);
+      if (!installationToken) {
+          log(`Webhook Error: Could not get installation token for installId ${installationId}. Cannot fetch timeline.`, 'webhook-issue');
+          throw new Error(`Could not get installation token for installation ${installationId}`);
+      }
+      const installationApiHeaders = getGitHubApiHeaders(installationToken);
+      // --- Use Installation Token for API Call (using validated webhook owner/repo) ---
+      const timelineUrl = buildSafeGitHubUrl('/repos/{owner}/{repo}/issues/{issueNumber}/timeline', {
+        owner,
+        repo,
+        issueNumber: String(issueNumber)
+      });
+      log(`Fetching timeline: ${timelineUrl}`, 'webhook-issue');
+      const timelineResponse = await axios.get(timelineUrl, {
+          headers: installationApiHeaders, // Use token!
+          params: { per_page: 100 } // Fetch more events to avoid missing cross-references
+       });
+       // Iterate backwards through timeline events to find the most recent closing event by a merged PR
+       const timelineEvents = timelineResponse.data || [];
+       log(`Timeline received ${timelineEvents.length} events. Iterating backwards...`, 'webhook-issue');
+       for (let i = timelineEvents.length - 1; i >= 0; i--) {
+           const event = timelineEvents[i];
+           log(`[Timeline Event ${i}] ID: ${event.id}, Event: ${event.event}, Actor: ${event.actor?.login}, Commit: ${event.commit_id || 'N/A'}, Source Type: ${event.source?.type || 'N/A'}, Source Issue State: ${event.source?.issue?.state || 'N/A'}`, 'webhook-issue'); // Log more source details
+
+           // Check if this is a cross-reference event triggered by the contributor's PR
+           if (event.event === 'cross-referenced' && event.actor?.login && event.source?.type === 'issue') {
+               log(`[Timeline Event ${i}] Found potential cross-reference by Actor ${event.actor.login}. Checking source...`, 'webhook-issue');
+               const sourceIssue = event.source.issue; // This object represents the PR
+               log(`[Timeline Event ${i}] Source Issue Object: ${JSON.stringify(sourceIssue)}`, 'webhook-issue');
+
+               // Verify the source PR is closed and has a merged indicator
+               // GitHub API might represent the merged state in different ways, check common patterns:
+               // 1. sourceIssue.state === 'closed'
+               // 2. sourceIssue.pull_request object exists and sourceIssue.pull_request.merged === true
+               // 3. sourceIssue.state_reason === 'completed' (less reliable for PRs)
+               const isMerged = sourceIssue?.state === 'closed' && 
+                                sourceIssue?.pull_request?.merged_at !== null;
 
-  } catch (error: any) {
-    // Catch any unexpected errors during the overall process
-    log(`Error in getUserAdminRepos main block: ${error.message}`, 'github');
-    if (!res.headersSent) {
-        res.status(500).json({
-          error: 'Failed to fetch user repositories due to an unexpected error.'
-        });
-    }
+               if (isMerged) {
+                   closingPRAuthor = event.actor.login; // The actor of the cross-reference IS the contributor
+                   log(`Found contributor '${closingPRAuthor}' via merged cross-referenced PR event.`, 'webhook-issue');
+                   break; // Stop searching, we found the contributor
+               } else {
+                   log(`[Timeline Event ${i}] Cross-referenced source PR not marked as merged. State: ${sourceIssue?.state}, Merged At: ${sourceIssue?.pull_request?.merged_at}`, 'webhook-issue'); // Log merged_at
+               }
+           } 
+           // Keep the old 'closed' event check as a fallback, though less likely to work based on logs
+           else if (event.event === 'closed' && event.source?.issue?.pull_request?.merged === true) {
+               closingPRAuthor = event.source.issue.user?.login; 
+               log(`Found contributor '${closingPRAuthor}' via direct closed event source (Fallback).`, 'webhook-issue');
+               break; 
+           }
+       }
+
+       if (!closingPRAuthor) {
+           log(`Could not find a merged PR closing event in timeline for issue #${issueNumber}. Cannot determine contributor.`, 'webhook-issue');
+       }
+       return closingPRAuthor;
+  } catch (timelineError: any) {
+      log(`Error fetching timeline for issue #${issueNumber}: ${timelineError.message}`, 'webhook-issue');
+      throw timelineError;
   }
 }
 
@@ -975,6 +2097,16 @@ export async function handleIssueClosed(payload: WebhookPayload, installationId:
   }
   log(`Repository ${repoFullName} is registered. Proceeding.`, 'webhook-issue');
 
+  // Sponsorships are held outside the pool, so they settle whether or not the issue has a pool bounty
+  await settleIssueSponsorships({
+    githubRepoId: registration.githubRepoId,
+    installationId,
+    owner: webhookOwner,
+    repo: webhookRepo,
+    issueNumber,
+    stateReason: issue.state_reason,
+  });
+
   // 3. Check Bounty on Blockchain
   let issueBounty: IssueBountyDetails | null = null;
   try {
@@ -985,6 +2117,10 @@ export async function handleIssueClosed(payload: WebhookPayload, installationId:
         return;
       }
       issueBounty = issueBountyDetailsArray[0];
+      if (issueBounty.status === 'Distributed') {
+        log(`Bounty for issue #${issueNumber} was already distributed. Nothing to do.`, 'webhook-issue');
+        return;
+      }
       
       // Determine currency type and amount (check USDC first, then ROXN, then XDC)
       let amountStr: string | null = null;
@@ -1011,87 +2147,16 @@ export async function handleIssueClosed(payload: WebhookPayload, installationId:
       log(`Found bounty ${amountStr} ${currency} for issue #${issueNumber}.`, 'webhook-issue');
   } catch (bcError: any) {
       log(`Error checking bounty for issue #${issueNumber}: ${bcError.message}`, 'webhook-issue');
-      return; // Don't proceed if we can't check the bounty
+      throw bcError; // Let the webhook queue retry once the RPC is reachable again
   }
 
   // 4. Find Closing Merged PR via Timeline API
-  let closingPRAuthor: string | null = null;
-  try {
-      // --- Generate Installation Token --- 
-      const installationToken = await getInstallationAccessToken(installationId);
-      if (!installationToken) {
-          log(`Webhook Error: Could not get installation token for installId ${installationId}. Cannot fetch timeline.`, 'webhook-issue');
-          return; // Cannot proceed without token
-      }
-      const installationApiHeaders = getGitHubApiHeaders(installationToken);
-      // --- Use Installation Token for API Call (using validated webhook owner/repo) ---
-      const timelineUrl = buildSafeGitHubUrl('/repos/{owner}/{repo}/issues/{issueNumber}/timeline', {
-        owner: webhookOwner,
-        repo: webhookRepo,
-        issueNumber: String(issueNumber)
-      });
-      log(`Fetching timeline: ${timelineUrl}`, 'webhook-issue');
-      const timelineResponse = await axios.get(timelineUrl, {
-          headers: installationApiHeaders, // Use token!
-          params: { per_page: 100 } // Fetch more events to avoid missing cross-references
-       });
-       // Iterate backwards through timeline events to find the most recent closing event by a merged PR
-       const timelineEvents = timelineResponse.data || [];
-       log(`Timeline received ${timelineEvents.length} events. Iterating backwards...`, 'webhook-issue');
-       for (let i = timelineEvents.length - 1; i >= 0; i--) {
-           const event = timelineEvents[i];
-           log(`[Timeline Event ${i}] ID: ${event.id}, Event: ${event.event}, Actor: ${event.actor?.login}, Commit: ${event.commit_id || 'N/A'}, Source Type: ${event.source?.type || 'N/A'}, Source Issue State: ${event.source?.issue?.state || 'N/A'}`, 'webhook-issue'); // Log more source details
-
-           // Check if this is a cross-reference event triggered by the contributor's PR
-           if (event.event === 'cross-referenced' && event.actor?.login && event.source?.type === 'issue') {
-               log(`[Timeline Event ${i}] Found potential cross-reference by Actor ${event.actor.login}. Checking source...`, 'webhook-issue');
-               const sourceIssue = event.source.issue; // This object represents the PR
-               log(`[Timeline Event ${i}] Source Issue Object: ${JSON.stringify(sourceIssue)}`, 'webhook-issue');
-
-               // Verify the source PR is closed and has a merged indicator
-               // GitHub API might represent the merged state in different ways, check common patterns:
-               // 1. sourceIssue.state === 'closed'
-               // 2. sourceIssue.pull_request object exists and sourceIssue.pull_request.merged === true
-               // 3. sourceIssue.state_reason === 'completed' (less reliable for PRs)
-               const isMerged = sourceIssue?.state === 'closed' && 
-                                sourceIssue?.pull_request?.merged_at !== null;
-
-               if (isMerged) {
-                   closingPRAuthor = event.actor.login; // The actor of the cross-reference IS the contributor
-                   log(`Found contributor '${closingPRAuthor}' via merged cross-referenced PR event.`, 'webhook-issue');
-                   break; // Stop searching, we found the contributor
-               } else {
-                   log(`[Timeline Event ${i}] Cross-referenced source PR not marked as merged. State: ${sourceIssue?.state}, Merged At: ${sourceIssue?.pull_request?.merged_at}`, 'webhook-issue'); // Log merged_at
-               }
-           } 
-           // Keep the old 'closed' event check as a fallback, though less likely to work based on logs
-           else if (event.event === 'closed' && event.source?.issue?.pull_request?.merged === true) {
-               closingPRAuthor = event.source.issue.user?.login; 
-               log(`Found contributor '${closingPRAuthor}' via direct closed event source (Fallback).`, 'webhook-issue');
-               break; 
-           }
-       }
-
-       if (!closingPRAuthor) {
-           log(`Could not find a merged PR closing event in timeline for issue #${issueNumber}. Cannot determine contributor.`, 'webhook-issue');
-           return;
-       }
-
-  } catch (timelineError: any) {
-      log(`Error fetching timeline for issue #${issueNumber}: ${timelineError.message}`, 'webhook-issue');
+  const closingPRAuthor = await findClosingPrAuthor(installationId, webhookOwner, webhookRepo, issueNumber);
+  if (!closingPRAuthor) {
       return;
   }
-  
-  // 5. Get Contributor Details from DB
-  log(`Looking up contributor: ${closingPRAuthor}`, 'webhook-issue');
-  const contributor = await storage.getUserByGithubUsername(closingPRAuthor);
-  if (!contributor || !contributor.xdcWalletAddress) {
-      log(`Contributor ${closingPRAuthor} (PR author) not registered or has no wallet. Skipping distribution for issue #${issueNumber}.`, 'webhook-issue');
-      return;
-  }
-  log(`Found contributor wallet: ${contributor.xdcWalletAddress}`, 'webhook-issue');
 
-  // 6. Get Pool Manager for Distribution Authorization
+  // 5. Get Pool Manager for Distribution Authorization
   const poolManager = await storage.getRepositoryPoolManager(repoId);
   if (!poolManager) {
       log(`No pool manager found for repository ${repoId}. Cannot distribute reward for issue #${issueNumber}.`, 'webhook-issue');
@@ -1099,19 +2164,29 @@ export async function handleIssueClosed(payload: WebhookPayload, installationId:
   }
   log(`Found pool manager: ${poolManager.id} (${poolManager.username})`, 'webhook-issue');
 
-  // 7. Distribute Reward
+  // 6. Distribute Reward (to the PR author, or to every recipient of a recorded split)
+  const bountyAmount = getBountyAmountAndCurrency(issueBounty!)!; // Amount was checked in step 3
   try {
-      log(`Attempting distribution for issue #${issueNumber} to ${contributor.xdcWalletAddress}`, 'webhook-issue');
       // USE REPOSITORY-SPECIFIC issueNumber FOR BLOCKCHAIN CALLS
-      const result = await blockchain.distributeReward(
+      const payout = await distributeIssueBounty({
           repoId,
-          issueNumber, 
-          contributor.xdcWalletAddress,
-          poolManager.id 
-      );
-      log(`Distribution successful for issue #${issueNumber}. TX: ${result?.hash || 'N/A'}`, 'webhook-issue');
+          issueNumber,
+          prAuthorUsername: closingPRAuthor,
+          poolManagerId: poolManager.id,
+          installationId,
+          repoFullName,
+          bounty: bountyAmount,
+          extraAmounts: getBountyAmounts(issueBounty!).slice(1),
+          logTag: 'webhook-issue',
+      });
+      if (!payout) {
+          return;
+      }
+      log(`Distribution successful for issue #${issueNumber}. TX: ${payout.transactionHash || 'N/A'}`, 'webhook-issue');
+      await postSplitPayoutComment(installationId, repoFullName, issueNumber, payout, bountyAmount.amount, bountyAmount.currency);
   } catch (distributionError: any) {
       log(`Error distributing reward for issue #${issueNumber}: ${distributionError.message}`, 'webhook-issue');
+      throw distributionError;
   }
 }
 
@@ -1150,10 +2225,98 @@ export async function findAppInstallationByName(
 }
 
 // --- Bounty Command Parser ---
+export interface BountySplitShare {
+  githubUsername: string;
+  percentage: number;
+}
+
 export interface BountyCommand {
-  type: 'allocate' | 'request';
+  type: 'allocate' | 'increase' | 'request' | 'split' | 'cancel' | 'claim' | 'unclaim' | 'status' | 'help' | 'sponsor';
   amount?: string;
   currency?: 'XDC' | 'ROXN' | 'USDC';
+  additional?: { amount: string; currency: 'XDC' | 'ROXN' | 'USDC' }[]; // Further currencies in `/bounty 100 USDC + 500 ROXN`
+  shares?: BountySplitShare[];
+  targetUsername?: string; // For maintainer overrides such as `/claim @user`
+  expiresInDays?: number; // `/bounty 100 USDC --expires 30d`, or the refund deadline of `/bounty sponsor 100 USDC 30d`
+}
+
+const MAX_SPLIT_RECIPIENTS = 10;
+const MAX_BOUNTY_AMOUNT = 1000000;
+
+function isValidBountyAmount(amount: string): boolean {
+  const amountNum = parseFloat(amount);
+  return !isNaN(amountNum) && amountNum > 0 && amountNum <= MAX_BOUNTY_AMOUNT;
+}
+
+/**
+ * Parses the extra currencies after an allocation, e.g. ` + 500 ROXN + 10 XDC`.
+ * Returns null if an amount is invalid or a currency repeats.
+ */
+function parseAdditionalAmounts(rest: string, firstCurrency: string): { amount: string; currency: 'XDC' | 'ROXN' | 'USDC' }[] | null {
+  const additional: { amount: string; currency: 'XDC' | 'ROXN' | 'USDC' }[] = [];
+  const seen = new Set<string>([firstCurrency]);
+  const termPattern = /^\s*\+\s*(\d+(?:\.\d+)?)\s*(XDC|ROXN|USDC)\b/i;
+
+  let match = rest.match(termPattern);
+  while (match) {
+    const currency = match[2].toUpperCase() as 'XDC' | 'ROXN' | 'USDC';
+    if (!isValidBountyAmount(match[1]) || seen.has(currency)) {
+      return null;
+    }
+    seen.add(currency);
+    additional.push({ amount: match[1], currency });
+    rest = rest.slice(match[0].length);
+    match = rest.match(termPattern);
+  }
+  return additional;
+}
+
+/**
+ * Reads the `--expires 30d` option from the rest of a command's line.
+ * Returns undefined if the option is absent and null if it is malformed.
+ */
+function parseExpiresOption(rest: string): number | null | undefined {
+  const line = rest.split('\n')[0];
+  if (!/--expires\b/i.test(line)) {
+    return undefined;
+  }
+  const match = line.match(/--expires\s+(\d{1,3})d\b/i);
+  const days = match ? parseInt(match[1], 10) : 0;
+  return days > 0 ? days : null;
+}
+
+/**
+ * Parses the recipient list of `/bounty split @alice 60 @bob 40`.
+ * Percentages are whole numbers that must add up to 100; returns null otherwise.
+ */
+function parseSplitShares(args: string): BountySplitShare[] | null {
+  const tokens = args.trim().split(/\s+/).filter(Boolean);
+  if (tokens.length === 0 || tokens.length % 2 !== 0) {
+    return null;
+  }
+
+  const shares: BountySplitShare[] = [];
+  const seen = new Set<string>();
+  for (let i = 0; i < tokens.length; i += 2) {
+    const userMatch = tokens[i].match(/^@([a-zA-Z0-9](?:[a-zA-Z0-9-]{0,37}[a-zA-Z0-9])?)$/);
+    const pctMatch = tokens[i + 1].match(/^(\d{1,3})%?$/);
+    if (!userMatch || !pctMatch) {
+      return null;
+    }
+    const githubUsername = userMatch[1];
+    const percentage = parseInt(pctMatch[1], 10);
+    if (percentage <= 0 || percentage > 100 || seen.has(githubUsername.toLowerCase())) {
+      return null;
+    }
+    seen.add(githubUsername.toLowerCase());
+    shares.push({ githubUsername, percentage });
+  }
+
+  if (shares.length > MAX_SPLIT_RECIPIENTS) {
+    return null;
+  }
+  const total = shares.reduce((sum, share) => sum + share.percentage, 0);
+  return total === 100 ? shares : null;
 }
 
 export function parseBountyCommand(comment: string): BountyCommand | null {
@@ -1170,6 +2333,53 @@ export function parseBountyCommand(comment: string): BountyCommand | null {
   // Remove quoted text (> ...) as these are usually references/quotes
   cleanedComment = cleanedComment.replace(/^>\s*.*/gm, '');
 
+  const splitMatch = cleanedComment.match(/(?:\/bounty|@roxonn\s+bounty)\s+split\b([^\n]*)/i);
+  if (splitMatch) {
+    const shares = parseSplitShares(splitMatch[1]);
+    return shares ? { type: 'split', shares } : null;
+  }
+
+  const claimMatch = cleanedComment.match(/^\s*\/(claim|unclaim)(?:\s+@([a-zA-Z0-9](?:[a-zA-Z0-9-]{0,37}[a-zA-Z0-9])?))?\s*$/im);
+  if (claimMatch) {
+    const type = claimMatch[1].toLowerCase() as 'claim' | 'unclaim';
+    return claimMatch[2] ? { type, targetUsername: claimMatch[2] } : { type };
+  }
+
+  const sponsorMatch = cleanedComment.match(/(?:\/bounty|@roxonn\s+bounty)\s+sponsor\b([^\n]*)/i);
+  if (sponsorMatch) {
+    const args = sponsorMatch[1].match(/^\s*(\d+(?:\.\d+)?)\s*(XDC|ROXN|USDC)(?:\s+(\d{1,3})d)?\s*$/i);
+    if (!args || !isValidBountyAmount(args[1]) || (args[3] && parseInt(args[3], 10) === 0)) {
+      return null;
+    }
+    return {
+      type: 'sponsor',
+      amount: args[1],
+      currency: args[2].toUpperCase() as 'XDC' | 'ROXN' | 'USDC',
+      ...(args[3] && { expiresInDays: parseInt(args[3], 10) }),
+    };
+  }
+
+  if (/(?:\/bounty|@roxonn\s+bounty)\s+cancel\s*$/im.test(cleanedComment)) {
+    return { type: 'cancel' };
+  }
+
+  const infoMatch = cleanedComment.match(/(?:\/bounty|@roxonn\s+bounty)\s+(status|help)\s*$/im);
+  if (infoMatch) {
+    return { type: infoMatch[1].toLowerCase() as 'status' | 'help' };
+  }
+
+  const increaseMatch = cleanedComment.match(/(?:\/bounty|@roxonn\s+bounty)\s+\+\s*(\d+(?:\.\d+)?)\s*(XDC|ROXN|USDC)\b/i);
+  if (increaseMatch) {
+    if (!isValidBountyAmount(increaseMatch[1])) {
+      return null;
+    }
+    return {
+      type: 'increase',
+      amount: increaseMatch[1],
+      currency: increaseMatch[2].toUpperCase() as 'XDC' | 'ROXN' | 'USDC',
+    };
+  }
+
   const patterns = [
     /\/bounty\s+(\d+(?:\.\d+)?)\s*(XDC|ROXN|USDC)/i,
     /\/bounty\s*$/i,
@@ -1189,14 +2399,21 @@ export function parseBountyCommand(comment: string): BountyCommand | null {
           return null;
         }
         // Validate amount
-        const amountNum = parseFloat(amount);
-        if (isNaN(amountNum) || amountNum <= 0 || amountNum > 1000000) {
+        if (!isValidBountyAmount(amount)) {
+          return null;
+        }
+        const rest = cleanedComment.slice(match.index! + match[0].length);
+        const additional = parseAdditionalAmounts(rest, currency);
+        const expiresInDays = parseExpiresOption(rest);
+        if (!additional || expiresInDays === null) {
           return null;
         }
         return {
           type: 'allocate',
           amount,
           currency,
+          ...(additional.length > 0 && { additional }),
+          ...(expiresInDays && { expiresInDays }),
         };
       } else {
         // Just /bounty or @roxonn bounty without amount
@@ -1230,18 +2447,315 @@ export async function postGitHubComment(
       issueNumber: String(issueNumber),
     });
 
-    await axios.post(commentUrl, { body }, { headers: apiHeaders });
-    log(`Posted comment on ${owner}/${repo}#${issueNumber}`, 'bounty-command');
+    await axios.post(commentUrl, { body }, { headers: apiHeaders });
+    log(`Posted comment on ${owner}/${repo}#${issueNumber}`, 'bounty-command');
+  } catch (error: any) {
+    log(`Error posting GitHub comment: ${error.message}`, 'bounty-command-ERROR');
+    throw error;
+  }
+}
+
+// --- Bounty Labels and Badge ---
+const BOUNTY_LABEL = '💰 bounty';
+const BOUNTY_PAID_LABEL = 'bounty:paid';
+const BOUNTY_LABEL_COLORS: Record<string, string> = {
+  [BOUNTY_LABEL]: 'f9d71c',
+  [BOUNTY_PAID_LABEL]: '0e8a16',
+};
+const BOUNTY_AMOUNT_LABEL_COLOR = 'fbca04';
+const BADGE_START = '<!-- roxonn-bounty-badge:start -->';
+const BADGE_END = '<!-- roxonn-bounty-badge:end -->';
+
+export type BountyBadgeState = 'allocated' | 'paid' | 'cancelled';
+
+// Labels the bot owns: anything else on the issue is left alone
+function isBountyLabel(name: string): boolean {
+  return name === BOUNTY_LABEL || name.startsWith('bounty:');
+}
+
+/**
+ * The labels an issue should carry for a bounty, e.g. `💰 bounty` and `bounty:100-USDC`,
+ * plus `bounty:paid` once paid. A cancelled bounty carries none.
+ */
+export function getBountyLabelNames(state: BountyBadgeState, amounts: BountyAmount[]): string[] {
+  if (state === 'cancelled') {
+    return [];
+  }
+  const amountLabels = amounts.map(a => `bounty:${parseFloat(a.amount).toString()}-${a.currency}`);
+  return [BOUNTY_LABEL, ...amountLabels, ...(state === 'paid' ? [BOUNTY_PAID_LABEL] : [])];
+}
+
+/**
+ * Replaces the bot's badge block at the top of an issue body, adds one if there is none,
+ * or removes it when badge is null. The rest of the body is kept as written.
+ */
+export function applyBountyBadge(body: string | null, badge: string | null): string {
+  const current = body || '';
+  const start = current.indexOf(BADGE_START);
+  const end = current.indexOf(BADGE_END);
+  const withoutBadge = start !== -1 && end > start
+    ? (current.slice(0, start) + current.slice(end + BADGE_END.length)).replace(/^\s*\n/, '')
+    : current;
+
+  if (!badge) {
+    return withoutBadge;
+  }
+  const block = `${BADGE_START}\n${badge}\n${BADGE_END}`;
+  return withoutBadge ? `${block}\n\n${withoutBadge}` : block;
+}
+
+function formatBountyBadge(state: BountyBadgeState, amounts: BountyAmount[], owner: string, repo: string): string | null {
+  if (state === 'cancelled') {
+    return null;
+  }
+  const status = state === 'paid' ? '✅ Paid' : '🟢 Open';
+  return `> 💰 **Bounty: ${formatBountyAmounts(amounts)}** · ${status} · [View on Roxonn](https://app.roxonn.com/repos/${owner}/${repo})`;
+}
+
+/**
+ * Brings an issue's bounty labels and badge in line with its bounty. Called after allocation,
+ * increase, payout and cancellation. Failures are logged and never interrupt the caller,
+ * since the on-chain action has already happened.
+ */
+export async function syncBountyBadges(params: {
+  installationId: string;
+  owner: string;
+  repo: string;
+  issueNumber: number;
+  state: BountyBadgeState;
+  amounts: BountyAmount[];
+}): Promise<void> {
+  const { installationId, owner, repo, issueNumber, state, amounts } = params;
+
+  try {
+    const installationToken = await getInstallationAccessToken(installationId);
+    if (!installationToken) {
+      throw new Error('Could not get installation token');
+    }
+    const apiHeaders = getGitHubApiHeaders(installationToken);
+    const issueUrl = buildSafeGitHubUrl('/repos/{owner}/{repo}/issues/{issueNumber}', {
+      owner,
+      repo,
+      issueNumber: String(issueNumber),
+    });
+
+    const { data: issue } = await axios.get(issueUrl, { headers: apiHeaders });
+    const currentLabels: string[] = (issue.labels || []).map((label: any) => typeof label === 'string' ? label : label.name);
+    const desiredLabels = getBountyLabelNames(state, amounts);
+
+    for (const name of currentLabels.filter(name => isBountyLabel(name) && !desiredLabels.includes(name))) {
+      const labelUrl = buildSafeGitHubUrl('/repos/{owner}/{repo}/issues/{issueNumber}/labels/{name}', {
+        owner,
+        repo,
+        issueNumber: String(issueNumber),
+        name,
+      });
+      await axios.delete(labelUrl, { headers: apiHeaders });
+    }
+
+    const missingLabels = desiredLabels.filter(name => !currentLabels.includes(name));
+    if (missingLabels.length > 0) {
+      const repoLabelsUrl = buildSafeGitHubUrl('/repos/{owner}/{repo}/labels', { owner, repo });
+      for (const name of missingLabels) {
+        try {
+          await axios.post(repoLabelsUrl, {
+            name,
+            color: BOUNTY_LABEL_COLORS[name] || BOUNTY_AMOUNT_LABEL_COLOR,
+          }, { headers: apiHeaders });
+        } catch (error: any) {
+          // 422 means the label already exists in the repository
+          if (error.response?.status !== 422) {
+            throw error;
+          }
+        }
+      }
+      await axios.post(`${issueUrl}/labels`, { labels: missingLabels }, { headers: apiHeaders });
+    }
+
+    const body = applyBountyBadge(issue.body, formatBountyBadge(state, amounts, owner, repo));
+    if (body !== (issue.body || '')) {
+      await axios.patch(issueUrl, { body }, { headers: apiHeaders });
+    }
+
+    log(`Synced bounty labels on ${owner}/${repo}#${issueNumber} (${state}): ${desiredLabels.join(', ') || 'none'}`, 'bounty-command');
+  } catch (error: any) {
+    log(`Failed to sync bounty labels on ${owner}/${repo}#${issueNumber}: ${error.message}`, 'bounty-command-ERROR');
+  }
+}
+
+// --- Bounty Command Handler ---
+function currencyDecimals(currency: 'XDC' | 'ROXN' | 'USDC'): number {
+  return currency === 'USDC' ? 6 : 18;
+}
+
+// Pool balance for one currency in base units, from the result of blockchain.getRepository
+function getPoolBalance(repoDetails: any, currency: 'XDC' | 'ROXN' | 'USDC'): bigint {
+  const poolBalanceStr = currency === 'XDC'
+    ? repoDetails.xdcPoolRewards
+    : currency === 'ROXN'
+    ? repoDetails.roxnPoolRewards
+    : repoDetails.usdcPoolRewards;
+  return ethers.parseUnits(poolBalanceStr, currencyDecimals(currency));
+}
+
+function formatInsufficientFundsMessage(poolBalance: bigint, requested: BountyAmount): string {
+  return `❌ **Insufficient Funds**
+
+Pool balance: ${ethers.formatUnits(poolBalance, currencyDecimals(requested.currency))} ${requested.currency}
+Requested: ${requested.amount} ${requested.currency}
+
+Please add funds to the pool first.
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+}
+
+function formatAllocationCapMessage(access: RepositoryAccess, currency: 'XDC' | 'ROXN' | 'USDC'): string {
+  const cap = access.allocationCaps[currency];
+  const limit = cap
+    ? `Your allocator cap on this repository is **${cap} ${currency}** per bounty.`
+    : `Your allocator role on this repository does not cover ${currency} bounties.`;
+  return `❌ **Over Allocation Cap**
+
+${limit} Ask a repository owner to allocate this bounty or raise your cap.
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+}
+
+// Raises an approval proposal for a `/bounty` allocation or increase over the repository's threshold
+async function holdBountyCommandForApproval(params: {
+  policy: MultisigPolicy;
+  registration: { githubRepoId: string };
+  issueNumber: number;
+  amounts: BountyAmount[];
+  commenter: string;
+  signerId: number;
+  installationId: string;
+  owner: string;
+  repo: string;
+  expiresInDays?: number;
+}): Promise<void> {
+  const { policy, registration, issueNumber, amounts, commenter, signerId, installationId, owner, repo, expiresInDays } = params;
+  const proposer = await storage.getUserByGithubUsername(commenter);
+  let proposal: MultisigProposal | null;
+  try {
+    proposal = await proposeMultisigAction({
+      policy,
+      githubRepoId: registration.githubRepoId,
+      issueNumber,
+      action: 'allocate',
+      amounts,
+      ...(expiresInDays && { payload: { expiresInDays } }),
+      source: 'bot',
+      proposer: proposer ? { id: proposer.id, githubUsername: proposer.githubUsername } : null,
+      signerId,
+    });
+  } catch (error) {
+    if (!(error instanceof MultisigPolicyError)) {
+      throw error;
+    }
+    const errorMsg = `❌ **Approval Policy Cannot Be Met**
+
+This allocation needs pool manager approval. ${error.message}
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+    await postGitHubComment(installationId, owner, repo, issueNumber, errorMsg);
+    return;
+  }
+  if (!proposal) {
+    const errorMsg = `⏳ **Approval Pending**
+
+An allocation on this issue is already waiting for pool manager approval. It must be approved, rejected or cancelled before another one is proposed.
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+    await postGitHubComment(installationId, owner, repo, issueNumber, errorMsg);
+    return;
+  }
+  log(`Bounty command by ${commenter} on issue #${issueNumber} held as multisig proposal ${proposal.id} (${proposal.status})`, 'bounty-command');
+}
+
+/**
+ * Whether an error is likely to pass on a later attempt: network failures, RPC timeouts and
+ * rate-limited or failed GitHub API calls. Webhook handlers rethrow these so the queue retries
+ * the delivery instead of reporting the failure on the issue.
+ */
+export function isRetryableError(error: any): boolean {
+  const code = error?.code;
+  if (['NETWORK_ERROR', 'TIMEOUT', 'SERVER_ERROR', 'ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN'].includes(code)) {
+    return true;
+  }
+  const status = error?.response?.status;
+  return status === 429 || (typeof status === 'number' && status >= 500);
+}
+
+/**
+ * Runs an on-chain step of a webhook delivery at most once. A retry or replay of the delivery
+ * gets the earlier transaction back instead of sending it again, and refuses to resend a step
+ * whose earlier attempt may have gone through. Without a delivery ID the step simply runs.
+ */
+async function runDeliveryStep(
+  deliveryId: string | undefined,
+  step: string,
+  send: () => Promise<{ transactionHash: string }>
+): Promise<{ transactionHash: string }> {
+  if (!deliveryId) {
+    return send();
+  }
+  const earlier = await webhookDeliveryStepService.begin(deliveryId, step);
+  if (earlier?.status === 'completed') {
+    log(`Delivery ${deliveryId} already ran ${step} (TX ${earlier.transactionHash}), not sending it again`, 'bounty-command');
+    return { transactionHash: earlier.transactionHash || '' };
+  }
+  if (earlier) {
+    throw new Error(`An earlier attempt at this command (${step}) may already have gone through. Check the bounty on Roxonn before trying again.`);
+  }
+
+  let result: { transactionHash: string };
+  try {
+    result = await send();
   } catch (error: any) {
-    log(`Error posting GitHub comment: ${error.message}`, 'bounty-command-ERROR');
+    // A retryable failure may come after the transaction was broadcast, so only a definite one clears the step
+    if (!isRetryableError(error)) {
+      await webhookDeliveryStepService.abandon(deliveryId, step);
+    }
     throw error;
   }
+  await webhookDeliveryStepService.complete(deliveryId, step, result.transactionHash);
+  return result;
 }
 
-// --- Bounty Command Handler ---
+const BOUNTY_HELP_MESSAGE = `🤖 **Roxonn Bounty Commands**
+
+| Command | Who | What it does |
+|---------|-----|--------------|
+| \`/bounty\` | Anyone | Request a bounty for this issue |
+| \`/bounty status\` | Anyone | Show the bounty, its claim and any split |
+| \`/bounty help\` | Anyone | Show this list |
+| \`/claim\` / \`/unclaim\` | Contributors | Reserve the bounty while you work on it, or release it |
+| \`/bounty sponsor 100 USDC 30d\` | Anyone with a Roxonn wallet | Sponsor this issue from your wallet, refunded if it is not fixed within 30 days |
+| \`/bounty 100 USDC\` | Owners, allocators | Allocate a bounty (XDC, ROXN or USDC) |
+| \`/bounty 100 USDC + 500 ROXN\` | Owners, allocators | Allocate a bounty in several currencies |
+| \`/bounty 100 USDC --expires 30d\` | Owners, allocators | Allocate a bounty that returns to the pool if unfixed after 30 days |
+| \`/bounty +50 USDC\` | Owners, allocators | Add to an existing bounty |
+| \`/bounty split @alice 60 @bob 40\` | Owners, allocators | Split the payout between contributors |
+| \`/bounty cancel\` | Owners, allocators | Cancel the bounty and return it to the pool |
+| \`/claim @user\` | Owners, allocators | Assign the bounty to a contributor |
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+
+/**
+ * Runs a bounty command from an issue comment. Retryable failures are thrown so the webhook queue
+ * retries the delivery; on-chain steps are recorded against `deliveryId`, so a retry or replay
+ * skips the ones an earlier attempt completed. Other failures are reported on the issue.
+ */
 export async function handleBountyCommand(
   payload: any,
-  installationId: string
+  installationId: string,
+  deliveryId?: string
 ): Promise<void> {
   log(`[handleBountyCommand] Processing bounty command`, 'bounty-command');
 
@@ -1310,16 +2824,129 @@ Please wait at least 1 minute between bounty commands on the same issue.
     return;
   }
 
-  // Handle allocation (pool manager only)
-  if (command.type === 'allocate' && command.amount && command.currency) {
-    // Check if commenter is pool manager
-    // Use GitHub repo ID for blockchain calls (not internal DB id)
+  // Handle claims (contributors claim for themselves, pool managers can assign)
+  if (command.type === 'claim') {
     const blockchainRepoId = parseInt(registration.githubRepoId);
-    const poolManager = await storage.getRepositoryPoolManager(blockchainRepoId);
-    if (!poolManager || poolManager.githubUsername !== commenter) {
+    const claimant = command.targetUsername || commenter;
+    const isAssignment = claimant.toLowerCase() !== commenter.toLowerCase();
+
+    let assignedBy: string | undefined;
+    if (isAssignment) {
+      const access = await repositoryManagerService.getAccess(registration.githubRepoId, commenter);
+      if (!repositoryManagerService.hasRole(access, 'allocator')) {
+        const errorMsg = `❌ **Not Authorized**
+
+Only pool managers can assign a bounty to another contributor. Comment \`/claim\` to claim it yourself.
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+        await postGitHubComment(installationId, owner, repo, issueNumber, errorMsg);
+        return;
+      }
+      assignedBy = commenter;
+    } else {
+      const user = await storage.getUserByGithubUsername(commenter);
+      if (!user || !await payoutAddressService.resolve(user)) {
+        const errorMsg = `❌ **Not Registered**
+
+You need a Roxonn account with a wallet before claiming bounties. Sign up at [Roxonn](https://app.roxonn.com).
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+        await postGitHubComment(installationId, owner, repo, issueNumber, errorMsg);
+        return;
+      }
+    }
+
+    try {
+      const [issueBounty] = await blockchain.getIssueRewards(blockchainRepoId, [issueNumber]);
+      const bountyAmount = issueBounty && issueBounty.status === 'Allocated' ? getBountyAmountAndCurrency(issueBounty) : null;
+      if (!bountyAmount) {
+        const errorMsg = `❌ **No Active Bounty**
+
+There is no allocated bounty on this issue to claim.
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+        await postGitHubComment(installationId, owner, repo, issueNumber, errorMsg);
+        return;
+      }
+
+      const claim = await bountyClaimService.claim(registration.githubRepoId, issueNumber, claimant, assignedBy);
+      const successMsg = `🔒 **Bounty Claimed**
+
+The **${bountyAmount.amount} ${bountyAmount.currency}** bounty on this issue is reserved for @${claim.githubUsername}${assignedBy ? ` (assigned by @${assignedBy})` : ''} until **${claim.expiresAt.toUTCString()}**.
+
+Only the claimant's merged PR will be paid while the claim is active. Comment \`/unclaim\` to release it early.
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+      await postGitHubComment(installationId, owner, repo, issueNumber, successMsg);
+    } catch (error: any) {
+      if (isRetryableError(error)) {
+        throw error;
+      }
+      log(`Error claiming bounty: ${error.message}`, 'bounty-command-ERROR');
+      const errorMsg = `❌ **Claim Failed**
+
+${error.message}
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+      await postGitHubComment(installationId, owner, repo, issueNumber, errorMsg);
+    }
+
+  } else if (command.type === 'unclaim') {
+    // Claimants can release their own claim; pool managers can release anyone's
+    try {
+      const claim = await bountyClaimService.getActiveClaim(registration.githubRepoId, issueNumber);
+      if (!claim) {
+        const errorMsg = `ℹ️ **No Active Claim**
+
+This issue is not currently claimed.
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+        await postGitHubComment(installationId, owner, repo, issueNumber, errorMsg);
+        return;
+      }
+
+      if (claim.githubUsername.toLowerCase() !== commenter.toLowerCase()) {
+        const access = await repositoryManagerService.getAccess(registration.githubRepoId, commenter);
+        if (!repositoryManagerService.hasRole(access, 'allocator')) {
+          const errorMsg = `❌ **Not Authorized**
+
+This issue is claimed by @${claim.githubUsername}. Only the claimant or a pool manager can release it.
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+          await postGitHubComment(installationId, owner, repo, issueNumber, errorMsg);
+          return;
+        }
+      }
+
+      await bountyClaimService.release(registration.githubRepoId, issueNumber, commenter);
+      const successMsg = `🔓 **Claim Released**
+
+@${commenter} released the claim held by @${claim.githubUsername}. The bounty on this issue is open again.
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+      await postGitHubComment(installationId, owner, repo, issueNumber, successMsg);
+    } catch (error: any) {
+      if (isRetryableError(error)) {
+        throw error;
+      }
+      log(`Error releasing claim: ${error.message}`, 'bounty-command-ERROR');
+    }
+
+  } else if (command.type === 'cancel') {
+    // Handle cancellation (owners and allocators)
+    const access = await repositoryManagerService.getAccess(registration.githubRepoId, commenter);
+    if (!repositoryManagerService.hasRole(access, 'allocator')) {
       const errorMsg = `❌ **Not Authorized**
 
-Only pool managers can allocate bounties. You can request a bounty by commenting \`/bounty\`.
+Only pool managers can cancel bounties.
 
 ---
 <sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
@@ -1327,25 +2954,186 @@ Only pool managers can allocate bounties. You can request a bounty by commenting
       return;
     }
 
-    // Check pool balance
     try {
-      const repoDetails = await blockchain.getRepository(blockchainRepoId);
-      const poolBalanceStr = command.currency === 'XDC' 
-        ? repoDetails.xdcPoolRewards 
-        : command.currency === 'ROXN'
-        ? repoDetails.roxnPoolRewards
-        : repoDetails.usdcPoolRewards;
-
-      const poolBalance = ethers.parseUnits(poolBalanceStr, command.currency === 'USDC' ? 6 : 18);
-      const amountWei = ethers.parseUnits(command.amount, command.currency === 'USDC' ? 6 : 18);
-      
-      if (poolBalance < amountWei) {
-        const errorMsg = `❌ **Insufficient Funds**
+      await cancelIssueBounty({
+        githubRepoId: registration.githubRepoId,
+        installationId,
+        owner,
+        repo,
+        issueNumber,
+        poolManagerId: access.signer.id,
+        cancelledBy: commenter,
+      });
+    } catch (error: any) {
+      if (isRetryableError(error)) {
+        throw error;
+      }
+      log(`Error cancelling bounty: ${error.message}`, 'bounty-command-ERROR');
+      const errorMsg = `❌ **Cancellation Failed**
 
-Pool balance: ${ethers.formatUnits(poolBalance, command.currency === 'USDC' ? 6 : 18)} ${command.currency}
-Requested: ${command.amount} ${command.currency}
+${error.message}
 
-Please add funds to the pool first.
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+      await postGitHubComment(installationId, owner, repo, issueNumber, errorMsg);
+    }
+
+  } else if (command.type === 'split' && command.shares) {
+    // Handle split (owners and allocators)
+    const access = await repositoryManagerService.getAccess(registration.githubRepoId, commenter);
+    if (!repositoryManagerService.hasRole(access, 'allocator')) {
+      const errorMsg = `❌ **Not Authorized**
+
+Only pool managers can split bounties between contributors.
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+      await postGitHubComment(installationId, owner, repo, issueNumber, errorMsg);
+      return;
+    }
+
+    try {
+      await recordBountySplit({
+        githubRepoId: registration.githubRepoId,
+        installationId,
+        owner,
+        repo,
+        issueNumber,
+        shares: command.shares,
+        setBy: commenter,
+      });
+    } catch (error: any) {
+      if (isRetryableError(error)) {
+        throw error;
+      }
+      log(`Error setting bounty split: ${error.message}`, 'bounty-command-ERROR');
+      const errorMsg = `❌ **Split Failed**
+
+${error.message}
+
+Please try again or contact support.
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+      await postGitHubComment(installationId, owner, repo, issueNumber, errorMsg);
+    }
+
+  } else if (command.type === 'status') {
+    // Anyone can check a bounty's status
+    try {
+      const [issueBounty] = await blockchain.getIssueRewards(parseInt(registration.githubRepoId), [issueNumber]);
+      const amounts = issueBounty ? getBountyAmounts(issueBounty) : [];
+      if (!issueBounty || amounts.length === 0) {
+        const infoMsg = `ℹ️ **No Bounty**
+
+There is no bounty on this issue yet. Comment \`/bounty\` to request one.
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+        await postGitHubComment(installationId, owner, repo, issueNumber, infoMsg);
+        return;
+      }
+
+      const isOpen = issueBounty.status === 'Allocated';
+      const claim = isOpen ? await bountyClaimService.getActiveClaim(registration.githubRepoId, issueNumber) : null;
+      const claimLine = claim
+        ? `🔒 Claimed by @${claim.githubUsername} until **${claim.expiresAt.toUTCString()}**.`
+        : isOpen ? '🔓 Not claimed. Comment `/claim` to reserve it.' : '';
+
+      const split = isOpen
+        ? (await storage.getBountySplit(registration.githubRepoId, issueNumber)).filter((share: any) => share.status === 'pending')
+        : [];
+      const splitSection = split.length > 0
+        ? `\n\n🤝 **Split**\n\n${formatSplitTable(
+            split.map((share: any) => ({ githubUsername: share.githubUsername, shareBps: share.shareBps })),
+            amounts[0].amount,
+            amounts[0].currency
+          )}`
+        : '';
+
+      const statusMsg = `📊 **Bounty Status**
+
+| Amount | Status |
+|--------|--------|
+| **${formatBountyAmounts(amounts)}** | ${issueBounty.status} |
+
+${claimLine}${splitSection}
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+      await postGitHubComment(installationId, owner, repo, issueNumber, statusMsg);
+    } catch (error: any) {
+      if (isRetryableError(error)) {
+        throw error;
+      }
+      log(`Error fetching bounty status: ${error.message}`, 'bounty-command-ERROR');
+    }
+
+  } else if (command.type === 'help') {
+    await postGitHubComment(installationId, owner, repo, issueNumber, BOUNTY_HELP_MESSAGE);
+
+  } else if (command.type === 'sponsor' && command.amount && command.currency) {
+    // Anyone with a Roxonn wallet can sponsor an issue; no pool manager role needed
+    const sponsor = await storage.getUserByGithubUsername(commenter);
+    if (!sponsor || !sponsor.xdcWalletAddress) {
+      const errorMsg = `❌ **Not Registered**
+
+You need a Roxonn account with a funded wallet to sponsor issues. Sign up at [Roxonn](https://app.roxonn.com).
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+      await postGitHubComment(installationId, owner, repo, issueNumber, errorMsg);
+      return;
+    }
+
+    try {
+      await sponsorIssue({
+        githubRepoId: registration.githubRepoId,
+        installationId,
+        owner,
+        repo,
+        issueNumber,
+        sponsor: { id: sponsor.id, githubUsername: sponsor.githubUsername },
+        currency: command.currency,
+        amount: command.amount,
+        expiresInDays: command.expiresInDays,
+      });
+    } catch (error: any) {
+      if (isRetryableError(error)) {
+        throw error;
+      }
+      log(`Error sponsoring issue #${issueNumber}: ${error.message}`, 'bounty-command-ERROR');
+      const errorMsg = `❌ **Sponsorship Failed**
+
+${error.message}
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+      await postGitHubComment(installationId, owner, repo, issueNumber, errorMsg);
+    }
+
+  } else if (command.type === 'increase' && command.amount && command.currency) {
+    // Handle increase (owners, and allocators within their cap)
+    const blockchainRepoId = parseInt(registration.githubRepoId);
+    const access = await repositoryManagerService.getAccess(registration.githubRepoId, commenter);
+    if (!repositoryManagerService.hasRole(access, 'allocator')) {
+      const errorMsg = `❌ **Not Authorized**
+
+Only pool managers can increase bounties.
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+      await postGitHubComment(installationId, owner, repo, issueNumber, errorMsg);
+      return;
+    }
+
+    try {
+      const [issueBounty] = await blockchain.getIssueRewards(blockchainRepoId, [issueNumber]);
+      const amounts = issueBounty && issueBounty.status === 'Allocated' ? getBountyAmounts(issueBounty) : [];
+      if (amounts.length === 0) {
+        const errorMsg = `❌ **No Active Bounty**
+
+There is no allocated bounty on this issue to increase. Comment \`/bounty <amount> <currency>\` to allocate one.
 
 ---
 <sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
@@ -1353,40 +3141,227 @@ Please add funds to the pool first.
         return;
       }
 
-      // Allocate bounty on blockchain
-      const result = await blockchain.allocateIssueReward(
+      const increase: BountyAmount = { amount: command.amount, currency: command.currency };
+      const step = `increase:${increase.currency}`;
+      const decimals = currencyDecimals(increase.currency);
+      // When an earlier attempt at this delivery already sent the increase, the chain includes it
+      const earlier = deliveryId ? await webhookDeliveryStepService.get(deliveryId, step) : null;
+      const alreadyIncreased = earlier?.status === 'completed';
+      const existing = amounts.find(a => a.currency === increase.currency);
+      const newTotal = existing && !alreadyIncreased
+        ? ethers.formatUnits(ethers.parseUnits(existing.amount, decimals) + ethers.parseUnits(increase.amount, decimals), decimals)
+        : existing?.amount ?? increase.amount;
+      const repoDetails = await blockchain.getRepository(blockchainRepoId);
+      const poolBalance = getPoolBalance(repoDetails, increase.currency);
+      const amountWei = alreadyIncreased ? BigInt(0) : ethers.parseUnits(increase.amount, decimals);
+      if (!alreadyIncreased) {
+        if (!repositoryManagerService.canAllocate(access, increase.currency, newTotal)) {
+          await postGitHubComment(installationId, owner, repo, issueNumber, formatAllocationCapMessage(access, increase.currency));
+          return;
+        }
+        if (poolBalance < amountWei) {
+          await postGitHubComment(installationId, owner, repo, issueNumber, formatInsufficientFundsMessage(poolBalance, increase));
+          return;
+        }
+
+        // The threshold applies to the bounty's new total, so it cannot be reached in small steps
+        const policy = await multisigService.needsApproval(registration.githubRepoId, [{ amount: newTotal, currency: increase.currency }]);
+        if (policy) {
+          await holdBountyCommandForApproval({ policy, registration, issueNumber, amounts: [increase], commenter, signerId: access.signer.id, installationId, owner, repo });
+          return;
+        }
+      }
+
+      const result = await runDeliveryStep(deliveryId, step, () => blockchain.increaseIssueReward(
         blockchainRepoId,
         issueNumber,
-        command.amount,
-        command.currency,
-        poolManager.id
-      );
+        increase.amount,
+        increase.currency,
+        access.signer.id
+      ));
+
+      const updatedAmounts = existing
+        ? amounts.map(a => a.currency === increase.currency ? { ...a, amount: newTotal } : a)
+        : [...amounts, { ...increase }];
+
+      try {
+        await storage.upsertMultiCurrencyBounty({
+          repoId: registration.githubRepoId,
+          issueId: issueNumber,
+          currencyType: increase.currency,
+          amount: newTotal,
+          status: 'allocated',
+          transactionHash: result.transactionHash,
+        });
+      } catch (recordError: any) {
+        log(`Failed to record increased bounty for issue #${issueNumber}: ${recordError.message}`, 'bounty-command-ERROR');
+      }
+
+      const successMsg = `📈 **Bounty Increased**
+
+@${commenter} added **${increase.amount} ${increase.currency}** to this bounty.
+
+| Bounty | Pool Balance |
+|--------|--------------|
+| **${formatBountyAmounts(updatedAmounts)}** | ${ethers.formatUnits(poolBalance - amountWei, decimals)} ${increase.currency} remaining |
+
+🔗 [View transaction](https://xdcscan.com/tx/${result.transactionHash})
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+      await postGitHubComment(installationId, owner, repo, issueNumber, successMsg);
+      await syncBountyBadges({ installationId, owner, repo, issueNumber, state: 'allocated', amounts: updatedAmounts });
+      log(`Bounty increased by ${increase.amount} ${increase.currency} for issue #${issueNumber}`, 'bounty-command');
+
+    } catch (error: any) {
+      if (isRetryableError(error)) {
+        throw error;
+      }
+      log(`Error increasing bounty: ${error.message}`, 'bounty-command-ERROR');
+      const errorMsg = `❌ **Increase Failed**
+
+${error.message}
+
+Please try again or contact support.
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+      await postGitHubComment(installationId, owner, repo, issueNumber, errorMsg);
+    }
+
+  } else if (command.type === 'allocate' && command.amount && command.currency) {
+    // Handle allocation (owners, and allocators within their cap)
+    // Use GitHub repo ID for blockchain calls (not internal DB id)
+    const blockchainRepoId = parseInt(registration.githubRepoId);
+    const access = await repositoryManagerService.getAccess(registration.githubRepoId, commenter);
+    if (!repositoryManagerService.hasRole(access, 'allocator')) {
+      const errorMsg = `❌ **Not Authorized**
+
+Only pool managers can allocate bounties. You can request a bounty by commenting \`/bounty\`.
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+      await postGitHubComment(installationId, owner, repo, issueNumber, errorMsg);
+      return;
+    }
+
+    // The first currency is allocated; any further ones are added to it as increases
+    const requested: BountyAmount[] = [{ amount: command.amount, currency: command.currency }, ...(command.additional || [])];
+    const allocated: BountyAmount[] = [];
+
+    const overCap = requested.find(item => !repositoryManagerService.canAllocate(access, item.currency, item.amount));
+    if (overCap) {
+      await postGitHubComment(installationId, owner, repo, issueNumber, formatAllocationCapMessage(access, overCap.currency));
+      return;
+    }
+
+    if (command.expiresInDays && command.expiresInDays > config.bountyExpiryMaxDays) {
+      const errorMsg = `❌ **Invalid Deadline**
+
+A bounty can expire at most **${config.bountyExpiryMaxDays} days** from now.
+
+---
+<sub>Powered by [Roxonn](https://app.roxonn.com)</sub>`;
+      await postGitHubComment(installationId, owner, repo, issueNumber, errorMsg);
+      return;
+    }
+
+    // Check pool balance
+    try {
+      const steps = requested.map((item, index) => `${index === 0 ? 'allocate' : 'increase'}:${item.currency}`);
+      // Amounts an earlier attempt at this delivery already allocated are no longer in the pool
+      const completed = new Set<string>();
+      for (const step of steps) {
+        const earlier = deliveryId ? await webhookDeliveryStepService.get(deliveryId, step) : null;
+        if (earlier?.status === 'completed') {
+          completed.add(step);
+        }
+      }
+
+      const repoDetails = await blockchain.getRepository(blockchainRepoId);
+      const remainingBalances: string[] = [];
+      for (let index = 0; index < requested.length; index++) {
+        const item = requested[index];
+        const poolBalance = getPoolBalance(repoDetails, item.currency);
+        const amountWei = completed.has(steps[index]) ? BigInt(0) : ethers.parseUnits(item.amount, currencyDecimals(item.currency));
+        if (poolBalance < amountWei) {
+          await postGitHubComment(installationId, owner, repo, issueNumber, formatInsufficientFundsMessage(poolBalance, item));
+          return;
+        }
+        remainingBalances.push(`${ethers.formatUnits(poolBalance - amountWei, currencyDecimals(item.currency))} ${item.currency}`);
+      }
+
+      const policy = await multisigService.needsApproval(registration.githubRepoId, requested);
+      if (policy) {
+        await holdBountyCommandForApproval({ policy, registration, issueNumber, amounts: requested, commenter, signerId: access.signer.id, installationId, owner, repo, expiresInDays: command.expiresInDays });
+        return;
+      }
+
+      for (let index = 0; index < requested.length; index++) {
+        const item = requested[index];
+        // Allocate bounty on blockchain
+        const result = await runDeliveryStep(deliveryId, steps[index], () => index === 0
+          ? blockchain.allocateIssueReward(blockchainRepoId, issueNumber, item.amount, item.currency, access.signer.id)
+          : blockchain.increaseIssueReward(blockchainRepoId, issueNumber, item.amount, item.currency, access.signer.id));
+        allocated.push(item);
+
+        try {
+          await storage.upsertMultiCurrencyBounty({
+            repoId: registration.githubRepoId,
+            issueId: issueNumber,
+            currencyType: item.currency,
+            amount: item.amount,
+            status: 'allocated',
+            transactionHash: result.transactionHash,
+          });
+        } catch (recordError: any) {
+          log(`Failed to record allocated bounty for issue #${issueNumber}: ${recordError.message}`, 'bounty-command-ERROR');
+        }
+      }
+
+      const expiry = await applyBountyExpiry(registration.githubRepoId, issueNumber, command.expiresInDays, commenter);
 
       // Success message
-      const remainingBalance = poolBalance - amountWei;
+      const rows = requested.map((item, i) =>
+        `| **${item.amount} ${item.currency}** | ✅ Active | ${remainingBalances[i]} remaining |`
+      ).join('\n');
+      const expiryNote = expiry
+        ? `\n⌛ Returns to the pool if no fix is merged by **${expiry.expiresAt.toUTCString()}**.\n`
+        : '';
       const successMsg = `🎯 **Bounty Allocated!**
 
 | Amount | Status | Pool Balance |
 |--------|--------|--------------|
-| **${command.amount} ${command.currency}** | ✅ Active | ${ethers.formatUnits(remainingBalance, command.currency === 'USDC' ? 6 : 18)} ${command.currency} remaining |
-
+${rows}
+${expiryNote}
 **How to earn this bounty:**
-1. Submit a Pull Request that fixes this issue
-2. Reference this issue in your PR (e.g., "Closes #${issueNumber}")
-3. Once merged, the bounty is automatically sent to your Roxonn wallet
+1. Comment \`/claim\` to reserve the bounty while you work on it
+2. Submit a Pull Request that fixes this issue
+3. Reference this issue in your PR (e.g., "Closes #${issueNumber}")
+4. Once merged, the bounty is automatically sent to your Roxonn wallet
 
 🔗 [View on Roxonn](https://app.roxonn.com/repos/${owner}/${repo})
 
 ---
 <sub>Powered by [Roxonn](https://app.roxonn.com) • Earn crypto for open source contributions</sub>`;
       await postGitHubComment(installationId, owner, repo, issueNumber, successMsg);
-      log(`Bounty allocated: ${command.amount} ${command.currency} for issue #${issueNumber}`, 'bounty-command');
+      await syncBountyBadges({ installationId, owner, repo, issueNumber, state: 'allocated', amounts: requested });
+      log(`Bounty allocated: ${formatBountyAmounts(requested)} for issue #${issueNumber}`, 'bounty-command');
 
     } catch (error: any) {
+      if (isRetryableError(error)) {
+        throw error;
+      }
       log(`Error allocating bounty: ${error.message}`, 'bounty-command-ERROR');
+      const partialNote = allocated.length > 0
+        ? `\n\n**${formatBountyAmounts(allocated)}** was allocated before the failure. Use \`/bounty +<amount> <currency>\` to add the rest.`
+        : '';
+      if (allocated.length > 0) {
+        await syncBountyBadges({ installationId, owner, repo, issueNumber, state: 'allocated', amounts: allocated });
+      }
       const errorMsg = `❌ **Allocation Failed**
 
-${error.message}
+${error.message}${partialNote}
 
 Please try again or contact support.
 
@@ -31,6 +31,15 @@ import cookieParser from 'cookie-parser';
 import { config, initializeConfig, validateConfig } from './config';
 import rateLimit from 'express-rate-limit';
 import { updateOfflineNodes } from './services/exoNodeService';
+import { expireBountyClaims, processBountyExpiries, recordRelayedAllocation, settleDueSponsorships } from './github';
+import { webhookQueueService } from './services/webhookQueueService';
+import { reconciliationService } from './services/reconciliationService';
+import { blockchain } from './blockchain';
+import { relayerTransactionService } from './services/relayerTransactionService';
+import { fundingScheduleService } from './services/fundingScheduleService';
+import { payoutLedgerService } from './services/payoutLedgerService';
+import { aiModelRegistryService } from './services/aiModelRegistryService';
+import { aiMeteringService } from './services/aiMeteringService';
 import { verifyAndSecureContainers } from './azure-media';
 
 // Initialize the app but don't start it yet
@@ -169,7 +178,7 @@ app.use(cors({
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization', 'X-Hub-Signature', 'X-Hub-Signature-256', 'X-CSRF-Token', 'Origin', 'Accept'],
-  exposedHeaders: ['Content-Length', 'Content-Type'],
+  exposedHeaders: ['Content-Length', 'Content-Type', 'X-Roxonn-Model'],
   maxAge: 86400 // Cache preflight requests for 1 day
 }));
 
@@ -441,6 +450,13 @@ async function startServer() {
     // Validate configuration if using environment variables
     validateConfig();
 
+    // Seed the AI model registry from the Azure settings on first start
+    try {
+      await aiModelRegistryService.seedFromConfig();
+    } catch (error) {
+      log(`AI model registry seeding failed: ${error}`, 'server-WARN');
+    }
+
     // Verify and secure Azure blob containers for course videos
     if (config.azureStorageAccount && config.azureStorageKey) {
       try {
@@ -523,6 +539,121 @@ async function startServer() {
       }
     }, 60 * 1000);
 
+    // Retry queued GitHub webhook deliveries that are due every 30 seconds
+    setInterval(async () => {
+      try {
+        const processed = await webhookQueueService.processDueEvents();
+        if (processed > 0) {
+          log(`Processed ${processed} queued webhook events.`, 'cron');
+        }
+      } catch (error) {
+        log(`Error processing webhook queue: ${error}`, 'cron-ERROR');
+      }
+    }, 30 * 1000);
+
+    // Release bounty claims whose window has passed every 10 minutes
+    setInterval(async () => {
+      try {
+        const expiredCount = await expireBountyClaims();
+        if (expiredCount > 0) {
+          log(`Expired ${expiredCount} bounty claims.`, 'cron');
+        }
+      } catch (error) {
+        log(`Error expiring bounty claims: ${error}`, 'cron-ERROR');
+      }
+    }, 10 * 60 * 1000);
+
+    // Reconcile database pool and bounty state against contract events
+    setInterval(async () => {
+      try {
+        const run = await reconciliationService.run();
+        if (run && run.mismatches.length > 0) {
+          log(`Reconciliation run ${run.id} found ${run.mismatches.length} mismatches.`, 'cron');
+        }
+      } catch (error) {
+        log(`Error running reconciliation: ${error}`, 'cron-ERROR');
+      }
+    }, config.reconciliationIntervalMinutes * 60 * 1000);
+
+    // Send relay requests that were queued while the relayer was low on XDC, and settle stale ones
+    setInterval(async () => {
+      try {
+        await blockchain.processRelayQueue(recordRelayedAllocation);
+      } catch (error) {
+        log(`Error processing relay queue: ${error}`, 'cron-ERROR');
+      }
+    }, config.relayerQueueIntervalSeconds * 1000);
+
+    // Settle relayer and escrow transactions and rebroadcast stuck ones at a higher gas price every minute
+    setInterval(async () => {
+      try {
+        await relayerTransactionService.checkPendingTransactions();
+        await blockchain.checkPendingEscrowTransactions();
+      } catch (error) {
+        log(`Error checking relayer transactions: ${error}`, 'cron-ERROR');
+      }
+    }, 60 * 1000);
+
+    // Settle bounty payouts that were left unconfirmed, from the chain, every 5 minutes
+    setInterval(async () => {
+      try {
+        const settled = await payoutLedgerService.settleStale();
+        if (settled > 0) {
+          log(`Settled ${settled} stale payouts.`, 'cron');
+        }
+      } catch (error) {
+        log(`Error settling stale payouts: ${error}`, 'cron-ERROR');
+      }
+    }, 5 * 60 * 1000);
+
+    // Run recurring funding schedules that are due and check top-up thresholds
+    setInterval(async () => {
+      try {
+        const runs = await fundingScheduleService.processDueSchedules();
+        if (runs > 0) {
+          log(`Recorded ${runs} scheduled funding runs.`, 'cron');
+        }
+      } catch (error) {
+        log(`Error processing funding schedules: ${error}`, 'cron-ERROR');
+      }
+    }, config.fundingSchedulerIntervalSeconds * 1000);
+
+    // Remind issues whose bounty deadline is near and return expired bounties to the pool every 10 minutes
+    setInterval(async () => {
+      try {
+        const handled = await processBountyExpiries();
+        if (handled > 0) {
+          log(`Handled ${handled} bounty deadlines.`, 'cron');
+        }
+      } catch (error) {
+        log(`Error processing bounty deadlines: ${error}`, 'cron-ERROR');
+      }
+    }, 10 * 60 * 1000);
+
+    // Retry sponsorship payouts and refund sponsorships past their deadline
+    setInterval(async () => {
+      try {
+        const settled = await settleDueSponsorships();
+        if (settled > 0) {
+          log(`Settled ${settled} issue sponsorships.`, 'cron');
+        }
+      } catch (error) {
+        log(`Error settling issue sponsorships: ${error}`, 'cron-ERROR');
+      }
+    }, config.sponsorshipSweepIntervalSeconds * 1000);
+
+    // Refund VS Code AI prompt holds that were never settled every 5 minutes
+    setInterval(async () => {
+      try {
+        const released = await aiMeteringService.releaseStale();
+        if (released > 0) {
+          log(`Released ${released} stale AI usage holds.`, 'cron');
+        }
+      } catch (error) {
+        log(`Error releasing stale AI usage holds: ${error}`, 'cron-ERROR');
+      }
+    }, 5 * 60 * 1000);
+
     // Handle graceful shutdown
     setupShutdownHandlers();
   } catch (error) {
@@ -16,6 +16,14 @@ export interface MerchantCheckoutConfig {
   redirectUrl?: string;  // Optional redirect URL after payment completion
 }
 
+// What a checkout is for, when it is not the courses membership
+export interface MerchantCheckoutProduct {
+  merchantRecognitionId: string;
+  priceUsdc: number;
+  description: string;
+  redirectPath: string;
+}
+
 export class OnrampMerchantService {
   /**
    * Generate merchant recognition ID for subscription
@@ -26,15 +34,23 @@ export class OnrampMerchantService {
   }
 
   /**
-   * Build merchant checkout widget configuration
+   * Generate merchant recognition ID for a prompt pack purchase
+   */
+  generatePromptPackRecognitionId(userId: number): string {
+    return `roxonn-pack-${userId}-${Date.now()}`;
+  }
+
+  /**
+   * Build merchant checkout widget configuration. Without a product, the checkout is for the subscription.
    */
   async buildMerchantCheckoutConfig(
     userId: number,
     fiatType?: number,
-    logoUrl?: string
+    logoUrl?: string,
+    product?: MerchantCheckoutProduct
   ): Promise<MerchantCheckoutConfig> {
     try {
-      const merchantRecognitionId = this.generateMerchantRecognitionId(userId);
+      const merchantRecognitionId = product?.merchantRecognitionId || this.generateMerchantRecognitionId(userId);
 
       // Get treasury address for Polygon (standard 0x format)
       const treasuryAddress = config.platformTreasuryAddressPolygon || config.platformTreasuryAddressXdc;
@@ -48,7 +64,7 @@ export class OnrampMerchantService {
         : treasuryAddress;
 
       // Get subscription price in USDC (default 10 USDC)
-      const subscriptionPriceUsdc = parseFloat(config.subscriptionPriceUsdc || '10');
+      const subscriptionPriceUsdc = product?.priceUsdc ?? parseFloat(config.subscriptionPriceUsdc || '10');
 
       // Get merchant app ID
       const merchantAppId = config.onrampMerchantAppId;
@@ -74,11 +90,11 @@ export class OnrampMerchantService {
         network: 'matic20', // Polygon network (supported by merchant checkout)
         fiatAmount: fiatAmount.toString(),
         fiatType: selectedFiatType,
-        assetDescription: 'Roxonn Courses Annual Membership',
+        assetDescription: product?.description || 'Roxonn Courses Annual Membership',
         assetImage: logoUrl || config.onrampMerchantLogoUrl || `${config.frontendUrl}/favicon.png`,
         flowType: 3, // Merchant checkout flow
         merchantRecognitionId,
-        redirectUrl: `${config.frontendUrl}/membership`, // Onramp will append ?status=success/pending&orderId=xxx
+        redirectUrl: `${config.frontendUrl}${product?.redirectPath || '/membership'}`, // Onramp will append ?status=success/pending&orderId=xxx
       };
 
       log(`Generated merchant checkout config for user ${userId}: ${merchantRecognitionId}, Currency: ${currencyName}, Amount: ${fiatAmount}`, 'onramp-merchant');
@@ -142,8 +158,8 @@ export class OnrampMerchantService {
    */
   extractUserIdFromMerchantId(merchantRecognitionId: string): number | null {
     try {
-      // Format: roxonn-sub-{userId}-{timestamp}
-      const match = merchantRecognitionId.match(/^roxonn-sub-(\d+)-\d+$/);
+      // Format: roxonn-sub-{userId}-{timestamp} or roxonn-pack-{userId}-{timestamp}
+      const match = merchantRecognitionId.match(/^roxonn-(?:sub|pack)-(\d+)-\d+$/);
       if (match && match[1]) {
         return parseInt(match[1], 10);
       }
@@ -160,6 +176,13 @@ export class OnrampMerchantService {
   isSubscriptionMerchantId(merchantRecognitionId: string): boolean {
     return merchantRecognitionId.startsWith('roxonn-sub-');
   }
+
+  /**
+   * Check if merchant recognition ID is for a prompt pack purchase
+   */
+  isPromptPackMerchantId(merchantRecognitionId: string): boolean {
+    return merchantRecognitionId.startsWith('roxonn-pack-');
+  }
 }
 
 export const onrampMerchantService = new OnrampMerchantService();
@@ -3,7 +3,7 @@ import express from 'express';
 import jwt, { SignOptions } from 'jsonwebtoken'; // Added SignOptions
 import { fileURLToPath } from 'url';
 import { dirname, resolve } from 'path';
-import { setupAuth, requireAuth, requireVSCodeAuth, csrfProtection } from "./auth";
+import { setupAuth, requireAuth, requireVSCodeAuth, csrfProtection, requireStepUp } from "./auth";
 import { handleVSCodeAIChatCompletions } from './vscode-ai-handler';
 import crypto from 'crypto'; // Fixing the crypto.createHmac issue by using the correct import
 import { storage } from "./storage";
@@ -13,13 +13,43 @@ import {
   fundRoxnRepoSchema, // Corrected name
   fundUsdcRepoSchema, // For USDC funding
   allocateUnifiedBountySchema, // Corrected name
+  setBountySplitSchema,
+  inviteRepositoryManagerSchema,
+  updateRepositoryManagerSchema,
+  setLimitOverrideSchema,
+  stepUpPurposeSchema,
+  stepUpCodeSchema,
+  addWithdrawalAddressSchema,
+  confirmWithdrawalAddressSchema,
+  walletLinkChallengeSchema,
+  walletLinkVerifySchema,
+  type RelayerTransactionStatus,
+  type MultisigProposal,
+  setMultisigPolicySchema,
+  multisigDecisionSchema,
+  createFundingScheduleSchema,
+  updateFundingScheduleSchema,
+  sponsorIssueSchema,
+  type IssueBountyDetails,
+  recordTokenPriceSchema,
+  resolvePayoutSchema,
+  earningsStatementQuerySchema,
+  createAiModelSchema,
+  updateAiModelSchema,
+  createPromptOrganizationSchema,
+  invitePromptOrganizationMemberSchema,
+  updatePromptOrganizationMemberSchema,
+  depositOrganizationPromptsSchema,
+  adjustOrganizationPromptsSchema,
+  startPromptPackCheckoutSchema,
+  verifyPromptPackPurchaseSchema,
   submitAssignmentSchema
 } from "@shared/schema";
 import { registeredRepositories, courseAssignments } from "../shared/schema";
 import { db } from "./db";
 import { sql } from "drizzle-orm";
 import { handleOpenAIStream } from './openai-stream';
-import { getOrgRepos, getRepoDetails, verifyRepoExists, verifyUserIsRepoAdmin, verifyUserIsOrgAdmin, getUserAdminOrgs, getOrgReposForRegistration, getUserAdminRepos, handlePullRequestMerged, handleIssueClosed, getInstallationAccessToken, getGitHubApiHeaders, GITHUB_API_BASE, findAppInstallationByName, isValidGitHubOwner, isValidGitHubRepo, buildSafeGitHubUrl, handleBountyCommand, parseBountyCommand } from "./github";
+import { getOrgRepos, getRepoDetails, verifyRepoExists, verifyUserIsRepoAdmin, verifyUserIsOrgAdmin, getUserAdminOrgs, getOrgReposForRegistration, getUserAdminRepos, handlePullRequestMerged, getInstallationAccessToken, getGitHubApiHeaders, GITHUB_API_BASE, findAppInstallationByName, isValidGitHubOwner, isValidGitHubRepo, buildSafeGitHubUrl, parseBountyCommand, recordBountySplit, cancelIssueBounty, getBountyAmountAndCurrency, getBountyAmounts, syncBountyBadges, distributeBountyToAddress, proposeMultisigAction, executeMultisigProposal, sponsorIssue, applyBountyExpiry } from "./github";
 import { blockchain } from "./blockchain";
 import { ethers } from "ethers";
 import { log } from "./utils";
@@ -33,16 +63,34 @@ import { exchangeCodeForRefreshToken, getZohoAuthUrl, isZohoConfigured } from '.
 import { onrampService } from './onrampService';
 import { TransactionStatus } from '../shared/schema';
 import { WalletService } from './walletService';
-import { checkRepositoryFundingLimit, recordRepositoryFunding, getRepositoryFundingStatus, REPOSITORY_FUNDING_DAILY_LIMIT } from './funding-limits';
-import { transferLimits, DAILY_TRANSFER_LIMIT } from './transfer-limits';
 import { encryptWithSharedSecret, deriveSharedSecret, SERVER_PUBLIC_KEY_BASE64 } from './ecdh';
-import { sendOtpEmail } from './email';
 import aiScopingAgentRouter from './routes/aiScopingAgent';
 import multiCurrencyWalletRoutes from './routes/multiCurrencyWallet';
 import referralRoutes from './routes/referralRoutes';
 import promotionalBountiesRoutes from './routes/promotionalBounties';
 import { referralService } from './services/referralService';
 import { activityService } from './services/activityService';
+import { webhookQueueService } from './services/webhookQueueService';
+import { payoutLedgerService } from './services/payoutLedgerService';
+import { reconciliationService } from './services/reconciliationService';
+import { repositoryManagerService } from './services/repositoryManagerService';
+import { limitsService, LIMIT_CURRENCIES, type LimitCurrency, type LimitCheckResult } from './services/limitsService';
+import { relayerService, RelayQueuedError } from './services/relayerService';
+import { relayerTransactionService } from './services/relayerTransactionService';
+import { stepUpService } from './services/stepUpService';
+import { withdrawalAddressService, WithdrawalAddressBlockedError } from './services/withdrawalAddressService';
+import { payoutAddressService } from './services/payoutAddressService';
+import { multisigService, MultisigPolicyError } from './services/multisigService';
+import { bountyExpiryService } from './services/bountyExpiryService';
+import { earningsStatementService, renderStatementCsv, renderStatementPdf } from './services/earningsStatementService';
+import { getCurrencyByCode } from './currencyConfig';
+import { aiModelRegistryService, AiModelRegistryError } from './services/aiModelRegistryService';
+import { aiMeteringService } from './services/aiMeteringService';
+import { aiCircuitBreakerService } from './services/aiCircuitBreakerService';
+import { promptOrganizationService, PromptOrganizationError, startOfMonthUtc } from './services/promptOrganizationService';
+import { promptPackService, PromptPackPurchaseError } from './services/promptPackService';
+import { fundingScheduleService } from './services/fundingScheduleService';
+import { issueSponsorshipService, SponsorshipRejectedError } from './services/issueSponsorshipService';
 import { dispatchTask } from './services/proofOfComputeService';
 import { handleHeartbeat, getNodeStatus, getAllNodeStatuses } from './services/exoNodeService';
 import { securityMiddlewares } from './security/middlewares';
@@ -78,6 +126,88 @@ const webhookMiddleware = express.raw({
   }
 });
 
+// A repository's bounty team can be managed by its owners, and by anyone GitHub reports as an
+// admin of the repository or of the organization that owns it
+async function canManageRepositoryTeam(user: Express.User, githubRepoId: string, githubRepoFullName: string): Promise<boolean> {
+  const access = await repositoryManagerService.getAccess(githubRepoId, user.githubUsername);
+  if (repositoryManagerService.hasRole(access, 'owner')) {
+    return true;
+  }
+  if (!user.githubAccessToken) {
+    return false;
+  }
+  const [owner, repo] = githubRepoFullName.split('/');
+  if (await verifyUserIsRepoAdmin(user.githubAccessToken, owner, repo)) {
+    return true;
+  }
+  return owner.toLowerCase() !== user.username.toLowerCase()
+    && await verifyUserIsOrgAdmin(user.githubAccessToken, owner);
+}
+
+// Step-up thresholds compare decimal amounts; anything unparseable is left to the route's own validation
+function isAtOrAbove(amount: unknown, threshold: string): boolean {
+  try {
+    return ethers.parseUnits(String(amount), 18) >= ethers.parseUnits(threshold, 18);
+  } catch (error) {
+    return false;
+  }
+}
+
+function allocationStepUpThreshold(currency: unknown): string {
+  if (currency === 'ROXN') return config.stepUpAllocationThresholdRoxn;
+  if (currency === 'USDC') return config.stepUpAllocationThresholdUsdc;
+  return config.stepUpAllocationThresholdXdc;
+}
+
+// 429 body for an amount the limits engine turned down
+function formatLimitRejection(check: LimitCheckResult) {
+  return {
+    error: check.reason,
+    details: {
+      currency: check.status.currency,
+      limits: check.status.limits,
+      remainingLimit: parseFloat(check.status.dailyRemaining),
+      weeklyRemaining: parseFloat(check.status.weeklyRemaining),
+      limitResetTime: check.status.dailyResetAt?.toISOString() ?? null
+    }
+  };
+}
+
+// Response for an allocation or payout that was held for pool manager approval. A proposal whose
+// proposer alone met the quorum has already run by the time it gets here.
+function sendMultisigProposal(res: Response, proposal: MultisigProposal | null) {
+  if (!proposal) {
+    return res.status(409).json({ error: 'This issue already has a proposal waiting for approval' });
+  }
+  if (proposal.status === 'executed') {
+    return res.json({ message: 'Approved and submitted.', transactionHash: proposal.transactionHash, proposalId: proposal.id });
+  }
+  if (proposal.status === 'failed') {
+    return res.status(500).json({ error: 'Approved but failed to execute', details: proposal.error, proposalId: proposal.id });
+  }
+  return res.status(202).json({
+    message: `Needs ${proposal.requiredApprovals} pool manager approvals before it runs.`,
+    approvalRequired: true,
+    proposalId: proposal.id,
+  });
+}
+
+// Persist a delivery to the webhook queue and start processing it right away.
+// Failures are retried by the queue worker, so the webhook response never waits on the handler.
+async function queueWebhookDelivery(deliveryId: string, event: string, installationId: string, payload: any) {
+  if (!deliveryId) {
+    throw new Error('Missing X-GitHub-Delivery header');
+  }
+  const queued = await webhookQueueService.enqueue(deliveryId, event, installationId, payload);
+  if (queued) {
+    setImmediate(() => {
+      webhookQueueService.processDueEvents().catch(err => {
+        log(`Error processing webhook queue: ${err?.message || err}`, 'webhook-app');
+      });
+    });
+  }
+}
+
 // --- GitHub App Webhook Handler ---
 async function handleGitHubAppWebhook(req: Request, res: Response) {
   log('GitHub App Webhook request received', 'webhook-app');
@@ -128,26 +258,26 @@ async function handleGitHubAppWebhook(req: Request, res: Response) {
       const command = parseBountyCommand(commentBody);
 
       if (command) {
-        log(`Processing bounty command from ${payload.sender?.login} on issue #${payload.issue?.number}`, 'webhook-app');
-        setImmediate(() => {
-          handleBountyCommand(payload, installationId).catch(err => {
-            log(`Error processing bounty command: ${err?.message || err}`, 'webhook-app');
-          });
-        });
-        return res.status(202).json({ message: 'Bounty command processing initiated.' });
+        log(`Queueing bounty command from ${payload.sender?.login} on issue #${payload.issue?.number}`, 'webhook-app');
+        await queueWebhookDelivery(delivery, event, installationId, payload);
+        return res.status(202).json({ message: 'Bounty command queued for processing.' });
       }
       return res.status(200).json({ message: 'Comment ignored - no bounty command' });
 
       // --- Handle Issue Closed for Payout ---
     } else if (event === 'issues' && payload.action === 'closed') {
-      log(`Processing App issue closed event for #${payload.issue?.number}`, 'webhook-app');
-      setImmediate(() => {
-        // Pass payload ONLY for now. Handler will generate token.
-        handleIssueClosed(payload, installationId).catch(err => {
-          log(`Error in background App Issue Closed handler: ${err?.message || err}`, 'webhook-app');
-        });
-      });
-      return res.status(202).json({ message: 'Webhook received and Issue Closed processing initiated.' });
+      log(`Queueing App issue closed event for #${payload.issue?.number}`, 'webhook-app');
+      await queueWebhookDelivery(delivery, event, installationId, payload);
+      return res.status(202).json({ message: 'Webhook received and Issue Closed queued for processing.' });
+
+      // --- Handle Merged Pull Requests for Payout ---
+    } else if (event === 'pull_request' && payload.action === 'closed') {
+      if (!payload.pull_request?.merged) {
+        return res.status(200).json({ message: 'Pull request closed without merging - ignored' });
+      }
+      log(`Queueing App merged PR event for #${payload.pull_request.number}`, 'webhook-app');
+      await queueWebhookDelivery(delivery, event, installationId, payload);
+      return res.status(202).json({ message: 'Webhook received and merged PR queued for processing.' });
 
       // --- Handle Repository Visibility Changes ---
     } else if (event === 'repository' && (payload.action === 'privatized' || payload.action === 'publicized')) {
@@ -853,1568 +983,2955 @@ export async function registerRoutes(app: Express) {
       }
     });
 
-  // Get repositories accessible to the current user (public + private repos they have GitHub access to)
-  // Uses GitHub App installation tokens to check collaborator status - NO user private tokens needed
-  /**
-   * @openapi
-   * /api/repositories/accessible:
-   *   get:
-   *     summary: Get all repositories accessible to current user
-   *     tags: [Repositories]
-   *     security:
-   *       - cookieAuth: []
-   *     responses:
-   *       200:
-   *         description: List of accessible repositories
-   *         content:
-   *           application/json:
-   *             schema:
-   *               type: object
-   *               properties:
-   *                 repositories:
-   *                   type: array
-   *                   items:
-   *                     $ref: '#/components/schemas/Repository'
-   *       401:
-   *         description: Unauthorized
-   */
-  app.get("/api/repositories/accessible",
-    requireAuth,
-    securityMiddlewares.repoRateLimiter,
-    securityMiddlewares.securityMonitor,
-    async (req: Request, res: Response) => {
-      if (!req.user) {
-        return res.status(401).json({ error: 'User not authenticated' });
+  // The current user's role on a repository's bounty team, and any invite waiting for them
+  app.get("/api/repositories/:repoId/managers/me", requireAuth, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    try {
+      const { repoId } = req.params;
+      const registration = await storage.findRegisteredRepositoryByGithubId(repoId);
+      if (!registration) {
+        return res.status(404).json({ error: 'Repository not found' });
       }
-      try {
-        // Get all registered repos (both public and private)
-        const allRegisteredRepos = await storage.getAllRegisteredRepositories();
-        const username = req.user.username;
 
-        // Check access for each repo
-        const accessibleRepos = await Promise.all(
-          allRegisteredRepos.map(async (repo) => {
-            // Public repos are always accessible
-            if (!repo.isPrivate) {
-              return repo;
-            }
+      const access = await repositoryManagerService.getAccess(repoId, req.user.githubUsername);
+      const [canManage, invite] = await Promise.all([
+        canManageRepositoryTeam(req.user, repoId, registration.githubRepoFullName),
+        repositoryManagerService.getPendingInvite(repoId, req.user.githubUsername),
+      ]);
+      res.json({
+        role: access?.role ?? null,
+        allocationCaps: access?.allocationCaps ?? {},
+        canManage,
+        invite,
+      });
+    } catch (error: any) {
+      log(`Error fetching repository role for ${req.params.repoId}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to fetch repository role' });
+    }
+  });
 
-            // For private repos, check if user is a collaborator using GitHub App installation token
-            try {
-              const installationToken = await getInstallationAccessToken(repo.installationId);
-              if (!installationToken) {
-                log(`Could not get installation token for private repo ${repo.githubRepoFullName}`, 'routes');
-                return null;
-              }
+  // List a repository's bounty team (members and pending invites)
+  app.get("/api/repositories/:repoId/managers", requireAuth, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    try {
+      const { repoId } = req.params;
+      const registration = await storage.findRegisteredRepositoryByGithubId(repoId);
+      if (!registration) {
+        return res.status(404).json({ error: 'Repository not found' });
+      }
 
-              // Check if user is a collaborator on this private repo
-              const collaboratorCheckUrl = `https://api.github.com/repos/${repo.githubRepoFullName}/collaborators/${username}`;
-              const response = await axios.get(collaboratorCheckUrl, {
-                headers: {
-                  Authorization: `token ${installationToken}`,
-                  Accept: 'application/vnd.github.v3+json'
-                },
-                validateStatus: (status) => status === 204 || status === 404 // 204 = is collaborator, 404 = not collaborator
-              });
+      const access = await repositoryManagerService.getAccess(repoId, req.user.githubUsername);
+      if (!access && !await canManageRepositoryTeam(req.user, repoId, registration.githubRepoFullName)) {
+        return res.status(403).json({ error: 'Not a member of this repository' });
+      }
 
-              // If user is a collaborator, include the repo
-              if (response.status === 204) {
-                log(`User ${username} is collaborator on private repo ${repo.githubRepoFullName}`, 'routes');
-                return repo;
-              }
+      const poolManagers = await storage.getRepositoryPoolManagers(parseInt(repoId));
+      const members = await repositoryManagerService.listMembers(repoId);
+      res.json({
+        poolManagers: poolManagers.map(user => ({ githubUsername: user.githubUsername, role: 'owner' })),
+        members,
+      });
+    } catch (error: any) {
+      log(`Error listing managers for ${req.params.repoId}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to list repository managers' });
+    }
+  });
 
-              return null; // User is not a collaborator
-            } catch (error: any) {
-              log(`Error checking collaborator status for ${repo.githubRepoFullName}: ${error.message}`, 'routes-ERROR');
-              return null; // On error, don't show private repo
-            }
-          })
-        );
+  // Invite a GitHub user to a repository's bounty team
+  app.post("/api/repositories/:repoId/managers", requireAuth, csrfProtection, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    try {
+      const { repoId } = req.params;
+      const validationResult = inviteRepositoryManagerSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid invite', details: validationResult.error.format() });
+      }
 
-        // Filter out null values (repos user doesn't have access to)
-        const filteredRepos = accessibleRepos.filter(repo => repo !== null);
+      const registration = await storage.findRegisteredRepositoryByGithubId(repoId);
+      if (!registration) {
+        return res.status(404).json({ error: 'Repository not found' });
+      }
+      if (!await canManageRepositoryTeam(req.user, repoId, registration.githubRepoFullName)) {
+        return res.status(403).json({ error: 'Only repository owners and GitHub admins can invite managers' });
+      }
 
-        // Fetch pool info from blockchain for each accessible repo
-        const repositoriesWithPoolInfo = await Promise.all(
-          filteredRepos.map(async (repo) => {
-            try {
-              const poolInfo = await blockchain.getRepository(parseInt(repo.githubRepoId));
-              return {
-                ...repo,
-                xdcPoolRewards: poolInfo?.xdcPoolRewards || "0.0",
-                roxnPoolRewards: poolInfo?.roxnPoolRewards || "0.0",
-                usdcPoolRewards: poolInfo?.usdcPoolRewards || "0.0",
-              };
-            } catch (err: any) {
-              log(`Error fetching pool info for repo ${repo.githubRepoId}: ${err.message}`, 'routes-ERROR');
-              return {
-                ...repo,
-                xdcPoolRewards: "0.0",
-                roxnPoolRewards: "0.0",
-                usdcPoolRewards: "0.0",
-              };
-            }
-          })
-        );
+      const invite = await repositoryManagerService.invite({
+        githubRepoId: repoId,
+        ...validationResult.data,
+        invitedBy: req.user.id,
+      });
+      if (!invite) {
+        return res.status(409).json({ error: `${validationResult.data.githubUsername} is already a member or has a pending invite` });
+      }
+      res.status(201).json(invite);
+    } catch (error: any) {
+      log(`Error inviting manager to ${req.params.repoId}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to invite manager' });
+    }
+  });
 
-        const privateCount = repositoriesWithPoolInfo.filter(r => r.isPrivate).length;
-        log(`User ${username} (ID: ${req.user.id}) has access to ${repositoriesWithPoolInfo.length} repos (${privateCount} private)`, 'routes');
-        res.json({ repositories: repositoriesWithPoolInfo });
-      } catch (error) {
-        log(`Error fetching accessible repositories: ${error}`, 'routes');
-        res.status(500).json({ error: 'Failed to fetch accessible repositories' });
+  // Change a member's role or allocation caps
+  app.patch("/api/repositories/:repoId/managers/:id", requireAuth, csrfProtection, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    try {
+      const { repoId } = req.params;
+      const id = parseInt(req.params.id);
+      const validationResult = updateRepositoryManagerSchema.safeParse(req.body);
+      if (isNaN(id) || !validationResult.success) {
+        return res.status(400).json({ error: 'Invalid manager update', details: validationResult.error?.format() });
       }
-    });
 
-  // Get all publicly visible registered repos, now including their pool balances
-  app.get("/api/repositories/public",
-    securityMiddlewares.repoRateLimiter,
-    securityMiddlewares.securityMonitor,
-    async (_req: Request, res: Response) => {
-      try {
-        const registeredRepos = await storage.getAllPublicRepositories();
+      const registration = await storage.findRegisteredRepositoryByGithubId(repoId);
+      if (!registration) {
+        return res.status(404).json({ error: 'Repository not found' });
+      }
+      if (!await canManageRepositoryTeam(req.user, repoId, registration.githubRepoFullName)) {
+        return res.status(403).json({ error: 'Only repository owners and GitHub admins can change managers' });
+      }
 
-        const repositoriesWithPoolInfo = await Promise.all(
-          registeredRepos.map(async (repo) => {
-            try {
-              const poolInfo = await blockchain.getRepository(parseInt(repo.githubRepoId)); // Changed getPoolInfo to getRepository
-              return {
-                ...repo,
-                xdcPoolRewards: poolInfo?.xdcPoolRewards || "0.0",
-                roxnPoolRewards: poolInfo?.roxnPoolRewards || "0.0",
-                // issues array from poolInfo is also available if needed: poolInfo?.issues
-              };
-            } catch (err: any) {
-              log(`Error fetching pool info for repo ${repo.githubRepoId} in /api/repositories/public: ${err.message}`, 'routes-ERROR');
-              return {
-                ...repo,
-                xdcPoolRewards: "0.0",
-                roxnPoolRewards: "0.0",
-              };
-            }
-          })
-        );
+      const updated = await repositoryManagerService.updateMember(id, repoId, validationResult.data);
+      if (!updated) {
+        return res.status(404).json({ error: 'Manager not found' });
+      }
+      res.json(updated);
+    } catch (error: any) {
+      log(`Error updating manager ${req.params.id} of ${req.params.repoId}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to update manager' });
+    }
+  });
 
-        res.json({ repositories: repositoriesWithPoolInfo });
-      } catch (error) {
-        log(`Error fetching public repositories: ${error}`, 'routes');
-        res.status(500).json({ error: 'Failed to fetch public repositories' });
+  // Revoke a member or withdraw a pending invite
+  app.delete("/api/repositories/:repoId/managers/:id", requireAuth, csrfProtection, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    try {
+      const { repoId } = req.params;
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid manager ID' });
       }
-    });
 
-  // Public API to get repository data by ID
-  app.get("/api/public/repositories/:repoId",
-    securityMiddlewares.repoRateLimiter,
-    securityMiddlewares.securityMonitor,
-    async (req: Request, res: Response) => {
-      try {
-        const { repoId } = req.params;
-        const numberId = parseInt(repoId, 10);
+      const registration = await storage.findRegisteredRepositoryByGithubId(repoId);
+      if (!registration) {
+        return res.status(404).json({ error: 'Repository not found' });
+      }
+      if (!await canManageRepositoryTeam(req.user, repoId, registration.githubRepoFullName)) {
+        return res.status(403).json({ error: 'Only repository owners and GitHub admins can remove managers' });
+      }
 
-        if (isNaN(numberId)) {
-          return res.status(400).json({ error: 'Invalid repository ID format' });
-        }
+      const revoked = await repositoryManagerService.revoke(id, repoId);
+      if (!revoked) {
+        return res.status(404).json({ error: 'Manager not found' });
+      }
+      res.json(revoked);
+    } catch (error: any) {
+      log(`Error revoking manager ${req.params.id} of ${req.params.repoId}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to remove manager' });
+    }
+  });
 
-        // Check if repository exists and is public
-        const repoRegistration = await storage.getPublicRepositoryById(numberId);
-        if (!repoRegistration) {
-          return res.status(404).json({ error: 'Repository not found or not public' });
-        }
+  // A repository's approval policy, its approvers and its proposals with their votes
+  app.get("/api/repositories/:repoId/multisig", requireAuth, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    try {
+      const { repoId } = req.params;
+      const registration = await storage.findRegisteredRepositoryByGithubId(repoId);
+      if (!registration) {
+        return res.status(404).json({ error: 'Repository not found' });
+      }
 
-        // Get blockchain data without authentication
-        const repoData = await blockchain.getRepository(numberId);
+      const access = await repositoryManagerService.getAccess(repoId, req.user.githubUsername);
+      const canManage = await canManageRepositoryTeam(req.user, repoId, registration.githubRepoFullName);
+      if (!access && !canManage) {
+        return res.status(403).json({ error: 'Not a member of this repository' });
+      }
 
-        res.json({
-          repository: repoData,
-          github_info: {
-            name: repoRegistration.githubRepoFullName.split('/')[1] || '',
-            owner: repoRegistration.githubRepoFullName.split('/')[0] || '',
-            full_name: repoRegistration.githubRepoFullName
-          }
-        });
-      } catch (error) {
-        log(`Error fetching public repository data: ${error}`, 'routes');
-        res.status(500).json({ error: 'Failed to fetch repository data' });
+      const [policy, poolManagers, proposals] = await Promise.all([
+        multisigService.getPolicy(repoId),
+        storage.getRepositoryPoolManagers(parseInt(repoId)),
+        multisigService.listProposals(repoId),
+      ]);
+      const approvers: string[] = poolManagers.map(user => user.githubUsername);
+      res.json({
+        policy,
+        approvers,
+        proposals,
+        canApprove: approvers.some(username => username?.toLowerCase() === req.user!.githubUsername.toLowerCase()),
+        canManage,
+      });
+    } catch (error: any) {
+      log(`Error fetching multisig state for ${req.params.repoId}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to fetch approvals' });
+    }
+  });
+
+  // Set how many pool manager approvals large allocations and payouts need, and above what amounts
+  app.put("/api/repositories/:repoId/multisig/policy", requireAuth, csrfProtection, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    try {
+      const { repoId } = req.params;
+      const validationResult = setMultisigPolicySchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid approval policy', details: validationResult.error.format() });
       }
-    });
 
-  // Public API to get repository bounties
-  app.get("/api/public/repositories/:repoId/bounties",
-    securityMiddlewares.repoRateLimiter,
-    securityMiddlewares.securityMonitor,
-    async (req: Request, res: Response) => {
-      try {
-        const { repoId } = req.params;
-        const numberId = parseInt(repoId, 10);
+      const registration = await storage.findRegisteredRepositoryByGithubId(repoId);
+      if (!registration) {
+        return res.status(404).json({ error: 'Repository not found' });
+      }
+      if (!await canManageRepositoryTeam(req.user, repoId, registration.githubRepoFullName)) {
+        return res.status(403).json({ error: 'Only repository owners and GitHub admins can change the approval policy' });
+      }
 
-        if (isNaN(numberId)) {
-          return res.status(400).json({ error: 'Invalid repository ID format' });
-        }
+      const policy = await multisigService.setPolicy(repoId, validationResult.data, req.user.id);
+      res.json(policy);
+    } catch (error: any) {
+      if (error instanceof MultisigPolicyError) {
+        return res.status(400).json({ error: error.message });
+      }
+      log(`Error setting multisig policy for ${req.params.repoId}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to save approval policy' });
+    }
+  });
 
-        // Check if repository exists and is public
-        const repoRegistration = await storage.getPublicRepositoryById(numberId);
-        if (!repoRegistration) {
-          return res.status(404).json({ error: 'Repository not found or not public' });
+  // Approve or reject a held allocation or payout. The vote that reaches the quorum runs it.
+  const recordMultisigVote = (decision: 'approve' | 'reject') => async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    try {
+      const { repoId } = req.params;
+      const id = parseInt(req.params.id);
+      const validationResult = multisigDecisionSchema.safeParse(req.body ?? {});
+      if (isNaN(id) || !validationResult.success) {
+        return res.status(400).json({ error: 'Invalid decision', details: validationResult.error?.format() });
+      }
+
+      const result = await multisigService.vote(
+        id,
+        repoId,
+        { id: req.user.id, githubUsername: req.user.githubUsername },
+        decision,
+        validationResult.data.note
+      );
+      if (!result.success) {
+        switch (result.error) {
+          case 'not_pool_manager':
+            return res.status(403).json({ error: 'Only pool managers can approve or reject proposals' });
+          case 'not_found':
+            return res.status(404).json({ error: 'Proposal not found' });
+          case 'not_open':
+            return res.status(409).json({ error: 'This proposal is no longer waiting for approval' });
+          case 'already_voted':
+            return res.status(409).json({ error: 'You have already voted on this proposal' });
         }
+      }
 
-        // Get repository from blockchain to extract bounties
-        const repoData = await blockchain.getRepository(numberId);
-
-        // Extract bounties from repository data
-        const bounties = repoData?.issues || [];
-
-        res.json({
-          bounties,
-          repositoryId: numberId,
-          repositoryName: repoRegistration.githubRepoFullName
-        });
-      } catch (error) {
-        log(`Error fetching public repository bounties: ${error}`, 'routes');
-        res.status(500).json({ error: 'Failed to fetch repository bounties' });
+      if (result.quorumReached) {
+        await executeMultisigProposal(result.proposal);
       }
-    });
+      const proposal = await multisigService.getProposal(id, repoId);
+      res.json(proposal);
+    } catch (error: any) {
+      log(`Error recording vote on multisig proposal ${req.params.id}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to record decision' });
+    }
+  };
+  app.post("/api/repositories/:repoId/multisig/proposals/:id/approve", requireAuth, csrfProtection, recordMultisigVote('approve'));
+  app.post("/api/repositories/:repoId/multisig/proposals/:id/reject", requireAuth, csrfProtection, recordMultisigVote('reject'));
 
-  // Public API to get GitHub issues with bounty labels
-  app.get("/api/public/github/issues", async (req: Request, res: Response) => {
+  // Withdraw a proposal before it is approved (its proposer or anyone who can manage the team)
+  app.post("/api/repositories/:repoId/multisig/proposals/:id/cancel", requireAuth, csrfProtection, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
     try {
-      const { owner, repo, labels } = req.query;
+      const { repoId } = req.params;
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid proposal ID' });
+      }
 
-      // SSRF Protection: Validate owner and repo using centralized validation functions
-      if (typeof owner !== 'string' || typeof repo !== 'string') {
-        return res.status(400).json({ error: 'Missing owner/repo parameters' });
+      const [registration, proposal] = await Promise.all([
+        storage.findRegisteredRepositoryByGithubId(repoId),
+        multisigService.getProposal(id, repoId),
+      ]);
+      if (!registration || !proposal) {
+        return res.status(404).json({ error: 'Proposal not found' });
       }
-      if (!isValidGitHubOwner(owner) || !isValidGitHubRepo(repo)) {
-        return res.status(400).json({ error: 'Invalid owner/repo format' });
+      if (proposal.proposedBy !== req.user.id && !await canManageRepositoryTeam(req.user, repoId, registration.githubRepoFullName)) {
+        return res.status(403).json({ error: 'Only the proposer or a repository owner can cancel this proposal' });
       }
 
-      // Get issues with bounty labels from GitHub API directly
-      // Use GitHub App installation token if available
-      const fullRepoName = `${owner}/${repo}`;
-
-      // Find the installation for this repository
-      const repositoryInfo = await storage.findRepositoryByFullName(fullRepoName);
+      const cancelled = await multisigService.cancel(id, repoId);
+      if (!cancelled) {
+        return res.status(409).json({ error: 'This proposal is no longer waiting for approval' });
+      }
+      log(`Multisig proposal ${id} cancelled by user ${req.user.id}`, 'routes');
+      res.json(cancelled);
+    } catch (error: any) {
+      log(`Error cancelling multisig proposal ${req.params.id}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to cancel proposal' });
+    }
+  });
 
-      // Use safe URL builder to prevent SSRF
-      let issuesUrl = buildSafeGitHubUrl('/repos/{owner}/{repo}/issues', { owner, repo });
-      let headers: Record<string, string> = {
-        'Accept': 'application/vnd.github.v3+json'
-      };
+  // Pending bounty team invites for the current user
+  app.get("/api/user/manager-invites", requireAuth, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    try {
+      const invites = await repositoryManagerService.listInvitesForUser(req.user.githubUsername);
+      res.json({ invites });
+    } catch (error: any) {
+      log(`Error fetching manager invites for user ${req.user.id}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to fetch invites' });
+    }
+  });
 
-      // If we have installation ID, use app auth
-      if (repositoryInfo?.installationId) {
-        const token = await getInstallationAccessToken(repositoryInfo.installationId);
-        headers['Authorization'] = `Bearer ${token}`;
+  app.post("/api/user/manager-invites/:id/accept", requireAuth, csrfProtection, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid invite ID' });
       }
-
-      // Add label filter if provided
-      if (labels && typeof labels === 'string') {
-        const labelList = labels.split(',').join(',');
-        issuesUrl += `?labels=${encodeURIComponent(labelList)}`;
+      const accepted = await repositoryManagerService.accept(id, req.user);
+      if (!accepted) {
+        return res.status(404).json({ error: 'Invite not found' });
       }
+      res.json(accepted);
+    } catch (error: any) {
+      log(`Error accepting manager invite ${req.params.id}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to accept invite' });
+    }
+  });
 
-      const response = await axios.get(issuesUrl, { headers });
-
-      // Return the issues
-      res.json(response.data);
-    } catch (error) {
-      console.error('Error fetching GitHub issues with bounty labels:', error);
-      res.status(500).json({ error: 'Failed to fetch GitHub issues' });
+  // The current user's prompt organisation, their cap and usage this month, and invites waiting for them
+  app.get("/api/prompt-organizations/me", requireAuth, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    try {
+      const [membership, invites] = await Promise.all([
+        promptOrganizationService.getActiveMembership(req.user.id),
+        promptOrganizationService.listInvitesForUser(req.user.githubUsername),
+      ]);
+      const monthlyUsed = membership
+        ? await promptOrganizationService.getMonthlyUsage(membership.organization.id, req.user.id)
+        : 0;
+      res.json({
+        organization: membership?.organization ?? null,
+        membership: membership ? { ...membership.member, monthlyUsed } : null,
+        invites,
+      });
+    } catch (error: any) {
+      log(`Error fetching prompt organisation for user ${req.user.id}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to fetch organisation' });
     }
   });
 
-  // NEW: Unified public API endpoint that combines all repository data sources
-  app.get("/api/public/unified-repo/:owner/:repo", async (req: Request, res: Response) => {
-    const { owner, repo } = req.params;
+  // Create a prompt organisation with the current user as its admin
+  app.post("/api/prompt-organizations", requireAuth, csrfProtection, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    try {
+      const validationResult = createPromptOrganizationSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid organisation', details: validationResult.error.format() });
+      }
+      const organization = await promptOrganizationService.create(validationResult.data.name, req.user);
+      res.status(201).json(organization);
+    } catch (error: any) {
+      if (error instanceof PromptOrganizationError) {
+        return res.status(409).json({ error: error.message });
+      }
+      log(`Error creating prompt organisation for user ${req.user.id}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to create organisation' });
+    }
+  });
 
-    // Validate owner and repo so they only contain safe GitHub-acceptable characters
-    // GitHub username/org: alphanumeric (a-z, 0-9), hyphens (-), max 39 chars
-    // Repo name: most allow dot (.), underscore (_), hyphens (-), no slashes, max 100 chars
-    const validOwner = /^[a-zA-Z0-9-]{1,39}$/.test(owner);
-    const validRepo = /^[\w\-.]{1,100}$/.test(repo);
+  // List an organisation's members and pending invites with their usage this month
+  app.get("/api/prompt-organizations/:orgId/members", requireAuth, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    try {
+      const orgId = parseInt(req.params.orgId);
+      if (isNaN(orgId)) {
+        return res.status(400).json({ error: 'Invalid organisation ID' });
+      }
+      if (await promptOrganizationService.getRole(orgId, req.user.id) !== 'admin') {
+        return res.status(403).json({ error: 'Only organisation admins can see the members' });
+      }
+      const members = await promptOrganizationService.listMembers(orgId);
+      res.json({ members });
+    } catch (error: any) {
+      log(`Error listing members of prompt organisation ${req.params.orgId}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to list members' });
+    }
+  });
 
-    if (!owner || !repo || !validOwner || !validRepo) {
-      return res.status(400).json({ error: 'Invalid owner or repo name.' });
+  // Invite a GitHub user to an organisation
+  app.post("/api/prompt-organizations/:orgId/members", requireAuth, csrfProtection, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
     }
+    try {
+      const orgId = parseInt(req.params.orgId);
+      const validationResult = invitePromptOrganizationMemberSchema.safeParse(req.body);
+      if (isNaN(orgId) || !validationResult.success) {
+        return res.status(400).json({ error: 'Invalid invite', details: validationResult.error?.format() });
+      }
+      if (await promptOrganizationService.getRole(orgId, req.user.id) !== 'admin') {
+        return res.status(403).json({ error: 'Only organisation admins can invite members' });
+      }
 
-    const fullRepoName = `${owner}/${repo}`;
-    log(`Fetching unified data for ${fullRepoName}`, 'routes');
+      const invite = await promptOrganizationService.invite({
+        organizationId: orgId,
+        ...validationResult.data,
+        invitedBy: req.user.id,
+      });
+      if (!invite) {
+        return res.status(409).json({ error: `${validationResult.data.githubUsername} is already a member or has a pending invite` });
+      }
+      res.status(201).json(invite);
+    } catch (error: any) {
+      log(`Error inviting member to prompt organisation ${req.params.orgId}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to invite member' });
+    }
+  });
 
+  // Change a member's role or monthly cap
+  app.patch("/api/prompt-organizations/:orgId/members/:id", requireAuth, csrfProtection, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
     try {
-      // Step 1: Get GitHub repository data (description, issues, etc.)
-      let githubData;
-      try {
-        // Try to get data using GitHub App installation if available
-        const repoInfo = await storage.findRepositoryByFullName(fullRepoName);
-        if (repoInfo?.installationId) {
-          const token = await getInstallationAccessToken(repoInfo.installationId);
-          const headers = {
-            'Authorization': `Bearer ${token}`,
-            'Accept': 'application/vnd.github.v3+json'
-          };
-          const repoResponse = await axios.get(`${GITHUB_API_BASE}/repos/${owner}/${repo}`, { headers });
-          githubData = repoResponse.data;
-        } else {
-          // Fall back to public GitHub API if no installation is found
-          const repoResponse = await axios.get(`${GITHUB_API_BASE}/repos/${owner}/${repo}`);
-          githubData = repoResponse.data;
-        }
-      } catch (githubError) {
-        console.error('Error fetching GitHub data:', githubError);
-        githubData = null;
+      const orgId = parseInt(req.params.orgId);
+      const id = parseInt(req.params.id);
+      const validationResult = updatePromptOrganizationMemberSchema.safeParse(req.body);
+      if (isNaN(orgId) || isNaN(id) || !validationResult.success) {
+        return res.status(400).json({ error: 'Invalid member update', details: validationResult.error?.format() });
       }
-
-      // Step 2: Get blockchain data if the repository is registered
-      let blockchainData = null;
-      let repoId = null;
-      try {
-        // Check if repository exists in our system
-        const registration = await storage.findRepositoryByFullName(fullRepoName);
-        if (registration) {
-          repoId = registration.githubRepoId;
-          blockchainData = await blockchain.getRepository(parseInt(repoId, 10));
-        }
-      } catch (blockchainError) {
-        console.error('Error fetching blockchain data:', blockchainError);
+      if (await promptOrganizationService.getRole(orgId, req.user.id) !== 'admin') {
+        return res.status(403).json({ error: 'Only organisation admins can change members' });
       }
 
-      // Step 3: Get GitHub issues that might have bounties
-      let issues = [];
-      try {
-        // Get issues with or without a token depending on availability
-        const repoInfo = await storage.findRepositoryByFullName(fullRepoName);
-        let headers: Record<string, string> = {
-          'Accept': 'application/vnd.github.v3+json'
-        };
+      const updated = await promptOrganizationService.updateMember(id, orgId, validationResult.data);
+      if (!updated) {
+        return res.status(404).json({ error: 'Member not found' });
+      }
+      res.json(updated);
+    } catch (error: any) {
+      if (error instanceof PromptOrganizationError) {
+        return res.status(409).json({ error: error.message });
+      }
+      log(`Error updating member ${req.params.id} of prompt organisation ${req.params.orgId}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to update member' });
+    }
+  });
 
-        if (repoInfo?.installationId) {
-          const token = await getInstallationAccessToken(repoInfo.installationId);
-          headers['Authorization'] = `Bearer ${token}`;
-        }
+  // Remove a member or withdraw an invite. Members can also remove themselves to leave.
+  app.delete("/api/prompt-organizations/:orgId/members/:id", requireAuth, csrfProtection, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    try {
+      const orgId = parseInt(req.params.orgId);
+      const id = parseInt(req.params.id);
+      if (isNaN(orgId) || isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid member ID' });
+      }
 
-        const issuesResponse = await axios.get(
-          `${GITHUB_API_BASE}/repos/${owner}/${repo}/issues?state=open`,
-          { headers }
-        );
-        issues = issuesResponse.data;
-      } catch (issuesError) {
-        console.error('Error fetching GitHub issues:', issuesError);
+      const membership = await promptOrganizationService.getActiveMembership(req.user.id);
+      const isSelf = membership?.member.id === id && membership.organization.id === orgId;
+      if (!isSelf && await promptOrganizationService.getRole(orgId, req.user.id) !== 'admin') {
+        return res.status(403).json({ error: 'Only organisation admins can remove members' });
       }
 
-      // Return the combined data
-      res.json({
-        github: githubData,
-        blockchain: blockchainData,
-        issues: issues,
-        registered: !!repoId,
-        repoId: repoId
-      });
-    } catch (error) {
-      console.error('Error in unified repo endpoint:', error);
-      res.status(500).json({ error: 'Failed to fetch repository data' });
+      const revoked = await promptOrganizationService.revoke(id, orgId);
+      if (!revoked) {
+        return res.status(404).json({ error: 'Member not found' });
+      }
+      res.json(revoked);
+    } catch (error: any) {
+      if (error instanceof PromptOrganizationError) {
+        return res.status(409).json({ error: error.message });
+      }
+      log(`Error removing member ${req.params.id} of prompt organisation ${req.params.orgId}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to remove member' });
     }
   });
 
-  // NEW: Endpoint to get details for a repo based on owner/name (for URL mapping)
-  app.get("/api/repos/details",
-    securityMiddlewares.repoRateLimiter,
-    securityMiddlewares.securityMonitor,
-    async (req: Request, res: Response) => {
-      const { owner, repo } = req.query;
-
-      if (!owner || !repo || typeof owner !== 'string' || typeof repo !== 'string') {
-        return res.status(400).json({ error: 'Missing or invalid owner/repo query parameters' });
+  // Usage of the pool per member and model for one calendar month (UTC), `month=YYYY-MM`, default this month
+  app.get("/api/prompt-organizations/:orgId/usage", requireAuth, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    try {
+      const orgId = parseInt(req.params.orgId);
+      const month = typeof req.query.month === 'string' ? req.query.month : undefined;
+      if (isNaN(orgId) || (month !== undefined && !/^\d{4}-(0[1-9]|1[0-2])$/.test(month))) {
+        return res.status(400).json({ error: 'Invalid organisation ID or month' });
       }
-
-      const fullRepoName = `${owner}/${repo}`;
-      log(`Fetching details for ${fullRepoName} via /api/repos/details`, 'routes');
-
-      try {
-        // TODO: Need a function in storage like findRegisteredRepositoryByName(owner, repo)
-        // Placeholder: Querying directly for now (adjust table/column names if needed)
-        const registrations = await db.select()
-          .from(registeredRepositories)
-          .where(sql`${registeredRepositories.githubRepoFullName} = ${fullRepoName}`)
-          .limit(1);
-
-        const registration = registrations[0];
-
-        if (registration) {
-          log(`Repository ${fullRepoName} found in Roxonn DB (ID: ${registration.githubRepoId})`, 'routes');
-          // Repo is managed on Roxonn
-          // TODO: Fetch relevant Roxonn data (pool balance, tasks, managers etc.)
-          // This might involve calling blockchain.getRepository(registration.githubRepoId)
-          // and potentially other DB lookups.
-          const roxonnData = {
-            githubRepoId: registration.githubRepoId,
-            githubRepoFullName: registration.githubRepoFullName,
-            registeredAt: registration.registeredAt, // Fixed: Use registeredAt instead of createdAt
-            // Placeholder for actual data
-            poolBalance: '0', // Example: await blockchain.getRepositoryPoolBalance(...)
-            managers: [], // Example: await storage.getPoolManagers(...)
-            tasks: [], // Example: await storage.getOpenTasks(...)
-          };
-          return res.json({ status: 'managed', data: roxonnData });
-        } else {
-          log(`Repository ${fullRepoName} not found in Roxonn DB`, 'routes');
-          // Repo is not managed on Roxonn
-          // TODO: Optionally fetch basic info from GitHub API
-          let githubInfo = null;
-          try {
-            // Example: Reuse existing helper if suitable or create a new one
-            // Need to handle auth carefully - maybe unauthenticated or use app token
-            // githubInfo = await getBasicRepoInfo(owner, repo); // Hypothetical function
-            githubInfo = { name: repo, owner: owner, description: 'Basic info from GitHub (placeholder)', stars: 0 };
-          } catch (githubError: any) {
-            log(`Failed to fetch basic GitHub info for ${fullRepoName}: ${githubError.message}`, 'routes');
-          }
-          return res.json({ status: 'not_managed', github_info: githubInfo });
-        }
-      } catch (error: any) {
-        log(`Error fetching repository details for ${fullRepoName}: ${error.message}`, 'routes');
-        res.status(500).json({ error: 'Failed to fetch repository details' });
+      if (await promptOrganizationService.getRole(orgId, req.user.id) !== 'admin') {
+        return res.status(403).json({ error: 'Only organisation admins can see usage reports' });
       }
-    });
-  // --- End Platform Repository Routes ---
 
-  // --- GitHub App Routes ---
-  app.get("/api/github/app/install-url", requireAuth, (_req: Request, res: Response) => {
-    // Construct the installation URL for the GitHub App
-    // Use the config variable
-    const installUrl = `https://github.com/apps/${config.githubAppName}/installations/new`;
-    // Optionally, could add ?target_id=... or ?repository_id=... if needed
-    res.json({ installUrl });
+      const from = month ? new Date(`${month}-01T00:00:00Z`) : startOfMonthUtc();
+      const to = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth() + 1, 1));
+      const rows = await promptOrganizationService.getUsageReport(orgId, from, to);
+      res.json({ month: from.toISOString().slice(0, 7), rows });
+    } catch (error: any) {
+      log(`Error building usage report for prompt organisation ${req.params.orgId}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to build usage report' });
+    }
   });
 
-  // NEW: Endpoint called by frontend after user redirects back from GitHub installation
-  app.post("/api/github/app/finalize-installation", requireAuth, csrfProtection, async (req: Request, res: Response) => {
-    const { installationId } = req.body;
-    const userId = req.user!.id; // requireAuth ensures user exists
-
-    if (!installationId || typeof installationId !== 'string') {
-      return res.status(400).json({ error: 'Missing or invalid installation ID' });
+  // Latest entries of the pool's ledger
+  app.get("/api/prompt-organizations/:orgId/transactions", requireAuth, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
     }
-    log(`Finalizing installation ID ${installationId} for user ID ${userId}`, 'github-app');
-
     try {
-      // 1. Get an installation access token
-      const token = await getInstallationAccessToken(installationId);
-      if (!token) { throw new Error('Could not generate installation token'); }
-      const headers = getGitHubApiHeaders(token);
-
-      // 2. Fetch repositories associated with this installation ID from GitHub
-      interface InstallationReposResponse {
-        total_count: number;
-        repositories: any[]; // Use specific type if known, else any[]
-      }
-      const repoResponse = await axios.get<InstallationReposResponse>(
-        `${GITHUB_API_BASE}/installation/repositories`,
-        { headers: headers }
-      );
-
-      // Check response structure before accessing .repositories
-      if (!repoResponse.data || !Array.isArray(repoResponse.data.repositories)) {
-        throw new Error('Could not fetch repositories for installation - invalid response structure');
+      const orgId = parseInt(req.params.orgId);
+      if (isNaN(orgId)) {
+        return res.status(400).json({ error: 'Invalid organisation ID' });
       }
-
-      const repositories = repoResponse.data.repositories;
-      log(`Found ${repositories.length} repositories for installation ${installationId}`, 'github-app');
-
-      // 3. Update DB for each repository
-      let finalResults = [];
-      let successfulAssociations = 0;
-      for (const repo of repositories) {
-        const githubRepoId = String(repo.id);
-        const githubRepoFullName = repo.full_name;
-        if (!githubRepoId || !githubRepoFullName) {
-          log(`Warning: Skipping repo with missing ID or full name from installation ${installationId}: ${JSON.stringify(repo)}`, 'github-app');
-          continue; // Skip this repo
-        }
-
-        try {
-          // Check if the repository already exists in our DB
-          const existingRepo = await storage.findRegisteredRepositoryByGithubId(githubRepoId);
-
-          if (!existingRepo) {
-            // Repository doesn't exist, create it first and link to installation
-            log(`Repository ${githubRepoFullName} (ID: ${githubRepoId}) not found in DB. Creating...`, 'github-app');
-            await storage.addOrUpdateInstallationRepo(installationId, githubRepoId, githubRepoFullName);
-            log(`Repository ${githubRepoFullName} created and linked to installation ${installationId}.`, 'github-app');
-            // Now associate the user
-            await storage.associateUserToInstallationRepo(userId, githubRepoId, installationId);
-            log(`User ${userId} associated with new repository ${githubRepoFullName}.`, 'github-app');
-          } else {
-            // Repository exists, just associate the user (this also updates installation ID)
-            log(`Repository ${githubRepoFullName} (ID: ${githubRepoId}) found in DB. Associating user...`, 'github-app');
-            await storage.associateUserToInstallationRepo(userId, githubRepoId, installationId);
-            log(`User ${userId} associated with existing repository ${githubRepoFullName}.`, 'github-app');
-          }
-          successfulAssociations++;
-        } catch (dbError: any) {
-          // Log the specific error for this repo but continue with others
-          log(`Error associating repo ${githubRepoFullName} (ID: ${githubRepoId}) for user ${userId}: ${dbError.message}`, 'github-app');
-          // Optionally add to a list of failed associations to return to the user
-        }
+      if (await promptOrganizationService.getRole(orgId, req.user.id) !== 'admin') {
+        return res.status(403).json({ error: 'Only organisation admins can see the ledger' });
       }
-
-      log(`Successfully processed ${repositories.length} repositories, associated ${successfulAssociations} for user ${userId}`, 'github-app');
-      // Return success even if some individual associations failed (they were logged)
-      res.json({ success: true, count: successfulAssociations }); // Update count to reflect actual successes
-
+      const transactions = await promptOrganizationService.listTransactions(orgId);
+      res.json({ transactions });
     } catch (error: any) {
-      // This catches errors like token generation or the initial repo fetch
-      log(`Error finalizing installation ${installationId} for user ${userId}: ${error.message}`, 'github-app');
-      res.status(500).json({ error: 'Failed to finalize installation' });
+      log(`Error listing transactions of prompt organisation ${req.params.orgId}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to list transactions' });
     }
   });
 
-  // Protected profile routes
-  app.patch("/api/profile", requireAuth, csrfProtection, async (req, res) => {
-    const result = updateProfileSchema.safeParse(req.body);
-    if (!result.success) {
-      return res.status(400).json({ error: "Invalid profile data" });
+  // Move prompts from the current user's balance into their organisation's pool
+  app.post("/api/prompt-organizations/:orgId/deposit", requireAuth, csrfProtection, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
     }
-
     try {
-      // Since this route uses requireAuth middleware, we know req.user exists
-      const updatedUser = await storage.updateProfile(req.user!.id, result.data);
-      // Sanitize user data before sending to client
-      res.json(sanitizeUserData(updatedUser));
-    } catch (error) {
-      console.error("Error updating profile:", error);
-      res.status(400).json({ error: "Failed to update profile" });
+      const orgId = parseInt(req.params.orgId);
+      const validationResult = depositOrganizationPromptsSchema.safeParse(req.body);
+      if (isNaN(orgId) || !validationResult.success) {
+        return res.status(400).json({ error: 'Invalid deposit', details: validationResult.error?.format() });
+      }
+      if (!await promptOrganizationService.getRole(orgId, req.user.id)) {
+        return res.status(403).json({ error: 'Not a member of this organisation' });
+      }
+
+      const balances = await promptOrganizationService.deposit(orgId, req.user.id, validationResult.data.prompts);
+      res.json(balances);
+    } catch (error: any) {
+      if (error instanceof PromptOrganizationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      log(`Error depositing into prompt organisation ${req.params.orgId}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to deposit prompts' });
     }
   });
 
-  // Get wallet info
-  /**
-   * @openapi
-   * /api/wallet/info:
-   *   get:
-   *     summary: Get user wallet information
-   *     tags: [Wallet]
-   *     security:
-   *       - cookieAuth: []
-   *     responses:
-   *       200:
-   *         description: Wallet info
-   *         content:
-   *           application/json:
-   *             schema:
-   *               $ref: '#/components/schemas/WalletInfo'
-   *       401:
-   *         description: Unauthorized
-   */
-  app.get('/api/wallet/info', requireAuth, csrfProtection, async (req, res) => {
+  app.post("/api/user/prompt-organization-invites/:id/accept", requireAuth, csrfProtection, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
     try {
-      const user = req.user;
-      if (!user) {
-        return res.status(401).json({ error: 'User not authenticated' });
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid invite ID' });
       }
-
-      // Get wallet info from blockchain service
-      const walletInfo = await blockchain.getWalletInfo(user.id);
-
-      // Mask address for logging to reduce sensitive data exposure
-      const maskedAddress = walletInfo.address ?
-        `${walletInfo.address.substring(0, 6)}...${walletInfo.address.substring(walletInfo.address.length - 4)}` :
-        'none';
-      log(`Wallet info retrieved for user ${user.id}, Address=${maskedAddress}`, 'routes');
-
-      // Add cache control headers to prevent caching sensitive data
-      res.setHeader('Cache-Control', 'no-store, no-cache, must-revalidate, proxy-revalidate');
-      res.setHeader('Pragma', 'no-cache');
-      res.setHeader('Expires', '0');
-
-      // Format BigInt values as strings for JSON response
-      res.json({
-        address: walletInfo.address,
-        balance: walletInfo.balance.toString(),
-        tokenBalance: walletInfo.tokenBalance.toString()
-      });
-    } catch (error) {
-      console.error('Error fetching wallet info:', error);
-      res.status(500).json({ error: 'Failed to fetch wallet information' });
+      const accepted = await promptOrganizationService.accept(id, req.user);
+      if (!accepted) {
+        return res.status(404).json({ error: 'Invite not found' });
+      }
+      res.json(accepted);
+    } catch (error: any) {
+      if (error instanceof PromptOrganizationError) {
+        return res.status(409).json({ error: error.message });
+      }
+      log(`Error accepting prompt organisation invite ${req.params.id}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to accept invite' });
     }
   });
 
-  // Get transfer limits for user wallet
+  // Get repositories accessible to the current user (public + private repos they have GitHub access to)
+  // Uses GitHub App installation tokens to check collaborator status - NO user private tokens needed
   /**
    * @openapi
-   * /api/wallet/limits:
+   * /api/repositories/accessible:
    *   get:
-   *     summary: Get wallet transfer limits
-   *     tags: [Wallet]
+   *     summary: Get all repositories accessible to current user
+   *     tags: [Repositories]
    *     security:
    *       - cookieAuth: []
    *     responses:
    *       200:
-   *         description: Transfer limits
+   *         description: List of accessible repositories
    *         content:
    *           application/json:
    *             schema:
    *               type: object
    *               properties:
-   *                 usedAmount: { type: number }
-   *                 remainingLimit: { type: number }
-   *                 dailyLimit: { type: number }
-   *                 resetTime: { type: string, format: date-time }
+   *                 repositories:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/Repository'
    *       401:
    *         description: Unauthorized
    */
-  app.get('/api/wallet/limits', requireAuth, csrfProtection, async (req, res) => {
-    try {
-      const user = req.user;
-      if (!user) {
+  app.get("/api/repositories/accessible",
+    requireAuth,
+    securityMiddlewares.repoRateLimiter,
+    securityMiddlewares.securityMonitor,
+    async (req: Request, res: Response) => {
+      if (!req.user) {
         return res.status(401).json({ error: 'User not authenticated' });
       }
+      try {
+        // Get all registered repos (both public and private)
+        const allRegisteredRepos = await storage.getAllRegisteredRepositories();
+        const username = req.user.username;
 
-      // Get transfer limits from service
-      const transferStatus = transferLimits.getUserTransferStatus(user.id.toString());
-
-      // Format the response
-      const response = {
-        usedAmount: transferStatus.usedAmount,
-        remainingLimit: transferStatus.remainingLimit,
-        dailyLimit: DAILY_TRANSFER_LIMIT,
-        resetTime: transferStatus.resetTimestamp
+        // Check access for each repo
+        const accessibleRepos = await Promise.all(
+          allRegisteredRepos.map(async (repo) => {
+            // Public repos are always accessible
+            if (!repo.isPrivate) {
+              return repo;
+            }
+
+            // For private repos, check if user is a collaborator using GitHub App installation token
+            try {
+              const installationToken = await getInstallationAccessToken(repo.installationId);
+              if (!installationToken) {
+                log(`Could not get installation token for private repo ${repo.githubRepoFullName}`, 'routes');
+                return null;
+              }
+
+              // Check if user is a collaborator on this private repo
+              const collaboratorCheckUrl = `https://api.github.com/repos/${repo.githubRepoFullName}/collaborators/${username}`;
+              const response = await axios.get(collaboratorCheckUrl, {
+                headers: {
+                  Authorization: `token ${installationToken}`,
+                  Accept: 'application/vnd.github.v3+json'
+                },
+                validateStatus: (status) => status === 204 || status === 404 // 204 = is collaborator, 404 = not collaborator
+              });
+
+              // If user is a collaborator, include the repo
+              if (response.status === 204) {
+                log(`User ${username} is collaborator on private repo ${repo.githubRepoFullName}`, 'routes');
+                return repo;
+              }
+
+              return null; // User is not a collaborator
+            } catch (error: any) {
+              log(`Error checking collaborator status for ${repo.githubRepoFullName}: ${error.message}`, 'routes-ERROR');
+              return null; // On error, don't show private repo
+            }
+          })
+        );
+
+        // Filter out null values (repos user doesn't have access to)
+        const filteredRepos = accessibleRepos.filter(repo => repo !== null);
+
+        // Fetch pool info from blockchain for each accessible repo
+        const repositoriesWithPoolInfo = await Promise.all(
+          filteredRepos.map(async (repo) => {
+            try {
+              const poolInfo = await blockchain.getRepository(parseInt(repo.githubRepoId));
+              return {
+                ...repo,
+                xdcPoolRewards: poolInfo?.xdcPoolRewards || "0.0",
+                roxnPoolRewards: poolInfo?.roxnPoolRewards || "0.0",
+                usdcPoolRewards: poolInfo?.usdcPoolRewards || "0.0",
+              };
+            } catch (err: any) {
+              log(`Error fetching pool info for repo ${repo.githubRepoId}: ${err.message}`, 'routes-ERROR');
+              return {
+                ...repo,
+                xdcPoolRewards: "0.0",
+                roxnPoolRewards: "0.0",
+                usdcPoolRewards: "0.0",
+              };
+            }
+          })
+        );
+
+        const privateCount = repositoriesWithPoolInfo.filter(r => r.isPrivate).length;
+        log(`User ${username} (ID: ${req.user.id}) has access to ${repositoriesWithPoolInfo.length} repos (${privateCount} private)`, 'routes');
+        res.json({ repositories: repositoriesWithPoolInfo });
+      } catch (error) {
+        log(`Error fetching accessible repositories: ${error}`, 'routes');
+        res.status(500).json({ error: 'Failed to fetch accessible repositories' });
+      }
+    });
+
+  // Get all publicly visible registered repos, now including their pool balances
+  app.get("/api/repositories/public",
+    securityMiddlewares.repoRateLimiter,
+    securityMiddlewares.securityMonitor,
+    async (_req: Request, res: Response) => {
+      try {
+        const registeredRepos = await storage.getAllPublicRepositories();
+
+        const repositoriesWithPoolInfo = await Promise.all(
+          registeredRepos.map(async (repo) => {
+            try {
+              const poolInfo = await blockchain.getRepository(parseInt(repo.githubRepoId)); // Changed getPoolInfo to getRepository
+              return {
+                ...repo,
+                xdcPoolRewards: poolInfo?.xdcPoolRewards || "0.0",
+                roxnPoolRewards: poolInfo?.roxnPoolRewards || "0.0",
+                // issues array from poolInfo is also available if needed: poolInfo?.issues
+              };
+            } catch (err: any) {
+              log(`Error fetching pool info for repo ${repo.githubRepoId} in /api/repositories/public: ${err.message}`, 'routes-ERROR');
+              return {
+                ...repo,
+                xdcPoolRewards: "0.0",
+                roxnPoolRewards: "0.0",
+              };
+            }
+          })
+        );
+
+        res.json({ repositories: repositoriesWithPoolInfo });
+      } catch (error) {
+        log(`Error fetching public repositories: ${error}`, 'routes');
+        res.status(500).json({ error: 'Failed to fetch public repositories' });
+      }
+    });
+
+  // Public API to get repository data by ID
+  app.get("/api/public/repositories/:repoId",
+    securityMiddlewares.repoRateLimiter,
+    securityMiddlewares.securityMonitor,
+    async (req: Request, res: Response) => {
+      try {
+        const { repoId } = req.params;
+        const numberId = parseInt(repoId, 10);
+
+        if (isNaN(numberId)) {
+          return res.status(400).json({ error: 'Invalid repository ID format' });
+        }
+
+        // Check if repository exists and is public
+        const repoRegistration = await storage.getPublicRepositoryById(numberId);
+        if (!repoRegistration) {
+          return res.status(404).json({ error: 'Repository not found or not public' });
+        }
+
+        // Get blockchain data without authentication
+        const repoData = await blockchain.getRepository(numberId);
+
+        res.json({
+          repository: repoData,
+          github_info: {
+            name: repoRegistration.githubRepoFullName.split('/')[1] || '',
+            owner: repoRegistration.githubRepoFullName.split('/')[0] || '',
+            full_name: repoRegistration.githubRepoFullName
+          }
+        });
+      } catch (error) {
+        log(`Error fetching public repository data: ${error}`, 'routes');
+        res.status(500).json({ error: 'Failed to fetch repository data' });
+      }
+    });
+
+  // Public API to get repository bounties
+  app.get("/api/public/repositories/:repoId/bounties",
+    securityMiddlewares.repoRateLimiter,
+    securityMiddlewares.securityMonitor,
+    async (req: Request, res: Response) => {
+      try {
+        const { repoId } = req.params;
+        const numberId = parseInt(repoId, 10);
+
+        if (isNaN(numberId)) {
+          return res.status(400).json({ error: 'Invalid repository ID format' });
+        }
+
+        // Check if repository exists and is public
+        const repoRegistration = await storage.getPublicRepositoryById(numberId);
+        if (!repoRegistration) {
+          return res.status(404).json({ error: 'Repository not found or not public' });
+        }
+
+        // Get repository from blockchain to extract bounties
+        const repoData = await blockchain.getRepository(numberId);
+
+        // Extract bounties from repository data
+        const bounties = repoData?.issues || [];
+
+        res.json({
+          bounties,
+          repositoryId: numberId,
+          repositoryName: repoRegistration.githubRepoFullName
+        });
+      } catch (error) {
+        log(`Error fetching public repository bounties: ${error}`, 'routes');
+        res.status(500).json({ error: 'Failed to fetch repository bounties' });
+      }
+    });
+
+  // Public API listing who sponsored an issue
+  app.get("/api/public/issues/:owner/:repo/:issueNumber/sponsors",
+    securityMiddlewares.repoRateLimiter,
+    securityMiddlewares.securityMonitor,
+    async (req: Request, res: Response) => {
+      try {
+        const { owner, repo } = req.params;
+        const issueNumber = parseInt(req.params.issueNumber, 10);
+        if (!isValidGitHubOwner(owner) || !isValidGitHubRepo(repo) || isNaN(issueNumber)) {
+          return res.status(400).json({ error: 'Invalid issue reference' });
+        }
+
+        const registration = await storage.findRepositoryByFullName(`${owner}/${repo}`);
+        if (!registration || registration.isPrivate) {
+          return res.status(404).json({ error: 'Repository not found or not public' });
+        }
+
+        const summary = await issueSponsorshipService.getIssueSummary(registration.githubRepoId, registration.githubRepoFullName, issueNumber);
+        res.json(summary);
+      } catch (error) {
+        log(`Error fetching issue sponsors: ${error}`, 'routes');
+        res.status(500).json({ error: 'Failed to fetch issue sponsors' });
+      }
+    });
+
+  // Public API to get GitHub issues with bounty labels
+  app.get("/api/public/github/issues", async (req: Request, res: Response) => {
+    try {
+      const { owner, repo, labels } = req.query;
+
+      // SSRF Protection: Validate owner and repo using centralized validation functions
+      if (typeof owner !== 'string' || typeof repo !== 'string') {
+        return res.status(400).json({ error: 'Missing owner/repo parameters' });
+      }
+      if (!isValidGitHubOwner(owner) || !isValidGitHubRepo(repo)) {
+        return res.status(400).json({ error: 'Invalid owner/repo format' });
+      }
+
+      // Get issues with bounty labels from GitHub API directly
+      // Use GitHub App installation token if available
+      const fullRepoName = `${owner}/${repo}`;
+
+      // Find the installation for this repository
+      const repositoryInfo = await storage.findRepositoryByFullName(fullRepoName);
+
+      // Use safe URL builder to prevent SSRF
+      let issuesUrl = buildSafeGitHubUrl('/repos/{owner}/{repo}/issues', { owner, repo });
+      let headers: Record<string, string> = {
+        'Accept': 'application/vnd.github.v3+json'
       };
 
-      // Add cache control headers
-      res.setHeader('Cache-Control', 'no-store, no-cache, must-revalidate, proxy-revalidate');
-      res.setHeader('Pragma', 'no-cache');
-      res.setHeader('Expires', '0');
+      // If we have installation ID, use app auth
+      if (repositoryInfo?.installationId) {
+        const token = await getInstallationAccessToken(repositoryInfo.installationId);
+        headers['Authorization'] = `Bearer ${token}`;
+      }
 
-      res.json(response);
+      // Add label filter if provided
+      if (labels && typeof labels === 'string') {
+        const labelList = labels.split(',').join(',');
+        issuesUrl += `?labels=${encodeURIComponent(labelList)}`;
+      }
+
+      const response = await axios.get(issuesUrl, { headers });
+
+      // Return the issues
+      res.json(response.data);
     } catch (error) {
-      console.error('Error fetching transfer limits:', error);
-      res.status(500).json({ error: 'Failed to fetch transfer limits' });
+      console.error('Error fetching GitHub issues with bounty labels:', error);
+      res.status(500).json({ error: 'Failed to fetch GitHub issues' });
+    }
+  });
+
+  // NEW: Unified public API endpoint that combines all repository data sources
+  app.get("/api/public/unified-repo/:owner/:repo", async (req: Request, res: Response) => {
+    const { owner, repo } = req.params;
+
+    // Validate owner and repo so they only contain safe GitHub-acceptable characters
+    // GitHub username/org: alphanumeric (a-z, 0-9), hyphens (-), max 39 chars
+    // Repo name: most allow dot (.), underscore (_), hyphens (-), no slashes, max 100 chars
+    const validOwner = /^[a-zA-Z0-9-]{1,39}$/.test(owner);
+    const validRepo = /^[\w\-.]{1,100}$/.test(repo);
+
+    if (!owner || !repo || !validOwner || !validRepo) {
+      return res.status(400).json({ error: 'Invalid owner or repo name.' });
+    }
+
+    const fullRepoName = `${owner}/${repo}`;
+    log(`Fetching unified data for ${fullRepoName}`, 'routes');
+
+    try {
+      // Step 1: Get GitHub repository data (description, issues, etc.)
+      let githubData;
+      try {
+        // Try to get data using GitHub App installation if available
+        const repoInfo = await storage.findRepositoryByFullName(fullRepoName);
+        if (repoInfo?.installationId) {
+          const token = await getInstallationAccessToken(repoInfo.installationId);
+          const headers = {
+            'Authorization': `Bearer ${token}`,
+            'Accept': 'application/vnd.github.v3+json'
+          };
+          const repoResponse = await axios.get(`${GITHUB_API_BASE}/repos/${owner}/${repo}`, { headers });
+          githubData = repoResponse.data;
+        } else {
+          // Fall back to public GitHub API if no installation is found
+          const repoResponse = await axios.get(`${GITHUB_API_BASE}/repos/${owner}/${repo}`);
+          githubData = repoResponse.data;
+        }
+      } catch (githubError) {
+        console.error('Error fetching GitHub data:', githubError);
+        githubData = null;
+      }
+
+      // Step 2: Get blockchain data if the repository is registered
+      let blockchainData = null;
+      let repoId = null;
+      try {
+        // Check if repository exists in our system
+        const registration = await storage.findRepositoryByFullName(fullRepoName);
+        if (registration) {
+          repoId = registration.githubRepoId;
+          blockchainData = await blockchain.getRepository(parseInt(repoId, 10));
+        }
+      } catch (blockchainError) {
+        console.error('Error fetching blockchain data:', blockchainError);
+      }
+
+      // Step 3: Get GitHub issues that might have bounties
+      let issues = [];
+      try {
+        // Get issues with or without a token depending on availability
+        const repoInfo = await storage.findRepositoryByFullName(fullRepoName);
+        let headers: Record<string, string> = {
+          'Accept': 'application/vnd.github.v3+json'
+        };
+
+        if (repoInfo?.installationId) {
+          const token = await getInstallationAccessToken(repoInfo.installationId);
+          headers['Authorization'] = `Bearer ${token}`;
+        }
+
+        const issuesResponse = await axios.get(
+          `${GITHUB_API_BASE}/repos/${owner}/${repo}/issues?state=open`,
+          { headers }
+        );
+        issues = issuesResponse.data;
+      } catch (issuesError) {
+        console.error('Error fetching GitHub issues:', issuesError);
+      }
+
+      // Return the combined data
+      res.json({
+        github: githubData,
+        blockchain: blockchainData,
+        issues: issues,
+        registered: !!repoId,
+        repoId: repoId
+      });
+    } catch (error) {
+      console.error('Error in unified repo endpoint:', error);
+      res.status(500).json({ error: 'Failed to fetch repository data' });
+    }
+  });
+
+  // NEW: Endpoint to get details for a repo based on owner/name (for URL mapping)
+  app.get("/api/repos/details",
+    securityMiddlewares.repoRateLimiter,
+    securityMiddlewares.securityMonitor,
+    async (req: Request, res: Response) => {
+      const { owner, repo } = req.query;
+
+      if (!owner || !repo || typeof owner !== 'string' || typeof repo !== 'string') {
+        return res.status(400).json({ error: 'Missing or invalid owner/repo query parameters' });
+      }
+
+      const fullRepoName = `${owner}/${repo}`;
+      log(`Fetching details for ${fullRepoName} via /api/repos/details`, 'routes');
+
+      try {
+        // TODO: Need a function in storage like findRegisteredRepositoryByName(owner, repo)
+        // Placeholder: Querying directly for now (adjust table/column names if needed)
+        const registrations = await db.select()
+          .from(registeredRepositories)
+          .where(sql`${registeredRepositories.githubRepoFullName} = ${fullRepoName}`)
+          .limit(1);
+
+        const registration = registrations[0];
+
+        if (registration) {
+          log(`Repository ${fullRepoName} found in Roxonn DB (ID: ${registration.githubRepoId})`, 'routes');
+          // Repo is managed on Roxonn
+          // TODO: Fetch relevant Roxonn data (pool balance, tasks, managers etc.)
+          // This might involve calling blockchain.getRepository(registration.githubRepoId)
+          // and potentially other DB lookups.
+          const roxonnData = {
+            githubRepoId: registration.githubRepoId,
+            githubRepoFullName: registration.githubRepoFullName,
+            registeredAt: registration.registeredAt, // Fixed: Use registeredAt instead of createdAt
+            // Placeholder for actual data
+            poolBalance: '0', // Example: await blockchain.getRepositoryPoolBalance(...)
+            managers: [], // Example: await storage.getPoolManagers(...)
+            tasks: [], // Example: await storage.getOpenTasks(...)
+          };
+          return res.json({ status: 'managed', data: roxonnData });
+        } else {
+          log(`Repository ${fullRepoName} not found in Roxonn DB`, 'routes');
+          // Repo is not managed on Roxonn
+          // TODO: Optionally fetch basic info from GitHub API
+          let githubInfo = null;
+          try {
+            // Example: Reuse existing helper if suitable or create a new one
+            // Need to handle auth carefully - maybe unauthenticated or use app token
+            // githubInfo = await getBasicRepoInfo(owner, repo); // Hypothetical function
+            githubInfo = { name: repo, owner: owner, description: 'Basic info from GitHub (placeholder)', stars: 0 };
+          } catch (githubError: any) {
+            log(`Failed to fetch basic GitHub info for ${fullRepoName}: ${githubError.message}`, 'routes');
+          }
+          return res.json({ status: 'not_managed', github_info: githubInfo });
+        }
+      } catch (error: any) {
+        log(`Error fetching repository details for ${fullRepoName}: ${error.message}`, 'routes');
+        res.status(500).json({ error: 'Failed to fetch repository details' });
+      }
+    });
+  // --- End Platform Repository Routes ---
+
+  // --- GitHub App Routes ---
+  app.get("/api/github/app/install-url", requireAuth, (_req: Request, res: Response) => {
+    // Construct the installation URL for the GitHub App
+    // Use the config variable
+    const installUrl = `https://github.com/apps/${config.githubAppName}/installations/new`;
+    // Optionally, could add ?target_id=... or ?repository_id=... if needed
+    res.json({ installUrl });
+  });
+
+  // NEW: Endpoint called by frontend after user redirects back from GitHub installation
+  app.post("/api/github/app/finalize-installation", requireAuth, csrfProtection, async (req: Request, res: Response) => {
+    const { installationId } = req.body;
+    const userId = req.user!.id; // requireAuth ensures user exists
+
+    if (!installationId || typeof installationId !== 'string') {
+      return res.status(400).json({ error: 'Missing or invalid installation ID' });
+    }
+    log(`Finalizing installation ID ${installationId} for user ID ${userId}`, 'github-app');
+
+    try {
+      // 1. Get an installation access token
+      const token = await getInstallationAccessToken(installationId);
+      if (!token) { throw new Error('Could not generate installation token'); }
+      const headers = getGitHubApiHeaders(token);
+
+      // 2. Fetch repositories associated with this installation ID from GitHub
+      interface InstallationReposResponse {
+        total_count: number;
+        repositories: any[]; // Use specific type if known, else any[]
+      }
+      const repoResponse = await axios.get<InstallationReposResponse>(
+        `${GITHUB_API_BASE}/installation/repositories`,
+        { headers: headers }
+      );
+
+      // Check response structure before accessing .repositories
+      if (!repoResponse.data || !Array.isArray(repoResponse.data.repositories)) {
+        throw new Error('Could not fetch repositories for installation - invalid response structure');
+      }
+
+      const repositories = repoResponse.data.repositories;
+      log(`Found ${repositories.length} repositories for installation ${installationId}`, 'github-app');
+
+      // 3. Update DB for each repository
+      let finalResults = [];
+      let successfulAssociations = 0;
+      for (const repo of repositories) {
+        const githubRepoId = String(repo.id);
+        const githubRepoFullName = repo.full_name;
+        if (!githubRepoId || !githubRepoFullName) {
+          log(`Warning: Skipping repo with missing ID or full name from installation ${installationId}: ${JSON.stringify(repo)}`, 'github-app');
+          continue; // Skip this repo
+        }
+
+        try {
+          // Check if the repository already exists in our DB
+          const existingRepo = await storage.findRegisteredRepositoryByGithubId(githubRepoId);
+
+          if (!existingRepo) {
+            // Repository doesn't exist, create it first and link to installation
+            log(`Repository ${githubRepoFullName} (ID: ${githubRepoId}) not found in DB. Creating...`, 'github-app');
+            await storage.addOrUpdateInstallationRepo(installationId, githubRepoId, githubRepoFullName);
+            log(`Repository ${githubRepoFullName} created and linked to installation ${installationId}.`, 'github-app');
+            // Now associate the user
+            await storage.associateUserToInstallationRepo(userId, githubRepoId, installationId);
+            log(`User ${userId} associated with new repository ${githubRepoFullName}.`, 'github-app');
+          } else {
+            // Repository exists, just associate the user (this also updates installation ID)
+            log(`Repository ${githubRepoFullName} (ID: ${githubRepoId}) found in DB. Associating user...`, 'github-app');
+            await storage.associateUserToInstallationRepo(userId, githubRepoId, installationId);
+            log(`User ${userId} associated with existing repository ${githubRepoFullName}.`, 'github-app');
+          }
+          successfulAssociations++;
+        } catch (dbError: any) {
+          // Log the specific error for this repo but continue with others
+          log(`Error associating repo ${githubRepoFullName} (ID: ${githubRepoId}) for user ${userId}: ${dbError.message}`, 'github-app');
+          // Optionally add to a list of failed associations to return to the user
+        }
+      }
+
+      log(`Successfully processed ${repositories.length} repositories, associated ${successfulAssociations} for user ${userId}`, 'github-app');
+      // Return success even if some individual associations failed (they were logged)
+      res.json({ success: true, count: successfulAssociations }); // Update count to reflect actual successes
+
+    } catch (error: any) {
+      // This catches errors like token generation or the initial repo fetch
+      log(`Error finalizing installation ${installationId} for user ${userId}: ${error.message}`, 'github-app');
+      res.status(500).json({ error: 'Failed to finalize installation' });
+    }
+  });
+
+  // Protected profile routes
+  app.patch("/api/profile", requireAuth, csrfProtection, async (req, res) => {
+    const result = updateProfileSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid profile data" });
+    }
+
+    try {
+      // Since this route uses requireAuth middleware, we know req.user exists
+      const updatedUser = await storage.updateProfile(req.user!.id, result.data);
+      // Sanitize user data before sending to client
+      res.json(sanitizeUserData(updatedUser));
+    } catch (error) {
+      console.error("Error updating profile:", error);
+      res.status(400).json({ error: "Failed to update profile" });
+    }
+  });
+
+  // Get wallet info
+  /**
+   * @openapi
+   * /api/wallet/info:
+   *   get:
+   *     summary: Get user wallet information
+   *     tags: [Wallet]
+   *     security:
+   *       - cookieAuth: []
+   *     responses:
+   *       200:
+   *         description: Wallet info
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/WalletInfo'
+   *       401:
+   *         description: Unauthorized
+   */
+  app.get('/api/wallet/info', requireAuth, csrfProtection, async (req, res) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      // Get wallet info from blockchain service
+      const walletInfo = await blockchain.getWalletInfo(user.id);
+
+      // Mask address for logging to reduce sensitive data exposure
+      const maskedAddress = walletInfo.address ?
+        `${walletInfo.address.substring(0, 6)}...${walletInfo.address.substring(walletInfo.address.length - 4)}` :
+        'none';
+      log(`Wallet info retrieved for user ${user.id}, Address=${maskedAddress}`, 'routes');
+
+      // Add cache control headers to prevent caching sensitive data
+      res.setHeader('Cache-Control', 'no-store, no-cache, must-revalidate, proxy-revalidate');
+      res.setHeader('Pragma', 'no-cache');
+      res.setHeader('Expires', '0');
+
+      // Format BigInt values as strings for JSON response
+      res.json({
+        address: walletInfo.address,
+        balance: walletInfo.balance.toString(),
+        tokenBalance: walletInfo.tokenBalance.toString()
+      });
+    } catch (error) {
+      console.error('Error fetching wallet info:', error);
+      res.status(500).json({ error: 'Failed to fetch wallet information' });
+    }
+  });
+
+  // Get transfer limits for user wallet
+  /**
+   * @openapi
+   * /api/wallet/limits:
+   *   get:
+   *     summary: Get wallet transfer limits
+   *     tags: [Wallet]
+   *     security:
+   *       - cookieAuth: []
+   *     responses:
+   *       200:
+   *         description: Transfer limits
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 usedAmount: { type: number, description: XDC used in the last 24 hours }
+   *                 remainingLimit: { type: number }
+   *                 dailyLimit: { type: number }
+   *                 resetTime: { type: string, format: date-time }
+   *                 currencies:
+   *                   type: array
+   *                   description: Daily, weekly and per-transaction limits for XDC, ROXN and USDC
+   *       401:
+   *         description: Unauthorized
+   */
+  app.get('/api/wallet/limits', requireAuth, csrfProtection, async (req, res) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      const currencies = await limitsService.getAllStatuses('transfer', user.id.toString());
+      const xdcStatus = currencies.find(status => status.currency === 'XDC')!;
+
+      // Top-level fields keep the XDC daily view older clients read
+      const response = {
+        usedAmount: parseFloat(xdcStatus.dailyUsed),
+        remainingLimit: parseFloat(xdcStatus.dailyRemaining),
+        dailyLimit: parseFloat(xdcStatus.limits.daily),
+        resetTime: xdcStatus.dailyResetAt ? xdcStatus.dailyResetAt.getTime() : null,
+        currencies
+      };
+
+      // Add cache control headers
+      res.setHeader('Cache-Control', 'no-store, no-cache, must-revalidate, proxy-revalidate');
+      res.setHeader('Pragma', 'no-cache');
+      res.setHeader('Expires', '0');
+
+      res.json(response);
+    } catch (error) {
+      console.error('Error fetching transfer limits:', error);
+      res.status(500).json({ error: 'Failed to fetch transfer limits' });
+    }
+  });
+
+  // Get recent transactions for user wallet
+  /**
+   * @openapi
+   * /api/wallet/transactions:
+   *   get:
+   *     summary: Get recent wallet transactions
+   *     tags: [Wallet]
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: limit
+   *         schema: { type: integer, default: 10 }
+   *     responses:
+   *       200:
+   *         description: List of transactions
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 transactions:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/Transaction'
+   *       401:
+   *         description: Unauthorized
+   */
+  app.get('/api/wallet/transactions', requireAuth, csrfProtection, async (req, res) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      // Get limit from query parameters or use default
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
+
+      // Get recent transactions from blockchain service
+      const transactions = await blockchain.getRecentTransactions(user.id, limit);
+
+      // Add cache control headers
+      res.setHeader('Cache-Control', 'no-store, no-cache, must-revalidate, proxy-revalidate');
+      res.setHeader('Pragma', 'no-cache');
+      res.setHeader('Expires', '0');
+
+      res.json({ transactions });
+    } catch (error) {
+      console.error('Error fetching transactions:', error);
+      res.status(500).json({ error: 'Failed to fetch transaction history' });
+    }
+  });
+
+  // Generate Onramp.money URL for buying USDC on XDC
+  /**
+   * @openapi
+   * /api/wallet/buy-xdc-url:
+   *   get:
+   *     summary: Generate Onramp.money URL for buying USDC on XDC
+   *     tags: [Wallet]
+   *     security:
+   *       - cookieAuth: []
+   *     responses:
+   *       200:
+   *         description: Onramp URL
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 url: { type: string }
+   *       401:
+   *         description: Unauthorized
+   */
+  app.get('/api/wallet/buy-xdc-url', requireAuth, csrfProtection, async (req, res) => {
+    try {
+      const user = req.user;
+
+      if (!user) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      if (!user.xdcWalletAddress) {
+        return res.status(400).json({ error: 'Wallet address not found' });
+      }
+
+      // Convert XDC address format (xdc...) to 0x format for Onramp.money
+      // Onramp requires addresses to start with 0x, not xdc
+      const walletAddress = user.xdcWalletAddress.toLowerCase().startsWith('xdc')
+        ? '0x' + user.xdcWalletAddress.substring(3)
+        : user.xdcWalletAddress;
+
+      // Construct the Onramp.money URL with required parameters
+      // Using USDC on XDC Network
+      const baseUrl = config.onrampMoneyBaseUrl;
+      const params = new URLSearchParams({
+        appId: config.onrampMoneyAppId,
+        walletAddress: walletAddress,
+        coinCode: 'usdc',
+        network: 'xdc',
+        fiatCode: 'INR'
+      });
+
+      // Add redirect URL back to the wallet page
+      params.append('redirectUrl', `${config.frontendUrl}/wallet`);
+
+      // Add a unique transaction identifier (could be user ID + timestamp)
+      const merchantRecognitionId = `roxonn-${user.id}-${Date.now()}`;
+      params.append('merchantRecognitionId', merchantRecognitionId);
+
+      const fullUrl = `${baseUrl}?${params.toString()}`;
+
+      // Log the generated URL (masking wallet address for security)
+      const maskedAddress = `${walletAddress.substring(0, 6)}...${walletAddress.substring(walletAddress.length - 4)}`;
+      log(`Generated Onramp.money URL for user ${user.id}, Address=${maskedAddress} (0x format), MerchantID=${merchantRecognitionId}, Currency=USDC on XDC`);
+
+      // Create initial transaction record
+      await onrampService.createTransaction({
+        userId: user.id,
+        walletAddress: user.xdcWalletAddress,
+        merchantRecognitionId,
+        status: TransactionStatus.INITIATED,
+        metadata: {
+          initiatedAt: new Date().toISOString(),
+          currency: 'USDC',
+          network: 'xdc',
+          onrampWalletAddress: walletAddress // Store the 0x format used in Onramp
+        }
+      });
+
+      res.json({ url: fullUrl });
+    } catch (error) {
+      // Enhanced error logging
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('Error generating Onramp.money URL:', error);
+      log(`Error generating Onramp.money URL: ${errorMessage}`);
+
+      // Return appropriate error response
+      res.status(500).json({
+        error: 'UrlGenerationFailed',
+        message: 'Failed to generate purchase URL. Please try again later.'
+      });
+    }
+  });
+
+  // Generate Onramp.money URL for selling/withdrawing USDC on XDC (Off-ramp)
+  /**
+   * @openapi
+   * /api/wallet/sell-xdc-url:
+   *   get:
+   *     summary: Generate Onramp.money URL for selling USDC on XDC
+   *     tags: [Wallet]
+   *     security:
+   *       - cookieAuth: []
+   *     responses:
+   *       200:
+   *         description: Offramp URL
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 url: { type: string }
+   *       401:
+   *         description: Unauthorized
+   */
+  app.get('/api/wallet/sell-xdc-url', requireAuth, csrfProtection, async (req, res) => {
+    try {
+      const user = req.user;
+
+      if (!user) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      if (!user.xdcWalletAddress) {
+        return res.status(400).json({ error: 'Wallet address not found' });
+      }
+
+      // Check if user has any USDC balance on XDC network
+      const walletService = new WalletService();
+      const usdcBalance = await walletService.getUSDCBalance(user.xdcWalletAddress);
+
+      // Validate USDC balance
+      if (!usdcBalance) {
+        return res.status(400).json({ error: 'Could not retrieve USDC balance' });
+      }
+
+      try {
+        // Check if USDC balance is sufficient
+        const balanceValue = parseFloat(usdcBalance);
+
+        // Check if balance is too low
+        if (balanceValue <= 0) {
+          return res.status(400).json({ error: 'Insufficient USDC balance for withdrawal' });
+        }
+      } catch (error) {
+        log(`Error parsing USDC balance for user ${user.id}`, 'wallet-ERROR');
+        return res.status(500).json({ error: 'Error processing wallet balance' });
+      }
+
+      // Convert XDC address format (xdc...) to 0x format for Onramp.money
+      // Onramp requires addresses to start with 0x, not xdc
+      const walletAddress = user.xdcWalletAddress.toLowerCase().startsWith('xdc')
+        ? '0x' + user.xdcWalletAddress.substring(3)
+        : user.xdcWalletAddress;
+
+      // Construct the Onramp.money Off-ramp URL with required parameters
+      // Using USDC on XDC Network
+      const baseUrl = config.onrampMoneyBaseUrl.replace('/buy/', '/sell/');
+      const params = new URLSearchParams({
+        appId: config.onrampMoneyAppId,
+        walletAddress: walletAddress,
+        coinCode: 'usdc',
+        network: 'xdc',
+        fiatCode: 'INR'
+      });
+
+      // Add redirect URL back to the wallet page
+      params.append('redirectUrl', `${config.frontendUrl}/wallet`);
+
+      // Add a unique transaction identifier (could be user ID + timestamp)
+      const merchantRecognitionId = `roxonn-offramp-${user.id}-${Date.now()}`;
+      params.append('merchantRecognitionId', merchantRecognitionId);
+
+      const fullUrl = `${baseUrl}?${params.toString()}`;
+
+      // Log the generated URL (masking wallet address for security)
+      const maskedAddress = `${walletAddress.substring(0, 6)}...${walletAddress.substring(walletAddress.length - 4)}`;
+      log(`Generated Onramp.money Off-ramp URL for user ${user.id}, Address=${maskedAddress} (0x format), MerchantID=${merchantRecognitionId}, Currency=USDC on XDC`);
+
+      // Create initial transaction record for off-ramp
+      await onrampService.createTransaction({
+        userId: user.id,
+        walletAddress: user.xdcWalletAddress,
+        merchantRecognitionId,
+        status: TransactionStatus.INITIATED,
+        metadata: {
+          initiatedAt: new Date().toISOString(),
+          transactionType: 'offramp',
+          currency: 'USDC',
+          network: 'xdc',
+          onrampWalletAddress: walletAddress // Store the 0x format used in Onramp
+        }
+      });
+
+      res.json({ url: fullUrl });
+    } catch (error) {
+      // Enhanced error logging
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('Error generating Onramp.money Off-ramp URL:', error);
+      log(`Error generating Onramp.money Off-ramp URL: ${errorMessage}`);
+
+      // Return appropriate error response
+      res.status(500).json({
+        error: 'UrlGenerationFailed',
+        message: 'Failed to generate withdrawal URL. Please try again later.'
+      });
+    }
+  });
+
+  // Webhook endpoint for Onramp.money transaction updates
+  app.post('/api/webhook/onramp-money', express.json({
+    verify: (req: IncomingMessage, res, buf) => {
+      // Store the raw body for signature verification
+      (req as any).rawBody = buf;
+    }
+  }), async (req, res) => {
+    try {
+      // Get the signature from the headers
+      const signature = req.headers['x-signature'] as string;
+
+      if (!signature) {
+        log('Missing signature in Onramp.money webhook');
+        return res.status(401).json({ error: 'Unauthorized - Missing signature' });
+      }
+
+      // Verify the signature using the App Secret Key
+      const rawBody = (req as any).rawBody;
+
+      // Check if the secret key is configured
+      if (!config.onrampMoneyAppSecretKey) {
+        log('Onramp.money App Secret Key is not configured');
+        return res.status(500).json({ error: 'Server configuration error' });
+      }
+
+      // Use the createHmac function from the Node.js crypto module
+      const hmac = crypto.createHmac('sha512', config.onrampMoneyAppSecretKey);
+      hmac.update(rawBody);
+      const calculatedSignature = hmac.digest('hex');
+
+      if (calculatedSignature !== signature) {
+        log('Invalid signature in Onramp.money webhook');
+        return res.status(401).json({ error: 'Unauthorized - Invalid signature' });
+      }
+
+      // Process the webhook payload
+      const payload = req.body;
+
+      // Log the webhook event (sanitized - no sensitive data)
+      const sanitizedPayload = {
+        merchantRecognitionId: payload.merchantRecognitionId,
+        orderId: payload.orderId,
+        statusCode: payload.statusCode,
+        status: payload.status,
+        hasWalletAddress: !!payload.walletAddress,
+        hasTxHash: !!payload.txHash
+      };
+      log(`Received Onramp.money webhook: ${JSON.stringify(sanitizedPayload)}`);
+
+      // Extract transaction details
+      const {
+        merchantRecognitionId,
+        orderId,
+        statusCode,
+        status,
+        walletAddress,
+        amount,
+        txHash,
+        actualCryptoAmount,
+        expectedCryptoAmount,
+        fiatAmount
+      } = payload;
+
+      // Validate required fields
+      if (!merchantRecognitionId) {
+        log('Missing merchantRecognitionId in Onramp.money webhook');
+        return res.status(400).json({ error: 'Bad Request - Missing merchantRecognitionId' });
+      }
+
+      // Get the mapped status
+      const mappedStatus = onrampService.mapStatus(status, statusCode);
+
+      // Find existing transaction record
+      const existingTransaction = await onrampService.getTransactionByMerchantId(merchantRecognitionId);
+
+      if (existingTransaction) {
+        // Update existing transaction
+        await onrampService.updateTransaction(merchantRecognitionId, {
+          orderId: orderId || existingTransaction.orderId,
+          status: mappedStatus,
+          statusCode,
+          statusMessage: status,
+          amount: amount || existingTransaction.amount,
+          txHash: txHash || existingTransaction.txHash,
+          metadata: {
+            ...(existingTransaction.metadata as Record<string, any> || {}),
+            lastWebhook: payload,
+            lastUpdated: new Date().toISOString()
+          }
+        });
+
+        log(`Updated transaction ${merchantRecognitionId} status to ${mappedStatus}`);
+      } else {
+        // Transaction not found, create a new record
+        // First, find the user by wallet address
+        const userRecord = await db.query.users.findFirst({
+          where: (users, { eq }) => eq(users.xdcWalletAddress, walletAddress)
+        });
+
+        if (!userRecord) {
+          log(`No user found with wallet address ${walletAddress} for Onramp.money transaction`);
+          return res.status(200).json({ message: 'Webhook received, but no matching user found' });
+        }
+
+        // Create new transaction record
+        await onrampService.createTransaction({
+          userId: userRecord.id,
+          walletAddress,
+          merchantRecognitionId,
+          orderId,
+          status: mappedStatus,
+          statusCode,
+          statusMessage: status,
+          amount,
+          txHash,
+          metadata: {
+            createdFromWebhook: true,
+            webhookPayload: payload,
+            createdAt: new Date().toISOString()
+          }
+        });
+
+        log(`Created new transaction record for ${merchantRecognitionId} with status ${mappedStatus}`);
+      }
+
+      // Check if this is a subscription payment and activate/renew if successful
+      const { onrampMerchantService } = await import('./onrampMerchant');
+      const { subscriptionService } = await import('./subscriptionService');
+
+      if (onrampMerchantService.isSubscriptionMerchantId(merchantRecognitionId)) {
+        log(`📥 Processing subscription payment webhook: ${merchantRecognitionId}`, 'subscription');
+        log(`Webhook payload: orderId=${orderId}, status=${status}, statusCode=${statusCode}`, 'subscription');
+        log(`Payment amounts: fiat=${fiatAmount}, expected=${expectedCryptoAmount}, actual=${actualCryptoAmount}`, 'subscription');
+
+        // Check if payment was successful
+        if (onrampMerchantService.isSuccessStatus(statusCode, status)) {
+          // Extract user ID from merchant recognition ID
+          const userId = onrampMerchantService.extractUserIdFromMerchantId(merchantRecognitionId);
+
+          if (userId) {
+            // Validate treasury address if wallet address is provided
+            if (walletAddress && !onrampMerchantService.validateTreasuryAddress(walletAddress)) {
+              const expectedAddress = config.platformTreasuryAddressPolygon || config.platformTreasuryAddressXdc;
+              log(`❌ REJECTED: Payment sent to incorrect treasury address for subscription ${merchantRecognitionId}`, 'subscription-ERROR');
+              log(`Expected: ${expectedAddress}, Received: ${walletAddress}`, 'subscription-ERROR');
+
+              // Do NOT activate subscription for payments to wrong address
+              // Return 400 to indicate webhook processing failed
+              return res.status(400).json({
+                error: 'Payment sent to incorrect treasury address',
+                details: {
+                  merchantRecognitionId,
+                  expectedAddress: expectedAddress,
+                  receivedAddress: walletAddress
+                }
+              });
+            }
+
+            // Use actual crypto amount if available, otherwise use expected
+            // This ensures we record the USDC amount received, not the fiat amount
+            const cryptoAmount = actualCryptoAmount || expectedCryptoAmount || amount;
+            const amountUsdc = typeof cryptoAmount === 'number' ? cryptoAmount.toString() : cryptoAmount;
+
+            // Check for idempotency - prevent duplicate activations
+            if (orderId) {
+              const existingSubscription = await subscriptionService.getSubscriptionByOrderId(orderId);
+              if (existingSubscription && existingSubscription.status === 'active') {
+                log(`✅ Subscription already activated for order ${orderId} (user ${userId}), skipping duplicate activation`, 'subscription');
+                return res.status(200).json({ message: 'Subscription already processed' });
+              }
+            }
+
+            // Activate or renew subscription with error handling
+            try {
+              await subscriptionService.activateOrRenewSubscription(
+                userId,
+                'courses_yearly',
+                orderId,
+                txHash,
+                amountUsdc
+              );
+
+              log(`✅ Activated/renewed subscription for user ${userId} via ${merchantRecognitionId}`, 'subscription');
+              log(`Payment details: orderId=${orderId}, txHash=${txHash}, amount=${amountUsdc} USDC`, 'subscription');
+            } catch (activationError) {
+              // Log error but don't fail the webhook - return 200 to prevent retries
+              const errorMsg = activationError instanceof Error ? activationError.message : String(activationError);
+              log(`❌ CRITICAL: Failed to activate subscription for user ${userId}`, 'subscription-ERROR');
+              log(`Error details: ${errorMsg}`, 'subscription-ERROR');
+              log(`Payment info: merchantId=${merchantRecognitionId}, orderId=${orderId}, txHash=${txHash}, amount=${amountUsdc}`, 'subscription-ERROR');
+
+              // Still return success to prevent webhook retries
+              return res.status(200).json({
+                message: 'Webhook received, but activation failed',
+                error: errorMsg
+              });
+            }
+          } else {
+            log(`Failed to extract user ID from subscription merchant ID: ${merchantRecognitionId}`, 'subscription-ERROR');
+            log(`Payment was successful but cannot identify user. Manual intervention required.`, 'subscription-ERROR');
+            log(`Payment details: orderId=${orderId}, txHash=${txHash}, amount=${actualCryptoAmount || expectedCryptoAmount || amount}`, 'subscription-ERROR');
+          }
+        } else {
+          log(`Subscription payment not successful: ${merchantRecognitionId}, status: ${status}`, 'subscription');
+        }
+      } else if (onrampMerchantService.isPromptPackMerchantId(merchantRecognitionId)) {
+        log(`Processing prompt pack payment webhook: ${merchantRecognitionId}, orderId=${orderId}, status=${status}`, 'prompt-packs');
+
+        if (onrampMerchantService.isSuccessStatus(statusCode, status)) {
+          if (walletAddress && !onrampMerchantService.validateTreasuryAddress(walletAddress)) {
+            log(`REJECTED: Prompt pack payment ${merchantRecognitionId} sent to ${walletAddress}, not the treasury`, 'prompt-packs-ERROR');
+            return res.status(400).json({ error: 'Payment sent to incorrect treasury address' });
+          }
+
+          try {
+            await promptPackService.handleOnrampPayment(merchantRecognitionId, {
+              orderId,
+              txHash,
+              paidUsdc: actualCryptoAmount || expectedCryptoAmount,
+            });
+          } catch (creditError) {
+            // Return 200 so Onramp does not retry; the user can still verify the order manually
+            const errorMsg = creditError instanceof Error ? creditError.message : String(creditError);
+            log(`CRITICAL: Failed to credit prompt pack ${merchantRecognitionId} (order ${orderId}): ${errorMsg}`, 'prompt-packs-ERROR');
+            return res.status(200).json({ message: 'Webhook received, but crediting failed', error: errorMsg });
+          }
+        } else {
+          log(`Prompt pack payment not successful: ${merchantRecognitionId}, status: ${status}`, 'prompt-packs');
+        }
+      }
+
+      // Acknowledge receipt of the webhook
+      res.status(200).json({ message: 'Webhook received successfully' });
+    } catch (error) {
+      console.error('Error processing Onramp.money webhook:', error);
+      log(`Error processing Onramp.money webhook: ${error}`);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Get onramp.money transactions for user wallet
+  app.get('/api/wallet/onramp-transactions', requireAuth, csrfProtection, async (req, res) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      // Get limit from query parameters or use default
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
+
+      // Get onramp transactions for the user
+      const transactions = await onrampService.getUserTransactions(Number(user.id), limit);
+
+      // Add cache control headers to prevent caching of sensitive financial data
+      res.setHeader('Cache-Control', 'no-store, no-cache, must-revalidate, proxy-revalidate');
+      res.setHeader('Pragma', 'no-cache');
+      res.setHeader('Expires', '0');
+
+      res.json({ transactions });
+    } catch (error) {
+      console.error('Error fetching onramp transactions:', error);
+      res.status(500).json({ error: 'Failed to fetch onramp transaction history' });
+    }
+  });
+
+  // Subscription routes
+  // Initialize merchant checkout for subscription
+  /**
+   * @openapi
+   * /api/subscription/merchant/init:
+   *   post:
+   *     summary: Initialize merchant checkout for subscription
+   *     tags: [Subscriptions]
+   *     security:
+   *       - cookieAuth: []
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               fiatType: { type: integer }
+   *               logoUrl: { type: string }
+   *     responses:
+   *       200:
+   *         description: Checkout config
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 merchantRecognitionId: { type: string }
+   *                 walletAddress: { type: string }
+   *       401:
+   *         description: Unauthorized
+   */
+  app.post('/api/subscription/merchant/init', requireAuth, csrfProtection, async (req, res) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      // Import subscription service
+      const { onrampMerchantService } = await import('./onrampMerchant');
+      const { onrampService } = await import('./onrampService');
+      const { TransactionStatus } = await import('../shared/schema');
+
+      // Get parameters from request body
+      const fiatType = req.body.fiatType ? parseInt(req.body.fiatType) : undefined;
+      const logoUrl = req.body.logoUrl;
+
+      // Build merchant checkout config with user's selected currency
+      const config = await onrampMerchantService.buildMerchantCheckoutConfig(
+        user.id,
+        fiatType,
+        logoUrl
+      );
+
+      // Create a transaction record to track the payment
+      await onrampService.createTransaction({
+        userId: user.id,
+        walletAddress: config.walletAddress,
+        merchantRecognitionId: config.merchantRecognitionId,
+        status: TransactionStatus.INITIATED,
+        fiatCurrency: fiatType ? undefined : 'INR', // Use default if not specified
+        metadata: {
+          type: 'subscription',
+          plan: 'courses_yearly',
+          fiatType: fiatType || 1,
+          timestamp: new Date().toISOString()
+        }
+      });
+
+      log(`Generated merchant checkout config for user ${user.id} with fiatType ${fiatType || '1 (default)'}`, 'subscription');
+      log(`Created transaction record: ${config.merchantRecognitionId}`, 'subscription');
+      res.json(config);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('Error initializing merchant checkout:', error);
+      log(`Error initializing merchant checkout: ${errorMessage}`, 'subscription-ERROR');
+      log(`Error stack: ${error instanceof Error ? error.stack : 'No stack'}`, 'subscription-ERROR');
+      res.status(500).json({
+        error: 'Failed to initialize merchant checkout',
+        details: errorMessage
+      });
+    }
+  });
+
+  // Initialize crypto payment (Crypto Merchant Widget)
+  /**
+   * @openapi
+   * /api/subscription/crypto/init:
+   *   post:
+   *     summary: Initialize crypto payment for subscription
+   *     tags: [Subscriptions]
+   *     security:
+   *       - cookieAuth: []
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               chainId: { type: string }
+   *               language: { type: string }
+   *     responses:
+   *       200:
+   *         description: Crypto payment intent
+   *         content:
+   *           application/json:
+   *             schema: { type: object }
+   *       401:
+   *         description: Unauthorized
+   */
+  app.post('/api/subscription/crypto/init', requireAuth, csrfProtection, async (req, res) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      // Import crypto service
+      const { onrampCryptoService } = await import('./onrampCryptoService');
+
+      // Get optional network selection (default to Polygon)
+      const chainId = req.body.chainId || '3'; // Default to Polygon (chainId 3)
+      const language = req.body.language || 'en';
+
+      // Validate network
+      if (!onrampCryptoService.isValidNetwork(chainId)) {
+        return res.status(400).json({
+          error: 'Invalid network selection',
+          details: `Network ${chainId} is not supported`
+        });
+      }
+
+      // Create crypto payment intent
+      const intent = await onrampCryptoService.createCryptoIntent(
+        user.id,
+        chainId,
+        language
+      );
+
+      log(`Generated crypto payment intent for user ${user.id}, Network: ${onrampCryptoService.getNetworkName(chainId)}`, 'subscription');
+      res.json(intent);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('Error initializing crypto payment:', error);
+      log(`Error initializing crypto payment: ${errorMessage}`, 'subscription-ERROR');
+      log(`Error stack: ${error instanceof Error ? error.stack : 'No stack'}`, 'subscription-ERROR');
+      res.status(500).json({
+        error: 'Failed to initialize crypto payment',
+        details: errorMessage
+      });
+    }
+  });
+
+  // Get list of supported networks for crypto payment
+  app.get('/api/subscription/crypto/networks', async (req, res) => {
+    try {
+      const { SUPPORTED_CRYPTO_NETWORKS } = await import('./onrampCryptoService');
+      res.json(SUPPORTED_CRYPTO_NETWORKS);
+    } catch (error) {
+      console.error('Error fetching crypto networks:', error);
+      res.status(500).json({ error: 'Failed to fetch crypto networks' });
+    }
+  });
+
+  // Get list of supported currencies for subscription payment
+  app.get('/api/subscription/currencies', async (req, res) => {
+    try {
+      const { getAllCurrencies, getPopularCurrencies } = await import('./currencyConfig');
+
+      const allCurrencies = getAllCurrencies();
+      const popularCurrencies = getPopularCurrencies();
+
+      res.json({
+        popular: popularCurrencies,
+        all: allCurrencies,
+      });
+    } catch (error) {
+      console.error('Error fetching currencies:', error);
+      res.status(500).json({ error: 'Failed to fetch currencies' });
+    }
+  });
+
+  // Get subscription status
+  /**
+   * @openapi
+   * /api/subscription/status:
+   *   get:
+   *     summary: Get current subscription status
+   *     tags: [Subscriptions]
+   *     security:
+   *       - cookieAuth: []
+   *     responses:
+   *       200:
+   *         description: Subscription status
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Subscription'
+   *       401:
+   *         description: Unauthorized
+   */
+  app.get('/api/subscription/status', requireAuth, csrfProtection, async (req, res) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      // Import subscription service
+      const { subscriptionService } = await import('./subscriptionService');
+
+      // Get subscription status
+      const status = await subscriptionService.getSubscriptionStatus(user.id);
+
+      res.json({
+        active: status.active,
+        periodEnd: status.periodEnd,
+        subscription: status.subscription ? {
+          id: status.subscription.id,
+          plan: status.subscription.plan,
+          status: status.subscription.status,
+          currentPeriodStart: status.subscription.currentPeriodStart,
+          currentPeriodEnd: status.subscription.currentPeriodEnd,
+        } : undefined,
+      });
+    } catch (error) {
+      console.error('Error getting subscription status:', error);
+      log(`Error getting subscription status: ${error}`, 'subscription-ERROR');
+      res.status(500).json({ error: 'Failed to get subscription status' });
+    }
+  });
+
+  // Manual payment verification endpoint
+  app.post('/api/subscription/verify-payment', requireAuth, csrfProtection, async (req, res) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      // Import verification service
+      const { paymentVerificationService } = await import('./paymentVerificationService');
+
+      // Get verification parameters
+      const { orderId, txHash, referenceId, timestamp } = req.body;
+
+      // Perform verification
+      const result = await paymentVerificationService.verifyPayment(user.id, {
+        orderId,
+        txHash,
+        referenceId,
+        timestamp
+      });
+
+      // Return appropriate response
+      if (result.success) {
+        res.json({
+          success: true,
+          message: result.message,
+          subscription: result.subscription
+        });
+      } else if (result.needsConfirmation) {
+        res.json({
+          success: false,
+          needsConfirmation: true,
+          transaction: result.transaction,
+          message: result.message
+        });
+      } else {
+        res.status(400).json({
+          success: false,
+          message: result.message,
+          error: result.error
+        });
+      }
+    } catch (error) {
+      console.error('Error verifying payment:', error);
+      log(`Error verifying payment: ${error}`, 'verification-ERROR');
+      res.status(500).json({
+        error: 'Failed to verify payment',
+        message: 'An unexpected error occurred. Please try again or contact support.'
+      });
     }
   });
 
-  // Get recent transactions for user wallet
-  /**
-   * @openapi
-   * /api/wallet/transactions:
-   *   get:
-   *     summary: Get recent wallet transactions
-   *     tags: [Wallet]
-   *     security:
-   *       - cookieAuth: []
-   *     parameters:
-   *       - in: query
-   *         name: limit
-   *         schema: { type: integer, default: 10 }
-   *     responses:
-   *       200:
-   *         description: List of transactions
-   *         content:
-   *           application/json:
-   *             schema:
-   *               type: object
-   *               properties:
-   *                 transactions:
-   *                   type: array
-   *                   items:
-   *                     $ref: '#/components/schemas/Transaction'
-   *       401:
-   *         description: Unauthorized
-   */
-  app.get('/api/wallet/transactions', requireAuth, csrfProtection, async (req, res) => {
+  // Get user's pending payments
+  app.get('/api/subscription/pending-payments', requireAuth, csrfProtection, async (req, res) => {
     try {
       const user = req.user;
       if (!user) {
         return res.status(401).json({ error: 'User not authenticated' });
       }
 
-      // Get limit from query parameters or use default
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
-
-      // Get recent transactions from blockchain service
-      const transactions = await blockchain.getRecentTransactions(user.id, limit);
+      // Import verification service
+      const { paymentVerificationService } = await import('./paymentVerificationService');
 
-      // Add cache control headers
-      res.setHeader('Cache-Control', 'no-store, no-cache, must-revalidate, proxy-revalidate');
-      res.setHeader('Pragma', 'no-cache');
-      res.setHeader('Expires', '0');
+      // Get pending payments
+      const pendingPayments = await paymentVerificationService.getUserPendingPayments(user.id);
 
-      res.json({ transactions });
+      res.json({
+        success: true,
+        payments: pendingPayments
+      });
     } catch (error) {
-      console.error('Error fetching transactions:', error);
-      res.status(500).json({ error: 'Failed to fetch transaction history' });
+      console.error('Error getting pending payments:', error);
+      log(`Error getting pending payments: ${error}`, 'verification-ERROR');
+      res.status(500).json({
+        error: 'Failed to get pending payments'
+      });
     }
   });
 
-  // Generate Onramp.money URL for buying USDC on XDC
-  /**
-   * @openapi
-   * /api/wallet/buy-xdc-url:
-   *   get:
-   *     summary: Generate Onramp.money URL for buying USDC on XDC
-   *     tags: [Wallet]
-   *     security:
-   *       - cookieAuth: []
-   *     responses:
-   *       200:
-   *         description: Onramp URL
-   *         content:
-   *           application/json:
-   *             schema:
-   *               type: object
-   *               properties:
-   *                 url: { type: string }
-   *       401:
-   *         description: Unauthorized
-   */
-  app.get('/api/wallet/buy-xdc-url', requireAuth, csrfProtection, async (req, res) => {
+  // Confirm payment verification (for timestamp-based verification)
+  app.post('/api/subscription/confirm-verification', requireAuth, csrfProtection, async (req, res) => {
     try {
       const user = req.user;
-
       if (!user) {
         return res.status(401).json({ error: 'User not authenticated' });
       }
 
-      if (!user.xdcWalletAddress) {
-        return res.status(400).json({ error: 'Wallet address not found' });
+      const { transactionId, confirm } = req.body;
+
+      if (!confirm) {
+        return res.json({
+          success: false,
+          message: 'Verification cancelled'
+        });
       }
 
-      // Convert XDC address format (xdc...) to 0x format for Onramp.money
-      // Onramp requires addresses to start with 0x, not xdc
-      const walletAddress = user.xdcWalletAddress.toLowerCase().startsWith('xdc')
-        ? '0x' + user.xdcWalletAddress.substring(3)
-        : user.xdcWalletAddress;
+      // Import services
+      const { db } = await import('./db');
+      const { onrampTransactions } = await import('../shared/schema');
+      const { eq } = await import('drizzle-orm');
 
-      // Construct the Onramp.money URL with required parameters
-      // Using USDC on XDC Network
-      const baseUrl = config.onrampMoneyBaseUrl;
-      const params = new URLSearchParams({
-        appId: config.onrampMoneyAppId,
-        walletAddress: walletAddress,
-        coinCode: 'usdc',
-        network: 'xdc',
-        fiatCode: 'INR'
+      // Verify transaction belongs to user
+      const transaction = await db.query.onrampTransactions.findFirst({
+        where: eq(onrampTransactions.id, transactionId)
       });
 
-      // Add redirect URL back to the wallet page
-      params.append('redirectUrl', `${config.frontendUrl}/wallet`);
-
-      // Add a unique transaction identifier (could be user ID + timestamp)
-      const merchantRecognitionId = `roxonn-${user.id}-${Date.now()}`;
-      params.append('merchantRecognitionId', merchantRecognitionId);
+      if (!transaction || transaction.userId !== user.id) {
+        return res.status(403).json({
+          error: 'Invalid transaction'
+        });
+      }
 
-      const fullUrl = `${baseUrl}?${params.toString()}`;
+      // For confirmed timestamp verification, we need additional proof
+      // User should provide either orderId or txHash
+      const { orderId, txHash } = req.body;
 
-      // Log the generated URL (masking wallet address for security)
-      const maskedAddress = `${walletAddress.substring(0, 6)}...${walletAddress.substring(walletAddress.length - 4)}`;
-      log(`Generated Onramp.money URL for user ${user.id}, Address=${maskedAddress} (0x format), MerchantID=${merchantRecognitionId}, Currency=USDC on XDC`);
+      if (!orderId && !txHash) {
+        return res.status(400).json({
+          error: 'Please provide Order ID or Transaction Hash to confirm'
+        });
+      }
 
-      // Create initial transaction record
-      await onrampService.createTransaction({
-        userId: user.id,
-        walletAddress: user.xdcWalletAddress,
-        merchantRecognitionId,
-        status: TransactionStatus.INITIATED,
-        metadata: {
-          initiatedAt: new Date().toISOString(),
-          currency: 'USDC',
-          network: 'xdc',
-          onrampWalletAddress: walletAddress // Store the 0x format used in Onramp
-        }
+      // Re-verify with the additional proof
+      const { paymentVerificationService } = await import('./paymentVerificationService');
+      const result = await paymentVerificationService.verifyPayment(user.id, {
+        orderId,
+        txHash
       });
 
-      res.json({ url: fullUrl });
+      res.json(result);
     } catch (error) {
-      // Enhanced error logging
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error('Error generating Onramp.money URL:', error);
-      log(`Error generating Onramp.money URL: ${errorMessage}`);
-
-      // Return appropriate error response
+      console.error('Error confirming verification:', error);
+      log(`Error confirming verification: ${error}`, 'verification-ERROR');
       res.status(500).json({
-        error: 'UrlGenerationFailed',
-        message: 'Failed to generate purchase URL. Please try again later.'
+        error: 'Failed to confirm verification'
       });
     }
   });
 
-  // Generate Onramp.money URL for selling/withdrawing USDC on XDC (Off-ramp)
-  /**
-   * @openapi
-   * /api/wallet/sell-xdc-url:
-   *   get:
-   *     summary: Generate Onramp.money URL for selling USDC on XDC
-   *     tags: [Wallet]
-   *     security:
-   *       - cookieAuth: []
-   *     responses:
-   *       200:
-   *         description: Offramp URL
-   *         content:
-   *           application/json:
-   *             schema:
-   *               type: object
-   *               properties:
-   *                 url: { type: string }
-   *       401:
-   *         description: Unauthorized
-   */
-  app.get('/api/wallet/sell-xdc-url', requireAuth, csrfProtection, async (req, res) => {
+  // Prompt pack storefront
+  // List the prompt packs on sale
+  app.get('/api/prompt-packs', async (req, res) => {
     try {
-      const user = req.user;
+      const packs = await promptPackService.listActive();
+      res.json({ packs });
+    } catch (error) {
+      log(`Error listing prompt packs: ${error}`, 'prompt-packs-ERROR');
+      res.status(500).json({ error: 'Failed to list prompt packs' });
+    }
+  });
 
+  // The current user's prompt balance and recent pack purchases
+  app.get('/api/prompt-packs/purchases', requireAuth, async (req, res) => {
+    try {
+      const user = req.user;
       if (!user) {
         return res.status(401).json({ error: 'User not authenticated' });
       }
+      const [purchases, promptBalance] = await Promise.all([
+        promptPackService.listPurchases(user.id),
+        storage.getUserPromptBalance(user.id),
+      ]);
+      res.json({ purchases, promptBalance });
+    } catch (error) {
+      log(`Error listing prompt pack purchases: ${error}`, 'prompt-packs-ERROR');
+      res.status(500).json({ error: 'Failed to list purchases' });
+    }
+  });
 
-      if (!user.xdcWalletAddress) {
-        return res.status(400).json({ error: 'Wallet address not found' });
+  // Start an Onramp merchant checkout for a pack
+  app.post('/api/prompt-packs/:packId/checkout', requireAuth, csrfProtection, async (req, res) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: 'User not authenticated' });
       }
-
-      // Check if user has any USDC balance on XDC network
-      const walletService = new WalletService();
-      const usdcBalance = await walletService.getUSDCBalance(user.xdcWalletAddress);
-
-      // Validate USDC balance
-      if (!usdcBalance) {
-        return res.status(400).json({ error: 'Could not retrieve USDC balance' });
+      const validationResult = startPromptPackCheckoutSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid checkout', details: validationResult.error.format() });
       }
 
-      try {
-        // Check if USDC balance is sufficient
-        const balanceValue = parseFloat(usdcBalance);
-
-        // Check if balance is too low
-        if (balanceValue <= 0) {
-          return res.status(400).json({ error: 'Insufficient USDC balance for withdrawal' });
-        }
-      } catch (error) {
-        log(`Error parsing USDC balance for user ${user.id}`, 'wallet-ERROR');
-        return res.status(500).json({ error: 'Error processing wallet balance' });
+      const result = await promptPackService.startMerchantCheckout(user.id, req.params.packId, validationResult.data.fiatType, req.body.logoUrl);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof PromptPackPurchaseError) {
+        return res.status(400).json({ error: error.message });
       }
+      log(`Error starting prompt pack checkout: ${error}`, 'prompt-packs-ERROR');
+      res.status(500).json({ error: 'Failed to start checkout' });
+    }
+  });
 
-      // Convert XDC address format (xdc...) to 0x format for Onramp.money
-      // Onramp requires addresses to start with 0x, not xdc
-      const walletAddress = user.xdcWalletAddress.toLowerCase().startsWith('xdc')
-        ? '0x' + user.xdcWalletAddress.substring(3)
-        : user.xdcWalletAddress;
+  // Buy a pack with USDC from the current user's Roxonn wallet. Packs priced at or above the transfer threshold need a step-up code.
+  app.post('/api/prompt-packs/:packId/wallet-purchase', requireAuth, csrfProtection,
+    requireStepUp('transfer', { when: async req => isAtOrAbove(await promptPackService.getPriceUsdc(req.params.packId), config.stepUpTransferThresholdUsdc) }),
+    async (req, res) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+      if (!user.xdcWalletAddress) {
+        return res.status(403).json({ error: 'You need a wallet to pay with USDC' });
+      }
 
-      // Construct the Onramp.money Off-ramp URL with required parameters
-      // Using USDC on XDC Network
-      const baseUrl = config.onrampMoneyBaseUrl.replace('/buy/', '/sell/');
-      const params = new URLSearchParams({
-        appId: config.onrampMoneyAppId,
-        walletAddress: walletAddress,
-        coinCode: 'usdc',
-        network: 'xdc',
-        fiatCode: 'INR'
-      });
+      const purchase = await promptPackService.purchaseWithWallet(user.id, req.params.packId);
+      res.status(201).json(purchase);
+    } catch (error: any) {
+      if (error instanceof PromptPackPurchaseError) {
+        return res.status(400).json({ error: error.message });
+      }
+      log(`Error buying prompt pack with USDC: ${error.message || error}`, 'prompt-packs-ERROR');
+      res.status(500).json({ error: 'Failed to complete USDC payment', details: error.message });
+    }
+  });
 
-      // Add redirect URL back to the wallet page
-      params.append('redirectUrl', `${config.frontendUrl}/wallet`);
+  // Confirm a purchase the webhook has not credited, with the Onramp order ID for merchant checkouts
+  app.post('/api/prompt-packs/purchases/:id/verify', requireAuth, csrfProtection, async (req, res) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+      const id = parseInt(req.params.id, 10);
+      const validationResult = verifyPromptPackPurchaseSchema.safeParse(req.body);
+      if (isNaN(id) || !validationResult.success) {
+        return res.status(400).json({ error: 'Invalid verification', details: validationResult.error?.format() });
+      }
 
-      // Add a unique transaction identifier (could be user ID + timestamp)
-      const merchantRecognitionId = `roxonn-offramp-${user.id}-${Date.now()}`;
-      params.append('merchantRecognitionId', merchantRecognitionId);
+      const purchase = await promptPackService.verifyPurchase(user.id, id, validationResult.data.orderId);
+      res.json(purchase);
+    } catch (error) {
+      if (error instanceof PromptPackPurchaseError) {
+        return res.status(400).json({ error: error.message });
+      }
+      log(`Error verifying prompt pack purchase ${req.params.id}: ${error}`, 'prompt-packs-ERROR');
+      res.status(500).json({ error: 'Failed to verify purchase' });
+    }
+  });
 
-      const fullUrl = `${baseUrl}?${params.toString()}`;
+  // Admin: Get all pending subscription payments
+  app.get('/api/admin/subscription/pending', requireAuth, csrfProtection, async (req, res) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
 
-      // Log the generated URL (masking wallet address for security)
-      const maskedAddress = `${walletAddress.substring(0, 6)}...${walletAddress.substring(walletAddress.length - 4)}`;
-      log(`Generated Onramp.money Off-ramp URL for user ${user.id}, Address=${maskedAddress} (0x format), MerchantID=${merchantRecognitionId}, Currency=USDC on XDC`);
+      // Check if user is admin (user ID 1 is the platform admin)
+      if (user.id !== 1) {
+        return res.status(403).json({ error: 'Admin access required' });
+      }
 
-      // Create initial transaction record for off-ramp
-      await onrampService.createTransaction({
-        userId: user.id,
-        walletAddress: user.xdcWalletAddress,
-        merchantRecognitionId,
-        status: TransactionStatus.INITIATED,
-        metadata: {
-          initiatedAt: new Date().toISOString(),
-          transactionType: 'offramp',
-          currency: 'USDC',
-          network: 'xdc',
-          onrampWalletAddress: walletAddress // Store the 0x format used in Onramp
-        }
-      });
+      // Import services
+      const { db } = await import('./db');
+      const { onrampTransactions, TransactionStatus } = await import('../shared/schema');
+      const { and, eq, sql, desc } = await import('drizzle-orm');
 
-      res.json({ url: fullUrl });
-    } catch (error) {
-      // Enhanced error logging
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error('Error generating Onramp.money Off-ramp URL:', error);
-      log(`Error generating Onramp.money Off-ramp URL: ${errorMessage}`);
+      // Get all pending subscription transactions
+      const pending = await db.query.onrampTransactions.findMany({
+        where: and(
+          eq(onrampTransactions.status, TransactionStatus.INITIATED),
+          sql`${onrampTransactions.metadata}->>'type' = 'subscription'`,
+          sql`${onrampTransactions.createdAt} > NOW() - INTERVAL '7 days'`
+        ),
+        orderBy: [desc(onrampTransactions.createdAt)],
+        limit: 100
+      });
 
-      // Return appropriate error response
-      res.status(500).json({
-        error: 'UrlGenerationFailed',
-        message: 'Failed to generate withdrawal URL. Please try again later.'
+      res.json({
+        success: true,
+        count: pending.length,
+        transactions: pending.map(t => ({
+          id: t.id,
+          userId: t.userId,
+          merchantRecognitionId: t.merchantRecognitionId,
+          status: t.status,
+          createdAt: t.createdAt,
+          metadata: t.metadata
+        }))
       });
+    } catch (error) {
+      console.error('Error getting pending transactions:', error);
+      log(`Admin error getting pending transactions: ${error}`, 'admin-ERROR');
+      res.status(500).json({ error: 'Failed to get pending transactions' });
     }
   });
 
-  // Webhook endpoint for Onramp.money transaction updates
-  app.post('/api/webhook/onramp-money', express.json({
-    verify: (req: IncomingMessage, res, buf) => {
-      // Store the raw body for signature verification
-      (req as any).rawBody = buf;
-    }
-  }), async (req, res) => {
+  // Admin: Manually verify a payment
+  app.post('/api/admin/subscription/verify/:orderId', requireAuth, csrfProtection, async (req, res) => {
     try {
-      // Get the signature from the headers
-      const signature = req.headers['x-signature'] as string;
-
-      if (!signature) {
-        log('Missing signature in Onramp.money webhook');
-        return res.status(401).json({ error: 'Unauthorized - Missing signature' });
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: 'User not authenticated' });
       }
 
-      // Verify the signature using the App Secret Key
-      const rawBody = (req as any).rawBody;
-
-      // Check if the secret key is configured
-      if (!config.onrampMoneyAppSecretKey) {
-        log('Onramp.money App Secret Key is not configured');
-        return res.status(500).json({ error: 'Server configuration error' });
+      // Check admin access (user ID 1 is the platform admin)
+      if (user.id !== 1) {
+        return res.status(403).json({ error: 'Admin access required' });
       }
 
-      // Use the createHmac function from the Node.js crypto module
-      const hmac = crypto.createHmac('sha512', config.onrampMoneyAppSecretKey);
-      hmac.update(rawBody);
-      const calculatedSignature = hmac.digest('hex');
+      const { orderId } = req.params;
+      const { userId: targetUserId } = req.body;
 
-      if (calculatedSignature !== signature) {
-        log('Invalid signature in Onramp.money webhook');
-        return res.status(401).json({ error: 'Unauthorized - Invalid signature' });
+      if (!orderId || !targetUserId) {
+        return res.status(400).json({ error: 'Order ID and User ID required' });
       }
 
-      // Process the webhook payload
-      const payload = req.body;
+      // Import verification service
+      const { paymentVerificationService } = await import('./paymentVerificationService');
 
-      // Log the webhook event (sanitized - no sensitive data)
-      const sanitizedPayload = {
-        merchantRecognitionId: payload.merchantRecognitionId,
-        orderId: payload.orderId,
-        statusCode: payload.statusCode,
-        status: payload.status,
-        hasWalletAddress: !!payload.walletAddress,
-        hasTxHash: !!payload.txHash
-      };
-      log(`Received Onramp.money webhook: ${JSON.stringify(sanitizedPayload)}`);
+      // Verify payment for the target user
+      const result = await paymentVerificationService.verifyPayment(targetUserId, {
+        orderId
+      });
 
-      // Extract transaction details
-      const {
-        merchantRecognitionId,
-        orderId,
-        statusCode,
-        status,
-        walletAddress,
-        amount,
-        txHash,
-        actualCryptoAmount,
-        expectedCryptoAmount,
-        fiatAmount
-      } = payload;
+      // Log admin action
+      log(`Admin ${user.id} manually verified payment ${orderId} for user ${targetUserId}`, 'admin-action');
 
-      // Validate required fields
-      if (!merchantRecognitionId) {
-        log('Missing merchantRecognitionId in Onramp.money webhook');
-        return res.status(400).json({ error: 'Bad Request - Missing merchantRecognitionId' });
+      res.json(result);
+    } catch (error) {
+      console.error('Error in admin verification:', error);
+      log(`Admin verification error: ${error}`, 'admin-ERROR');
+      res.status(500).json({ error: 'Failed to verify payment' });
+    }
+  });
+
+  // Admin: Check Onramp order status
+  app.get('/api/admin/onramp/order/:orderId', requireAuth, csrfProtection, async (req, res) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: 'User not authenticated' });
       }
 
-      // Get the mapped status
-      const mappedStatus = onrampService.mapStatus(status, statusCode);
+      // Check admin access (user ID 1 is the platform admin)
+      if (user.id !== 1) {
+        return res.status(403).json({ error: 'Admin access required' });
+      }
 
-      // Find existing transaction record
-      const existingTransaction = await onrampService.getTransactionByMerchantId(merchantRecognitionId);
+      const { orderId } = req.params;
 
-      if (existingTransaction) {
-        // Update existing transaction
-        await onrampService.updateTransaction(merchantRecognitionId, {
-          orderId: orderId || existingTransaction.orderId,
-          status: mappedStatus,
-          statusCode,
-          statusMessage: status,
-          amount: amount || existingTransaction.amount,
-          txHash: txHash || existingTransaction.txHash,
-          metadata: {
-            ...(existingTransaction.metadata as Record<string, any> || {}),
-            lastWebhook: payload,
-            lastUpdated: new Date().toISOString()
-          }
-        });
+      // Import Onramp service
+      const { onrampCryptoService } = await import('./onrampCryptoService');
 
-        log(`Updated transaction ${merchantRecognitionId} status to ${mappedStatus}`);
-      } else {
-        // Transaction not found, create a new record
-        // First, find the user by wallet address
-        const userRecord = await db.query.users.findFirst({
-          where: (users, { eq }) => eq(users.xdcWalletAddress, walletAddress)
-        });
+      // Get order status from Onramp
+      const orderStatus = await onrampCryptoService.getOrderStatus(orderId);
 
-        if (!userRecord) {
-          log(`No user found with wallet address ${walletAddress} for Onramp.money transaction`);
-          return res.status(200).json({ message: 'Webhook received, but no matching user found' });
-        }
+      if (!orderStatus) {
+        return res.status(404).json({ error: 'Order not found' });
+      }
 
-        // Create new transaction record
-        await onrampService.createTransaction({
-          userId: userRecord.id,
-          walletAddress,
-          merchantRecognitionId,
-          orderId,
-          status: mappedStatus,
-          statusCode,
-          statusMessage: status,
-          amount,
-          txHash,
-          metadata: {
-            createdFromWebhook: true,
-            webhookPayload: payload,
-            createdAt: new Date().toISOString()
-          }
-        });
+      // Log admin action
+      log(`Admin ${user.id} checked Onramp order ${orderId}`, 'admin-action');
 
-        log(`Created new transaction record for ${merchantRecognitionId} with status ${mappedStatus}`);
-      }
+      res.json({
+        success: true,
+        order: orderStatus
+      });
+    } catch (error) {
+      console.error('Error checking Onramp order:', error);
+      log(`Admin error checking Onramp order: ${error}`, 'admin-ERROR');
+      res.status(500).json({ error: 'Failed to check order status' });
+    }
+  });
 
-      // Check if this is a subscription payment and activate/renew if successful
-      const { onrampMerchantService } = await import('./onrampMerchant');
-      const { subscriptionService } = await import('./subscriptionService');
+  // Admin: Get verification attempts log
+  app.get('/api/admin/verification-log', requireAuth, csrfProtection, async (req, res) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
 
-      if (onrampMerchantService.isSubscriptionMerchantId(merchantRecognitionId)) {
-        log(`📥 Processing subscription payment webhook: ${merchantRecognitionId}`, 'subscription');
-        log(`Webhook payload: orderId=${orderId}, status=${status}, statusCode=${statusCode}`, 'subscription');
-        log(`Payment amounts: fiat=${fiatAmount}, expected=${expectedCryptoAmount}, actual=${actualCryptoAmount}`, 'subscription');
+      // Check admin access (user ID 1 is the platform admin)
+      if (user.id !== 1) {
+        return res.status(403).json({ error: 'Admin access required' });
+      }
 
-        // Check if payment was successful
-        if (onrampMerchantService.isSuccessStatus(statusCode, status)) {
-          // Extract user ID from merchant recognition ID
-          const userId = onrampMerchantService.extractUserIdFromMerchantId(merchantRecognitionId);
+      // For now, return a message about checking server logs
+      // In production, you'd want to store verification attempts in a database table
+      res.json({
+        success: true,
+        message: 'Check server logs for verification attempts. Search for "verification" tag.',
+        note: 'Consider implementing verification_attempts table for better tracking.'
+      });
+    } catch (error) {
+      console.error('Error getting verification log:', error);
+      res.status(500).json({ error: 'Failed to get verification log' });
+    }
+  });
 
-          if (userId) {
-            // Validate treasury address if wallet address is provided
-            if (walletAddress && !onrampMerchantService.validateTreasuryAddress(walletAddress)) {
-              const expectedAddress = config.platformTreasuryAddressPolygon || config.platformTreasuryAddressXdc;
-              log(`❌ REJECTED: Payment sent to incorrect treasury address for subscription ${merchantRecognitionId}`, 'subscription-ERROR');
-              log(`Expected: ${expectedAddress}, Received: ${walletAddress}`, 'subscription-ERROR');
+  // Admin: List queued webhook deliveries (failed and dead-lettered by default)
+  app.get('/api/admin/webhook-events', requireAuth, csrfProtection, async (req, res) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
 
-              // Do NOT activate subscription for payments to wrong address
-              // Return 400 to indicate webhook processing failed
-              return res.status(400).json({
-                error: 'Payment sent to incorrect treasury address',
-                details: {
-                  merchantRecognitionId,
-                  expectedAddress: expectedAddress,
-                  receivedAddress: walletAddress
-                }
-              });
-            }
+      // Check admin access (user ID 1 is the platform admin)
+      if (user.id !== 1) {
+        return res.status(403).json({ error: 'Admin access required' });
+      }
 
-            // Use actual crypto amount if available, otherwise use expected
-            // This ensures we record the USDC amount received, not the fiat amount
-            const cryptoAmount = actualCryptoAmount || expectedCryptoAmount || amount;
-            const amountUsdc = typeof cryptoAmount === 'number' ? cryptoAmount.toString() : cryptoAmount;
+      const validStatuses = ['pending', 'processing', 'completed', 'failed', 'dead_letter'] as const;
+      const status = req.query.status as typeof validStatuses[number] | undefined;
+      if (status && !validStatuses.includes(status)) {
+        return res.status(400).json({ error: `status must be one of: ${validStatuses.join(', ')}` });
+      }
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
 
-            // Check for idempotency - prevent duplicate activations
-            if (orderId) {
-              const existingSubscription = await subscriptionService.getSubscriptionByOrderId(orderId);
-              if (existingSubscription && existingSubscription.status === 'active') {
-                log(`✅ Subscription already activated for order ${orderId} (user ${userId}), skipping duplicate activation`, 'subscription');
-                return res.status(200).json({ message: 'Subscription already processed' });
-              }
-            }
+      const events = await webhookQueueService.listEvents(status, limit);
+      res.json({
+        success: true,
+        count: events.length,
+        events: events.map(e => ({
+          id: e.id,
+          deliveryId: e.deliveryId,
+          event: e.event,
+          action: e.action,
+          status: e.status,
+          attempts: e.attempts,
+          lastError: e.lastError,
+          nextAttemptAt: e.nextAttemptAt,
+          processedAt: e.processedAt,
+          createdAt: e.createdAt
+        }))
+      });
+    } catch (error) {
+      log(`Admin error listing webhook events: ${error}`, 'admin-ERROR');
+      res.status(500).json({ error: 'Failed to list webhook events' });
+    }
+  });
 
-            // Activate or renew subscription with error handling
-            try {
-              await subscriptionService.activateOrRenewSubscription(
-                userId,
-                'courses_yearly',
-                orderId,
-                txHash,
-                amountUsdc
-              );
+  // Admin: Inspect a single webhook delivery, including its payload
+  app.get('/api/admin/webhook-events/:id', requireAuth, csrfProtection, async (req, res) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
 
-              log(`✅ Activated/renewed subscription for user ${userId} via ${merchantRecognitionId}`, 'subscription');
-              log(`Payment details: orderId=${orderId}, txHash=${txHash}, amount=${amountUsdc} USDC`, 'subscription');
-            } catch (activationError) {
-              // Log error but don't fail the webhook - return 200 to prevent retries
-              const errorMsg = activationError instanceof Error ? activationError.message : String(activationError);
-              log(`❌ CRITICAL: Failed to activate subscription for user ${userId}`, 'subscription-ERROR');
-              log(`Error details: ${errorMsg}`, 'subscription-ERROR');
-              log(`Payment info: merchantId=${merchantRecognitionId}, orderId=${orderId}, txHash=${txHash}, amount=${amountUsdc}`, 'subscription-ERROR');
+      // Check admin access (user ID 1 is the platform admin)
+      if (user.id !== 1) {
+        return res.status(403).json({ error: 'Admin access required' });
+      }
 
-              // Still return success to prevent webhook retries
-              return res.status(200).json({
-                message: 'Webhook received, but activation failed',
-                error: errorMsg
-              });
-            }
-          } else {
-            log(`Failed to extract user ID from subscription merchant ID: ${merchantRecognitionId}`, 'subscription-ERROR');
-            log(`Payment was successful but cannot identify user. Manual intervention required.`, 'subscription-ERROR');
-            log(`Payment details: orderId=${orderId}, txHash=${txHash}, amount=${actualCryptoAmount || expectedCryptoAmount || amount}`, 'subscription-ERROR');
-          }
-        } else {
-          log(`Subscription payment not successful: ${merchantRecognitionId}, status: ${status}`, 'subscription');
-        }
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid event id' });
       }
 
-      // Acknowledge receipt of the webhook
-      res.status(200).json({ message: 'Webhook received successfully' });
+      const event = await webhookQueueService.getEvent(id);
+      if (!event) {
+        return res.status(404).json({ error: 'Webhook event not found' });
+      }
+      res.json({ success: true, event });
     } catch (error) {
-      console.error('Error processing Onramp.money webhook:', error);
-      log(`Error processing Onramp.money webhook: ${error}`);
-      res.status(500).json({ error: 'Internal server error' });
+      log(`Admin error getting webhook event: ${error}`, 'admin-ERROR');
+      res.status(500).json({ error: 'Failed to get webhook event' });
     }
   });
 
-  // Get onramp.money transactions for user wallet
-  app.get('/api/wallet/onramp-transactions', requireAuth, csrfProtection, async (req, res) => {
+  // Admin: Payout ledger reconciliation. Entries that never confirmed are checked against the chain,
+  // so a payout that went through after a timeout (or one stuck mid-submission) stands out.
+  app.get('/api/admin/payouts', requireAuth, csrfProtection, async (req, res) => {
     try {
       const user = req.user;
       if (!user) {
         return res.status(401).json({ error: 'User not authenticated' });
       }
 
-      // Get limit from query parameters or use default
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
+      // Check admin access (user ID 1 is the platform admin)
+      if (user.id !== 1) {
+        return res.status(403).json({ error: 'Admin access required' });
+      }
 
-      // Get onramp transactions for the user
-      const transactions = await onrampService.getUserTransactions(Number(user.id), limit);
+      const validStatuses = ['pending', 'submitted', 'confirmed', 'failed'] as const;
+      const status = req.query.status as typeof validStatuses[number] | undefined;
+      if (status && !validStatuses.includes(status)) {
+        return res.status(400).json({ error: `status must be one of: ${validStatuses.join(', ')}` });
+      }
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
 
-      // Add cache control headers to prevent caching of sensitive financial data
-      res.setHeader('Cache-Control', 'no-store, no-cache, must-revalidate, proxy-revalidate');
-      res.setHeader('Pragma', 'no-cache');
-      res.setHeader('Expires', '0');
+      const [entries, counts] = await Promise.all([
+        payoutLedgerService.listEntries(status, limit),
+        payoutLedgerService.getStatusCounts()
+      ]);
 
-      res.json({ transactions });
+      const payouts = [];
+      for (const entry of entries) {
+        let onChainStatus: string | null = null;
+        if (entry.status !== 'confirmed') {
+          try {
+            const [issueBounty] = await blockchain.getIssueRewards(parseInt(entry.githubRepoId), [entry.githubIssueNumber]);
+            onChainStatus = issueBounty?.status ?? 'NotFound';
+          } catch (chainError: any) {
+            onChainStatus = 'Unavailable';
+          }
+        }
+        payouts.push({
+          ...entry,
+          onChainStatus,
+          // A non-confirmed ledger entry for a bounty the chain shows as paid needs manual review
+          needsReview: onChainStatus === 'Distributed'
+        });
+      }
+
+      res.json({ success: true, counts, payouts });
     } catch (error) {
-      console.error('Error fetching onramp transactions:', error);
-      res.status(500).json({ error: 'Failed to fetch onramp transaction history' });
+      log(`Admin error getting payout ledger: ${error}`, 'admin-ERROR');
+      res.status(500).json({ error: 'Failed to get payout ledger' });
     }
   });
 
-  // Subscription routes
-  // Initialize merchant checkout for subscription
-  /**
-   * @openapi
-   * /api/subscription/merchant/init:
-   *   post:
-   *     summary: Initialize merchant checkout for subscription
-   *     tags: [Subscriptions]
-   *     security:
-   *       - cookieAuth: []
-   *     requestBody:
-   *       content:
-   *         application/json:
-   *           schema:
-   *             type: object
-   *             properties:
-   *               fiatType: { type: integer }
-   *               logoUrl: { type: string }
-   *     responses:
-   *       200:
-   *         description: Checkout config
-   *         content:
-   *           application/json:
-   *             schema:
-   *               type: object
-   *               properties:
-   *                 merchantRecognitionId: { type: string }
-   *                 walletAddress: { type: string }
-   *       401:
-   *         description: Unauthorized
-   */
-  app.post('/api/subscription/merchant/init', requireAuth, csrfProtection, async (req, res) => {
+  // Admin: Settle a payout that is stuck pending or submitted by hand, after checking the chain
+  app.post('/api/admin/payouts/:id/resolve', requireAuth, csrfProtection, async (req, res) => {
     try {
       const user = req.user;
       if (!user) {
         return res.status(401).json({ error: 'User not authenticated' });
       }
 
-      // Import subscription service
-      const { onrampMerchantService } = await import('./onrampMerchant');
-      const { onrampService } = await import('./onrampService');
-      const { TransactionStatus } = await import('../shared/schema');
-
-      // Get parameters from request body
-      const fiatType = req.body.fiatType ? parseInt(req.body.fiatType) : undefined;
-      const logoUrl = req.body.logoUrl;
+      // Check admin access (user ID 1 is the platform admin)
+      if (user.id !== 1) {
+        return res.status(403).json({ error: 'Admin access required' });
+      }
 
-      // Build merchant checkout config with user's selected currency
-      const config = await onrampMerchantService.buildMerchantCheckoutConfig(
-        user.id,
-        fiatType,
-        logoUrl
-      );
+      const id = parseInt(req.params.id);
+      const validationResult = resolvePayoutSchema.safeParse(req.body);
+      if (isNaN(id) || !validationResult.success) {
+        return res.status(400).json({ error: 'Invalid payout resolution', details: validationResult.error?.format() });
+      }
 
-      // Create a transaction record to track the payment
-      await onrampService.createTransaction({
-        userId: user.id,
-        walletAddress: config.walletAddress,
-        merchantRecognitionId: config.merchantRecognitionId,
-        status: TransactionStatus.INITIATED,
-        fiatCurrency: fiatType ? undefined : 'INR', // Use default if not specified
-        metadata: {
-          type: 'subscription',
-          plan: 'courses_yearly',
-          fiatType: fiatType || 1,
-          timestamp: new Date().toISOString()
-        }
+      const { status, note } = validationResult.data;
+      const entry = await payoutLedgerService.resolve(id, status, {
+        transactionHash: validationResult.data.status === 'confirmed' ? validationResult.data.transactionHash : undefined,
+        note: `Resolved by admin ${user.id}: ${note}`,
       });
+      if (!entry) {
+        return res.status(409).json({ error: 'Payout is not pending or submitted' });
+      }
 
-      log(`Generated merchant checkout config for user ${user.id} with fiatType ${fiatType || '1 (default)'}`, 'subscription');
-      log(`Created transaction record: ${config.merchantRecognitionId}`, 'subscription');
-      res.json(config);
+      log(`Admin ${user.id} resolved payout ${id} as ${status}`, 'admin-action');
+      res.json({ success: true, payout: entry });
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error('Error initializing merchant checkout:', error);
-      log(`Error initializing merchant checkout: ${errorMessage}`, 'subscription-ERROR');
-      log(`Error stack: ${error instanceof Error ? error.stack : 'No stack'}`, 'subscription-ERROR');
-      res.status(500).json({
-        error: 'Failed to initialize merchant checkout',
-        details: errorMessage
-      });
+      log(`Admin error resolving payout: ${error}`, 'admin-ERROR');
+      res.status(500).json({ error: 'Failed to resolve payout' });
     }
   });
 
-  // Initialize crypto payment (Crypto Merchant Widget)
-  /**
-   * @openapi
-   * /api/subscription/crypto/init:
-   *   post:
-   *     summary: Initialize crypto payment for subscription
-   *     tags: [Subscriptions]
-   *     security:
-   *       - cookieAuth: []
-   *     requestBody:
-   *       content:
-   *         application/json:
-   *           schema:
-   *             type: object
-   *             properties:
-   *               chainId: { type: string }
-   *               language: { type: string }
-   *     responses:
-   *       200:
-   *         description: Crypto payment intent
-   *         content:
-   *           application/json:
-   *             schema: { type: object }
-   *       401:
-   *         description: Unauthorized
-   */
-  app.post('/api/subscription/crypto/init', requireAuth, csrfProtection, async (req, res) => {
+  // Admin: Latest on-chain reconciliation report
+  app.get('/api/admin/reconciliation', requireAuth, csrfProtection, async (req, res) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      // Check admin access (user ID 1 is the platform admin)
+      if (user.id !== 1) {
+        return res.status(403).json({ error: 'Admin access required' });
+      }
+
+      const [latestRun, pools] = await Promise.all([
+        reconciliationService.getLatestRun(),
+        reconciliationService.getPoolBalances()
+      ]);
+
+      res.json({
+        success: true,
+        latestRun,
+        mismatchCount: latestRun?.mismatches.length ?? 0,
+        pools
+      });
+    } catch (error) {
+      log(`Admin error getting reconciliation report: ${error}`, 'admin-ERROR');
+      res.status(500).json({ error: 'Failed to get reconciliation report' });
+    }
+  });
+
+  // Admin: Funding and transfer limit overrides
+  app.get('/api/admin/limits/overrides', requireAuth, csrfProtection, async (req, res) => {
     try {
       const user = req.user;
       if (!user) {
         return res.status(401).json({ error: 'User not authenticated' });
       }
 
-      // Import crypto service
-      const { onrampCryptoService } = await import('./onrampCryptoService');
+      // Check admin access (user ID 1 is the platform admin)
+      if (user.id !== 1) {
+        return res.status(403).json({ error: 'Admin access required' });
+      }
 
-      // Get optional network selection (default to Polygon)
-      const chainId = req.body.chainId || '3'; // Default to Polygon (chainId 3)
-      const language = req.body.language || 'en';
+      const scope = req.query.scope as 'transfer' | 'repo_funding' | undefined;
+      if (scope && scope !== 'transfer' && scope !== 'repo_funding') {
+        return res.status(400).json({ error: 'scope must be one of: transfer, repo_funding' });
+      }
 
-      // Validate network
-      if (!onrampCryptoService.isValidNetwork(chainId)) {
-        return res.status(400).json({
-          error: 'Invalid network selection',
-          details: `Network ${chainId} is not supported`
-        });
+      const overrides = await limitsService.listOverrides(scope, req.query.subjectId as string | undefined);
+      res.json({ success: true, overrides });
+    } catch (error) {
+      log(`Admin error listing limit overrides: ${error}`, 'admin-ERROR');
+      res.status(500).json({ error: 'Failed to list limit overrides' });
+    }
+  });
+
+  // Admin: Record a token's USD price, used to value earnings statements paid at or after that time
+  app.post('/api/admin/token-prices', requireAuth, csrfProtection, async (req, res) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: 'User not authenticated' });
       }
 
-      // Create crypto payment intent
-      const intent = await onrampCryptoService.createCryptoIntent(
-        user.id,
-        chainId,
-        language
-      );
+      // Check admin access (user ID 1 is the platform admin)
+      if (user.id !== 1) {
+        return res.status(403).json({ error: 'Admin access required' });
+      }
 
-      log(`Generated crypto payment intent for user ${user.id}, Network: ${onrampCryptoService.getNetworkName(chainId)}`, 'subscription');
-      res.json(intent);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error('Error initializing crypto payment:', error);
-      log(`Error initializing crypto payment: ${errorMessage}`, 'subscription-ERROR');
-      log(`Error stack: ${error instanceof Error ? error.stack : 'No stack'}`, 'subscription-ERROR');
-      res.status(500).json({
-        error: 'Failed to initialize crypto payment',
-        details: errorMessage
+      const validationResult = recordTokenPriceSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid token price', details: validationResult.error.format() });
+      }
+
+      const { capturedAt, ...price } = validationResult.data;
+      const snapshot = await earningsStatementService.recordPrice({
+        ...price,
+        capturedAt: capturedAt ? new Date(capturedAt) : undefined,
+        recordedBy: user.id,
       });
+      res.json({ success: true, snapshot });
+    } catch (error) {
+      log(`Admin error recording token price: ${error}`, 'admin-ERROR');
+      res.status(500).json({ error: 'Failed to record token price' });
     }
   });
 
-  // Get list of supported networks for crypto payment
-  app.get('/api/subscription/crypto/networks', async (req, res) => {
+  // Admin: List the AI model registry, including disabled models, with the circuit state of each deployment
+  app.get('/api/admin/ai-models', requireAuth, async (req, res) => {
     try {
-      const { SUPPORTED_CRYPTO_NETWORKS } = await import('./onrampCryptoService');
-      res.json(SUPPORTED_CRYPTO_NETWORKS);
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      // Check admin access (user ID 1 is the platform admin)
+      if (user.id !== 1) {
+        return res.status(403).json({ error: 'Admin access required' });
+      }
+
+      const models = await aiModelRegistryService.list();
+      res.json({ models, circuits: aiCircuitBreakerService.getStatuses() });
     } catch (error) {
-      console.error('Error fetching crypto networks:', error);
-      res.status(500).json({ error: 'Failed to fetch crypto networks' });
+      log(`Admin error listing AI models: ${error}`, 'admin-ERROR');
+      res.status(500).json({ error: 'Failed to list AI models' });
     }
   });
 
-  // Get list of supported currencies for subscription payment
-  app.get('/api/subscription/currencies', async (req, res) => {
+  // Admin: Register a model with the VS Code AI proxy
+  app.post('/api/admin/ai-models', requireAuth, csrfProtection, async (req, res) => {
     try {
-      const { getAllCurrencies, getPopularCurrencies } = await import('./currencyConfig');
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
 
-      const allCurrencies = getAllCurrencies();
-      const popularCurrencies = getPopularCurrencies();
+      // Check admin access (user ID 1 is the platform admin)
+      if (user.id !== 1) {
+        return res.status(403).json({ error: 'Admin access required' });
+      }
 
-      res.json({
-        popular: popularCurrencies,
-        all: allCurrencies,
-      });
+      const validationResult = createAiModelSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid model', details: validationResult.error.format() });
+      }
+
+      const model = await aiModelRegistryService.create(validationResult.data);
+      res.json({ success: true, model });
     } catch (error) {
-      console.error('Error fetching currencies:', error);
-      res.status(500).json({ error: 'Failed to fetch currencies' });
+      if (error instanceof AiModelRegistryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      log(`Admin error registering AI model: ${error}`, 'admin-ERROR');
+      res.status(500).json({ error: 'Failed to register AI model' });
     }
   });
 
-  // Get subscription status
-  /**
-   * @openapi
-   * /api/subscription/status:
-   *   get:
-   *     summary: Get current subscription status
-   *     tags: [Subscriptions]
-   *     security:
-   *       - cookieAuth: []
-   *     responses:
-   *       200:
-   *         description: Subscription status
-   *         content:
-   *           application/json:
-   *             schema:
-   *               $ref: '#/components/schemas/Subscription'
-   *       401:
-   *         description: Unauthorized
-   */
-  app.get('/api/subscription/status', requireAuth, csrfProtection, async (req, res) => {
+  // Admin: Edit a registered model, e.g. to disable it or change its prompt cost
+  app.patch('/api/admin/ai-models/:id', requireAuth, csrfProtection, async (req, res) => {
     try {
       const user = req.user;
       if (!user) {
         return res.status(401).json({ error: 'User not authenticated' });
       }
 
-      // Import subscription service
-      const { subscriptionService } = await import('./subscriptionService');
+      // Check admin access (user ID 1 is the platform admin)
+      if (user.id !== 1) {
+        return res.status(403).json({ error: 'Admin access required' });
+      }
 
-      // Get subscription status
-      const status = await subscriptionService.getSubscriptionStatus(user.id);
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid model id' });
+      }
+      const validationResult = updateAiModelSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid model changes', details: validationResult.error.format() });
+      }
 
-      res.json({
-        active: status.active,
-        periodEnd: status.periodEnd,
-        subscription: status.subscription ? {
-          id: status.subscription.id,
-          plan: status.subscription.plan,
-          status: status.subscription.status,
-          currentPeriodStart: status.subscription.currentPeriodStart,
-          currentPeriodEnd: status.subscription.currentPeriodEnd,
-        } : undefined,
-      });
+      const model = await aiModelRegistryService.update(id, validationResult.data);
+      res.json({ success: true, model });
     } catch (error) {
-      console.error('Error getting subscription status:', error);
-      log(`Error getting subscription status: ${error}`, 'subscription-ERROR');
-      res.status(500).json({ error: 'Failed to get subscription status' });
+      if (error instanceof AiModelRegistryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      log(`Admin error updating AI model: ${error}`, 'admin-ERROR');
+      res.status(500).json({ error: 'Failed to update AI model' });
     }
   });
 
-  // Manual payment verification endpoint
-  app.post('/api/subscription/verify-payment', requireAuth, csrfProtection, async (req, res) => {
+  // Admin: Remove a model from the registry
+  app.delete('/api/admin/ai-models/:id', requireAuth, csrfProtection, async (req, res) => {
     try {
       const user = req.user;
       if (!user) {
         return res.status(401).json({ error: 'User not authenticated' });
       }
 
-      // Import verification service
-      const { paymentVerificationService } = await import('./paymentVerificationService');
+      // Check admin access (user ID 1 is the platform admin)
+      if (user.id !== 1) {
+        return res.status(403).json({ error: 'Admin access required' });
+      }
 
-      // Get verification parameters
-      const { orderId, txHash, referenceId, timestamp } = req.body;
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid model id' });
+      }
 
-      // Perform verification
-      const result = await paymentVerificationService.verifyPayment(user.id, {
-        orderId,
-        txHash,
-        referenceId,
-        timestamp
-      });
+      await aiModelRegistryService.remove(id);
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof AiModelRegistryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      log(`Admin error removing AI model: ${error}`, 'admin-ERROR');
+      res.status(500).json({ error: 'Failed to remove AI model' });
+    }
+  });
 
-      // Return appropriate response
-      if (result.success) {
-        res.json({
-          success: true,
-          message: result.message,
-          subscription: result.subscription
-        });
-      } else if (result.needsConfirmation) {
-        res.json({
-          success: false,
-          needsConfirmation: true,
-          transaction: result.transaction,
-          message: result.message
-        });
-      } else {
-        res.status(400).json({
-          success: false,
-          message: result.message,
-          error: result.error
-        });
+  // Admin: List prompt organisations with their pool balance and member count
+  app.get('/api/admin/prompt-organizations', requireAuth, async (req, res) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      // Check admin access (user ID 1 is the platform admin)
+      if (user.id !== 1) {
+        return res.status(403).json({ error: 'Admin access required' });
       }
+
+      const organizations = await promptOrganizationService.listAll();
+      res.json({ organizations });
     } catch (error) {
-      console.error('Error verifying payment:', error);
-      log(`Error verifying payment: ${error}`, 'verification-ERROR');
-      res.status(500).json({
-        error: 'Failed to verify payment',
-        message: 'An unexpected error occurred. Please try again or contact support.'
-      });
+      log(`Admin error listing prompt organisations: ${error}`, 'admin-ERROR');
+      res.status(500).json({ error: 'Failed to list organisations' });
     }
   });
 
-  // Get user's pending payments
-  app.get('/api/subscription/pending-payments', requireAuth, csrfProtection, async (req, res) => {
+  // Admin: Grant prompts to, or deduct them from, an organisation's pool
+  app.post('/api/admin/prompt-organizations/:id/prompts', requireAuth, csrfProtection, async (req, res) => {
     try {
       const user = req.user;
       if (!user) {
         return res.status(401).json({ error: 'User not authenticated' });
       }
 
-      // Import verification service
-      const { paymentVerificationService } = await import('./paymentVerificationService');
+      // Check admin access (user ID 1 is the platform admin)
+      if (user.id !== 1) {
+        return res.status(403).json({ error: 'Admin access required' });
+      }
 
-      // Get pending payments
-      const pendingPayments = await paymentVerificationService.getUserPendingPayments(user.id);
+      const id = parseInt(req.params.id, 10);
+      const validationResult = adjustOrganizationPromptsSchema.safeParse(req.body);
+      if (isNaN(id) || !validationResult.success) {
+        return res.status(400).json({ error: 'Invalid adjustment', details: validationResult.error?.format() });
+      }
 
-      res.json({
-        success: true,
-        payments: pendingPayments
-      });
+      const { prompts, notes } = validationResult.data;
+      const promptBalance = await promptOrganizationService.adminAdjust(id, prompts, notes || 'Admin grant', user.id);
+      res.json({ success: true, promptBalance });
     } catch (error) {
-      console.error('Error getting pending payments:', error);
-      log(`Error getting pending payments: ${error}`, 'verification-ERROR');
-      res.status(500).json({
-        error: 'Failed to get pending payments'
-      });
+      if (error instanceof PromptOrganizationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      log(`Admin error adjusting prompt organisation balance: ${error}`, 'admin-ERROR');
+      res.status(500).json({ error: 'Failed to adjust organisation prompts' });
     }
   });
 
-  // Confirm payment verification (for timestamp-based verification)
-  app.post('/api/subscription/confirm-verification', requireAuth, csrfProtection, async (req, res) => {
+  // Admin: Set a user's transfer limits or a repository's funding limits for one currency
+  app.put('/api/admin/limits/overrides', requireAuth, csrfProtection, async (req, res) => {
     try {
       const user = req.user;
       if (!user) {
         return res.status(401).json({ error: 'User not authenticated' });
       }
 
-      const { transactionId, confirm } = req.body;
+      // Check admin access (user ID 1 is the platform admin)
+      if (user.id !== 1) {
+        return res.status(403).json({ error: 'Admin access required' });
+      }
 
-      if (!confirm) {
-        return res.json({
-          success: false,
-          message: 'Verification cancelled'
-        });
+      const validationResult = setLimitOverrideSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid limit override', details: validationResult.error.format() });
       }
 
-      // Import services
-      const { db } = await import('./db');
-      const { onrampTransactions } = await import('../shared/schema');
-      const { eq } = await import('drizzle-orm');
+      const override = await limitsService.setOverride({ ...validationResult.data, setBy: user.id });
+      res.json({ success: true, override });
+    } catch (error) {
+      log(`Admin error setting limit override: ${error}`, 'admin-ERROR');
+      res.status(500).json({ error: 'Failed to set limit override' });
+    }
+  });
 
-      // Verify transaction belongs to user
-      const transaction = await db.query.onrampTransactions.findFirst({
-        where: eq(onrampTransactions.id, transactionId)
-      });
+  // Admin: Remove an override so the defaults apply again
+  app.delete('/api/admin/limits/overrides/:id', requireAuth, csrfProtection, async (req, res) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+
+      // Check admin access (user ID 1 is the platform admin)
+      if (user.id !== 1) {
+        return res.status(403).json({ error: 'Admin access required' });
+      }
+
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid override ID' });
+      }
 
-      if (!transaction || transaction.userId !== user.id) {
-        return res.status(403).json({
-          error: 'Invalid transaction'
-        });
+      const removed = await limitsService.removeOverride(id);
+      if (!removed) {
+        return res.status(404).json({ error: 'Limit override not found' });
       }
+      res.json({ success: true, override: removed });
+    } catch (error) {
+      log(`Admin error removing limit override: ${error}`, 'admin-ERROR');
+      res.status(500).json({ error: 'Failed to remove limit override' });
+    }
+  });
 
-      // For confirmed timestamp verification, we need additional proof
-      // User should provide either orderId or txHash
-      const { orderId, txHash } = req.body;
+  // Admin: Audit of limit decisions, newest first
+  app.get('/api/admin/limits/decisions', requireAuth, csrfProtection, async (req, res) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
 
-      if (!orderId && !txHash) {
-        return res.status(400).json({
-          error: 'Please provide Order ID or Transaction Hash to confirm'
-        });
+      // Check admin access (user ID 1 is the platform admin)
+      if (user.id !== 1) {
+        return res.status(403).json({ error: 'Admin access required' });
       }
 
-      // Re-verify with the additional proof
-      const { paymentVerificationService } = await import('./paymentVerificationService');
-      const result = await paymentVerificationService.verifyPayment(user.id, {
-        orderId,
-        txHash
-      });
+      const scope = req.query.scope as 'transfer' | 'repo_funding' | undefined;
+      if (scope && scope !== 'transfer' && scope !== 'repo_funding') {
+        return res.status(400).json({ error: 'scope must be one of: transfer, repo_funding' });
+      }
+      const allowed = req.query.allowed === undefined ? undefined : req.query.allowed === 'true';
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
 
-      res.json(result);
+      const decisions = await limitsService.listDecisions({
+        scope,
+        subjectId: req.query.subjectId as string | undefined,
+        allowed
+      }, limit);
+      res.json({ success: true, decisions });
     } catch (error) {
-      console.error('Error confirming verification:', error);
-      log(`Error confirming verification: ${error}`, 'verification-ERROR');
-      res.status(500).json({
-        error: 'Failed to confirm verification'
-      });
+      log(`Admin error listing limit decisions: ${error}`, 'admin-ERROR');
+      res.status(500).json({ error: 'Failed to list limit decisions' });
     }
   });
 
-  // Admin: Get all pending subscription payments
-  app.get('/api/admin/subscription/pending', requireAuth, csrfProtection, async (req, res) => {
+  // Admin: Gas relayer spend over the last 24 hours and the queue
+  app.get('/api/admin/relayer/usage', requireAuth, csrfProtection, async (req, res) => {
     try {
       const user = req.user;
       if (!user) {
         return res.status(401).json({ error: 'User not authenticated' });
       }
 
-      // Check if user is admin (user ID 1 is the platform admin)
+      // Check admin access (user ID 1 is the platform admin)
       if (user.id !== 1) {
         return res.status(403).json({ error: 'Admin access required' });
       }
 
-      // Import services
-      const { db } = await import('./db');
-      const { onrampTransactions, TransactionStatus } = await import('../shared/schema');
-      const { and, eq, sql, desc } = await import('drizzle-orm');
-
-      // Get all pending subscription transactions
-      const pending = await db.query.onrampTransactions.findMany({
-        where: and(
-          eq(onrampTransactions.status, TransactionStatus.INITIATED),
-          sql`${onrampTransactions.metadata}->>'type' = 'subscription'`,
-          sql`${onrampTransactions.createdAt} > NOW() - INTERVAL '7 days'`
-        ),
-        orderBy: [desc(onrampTransactions.createdAt)],
-        limit: 100
-      });
+      const [byUser, byRepo, queueDepth, recent] = await Promise.all([
+        relayerService.getSpendSummary('user'),
+        relayerService.getSpendSummary('repo'),
+        relayerService.getQueueDepth(),
+        relayerService.listRecent(50)
+      ]);
 
       res.json({
         success: true,
-        count: pending.length,
-        transactions: pending.map(t => ({
-          id: t.id,
-          userId: t.userId,
-          merchantRecognitionId: t.merchantRecognitionId,
-          status: t.status,
-          createdAt: t.createdAt,
-          metadata: t.metadata
-        }))
+        budgets: {
+          enabled: config.relayerSponsorshipEnabled,
+          userDailyXdc: config.relayerUserDailyBudgetXdc,
+          repoDailyXdc: config.relayerRepoDailyBudgetXdc,
+          minRelayerBalanceXdc: config.relayerMinBalanceXdc
+        },
+        byUser,
+        byRepo,
+        queueDepth,
+        recent
       });
     } catch (error) {
-      console.error('Error getting pending transactions:', error);
-      log(`Admin error getting pending transactions: ${error}`, 'admin-ERROR');
-      res.status(500).json({ error: 'Failed to get pending transactions' });
+      log(`Admin error getting relayer usage: ${error}`, 'admin-ERROR');
+      res.status(500).json({ error: 'Failed to get relayer usage' });
     }
   });
 
-  // Admin: Manually verify a payment
-  app.post('/api/admin/subscription/verify/:orderId', requireAuth, csrfProtection, async (req, res) => {
+  // Admin: Relayer hot wallet balance, nonces and alerts
+  app.get('/api/admin/relayer/status', requireAuth, csrfProtection, async (req, res) => {
     try {
       const user = req.user;
       if (!user) {
@@ -2426,34 +3943,16 @@ export async function registerRoutes(app: Express) {
         return res.status(403).json({ error: 'Admin access required' });
       }
 
-      const { orderId } = req.params;
-      const { userId: targetUserId } = req.body;
-
-      if (!orderId || !targetUserId) {
-        return res.status(400).json({ error: 'Order ID and User ID required' });
-      }
-
-      // Import verification service
-      const { paymentVerificationService } = await import('./paymentVerificationService');
-
-      // Verify payment for the target user
-      const result = await paymentVerificationService.verifyPayment(targetUserId, {
-        orderId
-      });
-
-      // Log admin action
-      log(`Admin ${user.id} manually verified payment ${orderId} for user ${targetUserId}`, 'admin-action');
-
-      res.json(result);
+      const status = await relayerTransactionService.getStatus();
+      res.json({ success: true, ...status });
     } catch (error) {
-      console.error('Error in admin verification:', error);
-      log(`Admin verification error: ${error}`, 'admin-ERROR');
-      res.status(500).json({ error: 'Failed to verify payment' });
+      log(`Admin error getting relayer status: ${error}`, 'admin-ERROR');
+      res.status(500).json({ error: 'Failed to get relayer status' });
     }
   });
 
-  // Admin: Check Onramp order status
-  app.get('/api/admin/onramp/order/:orderId', requireAuth, csrfProtection, async (req, res) => {
+  // Admin: Transactions sent by the relayer, newest first
+  app.get('/api/admin/relayer/transactions', requireAuth, csrfProtection, async (req, res) => {
     try {
       const user = req.user;
       if (!user) {
@@ -2465,34 +3964,22 @@ export async function registerRoutes(app: Express) {
         return res.status(403).json({ error: 'Admin access required' });
       }
 
-      const { orderId } = req.params;
-
-      // Import Onramp service
-      const { onrampCryptoService } = await import('./onrampCryptoService');
-
-      // Get order status from Onramp
-      const orderStatus = await onrampCryptoService.getOrderStatus(orderId);
-
-      if (!orderStatus) {
-        return res.status(404).json({ error: 'Order not found' });
+      const status = req.query.status as RelayerTransactionStatus | undefined;
+      if (status && !['pending', 'confirmed', 'failed', 'dropped'].includes(status)) {
+        return res.status(400).json({ error: 'status must be one of: pending, confirmed, failed, dropped' });
       }
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
 
-      // Log admin action
-      log(`Admin ${user.id} checked Onramp order ${orderId}`, 'admin-action');
-
-      res.json({
-        success: true,
-        order: orderStatus
-      });
+      const transactions = await relayerTransactionService.listTransactions(status, limit);
+      res.json({ success: true, transactions });
     } catch (error) {
-      console.error('Error checking Onramp order:', error);
-      log(`Admin error checking Onramp order: ${error}`, 'admin-ERROR');
-      res.status(500).json({ error: 'Failed to check order status' });
+      log(`Admin error listing relayer transactions: ${error}`, 'admin-ERROR');
+      res.status(500).json({ error: 'Failed to list relayer transactions' });
     }
   });
 
-  // Admin: Get verification attempts log
-  app.get('/api/admin/verification-log', requireAuth, csrfProtection, async (req, res) => {
+  // Admin: Replay a failed or dead-lettered webhook delivery
+  app.post('/api/admin/webhook-events/:id/replay', requireAuth, csrfProtection, async (req, res) => {
     try {
       const user = req.user;
       if (!user) {
@@ -2504,16 +3991,26 @@ export async function registerRoutes(app: Express) {
         return res.status(403).json({ error: 'Admin access required' });
       }
 
-      // For now, return a message about checking server logs
-      // In production, you'd want to store verification attempts in a database table
-      res.json({
-        success: true,
-        message: 'Check server logs for verification attempts. Search for "verification" tag.',
-        note: 'Consider implementing verification_attempts table for better tracking.'
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid event id' });
+      }
+
+      const event = await webhookQueueService.replay(id);
+      if (!event) {
+        return res.status(409).json({ error: 'Only failed or dead-lettered events can be replayed' });
+      }
+
+      log(`Admin ${user.username} replayed webhook delivery ${event.deliveryId}`, 'admin');
+      setImmediate(() => {
+        webhookQueueService.processDueEvents().catch(err => {
+          log(`Error processing webhook queue: ${err?.message || err}`, 'admin-ERROR');
+        });
       });
+      res.json({ success: true, event: { id: event.id, deliveryId: event.deliveryId, status: event.status } });
     } catch (error) {
-      console.error('Error getting verification log:', error);
-      res.status(500).json({ error: 'Failed to get verification log' });
+      log(`Admin error replaying webhook event: ${error}`, 'admin-ERROR');
+      res.status(500).json({ error: 'Failed to replay webhook event' });
     }
   });
 
@@ -2695,6 +4192,9 @@ export async function registerRoutes(app: Express) {
    *         name: repoId
    *         required: true
    *         schema: { type: integer }
+   *       - in: query
+   *         name: currency
+   *         schema: { type: string, enum: [XDC, ROXN, USDC], default: XDC }
    *     responses:
    *       200:
    *         description: Funding status
@@ -2703,9 +4203,14 @@ export async function registerRoutes(app: Express) {
    *             schema:
    *               type: object
    *               properties:
+   *                 currency: { type: string }
    *                 dailyLimit: { type: number }
    *                 currentTotal: { type: number }
    *                 remainingLimit: { type: number }
+   *                 weeklyLimit: { type: number }
+   *                 weeklyTotal: { type: number }
+   *                 weeklyRemaining: { type: number }
+   *                 perTransactionLimit: { type: number }
    *                 windowStartTime: { type: string }
    *                 windowEndTime: { type: string }
    *       401:
@@ -2724,15 +4229,25 @@ export async function registerRoutes(app: Express) {
           return res.status(400).json({ error: 'Invalid repository ID format.' });
         }
 
-        // Get current funding status for this repository
-        const fundingStatus = getRepositoryFundingStatus(repoIdNumber);
+        const currency = ((req.query.currency as string) || 'XDC').toUpperCase() as LimitCurrency;
+        if (!LIMIT_CURRENCIES.includes(currency)) {
+          return res.status(400).json({ error: `currency must be one of: ${LIMIT_CURRENCIES.join(', ')}` });
+        }
+
+        const fundingStatus = await limitsService.getStatus('repo_funding', repoIdNumber.toString(), currency);
+        const windowEndTime = fundingStatus.dailyResetAt || new Date(Date.now() + 24 * 60 * 60 * 1000);
 
         return res.json({
-          dailyLimit: REPOSITORY_FUNDING_DAILY_LIMIT,
-          currentTotal: fundingStatus.currentTotal,
-          remainingLimit: fundingStatus.remainingLimit,
-          windowStartTime: fundingStatus.windowStartTime.toISOString(),
-          windowEndTime: fundingStatus.windowEndTime.toISOString()
+          currency,
+          dailyLimit: parseFloat(fundingStatus.limits.daily),
+          currentTotal: parseFloat(fundingStatus.dailyUsed),
+          remainingLimit: parseFloat(fundingStatus.dailyRemaining),
+          weeklyLimit: parseFloat(fundingStatus.limits.weekly),
+          weeklyTotal: parseFloat(fundingStatus.weeklyUsed),
+          weeklyRemaining: parseFloat(fundingStatus.weeklyRemaining),
+          perTransactionLimit: parseFloat(fundingStatus.limits.perTransaction),
+          windowStartTime: new Date(windowEndTime.getTime() - 24 * 60 * 60 * 1000).toISOString(),
+          windowEndTime: windowEndTime.toISOString()
         });
       } catch (error) {
         console.error('Error getting repository funding status:', error);
@@ -2843,32 +4358,33 @@ export async function registerRoutes(app: Express) {
         return res.status(400).json({ error: 'Invalid repository ID format.' });
       }
 
-      // Check daily funding limit for this repository
-      const amountXdcNumber = parseFloat(amountXdc);
-      const fundingCheck = checkRepositoryFundingLimit(repoIdNumber, amountXdcNumber);
+      // Check and reserve this repository's XDC funding limits
+      const fundingCheck = await limitsService.reserve({
+        scope: 'repo_funding',
+        subjectId: repoIdNumber.toString(),
+        currency: 'XDC',
+        amount: amountXdc,
+        userId: req.user.id
+      });
 
       if (!fundingCheck.allowed) {
-        const resetTimeStr = fundingCheck.limitResetTime ? fundingCheck.limitResetTime.toISOString() : 'unknown';
-        log(`Funding rejected: Repository ${repoIdNumber} has reached daily limit of ${REPOSITORY_FUNDING_DAILY_LIMIT} XDC`, 'routes');
-        return res.status(429).json({
-          error: `Daily funding limit reached for this repository.`,
-          details: {
-            remainingLimit: fundingCheck.remainingLimit,
-            dailyLimit: REPOSITORY_FUNDING_DAILY_LIMIT,
-            limitResetTime: resetTimeStr
-          }
-        });
+        log(`Funding rejected for repository ${repoIdNumber}: ${fundingCheck.reason}`, 'routes');
+        return res.status(429).json(formatLimitRejection(fundingCheck));
       }
 
       // Use addXDCFundToRepository for XDC funding
-      const txResponse = await blockchain.addXDCFundToRepository(
-        repoIdNumber,
-        amountXdc,
-        req.user.id
-      );
-
-      // Record the successful funding transaction
-      recordRepositoryFunding(repoIdNumber, amountXdcNumber);
+      let txResponse;
+      try {
+        txResponse = await blockchain.addXDCFundToRepository(
+          repoIdNumber,
+          amountXdc,
+          req.user.id
+        );
+      } catch (fundingError) {
+        await limitsService.release(fundingCheck.usageId!);
+        throw fundingError;
+      }
+      await limitsService.recordTransactionHash(fundingCheck.usageId!, txResponse.hash);
 
       // Respond with transaction details using the correct 'res' object
       return res.json({ // Added return here
@@ -2927,58 +4443,347 @@ export async function registerRoutes(app: Express) {
     }
   });
 
-  // --- Webhook Routes ---
-  // Old user webhook (Commented out)
-  // app.post('/webhook/github', webhookMiddleware, handleGitHubWebhook);
-  // New GitHub App webhook endpoint
-  app.post('/webhook/github/app', express.raw({ type: 'application/json' }), handleGitHubAppWebhook);
-
-  // Cache for tracking wallet export requests (to implement rate limiting)
-  const exportRequestCache = new Map<number, { timestamp: number, count: number }>();
-
-  // In-memory OTP store: userId -> { code, expires }
-  const otpStore = new Map<number, { code: string; expires: number }>();
-
-  // 1. Endpoint to request an OTP
-  app.post('/api/wallet/export-request', requireAuth, csrfProtection, async (req: Request, res: Response) => {
+  // --- Webhook Routes ---
+  // Old user webhook (Commented out)
+  // app.post('/webhook/github', webhookMiddleware, handleGitHubWebhook);
+  // New GitHub App webhook endpoint
+  app.post('/webhook/github/app', express.raw({ type: 'application/json' }), handleGitHubAppWebhook);
+
+  // Cache for tracking wallet export requests (to implement rate limiting)
+  const exportRequestCache = new Map<number, { timestamp: number, count: number }>();
+
+  // --- Step-up authentication ---
+
+  // Email a one-time code for a sensitive action
+  app.post('/api/auth/step-up/request', requireAuth, csrfProtection, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: 'Auth required' });
+      if (!req.user.email) return res.status(400).json({ error: 'No email on account' });
+
+      const purpose = stepUpPurposeSchema.safeParse(req.body?.purpose);
+      if (!purpose.success) {
+        return res.status(400).json({ error: 'Invalid step-up purpose' });
+      }
+
+      const sent = await stepUpService.requestEmailCode(req.user, purpose.data);
+      if (!sent) {
+        return res.status(429).json({ error: 'Too many codes requested. Try again in a few minutes.' });
+      }
+      res.json({ success: true });
+    } catch (err: any) {
+      log(`Error sending step-up code to user ${req.user?.id}: ${err.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to send code' });
+    }
+  });
+
+  app.get('/api/auth/step-up/status', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: 'Auth required' });
+      res.json({ totpEnabled: await stepUpService.isTotpEnabled(req.user.id) });
+    } catch (err: any) {
+      log(`Error fetching step-up status for user ${req.user?.id}: ${err.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to fetch step-up status' });
+    }
+  });
+
+  // Start authenticator app enrolment; the secret is shown once as a QR code
+  app.post('/api/auth/totp/setup', requireAuth, csrfProtection, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: 'Auth required' });
+      const enrollment = await stepUpService.beginTotpEnrollment(req.user);
+      if (!enrollment) {
+        return res.status(409).json({ error: 'An authenticator app is already enabled' });
+      }
+      res.json(enrollment);
+    } catch (err: any) {
+      log(`Error starting authenticator setup for user ${req.user?.id}: ${err.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to start authenticator setup' });
+    }
+  });
+
+  app.post('/api/auth/totp/confirm', requireAuth, csrfProtection, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: 'Auth required' });
+      const validationResult = stepUpCodeSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Code must be 6 digits' });
+      }
+      if (!await stepUpService.confirmTotpEnrollment(req.user.id, validationResult.data.code)) {
+        return res.status(400).json({ error: 'Invalid code. Check the time on your device and try again.' });
+      }
+      res.json({ success: true });
+    } catch (err: any) {
+      log(`Error confirming authenticator for user ${req.user?.id}: ${err.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to confirm authenticator' });
+    }
+  });
+
+  app.post('/api/auth/totp/disable', requireAuth, csrfProtection, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: 'Auth required' });
+      const validationResult = stepUpCodeSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Code must be 6 digits' });
+      }
+      const result = await stepUpService.disableTotp(req.user.id, validationResult.data.code);
+      if (!result.verified) {
+        return res.status(401).json({ error: result.reason });
+      }
+      res.json({ success: true });
+    } catch (err: any) {
+      log(`Error disabling authenticator for user ${req.user?.id}: ${err.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to disable authenticator' });
+    }
+  });
+
+  // 1. Endpoint to request an OTP (kept for the wallet export client)
+  app.post('/api/wallet/export-request', requireAuth, csrfProtection, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: 'Auth required' });
+      if (!req.user.email) return res.status(400).json({ error: 'No email on account' });
+
+      const sent = await stepUpService.requestEmailCode(req.user, 'wallet_export');
+      if (!sent) {
+        return res.status(429).json({ error: 'Too many codes requested. Try again in a few minutes.' });
+      }
+      res.json({ success: true });
+    } catch (err: any) {
+      res.status(500).json({ error: 'Failed to send OTP' });
+    }
+  });
+
+  // Send XDC from the user's wallet. Transfers at or above the threshold need a step-up code;
+  // every transfer counts against the user's transfer limits.
+  app.post('/api/wallet/send', requireAuth, csrfProtection,
+    requireStepUp('transfer', { when: req => isAtOrAbove(req.body?.amount, config.stepUpTransferThresholdXdc) }),
+    async (req: Request, res: Response) => {
+      try {
+        if (!req.user) return res.status(401).json({ error: 'Auth required' });
+
+        const { recipientAddress, amount } = req.body || {};
+        if (typeof recipientAddress !== 'string' || !ethers.isAddress(recipientAddress.replace(/^xdc/i, '0x'))) {
+          return res.status(400).json({ error: 'Invalid recipient address' });
+        }
+        let amountWei: bigint;
+        try {
+          amountWei = ethers.parseEther(String(amount));
+        } catch (error) {
+          return res.status(400).json({ error: 'Invalid amount format for XDC' });
+        }
+        if (amountWei <= BigInt(0)) {
+          return res.status(400).json({ error: 'Amount must be greater than zero' });
+        }
+
+        const tx = await blockchain.sendFunds(req.user.id, recipientAddress, amountWei);
+        log(`User ${req.user.id} sent ${amount} XDC, tx ${tx.hash}`, 'security');
+        res.json({ success: true, transactionHash: tx.hash });
+      } catch (error: any) {
+        if (error instanceof WithdrawalAddressBlockedError) {
+          return res.status(403).json({ error: error.message, withdrawalAddressBlocked: true });
+        }
+        log(`Error sending funds for user ${req.user?.id}: ${error.message}`, 'routes-ERROR');
+        const status = error.message?.startsWith('Exceeds') ? 429 : 500;
+        res.status(status).json({ error: status === 429 ? error.message : 'Failed to send funds' });
+      }
+    });
+
+  // Withdrawal address book. Transfers out of a user's wallet may only go to active entries.
+  app.get('/api/wallet/withdrawal-addresses', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: 'Auth required' });
+      const addresses = await withdrawalAddressService.list(req.user.id);
+      res.json({ addresses, coolingOffHours: config.withdrawalAddressCoolingOffHours });
+    } catch (error: any) {
+      log(`Error listing withdrawal addresses for user ${req.user?.id}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to load withdrawal addresses' });
+    }
+  });
+
+  app.post('/api/wallet/withdrawal-addresses', requireAuth, csrfProtection, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: 'Auth required' });
+      if (!req.user.email) return res.status(400).json({ error: 'Add an email to your account before adding withdrawal addresses' });
+
+      const validationResult = addWithdrawalAddressSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid input', details: validationResult.error.errors });
+      }
+      const { address, label } = validationResult.data;
+      const walletAddress = req.user.xdcWalletAddress?.replace(/^xdc/i, '0x').toLowerCase();
+      if (walletAddress && address.replace(/^xdc/i, '0x').toLowerCase() === walletAddress) {
+        return res.status(400).json({ error: 'This is your Roxonn wallet address' });
+      }
+
+      const result = await withdrawalAddressService.add(req.user, address, label, req.ip);
+      if (!result.success) {
+        return result.error === 'duplicate'
+          ? res.status(409).json({ error: 'This address is already in your withdrawal addresses' })
+          : res.status(400).json({ error: 'Too many withdrawal addresses. Remove one before adding another.' });
+      }
+      res.status(201).json(result.address);
+    } catch (error: any) {
+      log(`Error adding withdrawal address for user ${req.user?.id}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to add withdrawal address' });
+    }
+  });
+
+  app.post('/api/wallet/withdrawal-addresses/confirm', requireAuth, csrfProtection, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: 'Auth required' });
+      const validationResult = confirmWithdrawalAddressSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid confirmation link' });
+      }
+      const confirmed = await withdrawalAddressService.confirm(req.user, validationResult.data.token, req.ip);
+      if (!confirmed) {
+        return res.status(404).json({ error: 'Confirmation link is invalid or has expired' });
+      }
+      res.json(confirmed);
+    } catch (error: any) {
+      log(`Error confirming withdrawal address for user ${req.user?.id}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to confirm withdrawal address' });
+    }
+  });
+
+  app.delete('/api/wallet/withdrawal-addresses/:id', requireAuth, csrfProtection, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: 'Auth required' });
+      const addressId = parseInt(req.params.id);
+      if (isNaN(addressId)) {
+        return res.status(400).json({ error: 'Invalid address ID' });
+      }
+      const removed = await withdrawalAddressService.remove(req.user, addressId, req.ip);
+      if (!removed) {
+        return res.status(404).json({ error: 'Withdrawal address not found' });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      log(`Error removing withdrawal address for user ${req.user?.id}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to remove withdrawal address' });
+    }
+  });
+
+  app.get('/api/wallet/withdrawal-addresses/events', requireAuth, async (req: Request, res: Response) => {
     try {
       if (!req.user) return res.status(401).json({ error: 'Auth required' });
+      const events = await withdrawalAddressService.listEvents(req.user.id);
+      res.json(events);
+    } catch (error: any) {
+      log(`Error loading withdrawal address history for user ${req.user?.id}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to load withdrawal address history' });
+    }
+  });
 
-      const userId = req.user.id;
-      const email = req.user.email;
-
-      if (!email) return res.status(400).json({ error: 'No email on account' });
+  // Earnings statement over a period, as JSON for the preview or as a CSV / PDF download
+  app.get('/api/wallet/earnings-statement', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: 'Auth required' });
+      const validationResult = earningsStatementQuerySchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid statement period', details: validationResult.error.format() });
+      }
+      const { from, to, fiat, format } = validationResult.data;
+      if (!getCurrencyByCode(fiat)) {
+        return res.status(400).json({ error: `Unsupported fiat currency ${fiat}` });
+      }
 
-      // Generate 6-digit numeric code
-      const code = Math.floor(100000 + Math.random() * 900000).toString();
-      const expires = Date.now() + 5 * 60 * 1000; // 5 min
+      const statement = await earningsStatementService.build(req.user, from, to, fiat.toUpperCase());
+      const filename = `roxonn-earnings-${from}-to-${to}`;
+      if (format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+        return res.send(renderStatementCsv(statement));
+      }
+      if (format === 'pdf') {
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}.pdf"`);
+        return res.send(renderStatementPdf(statement));
+      }
+      res.json(statement);
+    } catch (error: any) {
+      log(`Error building earnings statement for user ${req.user?.id}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to build earnings statement' });
+    }
+  });
 
-      otpStore.set(userId, { code, expires });
+  // Self-custody payouts: link an external wallet by signing a challenge. Bounties go to the linked
+  // wallet while it is set, and back to the custodial wallet once it is unlinked.
+  app.get('/api/wallet/payout-address', requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: 'Auth required' });
+      const [payoutAddress, linkedWallet] = await Promise.all([
+        payoutAddressService.resolve(req.user),
+        payoutAddressService.getLinkedWallet(req.user.id),
+      ]);
+      res.json({
+        payoutAddress,
+        linkedWallet: linkedWallet ? { address: linkedWallet.address, linkedAt: linkedWallet.linkedAt } : null,
+      });
+    } catch (error: any) {
+      log(`Error loading payout address for user ${req.user?.id}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to load payout address' });
+    }
+  });
 
-      // Send email via SES
-      await sendOtpEmail(email, code);
+  app.post('/api/wallet/payout-address/challenge', requireAuth, csrfProtection, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: 'Auth required' });
+      const validationResult = walletLinkChallengeSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid address' });
+      }
+      const challenge = await payoutAddressService.createChallenge(req.user.id, validationResult.data.address);
+      res.json(challenge);
+    } catch (error: any) {
+      log(`Error creating wallet link challenge for user ${req.user?.id}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to create challenge' });
+    }
+  });
 
-      res.json({ success: true });
-    } catch (err: any) {
-      res.status(500).json({ error: 'Failed to send OTP' });
+  app.post('/api/wallet/payout-address/link', requireAuth, csrfProtection, requireStepUp('payout_address'), async (req: Request, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: 'Auth required' });
+      const validationResult = walletLinkVerifySchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid input', details: validationResult.error.errors });
+      }
+      const { nonce, signature } = validationResult.data;
+      const result = await payoutAddressService.link(req.user.id, nonce, signature);
+      if (!result.success) {
+        switch (result.error) {
+          case 'invalid_challenge':
+            return res.status(400).json({ error: 'Challenge is invalid or has expired. Request a new one.' });
+          case 'bad_signature':
+            return res.status(400).json({ error: 'Signature does not match the wallet address' });
+          case 'address_in_use':
+            return res.status(409).json({ error: 'This wallet is already linked to another account' });
+        }
+      }
+      log(`User ${req.user.id} now receives payouts at ${result.wallet.address}`, 'security');
+      res.json({ address: result.wallet.address, linkedAt: result.wallet.linkedAt });
+    } catch (error: any) {
+      log(`Error linking wallet for user ${req.user?.id}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to link wallet' });
     }
   });
 
-  // Middleware: require valid OTP in req.body.otp
-  function requireOtp(req: Request, res: Response, next: NextFunction) {
-    if (!req.user) return res.status(401).json({ error: 'Auth required' });
-    const record = otpStore.get(req.user.id);
-    const otp = req.body?.otp;
-    if (!record || record.code !== otp || Date.now() > record.expires) {
-      return res.status(401).json({ error: 'Invalid or expired OTP' });
+  app.delete('/api/wallet/payout-address/link', requireAuth, csrfProtection, requireStepUp('payout_address'), async (req: Request, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: 'Auth required' });
+      const unlinked = await payoutAddressService.unlink(req.user.id);
+      if (!unlinked) {
+        return res.status(404).json({ error: 'No linked wallet' });
+      }
+      log(`User ${req.user.id} unlinked ${unlinked.address}; payouts go to the custodial wallet`, 'security');
+      res.json({ success: true });
+    } catch (error: any) {
+      log(`Error unlinking wallet for user ${req.user?.id}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to unlink wallet' });
     }
-    // Consume OTP so it cannot be reused
-    otpStore.delete(req.user.id);
-    next();
-  }
+  });
 
   // Wallet export endpoint for MetaMask integration
-  app.post('/api/wallet/export-data', requireAuth, csrfProtection, requireOtp, async (req: Request, res: Response) => {
+  app.post('/api/wallet/export-data', requireAuth, csrfProtection, requireStepUp('wallet_export'), async (req: Request, res: Response) => {
     try {
       if (!req.user) {
         return res.status(401).json({ error: 'Authentication required' });
@@ -3333,8 +5138,19 @@ export async function registerRoutes(app: Express) {
     return handleVSCodeAIChatCompletions(req, res);
   });
 
+  // Model discovery for the VS Code extension: the enabled models in the registry and their prompt cost
+  app.get('/api/vscode/ai/models', passport.authenticate('jwt', { session: false, failWithError: false }), requireVSCodeAuth, async (req: Request, res: Response) => {
+    try {
+      const models = await aiModelRegistryService.listForClients();
+      res.json({ models });
+    } catch (error: any) {
+      log(`Error listing AI models: ${error.message || error}`, 'vscode-ai-ERROR');
+      res.status(500).json({ error: 'Failed to list AI models' });
+    }
+  });
+
   // --- VSCode Profile & Balance Endpoints ---
-  app.get('/api/vscode/profile', passport.authenticate('jwt', { session: false, failWithError: false }), requireVSCodeAuth, (req: Request, res: Response) => {
+  app.get('/api/vscode/profile', passport.authenticate('jwt', { session: false, failWithError: false }), requireVSCodeAuth, async (req: Request, res: Response) => {
     log('VSCode Profile request received', 'vscode-profile');
     if (!req.user) {
       // This should ideally be caught by requireVSCodeAuth, but as a safeguard
@@ -3350,7 +5166,25 @@ export async function registerRoutes(app: Express) {
       promptBalance: req.user.promptBalance ?? 0, // Use promptBalance
       // Include other fields if the VSCode extension expects them from this endpoint
     };
-    res.json({ user: userProfileData }); // Nest under 'user' key
+    try {
+      // Token and prompt breakdown of the latest metered requests
+      const [recentUsage, membership] = await Promise.all([
+        aiMeteringService.listRecentUsage(req.user.id),
+        promptOrganizationService.getActiveMembership(req.user.id),
+      ]);
+      // Requests of organisation members draw from the shared pool rather than promptBalance
+      const organization = membership ? {
+        id: membership.organization.id,
+        name: membership.organization.name,
+        promptBalance: membership.organization.promptBalance,
+        monthlyPromptCap: membership.member.monthlyPromptCap,
+        monthlyUsed: await promptOrganizationService.getMonthlyUsage(membership.organization.id, req.user.id),
+      } : null;
+      res.json({ user: userProfileData, recentUsage, organization }); // Nest under 'user' key
+    } catch (error: any) {
+      log(`Error loading AI usage for user ${req.user.id}: ${error.message || error}`, 'vscode-profile-ERROR');
+      res.json({ user: userProfileData, recentUsage: [], organization: null });
+    }
   });
 
   app.get('/api/vscode/profile/balance', passport.authenticate('jwt', { session: false, failWithError: false }), requireVSCodeAuth, (req: Request, res: Response) => {
@@ -3731,12 +5565,32 @@ export async function registerRoutes(app: Express) {
         return res.status(403).json({ error: 'Only pool managers can fund with ROXN' });
       }
 
+      const fundingCheck = await limitsService.reserve({
+        scope: 'repo_funding',
+        subjectId: parseInt(repoId).toString(),
+        currency: 'ROXN',
+        amount: roxnAmount,
+        userId: req.user.id
+      });
+      if (!fundingCheck.allowed) {
+        return res.status(429).json(formatLimitRejection(fundingCheck));
+      }
+
       log(`User ${req.user.id} attempting to fund repository ${repoId} with ${roxnAmount} ROXN (Unified System)`, 'routes-unified');
-      const txResponse = await blockchain.addROXNFundToRepository( // Corrected method name
-        parseInt(repoId),
-        roxnAmount,
-        req.user.id
-      );
+      let txResponse;
+      try {
+        txResponse = await blockchain.addROXNFundToRepository( // Corrected method name
+          parseInt(repoId),
+          roxnAmount,
+          req.user.id
+        );
+      } catch (fundingError) {
+        await limitsService.release(fundingCheck.usageId!);
+        throw fundingError;
+      }
+      if (txResponse) {
+        await limitsService.recordTransactionHash(fundingCheck.usageId!, txResponse.hash);
+      }
       res.json({ message: 'ROXN funding transaction submitted successfully.', transactionHash: txResponse?.hash });
     } catch (error: any) {
       log(`Error funding repository ${req.params.repoId} with ROXN (Unified System): ${error.message}`, 'routes-unified-ERROR');
@@ -3759,12 +5613,32 @@ export async function registerRoutes(app: Express) {
         return res.status(403).json({ error: 'Only pool managers can fund with USDC' });
       }
 
+      const fundingCheck = await limitsService.reserve({
+        scope: 'repo_funding',
+        subjectId: parseInt(repoId).toString(),
+        currency: 'USDC',
+        amount: usdcAmount,
+        userId: req.user.id
+      });
+      if (!fundingCheck.allowed) {
+        return res.status(429).json(formatLimitRejection(fundingCheck));
+      }
+
       log(`User ${req.user.id} attempting to fund repository ${repoId} with ${usdcAmount} USDC (Unified System)`, 'routes-unified');
-      const txResponse = await blockchain.addUSDCFundToRepository(
-        parseInt(repoId),
-        usdcAmount,
-        req.user.id
-      );
+      let txResponse;
+      try {
+        txResponse = await blockchain.addUSDCFundToRepository(
+          parseInt(repoId),
+          usdcAmount,
+          req.user.id
+        );
+      } catch (fundingError) {
+        await limitsService.release(fundingCheck.usageId!);
+        throw fundingError;
+      }
+      if (txResponse) {
+        await limitsService.recordTransactionHash(fundingCheck.usageId!, txResponse.hash);
+      }
       res.json({ message: 'USDC funding transaction submitted successfully.', transactionHash: txResponse?.hash });
     } catch (error: any) {
       log(`Error funding repository ${req.params.repoId} with USDC (Unified System): ${error.message}`, 'routes-unified-ERROR');
@@ -3772,10 +5646,200 @@ export async function registerRoutes(app: Express) {
     }
   });
 
+  // A repository's recurring and top-up funding schedules
+  app.get('/api/repositories/:repoId/funding-schedules', requireAuth, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    try {
+      const { repoId } = req.params;
+      const registration = await storage.findRegisteredRepositoryByGithubId(repoId);
+      if (!registration) {
+        return res.status(404).json({ error: 'Repository not found' });
+      }
+      const schedules = await fundingScheduleService.list(repoId);
+      res.json({ schedules });
+    } catch (error: any) {
+      log(`Error listing funding schedules for ${req.params.repoId}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to list funding schedules' });
+    }
+  });
+
+  // Fund a repository on a schedule, or whenever its pool drops below a threshold, from the caller's wallet
+  app.post('/api/repositories/:repoId/funding-schedules', requireAuth, csrfProtection, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    try {
+      const { repoId } = req.params;
+      const validationResult = createFundingScheduleSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid funding schedule', details: validationResult.error.format() });
+      }
+      if (req.user.role !== 'poolmanager' || !req.user.xdcWalletAddress) {
+        return res.status(403).json({ error: 'Only pool managers with a wallet can schedule funding' });
+      }
+
+      const registration = await storage.findRegisteredRepositoryByGithubId(repoId);
+      if (!registration) {
+        return res.status(404).json({ error: 'Repository not found' });
+      }
+
+      const schedule = await fundingScheduleService.create(repoId, req.user.id, validationResult.data);
+      res.status(201).json(schedule);
+    } catch (error: any) {
+      log(`Error creating funding schedule for ${req.params.repoId}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to create funding schedule' });
+    }
+  });
+
+  // Pause, resume or change the amounts of the caller's own schedule
+  app.patch('/api/repositories/:repoId/funding-schedules/:id', requireAuth, csrfProtection, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    try {
+      const { repoId } = req.params;
+      const id = parseInt(req.params.id);
+      const validationResult = updateFundingScheduleSchema.safeParse(req.body);
+      if (isNaN(id) || !validationResult.success) {
+        return res.status(400).json({ error: 'Invalid funding schedule update', details: validationResult.error?.format() });
+      }
+
+      const schedule = await fundingScheduleService.get(id, repoId);
+      if (!schedule) {
+        return res.status(404).json({ error: 'Funding schedule not found' });
+      }
+      if (schedule.funderId !== req.user.id) {
+        return res.status(403).json({ error: 'Only the funder can change this schedule' });
+      }
+
+      const updated = await fundingScheduleService.update(id, repoId, validationResult.data);
+      if (!updated) {
+        return res.status(409).json({ error: 'This schedule has ended and can no longer be changed' });
+      }
+      res.json(updated);
+    } catch (error: any) {
+      log(`Error updating funding schedule ${req.params.id}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to update funding schedule' });
+    }
+  });
+
+  // Stop a schedule (its funder, or anyone who can manage the repository's team)
+  app.delete('/api/repositories/:repoId/funding-schedules/:id', requireAuth, csrfProtection, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    try {
+      const { repoId } = req.params;
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid funding schedule ID' });
+      }
+
+      const [registration, schedule] = await Promise.all([
+        storage.findRegisteredRepositoryByGithubId(repoId),
+        fundingScheduleService.get(id, repoId),
+      ]);
+      if (!registration || !schedule) {
+        return res.status(404).json({ error: 'Funding schedule not found' });
+      }
+      if (schedule.funderId !== req.user.id && !await canManageRepositoryTeam(req.user, repoId, registration.githubRepoFullName)) {
+        return res.status(403).json({ error: 'Only the funder or a repository owner can cancel this schedule' });
+      }
+
+      const cancelled = await fundingScheduleService.cancel(id, repoId);
+      if (!cancelled) {
+        return res.status(409).json({ error: 'This schedule has already ended' });
+      }
+      res.json(cancelled);
+    } catch (error: any) {
+      log(`Error cancelling funding schedule ${req.params.id}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to cancel funding schedule' });
+    }
+  });
+
+  // Full run history of one schedule
+  app.get('/api/repositories/:repoId/funding-schedules/:id/runs', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { repoId } = req.params;
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid funding schedule ID' });
+      }
+      const schedule = await fundingScheduleService.get(id, repoId);
+      if (!schedule) {
+        return res.status(404).json({ error: 'Funding schedule not found' });
+      }
+      const runs = await fundingScheduleService.listRuns(id);
+      res.json({ runs });
+    } catch (error: any) {
+      log(`Error listing runs of funding schedule ${req.params.id}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to list funding runs' });
+    }
+  });
+
+  // Sponsor one issue from the caller's wallet. Open to any user with a wallet, not just pool managers.
+  app.post('/api/repositories/:repoId/issues/:issueNumber/sponsorships', requireAuth, csrfProtection, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    try {
+      const { repoId } = req.params;
+      const issueNumber = parseInt(req.params.issueNumber);
+      const validationResult = sponsorIssueSchema.safeParse(req.body);
+      if (isNaN(issueNumber) || !validationResult.success) {
+        return res.status(400).json({ error: 'Invalid sponsorship', details: validationResult.error?.format() });
+      }
+      if (!req.user.xdcWalletAddress) {
+        return res.status(403).json({ error: 'You need a wallet to sponsor issues' });
+      }
+
+      const registration = await storage.findRegisteredRepositoryByGithubId(repoId);
+      if (!registration || registration.isPrivate || !registration.installationId) {
+        return res.status(404).json({ error: 'Repository not found' });
+      }
+
+      const [owner, repo] = registration.githubRepoFullName.split('/');
+      const sponsorship = await sponsorIssue({
+        githubRepoId: registration.githubRepoId,
+        installationId: registration.installationId,
+        owner,
+        repo,
+        issueNumber,
+        sponsor: { id: req.user.id, githubUsername: req.user.githubUsername },
+        ...validationResult.data,
+      });
+      res.status(201).json(sponsorship);
+    } catch (error: any) {
+      if (error instanceof SponsorshipRejectedError) {
+        return res.status(409).json({ error: error.message });
+      }
+      log(`Error sponsoring issue ${req.params.issueNumber} in ${req.params.repoId}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to sponsor issue', details: error.message });
+    }
+  });
+
+  // The caller's own sponsorships across all issues
+  app.get('/api/sponsorships', requireAuth, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    try {
+      const sponsorships = await issueSponsorshipService.listBySponsor(req.user.id);
+      res.json({ sponsorships });
+    } catch (error: any) {
+      log(`Error listing sponsorships for user ${req.user.id}: ${error.message}`, 'routes-ERROR');
+      res.status(500).json({ error: 'Failed to list sponsorships' });
+    }
+  });
+
   // Allocate a bounty (XDC, ROXN, or USDC) to an issue (Unified System)
   // This replaces old /api/blockchain/repository/:repoId/issue/:issueId/reward 
   // and old /api/blockchain/new-roxn/allocate/:repoId/:issueId
-  app.post('/api/blockchain/allocate-bounty/:repoId/:issueId', requireAuth, csrfProtection, async (req: Request, res: Response) => {
+  app.post('/api/blockchain/allocate-bounty/:repoId/:issueId', requireAuth, csrfProtection,
+    requireStepUp('bounty_allocation', { when: req => isAtOrAbove(req.body?.bountyAmount, allocationStepUpThreshold(req.body?.currencyType)) }),
+    async (req: Request, res: Response) => {
     try {
       const { repoId, issueId } = req.params;
       const validationResult = allocateUnifiedBountySchema.safeParse(req.body);
@@ -3783,23 +5847,63 @@ export async function registerRoutes(app: Express) {
         return res.status(400).json({ error: "Invalid bounty allocation data", details: validationResult.error.format() });
       }
       // Ensure all necessary fields from allocateUnifiedBountySchema are used
-      const { bountyAmount, currencyType, githubRepoFullName, issueTitle, issueUrl } = validationResult.data;
+      const { bountyAmount, currencyType, githubRepoFullName, issueTitle, issueUrl, expiresInDays } = validationResult.data;
+      if (expiresInDays && expiresInDays > config.bountyExpiryMaxDays) {
+        return res.status(400).json({ error: `A bounty can expire at most ${config.bountyExpiryMaxDays} days from now` });
+      }
 
 
       if (!req.user) return res.status(401).json({ error: "User not authenticated" });
-      if (req.user.role !== 'poolmanager') {
-        return res.status(403).json({ error: 'Only pool managers can allocate bounties' });
+      const access = await repositoryManagerService.getAccess(repoId, req.user.githubUsername);
+      if (!repositoryManagerService.hasRole(access, 'allocator')) {
+        return res.status(403).json({ error: 'Only repository owners and allocators can allocate bounties' });
+      }
+      if (!repositoryManagerService.canAllocate(access, currencyType, bountyAmount)) {
+        return res.status(403).json({ error: 'Bounty exceeds your allocation cap', allocationCaps: access.allocationCaps });
       }
 
       log(`User ${req.user.id} attempting to allocate ${bountyAmount} ${currencyType} to issue ${issueId} in repo ${repoId} (Unified System)`, 'routes-unified');
 
-      const result = await blockchain.allocateIssueReward( // This method in blockchain.ts now takes currencyType
-        parseInt(repoId),
-        parseInt(issueId),
-        bountyAmount,
-        currencyType,
-        req.user.id
-      );
+      const approvalPolicy = await multisigService.needsApproval(repoId, [{ amount: bountyAmount, currency: currencyType }]);
+      if (approvalPolicy) {
+        const proposal = await proposeMultisigAction({
+          policy: approvalPolicy,
+          githubRepoId: repoId,
+          issueNumber: parseInt(issueId),
+          action: 'allocate',
+          amounts: [{ amount: bountyAmount, currency: currencyType }],
+          payload: { issueTitle, issueUrl, ...(expiresInDays && { expiresInDays }) },
+          source: 'dashboard',
+          proposer: { id: req.user.id, githubUsername: req.user.githubUsername },
+          signerId: access.signer.id,
+        });
+        return sendMultisigProposal(res, proposal);
+      }
+
+      // Delegated managers allocate through the repository's on-chain pool manager.
+      // When the gas relayer is low the allocation is queued and runs once it is funded.
+      let result;
+      try {
+        result = await blockchain.allocateIssueReward( // This method in blockchain.ts now takes currencyType
+          parseInt(repoId),
+          parseInt(issueId),
+          bountyAmount,
+          currencyType,
+          access.signer.id,
+          { allowQueue: true }
+        );
+      } catch (allocationError) {
+        if (allocationError instanceof RelayQueuedError) {
+          // The deadline counts from now even though the allocation is sent later
+          await applyBountyExpiry(repoId, parseInt(issueId), expiresInDays, req.user.githubUsername);
+          return res.status(202).json({
+            message: `${currencyType} bounty allocation is queued and will be submitted shortly.`,
+            queued: true,
+            relayRequestId: allocationError.requestId
+          });
+        }
+        throw allocationError;
+      }
 
       if (githubRepoFullName && issueTitle && issueUrl) {
         log(`Attempting to send bounty notification for ${githubRepoFullName}#${issueId}`, 'zoho');
@@ -3811,8 +5915,38 @@ export async function registerRoutes(app: Express) {
         log(`Skipping Zoho notification due to missing data in request body for issue ${issueId}`, 'zoho');
       }
 
+      try {
+        await storage.upsertMultiCurrencyBounty({
+          repoId,
+          issueId: parseInt(issueId),
+          currencyType,
+          amount: bountyAmount,
+          status: 'allocated',
+          transactionHash: result?.transactionHash,
+        });
+      } catch (recordError: any) {
+        log(`Failed to record allocated bounty for ${repoId}/#${issueId}: ${recordError.message}`, 'routes-unified-ERROR');
+      }
+      await applyBountyExpiry(repoId, parseInt(issueId), expiresInDays, req.user.githubUsername);
+
+      const registration = await storage.findRegisteredRepositoryByGithubId(repoId);
+      if (registration?.installationId) {
+        const [owner, repo] = registration.githubRepoFullName.split('/');
+        await syncBountyBadges({
+          installationId: registration.installationId,
+          owner,
+          repo,
+          issueNumber: parseInt(issueId),
+          state: 'allocated',
+          amounts: [{ amount: bountyAmount, currency: currencyType }],
+        });
+      }
+
       res.json({ message: `${currencyType} bounty allocation transaction submitted.`, transactionHash: result?.transactionHash, blockNumber: result?.blockNumber });
     } catch (error: any) {
+      if (error instanceof MultisigPolicyError) {
+        return res.status(409).json({ error: error.message });
+      }
       log(`Error allocating bounty for ${req.params.repoId}/#${req.params.issueId} (Unified System): ${error.message}`, 'routes-unified-ERROR');
       res.status(500).json({ error: 'Failed to allocate bounty', details: error.message });
     }
@@ -3830,24 +5964,144 @@ export async function registerRoutes(app: Express) {
         return res.status(400).json({ error: "Missing or invalid contributorAddress" });
       }
       if (!req.user) return res.status(401).json({ error: "User not authenticated" });
-      if (req.user.role !== 'poolmanager') {
-        return res.status(403).json({ error: 'Only pool managers can distribute bounties' });
+      const access = await repositoryManagerService.getAccess(repoId, req.user.githubUsername);
+      if (!repositoryManagerService.hasRole(access, 'owner')) {
+        return res.status(403).json({ error: 'Only repository owners can distribute bounties' });
       }
 
       log(`User ${req.user.id} attempting to distribute bounty for issue ${issueId} in repo ${repoId} to ${contributorAddress} (Unified System)`, 'routes-unified');
-      const receipt = await blockchain.distributeReward( // This method in blockchain.ts is now for unified contract
-        parseInt(repoId),
-        parseInt(issueId),
+      const [issueBounty] = await blockchain.getIssueRewards(parseInt(repoId), [parseInt(issueId)]);
+      const bountyAmount = issueBounty && issueBounty.status === 'Allocated' ? getBountyAmountAndCurrency(issueBounty) : null;
+      if (!bountyAmount) {
+        return res.status(400).json({ error: 'Issue has no allocated bounty to distribute' });
+      }
+
+      const amounts = [bountyAmount, ...getBountyAmounts(issueBounty).slice(1)];
+      const approvalPolicy = await multisigService.needsApproval(repoId, amounts);
+      if (approvalPolicy) {
+        const proposal = await proposeMultisigAction({
+          policy: approvalPolicy,
+          githubRepoId: repoId,
+          issueNumber: parseInt(issueId),
+          action: 'distribute',
+          amounts,
+          payload: { contributorAddress },
+          source: 'dashboard',
+          proposer: { id: req.user.id, githubUsername: req.user.githubUsername },
+          signerId: access.signer.id,
+        });
+        return sendMultisigProposal(res, proposal);
+      }
+
+      const payout = await distributeBountyToAddress({
+        githubRepoId: repoId,
+        issueNumber: parseInt(issueId),
         contributorAddress,
-        req.user.id
-      );
-      res.json({ message: 'Bounty distribution transaction submitted successfully.', transactionHash: receipt?.hash });
+        poolManagerId: access.signer.id,
+        source: 'dashboard',
+      });
+      if (!payout) {
+        return res.status(409).json({ error: 'This bounty is already being paid or has been paid' });
+      }
+      res.json({ message: 'Bounty distribution transaction submitted successfully.', transactionHash: payout.transactionHash });
     } catch (error: any) {
+      if (error instanceof MultisigPolicyError) {
+        return res.status(409).json({ error: error.message });
+      }
       log(`Error distributing bounty for ${req.params.repoId}/#${req.params.issueId} (Unified System): ${error.message}`, 'routes-unified-ERROR');
       res.status(500).json({ error: 'Failed to distribute bounty', details: error.message });
     }
   });
 
+  // Cancel an allocated bounty and return its funds to the repository pool (Unified System)
+  app.post('/api/blockchain/cancel-bounty/:repoId/:issueId', requireAuth, csrfProtection, async (req: Request, res: Response) => {
+    try {
+      const { repoId, issueId } = req.params;
+
+      if (!req.user) return res.status(401).json({ error: "User not authenticated" });
+      const access = await repositoryManagerService.getAccess(repoId, req.user.githubUsername);
+      if (!repositoryManagerService.hasRole(access, 'allocator')) {
+        return res.status(403).json({ error: 'Only repository owners and allocators can cancel bounties' });
+      }
+
+      const registration = await storage.findRegisteredRepositoryByGithubId(repoId);
+      if (!registration) {
+        return res.status(404).json({ error: 'Repository is not registered' });
+      }
+      const [owner, repo] = registration.githubRepoFullName.split('/');
+
+      log(`User ${req.user.id} attempting to cancel bounty for issue ${issueId} in repo ${repoId} (Unified System)`, 'routes-unified');
+      const result = await cancelIssueBounty({
+        githubRepoId: registration.githubRepoId,
+        installationId: registration.installationId,
+        owner,
+        repo,
+        issueNumber: parseInt(issueId),
+        poolManagerId: access.signer.id,
+        cancelledBy: req.user.githubUsername,
+      });
+      res.json({
+        message: `${result.amount} ${result.currency} returned to the repository pool.`,
+        transactionHash: result.transactionHash,
+        amount: result.amount,
+        currencyType: result.currency,
+      });
+    } catch (error: any) {
+      log(`Error cancelling bounty for ${req.params.repoId}/#${req.params.issueId} (Unified System): ${error.message}`, 'routes-unified-ERROR');
+      res.status(500).json({ error: 'Failed to cancel bounty', details: error.message });
+    }
+  });
+
+  // Get the contributor split recorded for an issue bounty (empty when the bounty goes to the PR author)
+  app.get('/api/blockchain/bounty-split/:repoId/:issueId', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { repoId, issueId } = req.params;
+      const shares = await storage.getBountySplit(repoId, parseInt(issueId));
+      res.json({ shares });
+    } catch (error: any) {
+      log(`Error fetching bounty split for ${req.params.repoId}/#${req.params.issueId}: ${error.message}`, 'routes-unified-ERROR');
+      res.status(500).json({ error: 'Failed to fetch bounty split', details: error.message });
+    }
+  });
+
+  // Record how an issue bounty is split between contributors; mirrors the `/bounty split` command
+  app.post('/api/blockchain/bounty-split/:repoId/:issueId', requireAuth, csrfProtection, async (req: Request, res: Response) => {
+    try {
+      const { repoId, issueId } = req.params;
+      const validationResult = setBountySplitSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: "Invalid bounty split", details: validationResult.error.format() });
+      }
+
+      if (!req.user) return res.status(401).json({ error: "User not authenticated" });
+      const access = await repositoryManagerService.getAccess(repoId, req.user.githubUsername);
+      if (!repositoryManagerService.hasRole(access, 'allocator')) {
+        return res.status(403).json({ error: 'Only repository owners and allocators can split bounties' });
+      }
+
+      const registration = await storage.findRegisteredRepositoryByGithubId(repoId);
+      if (!registration) {
+        return res.status(404).json({ error: 'Repository is not registered' });
+      }
+      const [owner, repo] = registration.githubRepoFullName.split('/');
+
+      log(`User ${req.user.id} setting bounty split for issue ${issueId} in repo ${repoId}`, 'routes-unified');
+      const recipients = await recordBountySplit({
+        githubRepoId: registration.githubRepoId,
+        installationId: registration.installationId,
+        owner,
+        repo,
+        issueNumber: parseInt(issueId),
+        shares: validationResult.data.shares,
+        setBy: req.user.githubUsername,
+      });
+      res.json({ message: 'Bounty split recorded.', shares: recipients });
+    } catch (error: any) {
+      log(`Error setting bounty split for ${req.params.repoId}/#${req.params.issueId}: ${error.message}`, 'routes-unified-ERROR');
+      res.status(500).json({ error: 'Failed to set bounty split', details: error.message });
+    }
+  });
+
   // Get unified pool info for a repository (replaces GET /api/blockchain/new-roxn/pool/:repoId)
   // and also effectively replaces GET /api/blockchain/repository/:repoId for pool info
   // Made PUBLIC: Removed requireAuth
@@ -3856,6 +6110,11 @@ export async function registerRoutes(app: Express) {
       const { repoId } = req.params;
       log(`Fetching unified pool info for repo ${repoId} (public access)`, 'routes-unified');
       const poolInfo = await blockchain.getRepository(parseInt(repoId)); // getRepository now returns unified info
+      const expiries = await bountyExpiryService.listActive(repoId);
+      if (poolInfo?.issues && expiries.length > 0) {
+        const deadlines = new Map(expiries.map(expiry => [String(expiry.githubIssueNumber), expiry.expiresAt.toISOString()]));
+        poolInfo.issues = poolInfo.issues.map((issue: IssueBountyDetails) => ({ ...issue, expiresAt: deadlines.get(issue.issueId) ?? null }));
+      }
       res.json(poolInfo);
     } catch (error: any) {
       log(`Error fetching unified pool info for repo ${req.params.repoId}: ${error.message}`, 'routes-unified-ERROR');
@@ -3985,6 +6244,27 @@ export async function registerRoutes(app: Express) {
     }
   });
 
+  // Contributor earnings history from the payout ledger
+  app.get('/api/user/earnings', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: 'User not authenticated' });
+      }
+      const addresses = await payoutAddressService.getKnownAddresses(user);
+      if (addresses.length === 0) {
+        return res.json({ earnings: [] });
+      }
+
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200);
+      const earnings = await payoutLedgerService.getEarnings(addresses, limit);
+      res.json({ earnings });
+    } catch (error: any) {
+      log(`Error fetching user earnings: ${error.message}`, 'payout-ledger-ERROR');
+      res.status(500).json({ error: 'Failed to fetch earnings' });
+    }
+  });
+
   // --- Proof of Compute V1 Routes ---
   app.post('/api/node/dispatch-task', requireAuth, async (req, res) => {
     try {
@@ -2,6 +2,7 @@ import { Router, Request, Response } from 'express';
 import { referralService } from '../services/referralService';
 import { createReferralCodeSchema, applyReferralCodeSchema } from '../../shared/schema';
 import { log } from '../utils';
+import { requireStepUp } from '../auth';
 import rateLimit from 'express-rate-limit';
 
 const router = Router();
@@ -479,7 +480,7 @@ router.get('/rewards', requireAuth, async (req: Request, res: Response) => {
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/rewards/claim', requireAuth, async (req: Request, res: Response) => {
+router.post('/rewards/claim', requireAuth, requireStepUp('payout_request'), async (req: Request, res: Response) => {
   try {
     const userId = req.user!.id;
     const result = await referralService.createPayoutRequest(userId);
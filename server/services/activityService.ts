@@ -9,6 +9,8 @@ import {
 } from '../../shared/schema';
 import { eq, desc, and, or } from 'drizzle-orm';
 import { log } from '../utils';
+import { payoutLedgerService } from './payoutLedgerService';
+import { payoutAddressService } from './payoutAddressService';
 
 // Activity item interface matching the frontend schema
 export interface ActivityItem {
@@ -63,7 +65,7 @@ export class ActivityService {
   }
 
   /**
-   * Get reward-related activities (bounties distributed to user)
+   * Get reward-related activities (confirmed payouts to the user from the payout ledger)
    */
   private async getRewardActivities(userId: number, limit: number): Promise<ActivityItem[]> {
     try {
@@ -72,50 +74,31 @@ export class ActivityService {
         columns: { xdcWalletAddress: true }
       });
 
-      if (!user?.xdcWalletAddress) {
+      if (!user) {
         return [];
       }
 
-      const bounties = await db
-        .select({
-          id: multiCurrencyBounties.id,
-          repoId: multiCurrencyBounties.repoId,
-          issueId: multiCurrencyBounties.issueId,
-          currencyType: multiCurrencyBounties.currencyType,
-          amount: multiCurrencyBounties.amount,
-          status: multiCurrencyBounties.status,
-          transactionHash: multiCurrencyBounties.transactionHash,
-          updatedAt: multiCurrencyBounties.updatedAt,
-          repoFullName: registeredRepositories.githubRepoFullName
-        })
-        .from(multiCurrencyBounties)
-        .leftJoin(
-          registeredRepositories,
-          eq(multiCurrencyBounties.repoId, registeredRepositories.githubRepoId)
-        )
-        .where(
-          and(
-            eq(multiCurrencyBounties.contributorAddress, user.xdcWalletAddress),
-            eq(multiCurrencyBounties.status, 'distributed')
-          )
-        )
-        .orderBy(desc(multiCurrencyBounties.updatedAt))
-        .limit(limit);
+      const addresses = await payoutAddressService.getKnownAddresses({ id: userId, xdcWalletAddress: user.xdcWalletAddress });
+      if (addresses.length === 0) {
+        return [];
+      }
+
+      const earnings = await payoutLedgerService.getEarnings(addresses, limit);
 
-      return bounties.map(bounty => ({
-        id: `reward-${bounty.id}`,
+      return earnings.map(earning => ({
+        id: `reward-${earning.id}`,
         type: 'reward' as const,
         title: 'Bounty Received',
-        description: bounty.repoFullName 
-          ? `Completed bounty on ${bounty.repoFullName}${bounty.issueId ? ` #${bounty.issueId}` : ''}`
+        description: earning.repoFullName
+          ? `Completed bounty on ${earning.repoFullName} #${earning.issueNumber}`
           : `Bounty reward distributed`,
-        timestamp: bounty.updatedAt?.toISOString() || new Date().toISOString(),
+        timestamp: earning.paidAt?.toISOString() || new Date().toISOString(),
         metadata: {
-          amount: bounty.amount,
-          currency: bounty.currencyType as 'XDC' | 'ROXN' | 'USDC',
-          repoName: bounty.repoFullName || undefined,
-          txHash: bounty.transactionHash || undefined,
-          issueId: bounty.issueId || undefined
+          amount: earning.amount,
+          currency: earning.currency,
+          repoName: earning.repoFullName || undefined,
+          txHash: earning.transactionHash || undefined,
+          issueId: earning.issueNumber
         }
       }));
     } catch (error: any) {
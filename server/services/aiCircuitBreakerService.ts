@@ -0,0 +1,121 @@
+import type { AiModel } from '../../shared/schema';
+import { config } from '../config';
+import { log } from '../utils';
+
+export type AiCircuitState = 'closed' | 'open' | 'half_open';
+
+interface Circuit {
+  state: AiCircuitState;
+  outcomes: { at: number; failed: boolean }[];
+  openedAt: number | null;
+  trialStartedAt: number | null; // Set while the half-open trial request is in flight
+}
+
+export interface AiCircuitStatus {
+  deployment: string;
+  state: AiCircuitState;
+  recentRequests: number;
+  recentFailures: number;
+  openedAt: string | null;
+}
+
+/**
+ * Tracks the health of each AI deployment from the outcomes of recent requests. A circuit opens when the
+ * error rate over the window crosses the threshold, and after the cooldown lets one trial request through
+ * (half-open) to decide whether to close again. A trial that never reports back is given up after another
+ * cooldown, so a request that threw cannot hold the circuit half-open for good. State is per server instance.
+ */
+export class AiCircuitBreakerService {
+  private circuits = new Map<string, Circuit>();
+
+  // Models that share an endpoint and deployment, e.g. two aliases, share a circuit
+  private key(model: AiModel): string {
+    return model.providerType === 'exo_network' ? 'exo-network' : `${model.endpoint}|${model.upstreamModel}`;
+  }
+
+  private circuit(model: AiModel): Circuit {
+    const key = this.key(model);
+    let circuit = this.circuits.get(key);
+    if (!circuit) {
+      circuit = { state: 'closed', outcomes: [], openedAt: null, trialStartedAt: null };
+      this.circuits.set(key, circuit);
+    }
+    return circuit;
+  }
+
+  private prune(circuit: Circuit) {
+    const windowStart = Date.now() - config.aiCircuitWindowSeconds * 1000;
+    circuit.outcomes = circuit.outcomes.filter(outcome => outcome.at >= windowStart);
+  }
+
+  /**
+   * Whether a request may be sent to the model's deployment now
+   */
+  allowRequest(model: AiModel): boolean {
+    const circuit = this.circuit(model);
+    if (circuit.state === 'closed') return true;
+
+    const cooldownMs = config.aiCircuitCooldownSeconds * 1000;
+    if (circuit.state === 'open' && circuit.openedAt !== null && Date.now() - circuit.openedAt >= cooldownMs) {
+      circuit.state = 'half_open';
+      circuit.trialStartedAt = null;
+    }
+    if (circuit.state === 'half_open' && (circuit.trialStartedAt === null || Date.now() - circuit.trialStartedAt >= cooldownMs)) {
+      circuit.trialStartedAt = Date.now();
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(model: AiModel) {
+    const circuit = this.circuit(model);
+    if (circuit.state !== 'closed') {
+      log(`Circuit for ${this.key(model)} closed after a successful trial request`, 'ai-circuit');
+      circuit.state = 'closed';
+      circuit.outcomes = [];
+      circuit.openedAt = null;
+      circuit.trialStartedAt = null;
+    }
+    circuit.outcomes.push({ at: Date.now(), failed: false });
+    this.prune(circuit);
+  }
+
+  recordFailure(model: AiModel, reason: string) {
+    const circuit = this.circuit(model);
+    if (circuit.state === 'half_open') {
+      circuit.state = 'open';
+      circuit.openedAt = Date.now();
+      circuit.trialStartedAt = null;
+      log(`Circuit for ${this.key(model)} reopened, trial request failed: ${reason}`, 'ai-circuit-WARN');
+      return;
+    }
+
+    circuit.outcomes.push({ at: Date.now(), failed: true });
+    this.prune(circuit);
+    const failures = circuit.outcomes.filter(outcome => outcome.failed).length;
+    if (
+      circuit.state === 'closed' &&
+      circuit.outcomes.length >= config.aiCircuitMinRequests &&
+      failures * 100 >= circuit.outcomes.length * config.aiCircuitErrorRatePercent
+    ) {
+      circuit.state = 'open';
+      circuit.openedAt = Date.now();
+      log(`Circuit for ${this.key(model)} opened: ${failures} of ${circuit.outcomes.length} recent requests failed, last: ${reason}`, 'ai-circuit-WARN');
+    }
+  }
+
+  getStatuses(): AiCircuitStatus[] {
+    return Array.from(this.circuits.entries()).map(([deployment, circuit]) => {
+      this.prune(circuit);
+      return {
+        deployment,
+        state: circuit.state,
+        recentRequests: circuit.outcomes.length,
+        recentFailures: circuit.outcomes.filter(outcome => outcome.failed).length,
+        openedAt: circuit.openedAt ? new Date(circuit.openedAt).toISOString() : null,
+      };
+    });
+  }
+}
+
+export const aiCircuitBreakerService = new AiCircuitBreakerService();
@@ -0,0 +1,340 @@
+import { db } from '../db';
+import {
+  aiUsageAuthorizations,
+  users,
+  promptOrganizations,
+  promptOrganizationMembers,
+  type AiModel,
+  type AiUsageAuthorization,
+  type AiUsageBreakdown
+} from '../../shared/schema';
+import { eq, and, lt, desc } from 'drizzle-orm';
+import { config } from '../config';
+import { storage, type PromptUsageDetails } from '../storage';
+import { promptOrganizationService, type PromptOrganizationMembership } from './promptOrganizationService';
+import { log } from '../utils';
+
+// The balance cannot cover the estimated cost of a request. `organizationName` is set when it is a shared pool.
+export class InsufficientPromptsError extends Error {
+  constructor(public readonly required: number, public readonly balance: number, public readonly organizationName?: string) {
+    super(`This request needs up to ${required} prompts, but the ${organizationName ? `${organizationName} pool` : 'balance'} is ${balance}`);
+    this.name = 'InsufficientPromptsError';
+  }
+}
+
+// The request would take an organisation member past their monthly cap
+export class PromptCapExceededError extends Error {
+  constructor(public readonly cap: number, public readonly used: number, public readonly required: number) {
+    super(`This request needs up to ${required} prompts, but only ${Math.max(cap - used, 0)} of the monthly cap of ${cap} remain`);
+    this.name = 'PromptCapExceededError';
+  }
+}
+
+type BalanceChangeType = 'usage_vscode_ai' | 'usage_vscode_ai_hold' | 'usage_vscode_ai_release';
+
+type ChatMessage = { role: string; content: string | any[] };
+
+// Same rough rule as the stream handler: one token is about four characters of English text
+function estimateInputTokens(messages: ChatMessage[] | undefined): number {
+  if (!Array.isArray(messages)) return 0;
+  let characters = 0;
+  for (const message of messages) {
+    if (typeof message.content === 'string') {
+      characters += message.content.length;
+    } else if (Array.isArray(message.content)) {
+      for (const part of message.content) {
+        if (part?.type === 'text' && typeof part.text === 'string') {
+          characters += part.text.length;
+        }
+      }
+    }
+  }
+  return Math.ceil(characters / 4);
+}
+
+/**
+ * Meters VS Code AI requests in prompts. Authorizing a request deducts its estimated cost as a hold;
+ * settling it refunds or charges the difference to the cost of the tokens actually used, and releasing
+ * it refunds the hold in full. Each step is one ledger row carrying the token breakdown, in
+ * prompt_transactions or, for members of an organisation, the pool's ledger. An authorization only
+ * leaves `authorized` once, so it is never settled twice.
+ */
+export class AiMeteringService {
+
+  // Apply a change to whichever balance the authorization holds prompts on
+  private async adjustHeldBalance(tx: any, authorization: AiUsageAuthorization, change: number, type: BalanceChangeType, notes: string, usage: PromptUsageDetails) {
+    if (authorization.organizationId) {
+      return await promptOrganizationService.adjustPromptBalance(tx, authorization.organizationId, change, type, notes, authorization.userId, usage);
+    }
+    return await storage.adjustUserPromptBalance(tx, authorization.userId, change, type, notes, undefined, usage);
+  }
+
+  private async availableBalance(tx: any, authorization: AiUsageAuthorization): Promise<number> {
+    if (authorization.organizationId) {
+      const organization = await tx.query.promptOrganizations.findFirst({
+        where: eq(promptOrganizations.id, authorization.organizationId),
+        columns: { promptBalance: true }
+      });
+      return organization?.promptBalance ?? 0;
+    }
+    const user = await tx.query.users.findFirst({ where: eq(users.id, authorization.userId), columns: { promptBalance: true } });
+    return user?.promptBalance ?? 0;
+  }
+
+  /**
+   * Cost in prompts of a request to a model. Models without token rates cost a flat `promptCost`;
+   * with rates, `promptCost` is the minimum charge.
+   */
+  priceUsage(model: AiModel, inputTokens: number, outputTokens: number): number {
+    const inputRate = model.inputRate ? parseFloat(model.inputRate) : 0;
+    const outputRate = model.outputRate ? parseFloat(model.outputRate) : 0;
+    if (!inputRate && !outputRate) {
+      return model.promptCost;
+    }
+    const metered = Math.ceil((inputTokens * inputRate + outputTokens * outputRate) / 1000);
+    return Math.max(model.promptCost, metered);
+  }
+
+  /**
+   * Hold the estimated cost of a request before it is sent upstream. Output is estimated from the
+   * request's token limit. Members of an organisation draw from its pool instead of their own balance.
+   * Throws InsufficientPromptsError when the balance cannot cover it, and PromptCapExceededError when
+   * it would take a member past their monthly cap.
+   */
+  async authorize(userId: number, model: AiModel, requestBody: { messages?: ChatMessage[]; max_tokens?: number; max_completion_tokens?: number }): Promise<AiUsageAuthorization> {
+    const estimatedInputTokens = estimateInputTokens(requestBody.messages);
+    const estimatedOutputTokens = requestBody.max_tokens || requestBody.max_completion_tokens || config.aiMeteringDefaultOutputTokens;
+    const authorizedPrompts = this.priceUsage(model, estimatedInputTokens, estimatedOutputTokens);
+
+    const membership = await promptOrganizationService.getActiveMembership(userId);
+    if (membership) {
+      return await this.authorizeFromPool(membership, model, estimatedInputTokens, estimatedOutputTokens, authorizedPrompts);
+    }
+
+    const balance = await storage.getUserPromptBalance(userId);
+    if (balance < Math.max(authorizedPrompts, 1)) {
+      throw new InsufficientPromptsError(authorizedPrompts, balance);
+    }
+
+    return await db.transaction(async (tx) => {
+      const [authorization] = await tx.insert(aiUsageAuthorizations).values({
+        userId,
+        model: model.modelId,
+        estimatedInputTokens,
+        estimatedOutputTokens,
+        authorizedPrompts,
+      }).returning();
+
+      const hold = await storage.adjustUserPromptBalance(
+        tx, userId, -authorizedPrompts, 'usage_vscode_ai_hold',
+        `Hold for VSCode AI request (${model.modelId})`, undefined,
+        { authorizationId: authorization.id, model: model.modelId, inputTokens: estimatedInputTokens, outputTokens: estimatedOutputTokens }
+      );
+      if (!hold.success) {
+        // Another request spent the balance since it was read
+        throw new InsufficientPromptsError(authorizedPrompts, balance);
+      }
+
+      log(`Authorized ${authorizedPrompts} prompts for user ${userId} on ${model.modelId} (~${estimatedInputTokens} in, ${estimatedOutputTokens} out)`, 'ai-metering');
+      return authorization;
+    });
+  }
+
+  private async authorizeFromPool(
+    { organization, member }: PromptOrganizationMembership,
+    model: AiModel,
+    estimatedInputTokens: number,
+    estimatedOutputTokens: number,
+    authorizedPrompts: number
+  ): Promise<AiUsageAuthorization> {
+    const userId = member.userId!;
+    if (organization.promptBalance < Math.max(authorizedPrompts, 1)) {
+      throw new InsufficientPromptsError(authorizedPrompts, organization.promptBalance, organization.name);
+    }
+
+    return await db.transaction(async (tx) => {
+      // Locking the member row serializes a member's requests, so concurrent ones cannot all fit under the cap
+      const [locked] = await tx.select()
+        .from(promptOrganizationMembers)
+        .where(eq(promptOrganizationMembers.id, member.id))
+        .for('update');
+      if (!locked || locked.status !== 'active') {
+        throw new InsufficientPromptsError(authorizedPrompts, 0, organization.name);
+      }
+      if (locked.monthlyPromptCap !== null) {
+        const used = await promptOrganizationService.getMonthlyUsage(organization.id, userId, tx);
+        if (used + authorizedPrompts > locked.monthlyPromptCap) {
+          throw new PromptCapExceededError(locked.monthlyPromptCap, used, authorizedPrompts);
+        }
+      }
+
+      const [authorization] = await tx.insert(aiUsageAuthorizations).values({
+        userId,
+        organizationId: organization.id,
+        model: model.modelId,
+        estimatedInputTokens,
+        estimatedOutputTokens,
+        authorizedPrompts,
+      }).returning();
+
+      const hold = await promptOrganizationService.adjustPromptBalance(
+        tx, organization.id, -authorizedPrompts, 'usage_vscode_ai_hold',
+        `Hold for VSCode AI request (${model.modelId})`, userId,
+        { authorizationId: authorization.id, model: model.modelId, inputTokens: estimatedInputTokens, outputTokens: estimatedOutputTokens }
+      );
+      if (!hold.success) {
+        throw new InsufficientPromptsError(authorizedPrompts, organization.promptBalance, organization.name);
+      }
+
+      log(`Authorized ${authorizedPrompts} prompts from organisation ${organization.id} for user ${userId} on ${model.modelId} (~${estimatedInputTokens} in, ${estimatedOutputTokens} out)`, 'ai-metering');
+      return authorization;
+    });
+  }
+
+  /**
+   * Charge the actual usage of an authorized request at the rates of the model that answered it, which
+   * is a fallback when the requested model was unavailable. When it cost more than was held and the
+   * balance cannot cover the difference, the charge is capped at what the balance allows. Monthly caps
+   * are only checked on authorization, so a settlement can take a member slightly past theirs.
+   */
+  async settle(authorization: AiUsageAuthorization, model: AiModel, inputTokens: number, outputTokens: number, notes: string): Promise<{ chargedPrompts: number; newBalance?: number } | null> {
+    return await db.transaction(async (tx) => {
+      const [claimed] = await tx.update(aiUsageAuthorizations)
+        .set({ status: 'settled', model: model.modelId, inputTokens, outputTokens, settledAt: new Date() })
+        .where(and(
+          eq(aiUsageAuthorizations.id, authorization.id),
+          eq(aiUsageAuthorizations.status, 'authorized')
+        ))
+        .returning();
+      if (!claimed) {
+        log(`Authorization ${authorization.id} was already settled or released`, 'ai-metering-WARN');
+        return null;
+      }
+
+      let chargedPrompts = this.priceUsage(model, inputTokens, outputTokens);
+      let change = claimed.authorizedPrompts - chargedPrompts;
+      if (change < 0) {
+        const available = await this.availableBalance(tx, claimed);
+        if (-change > available) {
+          log(`User ${claimed.userId} used ${chargedPrompts} prompts on ${model.modelId} but only ${claimed.authorizedPrompts + available} could be charged`, 'ai-metering-WARN');
+          change = -available;
+          chargedPrompts = claimed.authorizedPrompts + available;
+        }
+      }
+
+      await tx.update(aiUsageAuthorizations)
+        .set({ chargedPrompts })
+        .where(eq(aiUsageAuthorizations.id, claimed.id));
+
+      const result = await this.adjustHeldBalance(
+        tx, claimed, change, 'usage_vscode_ai', notes,
+        { authorizationId: claimed.id, model: model.modelId, inputTokens, outputTokens, promptsCharged: chargedPrompts }
+      );
+      if (!result.success) {
+        throw new Error(result.error || 'Prompt settlement failed');
+      }
+
+      log(`Settled authorization ${claimed.id} for user ${claimed.userId}: ${inputTokens} in, ${outputTokens} out, ${chargedPrompts} prompts (held ${claimed.authorizedPrompts})`, 'ai-metering');
+      return { chargedPrompts, newBalance: result.newBalance };
+    });
+  }
+
+  /**
+   * Settle a request at its held amount when its actual usage could not be charged, so the stale-hold
+   * sweep does not refund a request that was answered. The hold was already taken from the balance,
+   * so no ledger row is needed. Returns false if it was already settled or released.
+   */
+  async settleAtHold(authorization: AiUsageAuthorization, model: AiModel, inputTokens: number, outputTokens: number): Promise<boolean> {
+    const [claimed] = await db.update(aiUsageAuthorizations)
+      .set({ status: 'settled', model: model.modelId, inputTokens, outputTokens, chargedPrompts: authorization.authorizedPrompts, settledAt: new Date() })
+      .where(and(
+        eq(aiUsageAuthorizations.id, authorization.id),
+        eq(aiUsageAuthorizations.status, 'authorized')
+      ))
+      .returning();
+    return !!claimed;
+  }
+
+  /**
+   * Mark an authorized request as still in flight, e.g. while its response streams
+   */
+  async heartbeat(authorizationId: number): Promise<void> {
+    await db.update(aiUsageAuthorizations)
+      .set({ updatedAt: new Date() })
+      .where(and(
+        eq(aiUsageAuthorizations.id, authorizationId),
+        eq(aiUsageAuthorizations.status, 'authorized')
+      ));
+  }
+
+  /**
+   * Refund the hold of a request that produced nothing billable, e.g. an upstream error
+   */
+  async release(authorizationId: number, reason: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [claimed] = await tx.update(aiUsageAuthorizations)
+        .set({ status: 'released', releaseReason: reason, settledAt: new Date() })
+        .where(and(
+          eq(aiUsageAuthorizations.id, authorizationId),
+          eq(aiUsageAuthorizations.status, 'authorized')
+        ))
+        .returning();
+      if (!claimed) return;
+
+      const result = await this.adjustHeldBalance(
+        tx, claimed, claimed.authorizedPrompts, 'usage_vscode_ai_release',
+        `Released hold for VSCode AI request (${claimed.model}): ${reason}`,
+        { authorizationId: claimed.id, model: claimed.model }
+      );
+      if (!result.success) {
+        throw new Error(result.error || 'Prompt release failed');
+      }
+      log(`Released ${claimed.authorizedPrompts} held prompts for user ${claimed.userId}: ${reason}`, 'ai-metering');
+    });
+  }
+
+  /**
+   * Release holds that were never settled, e.g. because the server restarted mid-request. A request
+   * still in flight keeps touching its hold, so only holds without a recent heartbeat are released.
+   */
+  async releaseStale(): Promise<number> {
+    const cutoff = new Date(Date.now() - config.aiMeteringHoldTimeoutMinutes * 60 * 1000);
+    const stale = await db.query.aiUsageAuthorizations.findMany({
+      where: and(
+        eq(aiUsageAuthorizations.status, 'authorized'),
+        lt(aiUsageAuthorizations.updatedAt, cutoff)
+      )
+    });
+    for (const authorization of stale) {
+      try {
+        await this.release(authorization.id, 'Request never settled');
+      } catch (error: any) {
+        log(`Failed to release stale authorization ${authorization.id}: ${error.message || error}`, 'ai-metering-ERROR');
+      }
+    }
+    return stale.length;
+  }
+
+  /**
+   * A user's most recent settled requests, newest first
+   */
+  async listRecentUsage(userId: number, limit = 20): Promise<AiUsageBreakdown[]> {
+    const settled = await db.query.aiUsageAuthorizations.findMany({
+      where: and(
+        eq(aiUsageAuthorizations.userId, userId),
+        eq(aiUsageAuthorizations.status, 'settled')
+      ),
+      orderBy: [desc(aiUsageAuthorizations.createdAt)],
+      limit,
+    });
+    return settled.map(authorization => ({
+      model: authorization.model,
+      inputTokens: authorization.inputTokens ?? 0,
+      outputTokens: authorization.outputTokens ?? 0,
+      promptsCharged: authorization.chargedPrompts ?? 0,
+      createdAt: authorization.createdAt.toISOString(),
+    }));
+  }
+}
+
+export const aiMeteringService = new AiMeteringService();
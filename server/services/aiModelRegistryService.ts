@@ -0,0 +1,305 @@
+import { db } from '../db';
+import { aiModels, aiModelConfigProblem, type AiModel, type AiModelSummary, type CreateAiModelInput, type UpdateAiModelInput } from '../../shared/schema';
+import { eq, asc } from 'drizzle-orm';
+import { config } from '../config';
+import { getParameter } from '../aws';
+import { log } from '../utils';
+
+const REGISTRY_CACHE_MS = 30 * 1000;
+const SECRET_CACHE_MS = 5 * 60 * 1000;
+
+// An admin edit the registry refuses, e.g. a duplicate model id
+export class AiModelRegistryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AiModelRegistryError';
+  }
+}
+
+type BuiltInModel = Omit<CreateAiModelInput, 'endpoint' | 'upstreamModel' | 'apiVersion' | 'fallbackModels'> & {
+  endpoint: string | undefined;
+  upstreamModel: string | undefined;
+  apiVersion: string | undefined;
+};
+
+// The models the proxy served before the registry existed, seeded once into an empty registry
+function builtInModels(): BuiltInModel[] {
+  return [
+    {
+      modelId: 'azure-default', displayName: 'Roxonn Default', providerType: 'azure_openai', pathStyle: 'azure_deployment',
+      endpoint: config.azureOpenaiEndpoint, upstreamModel: config.azureOpenaiDeploymentName, apiVersion: config.azureOpenaiApiVersion,
+      secretRef: 'config:azureOpenaiKey', promptCost: 1, enabled: true, isDefault: true, sortOrder: 0,
+    },
+    {
+      modelId: 'gpt-4.1', displayName: 'GPT-4.1', providerType: 'azure_openai', pathStyle: 'azure_deployment',
+      endpoint: config.azureOpenaiEndpointGpt41, upstreamModel: config.azureOpenaiDeploymentNameGpt41, apiVersion: config.azureOpenaiApiVersionGpt41,
+      secretRef: 'config:azureOpenaiKeyGpt41', promptCost: 1, enabled: true, isDefault: false, sortOrder: 10,
+    },
+    {
+      modelId: 'gpt-4o-mini', displayName: 'GPT-4o mini', providerType: 'azure_openai', pathStyle: 'azure_deployment',
+      endpoint: config.azureOpenaiEndpointO4Mini, upstreamModel: config.azureOpenaiDeploymentNameO4Mini, apiVersion: config.azureOpenaiApiVersionO4Mini,
+      secretRef: 'config:azureOpenaiKeyO4Mini', promptCost: 1, enabled: true, isDefault: false, sortOrder: 20,
+    },
+    {
+      modelId: 'o3-mini', displayName: 'o3-mini', providerType: 'azure_openai', pathStyle: 'azure_deployment',
+      endpoint: config.azureOpenaiEndpointO3Mini, upstreamModel: config.azureOpenaiDeploymentNameO3Mini, apiVersion: config.azureOpenaiApiVersionO3Mini,
+      secretRef: 'config:azureOpenaiKeyO3Mini', promptCost: 1, enabled: true, isDefault: false, sortOrder: 30,
+    },
+    {
+      modelId: 'deepseek-r1', displayName: 'DeepSeek-R1', providerType: 'azure_ai_inference', pathStyle: 'azure_models',
+      endpoint: config.azureOpenaiEndpointDeepSeek, upstreamModel: config.azureOpenaiDeploymentNameDeepSeek, apiVersion: config.azureOpenaiApiVersionDeepSeek,
+      secretRef: 'config:azureOpenaiKeyDeepSeek', promptCost: 1, enabled: true, isDefault: false, sortOrder: 40,
+    },
+    {
+      modelId: 'ministral-3b', displayName: 'Ministral 3B', providerType: 'azure_ai_inference', pathStyle: 'azure_models',
+      endpoint: config.azureOpenaiEndpointMinistral3B, upstreamModel: config.azureOpenaiDeploymentNameMinistral3B, apiVersion: config.azureOpenaiApiVersionMinistral3B,
+      secretRef: 'config:azureOpenaiKeyMinistral3B', promptCost: 1, enabled: true, isDefault: false, sortOrder: 50,
+    },
+    {
+      modelId: 'grok-3', displayName: 'Grok 3', providerType: 'azure_ai_inference', pathStyle: 'azure_models',
+      endpoint: config.azureOpenaiEndpointGrok, upstreamModel: config.azureOpenaiDeploymentNameGrok3, apiVersion: config.azureOpenaiApiVersionGrok,
+      secretRef: 'config:azureOpenaiKeyGrok', promptCost: 1, enabled: true, isDefault: false, sortOrder: 60,
+    },
+    {
+      modelId: 'grok-3-mini', displayName: 'Grok 3 mini', providerType: 'azure_ai_inference', pathStyle: 'azure_models',
+      endpoint: config.azureOpenaiEndpointGrok, upstreamModel: config.azureOpenaiDeploymentNameGrok3Mini, apiVersion: config.azureOpenaiApiVersionGrok,
+      secretRef: 'config:azureOpenaiKeyGrok', promptCost: 1, enabled: true, isDefault: false, sortOrder: 70,
+    },
+  ];
+}
+
+/**
+ * Registry of the models behind the VS Code AI proxy. Entries are read through a short-lived cache so the
+ * proxy does not query Postgres on every request; admin edits drop the cache immediately on this instance.
+ */
+export class AiModelRegistryService {
+  private cache: { models: AiModel[]; loadedAt: number } | null = null;
+  private secretCache = new Map<string, { value: string | undefined; fetchedAt: number }>();
+
+  private async load(): Promise<AiModel[]> {
+    if (this.cache && Date.now() - this.cache.loadedAt < REGISTRY_CACHE_MS) {
+      return this.cache.models;
+    }
+    const models = await db.query.aiModels.findMany({
+      orderBy: [asc(aiModels.sortOrder), asc(aiModels.modelId)]
+    });
+    this.cache = { models, loadedAt: Date.now() };
+    return models;
+  }
+
+  private invalidate() {
+    this.cache = null;
+  }
+
+  /**
+   * Seed the registry from the Azure settings in config when it is empty. Runs after config is initialized,
+   * as some endpoints come from Parameter Store. Models without a complete configuration are skipped.
+   */
+  async seedFromConfig(): Promise<void> {
+    const existing = await db.query.aiModels.findFirst();
+    if (existing) return;
+
+    const seeds = builtInModels().filter(model => model.endpoint && model.upstreamModel && model.apiVersion);
+    if (seeds.length === 0) {
+      log('No configured Azure models to seed the AI model registry with', 'ai-models-WARN');
+      return;
+    }
+    await db.insert(aiModels)
+      .values(seeds.map(model => ({
+        ...model,
+        endpoint: model.endpoint!.replace(/\/+$/, ''),
+        upstreamModel: model.upstreamModel!,
+        apiVersion: model.apiVersion!,
+      })))
+      .onConflictDoNothing();
+    this.invalidate();
+    log(`Seeded AI model registry with ${seeds.map(model => model.modelId).join(', ')}`, 'ai-models');
+  }
+
+  async list(): Promise<AiModel[]> {
+    return await this.load();
+  }
+
+  /**
+   * Enabled models as the VS Code client sees them, without endpoints or secret references
+   */
+  async listForClients(): Promise<AiModelSummary[]> {
+    const models = await this.load();
+    return models
+      .filter(model => model.enabled)
+      .map(model => ({
+        id: model.modelId,
+        name: model.displayName,
+        description: model.description,
+        provider: model.providerType,
+        promptCost: model.promptCost,
+        inputRate: model.inputRate,
+        outputRate: model.outputRate,
+        isDefault: model.isDefault,
+        fallbacks: model.fallbackModels,
+      }));
+  }
+
+  /**
+   * Pick the model for a request. 'default', unknown and disabled ids go to the default model, as the proxy
+   * did before the registry existed; returns null when there is no enabled default either.
+   */
+  async resolve(requestedModelId: string): Promise<AiModel | null> {
+    const models = await this.load();
+    const requested = models.find(model => model.modelId === requestedModelId);
+    if (requested?.enabled) {
+      return requested;
+    }
+    if (requestedModelId !== 'default') {
+      log(`Requested modelId '${requestedModelId}' is ${requested ? 'disabled' : 'not registered'}, using the default model`, 'ai-models-WARN');
+    }
+    return models.find(model => model.isDefault && model.enabled) || null;
+  }
+
+  /**
+   * The models to try for a request, in order: the model itself, then its enabled fallbacks.
+   * Fallbacks are not followed transitively, so the chain is exactly what the admin configured.
+   */
+  async resolveChain(model: AiModel): Promise<AiModel[]> {
+    const models = await this.load();
+    const chain = [model];
+    for (const fallbackId of model.fallbackModels) {
+      const fallback = models.find(candidate => candidate.modelId === fallbackId);
+      if (fallback?.enabled && !chain.includes(fallback)) {
+        chain.push(fallback);
+      }
+    }
+    return chain;
+  }
+
+  /**
+   * Look up the API key a secret reference points to. Parameter Store values are cached for a few minutes.
+   */
+  async resolveSecret(secretRef: string | null): Promise<string | undefined> {
+    if (!secretRef) return undefined;
+    const separator = secretRef.indexOf(':');
+    const kind = secretRef.slice(0, separator);
+    const name = secretRef.slice(separator + 1);
+
+    if (kind === 'config') {
+      const value = (config as Record<string, unknown>)[name];
+      return typeof value === 'string' && value ? value : undefined;
+    }
+    if (kind === 'env') {
+      return process.env[name] || undefined;
+    }
+    if (kind === 'ssm') {
+      const cached = this.secretCache.get(name);
+      if (cached && Date.now() - cached.fetchedAt < SECRET_CACHE_MS) {
+        return cached.value;
+      }
+      const value = (await getParameter(name)) || undefined;
+      this.secretCache.set(name, { value, fetchedAt: Date.now() });
+      return value;
+    }
+    log(`Unsupported secret reference kind '${kind}'`, 'ai-models-ERROR');
+    return undefined;
+  }
+
+  /**
+   * Full chat completions URL for a model, following its path style
+   */
+  getChatCompletionsUrl(model: AiModel): string {
+    switch (model.pathStyle) {
+      case 'azure_deployment':
+        return `${model.endpoint}/openai/deployments/${model.upstreamModel}/chat/completions?api-version=${model.apiVersion}`;
+      case 'azure_models':
+        return `${model.endpoint}/models/chat/completions?api-version=${model.apiVersion}`;
+      case 'openai':
+        return `${model.endpoint}/chat/completions`;
+      case 'exo_task':
+        throw new Error('The exo network is reached through dispatchTask, not a URL');
+    }
+  }
+
+  private async assertFallbacksExist(fallbackModels: string[] | undefined) {
+    if (!fallbackModels?.length) return;
+    const models = await this.load();
+    const unknown = fallbackModels.filter(fallbackId => !models.some(model => model.modelId === fallbackId));
+    if (unknown.length > 0) {
+      throw new AiModelRegistryError(`Unknown fallback model${unknown.length === 1 ? '' : 's'}: ${unknown.join(', ')}`);
+    }
+  }
+
+  /**
+   * Request headers for a model's provider. Azure takes the key in `api-key`, the others as a bearer token.
+   */
+  getRequestHeaders(model: AiModel, apiKey: string | undefined): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (!apiKey) return headers;
+    if (model.providerType === 'azure_openai' || model.providerType === 'azure_ai_inference') {
+      headers['api-key'] = apiKey;
+    } else {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+    return headers;
+  }
+
+  async create(input: CreateAiModelInput): Promise<AiModel> {
+    const duplicate = await db.query.aiModels.findFirst({ where: eq(aiModels.modelId, input.modelId) });
+    if (duplicate) {
+      throw new AiModelRegistryError(`Model '${input.modelId}' is already registered`);
+    }
+    await this.assertFallbacksExist(input.fallbackModels);
+
+    const created = await db.transaction(async (tx) => {
+      if (input.isDefault) {
+        await tx.update(aiModels).set({ isDefault: false, updatedAt: new Date() }).where(eq(aiModels.isDefault, true));
+      }
+      const [model] = await tx.insert(aiModels).values(input).returning();
+      return model;
+    });
+    this.invalidate();
+    log(`Registered AI model ${created.modelId} (${created.providerType})`, 'ai-models');
+    return created;
+  }
+
+  async update(id: number, changes: UpdateAiModelInput): Promise<AiModel> {
+    const existing = await db.query.aiModels.findFirst({ where: eq(aiModels.id, id) });
+    if (!existing) {
+      throw new AiModelRegistryError('Model not found');
+    }
+    const problem = aiModelConfigProblem({ ...existing, ...changes });
+    if (problem) {
+      throw new AiModelRegistryError(problem.message);
+    }
+    await this.assertFallbacksExist(changes.fallbackModels);
+    if (existing.isDefault && (changes.isDefault === false || changes.enabled === false)) {
+      throw new AiModelRegistryError('Make another model the default before disabling or unsetting this one');
+    }
+
+    const updated = await db.transaction(async (tx) => {
+      if (changes.isDefault && !existing.isDefault) {
+        await tx.update(aiModels).set({ isDefault: false, updatedAt: new Date() }).where(eq(aiModels.isDefault, true));
+      }
+      const [model] = await tx.update(aiModels)
+        .set({ ...changes, updatedAt: new Date() })
+        .where(eq(aiModels.id, id))
+        .returning();
+      return model;
+    });
+    this.invalidate();
+    log(`Updated AI model ${updated.modelId}: ${Object.keys(changes).join(', ')}`, 'ai-models');
+    return updated;
+  }
+
+  async remove(id: number): Promise<void> {
+    const existing = await db.query.aiModels.findFirst({ where: eq(aiModels.id, id) });
+    if (!existing) {
+      throw new AiModelRegistryError('Model not found');
+    }
+    if (existing.isDefault) {
+      throw new AiModelRegistryError('Make another model the default before removing this one');
+    }
+    await db.delete(aiModels).where(eq(aiModels.id, id));
+    this.invalidate();
+    log(`Removed AI model ${existing.modelId}`, 'ai-models');
+  }
+}
+
+export const aiModelRegistryService = new AiModelRegistryService();
@@ -0,0 +1,143 @@
+import { db } from '../db';
+import { bountyClaims, type BountyClaim } from '../../shared/schema';
+import { eq, and, gt, lte, sql } from 'drizzle-orm';
+import { config } from '../config';
+import { log } from '../utils';
+
+export class BountyClaimService {
+
+  /**
+   * Get the active claim on an issue, if any. A claim past its window no longer counts, even before the sweep expires it.
+   */
+  async getActiveClaim(githubRepoId: string, githubIssueNumber: number): Promise<BountyClaim | null> {
+    const claim = await db.query.bountyClaims.findFirst({
+      where: and(
+        eq(bountyClaims.githubRepoId, githubRepoId),
+        eq(bountyClaims.githubIssueNumber, githubIssueNumber),
+        eq(bountyClaims.status, 'active'),
+        gt(bountyClaims.expiresAt, new Date())
+      )
+    });
+    return claim || null;
+  }
+
+  /**
+   * Count a contributor's active claims across all repositories
+   */
+  async countActiveClaims(githubUsername: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(bountyClaims)
+      .where(and(
+        sql`lower(${bountyClaims.githubUsername}) = lower(${githubUsername})`,
+        eq(bountyClaims.status, 'active'),
+        gt(bountyClaims.expiresAt, new Date())
+      ));
+    return result?.count ?? 0;
+  }
+
+  /**
+   * Reserve an issue's bounty for a contributor.
+   * When assignedBy is set (a maintainer claiming on someone's behalf) an existing
+   * claim is replaced and the per-user limit is not enforced.
+   */
+  async claim(githubRepoId: string, githubIssueNumber: number, githubUsername: string, assignedBy?: string): Promise<BountyClaim> {
+    const existing = await this.getActiveClaim(githubRepoId, githubIssueNumber);
+
+    if (existing && !assignedBy) {
+      if (existing.githubUsername.toLowerCase() === githubUsername.toLowerCase()) {
+        throw new Error(`You already claimed this issue. Your claim expires ${existing.expiresAt.toUTCString()}.`);
+      }
+      throw new Error(`This issue is already claimed by @${existing.githubUsername} until ${existing.expiresAt.toUTCString()}.`);
+    }
+
+    if (!assignedBy) {
+      const activeCount = await this.countActiveClaims(githubUsername);
+      if (activeCount >= config.maxActiveBountyClaimsPerUser) {
+        throw new Error(`You already have ${activeCount} active claims. Finish or \`/unclaim\` one before claiming another (limit: ${config.maxActiveBountyClaimsPerUser}).`);
+      }
+    }
+
+    const expiresAt = new Date(Date.now() + config.bountyClaimWindowHours * 60 * 60 * 1000);
+
+    return await db.transaction(async (tx) => {
+      if (existing) {
+        await tx.update(bountyClaims)
+          .set({ status: 'released', closedAt: new Date(), closedBy: assignedBy })
+          .where(eq(bountyClaims.id, existing.id));
+      }
+      // A lapsed claim the sweep has not reached yet still holds the issue's one active slot
+      await tx.update(bountyClaims)
+        .set({ status: 'expired', closedAt: new Date() })
+        .where(and(
+          eq(bountyClaims.githubRepoId, githubRepoId),
+          eq(bountyClaims.githubIssueNumber, githubIssueNumber),
+          eq(bountyClaims.status, 'active'),
+          lte(bountyClaims.expiresAt, new Date())
+        ));
+
+      const [claim] = await tx.insert(bountyClaims).values({
+        githubRepoId,
+        githubIssueNumber,
+        githubUsername,
+        assignedBy: assignedBy || null,
+        expiresAt,
+      }).returning();
+
+      log(`Issue #${githubIssueNumber} in repo ${githubRepoId} claimed by ${githubUsername} until ${expiresAt.toISOString()}${assignedBy ? ` (assigned by ${assignedBy})` : ''}`, 'bounty-claim');
+      return claim;
+    });
+  }
+
+  /**
+   * Release the active claim on an issue. Returns the released claim, or null if there was none.
+   */
+  async release(githubRepoId: string, githubIssueNumber: number, releasedBy: string): Promise<BountyClaim | null> {
+    const [released] = await db.update(bountyClaims)
+      .set({ status: 'released', closedAt: new Date(), closedBy: releasedBy })
+      .where(and(
+        eq(bountyClaims.githubRepoId, githubRepoId),
+        eq(bountyClaims.githubIssueNumber, githubIssueNumber),
+        eq(bountyClaims.status, 'active')
+      ))
+      .returning();
+
+    if (released) {
+      log(`Claim by ${released.githubUsername} on issue #${githubIssueNumber} in repo ${githubRepoId} released by ${releasedBy}`, 'bounty-claim');
+    }
+    return released || null;
+  }
+
+  /**
+   * Mark the active claim on an issue as completed once its bounty has been paid
+   */
+  async complete(githubRepoId: string, githubIssueNumber: number): Promise<void> {
+    await db.update(bountyClaims)
+      .set({ status: 'completed', closedAt: new Date() })
+      .where(and(
+        eq(bountyClaims.githubRepoId, githubRepoId),
+        eq(bountyClaims.githubIssueNumber, githubIssueNumber),
+        eq(bountyClaims.status, 'active')
+      ));
+  }
+
+  /**
+   * Expire every active claim whose window has passed. Returns the claims that were expired.
+   */
+  async expireStaleClaims(): Promise<BountyClaim[]> {
+    const expired = await db.update(bountyClaims)
+      .set({ status: 'expired', closedAt: new Date() })
+      .where(and(
+        eq(bountyClaims.status, 'active'),
+        lte(bountyClaims.expiresAt, new Date())
+      ))
+      .returning();
+
+    if (expired.length > 0) {
+      log(`Expired ${expired.length} bounty claims`, 'bounty-claim');
+    }
+    return expired;
+  }
+}
+
+export const bountyClaimService = new BountyClaimService();
@@ -0,0 +1,150 @@
+import { db } from '../db';
+import { bountyExpiries, type BountyExpiry } from '../../shared/schema';
+import { eq, and, lte, gt, isNull } from 'drizzle-orm';
+import { config } from '../config';
+import { log } from '../utils';
+
+/**
+ * Deadlines on allocated bounties. The sweep reminds the issue shortly before a deadline and
+ * returns the bounty to the pool once it passes. A deadline only leaves `active` through a
+ * conditional update to `returning`, so the same bounty is never cancelled twice; a failed
+ * return goes back to `active` and is retried on the next sweep.
+ */
+export class BountyExpiryService {
+
+  /**
+   * Get the live deadline on an issue, if any
+   */
+  async getActive(githubRepoId: string, githubIssueNumber: number): Promise<BountyExpiry | null> {
+    const expiry = await db.query.bountyExpiries.findFirst({
+      where: and(
+        eq(bountyExpiries.githubRepoId, githubRepoId),
+        eq(bountyExpiries.githubIssueNumber, githubIssueNumber),
+        eq(bountyExpiries.status, 'active')
+      )
+    });
+    return expiry || null;
+  }
+
+  /**
+   * List the live deadlines of a repository's bounties
+   */
+  async listActive(githubRepoId: string): Promise<BountyExpiry[]> {
+    return await db.query.bountyExpiries.findMany({
+      where: and(
+        eq(bountyExpiries.githubRepoId, githubRepoId),
+        eq(bountyExpiries.status, 'active')
+      )
+    });
+  }
+
+  /**
+   * Set the deadline on an issue's bounty, replacing any earlier one. A deadline already inside
+   * the reminder window is marked as reminded, as the allocation comment announces it.
+   */
+  async set(githubRepoId: string, githubIssueNumber: number, expiresInDays: number, setBy: string | null): Promise<BountyExpiry> {
+    if (expiresInDays > config.bountyExpiryMaxDays) {
+      throw new Error(`A bounty can expire at most ${config.bountyExpiryMaxDays} days from now`);
+    }
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + expiresInDays * 24 * 60 * 60 * 1000);
+    const remindAt = new Date(expiresAt.getTime() - config.bountyExpiryReminderHours * 60 * 60 * 1000);
+
+    return await db.transaction(async (tx) => {
+      await tx.update(bountyExpiries)
+        .set({ status: 'cleared', updatedAt: now })
+        .where(and(
+          eq(bountyExpiries.githubRepoId, githubRepoId),
+          eq(bountyExpiries.githubIssueNumber, githubIssueNumber),
+          eq(bountyExpiries.status, 'active')
+        ));
+
+      const [expiry] = await tx.insert(bountyExpiries).values({
+        githubRepoId,
+        githubIssueNumber,
+        expiresAt,
+        setBy,
+        remindedAt: remindAt <= now ? now : null,
+      }).returning();
+
+      log(`Bounty on issue #${githubIssueNumber} in repo ${githubRepoId} set to expire ${expiresAt.toISOString()}${setBy ? ` by ${setBy}` : ''}`, 'bounty-expiry');
+      return expiry;
+    });
+  }
+
+  /**
+   * Drop the live deadline on an issue, once its bounty is paid, cancelled or allocated again without one
+   */
+  async clear(githubRepoId: string, githubIssueNumber: number): Promise<void> {
+    await db.update(bountyExpiries)
+      .set({ status: 'cleared', updatedAt: new Date() })
+      .where(and(
+        eq(bountyExpiries.githubRepoId, githubRepoId),
+        eq(bountyExpiries.githubIssueNumber, githubIssueNumber),
+        eq(bountyExpiries.status, 'active')
+      ));
+  }
+
+  /**
+   * Active deadlines inside the reminder window that have not been reminded yet
+   */
+  async listDueReminders(): Promise<BountyExpiry[]> {
+    const now = new Date();
+    const windowEnd = new Date(now.getTime() + config.bountyExpiryReminderHours * 60 * 60 * 1000);
+    return await db.query.bountyExpiries.findMany({
+      where: and(
+        eq(bountyExpiries.status, 'active'),
+        isNull(bountyExpiries.remindedAt),
+        gt(bountyExpiries.expiresAt, now),
+        lte(bountyExpiries.expiresAt, windowEnd)
+      )
+    });
+  }
+
+  async markReminded(id: number): Promise<void> {
+    await db.update(bountyExpiries)
+      .set({ remindedAt: new Date(), updatedAt: new Date() })
+      .where(eq(bountyExpiries.id, id));
+  }
+
+  /**
+   * Move every active deadline that has passed to `returning`. Returns the deadlines this caller
+   * now owns.
+   */
+  async claimExpired(): Promise<BountyExpiry[]> {
+    return await db.update(bountyExpiries)
+      .set({ status: 'returning', updatedAt: new Date() })
+      .where(and(
+        eq(bountyExpiries.status, 'active'),
+        lte(bountyExpiries.expiresAt, new Date())
+      ))
+      .returning();
+  }
+
+  async markReturned(id: number, returnTxHash: string): Promise<void> {
+    await db.update(bountyExpiries)
+      .set({ status: 'returned', returnTxHash, lastError: null, updatedAt: new Date() })
+      .where(eq(bountyExpiries.id, id));
+  }
+
+  /**
+   * Close a claimed deadline whose bounty was already paid or cancelled by other means
+   */
+  async markCleared(id: number): Promise<void> {
+    await db.update(bountyExpiries)
+      .set({ status: 'cleared', updatedAt: new Date() })
+      .where(eq(bountyExpiries.id, id));
+  }
+
+  /**
+   * Hand a claimed deadline back to the sweep after a failed return
+   */
+  async releaseClaim(id: number, error: string): Promise<void> {
+    await db.update(bountyExpiries)
+      .set({ status: 'active', lastError: error, updatedAt: new Date() })
+      .where(eq(bountyExpiries.id, id));
+    log(`Returning expired bounty ${id} failed, will retry: ${error}`, 'bounty-expiry-ERROR');
+  }
+}
+
+export const bountyExpiryService = new BountyExpiryService();
@@ -0,0 +1,374 @@
+import { db } from '../db';
+import {
+  payoutLedger,
+  issueSponsorships,
+  referralRewards,
+  promotionalSubmissions,
+  promotionalBounties,
+  registeredRepositories,
+  tokenPriceSnapshots,
+  type EarningsStatement,
+  type EarningsStatementLine,
+  type TokenPriceSnapshot
+} from '../../shared/schema';
+import { eq, and, gte, lt, asc, inArray, sql } from 'drizzle-orm';
+import { ethers } from 'ethers';
+import { config } from '../config';
+import { getCurrencyByCode } from '../currencyConfig';
+import { log } from '../utils';
+
+type Currency = 'XDC' | 'ROXN' | 'USDC';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Drops trailing zeros of stored decimals, e.g. "5.00000000" -> "5"
+function trimAmount(amount: string): string {
+  return amount.includes('.') ? amount.replace(/\.?0+$/, '') : amount;
+}
+
+function referencePrice(currency: Currency): string | null {
+  if (currency === 'USDC') {
+    return '1';
+  }
+  const price = currency === 'XDC' ? config.xdcReferenceUsdPrice : config.roxnReferenceUsdPrice;
+  return price || null;
+}
+
+/**
+ * Year-end style statements of what a contributor earned: bounty payouts from the payout ledger,
+ * issue sponsorships paid to them, paid referral rewards and approved promotional submissions.
+ * Each line is valued with the latest price snapshot at or before it was paid, or the configured
+ * reference price when there is none, and converted with the fiat rates in currencyConfig.
+ */
+export class EarningsStatementService {
+
+  async recordPrice(params: { currency: Currency; usdPrice: string; source: string; capturedAt?: Date; recordedBy: number }): Promise<TokenPriceSnapshot> {
+    const [snapshot] = await db.insert(tokenPriceSnapshots).values({
+      currency: params.currency,
+      usdPrice: params.usdPrice,
+      source: params.source,
+      capturedAt: params.capturedAt ?? new Date(),
+      recordedBy: params.recordedBy,
+    }).returning();
+    log(`Recorded ${params.currency} price ${params.usdPrice} USD from ${params.source}`, 'earnings');
+    return snapshot;
+  }
+
+  /**
+   * Build the statement for a user over whole UTC days from `from` to `to` (YYYY-MM-DD, inclusive).
+   * Throws if the fiat currency is not in currencyConfig.
+   */
+  async build(user: { id: number; githubUsername: string }, from: string, to: string, fiat: string): Promise<EarningsStatement> {
+    const fiatCurrency = getCurrencyByCode(fiat);
+    if (!fiatCurrency) {
+      throw new Error(`Unsupported fiat currency ${fiat}`);
+    }
+    const start = new Date(`${from}T00:00:00.000Z`);
+    const end = new Date(new Date(`${to}T00:00:00.000Z`).getTime() + DAY_MS);
+    const username = user.githubUsername.toLowerCase();
+
+    const [ledgerRows, sponsorshipRows, referralRows, promotionalRows, snapshots] = await Promise.all([
+      db.select().from(payoutLedger).where(and(
+        eq(payoutLedger.status, 'confirmed'),
+        gte(payoutLedger.confirmedAt, start),
+        lt(payoutLedger.confirmedAt, end),
+        sql`exists (select 1 from jsonb_array_elements(${payoutLedger.recipients}) as r where lower(r->>'githubUsername') = ${username})`
+      )),
+      db.select().from(issueSponsorships).where(and(
+        eq(issueSponsorships.status, 'paid'),
+        sql`lower(${issueSponsorships.recipientUsername}) = ${username}`,
+        gte(issueSponsorships.resolvedAt, start),
+        lt(issueSponsorships.resolvedAt, end)
+      )),
+      db.select().from(referralRewards).where(and(
+        eq(referralRewards.userId, user.id),
+        eq(referralRewards.status, 'paid'),
+        gte(referralRewards.paidAt, start),
+        lt(referralRewards.paidAt, end)
+      )),
+      db.select({
+        reviewedAt: promotionalSubmissions.reviewedAt,
+        title: promotionalBounties.title,
+        rewardAmount: promotionalBounties.rewardAmount,
+        repoFullName: registeredRepositories.githubRepoFullName,
+      })
+        .from(promotionalSubmissions)
+        .innerJoin(promotionalBounties, eq(promotionalSubmissions.bountyId, promotionalBounties.id))
+        .innerJoin(registeredRepositories, eq(promotionalBounties.repoId, registeredRepositories.id))
+        .where(and(
+          eq(promotionalSubmissions.contributorId, user.id),
+          eq(promotionalSubmissions.status, 'APPROVED'),
+          gte(promotionalSubmissions.reviewedAt, start),
+          lt(promotionalSubmissions.reviewedAt, end)
+        )),
+      db.select().from(tokenPriceSnapshots)
+        .where(lt(tokenPriceSnapshots.capturedAt, end))
+        .orderBy(asc(tokenPriceSnapshots.capturedAt)),
+    ]);
+
+    const repoIds = Array.from(new Set([...ledgerRows.map(row => row.githubRepoId), ...sponsorshipRows.map(row => row.githubRepoId)]));
+    const repoNames = new Map<string, string>();
+    if (repoIds.length > 0) {
+      const repos = await db.select({ githubRepoId: registeredRepositories.githubRepoId, fullName: registeredRepositories.githubRepoFullName })
+        .from(registeredRepositories)
+        .where(inArray(registeredRepositories.githubRepoId, repoIds));
+      for (const repo of repos) {
+        repoNames.set(repo.githubRepoId, repo.fullName);
+      }
+    }
+
+    type RawLine = Omit<EarningsStatementLine, 'paidAt' | 'usdPrice' | 'priceSource' | 'fiatValue'> & { paidAt: Date };
+    const raw: RawLine[] = [];
+
+    for (const row of ledgerRows) {
+      const recipient = row.recipients.find(r => r.githubUsername.toLowerCase() === username);
+      if (!recipient) {
+        continue;
+      }
+      const split = recipient.shareBps < 10000 ? ` (${recipient.shareBps / 100}% share)` : '';
+      const shares = [{ currency: row.currency, amount: recipient.amount }, ...(recipient.extraAmounts || [])];
+      for (const share of shares) {
+        raw.push({
+          paidAt: row.confirmedAt!,
+          kind: 'bounty',
+          description: `Bounty on issue #${row.githubIssueNumber}${split}`,
+          repository: repoNames.get(row.githubRepoId) ?? null,
+          currency: share.currency,
+          amount: share.amount,
+          transactionHash: row.transactionHash,
+        });
+      }
+    }
+
+    for (const row of sponsorshipRows) {
+      raw.push({
+        paidAt: row.resolvedAt!,
+        kind: 'sponsorship',
+        description: `Sponsorship of issue #${row.githubIssueNumber}`,
+        repository: repoNames.get(row.githubRepoId) ?? null,
+        currency: row.currency,
+        amount: row.amount,
+        transactionHash: row.payoutTxHash,
+      });
+    }
+
+    for (const row of referralRows) {
+      raw.push({
+        paidAt: row.paidAt!,
+        kind: 'referral',
+        description: 'Referral reward',
+        repository: null,
+        currency: row.rewardType === 'usdc' ? 'USDC' : 'ROXN',
+        amount: trimAmount(row.amount),
+        transactionHash: row.transactionHash,
+      });
+    }
+
+    for (const row of promotionalRows) {
+      raw.push({
+        paidAt: row.reviewedAt!,
+        kind: 'promotional',
+        description: `Promotional bounty: ${row.title}`,
+        repository: row.repoFullName,
+        currency: 'ROXN',
+        amount: trimAmount(row.rewardAmount),
+        transactionHash: null,
+      });
+    }
+
+    raw.sort((a, b) => a.paidAt.getTime() - b.paidAt.getTime());
+
+    const totals = new Map<Currency, bigint>();
+    let totalFiat = 0;
+    let unvaluedLines = 0;
+    const lines: EarningsStatementLine[] = raw.map(line => {
+      totals.set(line.currency, (totals.get(line.currency) ?? BigInt(0)) + ethers.parseUnits(line.amount, 18));
+
+      const snapshot = this.findSnapshot(snapshots, line.currency, line.paidAt);
+      const usdPrice = snapshot?.usdPrice ?? referencePrice(line.currency);
+      let fiatValue: string | null = null;
+      if (usdPrice) {
+        const value = parseFloat(line.amount) * parseFloat(usdPrice) * fiatCurrency.usdcRate;
+        totalFiat += value;
+        fiatValue = value.toFixed(2);
+      } else {
+        unvaluedLines++;
+      }
+
+      return {
+        ...line,
+        paidAt: line.paidAt.toISOString(),
+        usdPrice,
+        priceSource: snapshot ? 'snapshot' : usdPrice ? 'reference' : null,
+        fiatValue,
+      };
+    });
+
+    return {
+      githubUsername: user.githubUsername,
+      from,
+      to,
+      fiatCurrency: fiatCurrency.code,
+      generatedAt: new Date().toISOString(),
+      lines,
+      totals: Array.from(totals, ([currency, units]) => ({ currency, amount: trimAmount(ethers.formatUnits(units, 18)) })),
+      totalFiatValue: totalFiat.toFixed(2),
+      unvaluedLines,
+    };
+  }
+
+  // The latest snapshot of a currency at or before `at`; snapshots are sorted oldest first
+  private findSnapshot(snapshots: TokenPriceSnapshot[], currency: Currency, at: Date): TokenPriceSnapshot | null {
+    let found: TokenPriceSnapshot | null = null;
+    for (const snapshot of snapshots) {
+      if (snapshot.capturedAt > at) {
+        break;
+      }
+      if (snapshot.currency === currency) {
+        found = snapshot;
+      }
+    }
+    return found;
+  }
+}
+
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvField(value: string | null): string {
+  let field = value ?? '';
+  // Stop spreadsheet apps from running repository names or titles as formulas
+  if (CSV_FORMULA_PREFIX.test(field)) {
+    field = `'${field}`;
+  }
+  return /[",\n\r]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+export function renderStatementCsv(statement: EarningsStatement): string {
+  const header = ['Date', 'Type', 'Description', 'Repository', 'Currency', 'Amount', 'USD price', 'Price source', `Value (${statement.fiatCurrency})`, 'Transaction hash'];
+  const rows = statement.lines.map(line => [
+    line.paidAt,
+    line.kind,
+    line.description,
+    line.repository,
+    line.currency,
+    line.amount,
+    line.usdPrice,
+    line.priceSource,
+    line.fiatValue,
+    line.transactionHash,
+  ]);
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// --- PDF ---
+// A landscape A4 table in the standard Helvetica fonts, so no font files or PDF library are needed.
+// Text is limited to printable ASCII; anything else is replaced with '?'.
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const MARGIN = 40;
+const ROW_HEIGHT = 13;
+const PDF_COLUMNS: { title: string; x: number; maxChars: number }[] = [
+  { title: 'Date', x: 40, maxChars: 10 },
+  { title: 'Type', x: 95, maxChars: 12 },
+  { title: 'Description', x: 150, maxChars: 34 },
+  { title: 'Repository', x: 300, maxChars: 30 },
+  { title: 'Amount', x: 440, maxChars: 20 },
+  { title: 'USD price', x: 535, maxChars: 12 },
+  { title: 'Value', x: 590, maxChars: 14 },
+  { title: 'Transaction', x: 655, maxChars: 34 },
+];
+
+function pdfText(text: string, maxChars?: number): string {
+  let clean = text.replace(/[^\x20-\x7e]/g, '?');
+  if (maxChars && clean.length > maxChars) {
+    clean = `${clean.slice(0, maxChars - 3)}...`;
+  }
+  return clean.replace(/([\\()])/g, '\\$1');
+}
+
+function textOp(x: number, y: number, text: string, size = 8, bold = false): string {
+  return `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x} ${y} Td (${text}) Tj ET`;
+}
+
+function shortHash(hash: string | null): string {
+  return hash ? `${hash.slice(0, 14)}...${hash.slice(-10)}` : '-';
+}
+
+export function renderStatementPdf(statement: EarningsStatement): Buffer {
+  const headerLines = [
+    textOp(MARGIN, PAGE_HEIGHT - 50, 'Roxonn earnings statement', 16, true),
+    textOp(MARGIN, PAGE_HEIGHT - 68, pdfText(`@${statement.githubUsername}  |  ${statement.from} to ${statement.to} (UTC)  |  Values in ${statement.fiatCurrency}`), 9),
+    textOp(MARGIN, PAGE_HEIGHT - 80, pdfText(`Generated ${statement.generatedAt}. Bounty amounts are gross shares before the platform fee.`), 7),
+  ];
+  const tableHeader = (y: number) => PDF_COLUMNS.map(column => textOp(column.x, y, column.title, 8, true));
+
+  const pages: string[][] = [];
+  let ops = [...headerLines, ...tableHeader(PAGE_HEIGHT - 105)];
+  let y = PAGE_HEIGHT - 105 - ROW_HEIGHT - 4;
+  const rows = statement.lines.map(line => [
+    line.paidAt.slice(0, 10),
+    line.kind,
+    line.description,
+    line.repository ?? '-',
+    `${line.amount} ${line.currency}`,
+    line.usdPrice ?? '-',
+    line.fiatValue ?? '-',
+    shortHash(line.transactionHash),
+  ]);
+  if (rows.length === 0) {
+    ops.push(textOp(MARGIN, y, 'No earnings in this period.', 9));
+    y -= ROW_HEIGHT;
+  }
+  for (const row of rows) {
+    if (y < MARGIN + ROW_HEIGHT) {
+      pages.push(ops);
+      ops = tableHeader(PAGE_HEIGHT - MARGIN - 10);
+      y = PAGE_HEIGHT - MARGIN - 10 - ROW_HEIGHT - 4;
+    }
+    row.forEach((cell, i) => ops.push(textOp(PDF_COLUMNS[i].x, y, pdfText(cell, PDF_COLUMNS[i].maxChars))));
+    y -= ROW_HEIGHT;
+  }
+
+  const summary = [
+    `Totals: ${statement.totals.map(t => `${t.amount} ${t.currency}`).join(', ') || 'none'}`,
+    `Total value: ${statement.totalFiatValue} ${statement.fiatCurrency}${statement.unvaluedLines > 0 ? ` (${statement.unvaluedLines} lines without a price are excluded)` : ''}`,
+  ];
+  if (y - summary.length * ROW_HEIGHT < MARGIN) {
+    pages.push(ops);
+    ops = [];
+    y = PAGE_HEIGHT - MARGIN - 10;
+  }
+  y -= 6;
+  for (const text of summary) {
+    ops.push(textOp(MARGIN, y, pdfText(text), 9, true));
+    y -= ROW_HEIGHT;
+  }
+  pages.push(ops);
+
+  // Objects 1-4 are the catalog, page tree and fonts; each page then adds a page and a content stream
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${5 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  ];
+  pages.forEach((pageOps, i) => {
+    const content = [...pageOps, textOp(PAGE_WIDTH - MARGIN - 50, 20, `Page ${i + 1} of ${pages.length}`, 7)].join('\n');
+    objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`);
+    objects.push(`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`);
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(Buffer.byteLength(pdf, 'latin1'));
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
+
+export const earningsStatementService = new EarningsStatementService();
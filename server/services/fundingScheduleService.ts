@@ -0,0 +1,359 @@
+import { db } from '../db';
+import {
+  fundingSchedules,
+  fundingScheduleRuns,
+  type FundingSchedule,
+  type FundingScheduleRun,
+  type FundingRunStatus,
+  type CreateFundingScheduleInput
+} from '../../shared/schema';
+import { eq, and, lte, desc, inArray, sql } from 'drizzle-orm';
+import { ethers } from 'ethers';
+import { blockchain } from '../blockchain';
+import { storage } from '../storage';
+import { limitsService } from './limitsService';
+import { sendFundingScheduleReportEmail } from '../email';
+import { config } from '../config';
+import { log } from '../utils';
+
+type Currency = 'XDC' | 'ROXN' | 'USDC';
+
+const CURRENCY_DECIMALS: Record<Currency, number> = { XDC: 18, ROXN: 18, USDC: 6 };
+
+export interface FundingScheduleView extends FundingSchedule {
+  funderUsername: string | null;
+  recentRuns: FundingScheduleRun[];
+}
+
+interface RunOutcome {
+  status: FundingRunStatus;
+  amount: string;
+  poolBalance: string | null;
+  transactionHash?: string | null;
+  reason?: string;
+}
+
+function toUnits(amount: string, currency: Currency): bigint {
+  return ethers.parseUnits(amount, CURRENCY_DECIMALS[currency]);
+}
+
+function poolBalanceOf(repoDetails: any, currency: Currency): string {
+  if (currency === 'XDC') return repoDetails.xdcPoolRewards;
+  if (currency === 'ROXN') return repoDetails.roxnPoolRewards;
+  return repoDetails.usdcPoolRewards;
+}
+
+/**
+ * Next calendar run of a recurring schedule strictly after `after`. Runs fall at midnight UTC;
+ * weekly schedules default to Monday and monthly ones to the 1st.
+ */
+export function nextRecurringRun(schedule: Pick<FundingSchedule, 'cadence' | 'dayOfWeek' | 'dayOfMonth'>, after: Date): Date {
+  const candidate = new Date(Date.UTC(after.getUTCFullYear(), after.getUTCMonth(), after.getUTCDate()));
+  for (let i = 0; i < 62; i++) {
+    candidate.setUTCDate(candidate.getUTCDate() + 1);
+    if (schedule.cadence === 'daily'
+      || (schedule.cadence === 'weekly' && candidate.getUTCDay() === (schedule.dayOfWeek ?? 1))
+      || (schedule.cadence === 'monthly' && candidate.getUTCDate() === (schedule.dayOfMonth ?? 1))) {
+      return candidate;
+    }
+  }
+  throw new Error(`No run date found for cadence ${schedule.cadence}`);
+}
+
+/**
+ * Recurring and top-up funding of repository pools from a funder's wallet. Every run is checked
+ * against the repository funding limits and the funder's balance first. ROXN runs spend a standing
+ * allowance the funder granted the rewards contract, so the scheduler never approves tokens on
+ * their behalf; USDC and XDC funding work as the manual flow does.
+ */
+export class FundingScheduleService {
+  private isRunning = false;
+
+  async create(githubRepoId: string, funderId: number, input: CreateFundingScheduleInput): Promise<FundingSchedule> {
+    const now = new Date();
+    const values = input.kind === 'recurring'
+      ? {
+          cadence: input.cadence,
+          dayOfWeek: input.cadence === 'weekly' ? input.dayOfWeek ?? 1 : null,
+          dayOfMonth: input.cadence === 'monthly' ? input.dayOfMonth ?? 1 : null,
+          thresholdAmount: null,
+        }
+      : { cadence: null, dayOfWeek: null, dayOfMonth: null, thresholdAmount: input.thresholdAmount };
+
+    const [schedule] = await db.insert(fundingSchedules).values({
+      githubRepoId,
+      funderId,
+      kind: input.kind,
+      currency: input.currency,
+      amount: input.amount,
+      maxTotalAmount: input.maxTotalAmount ?? null,
+      ...values,
+      nextRunAt: input.kind === 'recurring' ? nextRecurringRun(values, now) : now,
+    }).returning();
+    log(`User ${funderId} created ${schedule.kind} funding schedule ${schedule.id} for repo ${githubRepoId}: ${schedule.amount} ${schedule.currency}`, 'funding-schedule');
+    return schedule;
+  }
+
+  async get(id: number, githubRepoId: string): Promise<FundingSchedule | null> {
+    const schedule = await db.query.fundingSchedules.findFirst({
+      where: and(eq(fundingSchedules.id, id), eq(fundingSchedules.githubRepoId, githubRepoId)),
+    });
+    return schedule || null;
+  }
+
+  /**
+   * A repository's schedules that have not been cancelled, each with its last few runs
+   */
+  async list(githubRepoId: string): Promise<FundingScheduleView[]> {
+    const schedules = await db.query.fundingSchedules.findMany({
+      where: and(
+        eq(fundingSchedules.githubRepoId, githubRepoId),
+        inArray(fundingSchedules.status, ['active', 'paused', 'completed'])
+      ),
+      orderBy: [desc(fundingSchedules.createdAt)],
+    });
+    return await Promise.all(schedules.map(async schedule => {
+      const [funder, recentRuns] = await Promise.all([
+        storage.getUserById(schedule.funderId),
+        this.listRuns(schedule.id, 5),
+      ]);
+      return { ...schedule, funderUsername: funder?.githubUsername ?? null, recentRuns };
+    }));
+  }
+
+  /**
+   * Change the amounts of a schedule or pause and resume it. Resuming clears the failure count and
+   * moves a missed run to the next date rather than running it late.
+   */
+  async update(
+    id: number,
+    githubRepoId: string,
+    changes: { status?: 'active' | 'paused'; amount?: string; thresholdAmount?: string; maxTotalAmount?: string | null }
+  ): Promise<FundingSchedule | null> {
+    const schedule = await this.get(id, githubRepoId);
+    if (!schedule || schedule.status === 'cancelled' || schedule.status === 'completed') {
+      return null;
+    }
+
+    const resuming = changes.status === 'active' && schedule.status === 'paused';
+    const now = new Date();
+    const [updated] = await db.update(fundingSchedules)
+      .set({
+        ...changes,
+        thresholdAmount: schedule.kind === 'top_up' ? changes.thresholdAmount ?? schedule.thresholdAmount : null,
+        ...(resuming && {
+          consecutiveFailures: 0,
+          nextRunAt: schedule.kind === 'top_up'
+            ? now
+            : schedule.nextRunAt > now ? schedule.nextRunAt : nextRecurringRun(schedule, now),
+        }),
+        updatedAt: now,
+      })
+      .where(eq(fundingSchedules.id, id))
+      .returning();
+    return updated;
+  }
+
+  async cancel(id: number, githubRepoId: string): Promise<FundingSchedule | null> {
+    const [cancelled] = await db.update(fundingSchedules)
+      .set({ status: 'cancelled', updatedAt: new Date() })
+      .where(and(
+        eq(fundingSchedules.id, id),
+        eq(fundingSchedules.githubRepoId, githubRepoId),
+        inArray(fundingSchedules.status, ['active', 'paused'])
+      ))
+      .returning();
+    if (cancelled) {
+      log(`Funding schedule ${id} cancelled`, 'funding-schedule');
+    }
+    return cancelled || null;
+  }
+
+  async listRuns(scheduleId: number, limit: number = 50): Promise<FundingScheduleRun[]> {
+    return await db.query.fundingScheduleRuns.findMany({
+      where: eq(fundingScheduleRuns.scheduleId, scheduleId),
+      orderBy: [desc(fundingScheduleRuns.createdAt)],
+      limit,
+    });
+  }
+
+  /**
+   * Run every active schedule that is due. Each schedule is claimed by moving its next run date
+   * before anything is sent, so an overlapping pass or another server cannot run it twice.
+   * Returns the number of runs recorded.
+   */
+  async processDueSchedules(): Promise<number> {
+    if (this.isRunning) {
+      return 0;
+    }
+    this.isRunning = true;
+    try {
+      const now = new Date();
+      const due = await db.query.fundingSchedules.findMany({
+        where: and(eq(fundingSchedules.status, 'active'), lte(fundingSchedules.nextRunAt, now)),
+        orderBy: [fundingSchedules.nextRunAt],
+        limit: 50,
+      });
+
+      let recorded = 0;
+      for (const schedule of due) {
+        // Top-ups are checked again on the next pass unless this one funds or fails
+        const nextRunAt = schedule.kind === 'recurring'
+          ? nextRecurringRun(schedule, now)
+          : new Date(now.getTime() + config.fundingSchedulerIntervalSeconds * 1000);
+        const [claimed] = await db.update(fundingSchedules)
+          .set({ nextRunAt })
+          .where(and(
+            eq(fundingSchedules.id, schedule.id),
+            eq(fundingSchedules.status, 'active'),
+            eq(fundingSchedules.nextRunAt, schedule.nextRunAt)
+          ))
+          .returning();
+        if (!claimed) {
+          continue;
+        }
+
+        try {
+          const outcome = await this.runSchedule(claimed);
+          if (outcome) {
+            await this.recordRun(claimed, outcome);
+            recorded++;
+          }
+        } catch (error: any) {
+          log(`Error running funding schedule ${schedule.id}: ${error.message}`, 'funding-schedule-ERROR');
+          await this.recordRun(claimed, { status: 'failed', amount: claimed.amount, poolBalance: null, reason: error.message });
+          recorded++;
+        }
+      }
+      return recorded;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Check and send one run. Returns null when a top-up finds the pool above its threshold.
+   */
+  private async runSchedule(schedule: FundingSchedule): Promise<RunOutcome | null> {
+    const currency = schedule.currency;
+    const repoId = parseInt(schedule.githubRepoId);
+    const repoDetails = await blockchain.getRepository(repoId);
+    const poolBalance = poolBalanceOf(repoDetails, currency);
+
+    if (schedule.kind === 'top_up' && toUnits(poolBalance, currency) >= toUnits(schedule.thresholdAmount!, currency)) {
+      return null;
+    }
+
+    // The last run under a budget funds only what is left of it
+    let amount = schedule.amount;
+    if (schedule.maxTotalAmount) {
+      const remaining = toUnits(schedule.maxTotalAmount, currency) - toUnits(schedule.totalFunded, currency);
+      if (remaining <= BigInt(0)) {
+        return { status: 'skipped', amount: '0', poolBalance, reason: 'The schedule budget is used up' };
+      }
+      if (remaining < toUnits(amount, currency)) {
+        amount = ethers.formatUnits(remaining, CURRENCY_DECIMALS[currency]);
+      }
+    }
+    const skip = (reason: string): RunOutcome => ({ status: 'skipped', amount, poolBalance, reason });
+
+    const funder = await storage.getUserById(schedule.funderId);
+    if (!funder || funder.role !== 'poolmanager' || !funder.xdcWalletAddress || !funder.walletReferenceId) {
+      return skip('The funder is no longer a pool manager with a Roxonn wallet');
+    }
+
+    const walletBalance = await blockchain.getFundingBalance(funder.xdcWalletAddress, currency);
+    if (walletBalance < toUnits(amount, currency)) {
+      return skip(`Wallet balance of ${ethers.formatUnits(walletBalance, CURRENCY_DECIMALS[currency])} ${currency} is below the ${amount} ${currency} to fund`);
+    }
+
+    if (currency === 'ROXN') {
+      const allowance = await blockchain.getRoxnAllowance(funder.xdcWalletAddress, config.repoRewardsContractAddress);
+      if (allowance < toUnits(amount, currency)) {
+        return skip(`ROXN allowance of ${ethers.formatEther(allowance)} is below the ${amount} ROXN to fund. Approve more ROXN for scheduled funding.`);
+      }
+    }
+
+    const fundingCheck = await limitsService.reserve({
+      scope: 'repo_funding',
+      subjectId: repoId.toString(),
+      currency,
+      amount,
+      userId: funder.id,
+    });
+    if (!fundingCheck.allowed) {
+      return skip(fundingCheck.reason || 'Repository funding limit reached');
+    }
+
+    let txResponse;
+    try {
+      txResponse = currency === 'XDC'
+        ? await blockchain.addXDCFundToRepository(repoId, amount, funder.id)
+        : currency === 'ROXN'
+        ? await blockchain.addROXNFundToRepository(repoId, amount, funder.id, true)
+        : await blockchain.addUSDCFundToRepository(repoId, amount, funder.id);
+    } catch (error: any) {
+      await limitsService.release(fundingCheck.usageId!);
+      return { status: 'failed', amount, poolBalance, reason: error.message };
+    }
+    if (txResponse) {
+      await limitsService.recordTransactionHash(fundingCheck.usageId!, txResponse.hash);
+    }
+    return { status: 'funded', amount, poolBalance, transactionHash: txResponse?.hash ?? null };
+  }
+
+  /**
+   * Store the run, update the schedule's totals and failure count, and email the funder
+   */
+  private async recordRun(schedule: FundingSchedule, outcome: RunOutcome): Promise<void> {
+    const now = new Date();
+    await db.insert(fundingScheduleRuns).values({
+      scheduleId: schedule.id,
+      status: outcome.status,
+      currency: schedule.currency,
+      amount: outcome.amount,
+      poolBalance: outcome.poolBalance,
+      transactionHash: outcome.transactionHash ?? null,
+      reason: outcome.reason ?? null,
+    });
+
+    const funded = outcome.status === 'funded';
+    const failures = funded ? 0 : schedule.consecutiveFailures + 1;
+    const fundedTotal = toUnits(schedule.totalFunded, schedule.currency) + (funded ? toUnits(outcome.amount, schedule.currency) : BigInt(0));
+    const budgetSpent = !!schedule.maxTotalAmount && fundedTotal >= toUnits(schedule.maxTotalAmount, schedule.currency);
+    const paused = !budgetSpent && failures >= config.fundingScheduleMaxFailures;
+
+    await db.update(fundingSchedules)
+      .set({
+        lastRunAt: now,
+        lastRunStatus: outcome.status,
+        consecutiveFailures: failures,
+        ...(funded && { totalFunded: sql`${fundingSchedules.totalFunded} + ${outcome.amount}::numeric` }),
+        ...(budgetSpent && { status: 'completed' as const }),
+        ...(paused && { status: 'paused' as const }),
+        // A top-up waits out the cooldown after any attempt so a problem does not email the funder every pass
+        ...(schedule.kind === 'top_up' && { nextRunAt: new Date(now.getTime() + config.fundingTopUpCooldownHours * 60 * 60 * 1000) }),
+        updatedAt: now,
+      })
+      .where(eq(fundingSchedules.id, schedule.id));
+    log(`Funding schedule ${schedule.id} run ${outcome.status}: ${outcome.amount} ${schedule.currency}${outcome.reason ? ` (${outcome.reason})` : ''}`, 'funding-schedule');
+
+    const [funder, registration] = await Promise.all([
+      storage.getUserById(schedule.funderId),
+      storage.findRegisteredRepositoryByGithubId(schedule.githubRepoId),
+    ]);
+    if (funder?.email) {
+      await sendFundingScheduleReportEmail(funder.email, {
+        repoFullName: registration?.githubRepoFullName ?? `repository ${schedule.githubRepoId}`,
+        status: outcome.status,
+        amount: outcome.amount,
+        currency: schedule.currency,
+        transactionHash: outcome.transactionHash,
+        reason: outcome.reason,
+        paused,
+      });
+    }
+  }
+}
+
+export const fundingScheduleService = new FundingScheduleService();
@@ -0,0 +1,425 @@
+import { db } from '../db';
+import {
+  issueSponsorships,
+  users,
+  type IssueSponsorship,
+  type IssueSponsorshipSummary,
+  type PublicIssueSponsor
+} from '../../shared/schema';
+import { eq, and, or, lte, desc, isNull, isNotNull, inArray } from 'drizzle-orm';
+import { ethers } from 'ethers';
+import { blockchain } from '../blockchain';
+import { storage } from '../storage';
+import { payoutAddressService } from './payoutAddressService';
+import { log } from '../utils';
+
+type Currency = 'XDC' | 'ROXN' | 'USDC';
+
+const CURRENCY_DECIMALS: Record<Currency, number> = { XDC: 18, ROXN: 18, USDC: 6 };
+
+// A broadcast transfer still unconfirmed after this long is settled by its receipt on the next sweep
+const UNCONFIRMED_AFTER_MS = 10 * 60 * 1000;
+
+// A pledge the platform refuses before any funds move, e.g. on a closed issue
+export class SponsorshipRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SponsorshipRejectedError';
+  }
+}
+
+export type SponsorshipOutcome = 'paid' | 'refunded' | 'waiting' | 'failed';
+
+export interface SponsorshipSettlement {
+  sponsorship: IssueSponsorship;
+  outcome: SponsorshipOutcome;
+  refundReason?: string;
+}
+
+/**
+ * Sums amounts per currency, in the order each currency first appears
+ */
+export function totalSponsorships(rows: Pick<IssueSponsorship, 'currency' | 'amount'>[]): { currency: Currency; amount: string }[] {
+  const totals = new Map<Currency, bigint>();
+  for (const row of rows) {
+    const units = ethers.parseUnits(row.amount, CURRENCY_DECIMALS[row.currency]);
+    totals.set(row.currency, (totals.get(row.currency) ?? BigInt(0)) + units);
+  }
+  return Array.from(totals, ([currency, units]) => ({
+    currency,
+    amount: ethers.formatUnits(units, CURRENCY_DECIMALS[currency]),
+  }));
+}
+
+/**
+ * Third-party sponsorship of individual issues. Pledges move from the sponsor's wallet into the
+ * escrow wallet straight away and stay there, outside the repository pool, until the issue is
+ * settled: a merged fix pays every held pledge to the contributor, while closing the issue
+ * unfixed or passing a pledge's deadline refunds it to the sponsor.
+ *
+ * Rows only leave `held` through a conditional update to `paying` or `refunding`, so a pledge is
+ * never sent twice. A transfer that fails before it is broadcast puts the row back to `held` for the
+ * sweep to retry; once broadcast, its hash is stored straight away and the row is only settled by
+ * that transaction's receipt.
+ */
+export class IssueSponsorshipService {
+  private isRunning = false;
+
+  async sponsor(params: {
+    githubRepoId: string;
+    issueNumber: number;
+    sponsorId: number;
+    currency: Currency;
+    amount: string;
+    expiresAt: Date;
+    displayName?: string | null;
+  }): Promise<IssueSponsorship> {
+    const [pending] = await db.insert(issueSponsorships).values({
+      githubRepoId: params.githubRepoId,
+      githubIssueNumber: params.issueNumber,
+      sponsorId: params.sponsorId,
+      displayName: params.displayName ?? null,
+      currency: params.currency,
+      amount: params.amount,
+      expiresAt: params.expiresAt,
+    }).returning();
+
+    let txHash = null as string | null;
+    try {
+      const receipt = await blockchain.transferToSponsorshipEscrow(params.sponsorId, params.currency, params.amount, async (hash) => {
+        txHash = hash;
+        await db.update(issueSponsorships)
+          .set({ escrowTxHash: hash, updatedAt: new Date() })
+          .where(eq(issueSponsorships.id, pending.id));
+      });
+      const [held] = await db.update(issueSponsorships)
+        .set({ status: 'held', escrowTxHash: receipt.hash, updatedAt: new Date() })
+        .where(eq(issueSponsorships.id, pending.id))
+        .returning();
+      log(`User ${params.sponsorId} sponsored issue #${params.issueNumber} in repo ${params.githubRepoId} with ${params.amount} ${params.currency} (sponsorship ${held.id})`, 'sponsorship');
+      return held;
+    } catch (error: any) {
+      if (txHash) {
+        // The funds may still reach escrow, so the pledge stays pending until the sweep checks the receipt
+        log(`Sponsorship ${pending.id} escrow transfer ${txHash} was sent but not confirmed: ${error.message}`, 'sponsorship-ERROR');
+        await db.update(issueSponsorships)
+          .set({ failureReason: error.message, updatedAt: new Date() })
+          .where(eq(issueSponsorships.id, pending.id));
+        throw new Error(`Your pledge was sent (TX ${txHash}) but is not confirmed yet. It will be added to the issue once the transaction confirms.`);
+      }
+      await db.update(issueSponsorships)
+        .set({ status: 'failed', failureReason: error.message, resolvedAt: new Date(), updatedAt: new Date() })
+        .where(eq(issueSponsorships.id, pending.id));
+      throw error;
+    }
+  }
+
+  async listHeld(githubRepoId: string, issueNumber: number): Promise<IssueSponsorship[]> {
+    return await db.query.issueSponsorships.findMany({
+      where: and(
+        eq(issueSponsorships.githubRepoId, githubRepoId),
+        eq(issueSponsorships.githubIssueNumber, issueNumber),
+        eq(issueSponsorships.status, 'held')
+      ),
+      orderBy: [issueSponsorships.createdAt],
+    });
+  }
+
+  /**
+   * Everything shown on the public issue page. Failed pledges never reached escrow and are left out.
+   */
+  async getIssueSummary(githubRepoId: string, repoFullName: string, issueNumber: number): Promise<IssueSponsorshipSummary> {
+    const rows = await db
+      .select({ sponsorship: issueSponsorships, githubUsername: users.githubUsername })
+      .from(issueSponsorships)
+      .leftJoin(users, eq(users.id, issueSponsorships.sponsorId))
+      .where(and(
+        eq(issueSponsorships.githubRepoId, githubRepoId),
+        eq(issueSponsorships.githubIssueNumber, issueNumber),
+        inArray(issueSponsorships.status, ['held', 'paying', 'paid', 'refunding', 'refunded'])
+      ))
+      .orderBy(desc(issueSponsorships.createdAt));
+
+    const sponsors: PublicIssueSponsor[] = rows.map(({ sponsorship, githubUsername }) => ({
+      id: sponsorship.id,
+      name: sponsorship.displayName || githubUsername || 'Anonymous',
+      githubUsername: githubUsername ?? null,
+      currency: sponsorship.currency,
+      amount: sponsorship.amount,
+      status: sponsorship.status,
+      expiresAt: sponsorship.expiresAt.toISOString(),
+      createdAt: sponsorship.createdAt.toISOString(),
+    }));
+
+    return {
+      githubRepoId,
+      repoFullName,
+      issueNumber,
+      sponsors,
+      totals: totalSponsorships(rows.map(row => row.sponsorship).filter(s => s.status === 'held')),
+    };
+  }
+
+  async listBySponsor(sponsorId: number): Promise<IssueSponsorship[]> {
+    return await db.query.issueSponsorships.findMany({
+      where: eq(issueSponsorships.sponsorId, sponsorId),
+      orderBy: [desc(issueSponsorships.createdAt)],
+      limit: 100,
+    });
+  }
+
+  /**
+   * Settle every held pledge on a closed issue: pay them to the contributor whose fix was merged,
+   * or refund them when there is none. Pledges already assigned to a contributor are never refunded here.
+   */
+  async settleIssue(githubRepoId: string, issueNumber: number, recipientUsername: string | null, refundReason: string): Promise<SponsorshipSettlement[]> {
+    if (recipientUsername) {
+      await db.update(issueSponsorships)
+        .set({ recipientUsername, updatedAt: new Date() })
+        .where(and(
+          eq(issueSponsorships.githubRepoId, githubRepoId),
+          eq(issueSponsorships.githubIssueNumber, issueNumber),
+          eq(issueSponsorships.status, 'held'),
+          isNull(issueSponsorships.recipientUsername)
+        ));
+    }
+
+    const settlements: SponsorshipSettlement[] = [];
+    for (const sponsorship of await this.listHeld(githubRepoId, issueNumber)) {
+      if (sponsorship.recipientUsername) {
+        settlements.push({ sponsorship, outcome: await this.payOut(sponsorship) });
+      } else {
+        settlements.push({ sponsorship, outcome: await this.refund(sponsorship, refundReason), refundReason });
+      }
+    }
+    return settlements;
+  }
+
+  /**
+   * Retries payouts to contributors and refunds pledges whose deadline has passed.
+   * A contributor who still has no Roxonn wallet at the deadline forfeits the pledge to the sponsor.
+   */
+  async processDue(): Promise<SponsorshipSettlement[]> {
+    if (this.isRunning) {
+      return [];
+    }
+    this.isRunning = true;
+    const settlements: SponsorshipSettlement[] = [];
+    try {
+      settlements.push(...await this.confirmBroadcast());
+
+      const now = new Date();
+      const assigned = await db.query.issueSponsorships.findMany({
+        where: and(eq(issueSponsorships.status, 'held'), isNotNull(issueSponsorships.recipientUsername)),
+        limit: 100,
+      });
+      for (const sponsorship of assigned) {
+        const outcome = await this.payOut(sponsorship);
+        if (outcome === 'paid') {
+          settlements.push({ sponsorship, outcome });
+        } else if (outcome === 'waiting' && sponsorship.expiresAt <= now) {
+          const refundReason = `@${sponsorship.recipientUsername} did not set up a Roxonn wallet before the deadline`;
+          if (await this.refund(sponsorship, refundReason) === 'refunded') {
+            settlements.push({ sponsorship, outcome: 'refunded', refundReason });
+          }
+        }
+      }
+
+      const expired = await db.query.issueSponsorships.findMany({
+        where: and(
+          eq(issueSponsorships.status, 'held'),
+          isNull(issueSponsorships.recipientUsername),
+          lte(issueSponsorships.expiresAt, now)
+        ),
+        limit: 100,
+      });
+      for (const sponsorship of expired) {
+        const refundReason = sponsorship.refundReason || 'The sponsorship deadline passed before the issue was fixed';
+        if (await this.refund(sponsorship, refundReason) === 'refunded') {
+          settlements.push({ sponsorship, outcome: 'refunded', refundReason });
+        }
+      }
+      return settlements;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  private async claim(id: number, status: 'paying' | 'refunding'): Promise<boolean> {
+    const claimed = await db.update(issueSponsorships)
+      .set({ status, updatedAt: new Date() })
+      .where(and(eq(issueSponsorships.id, id), eq(issueSponsorships.status, 'held')))
+      .returning({ id: issueSponsorships.id });
+    return claimed.length > 0;
+  }
+
+  private async payOut(sponsorship: IssueSponsorship): Promise<SponsorshipOutcome> {
+    const recipient = await storage.getUserByGithubUsername(sponsorship.recipientUsername!);
+    const payoutAddress = recipient ? await payoutAddressService.resolve(recipient) : null;
+    if (!payoutAddress) {
+      return 'waiting';
+    }
+    if (!await this.claim(sponsorship.id, 'paying')) {
+      return 'failed';
+    }
+
+    let txHash = null as string | null;
+    try {
+      const receipt = await blockchain.transferFromSponsorshipEscrow(sponsorship.currency, payoutAddress.address, sponsorship.amount, async (hash) => {
+        txHash = hash;
+        await db.update(issueSponsorships)
+          .set({ payoutAddress: payoutAddress.address, payoutTxHash: hash, updatedAt: new Date() })
+          .where(eq(issueSponsorships.id, sponsorship.id));
+      });
+      await db.update(issueSponsorships)
+        .set({ status: 'paid', payoutAddress: payoutAddress.address, payoutTxHash: receipt.hash, failureReason: null, resolvedAt: new Date(), updatedAt: new Date() })
+        .where(eq(issueSponsorships.id, sponsorship.id));
+      log(`Sponsorship ${sponsorship.id} paid ${sponsorship.amount} ${sponsorship.currency} to ${sponsorship.recipientUsername}. TX: ${receipt.hash}`, 'sponsorship');
+      return 'paid';
+    } catch (error: any) {
+      log(`Sponsorship ${sponsorship.id} payout failed: ${error.message}`, 'sponsorship-ERROR');
+      await this.releaseClaim(sponsorship.id, txHash, error.message);
+      return 'failed';
+    }
+  }
+
+  private async refund(sponsorship: IssueSponsorship, reason: string): Promise<SponsorshipOutcome> {
+    const sponsor = await storage.getUserById(sponsorship.sponsorId);
+    if (!sponsor?.xdcWalletAddress) {
+      log(`Sponsorship ${sponsorship.id} cannot be refunded: sponsor ${sponsorship.sponsorId} has no wallet`, 'sponsorship-ERROR');
+      return 'failed';
+    }
+    if (!await this.claim(sponsorship.id, 'refunding')) {
+      return 'failed';
+    }
+
+    let txHash = null as string | null;
+    try {
+      const receipt = await blockchain.transferFromSponsorshipEscrow(sponsorship.currency, sponsor.xdcWalletAddress, sponsorship.amount, async (hash) => {
+        txHash = hash;
+        await db.update(issueSponsorships)
+          .set({ refundReason: reason, refundTxHash: hash, updatedAt: new Date() })
+          .where(eq(issueSponsorships.id, sponsorship.id));
+      });
+      await db.update(issueSponsorships)
+        .set({ status: 'refunded', refundReason: reason, refundTxHash: receipt.hash, failureReason: null, resolvedAt: new Date(), updatedAt: new Date() })
+        .where(eq(issueSponsorships.id, sponsorship.id));
+      log(`Sponsorship ${sponsorship.id} refunded ${sponsorship.amount} ${sponsorship.currency} to user ${sponsorship.sponsorId}: ${reason}`, 'sponsorship');
+      return 'refunded';
+    } catch (error: any) {
+      log(`Sponsorship ${sponsorship.id} refund failed: ${error.message}`, 'sponsorship-ERROR');
+      // Due now, so the sweep retries the refund with the same reason
+      await this.releaseClaim(sponsorship.id, txHash, error.message, { refundReason: reason, expiresAt: new Date() });
+      return 'failed';
+    }
+  }
+
+  /**
+   * Undo a claim after a failed transfer. A transfer that was never broadcast sent nothing, so the row
+   * goes back to `held`; a broadcast one may still be mined, so the row keeps its `paying` or
+   * `refunding` status and its hash until confirmBroadcast reads the receipt.
+   */
+  private async releaseClaim(id: number, txHash: string | null, failureReason: string, extra: Partial<Pick<IssueSponsorship, 'refundReason' | 'expiresAt'>> = {}): Promise<void> {
+    if (txHash) {
+      log(`Sponsorship ${id} transfer ${txHash} was sent but not confirmed; it is settled by its receipt`, 'sponsorship-ERROR');
+      await db.update(issueSponsorships)
+        .set({ failureReason, updatedAt: new Date() })
+        .where(eq(issueSponsorships.id, id));
+      return;
+    }
+    await db.update(issueSponsorships)
+      .set({ status: 'held', failureReason, ...extra, updatedAt: new Date() })
+      .where(eq(issueSponsorships.id, id));
+  }
+
+  /**
+   * Settle transfers that were broadcast but never confirmed, by their receipt. A mined transfer
+   * completes the pledge, escrow deposit, payout or refund; a reverted or dropped one sent
+   * nothing, so the pledge goes back to where it was. Transfers not mined yet are left for the
+   * next sweep.
+   */
+  private async confirmBroadcast(): Promise<SponsorshipSettlement[]> {
+    const unconfirmed = await db.query.issueSponsorships.findMany({
+      where: and(
+        lte(issueSponsorships.updatedAt, new Date(Date.now() - UNCONFIRMED_AFTER_MS)),
+        or(
+          and(eq(issueSponsorships.status, 'pending'), isNotNull(issueSponsorships.escrowTxHash)),
+          and(eq(issueSponsorships.status, 'paying'), isNotNull(issueSponsorships.payoutTxHash)),
+          and(eq(issueSponsorships.status, 'refunding'), isNotNull(issueSponsorships.refundTxHash))
+        )
+      ),
+      limit: 100,
+    });
+
+    const settlements: SponsorshipSettlement[] = [];
+    for (const sponsorship of unconfirmed) {
+      const txHash = sponsorship.status === 'pending' ? sponsorship.escrowTxHash!
+        : sponsorship.status === 'paying' ? sponsorship.payoutTxHash! : sponsorship.refundTxHash!;
+      try {
+        // Pledges come from the sponsor's wallet; payouts and refunds from the escrow, which may rebroadcast them
+        let outcome: 'confirmed' | 'failed' | null;
+        if (sponsorship.status === 'pending') {
+          const receipt = await blockchain.getTransactionReceipt(txHash);
+          outcome = receipt ? (receipt.status === 1 ? 'confirmed' : 'failed') : null;
+        } else {
+          outcome = await blockchain.getEscrowTransferStatus(txHash);
+        }
+        if (!outcome) {
+          log(`Sponsorship ${sponsorship.id} transfer ${txHash} is still not mined`, 'sponsorship');
+          continue;
+        }
+        if (outcome === 'failed') {
+          await this.revertBroadcast(sponsorship, txHash);
+          continue;
+        }
+        const settlement = await this.completeBroadcast(sponsorship);
+        if (settlement) {
+          settlements.push(settlement);
+        }
+      } catch (error: any) {
+        log(`Failed to confirm sponsorship ${sponsorship.id} transfer ${txHash}: ${error.message}`, 'sponsorship-ERROR');
+      }
+    }
+    return settlements;
+  }
+
+  private async completeBroadcast(sponsorship: IssueSponsorship): Promise<SponsorshipSettlement | null> {
+    const status = sponsorship.status === 'pending' ? 'held' : sponsorship.status === 'paying' ? 'paid' : 'refunded';
+    const [settled] = await db.update(issueSponsorships)
+      .set({
+        status,
+        failureReason: null,
+        ...(status === 'held' ? {} : { resolvedAt: new Date() }),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(issueSponsorships.id, sponsorship.id), eq(issueSponsorships.status, sponsorship.status)))
+      .returning();
+    if (!settled) {
+      return null;
+    }
+    log(`Sponsorship ${sponsorship.id} confirmed as ${status} from its receipt`, 'sponsorship');
+    if (status === 'paid') {
+      return { sponsorship: settled, outcome: 'paid' };
+    }
+    if (status === 'refunded') {
+      return { sponsorship: settled, outcome: 'refunded', refundReason: settled.refundReason ?? undefined };
+    }
+    return null;
+  }
+
+  private async revertBroadcast(sponsorship: IssueSponsorship, txHash: string): Promise<void> {
+    const failureReason = `Transfer ${txHash} reverted or was dropped`;
+    const reverted = sponsorship.status === 'pending'
+      ? { status: 'failed' as const, failureReason, resolvedAt: new Date() }
+      : sponsorship.status === 'paying'
+        ? { status: 'held' as const, failureReason, payoutTxHash: null }
+        // Due now, so the sweep retries the refund with the reason stored when it was sent
+        : { status: 'held' as const, failureReason, refundTxHash: null, expiresAt: new Date() };
+    await db.update(issueSponsorships)
+      .set({ ...reverted, updatedAt: new Date() })
+      .where(and(eq(issueSponsorships.id, sponsorship.id), eq(issueSponsorships.status, sponsorship.status)));
+    log(`Sponsorship ${sponsorship.id} transfer ${txHash} failed; moved back to ${reverted.status}`, 'sponsorship-ERROR');
+  }
+}
+
+export const issueSponsorshipService = new IssueSponsorshipService();
@@ -0,0 +1,260 @@
+import { db } from '../db';
+import {
+  limitOverrides,
+  limitUsage,
+  limitDecisions,
+  type LimitScope,
+  type LimitValues,
+  type LimitOverride,
+  type LimitDecision
+} from '../../shared/schema';
+import { eq, and, gt, desc, sql, type SQL } from 'drizzle-orm';
+import { ethers } from 'ethers';
+import { log } from '../utils';
+
+export type LimitCurrency = 'XDC' | 'ROXN' | 'USDC';
+
+export const LIMIT_CURRENCIES: LimitCurrency[] = ['XDC', 'ROXN', 'USDC'];
+
+// Defaults before any admin override. XDC keeps the original 1000/day cap for both scopes.
+export const DEFAULT_LIMITS: Record<LimitScope, Record<LimitCurrency, LimitValues>> = {
+  transfer: {
+    XDC: { daily: '1000', weekly: '5000', perTransaction: '1000' },
+    ROXN: { daily: '100000', weekly: '500000', perTransaction: '50000' },
+    USDC: { daily: '5000', weekly: '20000', perTransaction: '5000' },
+  },
+  repo_funding: {
+    XDC: { daily: '1000', weekly: '5000', perTransaction: '1000' },
+    ROXN: { daily: '100000', weekly: '500000', perTransaction: '100000' },
+    USDC: { daily: '10000', weekly: '50000', perTransaction: '10000' },
+  },
+};
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+const WEEK_IN_MS = 7 * DAY_IN_MS;
+
+// Window sums are compared as 18-decimal fixed point, whatever the token's own decimals
+const toUnits = (amount: string) => ethers.parseUnits(amount, 18);
+const fromUnits = (units: bigint) => ethers.formatUnits(units, 18);
+
+export interface LimitStatus {
+  currency: LimitCurrency;
+  limits: LimitValues;
+  dailyUsed: string;
+  weeklyUsed: string;
+  dailyRemaining: string;
+  weeklyRemaining: string;
+  dailyResetAt: Date | null; // When the oldest amount in the window stops counting
+  weeklyResetAt: Date | null;
+}
+
+export interface LimitCheckResult {
+  allowed: boolean;
+  reason?: string;
+  status: LimitStatus;
+  usageId?: number; // Reservation to release if the transaction fails
+}
+
+type Executor = Pick<typeof db, 'select'>;
+
+export class LimitsService {
+
+  async getEffectiveLimits(scope: LimitScope, subjectId: string, currency: LimitCurrency): Promise<LimitValues> {
+    const override = await db.query.limitOverrides.findFirst({
+      where: and(
+        eq(limitOverrides.scope, scope),
+        eq(limitOverrides.subjectId, subjectId),
+        eq(limitOverrides.currency, currency)
+      )
+    });
+    const defaults = DEFAULT_LIMITS[scope][currency];
+    return {
+      daily: override?.dailyLimit ?? defaults.daily,
+      weekly: override?.weeklyLimit ?? defaults.weekly,
+      perTransaction: override?.perTransactionLimit ?? defaults.perTransaction,
+    };
+  }
+
+  async getStatus(scope: LimitScope, subjectId: string, currency: LimitCurrency): Promise<LimitStatus> {
+    const limits = await this.getEffectiveLimits(scope, subjectId, currency);
+    return await this.buildStatus(db, scope, subjectId, currency, limits);
+  }
+
+  async getAllStatuses(scope: LimitScope, subjectId: string): Promise<LimitStatus[]> {
+    return await Promise.all(LIMIT_CURRENCIES.map(currency => this.getStatus(scope, subjectId, currency)));
+  }
+
+  /**
+   * Check an amount against the per-transaction, daily and weekly caps and, if it fits, count it
+   * against the windows straight away. The check and the reservation run under an advisory lock
+   * per subject and currency, so concurrent requests on other instances cannot both squeeze under a cap.
+   * Every decision is written to the audit log.
+   */
+  async reserve(params: {
+    scope: LimitScope;
+    subjectId: string;
+    currency: LimitCurrency;
+    amount: string;
+    userId?: number;
+  }): Promise<LimitCheckResult> {
+    const { scope, subjectId, currency, amount, userId } = params;
+    const limits = await this.getEffectiveLimits(scope, subjectId, currency);
+    const amountUnits = toUnits(amount);
+
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`limits:${scope}:${subjectId}:${currency}`}))`);
+
+      const status = await this.buildStatus(tx, scope, subjectId, currency, limits);
+
+      let reason: string | undefined;
+      if (amountUnits > toUnits(limits.perTransaction)) {
+        reason = `Exceeds the per-transaction limit of ${limits.perTransaction} ${currency}`;
+      } else if (amountUnits > toUnits(status.dailyRemaining)) {
+        reason = `Exceeds the daily limit. Remaining today: ${status.dailyRemaining} ${currency}`;
+      } else if (amountUnits > toUnits(status.weeklyRemaining)) {
+        reason = `Exceeds the weekly limit. Remaining this week: ${status.weeklyRemaining} ${currency}`;
+      }
+
+      await tx.insert(limitDecisions).values({
+        scope,
+        subjectId,
+        currency,
+        amount,
+        allowed: !reason,
+        reason: reason || null,
+        limits,
+        dailyUsed: status.dailyUsed,
+        weeklyUsed: status.weeklyUsed,
+        userId: userId || null,
+      });
+
+      if (reason) {
+        log(`Rejected ${amount} ${currency} (${scope} ${subjectId}): ${reason}`, 'limits');
+        return { allowed: false, reason, status };
+      }
+
+      const [usage] = await tx.insert(limitUsage).values({
+        scope,
+        subjectId,
+        currency,
+        amount,
+        userId: userId || null,
+      }).returning({ id: limitUsage.id });
+
+      return { allowed: true, status, usageId: usage.id };
+    });
+  }
+
+  /**
+   * Give back a reservation whose transaction never went through
+   */
+  async release(usageId: number): Promise<void> {
+    await db.delete(limitUsage).where(eq(limitUsage.id, usageId));
+    log(`Released limit reservation ${usageId}`, 'limits');
+  }
+
+  async recordTransactionHash(usageId: number, transactionHash: string): Promise<void> {
+    await db.update(limitUsage).set({ transactionHash }).where(eq(limitUsage.id, usageId));
+  }
+
+  async listOverrides(scope?: LimitScope, subjectId?: string): Promise<LimitOverride[]> {
+    const conditions: SQL[] = [];
+    if (scope) conditions.push(eq(limitOverrides.scope, scope));
+    if (subjectId) conditions.push(eq(limitOverrides.subjectId, subjectId));
+    return await db.query.limitOverrides.findMany({
+      where: conditions.length > 0 ? and(...conditions) : undefined,
+      orderBy: [desc(limitOverrides.updatedAt)],
+    });
+  }
+
+  async setOverride(params: {
+    scope: LimitScope;
+    subjectId: string;
+    currency: LimitCurrency;
+    dailyLimit: string | null;
+    weeklyLimit: string | null;
+    perTransactionLimit: string | null;
+    reason?: string;
+    setBy: number;
+  }): Promise<LimitOverride> {
+    const { scope, subjectId, currency, ...values } = params;
+    const [override] = await db.insert(limitOverrides)
+      .values({ scope, subjectId, currency, ...values, reason: values.reason || null })
+      .onConflictDoUpdate({
+        target: [limitOverrides.scope, limitOverrides.subjectId, limitOverrides.currency],
+        set: { ...values, reason: values.reason || null, updatedAt: new Date() },
+      })
+      .returning();
+
+    log(`Limit override for ${scope} ${subjectId} ${currency} set by user ${params.setBy}: ` +
+        `daily=${values.dailyLimit ?? 'default'} weekly=${values.weeklyLimit ?? 'default'} perTx=${values.perTransactionLimit ?? 'default'}`, 'limits');
+    return override;
+  }
+
+  async removeOverride(id: number): Promise<LimitOverride | null> {
+    const [removed] = await db.delete(limitOverrides).where(eq(limitOverrides.id, id)).returning();
+    if (removed) {
+      log(`Limit override ${id} (${removed.scope} ${removed.subjectId} ${removed.currency}) removed`, 'limits');
+    }
+    return removed || null;
+  }
+
+  async listDecisions(filters: { scope?: LimitScope; subjectId?: string; allowed?: boolean }, limit: number = 100): Promise<LimitDecision[]> {
+    const conditions: SQL[] = [];
+    if (filters.scope) conditions.push(eq(limitDecisions.scope, filters.scope));
+    if (filters.subjectId) conditions.push(eq(limitDecisions.subjectId, filters.subjectId));
+    if (filters.allowed !== undefined) conditions.push(eq(limitDecisions.allowed, filters.allowed));
+    return await db.query.limitDecisions.findMany({
+      where: conditions.length > 0 ? and(...conditions) : undefined,
+      orderBy: [desc(limitDecisions.createdAt)],
+      limit,
+    });
+  }
+
+  private async buildStatus(
+    executor: Executor,
+    scope: LimitScope,
+    subjectId: string,
+    currency: LimitCurrency,
+    limits: LimitValues
+  ): Promise<LimitStatus> {
+    const now = Date.now();
+    const dayStart = new Date(now - DAY_IN_MS);
+    const weekStart = new Date(now - WEEK_IN_MS);
+
+    const [usage] = await executor
+      .select({
+        dailyUsed: sql<string | null>`SUM(${limitUsage.amount}) FILTER (WHERE ${limitUsage.createdAt} > ${dayStart})`,
+        weeklyUsed: sql<string | null>`SUM(${limitUsage.amount})`,
+        oldestToday: sql<Date | null>`MIN(${limitUsage.createdAt}) FILTER (WHERE ${limitUsage.createdAt} > ${dayStart})`,
+        oldestThisWeek: sql<Date | null>`MIN(${limitUsage.createdAt})`,
+      })
+      .from(limitUsage)
+      .where(and(
+        eq(limitUsage.scope, scope),
+        eq(limitUsage.subjectId, subjectId),
+        eq(limitUsage.currency, currency),
+        gt(limitUsage.createdAt, weekStart)
+      ));
+
+    const dailyUsed = toUnits(usage?.dailyUsed ?? '0');
+    const weeklyUsed = toUnits(usage?.weeklyUsed ?? '0');
+    const remaining = (cap: string, used: bigint) => {
+      const left = toUnits(cap) - used;
+      return fromUnits(left > BigInt(0) ? left : BigInt(0));
+    };
+
+    return {
+      currency,
+      limits,
+      dailyUsed: fromUnits(dailyUsed),
+      weeklyUsed: fromUnits(weeklyUsed),
+      dailyRemaining: remaining(limits.daily, dailyUsed),
+      weeklyRemaining: remaining(limits.weekly, weeklyUsed),
+      dailyResetAt: usage?.oldestToday ? new Date(new Date(usage.oldestToday).getTime() + DAY_IN_MS) : null,
+      weeklyResetAt: usage?.oldestThisWeek ? new Date(new Date(usage.oldestThisWeek).getTime() + WEEK_IN_MS) : null,
+    };
+  }
+}
+
+export const limitsService = new LimitsService();
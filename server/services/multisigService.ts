@@ -0,0 +1,310 @@
+import { ethers } from 'ethers';
+import { db } from '../db';
+import {
+  multisigPolicies,
+  multisigProposals,
+  multisigApprovals,
+  type MultisigPolicy,
+  type MultisigProposal,
+  type MultisigApproval,
+  type MultisigAction,
+  type MultisigAmount,
+  type MultisigProposalPayload,
+  type BountyAllocationCaps
+} from '../../shared/schema';
+import { eq, and, desc, inArray, sql } from 'drizzle-orm';
+import { storage } from '../storage';
+import { log } from '../utils';
+
+type Voter = { id: number; githubUsername: string };
+
+export interface MultisigProposalView extends MultisigProposal {
+  approvals: MultisigApproval[];
+  approvalCount: number;
+  rejectionCount: number;
+}
+
+export type ProposeResult = { proposal: MultisigProposal; quorumReached: boolean };
+
+export type VoteResult =
+  | { success: true; proposal: MultisigProposal; quorumReached: boolean }
+  | { success: false; error: 'not_found' | 'not_open' | 'not_pool_manager' | 'already_voted' };
+
+// A policy whose quorum the repository's pool managers cannot reach, e.g. 3 approvals with 2 managers
+export class MultisigPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MultisigPolicyError';
+  }
+}
+
+function decimalsOf(currency: MultisigAmount['currency']): number {
+  return currency === 'USDC' ? 6 : 18;
+}
+
+/**
+ * N-of-M approval for large bounty allocations and distributions. Approvers are the repository's
+ * on-chain pool managers. This service only keeps the proposals and votes; executing an approved
+ * proposal is done by the bounty code in github.ts.
+ */
+export class MultisigService {
+
+  async getPolicy(githubRepoId: string): Promise<MultisigPolicy | null> {
+    const policy = await db.query.multisigPolicies.findFirst({ where: eq(multisigPolicies.githubRepoId, githubRepoId) });
+    return policy || null;
+  }
+
+  /**
+   * Save the repository's policy. Throws MultisigPolicyError if it is enabled with more required
+   * approvals than the repository has pool managers.
+   */
+  async setPolicy(
+    githubRepoId: string,
+    policy: { requiredApprovals: number; thresholds: BountyAllocationCaps; enabled: boolean },
+    updatedBy: number
+  ): Promise<MultisigPolicy> {
+    if (policy.enabled) {
+      const poolManagers = await storage.getRepositoryPoolManagers(parseInt(githubRepoId));
+      this.assertReachable(policy.requiredApprovals, poolManagers.length);
+    }
+
+    const [saved] = await db.insert(multisigPolicies)
+      .values({ githubRepoId, ...policy, updatedBy })
+      .onConflictDoUpdate({
+        target: multisigPolicies.githubRepoId,
+        set: { ...policy, updatedBy, updatedAt: new Date() },
+      })
+      .returning();
+    log(`Multisig policy for repo ${githubRepoId} set by user ${updatedBy}: ${policy.enabled ? `${policy.requiredApprovals} approvals at ${JSON.stringify(policy.thresholds)}` : 'disabled'}`, 'multisig');
+    return saved;
+  }
+
+  private assertReachable(requiredApprovals: number, poolManagerCount: number) {
+    if (requiredApprovals > poolManagerCount) {
+      throw new MultisigPolicyError(`The approval policy needs ${requiredApprovals} approvals, but the repository has ${poolManagerCount} pool manager${poolManagerCount === 1 ? '' : 's'}. Add pool managers or lower the required approvals.`);
+    }
+  }
+
+  /**
+   * The repository's policy if any of these amounts reaches its currency's threshold, else null
+   */
+  async needsApproval(githubRepoId: string, amounts: MultisigAmount[]): Promise<MultisigPolicy | null> {
+    const policy = await this.getPolicy(githubRepoId);
+    if (!policy || !policy.enabled) {
+      return null;
+    }
+    const overThreshold = amounts.some(({ amount, currency }) => {
+      const threshold = policy.thresholds[currency];
+      return !!threshold && ethers.parseUnits(amount, decimalsOf(currency)) >= ethers.parseUnits(threshold, decimalsOf(currency));
+    });
+    return overThreshold ? policy : null;
+  }
+
+  async isApprover(githubRepoId: string, githubUsername: string): Promise<boolean> {
+    const poolManagers = await storage.getRepositoryPoolManagers(parseInt(githubRepoId));
+    return poolManagers.some(manager => manager.githubUsername?.toLowerCase() === githubUsername.toLowerCase());
+  }
+
+  /**
+   * Hold an action for approval. The quorum is the policy's count; if pool managers were removed
+   * since the policy was set and it can no longer be reached, throws MultisigPolicyError rather than
+   * lowering it. A proposer who is a pool manager approves by proposing. Returns null if the issue
+   * already has an open proposal for this action.
+   */
+  async propose(params: {
+    githubRepoId: string;
+    issueNumber: number;
+    action: MultisigAction;
+    amounts: MultisigAmount[];
+    payload?: MultisigProposalPayload;
+    source: MultisigProposal['source'];
+    proposer: Voter | null;
+    signerId: number;
+    policy: MultisigPolicy;
+  }): Promise<ProposeResult | null> {
+    const { githubRepoId, issueNumber, action, amounts, payload = {}, source, proposer, signerId, policy } = params;
+    const poolManagers = await storage.getRepositoryPoolManagers(parseInt(githubRepoId));
+    this.assertReachable(policy.requiredApprovals, poolManagers.length);
+    const requiredApprovals = policy.requiredApprovals;
+
+    const [proposal] = await db.insert(multisigProposals).values({
+      githubRepoId,
+      issueNumber,
+      action,
+      amounts,
+      payload,
+      source,
+      proposedBy: proposer?.id ?? null,
+      proposedByUsername: proposer?.githubUsername ?? null,
+      signerId,
+      requiredApprovals,
+    }).onConflictDoNothing().returning();
+    if (!proposal) {
+      return null;
+    }
+    log(`Multisig proposal ${proposal.id}: ${action} ${amounts.map(a => `${a.amount} ${a.currency}`).join(' + ')} on ${githubRepoId}#${issueNumber}, needs ${requiredApprovals} of ${poolManagers.length}`, 'multisig');
+
+    if (proposer && poolManagers.some(manager => manager.githubUsername?.toLowerCase() === proposer.githubUsername.toLowerCase())) {
+      const vote = await this.vote(proposal.id, githubRepoId, proposer, 'approve', 'Proposed');
+      if (vote.success) {
+        return { proposal: vote.proposal, quorumReached: vote.quorumReached };
+      }
+    }
+    return { proposal, quorumReached: false };
+  }
+
+  /**
+   * Record a pool manager's approval or rejection. Reaching the quorum moves the proposal to
+   * approved exactly once, so only one caller is told to execute it. It is rejected as soon as
+   * enough managers have said no that the quorum can no longer be reached.
+   */
+  async vote(
+    proposalId: number,
+    githubRepoId: string,
+    voter: Voter,
+    decision: MultisigApproval['decision'],
+    note?: string
+  ): Promise<VoteResult> {
+    const poolManagers = await storage.getRepositoryPoolManagers(parseInt(githubRepoId));
+    if (!poolManagers.some(manager => manager.githubUsername?.toLowerCase() === voter.githubUsername.toLowerCase())) {
+      return { success: false, error: 'not_pool_manager' };
+    }
+
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`multisig:${proposalId}`}))`);
+
+      const proposal = await tx.query.multisigProposals.findFirst({
+        where: and(eq(multisigProposals.id, proposalId), eq(multisigProposals.githubRepoId, githubRepoId)),
+      });
+      if (!proposal) {
+        return { success: false, error: 'not_found' } as const;
+      }
+      if (proposal.status !== 'pending') {
+        return { success: false, error: 'not_open' } as const;
+      }
+
+      const [recorded] = await tx.insert(multisigApprovals).values({
+        proposalId,
+        userId: voter.id,
+        githubUsername: voter.githubUsername,
+        decision,
+        note: note || null,
+      }).onConflictDoNothing().returning();
+      if (!recorded) {
+        return { success: false, error: 'already_voted' } as const;
+      }
+
+      const votes = await tx.query.multisigApprovals.findMany({ where: eq(multisigApprovals.proposalId, proposalId) });
+      const approvals = votes.filter(v => v.decision === 'approve').length;
+      const rejections = votes.length - approvals;
+      log(`User ${voter.githubUsername} voted ${decision} on multisig proposal ${proposalId} (${approvals}/${proposal.requiredApprovals})`, 'multisig');
+
+      if (approvals >= proposal.requiredApprovals) {
+        const [approved] = await tx.update(multisigProposals)
+          .set({ status: 'approved', approvedAt: new Date() })
+          .where(eq(multisigProposals.id, proposalId))
+          .returning();
+        return { success: true, proposal: approved, quorumReached: true } as const;
+      }
+
+      if (rejections > poolManagers.length - proposal.requiredApprovals) {
+        const [rejected] = await tx.update(multisigProposals)
+          .set({ status: 'rejected', resolvedAt: new Date() })
+          .where(eq(multisigProposals.id, proposalId))
+          .returning();
+        log(`Multisig proposal ${proposalId} rejected`, 'multisig');
+        return { success: true, proposal: rejected, quorumReached: false } as const;
+      }
+
+      return { success: true, proposal, quorumReached: false } as const;
+    });
+  }
+
+  /**
+   * Withdraw a proposal that is still collecting approvals
+   */
+  async cancel(proposalId: number, githubRepoId: string): Promise<MultisigProposal | null> {
+    const [cancelled] = await db.update(multisigProposals)
+      .set({ status: 'cancelled', resolvedAt: new Date() })
+      .where(and(
+        eq(multisigProposals.id, proposalId),
+        eq(multisigProposals.githubRepoId, githubRepoId),
+        eq(multisigProposals.status, 'pending')
+      ))
+      .returning();
+    return cancelled || null;
+  }
+
+  /**
+   * Whether the issue has a proposal for this action still waiting for votes or approved and not yet executed
+   */
+  async hasOpenProposal(githubRepoId: string, issueNumber: number, action: MultisigAction): Promise<boolean> {
+    const proposal = await db.query.multisigProposals.findFirst({
+      where: and(
+        eq(multisigProposals.githubRepoId, githubRepoId),
+        eq(multisigProposals.issueNumber, issueNumber),
+        eq(multisigProposals.action, action),
+        inArray(multisigProposals.status, ['pending', 'approved'])
+      )
+    });
+    return !!proposal;
+  }
+
+  async markExecuted(proposalId: number, transactionHash: string | null): Promise<void> {
+    await db.update(multisigProposals)
+      .set({ status: 'executed', transactionHash, resolvedAt: new Date() })
+      .where(eq(multisigProposals.id, proposalId));
+    log(`Multisig proposal ${proposalId} executed. TX: ${transactionHash || 'N/A'}`, 'multisig');
+  }
+
+  async markFailed(proposalId: number, error: string): Promise<void> {
+    await db.update(multisigProposals)
+      .set({ status: 'failed', error: error.substring(0, 1000), resolvedAt: new Date() })
+      .where(eq(multisigProposals.id, proposalId));
+    log(`Multisig proposal ${proposalId} failed: ${error}`, 'multisig-ERROR');
+  }
+
+  async getProposal(proposalId: number, githubRepoId: string): Promise<MultisigProposal | null> {
+    const proposal = await db.query.multisigProposals.findFirst({
+      where: and(eq(multisigProposals.id, proposalId), eq(multisigProposals.githubRepoId, githubRepoId)),
+    });
+    return proposal || null;
+  }
+
+  async listVotes(proposalId: number): Promise<MultisigApproval[]> {
+    return await db.query.multisigApprovals.findMany({
+      where: eq(multisigApprovals.proposalId, proposalId),
+      orderBy: [multisigApprovals.createdAt],
+    });
+  }
+
+  /**
+   * A repository's proposals, newest first, each with its votes in the order they were cast
+   */
+  async listProposals(githubRepoId: string, limit: number = 50): Promise<MultisigProposalView[]> {
+    const proposals = await db.query.multisigProposals.findMany({
+      where: eq(multisigProposals.githubRepoId, githubRepoId),
+      orderBy: [desc(multisigProposals.createdAt)],
+      limit,
+    });
+    if (proposals.length === 0) {
+      return [];
+    }
+
+    const votes = await db.query.multisigApprovals.findMany({
+      where: inArray(multisigApprovals.proposalId, proposals.map(p => p.id)),
+      orderBy: [multisigApprovals.createdAt],
+    });
+    return proposals.map(proposal => {
+      const approvals = votes.filter(v => v.proposalId === proposal.id);
+      return {
+        ...proposal,
+        approvals,
+        approvalCount: approvals.filter(v => v.decision === 'approve').length,
+        rejectionCount: approvals.filter(v => v.decision === 'reject').length,
+      };
+    });
+  }
+}
+
+export const multisigService = new MultisigService();
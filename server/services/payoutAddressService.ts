@@ -0,0 +1,170 @@
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import { db } from '../db';
+import {
+  linkedWallets,
+  walletLinkChallenges,
+  type LinkedWallet
+} from '../../shared/schema';
+import { eq, and, gt, isNull, sql } from 'drizzle-orm';
+import { config } from '../config';
+import { log } from '../utils';
+
+const XDC_CHAIN_ID = 50;
+const CHALLENGE_TTL_MS = 10 * 60 * 1000;
+
+type PayoutUser = { id: number; xdcWalletAddress: string | null };
+
+export interface PayoutAddress {
+  address: string;
+  source: 'linked' | 'custodial';
+}
+
+export type LinkWalletResult =
+  | { success: true; wallet: LinkedWallet }
+  | { success: false; error: 'invalid_challenge' | 'bad_signature' | 'address_in_use' };
+
+function toChecksumAddress(address: string): string {
+  return ethers.getAddress(address.replace(/^xdc/i, '0x'));
+}
+
+/**
+ * Builds the EIP-4361 (Sign-In with Ethereum) message a user signs to prove they control a wallet
+ */
+function buildChallengeMessage(address: string, nonce: string, issuedAt: Date, expiresAt: Date): string {
+  const uri = new URL(config.frontendUrl);
+  return [
+    `${uri.host} wants you to sign in with your Ethereum account:`,
+    address,
+    '',
+    'Link this wallet to your Roxonn account to receive bounty payouts directly. This does not allow Roxonn to move your funds.',
+    '',
+    `URI: ${uri.origin}`,
+    'Version: 1',
+    `Chain ID: ${XDC_CHAIN_ID}`,
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt.toISOString()}`,
+    `Expiration Time: ${expiresAt.toISOString()}`,
+  ].join('\n');
+}
+
+export class PayoutAddressService {
+
+  /**
+   * Where a user's bounties should be paid: their linked self-custody wallet if they have one,
+   * otherwise the custodial wallet. Null when the user has neither.
+   */
+  async resolve(user: PayoutUser): Promise<PayoutAddress | null> {
+    const linked = await this.getLinkedWallet(user.id);
+    if (linked) {
+      return { address: linked.address, source: 'linked' };
+    }
+    return user.xdcWalletAddress ? { address: user.xdcWalletAddress, source: 'custodial' } : null;
+  }
+
+  /**
+   * Every address this user has been paid at, current and past, for earnings lookups
+   */
+  async getKnownAddresses(user: PayoutUser): Promise<string[]> {
+    const wallets = await db.query.linkedWallets.findMany({
+      where: eq(linkedWallets.userId, user.id),
+      columns: { address: true },
+    });
+    const addresses = wallets.map(wallet => wallet.address);
+    if (user.xdcWalletAddress) addresses.push(user.xdcWalletAddress);
+    return Array.from(new Set(addresses));
+  }
+
+  async getLinkedWallet(userId: number): Promise<LinkedWallet | null> {
+    const wallet = await db.query.linkedWallets.findFirst({
+      where: and(eq(linkedWallets.userId, userId), isNull(linkedWallets.unlinkedAt)),
+    });
+    return wallet || null;
+  }
+
+  /**
+   * Issue a single-use message for the user to sign with the wallet they want to link
+   */
+  async createChallenge(userId: number, address: string): Promise<{ nonce: string; message: string; expiresAt: Date }> {
+    const checksummed = toChecksumAddress(address);
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + CHALLENGE_TTL_MS);
+    const message = buildChallengeMessage(checksummed, nonce, issuedAt, expiresAt);
+
+    await db.insert(walletLinkChallenges).values({ userId, address: checksummed, nonce, message, expiresAt });
+    return { nonce, message, expiresAt };
+  }
+
+  /**
+   * Verify the signed challenge and make its address the user's payout wallet, replacing any
+   * earlier link. The challenge is spent whether or not the signature checks out.
+   */
+  async link(userId: number, nonce: string, signature: string): Promise<LinkWalletResult> {
+    const [challenge] = await db.update(walletLinkChallenges)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(walletLinkChallenges.nonce, nonce),
+        eq(walletLinkChallenges.userId, userId),
+        isNull(walletLinkChallenges.usedAt),
+        gt(walletLinkChallenges.expiresAt, new Date())
+      ))
+      .returning();
+    if (!challenge) {
+      return { success: false, error: 'invalid_challenge' };
+    }
+
+    let signer: string;
+    try {
+      signer = ethers.verifyMessage(challenge.message, signature);
+    } catch (error) {
+      return { success: false, error: 'bad_signature' };
+    }
+    if (signer !== challenge.address) {
+      log(`Wallet link signature for user ${userId} recovered ${signer}, expected ${challenge.address}`, 'payout-address');
+      return { success: false, error: 'bad_signature' };
+    }
+
+    const takenBy = await db.query.linkedWallets.findFirst({
+      where: and(
+        sql`LOWER(${linkedWallets.address}) = ${challenge.address.toLowerCase()}`,
+        isNull(linkedWallets.unlinkedAt)
+      ),
+    });
+    if (takenBy && takenBy.userId !== userId) {
+      return { success: false, error: 'address_in_use' };
+    }
+
+    const wallet = await db.transaction(async (tx) => {
+      await tx.update(linkedWallets)
+        .set({ unlinkedAt: new Date() })
+        .where(and(eq(linkedWallets.userId, userId), isNull(linkedWallets.unlinkedAt)));
+      const [created] = await tx.insert(linkedWallets).values({
+        userId,
+        address: challenge.address,
+        signature,
+        message: challenge.message,
+      }).returning();
+      return created;
+    });
+
+    log(`User ${userId} linked payout wallet ${wallet.address}`, 'payout-address');
+    return { success: true, wallet };
+  }
+
+  /**
+   * Go back to the custodial wallet for payouts
+   */
+  async unlink(userId: number): Promise<LinkedWallet | null> {
+    const [wallet] = await db.update(linkedWallets)
+      .set({ unlinkedAt: new Date() })
+      .where(and(eq(linkedWallets.userId, userId), isNull(linkedWallets.unlinkedAt)))
+      .returning();
+    if (wallet) {
+      log(`User ${userId} unlinked payout wallet ${wallet.address}`, 'payout-address');
+    }
+    return wallet || null;
+  }
+}
+
+export const payoutAddressService = new PayoutAddressService();
@@ -0,0 +1,357 @@
+import { db } from '../db';
+import {
+  payoutLedger,
+  chainRewardEvents,
+  registeredRepositories,
+  type PayoutLedgerEntry,
+  type PayoutLedgerRecipient
+} from '../../shared/schema';
+import { eq, and, or, desc, gte, lte, inArray, notInArray, sql } from 'drizzle-orm';
+import { ethers } from 'ethers';
+import { blockchain } from '../blockchain';
+import { log } from '../utils';
+
+// Unconfirmed entries untouched for this long are settled from the chain by the sweep
+const STALE_PAYOUT_MS = 15 * 60 * 1000;
+
+type PayoutStatus = PayoutLedgerEntry['status'];
+
+export interface ContributorEarning {
+  id: number;
+  githubRepoId: string;
+  repoFullName: string | null;
+  issueNumber: number;
+  currency: 'XDC' | 'ROXN' | 'USDC';
+  amount: string; // The contributor's gross share
+  shareBps: number;
+  extraAmounts: NonNullable<PayoutLedgerRecipient['extraAmounts']>; // Shares paid in other currencies with the same payout
+  transactionHash: string | null;
+  paidAt: Date | null;
+}
+
+export class PayoutLedgerService {
+
+  /**
+   * Reserve the payout for an issue's current allocation before anything is sent on-chain.
+   * Returns the ledger entry to pay against, or null if this allocation is already being paid or has been paid.
+   * Failed entries are reused, so a retry of a failed payout goes through.
+   */
+  async reserve(params: {
+    githubRepoId: string;
+    issueNumber: number;
+    currency: 'XDC' | 'ROXN' | 'USDC';
+    amount: string;
+    recipients: PayoutLedgerRecipient[];
+    source: string;
+  }): Promise<PayoutLedgerEntry | null> {
+    const { githubRepoId, issueNumber, currency, amount, recipients, source } = params;
+
+    // Every confirmed payout ended an earlier allocation, so this one comes after them
+    const [{ confirmed }] = await db
+      .select({ confirmed: sql<number>`count(*)::int` })
+      .from(payoutLedger)
+      .where(and(
+        eq(payoutLedger.githubRepoId, githubRepoId),
+        eq(payoutLedger.githubIssueNumber, issueNumber),
+        eq(payoutLedger.status, 'confirmed')
+      ));
+    const allocationSeq = confirmed + 1;
+
+    const [inserted] = await db.insert(payoutLedger)
+      .values({ githubRepoId, githubIssueNumber: issueNumber, allocationSeq, currency, amount, recipients, source })
+      .onConflictDoNothing({ target: [payoutLedger.githubRepoId, payoutLedger.githubIssueNumber, payoutLedger.allocationSeq] })
+      .returning();
+
+    if (inserted) {
+      return inserted;
+    }
+
+    // Only a failed payout may be retried; the conditional update keeps concurrent retries from both winning
+    const [retried] = await db.update(payoutLedger)
+      .set({
+        status: 'pending',
+        currency,
+        amount,
+        recipients,
+        source,
+        lastError: null,
+        attempts: sql`${payoutLedger.attempts} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(payoutLedger.githubRepoId, githubRepoId),
+        eq(payoutLedger.githubIssueNumber, issueNumber),
+        eq(payoutLedger.allocationSeq, allocationSeq),
+        eq(payoutLedger.status, 'failed')
+      ))
+      .returning();
+
+    if (!retried) {
+      log(`Payout for issue #${issueNumber} in repo ${githubRepoId} (allocation ${allocationSeq}) is already in progress or paid. Skipping.`, 'payout-ledger');
+      return null;
+    }
+    return retried;
+  }
+
+  /**
+   * Reserve a payout, run the on-chain send and record the outcome.
+   * Returns null without sending if the issue is already being paid or has been paid.
+   * `send` must pass the transaction hash to `onBroadcast` as soon as it is sent. A payout that
+   * fails after that point is only marked failed if the chain shows it did not go through;
+   * otherwise it stays submitted for the sweep to settle, so it is never sent twice.
+   */
+  async runPayout(
+    params: Parameters<PayoutLedgerService['reserve']>[0],
+    send: (onBroadcast: (txHash: string) => Promise<void>) => Promise<ethers.TransactionReceipt | null>
+  ): Promise<{ entry: PayoutLedgerEntry; receipt: ethers.TransactionReceipt | null } | null> {
+    const entry = await this.reserve(params);
+    if (!entry) {
+      return null;
+    }
+
+    let transactionHash: string | null = null;
+    let receipt: ethers.TransactionReceipt | null;
+    try {
+      await this.markSubmitted(entry.id);
+      receipt = await send(async (txHash) => {
+        transactionHash = txHash;
+        await this.recordTransactionHash(entry.id, txHash);
+      });
+    } catch (error: any) {
+      if (!transactionHash) {
+        await this.markFailed(entry.id, error.message);
+        throw error;
+      }
+      const settled = await this.settleFromChain({ ...entry, status: 'submitted', transactionHash })
+        .catch((settleError: any) => {
+          log(`Could not check payout ${transactionHash} after it failed: ${settleError.message}`, 'payout-ledger');
+          return null;
+        });
+      if (settled === 'failed') {
+        throw error;
+      }
+      if (settled !== 'confirmed') {
+        await db.update(payoutLedger)
+          .set({ lastError: error.message, updatedAt: new Date() })
+          .where(eq(payoutLedger.id, entry.id));
+        throw new Error(`Payout was sent (TX ${transactionHash}) but is not confirmed yet: ${error.message}`);
+      }
+      receipt = await blockchain.getTransactionReceipt(transactionHash);
+      return { entry, receipt };
+    }
+
+    await this.markConfirmed(entry.id, receipt?.hash || null, receipt ? receipt.gasUsed.toString() : null);
+    return { entry, receipt };
+  }
+
+  /**
+   * Settle entries that stopped reporting back, e.g. after a restart or a receipt wait that timed
+   * out. Entries the chain does not show an outcome for yet stay in flight for the next sweep or
+   * an admin. Returns how many were settled. Runs on a timer.
+   */
+  async settleStale(): Promise<number> {
+    const stale = await db.query.payoutLedger.findMany({
+      where: and(
+        inArray(payoutLedger.status, ['pending', 'submitted']),
+        lte(payoutLedger.updatedAt, new Date(Date.now() - STALE_PAYOUT_MS))
+      ),
+      orderBy: [payoutLedger.updatedAt],
+    });
+
+    let settled = 0;
+    for (const entry of stale) {
+      try {
+        if (entry.status === 'pending') {
+          // Reserved but never handed to the chain
+          await this.markFailed(entry.id, 'Payout was interrupted before it was sent');
+          settled++;
+        } else if (await this.settleFromChain(entry)) {
+          settled++;
+        }
+      } catch (error: any) {
+        log(`Could not settle payout ledger entry ${entry.id}: ${error.message}`, 'payout-ledger-ERROR');
+      }
+    }
+    return settled;
+  }
+
+  /**
+   * Read a submitted entry's outcome from the chain and record it. A known transaction is settled
+   * from its receipt and the RewardDistributed event it emitted (a relayed call can succeed while
+   * the forwarded call failed); without one, a distribution for the issue among the contract events
+   * the reconciler stored confirms it, and a bounty still allocated on-chain means it was never sent.
+   * Returns null while the chain shows no outcome.
+   */
+  async settleFromChain(entry: PayoutLedgerEntry): Promise<'confirmed' | 'failed' | null> {
+    if (entry.transactionHash) {
+      const receipt = await blockchain.getTransactionReceipt(entry.transactionHash);
+      if (!receipt) {
+        return null;
+      }
+      const events = receipt.status === 1 ? await blockchain.getRewardEvents(receipt.blockNumber, receipt.blockNumber) : [];
+      const distributed = events.some(event =>
+        event.name === 'RewardDistributed' &&
+        event.transactionHash === receipt.hash &&
+        event.repoId === entry.githubRepoId &&
+        event.issueId === entry.githubIssueNumber
+      );
+      if (!distributed) {
+        await this.markFailed(entry.id, `Transaction ${receipt.hash} did not distribute the reward`);
+        return 'failed';
+      }
+      await this.markConfirmed(entry.id, receipt.hash, receipt.gasUsed.toString());
+      return 'confirmed';
+    }
+
+    // Distributions of earlier allocations on the issue already belong to their own entries
+    const paid = await db.select({ transactionHash: payoutLedger.transactionHash })
+      .from(payoutLedger)
+      .where(and(
+        eq(payoutLedger.githubRepoId, entry.githubRepoId),
+        eq(payoutLedger.githubIssueNumber, entry.githubIssueNumber),
+        eq(payoutLedger.status, 'confirmed')
+      ));
+    const paidHashes = paid.map(row => row.transactionHash).filter((hash): hash is string => !!hash);
+    const event = await db.query.chainRewardEvents.findFirst({
+      where: and(
+        eq(chainRewardEvents.eventName, 'RewardDistributed'),
+        eq(chainRewardEvents.githubRepoId, entry.githubRepoId),
+        eq(chainRewardEvents.githubIssueNumber, entry.githubIssueNumber),
+        gte(chainRewardEvents.createdAt, entry.submittedAt ?? entry.createdAt),
+        paidHashes.length > 0 ? notInArray(chainRewardEvents.transactionHash, paidHashes) : undefined
+      ),
+      orderBy: [chainRewardEvents.blockNumber],
+    });
+    if (event) {
+      await this.markConfirmed(entry.id, event.transactionHash, null);
+      return 'confirmed';
+    }
+
+    const [issueBounty] = await blockchain.getIssueRewards(parseInt(entry.githubRepoId), [entry.githubIssueNumber]);
+    if (issueBounty?.status === 'Allocated') {
+      await this.markFailed(entry.id, 'Payout was never sent: the bounty is still allocated on-chain');
+      return 'failed';
+    }
+    return null;
+  }
+
+  /**
+   * Record an admin's decision on an entry the chain could not settle. Only unconfirmed entries
+   * can be resolved; a failed one can be paid again. Returns null if the entry is not in flight.
+   */
+  async resolve(id: number, outcome: 'confirmed' | 'failed', details: { transactionHash?: string; note: string }): Promise<PayoutLedgerEntry | null> {
+    const [resolved] = await db.update(payoutLedger)
+      .set(outcome === 'confirmed'
+        ? { status: 'confirmed', transactionHash: details.transactionHash, lastError: details.note, confirmedAt: new Date(), updatedAt: new Date() }
+        : { status: 'failed', lastError: details.note, updatedAt: new Date() })
+      .where(and(
+        eq(payoutLedger.id, id),
+        inArray(payoutLedger.status, ['pending', 'submitted'])
+      ))
+      .returning();
+    if (resolved) {
+      log(`Payout ledger entry ${id} resolved as ${outcome}: ${details.note}`, 'payout-ledger');
+    }
+    return resolved || null;
+  }
+
+  /**
+   * Whether a payout for the issue is reserved or sent but not yet confirmed or failed
+   */
+  async hasPayoutInFlight(githubRepoId: string, issueNumber: number): Promise<boolean> {
+    const entry = await db.query.payoutLedger.findFirst({
+      where: and(
+        eq(payoutLedger.githubRepoId, githubRepoId),
+        eq(payoutLedger.githubIssueNumber, issueNumber),
+        inArray(payoutLedger.status, ['pending', 'submitted'])
+      )
+    });
+    return !!entry;
+  }
+
+  async markSubmitted(id: number): Promise<void> {
+    await db.update(payoutLedger)
+      .set({ status: 'submitted', submittedAt: new Date(), updatedAt: new Date() })
+      .where(eq(payoutLedger.id, id));
+  }
+
+  async recordTransactionHash(id: number, transactionHash: string): Promise<void> {
+    await db.update(payoutLedger)
+      .set({ transactionHash, updatedAt: new Date() })
+      .where(eq(payoutLedger.id, id));
+  }
+
+  async markConfirmed(id: number, transactionHash: string | null, gasUsed: string | null): Promise<void> {
+    await db.update(payoutLedger)
+      .set({ status: 'confirmed', transactionHash, gasUsed, confirmedAt: new Date(), updatedAt: new Date() })
+      .where(eq(payoutLedger.id, id));
+  }
+
+  async markFailed(id: number, error: string): Promise<void> {
+    await db.update(payoutLedger)
+      .set({ status: 'failed', lastError: error, updatedAt: new Date() })
+      .where(eq(payoutLedger.id, id));
+    log(`Payout ledger entry ${id} failed: ${error}`, 'payout-ledger');
+  }
+
+  /**
+   * Confirmed payouts to any of a contributor's wallet addresses (custodial or linked), newest first,
+   * with that contributor's share of each
+   */
+  async getEarnings(walletAddresses: string[], limit: number = 50): Promise<ContributorEarning[]> {
+    const rows = await db
+      .select({
+        entry: payoutLedger,
+        repoFullName: registeredRepositories.githubRepoFullName,
+      })
+      .from(payoutLedger)
+      .leftJoin(registeredRepositories, eq(payoutLedger.githubRepoId, registeredRepositories.githubRepoId))
+      .where(and(
+        eq(payoutLedger.status, 'confirmed'),
+        or(...walletAddresses.map(address =>
+          sql`${payoutLedger.recipients} @> ${JSON.stringify([{ address }])}::jsonb`
+        ))
+      ))
+      .orderBy(desc(payoutLedger.confirmedAt))
+      .limit(limit);
+
+    return rows.map(({ entry, repoFullName }) => {
+      const share = entry.recipients.find(r => walletAddresses.includes(r.address))!;
+      return {
+        id: entry.id,
+        githubRepoId: entry.githubRepoId,
+        repoFullName,
+        issueNumber: entry.githubIssueNumber,
+        currency: entry.currency,
+        amount: share.amount,
+        shareBps: share.shareBps,
+        extraAmounts: share.extraAmounts ?? [],
+        transactionHash: entry.transactionHash,
+        paidAt: entry.confirmedAt,
+      };
+    });
+  }
+
+  async listEntries(status?: PayoutStatus, limit: number = 100): Promise<PayoutLedgerEntry[]> {
+    return await db.query.payoutLedger.findMany({
+      where: status ? eq(payoutLedger.status, status) : undefined,
+      orderBy: [desc(payoutLedger.updatedAt)],
+      limit,
+    });
+  }
+
+  async getStatusCounts(): Promise<Record<PayoutStatus, number>> {
+    const rows = await db
+      .select({ status: payoutLedger.status, count: sql<number>`count(*)::int` })
+      .from(payoutLedger)
+      .groupBy(payoutLedger.status);
+
+    const counts: Record<PayoutStatus, number> = { pending: 0, submitted: 0, confirmed: 0, failed: 0 };
+    for (const row of rows) {
+      counts[row.status] = row.count;
+    }
+    return counts;
+  }
+}
+
+export const payoutLedgerService = new PayoutLedgerService();
@@ -0,0 +1,443 @@
+import { db } from '../db';
+import {
+  promptOrganizations,
+  promptOrganizationMembers,
+  promptOrganizationTransactions,
+  aiUsageAuthorizations,
+  users,
+  type PromptOrganization,
+  type PromptOrganizationMember,
+  type PromptOrganizationTransaction,
+  type OrganizationUsageReportRow
+} from '../../shared/schema';
+import { eq, and, ne, desc, gte, lt, sql } from 'drizzle-orm';
+import { storage, type PromptUsageDetails } from '../storage';
+import { log } from '../utils';
+
+// A membership change that would leave an organisation in an invalid state
+export class PromptOrganizationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptOrganizationError';
+  }
+}
+
+export type PromptOrganizationRole = PromptOrganizationMember['role'];
+type PoolTransactionType = PromptOrganizationTransaction['transactionType'];
+
+export interface PromptOrganizationMembership {
+  organization: PromptOrganization;
+  member: PromptOrganizationMember;
+}
+
+export interface PromptOrganizationMemberWithUsage extends PromptOrganizationMember {
+  monthlyUsed: number; // Prompts used or held this calendar month (UTC)
+}
+
+export interface PromptOrganizationInvite extends PromptOrganizationMember {
+  organizationName: string;
+}
+
+function usernameMatches(githubUsername: string) {
+  return sql`lower(${promptOrganizationMembers.githubUsername}) = ${githubUsername.toLowerCase()}`;
+}
+
+export function startOfMonthUtc(date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+export class PromptOrganizationService {
+
+  /**
+   * The organisation whose pool a user's VS Code AI requests draw from, if any
+   */
+  async getActiveMembership(userId: number): Promise<PromptOrganizationMembership | null> {
+    const [row] = await db
+      .select({ member: promptOrganizationMembers, organization: promptOrganizations })
+      .from(promptOrganizationMembers)
+      .innerJoin(promptOrganizations, eq(promptOrganizationMembers.organizationId, promptOrganizations.id))
+      .where(and(eq(promptOrganizationMembers.userId, userId), eq(promptOrganizationMembers.status, 'active')))
+      .limit(1);
+    return row || null;
+  }
+
+  async getOrganization(id: number): Promise<PromptOrganization | null> {
+    const organization = await db.query.promptOrganizations.findFirst({ where: eq(promptOrganizations.id, id) });
+    return organization || null;
+  }
+
+  /**
+   * The user's role in an organisation, or null if they are not an active member of it
+   */
+  async getRole(organizationId: number, userId: number): Promise<PromptOrganizationRole | null> {
+    const member = await db.query.promptOrganizationMembers.findFirst({
+      where: and(
+        eq(promptOrganizationMembers.organizationId, organizationId),
+        eq(promptOrganizationMembers.userId, userId),
+        eq(promptOrganizationMembers.status, 'active')
+      ),
+      columns: { role: true }
+    });
+    return member?.role ?? null;
+  }
+
+  /**
+   * Create an organisation with the user as its first admin. A user can only be active in one organisation.
+   */
+  async create(name: string, user: { id: number; githubUsername: string }): Promise<PromptOrganization> {
+    if (await this.getActiveMembership(user.id)) {
+      throw new PromptOrganizationError('You are already a member of an organisation');
+    }
+
+    return await db.transaction(async (tx) => {
+      const [organization] = await tx.insert(promptOrganizations)
+        .values({ name, createdBy: user.id })
+        .returning();
+      await tx.insert(promptOrganizationMembers).values({
+        organizationId: organization.id,
+        githubUsername: user.githubUsername,
+        userId: user.id,
+        role: 'admin',
+        status: 'active',
+        invitedBy: user.id,
+        acceptedAt: new Date(),
+      });
+      log(`${user.githubUsername} created prompt organisation ${organization.id} (${name})`, 'prompt-orgs');
+      return organization;
+    });
+  }
+
+  /**
+   * Every organisation with its active member count, for the platform admin
+   */
+  async listAll(): Promise<(PromptOrganization & { activeMembers: number })[]> {
+    return await db
+      .select({
+        id: promptOrganizations.id,
+        name: promptOrganizations.name,
+        promptBalance: promptOrganizations.promptBalance,
+        createdBy: promptOrganizations.createdBy,
+        createdAt: promptOrganizations.createdAt,
+        updatedAt: promptOrganizations.updatedAt,
+        activeMembers: sql<number>`count(${promptOrganizationMembers.id}) filter (where ${promptOrganizationMembers.status} = 'active')::int`,
+      })
+      .from(promptOrganizations)
+      .leftJoin(promptOrganizationMembers, eq(promptOrganizationMembers.organizationId, promptOrganizations.id))
+      .groupBy(promptOrganizations.id)
+      .orderBy(desc(promptOrganizations.createdAt));
+  }
+
+  /**
+   * Members and pending invites with their usage this month. Revoked members are left out.
+   */
+  async listMembers(organizationId: number): Promise<PromptOrganizationMemberWithUsage[]> {
+    const [members, usage] = await Promise.all([
+      db.query.promptOrganizationMembers.findMany({
+        where: and(
+          eq(promptOrganizationMembers.organizationId, organizationId),
+          ne(promptOrganizationMembers.status, 'revoked')
+        ),
+        orderBy: [desc(promptOrganizationMembers.createdAt)],
+      }),
+      db
+        .select({ userId: aiUsageAuthorizations.userId, used: this.usedPromptsSql() })
+        .from(aiUsageAuthorizations)
+        .where(and(
+          eq(aiUsageAuthorizations.organizationId, organizationId),
+          gte(aiUsageAuthorizations.createdAt, startOfMonthUtc())
+        ))
+        .groupBy(aiUsageAuthorizations.userId),
+    ]);
+
+    const usedByUser = new Map(usage.map(row => [row.userId, Number(row.used)]));
+    return members.map(member => ({
+      ...member,
+      monthlyUsed: member.userId ? usedByUser.get(member.userId) ?? 0 : 0,
+    }));
+  }
+
+  // Settled requests count what they were charged, requests still running count their hold
+  private usedPromptsSql() {
+    return sql<string>`coalesce(sum(case
+      when ${aiUsageAuthorizations.status} = 'settled' then ${aiUsageAuthorizations.chargedPrompts}
+      when ${aiUsageAuthorizations.status} = 'authorized' then ${aiUsageAuthorizations.authorizedPrompts}
+      else 0 end), 0)`;
+  }
+
+  /**
+   * Prompts a member has used or has on hold from the pool this calendar month (UTC).
+   * Pass the transaction when checking a cap so the count sees its own locks.
+   */
+  async getMonthlyUsage(organizationId: number, userId: number, drizzleTx: any = db): Promise<number> {
+    const [row] = await drizzleTx
+      .select({ used: this.usedPromptsSql() })
+      .from(aiUsageAuthorizations)
+      .where(and(
+        eq(aiUsageAuthorizations.organizationId, organizationId),
+        eq(aiUsageAuthorizations.userId, userId),
+        gte(aiUsageAuthorizations.createdAt, startOfMonthUtc())
+      ));
+    return Number(row?.used ?? 0);
+  }
+
+  /**
+   * Settled usage of the pool between two dates, per member and model
+   */
+  async getUsageReport(organizationId: number, from: Date, to: Date): Promise<OrganizationUsageReportRow[]> {
+    return await db
+      .select({
+        userId: aiUsageAuthorizations.userId,
+        githubUsername: users.githubUsername,
+        model: aiUsageAuthorizations.model,
+        requests: sql<number>`count(*)::int`,
+        inputTokens: sql<number>`coalesce(sum(${aiUsageAuthorizations.inputTokens}), 0)::int`,
+        outputTokens: sql<number>`coalesce(sum(${aiUsageAuthorizations.outputTokens}), 0)::int`,
+        promptsCharged: sql<number>`coalesce(sum(${aiUsageAuthorizations.chargedPrompts}), 0)::int`,
+      })
+      .from(aiUsageAuthorizations)
+      .leftJoin(users, eq(aiUsageAuthorizations.userId, users.id))
+      .where(and(
+        eq(aiUsageAuthorizations.organizationId, organizationId),
+        eq(aiUsageAuthorizations.status, 'settled'),
+        gte(aiUsageAuthorizations.createdAt, from),
+        lt(aiUsageAuthorizations.createdAt, to)
+      ))
+      .groupBy(aiUsageAuthorizations.userId, users.githubUsername, aiUsageAuthorizations.model)
+      .orderBy(users.githubUsername, aiUsageAuthorizations.model);
+  }
+
+  /**
+   * Invite a GitHub user to an organisation. A revoked member can be invited again.
+   * Returns null if the user is already a member or has a pending invite.
+   */
+  async invite(params: {
+    organizationId: number;
+    githubUsername: string;
+    role: PromptOrganizationRole;
+    monthlyPromptCap: number | null;
+    invitedBy: number;
+  }): Promise<PromptOrganizationMember | null> {
+    const { organizationId, githubUsername, role, monthlyPromptCap, invitedBy } = params;
+
+    const existing = await db.query.promptOrganizationMembers.findFirst({
+      where: and(eq(promptOrganizationMembers.organizationId, organizationId), usernameMatches(githubUsername))
+    });
+    if (existing && existing.status !== 'revoked') {
+      return null;
+    }
+
+    const [invite] = existing
+      ? await db.update(promptOrganizationMembers)
+          .set({
+            githubUsername,
+            userId: null,
+            role,
+            monthlyPromptCap,
+            status: 'pending',
+            invitedBy,
+            acceptedAt: null,
+            updatedAt: new Date(),
+          })
+          .where(and(eq(promptOrganizationMembers.id, existing.id), eq(promptOrganizationMembers.status, 'revoked')))
+          .returning()
+      : await db.insert(promptOrganizationMembers)
+          .values({ organizationId, githubUsername, role, monthlyPromptCap, invitedBy })
+          .returning();
+
+    if (invite) {
+      log(`Invited ${githubUsername} as ${role} of prompt organisation ${organizationId}`, 'prompt-orgs');
+    }
+    return invite || null;
+  }
+
+  // Throws if removing or demoting this member would leave the organisation without an active admin
+  private async assertOtherAdmin(member: PromptOrganizationMember) {
+    if (member.role !== 'admin' || member.status !== 'active') return;
+    const [row] = await db
+      .select({ admins: sql<number>`count(*)::int` })
+      .from(promptOrganizationMembers)
+      .where(and(
+        eq(promptOrganizationMembers.organizationId, member.organizationId),
+        eq(promptOrganizationMembers.role, 'admin'),
+        eq(promptOrganizationMembers.status, 'active'),
+        ne(promptOrganizationMembers.id, member.id)
+      ));
+    if (!row || row.admins === 0) {
+      throw new PromptOrganizationError('An organisation needs at least one admin');
+    }
+  }
+
+  private async findMember(id: number, organizationId: number): Promise<PromptOrganizationMember | null> {
+    const member = await db.query.promptOrganizationMembers.findFirst({
+      where: and(
+        eq(promptOrganizationMembers.id, id),
+        eq(promptOrganizationMembers.organizationId, organizationId),
+        ne(promptOrganizationMembers.status, 'revoked')
+      )
+    });
+    return member || null;
+  }
+
+  async updateMember(
+    id: number,
+    organizationId: number,
+    changes: { role: PromptOrganizationRole; monthlyPromptCap: number | null }
+  ): Promise<PromptOrganizationMember | null> {
+    const member = await this.findMember(id, organizationId);
+    if (!member) return null;
+    if (changes.role !== 'admin') {
+      await this.assertOtherAdmin(member);
+    }
+
+    const [updated] = await db.update(promptOrganizationMembers)
+      .set({ role: changes.role, monthlyPromptCap: changes.monthlyPromptCap, updatedAt: new Date() })
+      .where(and(eq(promptOrganizationMembers.id, id), ne(promptOrganizationMembers.status, 'revoked')))
+      .returning();
+    return updated || null;
+  }
+
+  /**
+   * Remove a member, withdraw an invite, or leave the organisation. Requests already running keep their hold
+   * on the pool until they settle.
+   */
+  async revoke(id: number, organizationId: number): Promise<PromptOrganizationMember | null> {
+    const member = await this.findMember(id, organizationId);
+    if (!member) return null;
+    await this.assertOtherAdmin(member);
+
+    const [revoked] = await db.update(promptOrganizationMembers)
+      .set({ status: 'revoked', updatedAt: new Date() })
+      .where(and(eq(promptOrganizationMembers.id, id), ne(promptOrganizationMembers.status, 'revoked')))
+      .returning();
+
+    if (revoked) {
+      log(`Revoked ${revoked.githubUsername} (${revoked.role}) from prompt organisation ${organizationId}`, 'prompt-orgs');
+    }
+    return revoked || null;
+  }
+
+  /**
+   * Pending invites addressed to a GitHub user, with the organisation name for display
+   */
+  async listInvitesForUser(githubUsername: string): Promise<PromptOrganizationInvite[]> {
+    const rows = await db
+      .select({ invite: promptOrganizationMembers, organizationName: promptOrganizations.name })
+      .from(promptOrganizationMembers)
+      .innerJoin(promptOrganizations, eq(promptOrganizationMembers.organizationId, promptOrganizations.id))
+      .where(and(usernameMatches(githubUsername), eq(promptOrganizationMembers.status, 'pending')))
+      .orderBy(desc(promptOrganizationMembers.createdAt));
+
+    return rows.map(({ invite, organizationName }) => ({ ...invite, organizationName }));
+  }
+
+  /**
+   * Accept an invite on behalf of the signed-in user. Only the invited GitHub user can accept, and only
+   * while they are not active in another organisation.
+   */
+  async accept(id: number, user: { id: number; githubUsername: string }): Promise<PromptOrganizationMember | null> {
+    if (await this.getActiveMembership(user.id)) {
+      throw new PromptOrganizationError('Leave your current organisation before joining another');
+    }
+
+    const [accepted] = await db.update(promptOrganizationMembers)
+      .set({ userId: user.id, status: 'active', acceptedAt: new Date(), updatedAt: new Date() })
+      .where(and(
+        eq(promptOrganizationMembers.id, id),
+        usernameMatches(user.githubUsername),
+        eq(promptOrganizationMembers.status, 'pending')
+      ))
+      .returning();
+
+    if (accepted) {
+      log(`${user.githubUsername} joined prompt organisation ${accepted.organizationId} as ${accepted.role}`, 'prompt-orgs');
+    }
+    return accepted || null;
+  }
+
+  /**
+   * Change a pool's balance and record it on the pool ledger, inside the caller's transaction.
+   * Fails without writing anything if the balance would go negative.
+   */
+  async adjustPromptBalance(
+    drizzleTx: any,
+    organizationId: number,
+    promptsToChange: number,
+    type: PoolTransactionType,
+    notes?: string,
+    userId?: number,
+    usage?: PromptUsageDetails
+  ): Promise<{ success: boolean; newBalance?: number; error?: string }> {
+    const [organization] = await drizzleTx
+      .select({ promptBalance: promptOrganizations.promptBalance })
+      .from(promptOrganizations)
+      .where(eq(promptOrganizations.id, organizationId))
+      .for('update');
+    if (!organization) {
+      return { success: false, error: 'Organisation not found' };
+    }
+
+    const newBalance = organization.promptBalance + promptsToChange;
+    if (newBalance < 0) {
+      log(`Insufficient prompts in organisation ${organizationId}. Current: ${organization.promptBalance}, Change: ${promptsToChange}`, 'prompt-orgs-ERROR');
+      return { success: false, error: 'Insufficient prompts for deduction' };
+    }
+
+    await drizzleTx.update(promptOrganizations)
+      .set({ promptBalance: newBalance, updatedAt: new Date() })
+      .where(eq(promptOrganizations.id, organizationId));
+    await drizzleTx.insert(promptOrganizationTransactions).values({
+      organizationId,
+      userId,
+      transactionType: type,
+      promptsChanged: promptsToChange,
+      balanceAfterTx: newBalance,
+      notes,
+      ...usage,
+    });
+
+    log(`Organisation ${organizationId} prompt balance adjusted by ${promptsToChange} for ${type}. New balance: ${newBalance}`, 'prompt-orgs');
+    return { success: true, newBalance };
+  }
+
+  /**
+   * Move prompts from a member's own balance into the pool, e.g. after buying a prompt pack
+   */
+  async deposit(organizationId: number, userId: number, prompts: number): Promise<{ userBalance: number; poolBalance: number }> {
+    return await db.transaction(async (tx) => {
+      const withdrawn = await storage.adjustUserPromptBalance(
+        tx, userId, -prompts, 'organization_deposit', `Deposited into organisation ${organizationId}`
+      );
+      if (!withdrawn.success) {
+        throw new PromptOrganizationError(withdrawn.error || 'Insufficient prompts');
+      }
+      const deposited = await this.adjustPromptBalance(tx, organizationId, prompts, 'deposit', 'Deposit from member balance', userId);
+      if (!deposited.success) {
+        throw new Error(deposited.error || 'Deposit failed');
+      }
+      return { userBalance: withdrawn.newBalance!, poolBalance: deposited.newBalance! };
+    });
+  }
+
+  /**
+   * Platform admin grant to, or deduction from, a pool
+   */
+  async adminAdjust(organizationId: number, prompts: number, notes: string, adminId: number): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const result = await this.adjustPromptBalance(tx, organizationId, prompts, 'admin_adjustment', notes, adminId);
+      if (!result.success) {
+        throw new PromptOrganizationError(result.error || 'Adjustment failed');
+      }
+      return result.newBalance!;
+    });
+  }
+
+  async listTransactions(organizationId: number, limit = 50): Promise<PromptOrganizationTransaction[]> {
+    return await db.query.promptOrganizationTransactions.findMany({
+      where: eq(promptOrganizationTransactions.organizationId, organizationId),
+      orderBy: [desc(promptOrganizationTransactions.createdAt)],
+      limit,
+    });
+  }
+}
+
+export const promptOrganizationService = new PromptOrganizationService();
@@ -0,0 +1,310 @@
+import { db } from '../db';
+import {
+  promptPacks,
+  promptPackPurchases,
+  TransactionStatus,
+  type PromptPack,
+  type PromptPackPurchase
+} from '../../shared/schema';
+import { eq, and, desc, asc } from 'drizzle-orm';
+import { ethers } from 'ethers';
+import { blockchain } from '../blockchain';
+import { storage } from '../storage';
+import { onrampMerchantService, type MerchantCheckoutConfig } from '../onrampMerchant';
+import { onrampService } from '../onrampService';
+import { onrampCryptoService } from '../onrampCryptoService';
+import { log } from '../utils';
+
+// A purchase the platform refuses or cannot confirm, e.g. an inactive pack or an unpaid order
+export class PromptPackPurchaseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptPackPurchaseError';
+  }
+}
+
+// Onramp may deliver slightly less USDC than quoted once its fees are taken
+const PAYMENT_TOLERANCE = 0.95;
+
+/**
+ * Self-serve prompt pack purchases. A purchase is recorded as `pending` before any payment starts,
+ * then credited once: from the Onramp webhook or a manual order verification for merchant checkout,
+ * or once the transfer confirms for USDC paid from the user's wallet. Crediting is a conditional
+ * update out of `pending`, so repeated webhooks and verifications never credit a purchase twice.
+ */
+export class PromptPackService {
+
+  async listActive(): Promise<PromptPack[]> {
+    return await db.query.promptPacks.findMany({
+      where: eq(promptPacks.isActive, true),
+      orderBy: [asc(promptPacks.promptAmount)],
+    });
+  }
+
+  async listPurchases(userId: number, limit = 20): Promise<PromptPackPurchase[]> {
+    return await db.query.promptPackPurchases.findMany({
+      where: eq(promptPackPurchases.userId, userId),
+      orderBy: [desc(promptPackPurchases.createdAt)],
+      limit,
+    });
+  }
+
+  private async getActivePack(packId: string): Promise<PromptPack> {
+    const pack = await db.query.promptPacks.findFirst({
+      where: and(eq(promptPacks.id, packId), eq(promptPacks.isActive, true))
+    });
+    if (!pack) {
+      throw new PromptPackPurchaseError('This prompt pack is not available');
+    }
+    return pack;
+  }
+
+  // Packs are paid in USDC, so only packs priced in dollars can be sold
+  private priceUsdc(pack: PromptPack): string {
+    if (!['USD', 'USDC'].includes(pack.currencyCode.toUpperCase())) {
+      throw new PromptPackPurchaseError(`${pack.name} is priced in ${pack.currencyCode} and cannot be paid in USDC`);
+    }
+    return ethers.formatUnits(pack.priceMicros, 6);
+  }
+
+  /**
+   * USDC price of a pack on sale, or null if it is not on sale or cannot be paid in USDC
+   */
+  async getPriceUsdc(packId: string): Promise<string | null> {
+    try {
+      return this.priceUsdc(await this.getActivePack(packId));
+    } catch (error) {
+      if (error instanceof PromptPackPurchaseError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Start an Onramp merchant checkout for a pack. The checkout's merchant recognition ID identifies the
+   * purchase when the webhook or a verification reports the payment.
+   */
+  async startMerchantCheckout(userId: number, packId: string, fiatType?: number, logoUrl?: string): Promise<{ purchase: PromptPackPurchase; checkout: MerchantCheckoutConfig }> {
+    const pack = await this.getActivePack(packId);
+    const priceUsdc = this.priceUsdc(pack);
+    const merchantRecognitionId = onrampMerchantService.generatePromptPackRecognitionId(userId);
+
+    const checkout = await onrampMerchantService.buildMerchantCheckoutConfig(userId, fiatType, logoUrl, {
+      merchantRecognitionId,
+      priceUsdc: parseFloat(priceUsdc),
+      description: `Roxonn ${pack.name}`,
+      redirectPath: '/profile',
+    });
+
+    const [purchase] = await db.insert(promptPackPurchases).values({
+      userId,
+      packId: pack.id,
+      promptAmount: pack.promptAmount,
+      priceUsdc,
+      paymentMethod: 'onramp_merchant',
+      merchantRecognitionId,
+    }).returning();
+
+    // The webhook updates this record by merchant recognition ID
+    await onrampService.createTransaction({
+      userId,
+      walletAddress: checkout.walletAddress,
+      merchantRecognitionId,
+      status: TransactionStatus.INITIATED,
+      metadata: {
+        type: 'prompt_pack',
+        packId: pack.id,
+        purchaseId: purchase.id,
+        fiatType: checkout.fiatType,
+        timestamp: new Date().toISOString()
+      }
+    });
+
+    log(`Started merchant checkout ${merchantRecognitionId} for user ${userId}: ${pack.id} (${priceUsdc} USDC)`, 'prompt-packs');
+    return { purchase, checkout };
+  }
+
+  /**
+   * Buy a pack with USDC from the user's Roxonn wallet. Prompts are credited as soon as the transfer confirms.
+   * The transfer hash is stored as soon as it is sent, so a transfer that was sent but could not be confirmed
+   * leaves the purchase pending for verification to settle from its receipt.
+   */
+  async purchaseWithWallet(userId: number, packId: string): Promise<PromptPackPurchase> {
+    const pack = await this.getActivePack(packId);
+    const priceUsdc = this.priceUsdc(pack);
+
+    const [pending] = await db.insert(promptPackPurchases).values({
+      userId,
+      packId: pack.id,
+      promptAmount: pack.promptAmount,
+      priceUsdc,
+      paymentMethod: 'usdc_wallet',
+    }).returning();
+
+    // Record the payment before it confirms, so a failed wait or credit can be settled by verification
+    let txHash: string | undefined;
+    try {
+      const receipt = await blockchain.transferToTreasury(userId, 'USDC', priceUsdc, 'prompt_pack_purchase', async (hash) => {
+        txHash = hash;
+        await db.update(promptPackPurchases)
+          .set({ txHash: hash, updatedAt: new Date() })
+          .where(eq(promptPackPurchases.id, pending.id));
+      });
+      txHash = receipt.hash;
+    } catch (error: any) {
+      if (txHash) {
+        log(`USDC payment ${txHash} for purchase ${pending.id} was sent but not confirmed: ${error.message}`, 'prompt-packs-ERROR');
+        throw new PromptPackPurchaseError(`Your payment was sent (TX ${txHash}) but is not confirmed yet. Verify the purchase once it confirms.`);
+      }
+      await db.update(promptPackPurchases)
+        .set({ status: 'failed', failureReason: error.message, updatedAt: new Date() })
+        .where(eq(promptPackPurchases.id, pending.id));
+      throw error;
+    }
+
+    const { purchase } = await this.credit(pending.id, { txHash });
+    return purchase;
+  }
+
+  /**
+   * Credit a pending purchase's prompts and link it to its payment. Returns the purchase unchanged,
+   * with `credited: false`, if it was already credited.
+   */
+  private async credit(purchaseId: number, payment: { onrampOrderId?: string; txHash?: string }): Promise<{ purchase: PromptPackPurchase; credited: boolean }> {
+    return await db.transaction(async (tx) => {
+      const [claimed] = await tx.update(promptPackPurchases)
+        .set({
+          status: 'credited',
+          ...(payment.onrampOrderId ? { onrampOrderId: payment.onrampOrderId } : {}),
+          ...(payment.txHash ? { txHash: payment.txHash } : {}),
+          creditedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(and(eq(promptPackPurchases.id, purchaseId), eq(promptPackPurchases.status, 'pending')))
+        .returning();
+
+      if (!claimed) {
+        const existing = await tx.query.promptPackPurchases.findFirst({ where: eq(promptPackPurchases.id, purchaseId) });
+        if (!existing) {
+          throw new PromptPackPurchaseError('Purchase not found');
+        }
+        return { purchase: existing, credited: false };
+      }
+
+      const result = await storage.adjustUserPromptBalance(
+        tx, claimed.userId, claimed.promptAmount, 'purchase',
+        `Purchased ${claimed.packId} (${claimed.priceUsdc} USDC, purchase ${claimed.id})`,
+        claimed.onrampOrderId ?? undefined
+      );
+      if (!result.success) {
+        throw new Error(result.error || 'Prompt credit failed');
+      }
+
+      log(`Credited ${claimed.promptAmount} prompts to user ${claimed.userId} for purchase ${claimed.id}. New balance: ${result.newBalance}`, 'prompt-packs');
+      return { purchase: claimed, credited: true };
+    });
+  }
+
+  private assertPaidInFull(purchase: PromptPackPurchase, paidUsdc: string | number | undefined) {
+    if (paidUsdc === undefined || paidUsdc === null || paidUsdc === '') return;
+    const paid = parseFloat(String(paidUsdc));
+    if (isNaN(paid) || paid < parseFloat(purchase.priceUsdc) * PAYMENT_TOLERANCE) {
+      throw new PromptPackPurchaseError(`Payment of ${paidUsdc} USDC is below the pack price of ${purchase.priceUsdc} USDC`);
+    }
+  }
+
+  /**
+   * Handle a successful Onramp payment reported by the webhook. Safe to call more than once per order.
+   */
+  async handleOnrampPayment(merchantRecognitionId: string, payment: { orderId?: string; txHash?: string; paidUsdc?: string | number }): Promise<PromptPackPurchase | null> {
+    const purchase = await db.query.promptPackPurchases.findFirst({
+      where: eq(promptPackPurchases.merchantRecognitionId, merchantRecognitionId)
+    });
+    if (!purchase) {
+      log(`No prompt pack purchase for ${merchantRecognitionId}`, 'prompt-packs-ERROR');
+      return null;
+    }
+    if (purchase.status === 'credited') {
+      log(`Purchase ${purchase.id} already credited, ignoring repeated payment for ${merchantRecognitionId}`, 'prompt-packs');
+      return purchase;
+    }
+
+    try {
+      this.assertPaidInFull(purchase, payment.paidUsdc);
+    } catch (error: any) {
+      await db.update(promptPackPurchases)
+        .set({ status: 'failed', failureReason: error.message, onrampOrderId: payment.orderId ?? null, updatedAt: new Date() })
+        .where(and(eq(promptPackPurchases.id, purchase.id), eq(promptPackPurchases.status, 'pending')));
+      throw error;
+    }
+
+    const { purchase: credited } = await this.credit(purchase.id, { onrampOrderId: payment.orderId, txHash: payment.txHash });
+    return credited;
+  }
+
+  /**
+   * Let a user confirm a purchase the webhook has not credited, e.g. because it never arrived.
+   * Merchant checkout purchases are checked against Onramp's order status; wallet purchases are checked
+   * against their transfer's receipt and stay pending until it is mined.
+   */
+  async verifyPurchase(userId: number, purchaseId: number, orderId?: string): Promise<PromptPackPurchase> {
+    const purchase = await db.query.promptPackPurchases.findFirst({
+      where: and(eq(promptPackPurchases.id, purchaseId), eq(promptPackPurchases.userId, userId))
+    });
+    if (!purchase) {
+      throw new PromptPackPurchaseError('Purchase not found');
+    }
+    if (purchase.status === 'credited') {
+      return purchase;
+    }
+    if (purchase.status === 'failed') {
+      throw new PromptPackPurchaseError(purchase.failureReason || 'This purchase failed');
+    }
+
+    if (purchase.paymentMethod === 'usdc_wallet') {
+      if (!purchase.txHash) {
+        throw new PromptPackPurchaseError('The USDC payment for this purchase was not completed');
+      }
+      const receipt = await blockchain.getTransactionReceipt(purchase.txHash);
+      if (!receipt) {
+        return purchase;
+      }
+      if (receipt.status !== 1) {
+        await db.update(promptPackPurchases)
+          .set({ status: 'failed', failureReason: 'The USDC transfer reverted', updatedAt: new Date() })
+          .where(and(eq(promptPackPurchases.id, purchase.id), eq(promptPackPurchases.status, 'pending')));
+        throw new PromptPackPurchaseError('The USDC payment for this purchase failed on chain');
+      }
+      return (await this.credit(purchase.id, { txHash: purchase.txHash })).purchase;
+    }
+
+    const order = orderId || purchase.onrampOrderId;
+    if (!order) {
+      throw new PromptPackPurchaseError('Please provide your Order ID from the Onramp.money receipt');
+    }
+
+    let orderDetails: any;
+    try {
+      orderDetails = await onrampCryptoService.getOrderStatus(order);
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        throw new PromptPackPurchaseError('Onramp has not confirmed this order yet. Your prompts will be credited when it does.');
+      }
+      throw error;
+    }
+
+    if (!orderDetails || orderDetails.merchantRecognitionId !== purchase.merchantRecognitionId) {
+      log(`User ${userId} tried to verify purchase ${purchase.id} with order ${order}, which is for a different checkout`, 'prompt-packs-WARN');
+      throw new PromptPackPurchaseError('This order does not belong to this purchase');
+    }
+    if (!onrampMerchantService.isSuccessStatus(orderDetails.statusCode, orderDetails.status)) {
+      throw new PromptPackPurchaseError(`Payment is not successful yet. Status: ${orderDetails.status}`);
+    }
+    this.assertPaidInFull(purchase, orderDetails.actualCryptoAmount || orderDetails.expectedCryptoAmount);
+
+    return (await this.credit(purchase.id, { onrampOrderId: order, txHash: orderDetails.txHash })).purchase;
+  }
+}
+
+export const promptPackService = new PromptPackService();
@@ -5,6 +5,7 @@ import { ethers } from 'ethers';
 import { config } from '../config';
 import ProofOfCompute_ABI from '../../contracts/artifacts/contracts/ProofOfCompute.sol/ProofOfCompute.json';
 import axios from 'axios';
+import { relayerTransactionService } from './relayerTransactionService';
 
 if (!config.xdcRpcUrl || !config.proofOfComputeContractAddress || !config.relayerPrivateKey) {
   throw new Error("Missing required configuration for Proof of Compute service.");
@@ -26,12 +27,21 @@ async function getAvailableNodes() {
 async function recordContribution(walletAddress: string) {
   try {
     const ethAddress = walletAddress.replace('xdc', '0x');
-    const signer = new ethers.Wallet(config.relayerPrivateKey, provider);
-    const contractWithSigner = contract.connect(signer) as ethers.Contract;
     // For V1, we'll record a standard 1 unit of compute per task.
-    const tx = await contractWithSigner.recordCompute(ethAddress);
-    await tx.wait();
-    console.log(`Successfully recorded compute unit for provider ${walletAddress} with tx: ${tx.hash}`);
+    const data = contract.interface.encodeFunctionData('recordCompute', [ethAddress]);
+    const estimatedGas = await provider.estimateGas({
+      from: relayerTransactionService.address,
+      to: contract.target as string,
+      data
+    });
+    // Sent through the shared relayer sender so it cannot collide with bounty transactions on nonces
+    const tx = await relayerTransactionService.send({
+      to: contract.target as string,
+      data,
+      gasLimit: estimatedGas * BigInt(130) / BigInt(100)
+    }, 'record_compute');
+    await relayerTransactionService.waitForReceipt(tx);
+    console.log(`Successfully recorded compute unit for provider ${walletAddress} with tx: ${tx.transactionHash}`);
   } catch (error) {
     console.error(`Failed to record contribution for provider ${walletAddress}:`, error);
   }
@@ -0,0 +1,338 @@
+import { db } from '../db';
+import {
+  chainRewardEvents,
+  repositoryPoolBalances,
+  reconciliationRuns,
+  multiCurrencyBounties,
+  registeredRepositories,
+  payoutLedger,
+  type ReconciliationMismatch,
+  type ReconciliationRun,
+  type RepositoryPoolBalance,
+  type ChainRewardEvent
+} from '../../shared/schema';
+import { eq, desc, asc, isNotNull } from 'drizzle-orm';
+import { ethers } from 'ethers';
+import { blockchain } from '../blockchain';
+import { storage } from '../storage';
+import { config } from '../config';
+import { log } from '../utils';
+
+type Currency = 'XDC' | 'ROXN' | 'USDC';
+type BountyState = 'allocated' | 'distributed' | 'cancelled';
+
+const CURRENCY_DECIMALS: Record<Currency, number> = { XDC: 18, ROXN: 18, USDC: 6 };
+
+interface DerivedBounty {
+  githubRepoId: string;
+  issueNumber: number;
+  state: BountyState;
+  currency: Currency;
+  amount: string; // Allocated amount, formatted
+  contributorAddress: string | null;
+  transactionHash: string;
+}
+
+export class ReconciliationService {
+  private isRunning = false;
+
+  /**
+   * Replay new contract events since the last run, rebuild pool balances and bounty states,
+   * and record every mismatch found. Returns null if a run is already in progress or no start block is set.
+   *
+   * Until the replay reaches the chain head the derived state is incomplete, so runs that are still
+   * catching up only store events; pools and bounties are compared once the replay is current.
+   */
+  async run(): Promise<ReconciliationRun | null> {
+    if (this.isRunning) {
+      return null;
+    }
+    this.isRunning = true;
+
+    try {
+      const [lastRun] = await db.select()
+        .from(reconciliationRuns)
+        .where(eq(reconciliationRuns.status, 'completed'))
+        .orderBy(desc(reconciliationRuns.toBlock))
+        .limit(1);
+
+      if (!lastRun && !config.reconciliationStartBlock) {
+        log('RECONCILIATION_START_BLOCK is not set; set it to the rewards contract deployment block to enable reconciliation', 'reconciliation-WARN');
+        return null;
+      }
+
+      const latestBlock = await blockchain.getBlockNumber();
+      const fromBlock = lastRun ? lastRun.toBlock + 1 : config.reconciliationStartBlock;
+      // Catch up over several runs rather than scanning the whole chain at once
+      const toBlock = Math.max(fromBlock - 1, Math.min(latestBlock, fromBlock + config.reconciliationMaxBlocksPerRun - 1));
+
+      const [run] = await db.insert(reconciliationRuns).values({ fromBlock, toBlock }).returning();
+
+      try {
+        const eventsProcessed = await this.replayEvents(fromBlock, toBlock);
+        const caughtUp = toBlock === latestBlock;
+        const mismatches = caughtUp
+          ? [...await this.reconcilePoolBalances(toBlock), ...await this.reconcileBountyStates()]
+          : [];
+
+        const [completed] = await db.update(reconciliationRuns)
+          .set({ status: 'completed', eventsProcessed, mismatches, completedAt: new Date() })
+          .where(eq(reconciliationRuns.id, run.id))
+          .returning();
+
+        log(caughtUp
+          ? `Reconciled blocks ${fromBlock}-${toBlock}: ${eventsProcessed} events, ${mismatches.length} mismatches`
+          : `Replayed blocks ${fromBlock}-${toBlock}: ${eventsProcessed} events, ${latestBlock - toBlock} blocks behind`, 'reconciliation');
+        return completed;
+      } catch (error: any) {
+        await db.update(reconciliationRuns)
+          .set({ status: 'failed', error: error.message, completedAt: new Date() })
+          .where(eq(reconciliationRuns.id, run.id));
+        throw error;
+      }
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Fetch contract events in chunks and store them. Events already stored are skipped.
+   */
+  private async replayEvents(fromBlock: number, toBlock: number): Promise<number> {
+    let stored = 0;
+    for (let start = fromBlock; start <= toBlock; start += config.reconciliationBlockChunk) {
+      const end = Math.min(start + config.reconciliationBlockChunk - 1, toBlock);
+      const events = await blockchain.getRewardEvents(start, end);
+      if (events.length === 0) {
+        continue;
+      }
+
+      const inserted = await db.insert(chainRewardEvents)
+        .values(events.map(event => ({
+          eventName: event.name,
+          githubRepoId: event.repoId,
+          githubIssueNumber: event.issueId,
+          currency: event.currency,
+          amount: event.amount.toString(),
+          address: event.address,
+          blockNumber: event.blockNumber,
+          transactionHash: event.transactionHash,
+          logIndex: event.logIndex,
+        })))
+        .onConflictDoNothing({ target: [chainRewardEvents.transactionHash, chainRewardEvents.logIndex] })
+        .returning({ id: chainRewardEvents.id });
+      stored += inserted.length;
+    }
+    return stored;
+  }
+
+  /**
+   * Rebuild each repository's pool from its events: funding adds, allocation and increases subtract,
+   * cancellation returns. Distributions are paid from the bounty, not the pool. The contract is read at
+   * the last replayed block so both sides cover the same events.
+   */
+  private async reconcilePoolBalances(atBlock: number): Promise<ReconciliationMismatch[]> {
+    const events = await db.select()
+      .from(chainRewardEvents)
+      .orderBy(asc(chainRewardEvents.blockNumber), asc(chainRewardEvents.logIndex));
+
+    const pools = new Map<string, { balances: Record<Currency, bigint>; lastEventBlock: number }>();
+    for (const event of events) {
+      const pool = pools.get(event.githubRepoId) ?? { balances: { XDC: BigInt(0), ROXN: BigInt(0), USDC: BigInt(0) }, lastEventBlock: 0 };
+      const amount = BigInt(event.amount);
+      if (event.eventName.endsWith('FundAddedToRepository') || event.eventName === 'RewardCancelled') {
+        pool.balances[event.currency] += amount;
+      } else if (event.eventName === 'RewardAllocated' || event.eventName === 'RewardIncreased') {
+        pool.balances[event.currency] -= amount;
+      }
+      pool.lastEventBlock = event.blockNumber;
+      pools.set(event.githubRepoId, pool);
+    }
+
+    const registered = await db.select({ githubRepoId: registeredRepositories.githubRepoId }).from(registeredRepositories);
+    const registeredIds = new Set(registered.map(r => r.githubRepoId));
+
+    const mismatches: ReconciliationMismatch[] = [];
+    for (const [githubRepoId, pool] of Array.from(pools.entries())) {
+      if (!registeredIds.has(githubRepoId)) {
+        mismatches.push({ type: 'unregistered_repository', githubRepoId, expected: 'registered', actual: 'missing', resolved: false });
+      }
+
+      const derived = {
+        XDC: ethers.formatUnits(pool.balances.XDC, CURRENCY_DECIMALS.XDC),
+        ROXN: ethers.formatUnits(pool.balances.ROXN, CURRENCY_DECIMALS.ROXN),
+        USDC: ethers.formatUnits(pool.balances.USDC, CURRENCY_DECIMALS.USDC),
+      };
+      const onChain = await blockchain.getRepository(parseInt(githubRepoId), atBlock);
+      const live: Record<Currency, string> = {
+        XDC: onChain.xdcPoolRewards,
+        ROXN: onChain.roxnPoolRewards,
+        USDC: onChain.usdcPoolRewards,
+      };
+
+      let hasMismatch = false;
+      for (const currency of ['XDC', 'ROXN', 'USDC'] as Currency[]) {
+        if (ethers.parseUnits(live[currency], CURRENCY_DECIMALS[currency]) !== pool.balances[currency]) {
+          hasMismatch = true;
+          mismatches.push({
+            type: 'pool_balance',
+            githubRepoId,
+            expected: `${derived[currency]} ${currency}`,
+            actual: `${live[currency]} ${currency}`,
+            resolved: false,
+          });
+        }
+      }
+
+      const values = {
+        githubRepoId,
+        xdcBalance: derived.XDC,
+        roxnBalance: derived.ROXN,
+        usdcBalance: derived.USDC,
+        onChainXdcBalance: live.XDC,
+        onChainRoxnBalance: live.ROXN,
+        onChainUsdcBalance: live.USDC,
+        hasMismatch,
+        lastEventBlock: pool.lastEventBlock,
+        reconciledAt: new Date(),
+      };
+      await db.insert(repositoryPoolBalances)
+        .values(values)
+        .onConflictDoUpdate({ target: repositoryPoolBalances.githubRepoId, set: values });
+    }
+
+    return mismatches;
+  }
+
+  /**
+   * Rebuild each bounty's state from its latest event and correct multi_currency_bounties where it disagrees.
+   * A bounty topped up in other currencies is tracked per currency, as it is stored.
+   * Corrections only move a bounty forward: a missing row is recorded and an open row is updated or closed,
+   * but a distributed or cancelled row is never reopened. That drift, and payout ledger entries that
+   * disagree with the chain, are flagged for manual review.
+   */
+  private async reconcileBountyStates(): Promise<ReconciliationMismatch[]> {
+    const events = await db.select()
+      .from(chainRewardEvents)
+      .where(isNotNull(chainRewardEvents.githubIssueNumber))
+      .orderBy(asc(chainRewardEvents.blockNumber), asc(chainRewardEvents.logIndex));
+
+    const derived = new Map<string, DerivedBounty>();
+    for (const event of events) {
+      const key = `${event.githubRepoId}:${event.githubIssueNumber}:${event.currency}`;
+      const bounty = this.applyBountyEvent(derived.get(key), event);
+      if (bounty) {
+        derived.set(key, bounty);
+      }
+    }
+
+    const rows = await db.select()
+      .from(multiCurrencyBounties)
+      .orderBy(asc(multiCurrencyBounties.createdAt));
+    const latestRows = new Map(rows.map(row => [`${row.repoId}:${row.issueId}:${row.currencyType}`, row]));
+
+    // The chain only holds an issue's latest allocation, so compare it with the latest ledger entry
+    const ledgerEntries = await db.select().from(payoutLedger).orderBy(asc(payoutLedger.allocationSeq));
+    const ledgerByIssue = new Map(ledgerEntries.map(entry => [`${entry.githubRepoId}:${entry.githubIssueNumber}`, entry]));
+
+    const mismatches: ReconciliationMismatch[] = [];
+    for (const [key, bounty] of Array.from(derived.entries())) {
+      const row = latestRows.get(key);
+      const amountDiffers = row?.status === 'allocated' && bounty.state === 'allocated'
+        && parseFloat(row.amount) !== parseFloat(bounty.amount);
+      if (!row || row.status !== bounty.state || amountDiffers) {
+        const closed = row?.status === 'distributed' || row?.status === 'cancelled';
+        if (!closed) {
+          await storage.upsertMultiCurrencyBounty({
+            repoId: bounty.githubRepoId,
+            issueId: bounty.issueNumber,
+            currencyType: bounty.currency,
+            amount: bounty.amount,
+            status: bounty.state,
+            transactionHash: bounty.transactionHash,
+            contributorAddress: bounty.contributorAddress,
+          });
+        }
+        mismatches.push({
+          type: 'bounty_state',
+          githubRepoId: bounty.githubRepoId,
+          githubIssueNumber: bounty.issueNumber,
+          expected: amountDiffers ? `${bounty.amount} ${bounty.currency}` : bounty.state,
+          actual: amountDiffers ? `${row!.amount} ${bounty.currency}` : row?.status ?? 'missing',
+          resolved: !closed,
+        });
+      }
+
+      const entry = ledgerByIssue.get(`${bounty.githubRepoId}:${bounty.issueNumber}`);
+      const ledgerPaid = entry?.status === 'confirmed';
+      if (entry && ledgerPaid !== (bounty.state === 'distributed')) {
+        mismatches.push({
+          type: 'payout_ledger',
+          githubRepoId: bounty.githubRepoId,
+          githubIssueNumber: bounty.issueNumber,
+          expected: bounty.state,
+          actual: entry.status,
+          resolved: false,
+        });
+      }
+    }
+
+    return mismatches;
+  }
+
+  private applyBountyEvent(current: DerivedBounty | undefined, event: ChainRewardEvent): DerivedBounty | null {
+    const base = {
+      githubRepoId: event.githubRepoId,
+      issueNumber: event.githubIssueNumber!,
+      transactionHash: event.transactionHash,
+    };
+
+    switch (event.eventName) {
+      case 'RewardAllocated':
+        return {
+          ...base,
+          state: 'allocated',
+          currency: event.currency,
+          amount: ethers.formatUnits(BigInt(event.amount), CURRENCY_DECIMALS[event.currency]),
+          contributorAddress: null,
+        };
+      case 'RewardIncreased': {
+        // An increase in the bounty's own currency raises it; in another currency it starts an extra reward
+        const increase = BigInt(event.amount);
+        const previous = current?.state === 'allocated'
+          ? ethers.parseUnits(current.amount, CURRENCY_DECIMALS[event.currency])
+          : BigInt(0);
+        return {
+          ...base,
+          state: 'allocated',
+          currency: event.currency,
+          amount: ethers.formatUnits(previous + increase, CURRENCY_DECIMALS[event.currency]),
+          contributorAddress: null,
+        };
+      }
+      case 'RewardDistributed':
+        // Split payouts emit one event per recipient; the allocation amount is kept from the allocation event
+        return current ? { ...current, ...base, state: 'distributed', contributorAddress: event.address } : null;
+      case 'RewardCancelled':
+        return current ? { ...current, ...base, state: 'cancelled' } : null;
+      default:
+        return null;
+    }
+  }
+
+  async getLatestRun(): Promise<ReconciliationRun | null> {
+    const [run] = await db.select()
+      .from(reconciliationRuns)
+      .orderBy(desc(reconciliationRuns.startedAt))
+      .limit(1);
+    return run || null;
+  }
+
+  async getPoolBalances(): Promise<RepositoryPoolBalance[]> {
+    return await db.select()
+      .from(repositoryPoolBalances)
+      .orderBy(desc(repositoryPoolBalances.hasMismatch), asc(repositoryPoolBalances.githubRepoId));
+  }
+}
+
+export const reconciliationService = new ReconciliationService();
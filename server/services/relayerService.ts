@@ -0,0 +1,264 @@
+import { db } from '../db';
+import {
+  relayerRequests,
+  type RelayAction,
+  type RelayerRequest
+} from '../../shared/schema';
+import { eq, and, gt, lt, ne, asc, desc, inArray, sql } from 'drizzle-orm';
+import { ethers } from 'ethers';
+import { config } from '../config';
+import { log } from '../utils';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+// Requests give up after this many failed sends and the user has to retry the action
+const MAX_ATTEMPTS = 3;
+
+/**
+ * Thrown when a sponsored call was signed but parked in the queue because the relayer is low on
+ * XDC. The call runs once the queue processor can send it.
+ */
+export class RelayQueuedError extends Error {
+  constructor(public readonly requestId: number, public readonly action: RelayAction) {
+    super(`${action} was queued as relay request ${requestId} until the relayer is funded`);
+    this.name = 'RelayQueuedError';
+  }
+}
+
+export interface SponsorshipCheck {
+  sponsored: boolean;
+  reason?: string;
+  userSpentXdc: string;
+  repoSpentXdc: string;
+}
+
+export interface ForwardRequestInput {
+  userId: number;
+  repoId: string | null;
+  action: RelayAction;
+  fromAddress: string;
+  toAddress: string;
+  data: string;
+  gas: bigint;
+}
+
+export interface SpendSummaryRow {
+  id: string; // User id or repository id
+  spentXdc: string;
+  requests: number;
+}
+
+/**
+ * Bookkeeping for the gas relayer: signed forward requests, forwarder nonces, the queue and
+ * sponsorship spend. Sending happens in BlockchainService, which owns the relayer wallet.
+ */
+export class RelayerService {
+
+  /**
+   * Whether the platform should pay gas for this call, based on the rolling 24-hour spend of
+   * the user and of the repository against their budgets
+   */
+  async checkSponsorship(userId: number, repoId: string | null): Promise<SponsorshipCheck> {
+    const since = new Date(Date.now() - DAY_IN_MS);
+    const [userSpend, repoSpend] = await Promise.all([
+      this.sumSpend(eq(relayerRequests.userId, userId), since),
+      repoId ? this.sumSpend(eq(relayerRequests.repoId, repoId), since) : Promise.resolve('0'),
+    ]);
+
+    let reason: string | undefined;
+    if (!config.relayerSponsorshipEnabled) {
+      reason = 'Gas sponsorship is turned off';
+    } else if (ethers.parseEther(userSpend) >= ethers.parseEther(config.relayerUserDailyBudgetXdc)) {
+      reason = `User ${userId} used the daily sponsorship budget of ${config.relayerUserDailyBudgetXdc} XDC`;
+    } else if (repoId && ethers.parseEther(repoSpend) >= ethers.parseEther(config.relayerRepoDailyBudgetXdc)) {
+      reason = `Repository ${repoId} used the daily sponsorship budget of ${config.relayerRepoDailyBudgetXdc} XDC`;
+    }
+
+    return { sponsored: !reason, reason, userSpentXdc: userSpend, repoSpentXdc: repoSpend };
+  }
+
+  /**
+   * Pick the signer's next forwarder nonce and store the signed request, holding a per-signer
+   * lock so requests signed concurrently (or still waiting in the queue) never share a nonce.
+   * `chainNonce` is CustomForwarder.getNonce for the signer.
+   */
+  async createRequest(
+    input: ForwardRequestInput,
+    chainNonce: bigint,
+    sign: (nonce: bigint) => Promise<string>
+  ): Promise<RelayerRequest> {
+    const fromAddress = input.fromAddress.toLowerCase();
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`relayer:${fromAddress}`}))`);
+
+      const [latest] = await tx
+        .select({ maxNonce: sql<string | null>`MAX(${relayerRequests.nonce}::numeric)::text` })
+        .from(relayerRequests)
+        .where(and(
+          sql`LOWER(${relayerRequests.fromAddress}) = ${fromAddress}`,
+          ne(relayerRequests.status, 'failed')
+        ));
+      const nextLocal = latest?.maxNonce ? BigInt(latest.maxNonce) + BigInt(1) : BigInt(0);
+      const nonce = nextLocal > chainNonce ? nextLocal : chainNonce;
+
+      const signature = await sign(nonce);
+      const [request] = await tx.insert(relayerRequests).values({
+        userId: input.userId,
+        repoId: input.repoId,
+        action: input.action,
+        fromAddress: input.fromAddress,
+        toAddress: input.toAddress,
+        data: input.data,
+        gas: input.gas.toString(),
+        nonce: nonce.toString(),
+        signature,
+      }).returning();
+      return request;
+    });
+  }
+
+  async markSubmitted(id: number, transactionHash: string): Promise<void> {
+    await db.update(relayerRequests)
+      .set({
+        status: 'submitted',
+        transactionHash,
+        submittedAt: new Date(),
+        attempts: sql`${relayerRequests.attempts} + 1`,
+      })
+      .where(eq(relayerRequests.id, id));
+  }
+
+  async markConfirmed(id: number, gasUsed: bigint, gasPrice: bigint): Promise<void> {
+    await db.update(relayerRequests)
+      .set({
+        status: 'confirmed',
+        gasUsed: gasUsed.toString(),
+        costXdc: ethers.formatEther(gasUsed * gasPrice),
+        confirmedAt: new Date(),
+      })
+      .where(eq(relayerRequests.id, id));
+  }
+
+  /**
+   * Record an error on a request that was sent but whose outcome is unknown. It stays submitted,
+   * keeping its nonce out of reach of new requests, until the chain shows whether it ran.
+   */
+  async markUnconfirmed(id: number, error: string): Promise<void> {
+    await db.update(relayerRequests)
+      .set({ lastError: error.substring(0, 1000) })
+      .where(eq(relayerRequests.id, id));
+    log(`Relay request ${id} was sent but is not confirmed yet: ${error}`, 'relayer');
+  }
+
+  /**
+   * Record a failed send. Requests that can still be retried go back to the queue.
+   */
+  async markFailed(request: RelayerRequest, error: string, retryable: boolean): Promise<void> {
+    const giveUp = !retryable || request.attempts + 1 >= MAX_ATTEMPTS;
+    await db.update(relayerRequests)
+      .set({
+        status: giveUp ? 'failed' : 'queued',
+        lastError: error.substring(0, 1000),
+        attempts: sql`${relayerRequests.attempts} + 1`,
+      })
+      .where(eq(relayerRequests.id, request.id));
+    log(`Relay request ${request.id} (${request.action}) ${giveUp ? 'failed' : 'requeued'}: ${error}`, 'relayer');
+  }
+
+  /**
+   * Oldest queued requests first, so each signer's nonces are sent in order
+   */
+  async listQueued(limit: number = 20): Promise<RelayerRequest[]> {
+    return await db.query.relayerRequests.findMany({
+      where: eq(relayerRequests.status, 'queued'),
+      orderBy: [asc(relayerRequests.id)],
+      limit,
+    });
+  }
+
+  /**
+   * Requests sent before the cutoff that are still waiting for an outcome, oldest first
+   */
+  async listStaleSubmitted(submittedBefore: Date, limit: number = 20): Promise<RelayerRequest[]> {
+    return await db.query.relayerRequests.findMany({
+      where: and(
+        eq(relayerRequests.status, 'submitted'),
+        lt(relayerRequests.submittedAt, submittedBefore)
+      ),
+      orderBy: [asc(relayerRequests.id)],
+      limit,
+    });
+  }
+
+  /**
+   * Whether the signer has requests waiting to be sent or confirmed. A new request for the same
+   * signer would need a later nonce, so it cannot be sent ahead of them.
+   */
+  async hasPending(fromAddress: string): Promise<boolean> {
+    const pending = await db.query.relayerRequests.findFirst({
+      where: and(
+        sql`LOWER(${relayerRequests.fromAddress}) = ${fromAddress.toLowerCase()}`,
+        inArray(relayerRequests.status, ['queued', 'submitted'])
+      ),
+      columns: { id: true },
+    });
+    return !!pending;
+  }
+
+  async getRequest(id: number): Promise<RelayerRequest | null> {
+    const request = await db.query.relayerRequests.findFirst({ where: eq(relayerRequests.id, id) });
+    return request || null;
+  }
+
+  async listRecent(limit: number = 100): Promise<RelayerRequest[]> {
+    return await db.query.relayerRequests.findMany({
+      orderBy: [desc(relayerRequests.createdAt)],
+      limit,
+    });
+  }
+
+  async getQueueDepth(): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(relayerRequests)
+      .where(eq(relayerRequests.status, 'queued'));
+    return row?.count ?? 0;
+  }
+
+  /**
+   * Sponsored spend over the last 24 hours, grouped by user or by repository, highest first
+   */
+  async getSpendSummary(groupBy: 'user' | 'repo', limit: number = 50): Promise<SpendSummaryRow[]> {
+    const column = groupBy === 'user' ? relayerRequests.userId : relayerRequests.repoId;
+    const rows = await db
+      .select({
+        id: sql<string>`${column}::text`,
+        spentXdc: sql<string>`COALESCE(SUM(${relayerRequests.costXdc}), 0)::text`,
+        requests: sql<number>`count(*)::int`,
+      })
+      .from(relayerRequests)
+      .where(and(
+        eq(relayerRequests.status, 'confirmed'),
+        gt(relayerRequests.confirmedAt, new Date(Date.now() - DAY_IN_MS)),
+        sql`${column} IS NOT NULL`
+      ))
+      .groupBy(column)
+      .orderBy(sql`SUM(${relayerRequests.costXdc}) DESC`)
+      .limit(limit);
+    return rows;
+  }
+
+  private async sumSpend(subject: ReturnType<typeof eq>, since: Date): Promise<string> {
+    const [row] = await db
+      .select({ spent: sql<string | null>`SUM(${relayerRequests.costXdc})::text` })
+      .from(relayerRequests)
+      .where(and(
+        subject,
+        eq(relayerRequests.status, 'confirmed'),
+        gt(relayerRequests.confirmedAt, since)
+      ));
+    return row?.spent ? ethers.formatEther(ethers.parseEther(row.spent)) : '0';
+  }
+}
+
+export const relayerService = new RelayerService();
@@ -0,0 +1,413 @@
+import { ethers } from 'ethers';
+import { db } from '../db';
+import {
+  relayerTransactions,
+  type RelayerTransaction,
+  type RelayerTransactionStatus
+} from '../../shared/schema';
+import { eq, and, asc, desc, sql } from 'drizzle-orm';
+import { config } from '../config';
+import { log } from '../utils';
+
+const XDC_CHAIN_ID = 50;
+const RECEIPT_POLL_MS = 5000;
+const DEFAULT_WAIT_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface RelayerTxRequest {
+  to: string;
+  data: string;
+  gasLimit: bigint;
+  value?: bigint;
+  gasPrice?: bigint; // Defaults to the network price plus 20%
+}
+
+export interface RelayerAlert {
+  level: 'warning' | 'critical';
+  message: string;
+}
+
+export interface RelayerStatus {
+  address: string;
+  balanceXdc: string;
+  alertBalanceXdc: string;
+  minimumBalanceXdc: string;
+  latestNonce: number;
+  pendingNonce: number;
+  pendingTransactions: number;
+  stuckTransactions: number;
+  alerts: RelayerAlert[];
+}
+
+function isNonceError(error: any): boolean {
+  const message = String(error?.message || '').toLowerCase();
+  return error?.code === 'NONCE_EXPIRED'
+    || error?.code === 'REPLACEMENT_UNDERPRICED'
+    || message.includes('nonce too low')
+    || message.includes('replacement transaction underpriced');
+}
+
+/**
+ * Single path for every transaction the relayer hot wallet sends. Sends are serialized so each
+ * gets the next nonce, every broadcast is recorded, and transactions that sit in the mempool are
+ * rebroadcast at a higher gas price by the periodic check.
+ */
+export class RelayerTransactionService {
+  private wallet: ethers.Wallet | null = null;
+  private nextNonce: number | null = null;
+  private sendChain: Promise<unknown> = Promise.resolve();
+  private lastAlertLevel: RelayerAlert['level'] | null = null;
+
+  /**
+   * Called by BlockchainService once it has a working RPC connection
+   */
+  initialize(wallet: ethers.Wallet): void {
+    if (!wallet.provider) {
+      throw new Error('Relayer wallet must be connected to a provider');
+    }
+    this.wallet = wallet;
+    this.nextNonce = null;
+  }
+
+  get address(): string {
+    return this.requireWallet().address;
+  }
+
+  /**
+   * Broadcast a transaction from the relayer and record it. Resolves once the node accepted it;
+   * use waitForReceipt for the outcome, which also follows gas-bumped rebroadcasts.
+   */
+  async send(request: RelayerTxRequest, purpose: string): Promise<RelayerTransaction> {
+    const wallet = this.requireWallet();
+    const gasPrice = request.gasPrice ?? await this.getNetworkGasPrice();
+    const value = request.value ?? BigInt(0);
+
+    return await this.serialize(async () => {
+      for (let attempt = 0; ; attempt++) {
+        const nonce = await this.reserveNonce();
+        try {
+          const response = await wallet.sendTransaction({
+            to: request.to,
+            data: request.data,
+            value,
+            gasLimit: request.gasLimit,
+            gasPrice,
+            nonce,
+            chainId: XDC_CHAIN_ID,
+          });
+          this.nextNonce = nonce + 1;
+
+          const [record] = await db.insert(relayerTransactions).values({
+            purpose,
+            fromAddress: wallet.address,
+            toAddress: request.to,
+            data: request.data,
+            value: value.toString(),
+            nonce,
+            gasLimit: request.gasLimit.toString(),
+            gasPrice: gasPrice.toString(),
+            transactionHash: response.hash,
+            broadcastHashes: [response.hash],
+          }).returning();
+
+          log(`Relayer sent ${purpose} with nonce ${nonce}. TX: ${response.hash}`, 'relayer');
+          return record;
+        } catch (error: any) {
+          // Another process or a manual send used the nonce; resync from the chain once
+          if (attempt === 0 && isNonceError(error)) {
+            log(`Relayer nonce ${nonce} rejected (${error.message}), resyncing`, 'relayer');
+            this.nextNonce = null;
+            continue;
+          }
+          throw error;
+        }
+      }
+    });
+  }
+
+  /**
+   * Wait until one of the transaction's broadcasts is mined. Throws if it reverted, was dropped,
+   * or is still pending at the timeout.
+   */
+  async waitForReceipt(transaction: RelayerTransaction, timeoutMs: number = DEFAULT_WAIT_TIMEOUT_MS): Promise<ethers.TransactionReceipt> {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      const current = await db.query.relayerTransactions.findFirst({ where: eq(relayerTransactions.id, transaction.id) });
+      if (!current) {
+        throw new Error(`Relayer transaction ${transaction.id} not found`);
+      }
+
+      const receipt = await this.settle(current);
+      if (receipt) {
+        if (receipt.status !== 1) {
+          throw new Error(`Relayer transaction ${receipt.hash} reverted`);
+        }
+        return receipt;
+      }
+      if (current.status === 'dropped') {
+        throw new Error(`Relayer transaction ${current.transactionHash} was dropped: ${current.error}`);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, RECEIPT_POLL_MS));
+    }
+    throw new Error(`Timed out waiting for relayer transaction ${transaction.transactionHash}`);
+  }
+
+  /**
+   * Find a transaction by any of its broadcast hashes and settle it if it was mined. The receipt
+   * is null while it is pending or after it was dropped. Null if the relayer never sent it.
+   */
+  async lookup(transactionHash: string): Promise<{ transaction: RelayerTransaction; receipt: ethers.TransactionReceipt | null } | null> {
+    const transaction = await db.query.relayerTransactions.findFirst({
+      where: sql`${relayerTransactions.broadcastHashes} @> ${JSON.stringify([transactionHash])}::jsonb`,
+    });
+    if (!transaction) {
+      return null;
+    }
+    return { transaction, receipt: await this.settle(transaction) };
+  }
+
+  /**
+   * Settle pending transactions that were mined and rebroadcast the ones that have waited past
+   * the stuck threshold. Runs on a timer.
+   */
+  async checkPendingTransactions(): Promise<void> {
+    if (!this.wallet) return;
+
+    const pending = await db.query.relayerTransactions.findMany({
+      where: this.pendingFromWallet(),
+      orderBy: [asc(relayerTransactions.nonce)],
+    });
+
+    const stuckBefore = Date.now() - config.relayerStuckTxMinutes * 60 * 1000;
+    for (const transaction of pending) {
+      try {
+        const receipt = await this.settle(transaction);
+        if (!receipt && transaction.lastBroadcastAt.getTime() < stuckBefore) {
+          await this.bumpGas(transaction);
+        }
+      } catch (error: any) {
+        log(`Failed to check relayer transaction ${transaction.transactionHash}: ${error.message}`, 'relayer-ERROR');
+      }
+    }
+
+    await this.logBalanceAlerts();
+  }
+
+  async getStatus(): Promise<RelayerStatus> {
+    const wallet = this.requireWallet();
+    const provider = wallet.provider!;
+    const [balance, latestNonce, pendingNonce, counts] = await Promise.all([
+      provider.getBalance(wallet.address),
+      provider.getTransactionCount(wallet.address, 'latest'),
+      provider.getTransactionCount(wallet.address, 'pending'),
+      this.countPending(),
+    ]);
+
+    return {
+      address: wallet.address,
+      balanceXdc: ethers.formatEther(balance),
+      alertBalanceXdc: config.relayerBalanceAlertXdc,
+      minimumBalanceXdc: config.relayerMinBalanceXdc,
+      latestNonce,
+      pendingNonce,
+      pendingTransactions: counts.pending,
+      stuckTransactions: counts.stuck,
+      alerts: this.buildAlerts(balance, counts.stuck),
+    };
+  }
+
+  async listTransactions(status?: RelayerTransactionStatus, limit: number = 100): Promise<RelayerTransaction[]> {
+    return await db.query.relayerTransactions.findMany({
+      where: status ? eq(relayerTransactions.status, status) : undefined,
+      orderBy: [desc(relayerTransactions.createdAt)],
+      limit,
+    });
+  }
+
+  private requireWallet(): ethers.Wallet {
+    if (!this.wallet) {
+      throw new Error('Relayer wallet is not initialized');
+    }
+    return this.wallet;
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.sendChain.then(task, task);
+    this.sendChain = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Next nonce to use: past the chain's pending count, anything this process sent, and any
+   * recorded transaction still pending (which may have fallen out of the node's mempool and
+   * will be rebroadcast rather than replaced)
+   */
+  private async reserveNonce(): Promise<number> {
+    const wallet = this.requireWallet();
+    const [chainPending, [recorded]] = await Promise.all([
+      wallet.provider!.getTransactionCount(wallet.address, 'pending'),
+      db.select({ maxNonce: sql<number | null>`MAX(${relayerTransactions.nonce})` })
+        .from(relayerTransactions)
+        .where(this.pendingFromWallet()),
+    ]);
+    const afterRecorded = recorded?.maxNonce !== null && recorded?.maxNonce !== undefined ? Number(recorded.maxNonce) + 1 : 0;
+    return Math.max(chainPending, this.nextNonce ?? 0, afterRecorded);
+  }
+
+  private async getNetworkGasPrice(): Promise<bigint> {
+    const feeData = await this.requireWallet().provider!.getFeeData();
+    return feeData.gasPrice! * BigInt(120) / BigInt(100);
+  }
+
+  /**
+   * Look for a receipt among every broadcast of this nonce and record the outcome.
+   * Marks the row dropped if the nonce was used by a transaction we did not send.
+   */
+  private async settle(transaction: RelayerTransaction): Promise<ethers.TransactionReceipt | null> {
+    const provider = this.requireWallet().provider!;
+
+    for (const hash of [...transaction.broadcastHashes].reverse()) {
+      const receipt = await provider.getTransactionReceipt(hash);
+      if (!receipt) continue;
+
+      if (transaction.status === 'pending' || transaction.transactionHash !== receipt.hash) {
+        await db.update(relayerTransactions)
+          .set({
+            status: receipt.status === 1 ? 'confirmed' : 'failed',
+            transactionHash: receipt.hash,
+            blockNumber: receipt.blockNumber,
+            gasUsed: receipt.gasUsed.toString(),
+            effectiveGasPrice: receipt.gasPrice.toString(),
+            settledAt: new Date(),
+          })
+          .where(eq(relayerTransactions.id, transaction.id));
+      }
+      return receipt;
+    }
+
+    if (transaction.status === 'pending') {
+      const minedNonce = await provider.getTransactionCount(transaction.fromAddress, 'latest');
+      if (minedNonce > transaction.nonce) {
+        await db.update(relayerTransactions)
+          .set({ status: 'dropped', error: 'Nonce was used by another transaction', settledAt: new Date() })
+          .where(eq(relayerTransactions.id, transaction.id));
+        transaction.status = 'dropped';
+        transaction.error = 'Nonce was used by another transaction';
+        log(`Relayer transaction ${transaction.transactionHash} (nonce ${transaction.nonce}) was dropped`, 'relayer-ERROR');
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Rebroadcast a stuck transaction with the same nonce at a higher gas price
+   */
+  private async bumpGas(transaction: RelayerTransaction): Promise<void> {
+    if (transaction.bumpCount >= config.relayerMaxGasBumps) {
+      log(`Relayer transaction ${transaction.transactionHash} is still pending after ${transaction.bumpCount} gas bumps`, 'relayer-ERROR');
+      return;
+    }
+
+    const wallet = this.requireWallet();
+    const previous = BigInt(transaction.gasPrice);
+    const bumped = previous * BigInt(100 + config.relayerGasBumpPercent) / BigInt(100);
+    const network = await this.getNetworkGasPrice();
+    const cap = ethers.parseUnits(config.relayerMaxGasPriceGwei, 'gwei');
+    const gasPrice = [bumped > network ? bumped : network, cap].reduce((a, b) => a < b ? a : b);
+    if (gasPrice <= previous) {
+      log(`Relayer transaction ${transaction.transactionHash} is stuck at the gas price cap of ${config.relayerMaxGasPriceGwei} gwei`, 'relayer-ERROR');
+      return;
+    }
+
+    await this.serialize(async () => {
+      try {
+        const response = await wallet.sendTransaction({
+          to: transaction.toAddress,
+          data: transaction.data,
+          value: BigInt(transaction.value),
+          gasLimit: BigInt(transaction.gasLimit),
+          gasPrice,
+          nonce: transaction.nonce,
+          chainId: XDC_CHAIN_ID,
+        });
+
+        await db.update(relayerTransactions)
+          .set({
+            gasPrice: gasPrice.toString(),
+            transactionHash: response.hash,
+            broadcastHashes: sql`${relayerTransactions.broadcastHashes} || ${JSON.stringify([response.hash])}::jsonb`,
+            bumpCount: sql`${relayerTransactions.bumpCount} + 1`,
+            lastBroadcastAt: new Date(),
+          })
+          .where(eq(relayerTransactions.id, transaction.id));
+
+        log(`Rebroadcast relayer nonce ${transaction.nonce} at ${ethers.formatUnits(gasPrice, 'gwei')} gwei. TX: ${response.hash}`, 'relayer');
+      } catch (error: any) {
+        // The original was mined between the check and the rebroadcast; the next check settles it
+        if (isNonceError(error)) return;
+        throw error;
+      }
+    });
+  }
+
+  private async countPending(): Promise<{ pending: number; stuck: number }> {
+    const stuckBefore = new Date(Date.now() - config.relayerStuckTxMinutes * 60 * 1000);
+    const [row] = await db
+      .select({
+        pending: sql<number>`count(*)::int`,
+        stuck: sql<number>`count(*) FILTER (WHERE ${relayerTransactions.lastBroadcastAt} < ${stuckBefore})::int`,
+      })
+      .from(relayerTransactions)
+      .where(this.pendingFromWallet());
+    return { pending: row?.pending ?? 0, stuck: row?.stuck ?? 0 };
+  }
+
+  /**
+   * Pending transactions sent by this service's wallet. Other wallets, like the sponsorship
+   * escrow, record theirs in the same table through their own instance.
+   */
+  private pendingFromWallet() {
+    return and(
+      sql`LOWER(${relayerTransactions.fromAddress}) = ${this.requireWallet().address.toLowerCase()}`,
+      eq(relayerTransactions.status, 'pending')
+    );
+  }
+
+  private buildAlerts(balance: bigint, stuck: number): RelayerAlert[] {
+    const alerts: RelayerAlert[] = [];
+    if (balance < ethers.parseEther(config.relayerMinBalanceXdc)) {
+      alerts.push({
+        level: 'critical',
+        message: `Relayer balance ${ethers.formatEther(balance)} XDC is below the ${config.relayerMinBalanceXdc} XDC minimum; sponsored calls are being queued`,
+      });
+    } else if (balance < ethers.parseEther(config.relayerBalanceAlertXdc)) {
+      alerts.push({
+        level: 'warning',
+        message: `Relayer balance ${ethers.formatEther(balance)} XDC is below the ${config.relayerBalanceAlertXdc} XDC alert threshold`,
+      });
+    }
+    if (stuck > 0) {
+      alerts.push({ level: 'warning', message: `${stuck} relayer transactions have been pending for over ${config.relayerStuckTxMinutes} minutes` });
+    }
+    return alerts;
+  }
+
+  /**
+   * Log when the balance crosses an alert threshold, once per change rather than on every check
+   */
+  private async logBalanceAlerts(): Promise<void> {
+    const wallet = this.requireWallet();
+    const balance = await wallet.provider!.getBalance(wallet.address);
+    const level = this.buildAlerts(balance, 0)[0]?.level ?? null;
+    if (level !== this.lastAlertLevel) {
+      if (level) {
+        log(`Relayer ${wallet.address} balance is low (${level}): ${ethers.formatEther(balance)} XDC`, 'relayer-ERROR');
+      } else if (this.lastAlertLevel) {
+        log(`Relayer ${wallet.address} balance recovered: ${ethers.formatEther(balance)} XDC`, 'relayer');
+      }
+      this.lastAlertLevel = level;
+    }
+  }
+}
+
+export const relayerTransactionService = new RelayerTransactionService();
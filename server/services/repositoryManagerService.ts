@@ -0,0 +1,231 @@
+import { db } from '../db';
+import {
+  repositoryManagers,
+  registeredRepositories,
+  type RepositoryManager,
+  type BountyAllocationCaps
+} from '../../shared/schema';
+import { eq, and, ne, desc, sql } from 'drizzle-orm';
+import { ethers } from 'ethers';
+import { storage } from '../storage';
+import { log } from '../utils';
+
+export type RepositoryRole = RepositoryManager['role'];
+
+export interface RepositoryAccess {
+  role: RepositoryRole;
+  allocationCaps: BountyAllocationCaps;
+  signer: any; // The on-chain pool manager whose wallet signs bounty transactions for this user
+}
+
+export interface RepositoryManagerInvite extends RepositoryManager {
+  githubRepoFullName: string | null;
+}
+
+const ROLE_RANK: Record<RepositoryRole, number> = { viewer: 0, allocator: 1, owner: 2 };
+
+function usernameMatches(githubUsername: string) {
+  return sql`lower(${repositoryManagers.githubUsername}) = ${githubUsername.toLowerCase()}`;
+}
+
+export class RepositoryManagerService {
+
+  /**
+   * Resolve what a GitHub user may do with a repository's bounties.
+   * On-chain pool managers are owners and sign for themselves; delegated members act through
+   * the repository's first on-chain pool manager. Returns null for everyone else, and when the
+   * repository has no pool manager with an account to sign.
+   */
+  async getAccess(githubRepoId: string, githubUsername: string): Promise<RepositoryAccess | null> {
+    const poolManagers = await storage.getRepositoryPoolManagers(parseInt(githubRepoId));
+    if (poolManagers.length === 0) {
+      return null;
+    }
+
+    const onChainManager = poolManagers.find(user => user.githubUsername?.toLowerCase() === githubUsername.toLowerCase());
+    if (onChainManager) {
+      return { role: 'owner', allocationCaps: {}, signer: onChainManager };
+    }
+
+    const member = await this.getActiveMember(githubRepoId, githubUsername);
+    if (!member) {
+      return null;
+    }
+    return { role: member.role, allocationCaps: member.allocationCaps, signer: poolManagers[0] };
+  }
+
+  hasRole(access: RepositoryAccess | null, minimum: RepositoryRole): access is RepositoryAccess {
+    return !!access && ROLE_RANK[access.role] >= ROLE_RANK[minimum];
+  }
+
+  /**
+   * Whether a bounty of this total may be allocated. Owners have no cap; allocators may only
+   * allocate in a currency they have a cap for, up to that cap per bounty.
+   */
+  canAllocate(access: RepositoryAccess | null, currency: 'XDC' | 'ROXN' | 'USDC', totalAmount: string): boolean {
+    if (!this.hasRole(access, 'allocator')) {
+      return false;
+    }
+    if (access.role === 'owner') {
+      return true;
+    }
+    const cap = access.allocationCaps[currency];
+    if (!cap) {
+      return false;
+    }
+    const decimals = currency === 'USDC' ? 6 : 18;
+    return ethers.parseUnits(totalAmount, decimals) <= ethers.parseUnits(cap, decimals);
+  }
+
+  async getActiveMember(githubRepoId: string, githubUsername: string): Promise<RepositoryManager | null> {
+    const member = await db.query.repositoryManagers.findFirst({
+      where: and(
+        eq(repositoryManagers.githubRepoId, githubRepoId),
+        usernameMatches(githubUsername),
+        eq(repositoryManagers.status, 'active')
+      )
+    });
+    return member || null;
+  }
+
+  async getPendingInvite(githubRepoId: string, githubUsername: string): Promise<RepositoryManager | null> {
+    const invite = await db.query.repositoryManagers.findFirst({
+      where: and(
+        eq(repositoryManagers.githubRepoId, githubRepoId),
+        usernameMatches(githubUsername),
+        eq(repositoryManagers.status, 'pending')
+      )
+    });
+    return invite || null;
+  }
+
+  /**
+   * Members and pending invites of a repository, newest first. Revoked members are left out.
+   */
+  async listMembers(githubRepoId: string): Promise<RepositoryManager[]> {
+    return await db.query.repositoryManagers.findMany({
+      where: and(
+        eq(repositoryManagers.githubRepoId, githubRepoId),
+        ne(repositoryManagers.status, 'revoked')
+      ),
+      orderBy: [desc(repositoryManagers.createdAt)],
+    });
+  }
+
+  /**
+   * Invite a GitHub user to a repository's bounty team. A revoked member can be invited again.
+   * Returns null if the user is already a member or has a pending invite.
+   */
+  async invite(params: {
+    githubRepoId: string;
+    githubUsername: string;
+    role: RepositoryRole;
+    allocationCaps: BountyAllocationCaps;
+    invitedBy: number;
+  }): Promise<RepositoryManager | null> {
+    const { githubRepoId, githubUsername, role, allocationCaps, invitedBy } = params;
+    const caps = role === 'allocator' ? allocationCaps : {};
+
+    const existing = await db.query.repositoryManagers.findFirst({
+      where: and(eq(repositoryManagers.githubRepoId, githubRepoId), usernameMatches(githubUsername))
+    });
+
+    if (existing && existing.status !== 'revoked') {
+      return null;
+    }
+
+    const [invite] = existing
+      ? await db.update(repositoryManagers)
+          .set({
+            githubUsername,
+            userId: null,
+            role,
+            allocationCaps: caps,
+            status: 'pending',
+            invitedBy,
+            acceptedAt: null,
+            updatedAt: new Date(),
+          })
+          .where(and(eq(repositoryManagers.id, existing.id), eq(repositoryManagers.status, 'revoked')))
+          .returning()
+      : await db.insert(repositoryManagers)
+          .values({ githubRepoId, githubUsername, role, allocationCaps: caps, invitedBy })
+          .returning();
+
+    if (invite) {
+      log(`Invited ${githubUsername} as ${role} of repo ${githubRepoId}`, 'repo-managers');
+    }
+    return invite || null;
+  }
+
+  async updateMember(
+    id: number,
+    githubRepoId: string,
+    changes: { role: RepositoryRole; allocationCaps: BountyAllocationCaps }
+  ): Promise<RepositoryManager | null> {
+    const [updated] = await db.update(repositoryManagers)
+      .set({
+        role: changes.role,
+        allocationCaps: changes.role === 'allocator' ? changes.allocationCaps : {},
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(repositoryManagers.id, id),
+        eq(repositoryManagers.githubRepoId, githubRepoId),
+        ne(repositoryManagers.status, 'revoked')
+      ))
+      .returning();
+    return updated || null;
+  }
+
+  async revoke(id: number, githubRepoId: string): Promise<RepositoryManager | null> {
+    const [revoked] = await db.update(repositoryManagers)
+      .set({ status: 'revoked', updatedAt: new Date() })
+      .where(and(
+        eq(repositoryManagers.id, id),
+        eq(repositoryManagers.githubRepoId, githubRepoId),
+        ne(repositoryManagers.status, 'revoked')
+      ))
+      .returning();
+
+    if (revoked) {
+      log(`Revoked ${revoked.githubUsername} (${revoked.role}) from repo ${githubRepoId}`, 'repo-managers');
+    }
+    return revoked || null;
+  }
+
+  /**
+   * Pending invites addressed to a GitHub user, with the repository name for display
+   */
+  async listInvitesForUser(githubUsername: string): Promise<RepositoryManagerInvite[]> {
+    const rows = await db
+      .select({ invite: repositoryManagers, githubRepoFullName: registeredRepositories.githubRepoFullName })
+      .from(repositoryManagers)
+      .leftJoin(registeredRepositories, eq(repositoryManagers.githubRepoId, registeredRepositories.githubRepoId))
+      .where(and(usernameMatches(githubUsername), eq(repositoryManagers.status, 'pending')))
+      .orderBy(desc(repositoryManagers.createdAt));
+
+    return rows.map(({ invite, githubRepoFullName }) => ({ ...invite, githubRepoFullName }));
+  }
+
+  /**
+   * Accept an invite on behalf of the signed-in user. Only the invited GitHub user can accept.
+   */
+  async accept(id: number, user: { id: number; githubUsername: string }): Promise<RepositoryManager | null> {
+    const [accepted] = await db.update(repositoryManagers)
+      .set({ userId: user.id, status: 'active', acceptedAt: new Date(), updatedAt: new Date() })
+      .where(and(
+        eq(repositoryManagers.id, id),
+        usernameMatches(user.githubUsername),
+        eq(repositoryManagers.status, 'pending')
+      ))
+      .returning();
+
+    if (accepted) {
+      log(`${user.githubUsername} accepted the ${accepted.role} invite for repo ${accepted.githubRepoId}`, 'repo-managers');
+    }
+    return accepted || null;
+  }
+}
+
+export const repositoryManagerService = new RepositoryManagerService();
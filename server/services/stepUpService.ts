@@ -0,0 +1,406 @@
+import crypto from 'crypto';
+import { db } from '../db';
+import {
+  stepUpChallenges,
+  stepUpLockouts,
+  userTotpSecrets,
+  type StepUpPurpose
+} from '../../shared/schema';
+import { eq, and, gt, lt, isNull, or, desc, sql } from 'drizzle-orm';
+import { config } from '../config';
+import { sendOtpEmail } from '../email';
+import { log } from '../utils';
+
+const PURPOSE_EMAIL_TEXT: Record<StepUpPurpose, { subject: string; description: string }> = {
+  wallet_export: { subject: 'Wallet Export', description: 'export your wallet' },
+  transfer: { subject: 'Transfer Confirmation', description: 'confirm your transfer' },
+  payout_request: { subject: 'Payout Confirmation', description: 'confirm your payout request' },
+  bounty_allocation: { subject: 'Bounty Confirmation', description: 'confirm your bounty allocation' },
+  payout_address: { subject: 'Payout Wallet Change', description: 'change the wallet your bounties are paid to' },
+};
+
+// Codes a user may request per purpose before having to wait
+const MAX_CODES_PER_WINDOW = 5;
+const CODE_REQUEST_WINDOW_MS = 15 * 60 * 1000;
+
+// Failed codes older than this no longer count towards a lockout, and no lockout lasts longer
+const FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000;
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_ISSUER = 'Roxonn';
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface StepUpResult {
+  verified: boolean;
+  method?: 'email' | 'totp';
+  reason?: string;
+}
+
+function getSecretKey(): Buffer {
+  const secret = config.encryptionKey || config.sessionSecret;
+  if (!secret) {
+    throw new Error('ENCRYPTION_KEY or SESSION_SECRET must be set for step-up authentication');
+  }
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+function hashCode(userId: number, purpose: StepUpPurpose, code: string): string {
+  return crypto.createHmac('sha256', getSecretKey()).update(`${userId}:${purpose}:${code}`).digest('hex');
+}
+
+function encryptSecret(plaintext: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getSecretKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('hex')).join(':');
+}
+
+function decryptSecret(stored: string): string {
+  const [iv, tag, ciphertext] = stored.split(':').map(part => Buffer.from(part, 'hex'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getSecretKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of Array.from(buffer)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(encoded: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of encoded.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) continue;
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// RFC 6238 code for one 30-second step
+function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeUInt32BE(Math.floor(step / 0x100000000), 0);
+  counter.writeUInt32BE(step % 0x100000000, 4);
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = ((hmac[offset] & 0x7f) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+// Every threshold-th failure in a row locks step-up, for twice as long as the previous lock
+function lockoutMs(failedAttempts: number): number | null {
+  if (failedAttempts === 0 || failedAttempts % config.stepUpLockoutThreshold !== 0) {
+    return null;
+  }
+  const lockouts = failedAttempts / config.stepUpLockoutThreshold;
+  return Math.min(config.stepUpLockoutMinutes * 60 * 1000 * 2 ** (lockouts - 1), MAX_LOCKOUT_MS);
+}
+
+function lockoutReason(lockedUntil: Date): string {
+  const minutes = Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 60000));
+  return `Too many incorrect codes. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+}
+
+function codesMatch(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+export class StepUpService {
+
+  /**
+   * Email a fresh code for one purpose. Earlier unused codes for that purpose stop working.
+   * Returns false when the user has asked for too many codes recently.
+   */
+  async requestEmailCode(user: { id: number; email: string | null }, purpose: StepUpPurpose): Promise<boolean> {
+    if (!user.email) {
+      throw new Error('No email on account');
+    }
+
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(stepUpChallenges)
+      .where(and(
+        eq(stepUpChallenges.userId, user.id),
+        eq(stepUpChallenges.purpose, purpose),
+        gt(stepUpChallenges.createdAt, new Date(Date.now() - CODE_REQUEST_WINDOW_MS))
+      ));
+    if (count >= MAX_CODES_PER_WINDOW) {
+      log(`Step-up code request throttled for user ${user.id} (${purpose})`, 'security');
+      return false;
+    }
+
+    const code = crypto.randomInt(100000, 1000000).toString();
+    const expiresAt = new Date(Date.now() + config.stepUpCodeTtlMinutes * 60 * 1000);
+
+    await db.transaction(async (tx) => {
+      await tx.update(stepUpChallenges)
+        .set({ consumedAt: new Date() })
+        .where(and(
+          eq(stepUpChallenges.userId, user.id),
+          eq(stepUpChallenges.purpose, purpose),
+          isNull(stepUpChallenges.consumedAt)
+        ));
+      await tx.insert(stepUpChallenges).values({
+        userId: user.id,
+        purpose,
+        codeHash: hashCode(user.id, purpose, code),
+        maxAttempts: config.stepUpMaxAttempts,
+        expiresAt,
+      });
+    });
+
+    await sendOtpEmail(user.email, code, PURPOSE_EMAIL_TEXT[purpose], config.stepUpCodeTtlMinutes);
+    log(`Step-up code sent to user ${user.id} for ${purpose}`, 'security');
+    return true;
+  }
+
+  /**
+   * Check a code for a sensitive action. An enrolled authenticator code is accepted for any purpose;
+   * otherwise the code must match the latest emailed code for this purpose. Each attempt is counted
+   * before comparing, and a matching code is spent, so it cannot be replayed on another instance.
+   * Failed codes also count against the user across purposes, and enough of them lock step-up out.
+   */
+  async verify(userId: number, purpose: StepUpPurpose, code: string): Promise<StepUpResult> {
+    if (!/^\d{6}$/.test(code)) {
+      return { verified: false, reason: 'Code must be 6 digits' };
+    }
+
+    const lockedUntil = await this.getLockedUntil(userId);
+    if (lockedUntil) {
+      log(`Step-up attempt for user ${userId} (${purpose}) rejected while locked out`, 'security');
+      return { verified: false, reason: lockoutReason(lockedUntil) };
+    }
+
+    const result = await this.checkCode(userId, purpose, code);
+    if (result.verified) {
+      await this.clearFailures(userId);
+      return result;
+    }
+
+    const lockedFor = await this.recordFailure(userId);
+    return lockedFor ? { verified: false, reason: lockoutReason(new Date(Date.now() + lockedFor)) } : result;
+  }
+
+  private async checkCode(userId: number, purpose: StepUpPurpose, code: string): Promise<StepUpResult> {
+    if (await this.verifyTotp(userId, code)) {
+      log(`Step-up verified for user ${userId} (${purpose}) with authenticator`, 'security');
+      return { verified: true, method: 'totp' };
+    }
+
+    const challenge = await db.query.stepUpChallenges.findFirst({
+      where: and(
+        eq(stepUpChallenges.userId, userId),
+        eq(stepUpChallenges.purpose, purpose),
+        isNull(stepUpChallenges.consumedAt),
+        gt(stepUpChallenges.expiresAt, new Date())
+      ),
+      orderBy: [desc(stepUpChallenges.createdAt)],
+    });
+    if (!challenge) {
+      return { verified: false, reason: 'Invalid or expired code. Request a new one.' };
+    }
+
+    const [counted] = await db.update(stepUpChallenges)
+      .set({ attempts: sql`${stepUpChallenges.attempts} + 1` })
+      .where(and(
+        eq(stepUpChallenges.id, challenge.id),
+        lt(stepUpChallenges.attempts, stepUpChallenges.maxAttempts)
+      ))
+      .returning();
+    if (!counted) {
+      log(`Step-up code locked for user ${userId} (${purpose}) after too many attempts`, 'security');
+      return { verified: false, reason: 'Too many attempts. Request a new code.' };
+    }
+
+    if (!codesMatch(counted.codeHash, hashCode(userId, purpose, code))) {
+      const remaining = counted.maxAttempts - counted.attempts;
+      log(`Step-up code mismatch for user ${userId} (${purpose}), ${remaining} attempts left`, 'security');
+      return {
+        verified: false,
+        reason: remaining > 0 ? `Invalid code. ${remaining} attempts left.` : 'Too many attempts. Request a new code.'
+      };
+    }
+
+    const [consumed] = await db.update(stepUpChallenges)
+      .set({ consumedAt: new Date() })
+      .where(and(eq(stepUpChallenges.id, challenge.id), isNull(stepUpChallenges.consumedAt)))
+      .returning();
+    if (!consumed) {
+      return { verified: false, reason: 'Code already used. Request a new one.' };
+    }
+
+    log(`Step-up verified for user ${userId} (${purpose}) with emailed code`, 'security');
+    return { verified: true, method: 'email' };
+  }
+
+  async isTotpEnabled(userId: number): Promise<boolean> {
+    const record = await db.query.userTotpSecrets.findFirst({
+      where: and(eq(userTotpSecrets.userId, userId), eq(userTotpSecrets.enabled, true))
+    });
+    return !!record;
+  }
+
+  /**
+   * Start authenticator enrolment with a new secret. Returns null if an authenticator is already enabled;
+   * it has to be disabled first.
+   */
+  async beginTotpEnrollment(user: { id: number; username: string }): Promise<{ secret: string; otpauthUrl: string } | null> {
+    if (await this.isTotpEnabled(user.id)) {
+      return null;
+    }
+
+    const secret = base32Encode(crypto.randomBytes(20));
+    await db.insert(userTotpSecrets)
+      .values({ userId: user.id, encryptedSecret: encryptSecret(secret) })
+      .onConflictDoUpdate({
+        target: userTotpSecrets.userId,
+        set: { encryptedSecret: encryptSecret(secret), enabled: false, lastUsedStep: null, enabledAt: null, createdAt: new Date() },
+      });
+
+    const label = encodeURIComponent(`${TOTP_ISSUER}:${user.username}`);
+    const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${TOTP_ISSUER}&digits=${TOTP_DIGITS}&period=${TOTP_STEP_SECONDS}`;
+    return { secret, otpauthUrl };
+  }
+
+  async confirmTotpEnrollment(userId: number, code: string): Promise<boolean> {
+    const record = await db.query.userTotpSecrets.findFirst({
+      where: and(eq(userTotpSecrets.userId, userId), eq(userTotpSecrets.enabled, false))
+    });
+    if (!record) {
+      return false;
+    }
+
+    const step = this.matchTotpStep(decryptSecret(record.encryptedSecret), code);
+    if (step === null) {
+      return false;
+    }
+
+    await db.update(userTotpSecrets)
+      .set({ enabled: true, enabledAt: new Date(), lastUsedStep: step })
+      .where(eq(userTotpSecrets.id, record.id));
+    log(`Authenticator enabled for user ${userId}`, 'security');
+    return true;
+  }
+
+  // Disabling needs a current authenticator code, which counts towards the same lockout as step-up codes
+  async disableTotp(userId: number, code: string): Promise<StepUpResult> {
+    const lockedUntil = await this.getLockedUntil(userId);
+    if (lockedUntil) {
+      return { verified: false, reason: lockoutReason(lockedUntil) };
+    }
+
+    if (!await this.verifyTotp(userId, code)) {
+      const lockedFor = await this.recordFailure(userId);
+      return {
+        verified: false,
+        reason: lockedFor ? lockoutReason(new Date(Date.now() + lockedFor)) : 'Invalid authenticator code'
+      };
+    }
+
+    await this.clearFailures(userId);
+    await db.delete(userTotpSecrets).where(eq(userTotpSecrets.userId, userId));
+    log(`Authenticator disabled for user ${userId}`, 'security');
+    return { verified: true, method: 'totp' };
+  }
+
+  private async getLockedUntil(userId: number): Promise<Date | null> {
+    const lockout = await db.query.stepUpLockouts.findFirst({ where: eq(stepUpLockouts.userId, userId) });
+    return lockout?.lockedUntil && lockout.lockedUntil > new Date() ? lockout.lockedUntil : null;
+  }
+
+  /**
+   * Count a failed code. Returns the length of the lockout in milliseconds if this failure started one.
+   */
+  private async recordFailure(userId: number): Promise<number | null> {
+    const now = new Date();
+    const [lockout] = await db.insert(stepUpLockouts)
+      .values({ userId, failedAttempts: 1, lastFailedAt: now })
+      .onConflictDoUpdate({
+        target: stepUpLockouts.userId,
+        set: {
+          // The count starts again once the previous failure has aged out of the window
+          failedAttempts: sql`CASE WHEN ${stepUpLockouts.lastFailedAt} < ${new Date(now.getTime() - FAILURE_WINDOW_MS)} THEN 1 ELSE ${stepUpLockouts.failedAttempts} + 1 END`,
+          lastFailedAt: now,
+        },
+      })
+      .returning();
+
+    const lockedFor = lockoutMs(lockout.failedAttempts);
+    if (lockedFor === null) {
+      return null;
+    }
+    await db.update(stepUpLockouts)
+      .set({ lockedUntil: new Date(now.getTime() + lockedFor) })
+      .where(eq(stepUpLockouts.userId, userId));
+    log(`Step-up locked for user ${userId} for ${Math.round(lockedFor / 60000)} minutes after ${lockout.failedAttempts} failed codes`, 'security');
+    return lockedFor;
+  }
+
+  private async clearFailures(userId: number): Promise<void> {
+    await db.update(stepUpLockouts)
+      .set({ failedAttempts: 0, lockedUntil: null })
+      .where(eq(stepUpLockouts.userId, userId));
+  }
+
+  private async verifyTotp(userId: number, code: string): Promise<boolean> {
+    const record = await db.query.userTotpSecrets.findFirst({
+      where: and(eq(userTotpSecrets.userId, userId), eq(userTotpSecrets.enabled, true))
+    });
+    if (!record) {
+      return false;
+    }
+
+    const step = this.matchTotpStep(decryptSecret(record.encryptedSecret), code);
+    if (step === null) {
+      return false;
+    }
+
+    // Move lastUsedStep forward only if no other request already used this step
+    const [claimed] = await db.update(userTotpSecrets)
+      .set({ lastUsedStep: step })
+      .where(and(
+        eq(userTotpSecrets.id, record.id),
+        or(isNull(userTotpSecrets.lastUsedStep), lt(userTotpSecrets.lastUsedStep, step))
+      ))
+      .returning({ id: userTotpSecrets.id });
+    return !!claimed;
+  }
+
+  // Accept the current step and one either side, for clock drift
+  private matchTotpStep(secret: string, code: string): number | null {
+    const currentStep = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+    for (const step of [currentStep - 1, currentStep, currentStep + 1]) {
+      if (codesMatch(totpCode(secret, step), code)) {
+        return step;
+      }
+    }
+    return null;
+  }
+}
+
+export const stepUpService = new StepUpService();
@@ -0,0 +1,62 @@
+import { db } from '../db';
+import { webhookDeliverySteps, type WebhookDeliveryStep } from '../../shared/schema';
+import { eq, and } from 'drizzle-orm';
+import { log } from '../utils';
+
+/**
+ * On-chain steps of queued webhook deliveries. A step is recorded as `started` before its
+ * transaction is sent and `completed` once it confirms, so when the queue retries or an admin
+ * replays a delivery, completed steps are skipped and a step whose outcome is unknown is not
+ * sent a second time.
+ */
+export class WebhookDeliveryStepService {
+
+  /**
+   * Record that a delivery is about to run a step. Returns null when this call started it,
+   * or the earlier record when a previous attempt already did.
+   */
+  async begin(deliveryId: string, step: string): Promise<WebhookDeliveryStep | null> {
+    const [inserted] = await db.insert(webhookDeliverySteps)
+      .values({ deliveryId, step })
+      .onConflictDoNothing({ target: [webhookDeliverySteps.deliveryId, webhookDeliverySteps.step] })
+      .returning();
+    if (inserted) {
+      return null;
+    }
+    return await this.get(deliveryId, step);
+  }
+
+  async get(deliveryId: string, step: string): Promise<WebhookDeliveryStep | null> {
+    const record = await db.query.webhookDeliverySteps.findFirst({
+      where: and(
+        eq(webhookDeliverySteps.deliveryId, deliveryId),
+        eq(webhookDeliverySteps.step, step)
+      )
+    });
+    return record || null;
+  }
+
+  async complete(deliveryId: string, step: string, transactionHash: string | null): Promise<void> {
+    await db.update(webhookDeliverySteps)
+      .set({ status: 'completed', transactionHash, updatedAt: new Date() })
+      .where(and(
+        eq(webhookDeliverySteps.deliveryId, deliveryId),
+        eq(webhookDeliverySteps.step, step)
+      ));
+  }
+
+  /**
+   * Forget a step that definitely did not happen (e.g. the transaction reverted), so a replay may try it again
+   */
+  async abandon(deliveryId: string, step: string): Promise<void> {
+    await db.delete(webhookDeliverySteps)
+      .where(and(
+        eq(webhookDeliverySteps.deliveryId, deliveryId),
+        eq(webhookDeliverySteps.step, step),
+        eq(webhookDeliverySteps.status, 'started')
+      ));
+    log(`Delivery ${deliveryId} step ${step} did not go through, cleared for a replay`, 'webhook-queue');
+  }
+}
+
+export const webhookDeliveryStepService = new WebhookDeliveryStepService();
@@ -0,0 +1,199 @@
+import { db } from '../db';
+import { webhookEvents, type WebhookEvent } from '../../shared/schema';
+import { eq, and, or, lte, inArray, desc } from 'drizzle-orm';
+import { config } from '../config';
+import { log } from '../utils';
+import { handleBountyCommand, handleIssueClosed, handlePullRequestMerged } from '../github';
+
+// Events left in 'processing' longer than this are assumed to belong to a worker that died
+const STALE_PROCESSING_MS = 15 * 60 * 1000;
+// Backoff never waits longer than this between attempts
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+type WebhookEventStatus = WebhookEvent['status'];
+
+export class WebhookQueueService {
+  private isProcessing = false;
+
+  /**
+   * Persist a verified webhook delivery. Redeliveries of the same delivery ID are ignored,
+   * so each delivery is processed at most once. Returns false when the delivery was already queued.
+   */
+  async enqueue(deliveryId: string, event: string, installationId: string, payload: any): Promise<boolean> {
+    const [inserted] = await db.insert(webhookEvents)
+      .values({
+        deliveryId,
+        event,
+        action: payload?.action ?? null,
+        installationId,
+        payload,
+      })
+      .onConflictDoNothing({ target: webhookEvents.deliveryId })
+      .returning({ id: webhookEvents.id });
+
+    if (!inserted) {
+      log(`Delivery ${deliveryId} already queued, ignoring duplicate`, 'webhook-queue');
+      return false;
+    }
+
+    log(`Queued ${event} delivery ${deliveryId} as event ${inserted.id}`, 'webhook-queue');
+    return true;
+  }
+
+  /**
+   * Process every event that is due. Only one batch runs at a time per server.
+   */
+  async processDueEvents(limit: number = 20): Promise<number> {
+    if (this.isProcessing) {
+      return 0;
+    }
+    this.isProcessing = true;
+
+    try {
+      await this.recoverStaleEvents();
+
+      const due = await db.query.webhookEvents.findMany({
+        where: and(
+          inArray(webhookEvents.status, ['pending', 'failed']),
+          lte(webhookEvents.nextAttemptAt, new Date())
+        ),
+        orderBy: [webhookEvents.nextAttemptAt],
+        limit,
+      });
+
+      let processed = 0;
+      for (const event of due) {
+        if (await this.processEvent(event)) {
+          processed++;
+        }
+      }
+      return processed;
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Claim and run a single event. Returns true if this worker ran it.
+   */
+  private async processEvent(event: WebhookEvent): Promise<boolean> {
+    // Claim the event so another server instance cannot run it at the same time
+    const [claimed] = await db.update(webhookEvents)
+      .set({ status: 'processing', attempts: event.attempts + 1, updatedAt: new Date() })
+      .where(and(
+        eq(webhookEvents.id, event.id),
+        eq(webhookEvents.status, event.status)
+      ))
+      .returning();
+
+    if (!claimed) {
+      return false;
+    }
+
+    try {
+      await this.dispatch(claimed);
+      await db.update(webhookEvents)
+        .set({ status: 'completed', lastError: null, processedAt: new Date(), updatedAt: new Date() })
+        .where(eq(webhookEvents.id, claimed.id));
+      log(`Processed ${claimed.event} delivery ${claimed.deliveryId} (attempt ${claimed.attempts})`, 'webhook-queue');
+    } catch (error: any) {
+      await this.recordFailure(claimed, error?.message || String(error));
+    }
+    return true;
+  }
+
+  /**
+   * Route an event to its handler. Handlers throw on transient failures so the event is retried.
+   */
+  private async dispatch(event: WebhookEvent): Promise<void> {
+    const payload = event.payload as any;
+
+    if (event.event === 'issue_comment' && event.action === 'created') {
+      await handleBountyCommand(payload, event.installationId, event.deliveryId);
+    } else if (event.event === 'issues' && event.action === 'closed') {
+      await handleIssueClosed(payload, event.installationId);
+    } else if (event.event === 'pull_request' && event.action === 'closed') {
+      await handlePullRequestMerged(payload, event.installationId);
+    } else {
+      log(`No queue handler for ${event.event}/${event.action}, marking delivery ${event.deliveryId} done`, 'webhook-queue');
+    }
+  }
+
+  private async recordFailure(event: WebhookEvent, errorMessage: string): Promise<void> {
+    const exhausted = event.attempts >= config.webhookMaxAttempts;
+    const status: WebhookEventStatus = exhausted ? 'dead_letter' : 'failed';
+    const delayMs = Math.min(config.webhookRetryBaseSeconds * 1000 * Math.pow(2, event.attempts - 1), MAX_RETRY_DELAY_MS);
+
+    await db.update(webhookEvents)
+      .set({
+        status,
+        lastError: errorMessage,
+        nextAttemptAt: new Date(Date.now() + delayMs),
+        updatedAt: new Date(),
+      })
+      .where(eq(webhookEvents.id, event.id));
+
+    if (exhausted) {
+      log(`Delivery ${event.deliveryId} moved to dead letter after ${event.attempts} attempts: ${errorMessage}`, 'webhook-queue-ERROR');
+    } else {
+      log(`Delivery ${event.deliveryId} failed (attempt ${event.attempts}/${config.webhookMaxAttempts}), retrying in ${Math.round(delayMs / 1000)}s: ${errorMessage}`, 'webhook-queue-ERROR');
+    }
+  }
+
+  /**
+   * Return events stuck in 'processing' (e.g. the server restarted mid-run) to the retry queue
+   */
+  private async recoverStaleEvents(): Promise<void> {
+    const recovered = await db.update(webhookEvents)
+      .set({ status: 'failed', lastError: 'Processing was interrupted', nextAttemptAt: new Date(), updatedAt: new Date() })
+      .where(and(
+        eq(webhookEvents.status, 'processing'),
+        lte(webhookEvents.updatedAt, new Date(Date.now() - STALE_PROCESSING_MS))
+      ))
+      .returning({ id: webhookEvents.id });
+
+    if (recovered.length > 0) {
+      log(`Recovered ${recovered.length} interrupted webhook events`, 'webhook-queue');
+    }
+  }
+
+  /**
+   * List queued events, newest first. Defaults to events that need attention.
+   */
+  async listEvents(status?: WebhookEventStatus, limit: number = 50): Promise<WebhookEvent[]> {
+    return await db.query.webhookEvents.findMany({
+      where: status
+        ? eq(webhookEvents.status, status)
+        : or(eq(webhookEvents.status, 'failed'), eq(webhookEvents.status, 'dead_letter')),
+      orderBy: [desc(webhookEvents.createdAt)],
+      limit,
+    });
+  }
+
+  async getEvent(id: number): Promise<WebhookEvent | null> {
+    const event = await db.query.webhookEvents.findFirst({
+      where: eq(webhookEvents.id, id)
+    });
+    return event || null;
+  }
+
+  /**
+   * Put a failed or dead-lettered event back on the queue with a fresh retry budget
+   */
+  async replay(id: number): Promise<WebhookEvent | null> {
+    const [replayed] = await db.update(webhookEvents)
+      .set({ status: 'pending', attempts: 0, nextAttemptAt: new Date(), updatedAt: new Date() })
+      .where(and(
+        eq(webhookEvents.id, id),
+        inArray(webhookEvents.status, ['failed', 'dead_letter'])
+      ))
+      .returning();
+
+    if (replayed) {
+      log(`Delivery ${replayed.deliveryId} queued for replay`, 'webhook-queue');
+    }
+    return replayed || null;
+  }
+}
+
+export const webhookQueueService = new WebhookQueueService();
@@ -0,0 +1,241 @@
+import crypto from 'crypto';
+import { db } from '../db';
+import {
+  withdrawalAddresses,
+  withdrawalAddressEvents,
+  type WithdrawalAddress,
+  type WithdrawalAddressStatus,
+  type WithdrawalAddressAction,
+  type WithdrawalAddressEvent
+} from '../../shared/schema';
+import { eq, and, gt, isNull, desc } from 'drizzle-orm';
+import { config } from '../config';
+import { sendWithdrawalAddressConfirmationEmail, sendWithdrawalAddressChangeEmail } from '../email';
+import { log } from '../utils';
+
+const HOUR_IN_MS = 60 * 60 * 1000;
+
+// Cap on live entries, so a hijacked session cannot flood the user's inbox with confirmations
+const MAX_ADDRESSES_PER_USER = 20;
+
+/**
+ * Thrown when funds would leave a wallet for an address that is not usable yet
+ */
+export class WithdrawalAddressBlockedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WithdrawalAddressBlockedError';
+  }
+}
+
+export interface WithdrawalAddressView {
+  id: number;
+  address: string;
+  label: string | null;
+  status: WithdrawalAddressStatus;
+  confirmedAt: Date | null;
+  activatesAt: Date | null;
+  createdAt: Date;
+}
+
+type AddressBookOwner = { id: number; email: string | null };
+
+export type AddWithdrawalAddressResult =
+  | { success: true; address: WithdrawalAddressView }
+  | { success: false; error: 'duplicate' | 'too_many' };
+
+function normalizeAddress(address: string): string {
+  return address.replace(/^xdc/i, '0x').toLowerCase();
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function statusOf(entry: WithdrawalAddress, now: Date = new Date()): WithdrawalAddressStatus {
+  if (!entry.confirmedAt || !entry.activatesAt) return 'pending_confirmation';
+  return entry.activatesAt > now ? 'cooling_off' : 'active';
+}
+
+function toView(entry: WithdrawalAddress): WithdrawalAddressView {
+  return {
+    id: entry.id,
+    address: entry.address,
+    label: entry.label,
+    status: statusOf(entry),
+    confirmedAt: entry.confirmedAt,
+    activatesAt: entry.activatesAt,
+    createdAt: entry.createdAt,
+  };
+}
+
+export class WithdrawalAddressService {
+
+  async list(userId: number): Promise<WithdrawalAddressView[]> {
+    const entries = await db.query.withdrawalAddresses.findMany({
+      where: and(eq(withdrawalAddresses.userId, userId), isNull(withdrawalAddresses.removedAt)),
+      orderBy: [desc(withdrawalAddresses.createdAt)],
+    });
+    return entries.map(toView);
+  }
+
+  /**
+   * Add an address and email the user a confirmation link. The address stays unusable until the
+   * link is followed and the cooling-off period has run.
+   */
+  async add(user: AddressBookOwner, address: string, label: string | undefined, ipAddress?: string): Promise<AddWithdrawalAddressResult> {
+    if (!user.email) {
+      throw new Error('An email address is required to add withdrawal addresses');
+    }
+    const normalized = normalizeAddress(address);
+
+    const live = await db.query.withdrawalAddresses.findMany({
+      where: and(eq(withdrawalAddresses.userId, user.id), isNull(withdrawalAddresses.removedAt)),
+      columns: { address: true },
+    });
+    if (live.some(entry => entry.address === normalized)) {
+      return { success: false, error: 'duplicate' };
+    }
+    if (live.length >= MAX_ADDRESSES_PER_USER) {
+      return { success: false, error: 'too_many' };
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const [entry] = await db.insert(withdrawalAddresses).values({
+      userId: user.id,
+      address: normalized,
+      label: label || null,
+      confirmationTokenHash: hashToken(token),
+      confirmationExpiresAt: new Date(Date.now() + config.withdrawalAddressConfirmationTtlHours * HOUR_IN_MS),
+    }).onConflictDoNothing().returning();
+    if (!entry) {
+      return { success: false, error: 'duplicate' }; // Lost a race with a concurrent add
+    }
+
+    await this.recordEvent(user.id, entry.id, normalized, 'added', { label: label || null }, ipAddress);
+
+    try {
+      await sendWithdrawalAddressConfirmationEmail(user.email, {
+        address: normalized,
+        label: entry.label,
+        confirmUrl: `${config.frontendUrl}/wallet?confirmWithdrawalAddress=${token}`,
+        coolingOffHours: config.withdrawalAddressCoolingOffHours,
+        expiresInHours: config.withdrawalAddressConfirmationTtlHours,
+      });
+    } catch (error) {
+      // Without the email the entry can never be confirmed, so take it back out
+      await db.delete(withdrawalAddresses).where(eq(withdrawalAddresses.id, entry.id));
+      throw error;
+    }
+
+    log(`User ${user.id} added withdrawal address ${normalized}`, 'withdrawal-addresses');
+    return { success: true, address: toView(entry) };
+  }
+
+  /**
+   * Confirm an address from its emailed link and start the cooling-off period.
+   * Returns null if the token is unknown, expired, already used or belongs to someone else.
+   */
+  async confirm(user: AddressBookOwner, token: string, ipAddress?: string): Promise<WithdrawalAddressView | null> {
+    const now = new Date();
+    const activatesAt = new Date(now.getTime() + config.withdrawalAddressCoolingOffHours * HOUR_IN_MS);
+
+    const [entry] = await db.update(withdrawalAddresses)
+      .set({ confirmationTokenHash: null, confirmedAt: now, activatesAt })
+      .where(and(
+        eq(withdrawalAddresses.confirmationTokenHash, hashToken(token)),
+        eq(withdrawalAddresses.userId, user.id),
+        gt(withdrawalAddresses.confirmationExpiresAt, now),
+        isNull(withdrawalAddresses.removedAt)
+      ))
+      .returning();
+    if (!entry) return null;
+
+    await this.recordEvent(user.id, entry.id, entry.address, 'confirmed', { activatesAt: activatesAt.toISOString() }, ipAddress);
+    if (user.email) {
+      await sendWithdrawalAddressChangeEmail(user.email, { address: entry.address, change: 'confirmed', activatesAt });
+    }
+
+    log(`User ${user.id} confirmed withdrawal address ${entry.address}, usable from ${activatesAt.toISOString()}`, 'withdrawal-addresses');
+    return toView(entry);
+  }
+
+  /**
+   * Remove an address. Takes effect immediately; the row is kept for the change log.
+   */
+  async remove(user: AddressBookOwner, addressId: number, ipAddress?: string): Promise<WithdrawalAddressView | null> {
+    const [entry] = await db.update(withdrawalAddresses)
+      .set({ removedAt: new Date(), confirmationTokenHash: null })
+      .where(and(
+        eq(withdrawalAddresses.id, addressId),
+        eq(withdrawalAddresses.userId, user.id),
+        isNull(withdrawalAddresses.removedAt)
+      ))
+      .returning();
+    if (!entry) return null;
+
+    await this.recordEvent(user.id, entry.id, entry.address, 'removed', { status: statusOf(entry) }, ipAddress);
+    if (user.email) {
+      await sendWithdrawalAddressChangeEmail(user.email, { address: entry.address, change: 'removed' });
+    }
+
+    log(`User ${user.id} removed withdrawal address ${entry.address}`, 'withdrawal-addresses');
+    return toView(entry);
+  }
+
+  /**
+   * Throw unless the destination is an active entry in the user's address book.
+   * Blocked attempts are logged against the user.
+   */
+  async assertCanWithdraw(userId: number, destination: string, details: Record<string, unknown> = {}): Promise<void> {
+    const normalized = normalizeAddress(destination);
+    const entry = await db.query.withdrawalAddresses.findFirst({
+      where: and(
+        eq(withdrawalAddresses.userId, userId),
+        eq(withdrawalAddresses.address, normalized),
+        isNull(withdrawalAddresses.removedAt)
+      ),
+    });
+
+    const status = entry ? statusOf(entry) : null;
+    if (entry && status === 'active') return;
+
+    const reason = !entry
+      ? 'Destination is not in your withdrawal addresses'
+      : status === 'pending_confirmation'
+        ? 'Withdrawal address has not been confirmed from your email yet'
+        : `Withdrawal address is in its cooling-off period until ${entry.activatesAt!.toISOString()}`;
+
+    await this.recordEvent(userId, entry?.id ?? null, normalized, 'transfer_blocked', { ...details, reason });
+    log(`Blocked withdrawal by user ${userId} to ${normalized}: ${reason}`, 'withdrawal-addresses');
+    throw new WithdrawalAddressBlockedError(reason);
+  }
+
+  async listEvents(userId: number, limit: number = 50): Promise<WithdrawalAddressEvent[]> {
+    return await db.query.withdrawalAddressEvents.findMany({
+      where: eq(withdrawalAddressEvents.userId, userId),
+      orderBy: [desc(withdrawalAddressEvents.createdAt)],
+      limit,
+    });
+  }
+
+  private async recordEvent(
+    userId: number,
+    addressId: number | null,
+    address: string,
+    action: WithdrawalAddressAction,
+    details: Record<string, unknown>,
+    ipAddress?: string
+  ): Promise<void> {
+    await db.insert(withdrawalAddressEvents).values({
+      userId,
+      addressId,
+      address,
+      action,
+      details,
+      ipAddress: ipAddress || null,
+    });
+  }
+}
+
+export const withdrawalAddressService = new WithdrawalAddressService();
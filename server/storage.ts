@@ -1,4 +1,4 @@
-import { users, registeredRepositories, bountyRequests } from "../shared/schema";
+import { users, registeredRepositories, bountyRequests, bountySplits, multiCurrencyBounties } from "../shared/schema";
 import { eq, and, sql, inArray, desc } from "drizzle-orm";
 import { db } from "./db";
 import session from "express-session";
@@ -54,14 +54,23 @@ export interface IStorage {
   associateUserToInstallationRepo(userId: number, githubRepoId: string, installationId: string): Promise<any>;
   removeRegistrationFromWebhook(installationId: string, githubRepoIds: string[]): Promise<void>;
   registerRepositoryDirectly(userId: number, githubRepoId: string, githubRepoFullName: string, installationId?: string, isPrivate?: boolean): Promise<any>;
-  adjustUserPromptBalance(drizzleTx: any, userId: number, promptsToChange: number, type: string, notes?: string, onrampOrderId?: string): Promise<{ success: boolean; newBalance?: number; error?: string }>;
+  adjustUserPromptBalance(drizzleTx: any, userId: number, promptsToChange: number, type: string, notes?: string, onrampOrderId?: string, usage?: PromptUsageDetails): Promise<{ success: boolean; newBalance?: number; error?: string }>;
   getUserPromptBalance(userId: number): Promise<number>;
   updateRepositoryVisibility(githubRepoId: string, isPrivate: boolean): Promise<boolean>;
   updateRepositoryActiveStatus(githubRepoId: string, isActive: boolean): Promise<boolean>;
 }
 
 // Define PromptTransactionType enum locally if not imported from a shared types file
-type PromptTransactionType = 'purchase' | 'usage_vscode_ai' | 'admin_adjustment' | 'initial_grant';
+type PromptTransactionType = 'purchase' | 'usage_vscode_ai' | 'usage_vscode_ai_hold' | 'usage_vscode_ai_release' | 'admin_adjustment' | 'initial_grant' | 'organization_deposit';
+
+// Breakdown recorded on the ledger rows of a metered AI request
+export interface PromptUsageDetails {
+  authorizationId: number;
+  model: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  promptsCharged?: number;
+}
 
 
 export class DatabaseStorage implements IStorage {
@@ -288,6 +297,22 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Every on-chain pool manager of a repository that has a Roxonn account, in on-chain order
+  async getRepositoryPoolManagers(repoId: number): Promise<any[]> {
+    const repo = await blockchain.getRepository(repoId);
+    if (!repo || !repo.poolManagers || repo.poolManagers.length === 0) {
+      return [];
+    }
+
+    const xdcAddresses = repo.poolManagers.map((address: string) => 'xdc' + address.slice(2).toLowerCase());
+    const managers = await db.query.users.findMany({
+      where: inArray(users.xdcWalletAddress, xdcAddresses)
+    });
+    return xdcAddresses
+      .map((address: string) => managers.find(user => user.xdcWalletAddress === address))
+      .filter(Boolean);
+  }
+
   async getUserById(userId: number): Promise<any> {
     try {
       log(`Getting user by ID: ${userId}`, 'storage');
@@ -659,7 +684,8 @@ export class DatabaseStorage implements IStorage {
     promptsToChange: number,
     type: PromptTransactionType,
     notes?: string,
-    onrampOrderId?: string
+    onrampOrderId?: string,
+    usage?: PromptUsageDetails
   ): Promise<{ success: boolean; newBalance?: number; error?: string }> {
     // Import promptTransactions schema if not already available
     const schema = await import("../shared/schema"); // Import all schemas
@@ -695,6 +721,7 @@ export class DatabaseStorage implements IStorage {
       balanceAfterTx: newBalance,
       notes,
       onrampOrderId,
+      ...usage,
       // createdAt will be set by default by the DB
     });
     
@@ -793,6 +820,120 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Bounty split methods
+  async setBountySplit(
+    githubRepoId: string,
+    githubIssueNumber: number,
+    shares: { githubUsername: string; shareBps: number }[],
+    setBy: string
+  ): Promise<any[]> {
+    try {
+      log(`Setting ${shares.length}-way bounty split for issue ${githubIssueNumber} in repo ${githubRepoId}`, 'storage');
+      return await db.transaction(async (tx) => {
+        // A new split always replaces the previous one for the issue
+        await tx.delete(bountySplits).where(and(
+          eq(bountySplits.githubRepoId, githubRepoId),
+          eq(bountySplits.githubIssueNumber, githubIssueNumber)
+        ));
+        return await tx.insert(bountySplits).values(shares.map(share => ({
+          githubRepoId,
+          githubIssueNumber,
+          githubUsername: share.githubUsername,
+          shareBps: share.shareBps,
+          setBy,
+        }))).returning();
+      });
+    } catch (error) {
+      log(`Error setting bounty split: ${error instanceof Error ? error.message : String(error)}`, 'storage');
+      throw error;
+    }
+  }
+
+  async getBountySplit(githubRepoId: string, githubIssueNumber: number): Promise<any[]> {
+    try {
+      return await db.select()
+        .from(bountySplits)
+        .where(and(
+          eq(bountySplits.githubRepoId, githubRepoId),
+          eq(bountySplits.githubIssueNumber, githubIssueNumber)
+        ))
+        .orderBy(desc(bountySplits.shareBps));
+    } catch (error) {
+      log(`Error fetching bounty split: ${error instanceof Error ? error.message : String(error)}`, 'storage');
+      return [];
+    }
+  }
+
+  async markBountySplitPaid(githubRepoId: string, githubIssueNumber: number, transactionHash: string | null): Promise<void> {
+    try {
+      await db.update(bountySplits)
+        .set({ status: 'paid', transactionHash, paidAt: new Date() })
+        .where(and(
+          eq(bountySplits.githubRepoId, githubRepoId),
+          eq(bountySplits.githubIssueNumber, githubIssueNumber)
+        ));
+    } catch (error) {
+      log(`Error marking bounty split as paid: ${error instanceof Error ? error.message : String(error)}`, 'storage');
+      throw error;
+    }
+  }
+
+
+  // Multi-currency bounty records (repoId is the GitHub repo ID, issueId the issue number)
+  async upsertMultiCurrencyBounty(data: {
+    repoId: string;
+    issueId: number;
+    currencyType: 'XDC' | 'ROXN' | 'USDC';
+    amount: string;
+    status: 'created' | 'allocated' | 'distributed' | 'cancelled';
+    transactionHash?: string | null;
+    contributorAddress?: string | null;
+  }): Promise<any> {
+    try {
+      // Only a bounty that is still open can move to a new state; closed ones are kept as history.
+      // A bounty topped up in other currencies has one open row per currency.
+      const [active] = await db.select()
+        .from(multiCurrencyBounties)
+        .where(and(
+          eq(multiCurrencyBounties.repoId, data.repoId),
+          eq(multiCurrencyBounties.issueId, data.issueId),
+          eq(multiCurrencyBounties.currencyType, data.currencyType),
+          inArray(multiCurrencyBounties.status, ['created', 'allocated'])
+        ))
+        .orderBy(desc(multiCurrencyBounties.createdAt))
+        .limit(1);
+
+      if (active) {
+        const [updated] = await db.update(multiCurrencyBounties)
+          .set({
+            status: data.status,
+            amount: data.amount,
+            transactionHash: data.transactionHash ?? active.transactionHash,
+            contributorAddress: data.contributorAddress ?? active.contributorAddress,
+            updatedAt: new Date(),
+          })
+          .where(eq(multiCurrencyBounties.id, active.id))
+          .returning();
+        return updated;
+      }
+
+      const [created] = await db.insert(multiCurrencyBounties).values({
+        repoId: data.repoId,
+        issueId: data.issueId,
+        currencyType: data.currencyType,
+        network: 'xdc',
+        amount: data.amount,
+        status: data.status,
+        transactionHash: data.transactionHash ?? null,
+        contributorAddress: data.contributorAddress ?? null,
+      }).returning();
+      return created;
+    } catch (error) {
+      log(`Error recording multi-currency bounty: ${error instanceof Error ? error.message : String(error)}`, 'storage');
+      throw error;
+    }
+  }
+
 }
 
 export const storage = new DatabaseStorage();
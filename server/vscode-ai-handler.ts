@@ -1,15 +1,22 @@
 // Special handler for VSCode AI requests with support for streaming responses
 import { Request, Response } from 'express';
-import fetch from 'node-fetch';
+import fetch, { Response as FetchResponse } from 'node-fetch';
 import { log } from './utils';
 import { config } from './config';
 import { handleOpenAIStream } from './openai-stream';
-import { db } from './db'; // Import db for transactions
-import { storage } from './storage'; // Import storage for new prompt functions
+import { aiModelRegistryService } from './services/aiModelRegistryService';
+import { aiMeteringService, InsufficientPromptsError, PromptCapExceededError } from './services/aiMeteringService';
+import { aiCircuitBreakerService } from './services/aiCircuitBreakerService';
+import { dispatchTask } from './services/proofOfComputeService';
+import type { AiModel, AiUsageAuthorization } from '../shared/schema';
 
 // Helper function for delay
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
+// How often an in-flight request touches its hold, well inside the stale-hold timeout
+const HOLD_HEARTBEAT_MS = 60 * 1000;
+const SETTLE_ATTEMPTS = 3;
+
 // Helper function to safely extract a note string from messages
 function getNoteFromMessages(messages: Array<{role: string, content: string | any[]}>): string {
   const lastUserMessage = messages.filter(m => m.role === 'user').pop();
@@ -33,6 +40,123 @@ async function logInternalTokenUsage(userId: number, usageData: {
   log(`Internal Token Usage for user ${userId}: ${JSON.stringify(usageData)}`, 'vscode-ai-token-log');
 }
 
+// Charge the actual usage of a request against its hold, retrying a failed settlement. The response was
+// already sent, so if it still fails the request is charged what was held rather than left for the
+// stale-hold sweep to refund. Failures are logged rather than surfaced to the client.
+async function settleUsage(userId: number, authorization: AiUsageAuthorization, model: AiModel, inputTokens: number, outputTokens: number, notes: string): Promise<void> {
+  for (let attempt = 1; attempt <= SETTLE_ATTEMPTS; attempt++) {
+    try {
+      const settlement = await aiMeteringService.settle(authorization, model, inputTokens, outputTokens, notes);
+      if (settlement) {
+        log(`Charged ${settlement.chargedPrompts} prompt(s) to user ${userId} for ${inputTokens} input and ${outputTokens} output tokens on ${model.modelId}. New balance: ${settlement.newBalance}`, 'vscode-ai');
+      }
+      return;
+    } catch (dbError: any) {
+      log(`Prompt settlement attempt ${attempt}/${SETTLE_ATTEMPTS} failed for user ${userId} (model: ${model.modelId}, authorization ${authorization.id}): ${dbError.message}`, 'vscode-ai-ERROR');
+      if (attempt < SETTLE_ATTEMPTS) {
+        await delay(attempt * 1000);
+      }
+    }
+  }
+
+  try {
+    if (await aiMeteringService.settleAtHold(authorization, model, inputTokens, outputTokens)) {
+      log(`Charged user ${userId} the ${authorization.authorizedPrompts} held prompt(s) for authorization ${authorization.id}, as its usage could not be settled`, 'vscode-ai-WARN');
+    }
+  } catch (dbError: any) {
+    log(`CRITICAL: Prompt settlement FAILED for user ${userId} (model: ${model.modelId}, authorization ${authorization.id}): ${dbError.message}. The hold stays until the sweep releases it.`, 'vscode-ai-ERROR');
+  }
+}
+
+// Flatten the conversation into the single prompt an exo node takes
+function messagesToPrompt(messages: AzureOpenAIRequestBody['messages']): string {
+  return messages.map(message => {
+    const text = typeof message.content === 'string'
+      ? message.content
+      : message.content.filter(part => part.type === 'text').map(part => part.text || '').join('\n');
+    return `${message.role}: ${text}`;
+  }).join('\n\n');
+}
+
+// Send a request to one HTTP model, retrying rate limits and network errors with exponential backoff.
+// Returns the last response, or the last error if no response came back at all.
+async function sendToModel(
+  model: AiModel,
+  apiKey: string | undefined,
+  payloadBase: Omit<AzureOpenAIRequestBody, 'modelId'>,
+  maxRetries: number,
+  userId: number
+): Promise<{ response?: FetchResponse; error?: string }> {
+  const url = aiModelRegistryService.getChatCompletionsUrl(model);
+  const headers = aiModelRegistryService.getRequestHeaders(model, apiKey);
+  // Without a deployment in the URL, the provider reads the model to run from the payload. Standard Azure
+  // OpenAI deployments take it from the URL, so what the client sent in `model` is passed through.
+  const payload = model.pathStyle === 'azure_deployment' ? payloadBase : { ...payloadBase, model: model.upstreamModel };
+  log(`AI request URL: ${url}`, 'vscode-ai');
+
+  let lastError: string | undefined;
+  let currentDelay = 1000; // Initial delay 1 second
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    try {
+      log(`Attempt ${attempt + 1}/${maxRetries + 1} to call the AI service for user ${userId}, model ${model.upstreamModel}`, 'vscode-ai-DEBUG');
+      const response = await fetch(url, { method: 'POST', headers, body: JSON.stringify(payload) });
+
+      if (response.status === 429 && attempt < maxRetries) {
+        const retryAfterHeader = response.headers.get('retry-after');
+        let waitTime = currentDelay;
+        if (retryAfterHeader) {
+          const retryAfterSeconds = parseInt(retryAfterHeader, 10);
+          if (!isNaN(retryAfterSeconds)) {
+            waitTime = retryAfterSeconds * 1000; // Convert seconds to ms
+          }
+        }
+        log(`AI request to ${model.upstreamModel} was rate limited (attempt ${attempt + 1}). Waiting ${waitTime}ms. Retry-After: ${retryAfterHeader || 'N/A'}.`, 'vscode-ai-WARN');
+        await delay(waitTime);
+        currentDelay = Math.min(currentDelay * 2, 30000); // Exponential backoff, cap at 30s
+        continue;
+      }
+      return { response };
+    } catch (fetchError: any) {
+      lastError = fetchError.message || String(fetchError);
+      log(`Fetch error during AI request to ${model.upstreamModel} (attempt ${attempt + 1}): ${lastError}`, 'vscode-ai-ERROR');
+      if (attempt < maxRetries) {
+        await delay(currentDelay);
+        currentDelay = Math.min(currentDelay * 2, 30000);
+      }
+    }
+  }
+  return { error: lastError };
+}
+
+// Answer in the OpenAI chat completions format the client expects, as one SSE chunk when it asked for a stream
+function sendExoAnswer(res: Response, content: string, modelId: string, stream: boolean, usage: { prompt_tokens: number; completion_tokens: number }) {
+  const id = `chatcmpl-exo-${Date.now()}`;
+  const created = Math.floor(Date.now() / 1000);
+  const fullUsage = { ...usage, total_tokens: usage.prompt_tokens + usage.completion_tokens };
+  if (!stream) {
+    res.json({
+      id, object: 'chat.completion', created, model: modelId,
+      choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+      usage: fullUsage,
+    });
+    return;
+  }
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.write(`data: ${JSON.stringify({
+    id, object: 'chat.completion.chunk', created, model: modelId,
+    choices: [{ index: 0, delta: { role: 'assistant', content }, finish_reason: null }],
+  })}\n\n`);
+  res.write(`data: ${JSON.stringify({
+    id, object: 'chat.completion.chunk', created, model: modelId,
+    choices: [{ index: 0, delta: {}, finish_reason: 'stop' }],
+    usage: fullUsage,
+  })}\n\n`);
+  res.write('data: [DONE]\n\n');
+  res.end();
+}
+
 export interface AzureOpenAIRequestBody {
   messages: Array<{role: string, content: string | Array<{type: string, text?: string, image_url?: {url: string, detail?: string}}>}>;
   modelId?: string; 
@@ -49,267 +173,254 @@ export interface AzureOpenAIRequestBody {
 }
 
 export async function handleVSCodeAIChatCompletions(req: Request, res: Response) {
+  let authorization: AiUsageAuthorization | undefined;
+  let heartbeat: NodeJS.Timeout | undefined;
   try {
     const user = req.user;
     if (!user) {
       return res.status(401).json({ error: 'User not authenticated' });
     }
 
-    const currentPromptBalance = await storage.getUserPromptBalance(user.id);
-    if (currentPromptBalance <= 0) {
-      log(`User ${user.id} has insufficient prompts. Balance: ${currentPromptBalance}`, 'vscode-ai');
-      return res.status(402).json({
-        error: "Insufficient prompts",
-        message: "You have no prompts remaining. Please purchase a prompt pack to continue.",
-        currentBalance: currentPromptBalance
-      });
-    }
-    log(`User ${user.id} has ${currentPromptBalance} prompts. Proceeding with AI request.`, 'vscode-ai');
-
     const azureRequestBody = { ...req.body } as AzureOpenAIRequestBody;
     // Prioritize `model` field from request body, then `modelId`, then default.
     // Client's OpenAIHandler sends the identifier in the `model` field.
     const requestedModelId = azureRequestBody.model || azureRequestBody.modelId || 'default';
-    let selectedEndpoint: string | undefined;
-    let selectedApiKey: string | undefined;
-    let selectedDeploymentName: string | undefined;
-    let selectedApiVersion: string | undefined;
-    let actualModelNameForLog: string;
-
     log(`User ${user.id} requested modelId: '${requestedModelId}'`, 'vscode-ai');
 
-    if (requestedModelId === 'deepseek-r1') {
-      selectedEndpoint = config.azureOpenaiEndpointDeepSeek;
-      selectedApiKey = config.azureOpenaiKeyDeepSeek;
-      selectedDeploymentName = config.azureOpenaiDeploymentNameDeepSeek;
-      selectedApiVersion = config.azureOpenaiApiVersionDeepSeek;
-      actualModelNameForLog = azureRequestBody.model || selectedDeploymentName || 'DeepSeek-R1';
-      log(`Using DeepSeek-R1 configuration for user ${user.id}`, 'vscode-ai');
-    } else if (requestedModelId === 'gpt-4o-mini') {
-      selectedEndpoint = config.azureOpenaiEndpointO4Mini;
-      selectedApiKey = config.azureOpenaiKeyO4Mini;
-      selectedDeploymentName = config.azureOpenaiDeploymentNameO4Mini;
-      selectedApiVersion = config.azureOpenaiApiVersionO4Mini;
-      actualModelNameForLog = azureRequestBody.model || selectedDeploymentName || 'gpt-4o-mini';
-      log(`Using o4-mini (gpt-4o-mini) configuration for user ${user.id}`, 'vscode-ai');
-    } else if (requestedModelId === 'o3-mini') { // Client will send 'o3-mini'
-      selectedEndpoint = config.azureOpenaiEndpointO3Mini;
-      selectedApiKey = config.azureOpenaiKeyO3Mini;
-      selectedDeploymentName = config.azureOpenaiDeploymentNameO3Mini;
-      selectedApiVersion = config.azureOpenaiApiVersionO3Mini;
-      actualModelNameForLog = azureRequestBody.model || selectedDeploymentName || 'o3-mini';
-      log(`Using o3-mini configuration for user ${user.id}`, 'vscode-ai');
-    } else if (requestedModelId === 'gpt-4.1') { // Client will send 'gpt-4.1'
-      selectedEndpoint = config.azureOpenaiEndpointGpt41;
-      selectedApiKey = config.azureOpenaiKeyGpt41;
-      selectedDeploymentName = config.azureOpenaiDeploymentNameGpt41;
-      selectedApiVersion = config.azureOpenaiApiVersionGpt41;
-      actualModelNameForLog = azureRequestBody.model || selectedDeploymentName || 'gpt-4.1';
-      log(`Using gpt-4.1 configuration for user ${user.id}`, 'vscode-ai');
-    } else if (requestedModelId === 'ministral-3b') { 
-      selectedEndpoint = config.azureOpenaiEndpointMinistral3B;
-      selectedApiKey = config.azureOpenaiKeyMinistral3B;
-      selectedDeploymentName = config.azureOpenaiDeploymentNameMinistral3B; 
-      selectedApiVersion = config.azureOpenaiApiVersionMinistral3B;
-      actualModelNameForLog = azureRequestBody.model || selectedDeploymentName || 'Ministral-3B';
-      log(`Using Ministral-3B configuration for user ${user.id}`, 'vscode-ai');
-    } else if (requestedModelId === 'grok-3') {
-      selectedEndpoint = config.azureOpenaiEndpointGrok;
-      selectedApiKey = config.azureOpenaiKeyGrok;
-      selectedDeploymentName = config.azureOpenaiDeploymentNameGrok3;
-      selectedApiVersion = config.azureOpenaiApiVersionGrok;
-      actualModelNameForLog = azureRequestBody.model || selectedDeploymentName || 'grok-3';
-      log(`Using grok-3 configuration for user ${user.id}`, 'vscode-ai');
-    } else if (requestedModelId === 'grok-3-mini') {
-      selectedEndpoint = config.azureOpenaiEndpointGrok; // Uses same endpoint as grok-3
-      selectedApiKey = config.azureOpenaiKeyGrok; // Uses same key as grok-3
-      selectedDeploymentName = config.azureOpenaiDeploymentNameGrok3Mini;
-      selectedApiVersion = config.azureOpenaiApiVersionGrok; // Uses same api version as grok-3
-      actualModelNameForLog = azureRequestBody.model || selectedDeploymentName || 'grok-3-mini';
-      log(`Using grok-3-mini configuration for user ${user.id}`, 'vscode-ai');
-    } else {
-      selectedEndpoint = config.azureOpenaiEndpoint;
-      selectedApiKey = config.azureOpenaiKey;
-      selectedDeploymentName = config.azureOpenaiDeploymentName;
-      selectedApiVersion = config.azureOpenaiApiVersion;
-      actualModelNameForLog = azureRequestBody.model || selectedDeploymentName || 'DefaultAzureOpenAI';
-      if (requestedModelId !== 'default') {
-        log(`Requested modelId '${requestedModelId}' not recognized, defaulting to original Azure OpenAI config for user ${user.id}`, 'vscode-ai-WARN');
-      } else {
-        log(`Using default Azure OpenAI configuration for user ${user.id}`, 'vscode-ai');
+    const model = await aiModelRegistryService.resolve(requestedModelId);
+    if (!model) {
+      log(`No enabled model in the registry for '${requestedModelId}' and no default model configured.`, 'vscode-ai-ERROR');
+      return res.status(500).json({ error: `AI service backend not configured properly for model '${requestedModelId}'.` });
+    }
+    try {
+      authorization = await aiMeteringService.authorize(user.id, model, azureRequestBody);
+    } catch (error) {
+      if (error instanceof InsufficientPromptsError && error.organizationName) {
+        log(`Organisation pool of user ${user.id} has insufficient prompts for ${model.modelId} (needs up to ${error.required}). Pool: ${error.balance}`, 'vscode-ai');
+        return res.status(402).json({
+          error: "Insufficient prompts",
+          message: error.balance <= 0
+            ? `The ${error.organizationName} prompt pool is empty. Ask an organisation admin to top it up.`
+            : `This request to ${model.displayName} may cost up to ${error.required} prompts, more than the ${error.organizationName} pool holds. Lower max_tokens or choose another model.`,
+          currentBalance: error.balance,
+          requiredPrompts: error.required,
+          organization: error.organizationName
+        });
+      }
+      if (error instanceof InsufficientPromptsError) {
+        log(`User ${user.id} has insufficient prompts for ${model.modelId} (needs up to ${error.required}). Balance: ${error.balance}`, 'vscode-ai');
+        return res.status(402).json({
+          error: "Insufficient prompts",
+          message: error.balance <= 0
+            ? "You have no prompts remaining. Please purchase a prompt pack to continue."
+            : `This request to ${model.displayName} may cost up to ${error.required} prompts. Lower max_tokens, purchase a prompt pack or choose another model.`,
+          currentBalance: error.balance,
+          requiredPrompts: error.required
+        });
       }
+      if (error instanceof PromptCapExceededError) {
+        log(`User ${user.id} reached their monthly cap of ${error.cap} prompts (used ${error.used}, needs up to ${error.required})`, 'vscode-ai');
+        return res.status(402).json({
+          error: "Monthly prompt cap reached",
+          message: `This request to ${model.displayName} may cost up to ${error.required} prompts, but ${Math.max(error.cap - error.used, 0)} of your monthly cap of ${error.cap} remain. Ask an organisation admin to raise it, or lower max_tokens.`,
+          monthlyCap: error.cap,
+          monthlyUsed: error.used,
+          requiredPrompts: error.required
+        });
+      }
+      throw error;
     }
+    log(`Holding ${authorization.authorizedPrompts} prompt(s) for user ${user.id}${authorization.organizationId ? ` from organisation ${authorization.organizationId}` : ''}. Proceeding with AI request.`, 'vscode-ai');
+    // Keep the hold out of the stale-hold sweep for as long as the request runs, however long it streams
+    const authorizationId = authorization.id;
+    heartbeat = setInterval(() => {
+      aiMeteringService.heartbeat(authorizationId).catch((heartbeatError: any) => {
+        log(`Failed to touch hold ${authorizationId}: ${heartbeatError.message || heartbeatError}`, 'vscode-ai-WARN');
+      });
+    }, HOLD_HEARTBEAT_MS);
 
-    if (!selectedEndpoint || !selectedApiKey || !selectedDeploymentName || !selectedApiVersion) {
-      log(`Selected AI model configuration for '${requestedModelId}' is missing or incomplete on the backend.`, 'vscode-ai-ERROR');
-      return res.status(500).json({ error: `AI service backend not configured properly for model '${requestedModelId}'.` });
-    }
-    
-    log(`Proxying AI request for user ${user.id} to ${selectedDeploymentName}`, 'vscode-ai');
     const isStreamingRequest = azureRequestBody.stream === true;
     log(`Request is${isStreamingRequest ? '' : ' not'} using streaming mode`, 'vscode-ai');
 
-    let azureUrl: string;
-    // Add grok models to this list as they also use the /models/chat/completions path
-    const modelsUsingCustomPath = ['deepseek-r1', 'ministral-3b', 'grok-3', 'grok-3-mini'];
-
-    if (modelsUsingCustomPath.includes(requestedModelId)) {
-      // Use the specific path structure for these models
-      azureUrl = `${selectedEndpoint}/models/chat/completions?api-version=${selectedApiVersion}`;
-    } else {
-      // Standard Azure OpenAI path structure
-      azureUrl = `${selectedEndpoint}/openai/deployments/${selectedDeploymentName}/chat/completions?api-version=${selectedApiVersion}`;
-    }
-    log(`Azure request URL: ${azureUrl}`, 'vscode-ai');
-
+    const chain = await aiModelRegistryService.resolveChain(model);
     const { modelId: internalModelId, ...payloadBase } = azureRequestBody;
-    let finalPayloadForAzure = { ...payloadBase };
-
-    if (modelsUsingCustomPath.includes(requestedModelId)) {
-      // For these models, Azure expects the specific model/deployment name in the 'model' field of the payload.
-      // selectedDeploymentName holds the correct value (e.g., "DeepSeek-R1", "Ministral-3B", "grok-3", "grok-3-mini").
-      finalPayloadForAzure.model = selectedDeploymentName;
-      log(`Ensured payload model for ${requestedModelId} is set to: ${selectedDeploymentName}`, 'vscode-ai-DEBUG');
-    }
-    // For standard Azure OpenAI deployments, the 'model' field in the payload is often optional
-    // or can be the base model name, as the deployment name in the URL path specifies the exact model.
-    // We pass through what the client sent in `azureRequestBody.model` if it's not a custom path model.
-
-    let aiServiceResponse: import('node-fetch').Response | undefined;
+    let answer: { model: AiModel; response: FetchResponse } | { model: AiModel; exoContent: string } | undefined;
     let lastError: any;
-    const maxRetries = 3; // Max 3 retries (total 4 attempts)
-    let currentDelay = 1000; // Initial delay 1 second
 
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
-      try {
-        log(`Attempt ${attempt + 1}/${maxRetries + 1} to call Azure OpenAI for user ${user.id}, model ${selectedDeploymentName}`, 'vscode-ai-DEBUG');
-        const response = await fetch(azureUrl, {
-          method: 'POST',
-          headers: { 'api-key': selectedApiKey, 'Content-Type': 'application/json' },
-          body: JSON.stringify(finalPayloadForAzure)
-        });
+    for (let index = 0; index < chain.length; index++) {
+      const candidate = chain[index];
+      const hasFallback = index < chain.length - 1;
+      const apiKey = await aiModelRegistryService.resolveSecret(candidate.secretRef);
+      if (candidate.secretRef && !apiKey) {
+        lastError = `AI service backend not configured properly for model '${candidate.modelId}'.`;
+        log(`Secret ${candidate.secretRef} for model '${candidate.modelId}' is not set on the backend.`, 'vscode-ai-ERROR');
+        continue;
+      }
+      if (!aiCircuitBreakerService.allowRequest(candidate)) {
+        lastError = `Circuit open for ${candidate.modelId}`;
+        log(`Skipping ${candidate.modelId} for user ${user.id}: its circuit is open`, 'vscode-ai-WARN');
+        continue;
+      }
+      log(`Proxying AI request for user ${user.id} to ${candidate.modelId} (${candidate.providerType}, ${candidate.upstreamModel})`, 'vscode-ai');
 
-        if (response.status === 429 && attempt < maxRetries) {
-          const retryAfterHeader = response.headers.get('retry-after');
-          let waitTime = currentDelay;
-          if (retryAfterHeader) {
-            const retryAfterSeconds = parseInt(retryAfterHeader, 10);
-            if (!isNaN(retryAfterSeconds)) {
-              waitTime = retryAfterSeconds * 1000; // Convert seconds to ms
-            }
-          }
-          
-          lastError = `Status 429: Rate limited. Retry-After: ${retryAfterHeader || 'N/A'}.`;
-          log(`Azure OpenAI request to ${selectedDeploymentName} was rate limited (attempt ${attempt + 1}). Waiting ${waitTime}ms. ${lastError}`, 'vscode-ai-WARN');
-          await delay(waitTime);
-          currentDelay = Math.min(currentDelay * 2, 30000); // Exponential backoff, cap at 30s
-          continue; 
+      if (candidate.providerType === 'exo_network') {
+        try {
+          const result = await dispatchTask(messagesToPrompt(azureRequestBody.messages));
+          aiCircuitBreakerService.recordSuccess(candidate);
+          answer = { model: candidate, exoContent: String(result.message ?? '') };
+          break;
+        } catch (exoError: any) {
+          lastError = exoError.message || String(exoError);
+          aiCircuitBreakerService.recordFailure(candidate, lastError);
+          log(`Exo network request failed for user ${user.id}: ${lastError}`, 'vscode-ai-ERROR');
+          continue;
         }
-        
-        aiServiceResponse = response; 
-        break; 
-      } catch (fetchError: any) {
-        lastError = fetchError.message || fetchError;
-        log(`Fetch error during Azure OpenAI request (attempt ${attempt + 1}): ${lastError}`, 'vscode-ai-ERROR');
-        if (attempt < maxRetries) {
-          await delay(currentDelay);
-          currentDelay = Math.min(currentDelay * 2, 30000); 
+      }
+
+      // With a fallback left, move on after one retry rather than waiting out an outage.
+      // A throw still counts against the deployment, so a half-open trial always reports back.
+      let outcome: { response?: FetchResponse; error?: string };
+      let errorBody = '';
+      try {
+        outcome = await sendToModel(candidate, apiKey, payloadBase, hasFallback ? 1 : 3, user.id);
+        if (outcome.response && !outcome.response.ok) {
+          errorBody = await outcome.response.text();
         }
+      } catch (sendError: any) {
+        lastError = sendError.message || String(sendError);
+        aiCircuitBreakerService.recordFailure(candidate, lastError);
+        log(`AI request to ${candidate.upstreamModel} threw for user ${user.id}: ${lastError}`, 'vscode-ai-ERROR');
+        continue;
+      }
+      if (!outcome.response) {
+        lastError = outcome.error;
+        aiCircuitBreakerService.recordFailure(candidate, outcome.error || 'No response');
+        continue;
+      }
+      if (outcome.response.ok) {
+        aiCircuitBreakerService.recordSuccess(candidate);
+        answer = { model: candidate, response: outcome.response };
+        break;
+      }
+
+      log(`AI request to ${candidate.upstreamModel} failed with status ${outcome.response.status}: ${errorBody}`, 'vscode-ai-ERROR');
+      if (outcome.response.status === 429 || outcome.response.status >= 500) {
+        lastError = `Status ${outcome.response.status}: ${errorBody}`;
+        aiCircuitBreakerService.recordFailure(candidate, `status ${outcome.response.status}`);
+        continue;
       }
+      // Any other error is about the request itself, which a fallback would reject as well.
+      // The deployment did answer, so it counts as healthy.
+      aiCircuitBreakerService.recordSuccess(candidate);
+      await aiMeteringService.release(authorization.id, `AI service returned ${outcome.response.status}`);
+      return res.status(outcome.response.status).json({
+        error: 'AI service request failed',
+        message: `Underlying AI service error: ${outcome.response.statusText || `Status Code: ${outcome.response.status}`}`,
+        details: errorBody
+      });
     }
 
-    if (!aiServiceResponse) {
-      log(`Azure OpenAI request to ${selectedDeploymentName} failed after ${maxRetries + 1} attempts. Last error: ${JSON.stringify(lastError)}`, 'vscode-ai-ERROR');
-      return res.status(503).json({ // Service Unavailable after retries
-        error: 'AI service request failed after multiple retries', 
+    if (!answer) {
+      log(`AI request for '${model.modelId}' failed on all ${chain.length} model(s) in its chain. Last error: ${JSON.stringify(lastError)}`, 'vscode-ai-ERROR');
+      await aiMeteringService.release(authorization.id, 'AI service unavailable');
+      return res.status(503).json({ // Service Unavailable after retries and fallbacks
+        error: 'AI service request failed after multiple retries',
         message: 'The AI service is currently experiencing high load or an issue. Please try again later.',
         details: lastError
       });
     }
-    
-    if (!aiServiceResponse.ok) {
-      // This handles non-429 errors that are not retried, or the final error after retries if it's still not .ok
-      const errorBody = await aiServiceResponse.text();
-      log(`Azure OpenAI request to ${selectedDeploymentName} failed with status ${aiServiceResponse.status}: ${errorBody}`, 'vscode-ai-ERROR');
-      return res.status(aiServiceResponse.status).json({ 
-        error: 'AI service request failed', 
-        message: `Underlying AI service error: ${aiServiceResponse.statusText || `Status Code: ${aiServiceResponse.status}`}`,
-        details: errorBody 
+
+    // Billing and the response header follow the model that answered
+    const answeringModel = answer.model;
+    const actualModelNameForLog = answeringModel === model ? (azureRequestBody.model || model.upstreamModel) : answeringModel.modelId;
+    res.setHeader('X-Roxonn-Model', answeringModel.modelId);
+    if (answeringModel !== model) {
+      log(`Request from user ${user.id} for ${model.modelId} was answered by fallback ${answeringModel.modelId}`, 'vscode-ai-WARN');
+    }
+
+    if ('exoContent' in answer) {
+      const inputTokens = authorization.estimatedInputTokens;
+      const outputTokens = Math.ceil(answer.exoContent.length / 4);
+      sendExoAnswer(res, answer.exoContent, answeringModel.modelId, isStreamingRequest, { prompt_tokens: inputTokens, completion_tokens: outputTokens });
+      await logInternalTokenUsage(user.id, {
+        service: 'vscode-ai-chat-exo', model: actualModelNameForLog,
+        inputTokens, outputTokens,
       });
+      await settleUsage(
+        user.id, authorization, answeringModel, inputTokens, outputTokens,
+        `VSCode AI Exo (${actualModelNameForLog}): ${getNoteFromMessages(azureRequestBody.messages)}`
+      );
+      return;
     }
-    
+    const aiServiceResponse = answer.response;
+
     if (isStreamingRequest) {
       log(`Handling streaming response for user ${user.id}`, 'vscode-ai');
       try {
         const usageData = await handleOpenAIStream(aiServiceResponse, res, user.id, azureRequestBody);
-        if (usageData.promptTokens !== undefined && usageData.completionTokens !== undefined) {
-          await logInternalTokenUsage(user.id, {
-            service: 'vscode-ai-chat-stream', model: actualModelNameForLog,
-            inputTokens: usageData.promptTokens, outputTokens: usageData.completionTokens,
-          });
-          try {
-            await db.transaction(async (tx) => {
-              const deductionResult = await storage.adjustUserPromptBalance(
-                tx, user.id, -1, 'usage_vscode_ai',
-                `VSCode AI Stream (${actualModelNameForLog}): ${getNoteFromMessages(azureRequestBody.messages)}`
-              );
-              if (!deductionResult.success) {
-                log(`CRITICAL: Prompt deduction FAILED for user ${user.id} (model: ${actualModelNameForLog}) after AI stream: ${deductionResult.error}. Balance might be incorrect.`, 'vscode-ai-ERROR');
-              } else {
-                log(`Successfully deducted 1 prompt for user ${user.id} after AI stream. New balance: ${deductionResult.newBalance}`, 'vscode-ai');
-              }
-            });
-          } catch (dbError: any) {
-            log(`CRITICAL: DB transaction error during prompt deduction for user ${user.id} after AI stream: ${dbError.message}. Balance might be incorrect.`, 'vscode-ai-ERROR');
-          }
-        } else {
-          log(`No token usage data from stream for user ${user.id}. Prompt not deducted for this stream.`, 'vscode-ai');
-        }
+        // The stream handler falls back to estimates, so usage is only missing if it failed outright
+        const inputTokens = usageData.promptTokens ?? authorization.estimatedInputTokens;
+        const outputTokens = usageData.completionTokens ?? authorization.estimatedOutputTokens;
+        await logInternalTokenUsage(user.id, {
+          service: 'vscode-ai-chat-stream', model: actualModelNameForLog,
+          inputTokens, outputTokens,
+        });
+        await settleUsage(
+          user.id, authorization, answeringModel, inputTokens, outputTokens,
+          `VSCode AI Stream (${actualModelNameForLog}): ${getNoteFromMessages(azureRequestBody.messages)}`
+        );
         return;
       } catch (streamingError: any) {
         log(`Error in streaming handler for user ${user.id}: ${streamingError.message || streamingError}`, 'vscode-ai');
         if (!res.headersSent) {
+          await aiMeteringService.release(authorization.id, 'Streaming failed before any output');
           return res.status(500).json({ error: 'Streaming error', message: streamingError.message || 'Unknown error' });
         }
+        // Part of the answer already reached the client, so the request is charged on its estimate
+        await settleUsage(
+          user.id, authorization, answeringModel, authorization.estimatedInputTokens, authorization.estimatedOutputTokens,
+          `VSCode AI Stream (${actualModelNameForLog}, interrupted): ${getNoteFromMessages(azureRequestBody.messages)}`
+        );
         return;
       }
     }
     
-    const responseData = await aiServiceResponse.json();
-    if (responseData.usage && responseData.usage.prompt_tokens !== undefined && responseData.usage.completion_tokens !== undefined) {
-      await logInternalTokenUsage(user.id, {
-        service: 'vscode-ai-chat-nonstream', model: actualModelNameForLog,
-        inputTokens: responseData.usage.prompt_tokens, outputTokens: responseData.usage.completion_tokens,
-      });
-      try {
-        await db.transaction(async (tx) => {
-          const deductionResult = await storage.adjustUserPromptBalance(
-            tx, user.id, -1, 'usage_vscode_ai',
-            `VSCode AI Non-Stream (${actualModelNameForLog}): ${getNoteFromMessages(azureRequestBody.messages)}`
-          );
-          if (!deductionResult.success) {
-            log(`CRITICAL: Prompt deduction FAILED for user ${user.id} (model: ${actualModelNameForLog}) after AI non-stream: ${deductionResult.error}. Balance might be incorrect.`, 'vscode-ai-ERROR');
-          } else {
-            log(`Successfully deducted 1 prompt for user ${user.id} after AI non-stream. New balance: ${deductionResult.newBalance}`, 'vscode-ai');
-          }
-        });
-      } catch (dbError: any) {
-        log(`CRITICAL: DB transaction error during prompt deduction for user ${user.id} after AI non-stream: ${dbError.message}. Balance might be incorrect.`, 'vscode-ai-ERROR');
-      }
-    } else {
-      log(`No token usage data from non-streaming AI response for user ${user.id}. Prompt not deducted.`, 'vscode-ai');
+    const responseData: any = await aiServiceResponse.json();
+    const hasUsage = responseData.usage && responseData.usage.prompt_tokens !== undefined && responseData.usage.completion_tokens !== undefined;
+    if (!hasUsage) {
+      log(`No token usage data from non-streaming AI response for user ${user.id}. Settling on estimates.`, 'vscode-ai');
     }
+    const inputTokens: number = hasUsage ? responseData.usage.prompt_tokens : authorization.estimatedInputTokens;
+    const outputTokens: number = hasUsage
+      ? responseData.usage.completion_tokens
+      : Math.ceil((responseData.choices?.[0]?.message?.content || '').length / 4);
+    await logInternalTokenUsage(user.id, {
+      service: 'vscode-ai-chat-nonstream', model: actualModelNameForLog,
+      inputTokens, outputTokens,
+    });
+    await settleUsage(
+      user.id, authorization, answeringModel, inputTokens, outputTokens,
+      `VSCode AI Non-Stream (${actualModelNameForLog}): ${getNoteFromMessages(azureRequestBody.messages)}`
+    );
     
     log(`Successfully processed non-streaming AI chat request for user ${user.id}`, 'vscode-ai');
     return res.json(responseData);
   } catch (error: any) {
     log(`VSCode AI chat request processing error for user ${req.user?.id || 'unknown'}: ${error.message || error}`, 'vscode-ai-ERROR');
     console.error('VSCode AI chat request failed:', error);
+    if (authorization) {
+      // No-op when the request was already settled
+      await aiMeteringService.release(authorization.id, 'Request failed').catch((releaseError: any) => {
+        log(`Failed to release hold ${authorization!.id}: ${releaseError.message || releaseError}`, 'vscode-ai-ERROR');
+      });
+    }
     if (!res.headersSent) {
       return res.status(500).json({ 
         error: 'AI service temporarily unavailable',
         message: error.message || 'Unknown error'
       });
     }
+  } finally {
+    clearInterval(heartbeat);
   }
 }
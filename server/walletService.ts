@@ -9,6 +9,7 @@ import { HDKey } from "ethereum-cryptography/hdkey";
 import * as crypto from 'crypto'; // Using Node.js native crypto
 import { getWalletSecret } from './aws'; // Import the AWS KMS decryption function
 import { validatePrivateKey } from './keyValidation'; // Import enhanced key validation
+import { withdrawalAddressService } from './services/withdrawalAddressService';
 
 // Interface for single XDC wallet
 export interface WalletDetails {
@@ -725,16 +726,19 @@ export class WalletService {
     }
     
     /**
-     * Transfer USDT tokens on supported networks
+     * Transfer USDT tokens on supported networks. The destination must be an active
+     * withdrawal address of the user whose wallet is sending.
      */
     async transferUSDT(params: {
+        userId: number;
         privateKey: string;
         toAddress: string;
         amount: string;
         networkName: string;
     }): Promise<string> {
         try {
-            const { privateKey, toAddress, amount, networkName } = params;
+            const { userId, privateKey, toAddress, amount, networkName } = params;
+            await withdrawalAddressService.assertCanWithdraw(userId, toAddress, { currency: 'USDT', amount, networkName });
             const networkConfig = SUPPORTED_NETWORKS[networkName];
             
             if (!networkConfig || !networkConfig.usdtContractAddress) {
@@ -975,15 +979,18 @@ export class WalletService {
     }
     
     /**
-     * Transfer USDC tokens on XDC network
+     * Transfer USDC tokens on XDC network. The destination must be an active
+     * withdrawal address of the user whose wallet is sending.
      */
     async transferUSDC(params: {
+        userId: number;
         privateKey: string;
         toAddress: string;
         amount: string;
     }): Promise<string> {
         try {
-            const { privateKey, toAddress, amount } = params;
+            const { userId, privateKey, toAddress, amount } = params;
+            await withdrawalAddressService.assertCanWithdraw(userId, toAddress, { currency: 'USDC', amount });
             const networkConfig = SUPPORTED_NETWORKS['xdc'];
             
             if (!networkConfig || !networkConfig.usdcContractAddress) {
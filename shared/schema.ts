@@ -158,6 +158,7 @@ export const allocateUnifiedBountySchema = z.object({ // Renamed
   githubRepoFullName: z.string().optional(),
   issueTitle: z.string().optional(),
   issueUrl: z.string().url().optional(),
+  expiresInDays: z.number().int().min(1).optional(), // Return the bounty to the pool if unfixed after this many days
 });
 export type AllocateUnifiedBountyInput = z.infer<typeof allocateUnifiedBountySchema>; // Renamed type
 
@@ -170,6 +171,8 @@ export const IssueBountyDetailsSchema = z.object({
     xdcAmount: z.string().optional(), // Formatted XDC amount, optional if ROXN/USDC or no bounty
     roxnAmount: z.string().optional(), // Formatted ROXN amount, optional if XDC/USDC or no bounty
     usdcAmount: z.string().optional(), // Formatted USDC amount, optional if XDC/ROXN or no bounty
+    currency: z.enum(['XDC', 'ROXN', 'USDC']).optional(), // The bounty's own currency; other non-zero amounts were added on top
+    expiresAt: z.string().nullable().optional(), // ISO deadline after which the bounty returns to the pool, if one was set
 });
 export type IssueBountyDetails = z.infer<typeof IssueBountyDetailsSchema>;
 
@@ -243,11 +246,17 @@ export type NewPendingWallet = typeof pendingWallets.$inferInsert;
 export const promptTransactions = pgTable('prompt_transactions', {
   id: serial('id').primaryKey(),
   userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
-  transactionType: text('transaction_type', { enum: ['purchase', 'usage_vscode_ai', 'admin_adjustment', 'initial_grant'] }).notNull(),
+  transactionType: text('transaction_type', { enum: ['purchase', 'usage_vscode_ai', 'usage_vscode_ai_hold', 'usage_vscode_ai_release', 'admin_adjustment', 'initial_grant', 'organization_deposit'] }).notNull(),
   promptsChanged: integer('prompts_changed').notNull(), // Positive for additions, negative for deductions
   balanceAfterTx: integer('balance_after_tx').notNull(), // User's prompt balance after this transaction
   notes: text('notes'), 
   onrampOrderId: text('onramp_order_id'), // Optional, for linking to Onramp.money orders if applicable
+  // Metered AI usage breakdown, set on hold, settlement and release rows
+  authorizationId: integer('authorization_id'), // ai_usage_authorizations.id
+  model: text('model'),
+  inputTokens: integer('input_tokens'),
+  outputTokens: integer('output_tokens'),
+  promptsCharged: integer('prompts_charged'), // Final cost of the request, on settlement rows
   createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
 });
 
@@ -609,3 +618,1084 @@ export const bountyRequests = pgTable("bounty_requests", {
 
 export type BountyRequest = typeof bountyRequests.$inferSelect;
 export type NewBountyRequest = typeof bountyRequests.$inferInsert;
+
+// Contributor shares for issues whose bounty is split between several people
+export const bountySplits = pgTable("bounty_splits", {
+  id: serial("id").primaryKey(),
+  githubRepoId: text("github_repo_id").notNull(),
+  githubIssueNumber: integer("github_issue_number").notNull(),
+  githubUsername: text("github_username").notNull(),
+  shareBps: integer("share_bps").notNull(), // Basis points, all rows for an issue total 10000
+  setBy: text("set_by").notNull(), // GitHub username of the pool manager who set the split
+  status: text("status", { enum: ["pending", "paid"] }).default("pending").notNull(),
+  transactionHash: text("transaction_hash"),
+  createdAt: timestamp("created_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+  paidAt: timestamp("paid_at", { mode: 'date', withTimezone: true }),
+});
+
+export type BountySplit = typeof bountySplits.$inferSelect;
+export type NewBountySplit = typeof bountySplits.$inferInsert;
+
+export const MAX_BOUNTY_SPLIT_RECIPIENTS = 10;
+
+export const setBountySplitSchema = z.object({
+  shares: z.array(z.object({
+    githubUsername: z.string().regex(/^[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,37}[a-zA-Z0-9])?$/, "Invalid GitHub username"),
+    percentage: z.number().int().min(1).max(100),
+  }))
+    .min(1, "At least one recipient is required")
+    .max(MAX_BOUNTY_SPLIT_RECIPIENTS, `At most ${MAX_BOUNTY_SPLIT_RECIPIENTS} recipients are allowed`)
+    .refine(shares => shares.reduce((sum, s) => sum + s.percentage, 0) === 100, { message: "Percentages must add up to 100" })
+    .refine(shares => new Set(shares.map(s => s.githubUsername.toLowerCase())).size === shares.length, { message: "Each recipient may only appear once" }),
+  githubRepoFullName: z.string().optional(),
+});
+
+export type SetBountySplitInput = z.infer<typeof setBountySplitSchema>;
+
+// Time-boxed reservations of an allocated bounty by a single contributor
+export const bountyClaims = pgTable("bounty_claims", {
+  id: serial("id").primaryKey(),
+  githubRepoId: text("github_repo_id").notNull(),
+  githubIssueNumber: integer("github_issue_number").notNull(),
+  githubUsername: text("github_username").notNull(), // Claimant
+  status: text("status", { enum: ["active", "released", "expired", "completed"] }).default("active").notNull(),
+  assignedBy: text("assigned_by"), // Set when a maintainer claimed on someone's behalf
+  claimedAt: timestamp("claimed_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+  expiresAt: timestamp("expires_at", { mode: 'date', withTimezone: true }).notNull(),
+  closedAt: timestamp("closed_at", { mode: 'date', withTimezone: true }),
+  closedBy: text("closed_by"), // GitHub username that released the claim, if any
+});
+
+export type BountyClaim = typeof bountyClaims.$inferSelect;
+export type NewBountyClaim = typeof bountyClaims.$inferInsert;
+
+// Verified GitHub App webhook deliveries, processed by the webhook queue worker
+export const webhookEvents = pgTable("webhook_events", {
+  id: serial("id").primaryKey(),
+  deliveryId: text("delivery_id").notNull().unique(), // X-GitHub-Delivery header
+  event: text("event").notNull(), // X-GitHub-Event header
+  action: text("action"),
+  installationId: text("installation_id").notNull(),
+  payload: jsonb("payload").notNull(),
+  status: text("status", { enum: ["pending", "processing", "completed", "failed", "dead_letter"] }).default("pending").notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+  processedAt: timestamp("processed_at", { mode: 'date', withTimezone: true }),
+  createdAt: timestamp("created_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+});
+
+export type WebhookEvent = typeof webhookEvents.$inferSelect;
+export type NewWebhookEvent = typeof webhookEvents.$inferInsert;
+
+// On-chain steps a webhook delivery started, so a retry or replay of the delivery never sends them twice
+export const webhookDeliverySteps = pgTable("webhook_delivery_steps", {
+  id: serial("id").primaryKey(),
+  deliveryId: text("delivery_id").notNull(), // X-GitHub-Delivery header of the webhook_events row
+  step: text("step").notNull(), // e.g. "allocate:USDC"; unique per delivery
+  status: text("status", { enum: ["started", "completed"] }).default("started").notNull(),
+  transactionHash: text("transaction_hash"),
+  createdAt: timestamp("created_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+});
+
+export type WebhookDeliveryStep = typeof webhookDeliverySteps.$inferSelect;
+export type NewWebhookDeliveryStep = typeof webhookDeliverySteps.$inferInsert;
+
+// One row per issue payout; written before any distribution is sent so a bounty is never paid twice
+export interface PayoutLedgerRecipient {
+  githubUsername: string;
+  address: string;
+  shareBps: number;
+  amount: string; // Gross share before platform fees
+  extraAmounts?: { currency: 'XDC' | 'ROXN' | 'USDC'; amount: string }[]; // Shares of amounts added in other currencies
+}
+
+export const payoutLedger = pgTable("payout_ledger", {
+  id: serial("id").primaryKey(),
+  githubRepoId: text("github_repo_id").notNull(),
+  githubIssueNumber: integer("github_issue_number").notNull(),
+  // Which allocation of the issue's bounty this pays. A confirmed payout ends an allocation on-chain,
+  // so the next payout on the same issue is for the next one.
+  allocationSeq: integer("allocation_seq").default(1).notNull(),
+  status: text("status", { enum: ["pending", "submitted", "confirmed", "failed"] }).default("pending").notNull(),
+  currency: text("currency", { enum: ["XDC", "ROXN", "USDC"] }).notNull(),
+  amount: text("amount").notNull(), // Total bounty amount
+  recipients: jsonb("recipients").$type<PayoutLedgerRecipient[]>().notNull(),
+  source: text("source").notNull(), // Which handler initiated the payout, e.g. 'webhook-issue'
+  transactionHash: text("transaction_hash"),
+  gasUsed: text("gas_used"),
+  attempts: integer("attempts").default(1).notNull(),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+  submittedAt: timestamp("submitted_at", { mode: 'date', withTimezone: true }),
+  confirmedAt: timestamp("confirmed_at", { mode: 'date', withTimezone: true }),
+  updatedAt: timestamp("updated_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+}); // Unique on (github_repo_id, github_issue_number, allocation_seq), see migration 0043
+
+export type PayoutLedgerEntry = typeof payoutLedger.$inferSelect;
+export type NewPayoutLedgerEntry = typeof payoutLedger.$inferInsert;
+
+// Admin decision on a payout the chain could not settle; a confirmed payout needs its transaction
+export const resolvePayoutSchema = z.discriminatedUnion("status", [
+  z.object({
+    status: z.literal("confirmed"),
+    transactionHash: z.string().regex(/^0x[0-9a-fA-F]{64}$/, "Invalid transaction hash"),
+    note: z.string().trim().min(1).max(500),
+  }),
+  z.object({
+    status: z.literal("failed"),
+    note: z.string().trim().min(1).max(500),
+  }),
+]);
+
+// Rewards contract events replayed by the reconciler; amounts are raw token units
+export const chainRewardEvents = pgTable("chain_reward_events", {
+  id: serial("id").primaryKey(),
+  eventName: text("event_name").notNull(),
+  githubRepoId: text("github_repo_id").notNull(),
+  githubIssueNumber: integer("github_issue_number"), // Null for funding events
+  currency: text("currency", { enum: ["XDC", "ROXN", "USDC"] }).notNull(),
+  amount: text("amount").notNull(),
+  address: text("address"), // Contributor or funder
+  blockNumber: integer("block_number").notNull(),
+  transactionHash: text("transaction_hash").notNull(),
+  logIndex: integer("log_index").notNull(),
+  createdAt: timestamp("created_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+}); // Unique on (transaction_hash, log_index), see migration 0024
+
+export type ChainRewardEvent = typeof chainRewardEvents.$inferSelect;
+export type NewChainRewardEvent = typeof chainRewardEvents.$inferInsert;
+
+// Per-repository pool balances rebuilt from contract events, alongside the live on-chain values
+export const repositoryPoolBalances = pgTable("repository_pool_balances", {
+  id: serial("id").primaryKey(),
+  githubRepoId: text("github_repo_id").notNull().unique(),
+  xdcBalance: text("xdc_balance").default("0").notNull(),
+  roxnBalance: text("roxn_balance").default("0").notNull(),
+  usdcBalance: text("usdc_balance").default("0").notNull(),
+  onChainXdcBalance: text("on_chain_xdc_balance"),
+  onChainRoxnBalance: text("on_chain_roxn_balance"),
+  onChainUsdcBalance: text("on_chain_usdc_balance"),
+  hasMismatch: boolean("has_mismatch").default(false).notNull(),
+  lastEventBlock: integer("last_event_block"),
+  reconciledAt: timestamp("reconciled_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+});
+
+export type RepositoryPoolBalance = typeof repositoryPoolBalances.$inferSelect;
+export type NewRepositoryPoolBalance = typeof repositoryPoolBalances.$inferInsert;
+
+export interface ReconciliationMismatch {
+  type: 'pool_balance' | 'bounty_state' | 'payout_ledger' | 'unregistered_repository';
+  githubRepoId: string;
+  githubIssueNumber?: number;
+  expected: string; // What the contract events say
+  actual: string; // What the database (or live contract read) says
+  resolved: boolean; // True when the reconciler corrected the database
+}
+
+export const reconciliationRuns = pgTable("reconciliation_runs", {
+  id: serial("id").primaryKey(),
+  status: text("status", { enum: ["running", "completed", "failed"] }).default("running").notNull(),
+  fromBlock: integer("from_block").notNull(),
+  toBlock: integer("to_block").notNull(),
+  eventsProcessed: integer("events_processed").default(0).notNull(),
+  mismatches: jsonb("mismatches").$type<ReconciliationMismatch[]>().default([]).notNull(),
+  error: text("error"),
+  startedAt: timestamp("started_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+  completedAt: timestamp("completed_at", { mode: 'date', withTimezone: true }),
+});
+
+export type ReconciliationRun = typeof reconciliationRuns.$inferSelect;
+export type NewReconciliationRun = typeof reconciliationRuns.$inferInsert;
+
+export type BountyAllocationCaps = Partial<Record<'XDC' | 'ROXN' | 'USDC', string>>;
+
+// Users delegated to manage a repository's bounties. The on-chain pool manager signs every transaction;
+// these rows decide who may ask it to. Unique on (github_repo_id, lower(github_username)), see migration 0025.
+export const repositoryManagers = pgTable("repository_managers", {
+  id: serial("id").primaryKey(),
+  githubRepoId: text("github_repo_id").notNull(),
+  githubUsername: text("github_username").notNull(), // Invitee; linked to userId once they accept
+  userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }),
+  role: text("role", { enum: ["owner", "allocator", "viewer"] }).notNull(),
+  allocationCaps: jsonb("allocation_caps").$type<BountyAllocationCaps>().default({}).notNull(), // Per-bounty cap by currency, allocators only
+  status: text("status", { enum: ["pending", "active", "revoked"] }).default("pending").notNull(),
+  invitedBy: integer("invited_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+  acceptedAt: timestamp("accepted_at", { mode: 'date', withTimezone: true }),
+  updatedAt: timestamp("updated_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+});
+
+export type RepositoryManager = typeof repositoryManagers.$inferSelect;
+export type NewRepositoryManager = typeof repositoryManagers.$inferInsert;
+
+const allocationCapAmount = z.string().regex(/^\d+(\.\d+)?$/, "Cap must be a positive number");
+
+export const inviteRepositoryManagerSchema = z.object({
+  githubUsername: z.string().regex(/^[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,37}[a-zA-Z0-9])?$/, "Invalid GitHub username"),
+  role: z.enum(["owner", "allocator", "viewer"]),
+  allocationCaps: z.object({
+    XDC: allocationCapAmount.optional(),
+    ROXN: allocationCapAmount.optional(),
+    USDC: allocationCapAmount.optional(),
+  }).default({}),
+});
+
+export const updateRepositoryManagerSchema = inviteRepositoryManagerSchema.omit({ githubUsername: true });
+
+export type LimitScope = 'transfer' | 'repo_funding';
+
+// Admin overrides of the default funding and transfer limits. A null cap falls back to the default.
+// Unique on (scope, subject_id, currency), see migration 0026.
+export const limitOverrides = pgTable("limit_overrides", {
+  id: serial("id").primaryKey(),
+  scope: text("scope", { enum: ["transfer", "repo_funding"] }).notNull(),
+  subjectId: text("subject_id").notNull(), // User ID for transfers, GitHub repo ID for repository funding
+  currency: text("currency", { enum: ["XDC", "ROXN", "USDC"] }).notNull(),
+  dailyLimit: text("daily_limit"),
+  weeklyLimit: text("weekly_limit"),
+  perTransactionLimit: text("per_transaction_limit"),
+  reason: text("reason"),
+  setBy: integer("set_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+});
+
+export type LimitOverride = typeof limitOverrides.$inferSelect;
+export type NewLimitOverride = typeof limitOverrides.$inferInsert;
+
+// Amounts counted against the rolling daily and weekly windows. Rows are reserved before a transaction
+// is sent and removed again if it fails.
+export const limitUsage = pgTable("limit_usage", {
+  id: serial("id").primaryKey(),
+  scope: text("scope", { enum: ["transfer", "repo_funding"] }).notNull(),
+  subjectId: text("subject_id").notNull(),
+  currency: text("currency", { enum: ["XDC", "ROXN", "USDC"] }).notNull(),
+  amount: decimal("amount", { precision: 36, scale: 18 }).notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'set null' }), // Who moved the funds
+  transactionHash: text("transaction_hash"),
+  createdAt: timestamp("created_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+});
+
+export type LimitUsage = typeof limitUsage.$inferSelect;
+export type NewLimitUsage = typeof limitUsage.$inferInsert;
+
+export interface LimitValues {
+  daily: string;
+  weekly: string;
+  perTransaction: string;
+}
+
+// Audit trail of every limit check, allowed or not
+export const limitDecisions = pgTable("limit_decisions", {
+  id: serial("id").primaryKey(),
+  scope: text("scope", { enum: ["transfer", "repo_funding"] }).notNull(),
+  subjectId: text("subject_id").notNull(),
+  currency: text("currency", { enum: ["XDC", "ROXN", "USDC"] }).notNull(),
+  amount: text("amount").notNull(),
+  allowed: boolean("allowed").notNull(),
+  reason: text("reason"), // Which limit rejected the amount
+  limits: jsonb("limits").$type<LimitValues>().notNull(), // Effective limits at decision time
+  dailyUsed: text("daily_used").notNull(),
+  weeklyUsed: text("weekly_used").notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+});
+
+export type LimitDecision = typeof limitDecisions.$inferSelect;
+export type NewLimitDecision = typeof limitDecisions.$inferInsert;
+
+const limitAmount = z.string().regex(/^\d+(\.\d{1,18})?$/, "Limit must be a positive number");
+
+export const setLimitOverrideSchema = z.object({
+  scope: z.enum(["transfer", "repo_funding"]),
+  subjectId: z.string().regex(/^\d+$/, "Subject must be a user or repository ID"),
+  currency: z.enum(["XDC", "ROXN", "USDC"]),
+  dailyLimit: limitAmount.nullable().default(null),
+  weeklyLimit: limitAmount.nullable().default(null),
+  perTransactionLimit: limitAmount.nullable().default(null),
+  reason: z.string().max(500).optional(),
+});
+
+export type StepUpPurpose = 'wallet_export' | 'transfer' | 'payout_request' | 'bounty_allocation' | 'payout_address';
+
+// Emailed one-time codes for step-up authentication. Only an HMAC of the code is stored;
+// a challenge is spent on success and locked once its attempts run out.
+export const stepUpChallenges = pgTable("step_up_challenges", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  purpose: text("purpose", { enum: ["wallet_export", "transfer", "payout_request", "bounty_allocation", "payout_address"] }).notNull(),
+  codeHash: text("code_hash").notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  maxAttempts: integer("max_attempts").default(5).notNull(),
+  expiresAt: timestamp("expires_at", { mode: 'date', withTimezone: true }).notNull(),
+  consumedAt: timestamp("consumed_at", { mode: 'date', withTimezone: true }),
+  createdAt: timestamp("created_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+});
+
+export type StepUpChallenge = typeof stepUpChallenges.$inferSelect;
+export type NewStepUpChallenge = typeof stepUpChallenges.$inferInsert;
+
+// Authenticator app (TOTP) enrolment. The secret is encrypted at rest; lastUsedStep stops a code
+// from being accepted twice within its 30-second window.
+export const userTotpSecrets = pgTable("user_totp_secrets", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull().unique(),
+  encryptedSecret: text("encrypted_secret").notNull(),
+  enabled: boolean("enabled").default(false).notNull(), // False until the first code is confirmed
+  lastUsedStep: integer("last_used_step"),
+  createdAt: timestamp("created_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+  enabledAt: timestamp("enabled_at", { mode: 'date', withTimezone: true }),
+});
+
+export type UserTotpSecret = typeof userTotpSecrets.$inferSelect;
+export type NewUserTotpSecret = typeof userTotpSecrets.$inferInsert;
+
+// Failed step-up codes per user, across every purpose and both emailed and authenticator codes.
+// Each run of failures locks step-up out for a while, so a 6-digit code cannot be guessed.
+export const stepUpLockouts = pgTable("step_up_lockouts", {
+  userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }).primaryKey(),
+  failedAttempts: integer("failed_attempts").default(0).notNull(),
+  lastFailedAt: timestamp("last_failed_at", { mode: 'date', withTimezone: true }),
+  lockedUntil: timestamp("locked_until", { mode: 'date', withTimezone: true }),
+});
+
+export type StepUpLockout = typeof stepUpLockouts.$inferSelect;
+
+export const stepUpPurposeSchema = z.enum(["wallet_export", "transfer", "payout_request", "bounty_allocation", "payout_address"]);
+
+export const stepUpCodeSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, "Code must be 6 digits"),
+});
+
+// Withdrawal address book. Funds can only leave a user's wallet for an address here, and a new
+// address is usable only once its email link is confirmed and the cooling-off period has passed.
+// An address can be listed once while active (see migration 0028).
+export const withdrawalAddresses = pgTable("withdrawal_addresses", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  address: text("address").notNull(), // Lowercase 0x form
+  label: text("label"),
+  confirmationTokenHash: text("confirmation_token_hash"), // Cleared once confirmed
+  confirmationExpiresAt: timestamp("confirmation_expires_at", { mode: 'date', withTimezone: true }),
+  confirmedAt: timestamp("confirmed_at", { mode: 'date', withTimezone: true }),
+  activatesAt: timestamp("activates_at", { mode: 'date', withTimezone: true }), // End of the cooling-off period
+  removedAt: timestamp("removed_at", { mode: 'date', withTimezone: true }),
+  createdAt: timestamp("created_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+});
+
+export type WithdrawalAddress = typeof withdrawalAddresses.$inferSelect;
+export type NewWithdrawalAddress = typeof withdrawalAddresses.$inferInsert;
+
+export type WithdrawalAddressStatus = 'pending_confirmation' | 'cooling_off' | 'active';
+
+export type WithdrawalAddressAction = 'added' | 'confirmed' | 'removed' | 'transfer_blocked';
+
+// Append-only log of address book changes and blocked transfers
+export const withdrawalAddressEvents = pgTable("withdrawal_address_events", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  addressId: integer("address_id").references(() => withdrawalAddresses.id, { onDelete: 'set null' }),
+  address: text("address").notNull(),
+  action: text("action", { enum: ["added", "confirmed", "removed", "transfer_blocked"] }).notNull(),
+  details: jsonb("details").$type<Record<string, unknown>>(),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+});
+
+export type WithdrawalAddressEvent = typeof withdrawalAddressEvents.$inferSelect;
+export type NewWithdrawalAddressEvent = typeof withdrawalAddressEvents.$inferInsert;
+
+export const addWithdrawalAddressSchema = z.object({
+  address: z.string().regex(/^(0x|xdc)[0-9a-fA-F]{40}$/, "Invalid address"),
+  label: z.string().trim().max(50).optional(),
+});
+
+export const confirmWithdrawalAddressSchema = z.object({
+  token: z.string().regex(/^[0-9a-f]{64}$/, "Invalid confirmation token"),
+});
+
+// Self-custody payout wallets. A user proves control of an external address by signing a one-time
+// challenge; bounties are then paid there instead of the custodial wallet. One live link per user
+// and per address (see migration 0029); unlinked rows stay so past payouts can be traced.
+export const linkedWallets = pgTable("linked_wallets", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  address: text("address").notNull(), // Checksummed 0x form, as used in payouts
+  signature: text("signature").notNull(), // Signature over the challenge that proved ownership
+  message: text("message").notNull(),
+  linkedAt: timestamp("linked_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+  unlinkedAt: timestamp("unlinked_at", { mode: 'date', withTimezone: true }),
+});
+
+export type LinkedWallet = typeof linkedWallets.$inferSelect;
+export type NewLinkedWallet = typeof linkedWallets.$inferInsert;
+
+// Sign-in-with-Ethereum style challenges for linking a wallet. Single use and short lived.
+export const walletLinkChallenges = pgTable("wallet_link_challenges", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  address: text("address").notNull(),
+  nonce: text("nonce").notNull().unique(),
+  message: text("message").notNull(),
+  expiresAt: timestamp("expires_at", { mode: 'date', withTimezone: true }).notNull(),
+  usedAt: timestamp("used_at", { mode: 'date', withTimezone: true }),
+  createdAt: timestamp("created_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+});
+
+export type WalletLinkChallenge = typeof walletLinkChallenges.$inferSelect;
+export type NewWalletLinkChallenge = typeof walletLinkChallenges.$inferInsert;
+
+export const walletLinkChallengeSchema = z.object({
+  address: z.string().regex(/^(0x|xdc)[0-9a-fA-F]{40}$/, "Invalid address"),
+});
+
+export const walletLinkVerifySchema = z.object({
+  nonce: z.string().min(1),
+  signature: z.string().regex(/^0x[0-9a-fA-F]{130}$/, "Invalid signature"),
+});
+
+export type RelayAction =
+  | 'add_pool_manager'
+  | 'allocate_bounty'
+  | 'cancel_bounty'
+  | 'increase_bounty'
+  | 'distribute_bounty'
+  | 'distribute_bounty_split'
+  | 'fund_roxn'
+  | 'fund_usdc';
+
+// EIP-2771 forward requests sent by the platform relayer on a user's behalf. The row holds the signed
+// request so it can be sent later when queued, and the gas it cost so sponsorship can be metered per
+// user and repository. Nonces are unique per signer among requests that can still execute
+// (see migration 0030).
+export const relayerRequests = pgTable("relayer_requests", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'set null' }),
+  repoId: text("repo_id"), // Blockchain repository id the call acts on
+  action: text("action", { enum: ["add_pool_manager", "allocate_bounty", "cancel_bounty", "increase_bounty", "distribute_bounty", "distribute_bounty_split", "fund_roxn", "fund_usdc"] }).notNull(),
+  fromAddress: text("from_address").notNull(),
+  toAddress: text("to_address").notNull(),
+  data: text("data").notNull(),
+  gas: text("gas").notNull(), // Gas forwarded to the target call
+  nonce: text("nonce").notNull(), // CustomForwarder nonce the request was signed with
+  signature: text("signature").notNull(),
+  status: text("status", { enum: ["queued", "submitted", "confirmed", "failed"] }).default("queued").notNull(),
+  transactionHash: text("transaction_hash"),
+  gasUsed: text("gas_used"),
+  costXdc: decimal("cost_xdc", { precision: 36, scale: 18 }), // Paid by the relayer
+  attempts: integer("attempts").default(0).notNull(),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+  submittedAt: timestamp("submitted_at", { mode: 'date', withTimezone: true }),
+  confirmedAt: timestamp("confirmed_at", { mode: 'date', withTimezone: true }),
+});
+
+export type RelayerRequest = typeof relayerRequests.$inferSelect;
+export type NewRelayerRequest = typeof relayerRequests.$inferInsert;
+
+export type RelayerTransactionStatus = 'pending' | 'confirmed' | 'failed' | 'dropped';
+
+// Every transaction the relayer hot wallet broadcasts, one row per nonce use. Gas bumps rebroadcast
+// the same nonce at a higher price, so all hashes are kept and whichever one is mined settles the row.
+// Only one live row may hold a nonce (see migration 0031).
+export const relayerTransactions = pgTable("relayer_transactions", {
+  id: serial("id").primaryKey(),
+  purpose: text("purpose").notNull(), // e.g. meta_transaction, register_user, record_compute
+  fromAddress: text("from_address").notNull(),
+  toAddress: text("to_address").notNull(),
+  data: text("data").notNull(),
+  value: text("value").default("0").notNull(), // Wei
+  nonce: integer("nonce").notNull(),
+  gasLimit: text("gas_limit").notNull(),
+  gasPrice: text("gas_price").notNull(), // Wei, of the latest broadcast
+  transactionHash: text("transaction_hash").notNull(), // Latest broadcast, or the mined one once settled
+  broadcastHashes: jsonb("broadcast_hashes").$type<string[]>().default([]).notNull(),
+  bumpCount: integer("bump_count").default(0).notNull(),
+  status: text("status", { enum: ["pending", "confirmed", "failed", "dropped"] }).default("pending").notNull(),
+  blockNumber: integer("block_number"),
+  gasUsed: text("gas_used"),
+  effectiveGasPrice: text("effective_gas_price"),
+  error: text("error"),
+  createdAt: timestamp("created_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+  lastBroadcastAt: timestamp("last_broadcast_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+  settledAt: timestamp("settled_at", { mode: 'date', withTimezone: true }),
+});
+
+export type RelayerTransaction = typeof relayerTransactions.$inferSelect;
+export type NewRelayerTransaction = typeof relayerTransactions.$inferInsert;
+
+export type MultisigAction = 'allocate' | 'distribute';
+export type MultisigProposalStatus = 'pending' | 'approved' | 'executed' | 'failed' | 'rejected' | 'cancelled';
+export type MultisigAmount = { amount: string; currency: 'XDC' | 'ROXN' | 'USDC' };
+
+// What the executor needs to replay the action once the quorum is reached. Distributions from the
+// dashboard name an address; those held back from a merged PR name the author and re-resolve
+// splits and payout wallets at execution time.
+export type MultisigProposalPayload = {
+  issueTitle?: string;
+  issueUrl?: string;
+  contributorAddress?: string;
+  prAuthorUsername?: string;
+  expiresInDays?: number; // Deadline to set on an allocation once it is approved
+};
+
+// Per-repository approval policy. Bounty allocations and distributions at or above the threshold
+// for their currency need `requiredApprovals` of the repository's on-chain pool managers.
+export const multisigPolicies = pgTable("multisig_policies", {
+  id: serial("id").primaryKey(),
+  githubRepoId: text("github_repo_id").notNull().unique(),
+  requiredApprovals: integer("required_approvals").notNull(),
+  thresholds: jsonb("thresholds").$type<BountyAllocationCaps>().default({}).notNull(), // Currencies without a threshold never need approval
+  enabled: boolean("enabled").default(true).notNull(),
+  updatedBy: integer("updated_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+});
+
+export type MultisigPolicy = typeof multisigPolicies.$inferSelect;
+export type NewMultisigPolicy = typeof multisigPolicies.$inferInsert;
+
+// A held allocation or distribution. Only one open proposal per issue and action (see migration 0032).
+export const multisigProposals = pgTable("multisig_proposals", {
+  id: serial("id").primaryKey(),
+  githubRepoId: text("github_repo_id").notNull(),
+  issueNumber: integer("issue_number").notNull(),
+  action: text("action", { enum: ["allocate", "distribute"] }).notNull(),
+  amounts: jsonb("amounts").$type<MultisigAmount[]>().notNull(),
+  payload: jsonb("payload").$type<MultisigProposalPayload>().default({}).notNull(),
+  source: text("source", { enum: ["dashboard", "bot", "webhook"] }).notNull(),
+  proposedBy: integer("proposed_by").references(() => users.id, { onDelete: 'set null' }), // Null when raised by a merged PR
+  proposedByUsername: text("proposed_by_username"),
+  signerId: integer("signer_id").references(() => users.id, { onDelete: 'set null' }), // Pool manager whose wallet sends the transaction
+  requiredApprovals: integer("required_approvals").notNull(),
+  status: text("status", { enum: ["pending", "approved", "executed", "failed", "rejected", "cancelled"] }).default("pending").notNull(),
+  transactionHash: text("transaction_hash"),
+  error: text("error"),
+  createdAt: timestamp("created_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+  approvedAt: timestamp("approved_at", { mode: 'date', withTimezone: true }),
+  resolvedAt: timestamp("resolved_at", { mode: 'date', withTimezone: true }), // Executed, failed, rejected or cancelled
+});
+
+export type MultisigProposal = typeof multisigProposals.$inferSelect;
+export type NewMultisigProposal = typeof multisigProposals.$inferInsert;
+
+export const multisigApprovals = pgTable("multisig_approvals", {
+  id: serial("id").primaryKey(),
+  proposalId: integer("proposal_id").references(() => multisigProposals.id, { onDelete: 'cascade' }).notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'set null' }),
+  githubUsername: text("github_username").notNull(),
+  decision: text("decision", { enum: ["approve", "reject"] }).notNull(),
+  note: text("note"),
+  createdAt: timestamp("created_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+});
+
+export type MultisigApproval = typeof multisigApprovals.$inferSelect;
+export type NewMultisigApproval = typeof multisigApprovals.$inferInsert;
+
+export const setMultisigPolicySchema = z.object({
+  requiredApprovals: z.number().int().min(1).max(20),
+  thresholds: z.object({
+    XDC: allocationCapAmount.optional(),
+    ROXN: allocationCapAmount.optional(),
+    USDC: allocationCapAmount.optional(),
+  }),
+  enabled: z.boolean(),
+});
+
+export const multisigDecisionSchema = z.object({
+  note: z.string().max(500).optional(),
+});
+
+export type FundingScheduleKind = 'recurring' | 'top_up';
+export type FundingCadence = 'daily' | 'weekly' | 'monthly';
+export type FundingRunStatus = 'funded' | 'skipped' | 'failed';
+
+// Standing funding instructions for a repository pool. Recurring schedules fund a fixed amount on a
+// calendar cadence; top-ups fund it whenever the pool balance for the currency falls below the threshold.
+export const fundingSchedules = pgTable("funding_schedules", {
+  id: serial("id").primaryKey(),
+  githubRepoId: text("github_repo_id").notNull(),
+  funderId: integer("funder_id").references(() => users.id, { onDelete: 'cascade' }).notNull(), // Wallet the funds come from
+  kind: text("kind", { enum: ["recurring", "top_up"] }).notNull(),
+  currency: text("currency", { enum: ["XDC", "ROXN", "USDC"] }).notNull(),
+  amount: text("amount").notNull(), // Funded per run
+  cadence: text("cadence", { enum: ["daily", "weekly", "monthly"] }), // Recurring only
+  dayOfWeek: integer("day_of_week"), // 0 = Sunday, weekly only
+  dayOfMonth: integer("day_of_month"), // 1-28, monthly only
+  thresholdAmount: text("threshold_amount"), // Top-up only
+  maxTotalAmount: text("max_total_amount"), // Optional lifetime budget
+  totalFunded: decimal("total_funded", { precision: 36, scale: 18 }).default("0").notNull(),
+  status: text("status", { enum: ["active", "paused", "completed", "cancelled"] }).default("active").notNull(), // Completed once the budget is spent
+  nextRunAt: timestamp("next_run_at", { mode: 'date', withTimezone: true }).notNull(), // Next due date, or next balance check for top-ups
+  consecutiveFailures: integer("consecutive_failures").default(0).notNull(),
+  lastRunAt: timestamp("last_run_at", { mode: 'date', withTimezone: true }),
+  lastRunStatus: text("last_run_status", { enum: ["funded", "skipped", "failed"] }),
+  createdAt: timestamp("created_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+});
+
+export type FundingSchedule = typeof fundingSchedules.$inferSelect;
+export type NewFundingSchedule = typeof fundingSchedules.$inferInsert;
+
+// One row per scheduled funding attempt, including runs skipped by limits, balance or allowance checks
+export const fundingScheduleRuns = pgTable("funding_schedule_runs", {
+  id: serial("id").primaryKey(),
+  scheduleId: integer("schedule_id").references(() => fundingSchedules.id, { onDelete: 'cascade' }).notNull(),
+  status: text("status", { enum: ["funded", "skipped", "failed"] }).notNull(),
+  currency: text("currency", { enum: ["XDC", "ROXN", "USDC"] }).notNull(),
+  amount: text("amount").notNull(),
+  poolBalance: text("pool_balance"), // Pool balance before the run
+  transactionHash: text("transaction_hash"),
+  reason: text("reason"),
+  createdAt: timestamp("created_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+});
+
+export type FundingScheduleRun = typeof fundingScheduleRuns.$inferSelect;
+export type NewFundingScheduleRun = typeof fundingScheduleRuns.$inferInsert;
+
+const fundingAmount = z.string().regex(/^\d+(\.\d+)?$/, "Amount must be a positive number")
+  .refine(val => parseFloat(val) > 0, { message: "Amount must be greater than zero" });
+
+export const createFundingScheduleSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("recurring"),
+    currency: z.enum(["XDC", "ROXN", "USDC"]),
+    amount: fundingAmount,
+    cadence: z.enum(["daily", "weekly", "monthly"]),
+    dayOfWeek: z.number().int().min(0).max(6).optional(),
+    dayOfMonth: z.number().int().min(1).max(28).optional(),
+    maxTotalAmount: fundingAmount.optional(),
+  }),
+  z.object({
+    kind: z.literal("top_up"),
+    currency: z.enum(["XDC", "ROXN", "USDC"]),
+    amount: fundingAmount,
+    thresholdAmount: fundingAmount,
+    maxTotalAmount: fundingAmount.optional(),
+  }),
+]);
+
+export const updateFundingScheduleSchema = z.object({
+  status: z.enum(["active", "paused"]).optional(),
+  amount: fundingAmount.optional(),
+  thresholdAmount: fundingAmount.optional(),
+  maxTotalAmount: fundingAmount.nullable().optional(),
+});
+
+export type CreateFundingScheduleInput = z.infer<typeof createFundingScheduleSchema>;
+
+export type IssueSponsorshipStatus = 'pending' | 'held' | 'paying' | 'paid' | 'refunding' | 'refunded' | 'failed';
+
+// Third-party funding pledged to one issue. The amount sits in the sponsorship escrow wallet until the
+// issue is fixed (paid to the contributor) or closed unfixed / past its deadline (refunded to the sponsor).
+export const issueSponsorships = pgTable("issue_sponsorships", {
+  id: serial("id").primaryKey(),
+  githubRepoId: text("github_repo_id").notNull(),
+  githubIssueNumber: integer("github_issue_number").notNull(),
+  sponsorId: integer("sponsor_id").references(() => users.id).notNull(),
+  displayName: text("display_name"), // Shown on the public issue page instead of the GitHub username
+  currency: text("currency", { enum: ["XDC", "ROXN", "USDC"] }).notNull(),
+  amount: text("amount").notNull(),
+  status: text("status", { enum: ["pending", "held", "paying", "paid", "refunding", "refunded", "failed"] }).default("pending").notNull(),
+  escrowTxHash: text("escrow_tx_hash"), // Sponsor wallet -> escrow
+  recipientUsername: text("recipient_username"), // Set once a merged fix decides who is paid
+  payoutAddress: text("payout_address"),
+  payoutTxHash: text("payout_tx_hash"),
+  refundReason: text("refund_reason"),
+  refundTxHash: text("refund_tx_hash"),
+  failureReason: text("failure_reason"),
+  expiresAt: timestamp("expires_at", { mode: 'date', withTimezone: true }).notNull(), // Refund deadline if nobody fixes the issue
+  resolvedAt: timestamp("resolved_at", { mode: 'date', withTimezone: true }),
+  createdAt: timestamp("created_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+});
+
+export type IssueSponsorship = typeof issueSponsorships.$inferSelect;
+export type NewIssueSponsorship = typeof issueSponsorships.$inferInsert;
+
+export const sponsorIssueSchema = z.object({
+  currency: z.enum(["XDC", "ROXN", "USDC"]),
+  amount: fundingAmount,
+  expiresInDays: z.number().int().min(1).optional(),
+  // Posted in GitHub comments, so no markdown or mentions
+  displayName: z.string().trim().min(1).max(64)
+    .regex(/^[A-Za-z0-9 .,&'()-]+$/, "Display name may only contain letters, numbers, spaces and . , & ' ( ) -")
+    .optional(),
+});
+
+export type SponsorIssueInput = z.infer<typeof sponsorIssueSchema>;
+
+// What the public issue page shows for each sponsorship
+export interface PublicIssueSponsor {
+  id: number;
+  name: string;
+  githubUsername: string | null;
+  currency: 'XDC' | 'ROXN' | 'USDC';
+  amount: string;
+  status: IssueSponsorshipStatus;
+  expiresAt: string;
+  createdAt: string;
+}
+
+export interface IssueSponsorshipSummary {
+  githubRepoId: string;
+  repoFullName: string;
+  issueNumber: number;
+  sponsors: PublicIssueSponsor[];
+  totals: { currency: 'XDC' | 'ROXN' | 'USDC'; amount: string }[]; // Still held in escrow
+}
+
+// Deadline on an allocated bounty. Once it passes without a merged fix the bounty is cancelled
+// and its funds go back to the repository pool.
+export const bountyExpiries = pgTable("bounty_expiries", {
+  id: serial("id").primaryKey(),
+  githubRepoId: text("github_repo_id").notNull(),
+  githubIssueNumber: integer("github_issue_number").notNull(),
+  expiresAt: timestamp("expires_at", { mode: 'date', withTimezone: true }).notNull(),
+  setBy: text("set_by"), // GitHub username of the pool manager who set the deadline, mentioned in reminders
+  status: text("status", { enum: ["active", "returning", "returned", "cleared"] }).default("active").notNull(),
+  remindedAt: timestamp("reminded_at", { mode: 'date', withTimezone: true }),
+  returnTxHash: text("return_tx_hash"),
+  lastError: text("last_error"), // Why the last attempt to return the bounty failed; retried on the next sweep
+  createdAt: timestamp("created_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+});
+
+export type BountyExpiry = typeof bountyExpiries.$inferSelect;
+export type NewBountyExpiry = typeof bountyExpiries.$inferInsert;
+
+// USD prices of the payout tokens over time, used to value earnings at the time they were paid
+export const tokenPriceSnapshots = pgTable("token_price_snapshots", {
+  id: serial("id").primaryKey(),
+  currency: text("currency", { enum: ["XDC", "ROXN", "USDC"] }).notNull(),
+  usdPrice: text("usd_price").notNull(),
+  source: text("source").notNull(), // Where the price came from, e.g. an exchange name
+  capturedAt: timestamp("captured_at", { mode: 'date', withTimezone: true }).notNull(),
+  recordedBy: integer("recorded_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+});
+
+export type TokenPriceSnapshot = typeof tokenPriceSnapshots.$inferSelect;
+export type NewTokenPriceSnapshot = typeof tokenPriceSnapshots.$inferInsert;
+
+export const recordTokenPriceSchema = z.object({
+  currency: z.enum(["XDC", "ROXN", "USDC"]),
+  usdPrice: z.string().regex(/^\d+(\.\d{1,12})?$/, "Price must be a positive decimal").refine(val => parseFloat(val) > 0, { message: "Price must be greater than 0" }),
+  source: z.string().trim().min(1).max(64),
+  capturedAt: z.string().datetime().optional(), // Defaults to now
+});
+
+export type RecordTokenPriceInput = z.infer<typeof recordTokenPriceSchema>;
+
+export const earningsStatementQuerySchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD"),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD"),
+  fiat: z.string().length(3).default("USD"),
+  format: z.enum(["json", "csv", "pdf"]).default("json"),
+}).refine(query => query.from <= query.to, { message: "The period must start before it ends", path: ["to"] });
+
+export type EarningsStatementQuery = z.infer<typeof earningsStatementQuerySchema>;
+
+export type EarningsKind = 'bounty' | 'sponsorship' | 'referral' | 'promotional';
+
+export interface EarningsStatementLine {
+  paidAt: string;
+  kind: EarningsKind;
+  description: string;
+  repository: string | null; // Counterparty repository, when there is one
+  currency: 'XDC' | 'ROXN' | 'USDC';
+  amount: string;
+  usdPrice: string | null; // Null when no price is known for the currency
+  priceSource: 'snapshot' | 'reference' | null;
+  fiatValue: string | null;
+  transactionHash: string | null;
+}
+
+export interface EarningsStatement {
+  githubUsername: string;
+  from: string;
+  to: string;
+  fiatCurrency: string;
+  generatedAt: string;
+  lines: EarningsStatementLine[];
+  totals: { currency: 'XDC' | 'ROXN' | 'USDC'; amount: string }[];
+  totalFiatValue: string; // Sum of the lines that could be valued
+  unvaluedLines: number;
+}
+
+export type AiProviderType = 'azure_openai' | 'azure_ai_inference' | 'openai_compatible' | 'ollama' | 'exo_network';
+export type AiPathStyle = 'azure_deployment' | 'azure_models' | 'openai' | 'exo_task';
+
+// Models the VS Code AI proxy can route to. API keys are never stored here: `secretRef` names where the
+// key lives (a config setting, an environment variable or a Parameter Store entry). An `exo_network` entry
+// sends the request to the compute nodes through dispatchTask instead of an HTTP endpoint.
+export const aiModels = pgTable("ai_models", {
+  id: serial("id").primaryKey(),
+  modelId: text("model_id").notNull().unique(), // Identifier the VS Code client sends, e.g. 'gpt-4.1'
+  displayName: text("display_name").notNull(),
+  description: text("description"),
+  providerType: text("provider_type", { enum: ["azure_openai", "azure_ai_inference", "openai_compatible", "ollama", "exo_network"] }).notNull(),
+  endpoint: text("endpoint"), // Base URL, without the chat completions path; null for the exo network
+  upstreamModel: text("upstream_model").notNull(), // Deployment name or model name at the provider
+  apiVersion: text("api_version"), // Azure path styles only
+  pathStyle: text("path_style", { enum: ["azure_deployment", "azure_models", "openai", "exo_task"] }).notNull(),
+  secretRef: text("secret_ref"), // Null for local servers without auth
+  promptCost: integer("prompt_cost").default(1).notNull(), // Prompts per request, or the minimum charge when token rates are set
+  inputRate: text("input_rate"), // Prompts per 1,000 input tokens
+  outputRate: text("output_rate"), // Prompts per 1,000 output tokens
+  enabled: boolean("enabled").default(true).notNull(),
+  isDefault: boolean("is_default").default(false).notNull(), // Serves 'default' and unknown model ids
+  fallbackModels: jsonb("fallback_models").$type<string[]>().default([]).notNull(), // Model ids tried in order when this one fails
+  sortOrder: integer("sort_order").default(0).notNull(),
+  createdAt: timestamp("created_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+});
+
+export type AiModel = typeof aiModels.$inferSelect;
+export type NewAiModel = typeof aiModels.$inferInsert;
+
+// Keys can only come from AI provider settings, so a registry entry can never send another secret upstream
+const aiSecretRef = z.string().regex(
+  /^(config:azureOpenaiKey[A-Za-z0-9]*|env:(AI_KEY_|AZURE_OPENAI_KEY)[A-Z0-9_]*|ssm:ai\/[a-z0-9\/-]+)$/,
+  "Use config:azureOpenaiKey..., env:AI_KEY_... or ssm:ai/..."
+);
+
+const aiModelId = z.string().regex(/^[a-z0-9][a-z0-9._-]{0,63}$/, "Use lowercase letters, digits, '.', '_' and '-'");
+
+const aiTokenRate = z.string().regex(/^\d+(\.\d{1,6})?$/, "Rate must be a non-negative decimal");
+
+// Checks that span fields, shared by the create schema and the registry's update path
+export function aiModelConfigProblem(model: {
+  modelId?: string;
+  providerType: AiProviderType;
+  pathStyle: AiPathStyle;
+  endpoint?: string | null;
+  apiVersion?: string | null;
+  fallbackModels?: string[];
+}): { field: string; message: string } | null {
+  if ((model.providerType === "exo_network") !== (model.pathStyle === "exo_task")) {
+    return { field: "pathStyle", message: "The exo network uses the exo_task path style, and only it does" };
+  }
+  if (model.providerType !== "exo_network" && !model.endpoint) {
+    return { field: "endpoint", message: "An endpoint is required" };
+  }
+  if ((model.pathStyle === "azure_deployment" || model.pathStyle === "azure_models") && !model.apiVersion) {
+    return { field: "apiVersion", message: "Azure path styles need an API version" };
+  }
+  if (model.modelId && model.fallbackModels?.includes(model.modelId)) {
+    return { field: "fallbackModels", message: "A model cannot fall back to itself" };
+  }
+  return null;
+}
+
+const aiModelFields = {
+  displayName: z.string().trim().min(1).max(64),
+  description: z.string().trim().max(300).nullable().optional(),
+  providerType: z.enum(["azure_openai", "azure_ai_inference", "openai_compatible", "ollama", "exo_network"]),
+  endpoint: z.string().url().max(500).transform(url => url.replace(/\/+$/, "")).nullable().optional(),
+  upstreamModel: z.string().trim().min(1).max(128),
+  apiVersion: z.string().trim().max(32).nullable().optional(),
+  pathStyle: z.enum(["azure_deployment", "azure_models", "openai", "exo_task"]),
+  secretRef: aiSecretRef.nullable().optional(),
+  promptCost: z.number().int().min(0).max(1000),
+  inputRate: aiTokenRate.nullable().optional(),
+  outputRate: aiTokenRate.nullable().optional(),
+  enabled: z.boolean(),
+  isDefault: z.boolean(),
+  sortOrder: z.number().int(),
+  fallbackModels: z.array(aiModelId).max(5),
+};
+
+export const createAiModelSchema = z.object({
+  modelId: aiModelId.refine(id => id !== "default", { message: "'default' is reserved" }),
+  ...aiModelFields,
+  promptCost: aiModelFields.promptCost.default(1),
+  enabled: aiModelFields.enabled.default(true),
+  isDefault: aiModelFields.isDefault.default(false),
+  sortOrder: aiModelFields.sortOrder.default(0),
+  fallbackModels: aiModelFields.fallbackModels.default([]),
+}).superRefine((model, ctx) => {
+  const problem = aiModelConfigProblem(model);
+  if (problem) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem.message, path: [problem.field] });
+  }
+});
+
+export const updateAiModelSchema = z.object(aiModelFields).partial();
+
+export type CreateAiModelInput = z.infer<typeof createAiModelSchema>;
+export type UpdateAiModelInput = z.infer<typeof updateAiModelSchema>;
+
+// What the VS Code client sees of a registry entry
+export interface AiModelSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  provider: AiProviderType;
+  promptCost: number;
+  inputRate: string | null;
+  outputRate: string | null;
+  isDefault: boolean;
+  fallbacks: string[]; // Model ids tried in order if this one is unavailable
+}
+
+export type AiUsageAuthorizationStatus = 'authorized' | 'settled' | 'released';
+
+// Prompts held for one VS Code AI request while it runs. The estimate is deducted when the request is
+// authorized; settlement refunds or charges the difference to the actual token usage.
+export const aiUsageAuthorizations = pgTable("ai_usage_authorizations", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  organizationId: integer("organization_id").references(() => promptOrganizations.id, { onDelete: 'set null' }), // Set when the hold is on an organisation's pool
+  model: text("model").notNull(), // Registry model id
+  estimatedInputTokens: integer("estimated_input_tokens").notNull(),
+  estimatedOutputTokens: integer("estimated_output_tokens").notNull(),
+  authorizedPrompts: integer("authorized_prompts").notNull(),
+  status: text("status", { enum: ["authorized", "settled", "released"] }).default("authorized").notNull(),
+  inputTokens: integer("input_tokens"),
+  outputTokens: integer("output_tokens"),
+  chargedPrompts: integer("charged_prompts"),
+  releaseReason: text("release_reason"),
+  createdAt: timestamp("created_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(), // Touched while the request is in flight
+  settledAt: timestamp("settled_at", { mode: 'date', withTimezone: true }),
+});
+
+export type AiUsageAuthorization = typeof aiUsageAuthorizations.$inferSelect;
+export type NewAiUsageAuthorization = typeof aiUsageAuthorizations.$inferInsert;
+
+// One metered request as the VS Code profile shows it
+export interface AiUsageBreakdown {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  promptsCharged: number;
+  createdAt: string;
+}
+
+// A shared pool of VS Code AI prompts. Requests by active members draw from it instead of their own balance.
+export const promptOrganizations = pgTable("prompt_organizations", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  promptBalance: integer("prompt_balance").default(0).notNull(),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+});
+
+export type PromptOrganization = typeof promptOrganizations.$inferSelect;
+export type NewPromptOrganization = typeof promptOrganizations.$inferInsert;
+
+// Members and pending invites of a prompt organisation. Unique on (organization_id, lower(github_username)),
+// and a user is an active member of at most one organisation, see migration 0040.
+export const promptOrganizationMembers = pgTable("prompt_organization_members", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => promptOrganizations.id, { onDelete: 'cascade' }).notNull(),
+  githubUsername: text("github_username").notNull(), // Invitee; linked to userId once they accept
+  userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }),
+  role: text("role", { enum: ["admin", "member"] }).notNull(),
+  monthlyPromptCap: integer("monthly_prompt_cap"), // Null for no cap
+  status: text("status", { enum: ["pending", "active", "revoked"] }).default("pending").notNull(),
+  invitedBy: integer("invited_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+  acceptedAt: timestamp("accepted_at", { mode: 'date', withTimezone: true }),
+  updatedAt: timestamp("updated_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+});
+
+export type PromptOrganizationMember = typeof promptOrganizationMembers.$inferSelect;
+export type NewPromptOrganizationMember = typeof promptOrganizationMembers.$inferInsert;
+
+// Ledger of an organisation's prompt pool, mirroring prompt_transactions for user balances
+export const promptOrganizationTransactions = pgTable("prompt_organization_transactions", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => promptOrganizations.id, { onDelete: 'cascade' }).notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'set null' }), // Member who used or deposited the prompts
+  transactionType: text("transaction_type", { enum: ["deposit", "usage_vscode_ai", "usage_vscode_ai_hold", "usage_vscode_ai_release", "admin_adjustment"] }).notNull(),
+  promptsChanged: integer("prompts_changed").notNull(),
+  balanceAfterTx: integer("balance_after_tx").notNull(),
+  notes: text("notes"),
+  authorizationId: integer("authorization_id"), // ai_usage_authorizations.id
+  model: text("model"),
+  inputTokens: integer("input_tokens"),
+  outputTokens: integer("output_tokens"),
+  promptsCharged: integer("prompts_charged"),
+  createdAt: timestamp("created_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+});
+
+export type PromptOrganizationTransaction = typeof promptOrganizationTransactions.$inferSelect;
+export type NewPromptOrganizationTransaction = typeof promptOrganizationTransactions.$inferInsert;
+
+const monthlyPromptCap = z.number().int().positive().nullable();
+
+export const createPromptOrganizationSchema = z.object({
+  name: z.string().trim().min(2).max(100),
+});
+
+export const invitePromptOrganizationMemberSchema = z.object({
+  githubUsername: z.string().regex(/^[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,37}[a-zA-Z0-9])?$/, "Invalid GitHub username"),
+  role: z.enum(["admin", "member"]),
+  monthlyPromptCap: monthlyPromptCap.default(null),
+});
+
+export const updatePromptOrganizationMemberSchema = z.object({
+  role: z.enum(["admin", "member"]),
+  monthlyPromptCap,
+});
+
+// Move prompts from the caller's own balance into the pool
+export const depositOrganizationPromptsSchema = z.object({
+  prompts: z.number().int().positive().max(1_000_000),
+});
+
+// Platform admin grant to, or deduction from, a pool
+export const adjustOrganizationPromptsSchema = z.object({
+  prompts: z.number().int().refine(prompts => prompts !== 0, "Must not be zero"),
+  notes: z.string().max(500).optional(),
+});
+
+// One member's metered usage of one model over a report period
+export interface OrganizationUsageReportRow {
+  userId: number;
+  githubUsername: string | null;
+  model: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  promptsCharged: number;
+}
+
+export type PromptPackPaymentMethod = 'onramp_merchant' | 'usdc_wallet';
+
+// A user's purchase of a prompt pack. The pack's size and price are copied at checkout, and the row moves
+// from `pending` to `credited` only once, which is what makes crediting from the webhook and from manual
+// verification safe to repeat. Unique on merchant_recognition_id, onramp_order_id and tx_hash, see migration 0041.
+export const promptPackPurchases = pgTable("prompt_pack_purchases", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  packId: text("pack_id").references(() => promptPacks.id).notNull(),
+  promptAmount: integer("prompt_amount").notNull(),
+  priceUsdc: text("price_usdc").notNull(),
+  paymentMethod: text("payment_method", { enum: ["onramp_merchant", "usdc_wallet"] }).notNull(),
+  status: text("status", { enum: ["pending", "credited", "failed"] }).default("pending").notNull(),
+  merchantRecognitionId: text("merchant_recognition_id"), // Onramp merchant checkout only
+  onrampOrderId: text("onramp_order_id"),
+  txHash: text("tx_hash"), // USDC transfer to the treasury
+  failureReason: text("failure_reason"),
+  createdAt: timestamp("created_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+  creditedAt: timestamp("credited_at", { mode: 'date', withTimezone: true }),
+  updatedAt: timestamp("updated_at", { mode: 'date', withTimezone: true }).defaultNow().notNull(),
+});
+
+export type PromptPackPurchase = typeof promptPackPurchases.$inferSelect;
+export type NewPromptPackPurchase = typeof promptPackPurchases.$inferInsert;
+
+export const startPromptPackCheckoutSchema = z.object({
+  fiatType: z.number().int().positive().optional(),
+});
+
+export const verifyPromptPackPurchaseSchema = z.object({
+  orderId: z.string().trim().min(1).max(100).optional(),
+});
@@ -0,0 +1,164 @@
+const { expect } = require("chai");
+const { ethers, upgrades } = require("hardhat");
+const { loadFixture } = require("@nomicfoundation/hardhat-network-helpers");
+
+const XDC = 0;
+const USDC = 2;
+const REPO_ID = 789;
+const ISSUE_ID = 5;
+
+describe("DualCurrencyRepoRewards", function () {
+  async function deployFixture() {
+    const [owner, manager, alice, bob, carol] = await ethers.getSigners();
+
+    const forwarder = await (await ethers.getContractFactory("CustomForwarder")).deploy();
+    const Token = await ethers.getContractFactory("ROXNToken");
+    const roxn = await upgrades.deployProxy(Token, [owner.address], { kind: "uups" });
+    // A second ROXN token stands in for USDC; the rewards contract only needs an ERC20
+    const usdc = await upgrades.deployProxy(Token, [owner.address], { kind: "uups" });
+
+    const Rewards = await ethers.getContractFactory("DualCurrencyRepoRewards");
+    // initialize() leaves the reentrancy guard to initializeV2, as on the live proxy
+    const rewards = await upgrades.deployProxy(
+      Rewards,
+      [await forwarder.getAddress(), await roxn.getAddress(), await usdc.getAddress()],
+      { kind: "uups", unsafeAllow: ["missing-initializer-call"] }
+    );
+    await rewards.initializeV2();
+
+    // The first funder becomes the repository's pool manager
+    await usdc.mint(manager.address, 1000n);
+    await usdc.connect(manager).approve(await rewards.getAddress(), 1000n);
+    await rewards.connect(manager).addUSDCFundToRepository(REPO_ID, 1000n);
+    await rewards.connect(manager).addXDCFundToRepository(REPO_ID, { value: 1000n });
+
+    return { rewards, usdc, owner, manager, alice, bob, carol };
+  }
+
+  async function allocatedFixture() {
+    const fixture = await deployFixture();
+    await fixture.rewards.connect(fixture.manager).allocateIssueReward(REPO_ID, ISSUE_ID, 100n, USDC);
+    return fixture;
+  }
+
+  describe("distributeRewardSplit", function () {
+    it("pays each recipient their share, with the rounding remainder to the last", async function () {
+      const { rewards, usdc, manager, alice, bob, carol } = await loadFixture(allocatedFixture);
+
+      await expect(rewards.connect(manager).distributeRewardSplit(
+        REPO_ID, ISSUE_ID, [alice.address, bob.address, carol.address], [3333, 3333, 3334]
+      ))
+        .to.emit(rewards, "RewardDistributed").withArgs(REPO_ID, ISSUE_ID, alice.address, 33n, USDC)
+        .and.to.emit(rewards, "RewardDistributed").withArgs(REPO_ID, ISSUE_ID, carol.address, 34n, USDC);
+
+      expect(await usdc.balanceOf(alice.address)).to.equal(33n);
+      expect(await usdc.balanceOf(bob.address)).to.equal(33n);
+      expect(await usdc.balanceOf(carol.address)).to.equal(34n);
+      await expect(rewards.connect(manager).distributeRewardSplit(REPO_ID, ISSUE_ID, [alice.address], [10000]))
+        .to.be.revertedWith("DualCurrencyRepoRewards: No reward allocated");
+    });
+
+    it("refuses shares that do not total 10000 bps", async function () {
+      const { rewards, manager, alice, bob } = await loadFixture(allocatedFixture);
+
+      await expect(rewards.connect(manager).distributeRewardSplit(REPO_ID, ISSUE_ID, [alice.address, bob.address], [5000, 4999]))
+        .to.be.revertedWith("DualCurrencyRepoRewards: Shares must total 10000 bps");
+      await expect(rewards.connect(manager).distributeRewardSplit(REPO_ID, ISSUE_ID, [alice.address, bob.address], [10000, 0]))
+        .to.be.revertedWith("DualCurrencyRepoRewards: Share must be positive");
+      await expect(rewards.connect(manager).distributeRewardSplit(REPO_ID, ISSUE_ID, [alice.address, bob.address], [10000]))
+        .to.be.revertedWith("DualCurrencyRepoRewards: Shares length mismatch");
+    });
+
+    it("caps the number of recipients", async function () {
+      const { rewards, manager } = await loadFixture(allocatedFixture);
+      const recipients = Array.from({ length: 11 }, () => ethers.Wallet.createRandom().address);
+      const shares = [...Array(10).fill(909), 910];
+
+      await expect(rewards.connect(manager).distributeRewardSplit(REPO_ID, ISSUE_ID, recipients, shares))
+        .to.be.revertedWith("DualCurrencyRepoRewards: Too many contributors");
+    });
+
+    it("only lets a pool manager split a reward", async function () {
+      const { rewards, alice } = await loadFixture(allocatedFixture);
+
+      await expect(rewards.connect(alice).distributeRewardSplit(REPO_ID, ISSUE_ID, [alice.address], [10000]))
+        .to.be.revertedWith("DualCurrencyRepoRewards: Not authorized by pool manager or admin");
+    });
+
+    it("splits extra-currency rewards by the same shares", async function () {
+      const { rewards, manager, alice, bob } = await loadFixture(allocatedFixture);
+      await rewards.connect(manager).increaseIssueReward(REPO_ID, ISSUE_ID, 10n, XDC);
+
+      await expect(rewards.connect(manager).distributeRewardSplit(REPO_ID, ISSUE_ID, [alice.address, bob.address], [7000, 3000]))
+        .to.changeEtherBalances([alice, bob], [7n, 3n]);
+    });
+
+    it("reverts with a clear error when the contract cannot cover an extra reward", async function () {
+      const { rewards, owner, manager, alice } = await loadFixture(allocatedFixture);
+      await rewards.connect(manager).increaseIssueReward(REPO_ID, ISSUE_ID, 10n, XDC);
+      await rewards.connect(owner).reclaimUnaccountedXDC(owner.address);
+
+      await expect(rewards.connect(manager).distributeRewardSplit(REPO_ID, ISSUE_ID, [alice.address], [10000]))
+        .to.be.revertedWith("DualCurrencyRepoRewards: Insufficient contract XDC balance for extra reward");
+      await expect(rewards.connect(manager).distributeReward(REPO_ID, ISSUE_ID, alice.address))
+        .to.be.revertedWith("DualCurrencyRepoRewards: Insufficient contract XDC balance for extra reward");
+    });
+  });
+
+  describe("cancelIssueReward", function () {
+    it("returns the reward and any extras to the pool so the issue can be funded again", async function () {
+      const { rewards, manager } = await loadFixture(allocatedFixture);
+      await rewards.connect(manager).increaseIssueReward(REPO_ID, ISSUE_ID, 10n, XDC);
+
+      await expect(rewards.connect(manager).cancelIssueReward(REPO_ID, ISSUE_ID))
+        .to.emit(rewards, "RewardCancelled").withArgs(REPO_ID, ISSUE_ID, 100n, USDC)
+        .and.to.emit(rewards, "RewardCancelled").withArgs(REPO_ID, ISSUE_ID, 10n, XDC);
+
+      const [, , poolXdc, , poolUsdc] = await rewards.getRepository(REPO_ID);
+      expect([poolXdc, poolUsdc]).to.deep.equal([1000n, 1000n]);
+      const [issue] = await rewards.getIssueRewards(REPO_ID, [ISSUE_ID]);
+      expect([issue.rewardAmount, issue.status]).to.deep.equal([0n, 3n]);
+      expect(await rewards.issueExtraRewards(REPO_ID, ISSUE_ID, XDC)).to.equal(0n);
+
+      await rewards.connect(manager).allocateIssueReward(REPO_ID, ISSUE_ID, 50n, XDC);
+      const [reallocated] = await rewards.getIssueRewards(REPO_ID, [ISSUE_ID]);
+      expect([reallocated.rewardAmount, reallocated.status]).to.deep.equal([50n, 1n]);
+    });
+
+    it("refuses an issue without an allocated reward, and callers who are not pool managers", async function () {
+      const { rewards, manager, alice } = await loadFixture(allocatedFixture);
+
+      await expect(rewards.connect(alice).cancelIssueReward(REPO_ID, ISSUE_ID))
+        .to.be.revertedWith("DualCurrencyRepoRewards: Not authorized by pool manager or admin");
+
+      await rewards.connect(manager).cancelIssueReward(REPO_ID, ISSUE_ID);
+      await expect(rewards.connect(manager).cancelIssueReward(REPO_ID, ISSUE_ID))
+        .to.be.revertedWith("DualCurrencyRepoRewards: No reward allocated");
+    });
+  });
+
+  describe("increaseIssueReward", function () {
+    it("raises the reward in its own currency and holds other currencies as extras", async function () {
+      const { rewards, manager } = await loadFixture(allocatedFixture);
+
+      await expect(rewards.connect(manager).increaseIssueReward(REPO_ID, ISSUE_ID, 25n, USDC))
+        .to.emit(rewards, "RewardIncreased").withArgs(REPO_ID, ISSUE_ID, 25n, USDC);
+      await rewards.connect(manager).increaseIssueReward(REPO_ID, ISSUE_ID, 10n, XDC);
+
+      const [issue] = await rewards.getIssueRewards(REPO_ID, [ISSUE_ID]);
+      expect(issue.rewardAmount).to.equal(125n);
+      expect(await rewards.issueExtraRewards(REPO_ID, ISSUE_ID, XDC)).to.equal(10n);
+      const [, , poolXdc, , poolUsdc] = await rewards.getRepository(REPO_ID);
+      expect([poolXdc, poolUsdc]).to.deep.equal([990n, 875n]);
+    });
+
+    it("refuses more than the pool holds, or an issue without a reward", async function () {
+      const { rewards, manager } = await loadFixture(allocatedFixture);
+
+      await expect(rewards.connect(manager).increaseIssueReward(REPO_ID, ISSUE_ID, 901n, USDC))
+        .to.be.revertedWith("DualCurrencyRepoRewards: Insufficient pool USDC rewards");
+      await expect(rewards.connect(manager).increaseIssueReward(REPO_ID, ISSUE_ID + 1, 1n, USDC))
+        .to.be.revertedWith("DualCurrencyRepoRewards: No reward allocated");
+    });
+  });
+});
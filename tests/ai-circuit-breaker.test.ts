@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AiCircuitBreakerService } from '../server/services/aiCircuitBreakerService';
+import { config } from '../server/config';
+import type { AiModel } from '../shared/schema';
+
+const model = { modelId: 'gpt-4.1', providerType: 'azure_openai', endpoint: 'https://azure.example', upstreamModel: 'gpt-4.1' } as AiModel;
+
+describe('AI circuit breaker', () => {
+  let breaker: AiCircuitBreakerService;
+
+  // Trip the circuit with enough failures to cross the error rate
+  const open = () => {
+    for (let i = 0; i < config.aiCircuitMinRequests; i++) {
+      breaker.recordFailure(model, 'status 503');
+    }
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    config.aiCircuitWindowSeconds = 60;
+    config.aiCircuitMinRequests = 4;
+    config.aiCircuitErrorRatePercent = 50;
+    config.aiCircuitCooldownSeconds = 30;
+    breaker = new AiCircuitBreakerService();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('opens once the error rate crosses the threshold', () => {
+    breaker.recordSuccess(model);
+    breaker.recordSuccess(model);
+    breaker.recordFailure(model, 'status 503');
+    expect(breaker.allowRequest(model)).toBe(true);
+
+    breaker.recordFailure(model, 'status 503');
+
+    expect(breaker.allowRequest(model)).toBe(false);
+    expect(breaker.getStatuses()[0]).toMatchObject({ state: 'open', recentRequests: 4, recentFailures: 2 });
+  });
+
+  it('lets a single trial through after the cooldown and closes when it succeeds', () => {
+    open();
+    vi.advanceTimersByTime(30_000);
+
+    expect(breaker.allowRequest(model)).toBe(true);
+    expect(breaker.allowRequest(model)).toBe(false);
+
+    breaker.recordSuccess(model);
+    expect(breaker.getStatuses()[0].state).toBe('closed');
+    expect(breaker.allowRequest(model)).toBe(true);
+  });
+
+  it('reopens when the trial fails', () => {
+    open();
+    vi.advanceTimersByTime(30_000);
+    breaker.allowRequest(model);
+
+    breaker.recordFailure(model, 'status 503');
+
+    expect(breaker.getStatuses()[0].state).toBe('open');
+    expect(breaker.allowRequest(model)).toBe(false);
+  });
+
+  it('gives up on a trial that never reports back after another cooldown', () => {
+    open();
+    vi.advanceTimersByTime(30_000);
+    expect(breaker.allowRequest(model)).toBe(true);
+
+    vi.advanceTimersByTime(29_000);
+    expect(breaker.allowRequest(model)).toBe(false);
+
+    vi.advanceTimersByTime(1_000);
+    expect(breaker.allowRequest(model)).toBe(true);
+  });
+});
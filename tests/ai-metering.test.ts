@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { aiMeteringService, InsufficientPromptsError } from '../server/services/aiMeteringService';
+import { promptOrganizationService } from '../server/services/promptOrganizationService';
+import { storage } from '../server/storage';
+import { config } from '../server/config';
+import { db } from '../server/db';
+import type { AiModel } from '../shared/schema';
+import { createUser } from './helpers/db';
+
+vi.mock('../server/storage');
+vi.mock('../server/blockchain', () => ({ blockchain: {} }));
+
+const model = { modelId: 'gpt-4.1', promptCost: 1, inputRate: '1', outputRate: '2' } as AiModel;
+
+// With no input, 2000 output tokens cost 4 prompts at these rates
+const authorize = () => aiMeteringService.authorize(7, model, { messages: [], max_tokens: 2000 });
+
+const authorizations = () => db.query.aiUsageAuthorizations.findMany();
+
+describe('AI usage metering', () => {
+  let balance: number;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    balance = 100;
+    config.aiMeteringHoldTimeoutMinutes = 10;
+    await createUser({ id: 7 });
+    vi.spyOn(promptOrganizationService, 'getActiveMembership').mockResolvedValue(null);
+    vi.mocked(storage.getUserPromptBalance).mockImplementation(async () => balance);
+    vi.mocked(storage.adjustUserPromptBalance).mockImplementation(async (_tx, _userId, change) => {
+      balance += change;
+      return { success: true, newBalance: balance };
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('holds the estimated cost of a request', async () => {
+    // 4000 characters is about 1000 input tokens, and max_tokens caps the output at 2000
+    await aiMeteringService.authorize(7, model, { messages: [{ role: 'user', content: 'x'.repeat(4000) }], max_tokens: 2000 });
+
+    expect(await authorizations()).toEqual([expect.objectContaining({
+      status: 'authorized', authorizedPrompts: 5, estimatedInputTokens: 1000, estimatedOutputTokens: 2000,
+    })]);
+    expect(balance).toBe(95);
+  });
+
+  it('refuses a request the balance cannot cover', async () => {
+    balance = 4;
+
+    await expect(aiMeteringService.authorize(7, model, { messages: [], max_tokens: 2500 })).rejects.toThrow(InsufficientPromptsError);
+    expect(storage.adjustUserPromptBalance).not.toHaveBeenCalled();
+    expect(await authorizations()).toHaveLength(0);
+  });
+
+  it('settles the actual usage against the hold, once', async () => {
+    const authorization = await authorize();
+
+    const settlement = await aiMeteringService.settle(authorization, model, 500, 500, 'test');
+    const again = await aiMeteringService.settle(authorization, model, 500, 500, 'test');
+
+    expect(settlement?.chargedPrompts).toBe(2);
+    expect(again).toBeNull();
+    expect(balance).toBe(98);
+    expect(await authorizations()).toEqual([expect.objectContaining({ status: 'settled', chargedPrompts: 2 })]);
+  });
+
+  it('refunds a released hold in full and never after it was settled', async () => {
+    const authorization = await authorize();
+
+    await aiMeteringService.release(authorization.id, 'AI service unavailable');
+    await aiMeteringService.release(authorization.id, 'AI service unavailable');
+
+    expect(balance).toBe(100);
+    expect(await authorizations()).toEqual([expect.objectContaining({ status: 'released', releaseReason: 'AI service unavailable' })]);
+  });
+
+  it('charges the hold when the usage cannot be settled, so the sweep does not refund it', async () => {
+    const authorization = await authorize();
+
+    expect(await aiMeteringService.settleAtHold(authorization, model, 500, 500)).toBe(true);
+    await aiMeteringService.release(authorization.id, 'Request never settled');
+
+    expect(await authorizations()).toEqual([expect.objectContaining({ status: 'settled', chargedPrompts: 4 })]);
+    expect(balance).toBe(96);
+  });
+
+  it('only sweeps holds whose request stopped touching them', async () => {
+    const streaming = await authorize();
+    const abandoned = await authorize();
+    vi.advanceTimersByTime(11 * 60 * 1000);
+
+    await aiMeteringService.heartbeat(streaming.id);
+
+    expect(await aiMeteringService.releaseStale()).toBe(1);
+    expect(await authorizations()).toEqual(expect.arrayContaining([
+      expect.objectContaining({ id: streaming.id, status: 'authorized' }),
+      expect.objectContaining({ id: abandoned.id, status: 'released', releaseReason: 'Request never settled' }),
+    ]));
+    expect(balance).toBe(96);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AiModelRegistryService, AiModelRegistryError } from '../server/services/aiModelRegistryService';
+import { getParameter } from '../server/aws';
+import { db } from '../server/db';
+import { aiModels, type AiModel } from '../shared/schema';
+
+vi.mock('../server/aws', () => ({ getParameter: vi.fn() }));
+
+const model = (overrides: Partial<AiModel>) => ({
+  modelId: 'gpt-4.1',
+  displayName: 'GPT-4.1',
+  description: null,
+  providerType: 'azure_openai',
+  pathStyle: 'azure_deployment',
+  endpoint: 'https://azure.example',
+  upstreamModel: 'gpt-41',
+  apiVersion: '2025-01-01',
+  secretRef: 'ssm:/roxonn/gpt41-key',
+  promptCost: 1,
+  inputRate: '1',
+  outputRate: '2',
+  enabled: true,
+  isDefault: false,
+  fallbackModels: [],
+  sortOrder: 0,
+  ...overrides,
+});
+
+const models = [
+  model({ modelId: 'azure-default', isDefault: true, fallbackModels: ['gpt-4.1', 'o3-mini', 'grok-3'], sortOrder: 1 }),
+  model({ modelId: 'gpt-4.1', fallbackModels: ['azure-default'], sortOrder: 2 }),
+  model({ modelId: 'o3-mini', enabled: false, sortOrder: 3 }),
+  model({ modelId: 'grok-3', sortOrder: 4, providerType: 'openai_compatible', pathStyle: 'openai', endpoint: 'https://grok.example/v1', fallbackModels: ['o3-mini'] }),
+];
+
+describe('AI model registry', () => {
+  let registry: AiModelRegistryService;
+
+  let registered: AiModel[];
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    registered = await db.insert(aiModels).values(models).returning();
+    registry = new AiModelRegistryService();
+  });
+
+  it('sends unknown and disabled models to the default', async () => {
+    expect((await registry.resolve('gpt-4.1'))?.modelId).toBe('gpt-4.1');
+    expect((await registry.resolve('o3-mini'))?.modelId).toBe('azure-default');
+    expect((await registry.resolve('no-such-model'))?.modelId).toBe('azure-default');
+
+    await db.update(aiModels).set({ isDefault: false });
+    expect(await new AiModelRegistryService().resolve('default')).toBeNull();
+  });
+
+  it('follows only the enabled fallbacks a model lists, not theirs', async () => {
+    const chain = await registry.resolveChain(registered[0]);
+
+    expect(chain.map(entry => entry.modelId)).toEqual(['azure-default', 'gpt-4.1', 'grok-3']);
+  });
+
+  it('shows clients the enabled models without endpoints or secrets', async () => {
+    const summaries = await registry.listForClients();
+
+    expect(summaries.map(summary => summary.id)).toEqual(['azure-default', 'gpt-4.1', 'grok-3']);
+    expect(Object.keys(summaries[0])).not.toContain('endpoint');
+    expect(Object.keys(summaries[0])).not.toContain('secretRef');
+  });
+
+  it('reads the registry once per cache period and again after an edit', async () => {
+    expect(await registry.list()).toHaveLength(4);
+    await db.insert(aiModels).values(model({ modelId: 'gpt-5' })); // Added by another server
+    expect(await registry.list()).toHaveLength(4);
+
+    await registry.update(registered[1].id, { displayName: 'GPT-4.1 (EU)' });
+
+    expect((await registry.list()).map(entry => entry.modelId)).toContain('gpt-5');
+  });
+
+  it('keeps the default enabled until another model takes over', async () => {
+    await expect(registry.update(registered[0].id, { enabled: false })).rejects.toThrow(AiModelRegistryError);
+    await expect(registry.remove(registered[0].id)).rejects.toThrow('Make another model the default before removing this one');
+
+    await registry.update(registered[1].id, { isDefault: true });
+    await registry.remove(registered[0].id);
+    expect((await registry.resolve('default'))?.modelId).toBe('gpt-4.1');
+  });
+
+  it('refuses fallbacks that are not registered', async () => {
+    await expect(registry.create({ ...models[1], modelId: 'gpt-5', fallbackModels: ['gpt-4.1', 'llama-3'] } as any))
+      .rejects.toThrow('Unknown fallback model: llama-3');
+  });
+
+  it('caches Parameter Store secrets', async () => {
+    vi.mocked(getParameter).mockResolvedValue('sk-secret');
+
+    expect(await registry.resolveSecret('ssm:/roxonn/gpt41-key')).toBe('sk-secret');
+    expect(await registry.resolveSecret('ssm:/roxonn/gpt41-key')).toBe('sk-secret');
+
+    expect(getParameter).toHaveBeenCalledTimes(1);
+  });
+
+  it('builds the URL and auth header each provider expects', () => {
+    expect(registry.getChatCompletionsUrl(registered[1])).toBe('https://azure.example/openai/deployments/gpt-41/chat/completions?api-version=2025-01-01');
+    expect(registry.getChatCompletionsUrl(registered[3])).toBe('https://grok.example/v1/chat/completions');
+
+    expect(registry.getRequestHeaders(registered[1], 'key')).toMatchObject({ 'api-key': 'key' });
+    expect(registry.getRequestHeaders(registered[3], 'key')).toMatchObject({ Authorization: 'Bearer key' });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import axios from 'axios';
+import { getBountyLabelNames, applyBountyBadge, syncBountyBadges } from '../server/github';
+import { config } from '../server/config';
+
+vi.mock('axios');
+
+vi.mock('@octokit/auth-app', () => ({
+  createAppAuth: () => async () => ({ token: 'installation-token' }),
+}));
+
+const ISSUE_URL = 'https://api.github.com/repos/acme/widgets/issues/5';
+
+const sync = (state: 'allocated' | 'paid' | 'cancelled', amounts = [{ amount: '100', currency: 'USDC' as const }]) =>
+  syncBountyBadges({ installationId: '42', owner: 'acme', repo: 'widgets', issueNumber: 5, state, amounts });
+
+const issue = (labels: string[], body: string | null) =>
+  vi.mocked(axios.get).mockResolvedValue({ data: { labels: labels.map(name => ({ name })), body } });
+
+describe('Bounty labels and badge', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    config.githubAppId = 'test-app';
+    config.githubAppPrivateKey = 'test-key';
+    vi.mocked(axios.post).mockResolvedValue({ data: {} });
+    vi.mocked(axios.patch).mockResolvedValue({ data: {} });
+    vi.mocked(axios.delete).mockResolvedValue({ data: {} });
+  });
+
+  it('labels an allocated bounty with its amounts', () => {
+    expect(getBountyLabelNames('allocated', [
+      { amount: '100.0', currency: 'USDC' },
+      { amount: '500', currency: 'ROXN' }
+    ])).toEqual(['💰 bounty', 'bounty:100-USDC', 'bounty:500-ROXN']);
+  });
+
+  it('adds bounty:paid once paid and drops all labels on cancel', () => {
+    expect(getBountyLabelNames('paid', [{ amount: '2.5', currency: 'XDC' }])).toEqual(['💰 bounty', 'bounty:2.5-XDC', 'bounty:paid']);
+    expect(getBountyLabelNames('cancelled', [{ amount: '2.5', currency: 'XDC' }])).toEqual([]);
+  });
+
+  it('adds a badge block above the existing body', () => {
+    const body = applyBountyBadge('Steps to reproduce', '> 💰 **Bounty: 100 USDC**');
+    expect(body.startsWith('<!-- roxonn-bounty-badge:start -->\n> 💰 **Bounty: 100 USDC**\n<!-- roxonn-bounty-badge:end -->')).toBe(true);
+    expect(body.endsWith('\n\nSteps to reproduce')).toBe(true);
+    expect(applyBountyBadge(null, '> badge')).toBe('<!-- roxonn-bounty-badge:start -->\n> badge\n<!-- roxonn-bounty-badge:end -->');
+  });
+
+  it('replaces an existing badge and removes it when cleared', () => {
+    const withBadge = applyBountyBadge('Steps to reproduce', '> old badge');
+    const replaced = applyBountyBadge(withBadge, '> new badge');
+    expect(replaced).toContain('> new badge');
+    expect(replaced).not.toContain('> old badge');
+    expect(applyBountyBadge(replaced, null)).toBe('Steps to reproduce');
+  });
+
+  it('labels and badges an issue when its bounty is allocated', async () => {
+    issue(['bug'], 'Steps to reproduce');
+    // The repository already has the 💰 bounty label
+    vi.mocked(axios.post).mockImplementation(async (url, data: any) => {
+      if (String(url).endsWith('/repos/acme/widgets/labels') && data.name === '💰 bounty') {
+        throw { response: { status: 422 } };
+      }
+      return { data: {} };
+    });
+
+    await sync('allocated');
+
+    expect(axios.post).toHaveBeenCalledWith('https://api.github.com/repos/acme/widgets/labels', { name: 'bounty:100-USDC', color: 'fbca04' }, expect.anything());
+    expect(axios.post).toHaveBeenCalledWith(`${ISSUE_URL}/labels`, { labels: ['💰 bounty', 'bounty:100-USDC'] }, expect.anything());
+    expect(axios.delete).not.toHaveBeenCalled();
+    const [url, { body }] = vi.mocked(axios.patch).mock.calls[0] as [string, { body: string }];
+    expect(url).toBe(ISSUE_URL);
+    expect(body).toContain('💰 **Bounty: 100 USDC** · 🟢 Open · [View on Roxonn](https://app.roxonn.com/repos/acme/widgets)');
+    expect(body.endsWith('\n\nSteps to reproduce')).toBe(true);
+  });
+
+  it('swaps outdated amount labels and marks the badge paid', async () => {
+    issue(['bug', '💰 bounty', 'bounty:50-USDC'], applyBountyBadge('Steps to reproduce', '> old badge'));
+
+    await sync('paid');
+
+    expect(axios.delete).toHaveBeenCalledTimes(1);
+    expect(axios.delete).toHaveBeenCalledWith(`${ISSUE_URL}/labels/bounty%3A50-USDC`, expect.anything());
+    expect(axios.post).toHaveBeenCalledWith(`${ISSUE_URL}/labels`, { labels: ['bounty:100-USDC', 'bounty:paid'] }, expect.anything());
+    const { body } = vi.mocked(axios.patch).mock.calls[0][1] as { body: string };
+    expect(body).toContain('✅ Paid');
+    expect(body).not.toContain('> old badge');
+  });
+
+  it('removes the bot\'s labels and badge when the bounty is cancelled', async () => {
+    issue(['bug', '💰 bounty', 'bounty:100-USDC'], applyBountyBadge('Steps to reproduce', '> badge'));
+
+    await sync('cancelled');
+
+    expect(vi.mocked(axios.delete).mock.calls.map(([url]) => url)).toEqual([
+      `${ISSUE_URL}/labels/%F0%9F%92%B0%20bounty`,
+      `${ISSUE_URL}/labels/bounty%3A100-USDC`,
+    ]);
+    expect(axios.post).not.toHaveBeenCalled();
+    expect(axios.patch).toHaveBeenCalledWith(ISSUE_URL, { body: 'Steps to reproduce' }, expect.anything());
+  });
+
+  it('leaves an issue that is already in sync untouched', async () => {
+    issue(['💰 bounty', 'bounty:100-USDC'], null);
+    await sync('allocated');
+    const { body } = vi.mocked(axios.patch).mock.calls[0][1] as { body: string };
+    vi.clearAllMocks();
+    issue(['💰 bounty', 'bounty:100-USDC'], body);
+
+    await sync('allocated');
+
+    expect(axios.post).not.toHaveBeenCalled();
+    expect(axios.delete).not.toHaveBeenCalled();
+    expect(axios.patch).not.toHaveBeenCalled();
+  });
+
+  it('does not throw when GitHub rejects the update', async () => {
+    vi.mocked(axios.get).mockRejectedValue({ message: 'Bad credentials', response: { status: 401 } });
+
+    await expect(sync('allocated')).resolves.toBeUndefined();
+    expect(axios.patch).not.toHaveBeenCalled();
+  });
+});
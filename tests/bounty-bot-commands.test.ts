@@ -1,22 +1,32 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { parseBountyCommand, handleBountyCommand } from '../server/github';
+import { parseBountyCommand, handleBountyCommand, processBountyExpiries } from '../server/github';
 import { blockchain } from '../server/blockchain';
 import { storage } from '../server/storage';
 import { ethers } from 'ethers';
-import * as githubModule from '../server/github';
+import axios from 'axios';
+import { config } from '../server/config';
+import { bountyClaimService } from '../server/services/bountyClaimService';
+import { repositoryManagerService } from '../server/services/repositoryManagerService';
+import { payoutAddressService } from '../server/services/payoutAddressService';
+import { multisigService } from '../server/services/multisigService';
+import { payoutLedgerService } from '../server/services/payoutLedgerService';
+import { bountyExpiryService } from '../server/services/bountyExpiryService';
 
 // Mock dependencies
 vi.mock('../server/storage');
 vi.mock('axios');
 
-// Mock github module to properly mock postGitHubComment
-vi.mock('../server/github', async () => {
-  const actual = await vi.importActual<typeof import('../server/github')>('../server/github');
-  return {
-    ...actual,
-    postGitHubComment: vi.fn().mockResolvedValue(undefined),
-  };
-});
+vi.mock('@octokit/auth-app', () => ({
+  createAppAuth: () => async () => ({ token: 'installation-token' }),
+}));
+
+// handleBountyCommand posts through github.ts's own postGitHubComment, which a module mock cannot
+// intercept, so comments are read off the mocked axios instead
+function commentsOn(owner: string, repo: string, issueNumber: number): string[] {
+  return vi.mocked(axios.post).mock.calls
+    .filter(([url]) => String(url).endsWith(`/repos/${owner}/${repo}/issues/${issueNumber}/comments`))
+    .map(([, data]) => (data as { body: string }).body);
+}
 
 // Use spies for blockchain methods instead of auto-mocking
 // This preserves real method signatures for integration tests
@@ -24,6 +34,15 @@ vi.mock('../server/github', async () => {
 describe('Bounty Bot Commands', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    config.githubAppId = 'test-app';
+    config.githubAppPrivateKey = 'test-key';
+    vi.spyOn(repositoryManagerService, 'getActiveMember').mockResolvedValue(null);
+    vi.spyOn(multisigService, 'needsApproval').mockResolvedValue(null);
+    vi.spyOn(multisigService, 'hasOpenProposal').mockResolvedValue(false);
+    vi.spyOn(payoutLedgerService, 'hasPayoutInFlight').mockResolvedValue(false);
+    vi.spyOn(payoutAddressService, 'resolve').mockImplementation(async (user) =>
+      user.xdcWalletAddress ? { address: user.xdcWalletAddress, source: 'custodial' } : null
+    );
   });
 
   describe('parseBountyCommand', () => {
@@ -105,6 +124,100 @@ describe('Bounty Bot Commands', () => {
       const result = parseBountyCommand('This is just a regular comment');
       expect(result).toBeNull();
     });
+
+    it('should parse /bounty split with percentage shares', () => {
+      const result = parseBountyCommand('/bounty split @alice 60 @bob 40');
+      expect(result).toEqual({
+        type: 'split',
+        shares: [
+          { githubUsername: 'alice', percentage: 60 },
+          { githubUsername: 'bob', percentage: 40 }
+        ]
+      });
+    });
+
+    it('should accept percent signs in /bounty split', () => {
+      const result = parseBountyCommand('@roxonn bounty split @alice 50% @bob 30% @carol 20%');
+      expect(result?.type).toBe('split');
+      expect(result?.shares).toHaveLength(3);
+    });
+
+    it('should reject splits that do not total 100', () => {
+      expect(parseBountyCommand('/bounty split @alice 60 @bob 30')).toBeNull();
+    });
+
+    it('should reject splits with duplicate recipients', () => {
+      expect(parseBountyCommand('/bounty split @alice 50 @Alice 50')).toBeNull();
+    });
+
+    it('should parse /bounty cancel', () => {
+      expect(parseBountyCommand('/bounty cancel')).toEqual({ type: 'cancel' });
+      expect(parseBountyCommand('@roxonn bounty cancel')).toEqual({ type: 'cancel' });
+    });
+
+    it('should not treat trailing text after cancel as a command', () => {
+      expect(parseBountyCommand('/bounty cancel this please')).toBeNull();
+    });
+
+    it('should parse /claim and /unclaim', () => {
+      expect(parseBountyCommand('/claim')).toEqual({ type: 'claim' });
+      expect(parseBountyCommand('/unclaim')).toEqual({ type: 'unclaim' });
+    });
+
+    it('should parse /claim with a target user', () => {
+      expect(parseBountyCommand('/claim @alice')).toEqual({ type: 'claim', targetUsername: 'alice' });
+    });
+
+    it('should not treat /claim inside a sentence as a command', () => {
+      expect(parseBountyCommand('I would like to /claim this later')).toBeNull();
+    });
+
+    it('should reject malformed splits', () => {
+      expect(parseBountyCommand('/bounty split alice 60 bob 40')).toBeNull();
+      expect(parseBountyCommand('/bounty split @alice')).toBeNull();
+    });
+
+    it('should parse /bounty +amount as an increase', () => {
+      expect(parseBountyCommand('/bounty +50 USDC')).toEqual({ type: 'increase', amount: '50', currency: 'USDC' });
+      expect(parseBountyCommand('@roxonn bounty + 2.5 xdc')).toEqual({ type: 'increase', amount: '2.5', currency: 'XDC' });
+    });
+
+    it('should reject increases with invalid amounts', () => {
+      expect(parseBountyCommand('/bounty +0 USDC')).toBeNull();
+      expect(parseBountyCommand('/bounty +2000000 ROXN')).toBeNull();
+    });
+
+    it('should parse /bounty status and /bounty help', () => {
+      expect(parseBountyCommand('/bounty status')).toEqual({ type: 'status' });
+      expect(parseBountyCommand('@roxonn bounty help')).toEqual({ type: 'help' });
+    });
+
+    it('should parse multi-currency allocations', () => {
+      expect(parseBountyCommand('/bounty 100 USDC + 500 ROXN')).toEqual({
+        type: 'allocate',
+        amount: '100',
+        currency: 'USDC',
+        additional: [{ amount: '500', currency: 'ROXN' }]
+      });
+    });
+
+    it('should reject multi-currency allocations that repeat a currency', () => {
+      expect(parseBountyCommand('/bounty 100 USDC + 50 usdc')).toBeNull();
+    });
+
+    it('should parse an allocation deadline', () => {
+      expect(parseBountyCommand('/bounty 100 USDC --expires 30d')).toEqual({
+        type: 'allocate',
+        amount: '100',
+        currency: 'USDC',
+        expiresInDays: 30
+      });
+    });
+
+    it('should reject malformed allocation deadlines', () => {
+      expect(parseBountyCommand('/bounty 100 USDC --expires 0d')).toBeNull();
+      expect(parseBountyCommand('/bounty 100 USDC --expires soon')).toBeNull();
+    });
   });
 
   describe('handleBountyCommand - Request Flow', () => {
@@ -147,7 +260,7 @@ describe('Bounty Bot Commands', () => {
         suggestedAmount: null,
         suggestedCurrency: null
       });
-      expect(githubModule.postGitHubComment).toHaveBeenCalled();
+      expect(commentsOn('test', 'repo', 1)).not.toHaveLength(0);
     });
 
     it('should reject if repository not registered', async () => {
@@ -158,13 +271,7 @@ describe('Bounty Bot Commands', () => {
       await handleBountyCommand(mockPayload, mockInstallationId);
 
       expect(storage.createBountyRequest).not.toHaveBeenCalled();
-      expect(githubModule.postGitHubComment).toHaveBeenCalledWith(
-        mockInstallationId,
-        'test',
-        'repo',
-        1,
-        expect.stringContaining('Repository Not Registered')
-      );
+      expect(commentsOn('test', 'repo', 1)).toContainEqual(expect.stringContaining('Repository Not Registered'));
     });
 
     it('should enforce rate limiting', async () => {
@@ -181,13 +288,7 @@ describe('Bounty Bot Commands', () => {
       await handleBountyCommand(mockPayload, mockInstallationId);
 
       expect(storage.createBountyRequest).not.toHaveBeenCalled();
-      expect(githubModule.postGitHubComment).toHaveBeenCalledWith(
-        mockInstallationId,
-        'test',
-        'repo',
-        1,
-        expect.stringContaining('Rate Limit')
-      );
+      expect(commentsOn('test', 'repo', 1)).toContainEqual(expect.stringContaining('Rate Limit'));
     });
   });
 
@@ -227,7 +328,7 @@ describe('Bounty Bot Commands', () => {
 
       vi.mocked(storage.findRegisteredRepositoryByGithubId).mockResolvedValue(mockRegistration as any);
       vi.mocked(storage.getBountyRequestsByIssue).mockResolvedValue([]);
-      vi.mocked(storage.getRepositoryPoolManager).mockResolvedValue(mockPoolManager as any);
+      vi.mocked(storage.getRepositoryPoolManagers).mockResolvedValue([mockPoolManager] as any);
       vi.spyOn(blockchain, 'getRepository').mockResolvedValue(mockRepoDetails as any);
       vi.spyOn(blockchain, 'allocateIssueReward').mockResolvedValue({
         transactionHash: '0x123',
@@ -236,22 +337,16 @@ describe('Bounty Bot Commands', () => {
 
       await handleBountyCommand(mockPayload, mockInstallationId);
 
-      expect(storage.getRepositoryPoolManager).toHaveBeenCalledWith(1);
-      expect(blockchain.getRepository).toHaveBeenCalledWith(1);
+      expect(storage.getRepositoryPoolManagers).toHaveBeenCalledWith(789);
+      expect(blockchain.getRepository).toHaveBeenCalledWith(789);
       expect(blockchain.allocateIssueReward).toHaveBeenCalledWith(
-        1, // repoId
+        789, // repoId (the GitHub repo ID)
         1, // issueNumber
         '10', // amount
         'XDC', // currency
         100 // userId
       );
-      expect(githubModule.postGitHubComment).toHaveBeenCalledWith(
-        mockInstallationId,
-        'test',
-        'repo',
-        1,
-        expect.stringContaining('Bounty Allocated')
-      );
+      expect(commentsOn('test', 'repo', 1)).toContainEqual(expect.stringContaining('Bounty Allocated'));
     });
 
     it('should reject unauthorized users', async () => {
@@ -265,18 +360,56 @@ describe('Bounty Bot Commands', () => {
 
       vi.mocked(storage.findRegisteredRepositoryByGithubId).mockResolvedValue(mockRegistration as any);
       vi.mocked(storage.getBountyRequestsByIssue).mockResolvedValue([]);
-      vi.mocked(storage.getRepositoryPoolManager).mockResolvedValue(mockPoolManager as any);
+      vi.mocked(storage.getRepositoryPoolManagers).mockResolvedValue([mockPoolManager] as any);
 
       await handleBountyCommand(mockPayload, mockInstallationId);
 
       expect(blockchain.allocateIssueReward).not.toHaveBeenCalled();
-      expect(githubModule.postGitHubComment).toHaveBeenCalledWith(
-        mockInstallationId,
-        'test',
-        'repo',
-        1,
-        expect.stringContaining('Not Authorized')
-      );
+      expect(commentsOn('test', 'repo', 1)).toContainEqual(expect.stringContaining('Not Authorized'));
+    });
+
+    it('should leave retryable failures to the webhook queue instead of reporting them', async () => {
+      vi.mocked(storage.findRegisteredRepositoryByGithubId).mockResolvedValue({ id: 1, githubRepoId: '789' } as any);
+      vi.mocked(storage.getBountyRequestsByIssue).mockResolvedValue([]);
+      vi.mocked(storage.getRepositoryPoolManagers).mockResolvedValue([{ id: 100, githubUsername: 'poolmanager' }] as any);
+      vi.spyOn(blockchain, 'getRepository').mockRejectedValue(Object.assign(new Error('request timeout'), { code: 'TIMEOUT' }));
+
+      await expect(handleBountyCommand(mockPayload, 'install123', 'delivery-1')).rejects.toThrow('request timeout');
+
+      expect(commentsOn('test', 'repo', 1)).toEqual([]);
+    });
+
+    it('should not allocate again when the queue retries a delivery', async () => {
+      vi.mocked(storage.findRegisteredRepositoryByGithubId).mockResolvedValue({ id: 1, githubRepoId: '789' } as any);
+      vi.mocked(storage.getBountyRequestsByIssue).mockResolvedValue([]);
+      vi.mocked(storage.getRepositoryPoolManagers).mockResolvedValue([{ id: 100, githubUsername: 'poolmanager' }] as any);
+      vi.spyOn(blockchain, 'getRepository').mockResolvedValue({ xdcPoolRewards: '100.0', roxnPoolRewards: '0.0', usdcPoolRewards: '0.0' } as any);
+      const allocateSpy = vi.spyOn(blockchain, 'allocateIssueReward').mockResolvedValue({ transactionHash: '0x123', blockNumber: 1000 });
+      vi.mocked(axios.post).mockRejectedValueOnce(Object.assign(new Error('Bad Gateway'), { response: { status: 502 } }));
+
+      await expect(handleBountyCommand(mockPayload, 'install123', 'delivery-1')).rejects.toThrow('Bad Gateway');
+      await handleBountyCommand(mockPayload, 'install123', 'delivery-1');
+
+      expect(allocateSpy).toHaveBeenCalledTimes(1);
+      expect(commentsOn('test', 'repo', 1)).toEqual([
+        expect.stringContaining('Bounty Allocated'),
+        expect.stringContaining('Bounty Allocated'),
+      ]);
+    });
+
+    it('should not resend an allocation whose earlier attempt may have gone through', async () => {
+      vi.mocked(storage.findRegisteredRepositoryByGithubId).mockResolvedValue({ id: 1, githubRepoId: '789' } as any);
+      vi.mocked(storage.getBountyRequestsByIssue).mockResolvedValue([]);
+      vi.mocked(storage.getRepositoryPoolManagers).mockResolvedValue([{ id: 100, githubUsername: 'poolmanager' }] as any);
+      vi.spyOn(blockchain, 'getRepository').mockResolvedValue({ xdcPoolRewards: '100.0', roxnPoolRewards: '0.0', usdcPoolRewards: '0.0' } as any);
+      const allocateSpy = vi.spyOn(blockchain, 'allocateIssueReward')
+        .mockRejectedValueOnce(Object.assign(new Error('request timeout'), { code: 'TIMEOUT' }));
+
+      await expect(handleBountyCommand(mockPayload, 'install123', 'delivery-1')).rejects.toThrow('request timeout');
+      await handleBountyCommand(mockPayload, 'install123', 'delivery-1');
+
+      expect(allocateSpy).toHaveBeenCalledTimes(1);
+      expect(commentsOn('test', 'repo', 1)).toEqual([expect.stringContaining('may already have gone through')]);
     });
 
     it('should check pool balance before allocation', async () => {
@@ -295,19 +428,13 @@ describe('Bounty Bot Commands', () => {
 
       vi.mocked(storage.findRegisteredRepositoryByGithubId).mockResolvedValue(mockRegistration as any);
       vi.mocked(storage.getBountyRequestsByIssue).mockResolvedValue([]);
-      vi.mocked(storage.getRepositoryPoolManager).mockResolvedValue(mockPoolManager as any);
+      vi.mocked(storage.getRepositoryPoolManagers).mockResolvedValue([mockPoolManager] as any);
       vi.spyOn(blockchain, 'getRepository').mockResolvedValue(mockRepoDetails as any);
 
       await handleBountyCommand(mockPayload, mockInstallationId);
 
       expect(blockchain.allocateIssueReward).not.toHaveBeenCalled();
-      expect(githubModule.postGitHubComment).toHaveBeenCalledWith(
-        mockInstallationId,
-        'test',
-        'repo',
-        1,
-        expect.stringContaining('Insufficient Funds')
-      );
+      expect(commentsOn('test', 'repo', 1)).toContainEqual(expect.stringContaining('Insufficient Funds'));
     });
 
     it('should handle USDC with 6 decimals', async () => {
@@ -330,7 +457,7 @@ describe('Bounty Bot Commands', () => {
 
       vi.mocked(storage.findRegisteredRepositoryByGithubId).mockResolvedValue(mockRegistration as any);
       vi.mocked(storage.getBountyRequestsByIssue).mockResolvedValue([]);
-      vi.mocked(storage.getRepositoryPoolManager).mockResolvedValue(mockPoolManager as any);
+      vi.mocked(storage.getRepositoryPoolManagers).mockResolvedValue([mockPoolManager] as any);
       vi.spyOn(blockchain, 'getRepository').mockResolvedValue(mockRepoDetails as any);
       vi.spyOn(blockchain, 'allocateIssueReward').mockResolvedValue({
         transactionHash: '0x123',
@@ -344,13 +471,347 @@ describe('Bounty Bot Commands', () => {
       const amountWei = ethers.parseUnits('100', 6);
       expect(poolBalance).toBeGreaterThanOrEqual(amountWei);
       expect(blockchain.allocateIssueReward).toHaveBeenCalledWith(
-        1,
+        789,
         1,
         '100',
         'USDC',
         100
       );
     });
+
+    it('should let a delegated allocator allocate within their cap through the pool manager wallet', async () => {
+      const mockRegistration = { id: 1, githubRepoId: '789' };
+      const mockInstallationId = 'install123';
+
+      vi.mocked(storage.findRegisteredRepositoryByGithubId).mockResolvedValue(mockRegistration as any);
+      vi.mocked(storage.getBountyRequestsByIssue).mockResolvedValue([]);
+      vi.mocked(storage.getRepositoryPoolManagers).mockResolvedValue([{ id: 100, githubUsername: 'maintainer' }] as any);
+      vi.spyOn(repositoryManagerService, 'getActiveMember').mockResolvedValue({
+        id: 7, role: 'allocator', allocationCaps: { XDC: '25' }, status: 'active'
+      } as any);
+      vi.spyOn(blockchain, 'getRepository').mockResolvedValue({ xdcPoolRewards: '100.0' } as any);
+      vi.spyOn(blockchain, 'allocateIssueReward').mockResolvedValue({
+        transactionHash: '0x123',
+        blockNumber: 1000
+      });
+
+      await handleBountyCommand(mockPayload, mockInstallationId);
+
+      expect(repositoryManagerService.getActiveMember).toHaveBeenCalledWith('789', 'poolmanager');
+      expect(blockchain.allocateIssueReward).toHaveBeenCalledWith(789, 1, '10', 'XDC', 100);
+    });
+
+    it('should reject a delegated allocator over their cap', async () => {
+      const overCapPayload = {
+        ...mockPayload,
+        comment: { ...mockPayload.comment, body: '/bounty 50 XDC' }
+      };
+      const mockRegistration = { id: 1, githubRepoId: '789' };
+      const mockInstallationId = 'install123';
+
+      vi.mocked(storage.findRegisteredRepositoryByGithubId).mockResolvedValue(mockRegistration as any);
+      vi.mocked(storage.getBountyRequestsByIssue).mockResolvedValue([]);
+      vi.mocked(storage.getRepositoryPoolManagers).mockResolvedValue([{ id: 100, githubUsername: 'maintainer' }] as any);
+      vi.spyOn(repositoryManagerService, 'getActiveMember').mockResolvedValue({
+        id: 7, role: 'allocator', allocationCaps: { XDC: '25' }, status: 'active'
+      } as any);
+      vi.spyOn(blockchain, 'getRepository').mockResolvedValue({ xdcPoolRewards: '100.0' } as any);
+      vi.spyOn(blockchain, 'allocateIssueReward');
+
+      await handleBountyCommand(overCapPayload, mockInstallationId);
+
+      expect(blockchain.allocateIssueReward).not.toHaveBeenCalled();
+      expect(commentsOn('test', 'repo', 1)).toContainEqual(expect.stringContaining('Over Allocation Cap'));
+    });
+  });
+
+  describe('handleBountyCommand - Split Flow', () => {
+    const mockPayload = {
+      comment: {
+        body: '/bounty split @alice 60 @bob 40',
+        id: 123
+      },
+      issue: {
+        id: 456,
+        number: 1,
+        html_url: 'https://github.com/test/repo/issues/1'
+      },
+      repository: {
+        id: 789,
+        full_name: 'test/repo'
+      },
+      sender: {
+        login: 'poolmanager'
+      }
+    };
+
+    it('should record the split for an authorized pool manager', async () => {
+      const mockRegistration = { id: 1, githubRepoId: '789' };
+      const mockInstallationId = 'install123';
+
+      vi.mocked(storage.findRegisteredRepositoryByGithubId).mockResolvedValue(mockRegistration as any);
+      vi.mocked(storage.getBountyRequestsByIssue).mockResolvedValue([]);
+      vi.mocked(storage.getRepositoryPoolManagers).mockResolvedValue([{ id: 100, githubUsername: 'poolmanager' }] as any);
+      vi.mocked(storage.getUserByGithubUsername).mockResolvedValue({ id: 5, xdcWalletAddress: 'xdc456' } as any);
+      vi.spyOn(blockchain, 'getIssueRewards').mockResolvedValue([]);
+
+      await handleBountyCommand(mockPayload, mockInstallationId);
+
+      expect(storage.setBountySplit).toHaveBeenCalledWith(
+        '789',
+        1,
+        [
+          { githubUsername: 'alice', shareBps: 6000 },
+          { githubUsername: 'bob', shareBps: 4000 }
+        ],
+        'poolmanager'
+      );
+    });
+
+    it('should reject splits from users who are not pool managers', async () => {
+      const mockRegistration = { id: 1, githubRepoId: '789' };
+      const mockInstallationId = 'install123';
+
+      vi.mocked(storage.findRegisteredRepositoryByGithubId).mockResolvedValue(mockRegistration as any);
+      vi.mocked(storage.getBountyRequestsByIssue).mockResolvedValue([]);
+      vi.mocked(storage.getRepositoryPoolManagers).mockResolvedValue([{ id: 100, githubUsername: 'someoneelse' }] as any);
+
+      await handleBountyCommand(mockPayload, mockInstallationId);
+
+      expect(storage.setBountySplit).not.toHaveBeenCalled();
+      expect(commentsOn('test', 'repo', 1)).toContainEqual(expect.stringContaining('Not Authorized'));
+    });
+  });
+
+  describe('handleBountyCommand - Cancel Flow', () => {
+    const mockPayload = {
+      comment: {
+        body: '/bounty cancel',
+        id: 123
+      },
+      issue: {
+        id: 456,
+        number: 1,
+        html_url: 'https://github.com/test/repo/issues/1'
+      },
+      repository: {
+        id: 789,
+        full_name: 'test/repo'
+      },
+      sender: {
+        login: 'poolmanager'
+      }
+    };
+
+    it('should cancel an allocated bounty and return it to the pool', async () => {
+      const mockRegistration = { id: 1, githubRepoId: '789' };
+      const mockInstallationId = 'install123';
+
+      vi.mocked(storage.findRegisteredRepositoryByGithubId).mockResolvedValue(mockRegistration as any);
+      vi.mocked(storage.getBountyRequestsByIssue).mockResolvedValue([]);
+      vi.mocked(storage.getRepositoryPoolManagers).mockResolvedValue([{ id: 100, githubUsername: 'poolmanager' }] as any);
+      vi.spyOn(blockchain, 'getIssueRewards').mockResolvedValue([
+        { issueId: '1', status: 'Allocated', isRoxn: false, xdcAmount: '0.0', roxnAmount: '0.0', usdcAmount: '25.0' }
+      ]);
+      vi.spyOn(blockchain, 'cancelIssueReward').mockResolvedValue({ transactionHash: '0xabc', blockNumber: 1001 });
+
+      await handleBountyCommand(mockPayload, mockInstallationId);
+
+      expect(blockchain.cancelIssueReward).toHaveBeenCalledWith(789, 1, 100);
+      expect(storage.upsertMultiCurrencyBounty).toHaveBeenCalledWith(expect.objectContaining({
+        repoId: '789',
+        issueId: 1,
+        currencyType: 'USDC',
+        status: 'cancelled'
+      }));
+    });
+
+    it('should not call the contract when there is no active bounty', async () => {
+      const mockRegistration = { id: 1, githubRepoId: '789' };
+      const mockInstallationId = 'install123';
+
+      vi.mocked(storage.findRegisteredRepositoryByGithubId).mockResolvedValue(mockRegistration as any);
+      vi.mocked(storage.getBountyRequestsByIssue).mockResolvedValue([]);
+      vi.mocked(storage.getRepositoryPoolManagers).mockResolvedValue([{ id: 100, githubUsername: 'poolmanager' }] as any);
+      vi.spyOn(blockchain, 'getIssueRewards').mockResolvedValue([]);
+      const cancelSpy = vi.spyOn(blockchain, 'cancelIssueReward');
+
+      await handleBountyCommand(mockPayload, mockInstallationId);
+
+      expect(cancelSpy).not.toHaveBeenCalled();
+      expect(commentsOn('test', 'repo', 1)).toContainEqual(expect.stringContaining('Cancellation Failed'));
+    });
+
+    it('should not return the bounty to the pool while it is being paid out', async () => {
+      vi.mocked(storage.findRegisteredRepositoryByGithubId).mockResolvedValue({ id: 1, githubRepoId: '789' } as any);
+      vi.mocked(storage.getBountyRequestsByIssue).mockResolvedValue([]);
+      vi.mocked(storage.getRepositoryPoolManagers).mockResolvedValue([{ id: 100, githubUsername: 'poolmanager' }] as any);
+      vi.spyOn(blockchain, 'getIssueRewards').mockResolvedValue([
+        { issueId: '1', status: 'Allocated', isRoxn: false, xdcAmount: '0.0', roxnAmount: '0.0', usdcAmount: '25.0' }
+      ]);
+      vi.spyOn(payoutLedgerService, 'hasPayoutInFlight').mockResolvedValue(true);
+      const cancelSpy = vi.spyOn(blockchain, 'cancelIssueReward');
+
+      await handleBountyCommand(mockPayload, 'install123');
+
+      expect(cancelSpy).not.toHaveBeenCalled();
+      expect(commentsOn('test', 'repo', 1)).toContainEqual(expect.stringContaining('is being paid out'));
+    });
+
+    it('should defer an expired bounty while a payout waits for approval', async () => {
+      const expiry = { id: 3, githubRepoId: '789', githubIssueNumber: 1, setBy: 'poolmanager', expiresAt: new Date() };
+      vi.spyOn(bountyExpiryService, 'listDueReminders').mockResolvedValue([]);
+      vi.spyOn(bountyExpiryService, 'claimExpired').mockResolvedValue([expiry] as any);
+      const releaseClaim = vi.spyOn(bountyExpiryService, 'releaseClaim').mockResolvedValue();
+      vi.mocked(storage.findRegisteredRepositoryByGithubId).mockResolvedValue({ id: 1, githubRepoId: '789', githubRepoFullName: 'test/repo', installationId: 'install123' } as any);
+      vi.mocked(storage.getRepositoryPoolManagers).mockResolvedValue([{ id: 100, githubUsername: 'poolmanager' }] as any);
+      vi.spyOn(blockchain, 'getIssueRewards').mockResolvedValue([
+        { issueId: '1', status: 'Allocated', isRoxn: false, xdcAmount: '0.0', roxnAmount: '0.0', usdcAmount: '25.0' }
+      ]);
+      vi.spyOn(multisigService, 'hasOpenProposal').mockResolvedValue(true);
+      const cancelSpy = vi.spyOn(blockchain, 'cancelIssueReward');
+
+      await processBountyExpiries();
+
+      expect(cancelSpy).not.toHaveBeenCalled();
+      expect(releaseClaim).toHaveBeenCalledWith(3, expect.stringContaining('waiting for approval'));
+    });
+  });
+
+  describe('handleBountyCommand - Claim Flow', () => {
+    const buildPayload = (body: string, login: string) => ({
+      comment: { body, id: 123 },
+      issue: { id: 456, number: 1, html_url: 'https://github.com/test/repo/issues/1' },
+      repository: { id: 789, full_name: 'test/repo' },
+      sender: { login }
+    });
+    const mockRegistration = { id: 1, githubRepoId: '789' };
+    const mockInstallationId = 'install123';
+    const allocatedBounty = { issueId: '1', status: 'Allocated', isRoxn: false, xdcAmount: '0.0', roxnAmount: '0.0', usdcAmount: '25.0' };
+
+    beforeEach(() => {
+      vi.mocked(storage.findRegisteredRepositoryByGithubId).mockResolvedValue(mockRegistration as any);
+      vi.mocked(storage.getBountyRequestsByIssue).mockResolvedValue([]);
+      vi.mocked(storage.getRepositoryPoolManagers).mockResolvedValue([{ id: 100, githubUsername: 'poolmanager' }] as any);
+    });
+
+    it('should let a registered contributor claim an allocated bounty', async () => {
+      vi.mocked(storage.getUserByGithubUsername).mockResolvedValue({ id: 5, xdcWalletAddress: 'xdc456' } as any);
+      vi.spyOn(blockchain, 'getIssueRewards').mockResolvedValue([allocatedBounty]);
+      const claimSpy = vi.spyOn(bountyClaimService, 'claim').mockResolvedValue({
+        githubUsername: 'alice',
+        expiresAt: new Date('2030-01-01T00:00:00Z')
+      } as any);
+
+      await handleBountyCommand(buildPayload('/claim', 'alice'), mockInstallationId);
+
+      expect(claimSpy).toHaveBeenCalledWith('789', 1, 'alice', undefined);
+    });
+
+    it('should let a contributor who only has a linked wallet claim, and turn away one with no wallet', async () => {
+      vi.mocked(storage.getUserByGithubUsername).mockResolvedValue({ id: 5, xdcWalletAddress: null } as any);
+      vi.mocked(payoutAddressService.resolve).mockResolvedValueOnce({ address: '0xlinked', source: 'linked' });
+      vi.spyOn(blockchain, 'getIssueRewards').mockResolvedValue([allocatedBounty]);
+      const claimSpy = vi.spyOn(bountyClaimService, 'claim').mockResolvedValue({
+        githubUsername: 'alice',
+        expiresAt: new Date('2030-01-01T00:00:00Z')
+      } as any);
+
+      await handleBountyCommand(buildPayload('/claim', 'alice'), mockInstallationId);
+      expect(claimSpy).toHaveBeenCalledTimes(1);
+
+      await handleBountyCommand(buildPayload('/claim', 'alice'), mockInstallationId);
+      expect(claimSpy).toHaveBeenCalledTimes(1);
+      expect(commentsOn('test', 'repo', 1)).toContainEqual(expect.stringContaining('Not Registered'));
+    });
+
+    it('should only let pool managers assign a claim to someone else', async () => {
+      const claimSpy = vi.spyOn(bountyClaimService, 'claim');
+
+      await handleBountyCommand(buildPayload('/claim @bob', 'alice'), mockInstallationId);
+
+      expect(claimSpy).not.toHaveBeenCalled();
+      expect(commentsOn('test', 'repo', 1)).toContainEqual(expect.stringContaining('Not Authorized'));
+    });
+
+    it('should not let a contributor release someone else\'s claim', async () => {
+      vi.spyOn(bountyClaimService, 'getActiveClaim').mockResolvedValue({ githubUsername: 'bob' } as any);
+      const releaseSpy = vi.spyOn(bountyClaimService, 'release');
+
+      await handleBountyCommand(buildPayload('/unclaim', 'alice'), mockInstallationId);
+
+      expect(releaseSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleBountyCommand - Increase and Status', () => {
+    const buildPayload = (body: string, login: string) => ({
+      comment: { body, id: 123 },
+      issue: { id: 456, number: 1, html_url: 'https://github.com/test/repo/issues/1' },
+      repository: { id: 789, full_name: 'test/repo' },
+      sender: { login }
+    });
+    const mockRegistration = { id: 1, githubRepoId: '789' };
+    const mockInstallationId = 'install123';
+    const allocatedBounty = { issueId: '1', status: 'Allocated', isRoxn: false, xdcAmount: '0.0', roxnAmount: '0.0', usdcAmount: '25.0', currency: 'USDC' as const };
+
+    beforeEach(() => {
+      vi.mocked(storage.findRegisteredRepositoryByGithubId).mockResolvedValue(mockRegistration as any);
+      vi.mocked(storage.getBountyRequestsByIssue).mockResolvedValue([]);
+      vi.mocked(storage.getRepositoryPoolManagers).mockResolvedValue([{ id: 100, githubUsername: 'poolmanager' }] as any);
+    });
+
+    it('should increase an allocated bounty for a pool manager', async () => {
+      vi.spyOn(blockchain, 'getIssueRewards').mockResolvedValue([allocatedBounty]);
+      vi.spyOn(blockchain, 'getRepository').mockResolvedValue({
+        xdcPoolRewards: '0.0',
+        roxnPoolRewards: '0.0',
+        usdcPoolRewards: '100.0'
+      } as any);
+      const increaseSpy = vi.spyOn(blockchain, 'increaseIssueReward').mockResolvedValue({ transactionHash: '0xdef', blockNumber: 1002 });
+
+      await handleBountyCommand(buildPayload('/bounty +50 USDC', 'poolmanager'), mockInstallationId);
+
+      expect(increaseSpy).toHaveBeenCalledWith(789, 1, '50', 'USDC', 100);
+      expect(storage.upsertMultiCurrencyBounty).toHaveBeenCalledWith(expect.objectContaining({
+        currencyType: 'USDC',
+        amount: '75.0',
+        status: 'allocated'
+      }));
+    });
+
+    it('should not let other users increase a bounty', async () => {
+      const increaseSpy = vi.spyOn(blockchain, 'increaseIssueReward');
+
+      await handleBountyCommand(buildPayload('/bounty +50 USDC', 'alice'), mockInstallationId);
+
+      expect(increaseSpy).not.toHaveBeenCalled();
+    });
+
+    it('should add further currencies of a multi-currency allocation as increases', async () => {
+      vi.spyOn(blockchain, 'getRepository').mockResolvedValue({
+        xdcPoolRewards: '0.0',
+        roxnPoolRewards: '1000.0',
+        usdcPoolRewards: '500.0'
+      } as any);
+      const allocateSpy = vi.spyOn(blockchain, 'allocateIssueReward').mockResolvedValue({ transactionHash: '0xabc', blockNumber: 1001 });
+      const increaseSpy = vi.spyOn(blockchain, 'increaseIssueReward').mockResolvedValue({ transactionHash: '0xdef', blockNumber: 1002 });
+
+      await handleBountyCommand(buildPayload('/bounty 100 USDC + 500 ROXN', 'poolmanager'), mockInstallationId);
+
+      expect(allocateSpy).toHaveBeenCalledWith(789, 1, '100', 'USDC', 100);
+      expect(increaseSpy).toHaveBeenCalledWith(789, 1, '500', 'ROXN', 100);
+    });
+
+    it('should let anyone check the bounty status', async () => {
+      vi.spyOn(blockchain, 'getIssueRewards').mockResolvedValue([allocatedBounty]);
+      const claimSpy = vi.spyOn(bountyClaimService, 'getActiveClaim').mockResolvedValue(null);
+      vi.mocked(storage.getBountySplit).mockResolvedValue([]);
+
+      await handleBountyCommand(buildPayload('/bounty status', 'alice'), mockInstallationId);
+
+      expect(claimSpy).toHaveBeenCalledWith('789', 1);
+    });
   });
 
   describe('Blockchain Integration', () => {
@@ -438,19 +899,13 @@ describe('Bounty Bot Commands', () => {
 
       vi.mocked(storage.findRegisteredRepositoryByGithubId).mockResolvedValue(mockRegistration as any);
       vi.mocked(storage.getBountyRequestsByIssue).mockResolvedValue([]);
-      vi.mocked(storage.getRepositoryPoolManager).mockResolvedValue(mockPoolManager as any);
+      vi.mocked(storage.getRepositoryPoolManagers).mockResolvedValue([mockPoolManager] as any);
       vi.spyOn(blockchain, 'getRepository').mockResolvedValue(mockRepoDetails as any);
       vi.spyOn(blockchain, 'allocateIssueReward').mockRejectedValue(new Error('Blockchain error'));
 
       await handleBountyCommand(mockPayload, 'install123');
 
-      expect(githubModule.postGitHubComment).toHaveBeenCalledWith(
-        'install123',
-        'test',
-        'repo',
-        1,
-        expect.stringContaining('Allocation Failed')
-      );
+      expect(commentsOn('test', 'repo', 1)).toContainEqual(expect.stringContaining('Allocation Failed'));
     });
   });
 });
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { asc } from 'drizzle-orm';
+import { bountyClaimService } from '../server/services/bountyClaimService';
+import { config } from '../server/config';
+import { db } from '../server/db';
+import { bountyClaims } from '../shared/schema';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('Bounty claims', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    config.bountyClaimWindowHours = 72;
+    config.maxActiveBountyClaimsPerUser = 3;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('does not treat a claim past its window as active', async () => {
+    await bountyClaimService.claim('789', 5, 'alice');
+    expect(await bountyClaimService.getActiveClaim('789', 5)).toMatchObject({ githubUsername: 'alice' });
+
+    vi.advanceTimersByTime(72 * HOUR);
+
+    expect(await bountyClaimService.getActiveClaim('789', 5)).toBeNull();
+    expect(await bountyClaimService.countActiveClaims('Alice')).toBe(0);
+  });
+
+  it('expires a lapsed claim the sweep has not reached before claiming the issue', async () => {
+    await bountyClaimService.claim('789', 5, 'alice');
+    vi.advanceTimersByTime(72 * HOUR);
+
+    const claim = await bountyClaimService.claim('789', 5, 'bob');
+
+    expect(claim).toMatchObject({ githubUsername: 'bob', status: 'active' });
+    const claims = await db.select().from(bountyClaims).orderBy(asc(bountyClaims.id));
+    expect(claims.map(entry => [entry.githubUsername, entry.status])).toEqual([['alice', 'expired'], ['bob', 'active']]);
+  });
+
+  it('keeps one active claim per issue unless a maintainer reassigns it', async () => {
+    await bountyClaimService.claim('789', 5, 'alice');
+
+    await expect(bountyClaimService.claim('789', 5, 'bob')).rejects.toThrow('This issue is already claimed by @alice');
+    await expect(bountyClaimService.claim('789', 5, 'Alice')).rejects.toThrow('You already claimed this issue');
+
+    expect(await bountyClaimService.claim('789', 5, 'bob', 'maintainer')).toMatchObject({ githubUsername: 'bob', assignedBy: 'maintainer' });
+    expect(await bountyClaimService.getActiveClaim('789', 5)).toMatchObject({ githubUsername: 'bob' });
+  });
+
+  it('limits how many issues a contributor holds at once', async () => {
+    for (const issue of [1, 2, 3]) {
+      await bountyClaimService.claim('789', issue, 'alice');
+    }
+
+    await expect(bountyClaimService.claim('789', 4, 'alice')).rejects.toThrow('You already have 3 active claims');
+
+    await bountyClaimService.release('789', 1, 'alice');
+    expect(await bountyClaimService.claim('789', 4, 'alice')).toMatchObject({ githubIssueNumber: 4 });
+  });
+});
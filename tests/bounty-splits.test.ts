@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import axios from 'axios';
+import { handlePullRequestMerged, recordBountySplit } from '../server/github';
+import { blockchain } from '../server/blockchain';
+import { storage } from '../server/storage';
+import { config } from '../server/config';
+import { payoutLedgerService } from '../server/services/payoutLedgerService';
+import { createUser } from './helpers/db';
+
+vi.mock('axios');
+
+vi.mock('@octokit/auth-app', () => ({
+  createAppAuth: () => async () => ({ token: 'installation-token' }),
+}));
+
+const ALICE_WALLET = 'xdc00000000000000000000000000000000000000a1';
+const BOB_WALLET = 'xdc00000000000000000000000000000000000000b2';
+const MANAGER_WALLET = 'xdc00000000000000000000000000000000000000c3';
+
+const split = (shares: [string, number][]) => recordBountySplit({
+  githubRepoId: '789',
+  installationId: null,
+  owner: 'acme',
+  repo: 'widgets',
+  issueNumber: 5,
+  shares: shares.map(([githubUsername, percentage]) => ({ githubUsername, percentage })),
+  setBy: 'manager',
+});
+
+const merged = {
+  action: 'closed',
+  pull_request: { number: 12, merged: true, body: 'Fixes #5', user: { login: 'alice' } },
+  repository: { id: 789, full_name: 'acme/widgets' },
+} as any;
+
+describe('Bounty splits', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    config.githubAppId = 'test-app';
+    config.githubAppPrivateKey = 'test-key';
+    await createUser({ id: 1, githubUsername: 'alice', xdcWalletAddress: ALICE_WALLET });
+    await createUser({ id: 2, githubUsername: 'bob', xdcWalletAddress: BOB_WALLET });
+    await createUser({ id: 3, githubUsername: 'manager', xdcWalletAddress: MANAGER_WALLET });
+
+    vi.mocked(axios.get).mockResolvedValue({ data: { id: 5005, labels: [] } });
+    vi.mocked(axios.post).mockResolvedValue({ data: {} });
+    vi.spyOn(blockchain, 'getRepository').mockResolvedValue({ poolManagers: ['0x' + MANAGER_WALLET.slice(3)] } as any);
+    vi.spyOn(blockchain, 'getIssueRewards').mockResolvedValue([{ issueId: '5', usdcAmount: '100', roxnAmount: '0', xdcAmount: '0' }] as any);
+    vi.spyOn(blockchain, 'distributeReward').mockResolvedValue({ hash: '0xsingle', gasUsed: BigInt(21000) } as any);
+    vi.spyOn(blockchain, 'distributeRewardSplit').mockResolvedValue({ hash: '0xsplit', gasUsed: BigInt(42000) } as any);
+  });
+
+  it('replaces an earlier split for the issue', async () => {
+    await split([['alice', 50], ['bob', 50]]);
+    await split([['bob', 30], ['alice', 70]]);
+
+    expect((await storage.getBountySplit('789', 5)).map(share => [share.githubUsername, share.shareBps, share.setBy]))
+      .toEqual([['alice', 7000, 'manager'], ['bob', 3000, 'manager']]);
+  });
+
+  it('pays every recipient of a split in one transaction when the PR is merged', async () => {
+    await split([['alice', 60], ['bob', 40]]);
+
+    await handlePullRequestMerged(merged, 'install123');
+
+    expect(blockchain.distributeRewardSplit).toHaveBeenCalledWith(789, 5, [
+      { address: ALICE_WALLET, shareBps: 6000 },
+      { address: BOB_WALLET, shareBps: 4000 },
+    ], 3, expect.any(Function));
+    expect(blockchain.distributeReward).not.toHaveBeenCalled();
+    expect(await storage.getBountySplit('789', 5)).toEqual([
+      expect.objectContaining({ githubUsername: 'alice', status: 'paid', transactionHash: '0xsplit' }),
+      expect.objectContaining({ githubUsername: 'bob', status: 'paid', transactionHash: '0xsplit' }),
+    ]);
+    const [entry] = await payoutLedgerService.listEntries('confirmed');
+    expect(entry.recipients.map(r => [r.githubUsername, r.amount])).toEqual([['alice', '60.0'], ['bob', '40.0']]);
+  });
+
+  it('pays nobody while a split recipient has no wallet', async () => {
+    await split([['alice', 60], ['carol', 40]]);
+
+    await handlePullRequestMerged(merged, 'install123');
+
+    expect(blockchain.distributeRewardSplit).not.toHaveBeenCalled();
+    expect(blockchain.distributeReward).not.toHaveBeenCalled();
+    expect(await payoutLedgerService.listEntries()).toHaveLength(0);
+    expect((await storage.getBountySplit('789', 5)).every(share => share.status === 'pending')).toBe(true);
+  });
+
+  it('pays the PR author alone once the split was paid', async () => {
+    await split([['alice', 60], ['bob', 40]]);
+    await storage.markBountySplitPaid('789', 5, '0xearlier');
+
+    await handlePullRequestMerged(merged, 'install123');
+
+    expect(blockchain.distributeRewardSplit).not.toHaveBeenCalled();
+    expect(blockchain.distributeReward).toHaveBeenCalledWith(789, 5, ALICE_WALLET, 3, expect.any(Function));
+  });
+});
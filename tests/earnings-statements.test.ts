@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { earningsStatementService, renderStatementCsv } from '../server/services/earningsStatementService';
+import { config } from '../server/config';
+import { db } from '../server/db';
+import {
+  payoutLedger,
+  issueSponsorships,
+  referralRewards,
+  promotionalBounties,
+  promotionalSubmissions,
+  tokenPriceSnapshots
+} from '../shared/schema';
+import { createRepository, createUser } from './helpers/db';
+
+const user = { id: 7, githubUsername: 'Alice' };
+const at = (iso: string) => new Date(iso);
+
+describe('Earnings statements', () => {
+  let repositoryId: number;
+
+  beforeEach(async () => {
+    config.xdcReferenceUsdPrice = '';
+    config.roxnReferenceUsdPrice = '';
+    await createUser({ id: 7, githubUsername: 'Alice' });
+    await createUser({ id: 8, githubUsername: 'bob' });
+    repositoryId = (await createRepository({ userId: 8 })).id;
+  });
+
+  it('lists only the contributor\'s share of a split bounty, including extra currencies', async () => {
+    const recipients = [
+      { githubUsername: 'alice', address: '0xa', amount: '60', shareBps: 6000, extraAmounts: [{ currency: 'ROXN' as const, amount: '30' }] },
+      { githubUsername: 'bob', address: '0xb', amount: '40', shareBps: 4000 },
+    ];
+    const entry = { githubRepoId: '789', currency: 'USDC' as const, amount: '100', source: 'webhook-issue', recipients };
+    await db.insert(payoutLedger).values([
+      { ...entry, githubIssueNumber: 5, status: 'confirmed', confirmedAt: at('2026-02-01T10:00:00Z'), transactionHash: '0xpay' },
+      { ...entry, githubIssueNumber: 6, status: 'failed' },
+      { ...entry, githubIssueNumber: 7, status: 'confirmed', confirmedAt: at('2025-12-31T23:59:59Z') }, // Before the period
+      { ...entry, githubIssueNumber: 8, status: 'confirmed', confirmedAt: at('2026-02-01T10:00:00Z'), recipients: [recipients[1]] },
+    ]);
+
+    const statement = await earningsStatementService.build(user, '2026-01-01', '2026-12-31', 'USD');
+
+    expect(statement.lines.map(line => [line.description, line.currency, line.amount])).toEqual([
+      ['Bounty on issue #5 (60% share)', 'USDC', '60'],
+      ['Bounty on issue #5 (60% share)', 'ROXN', '30'],
+    ]);
+    expect(statement.lines[0]).toMatchObject({ repository: 'acme/widgets', fiatValue: '60.00', priceSource: 'reference' });
+    expect(statement).toMatchObject({ totalFiatValue: '60.00', unvaluedLines: 1 });
+  });
+
+  it('values each line at the latest price snapshot before it was paid', async () => {
+    await db.insert(referralRewards).values([
+      { userId: 7, rewardType: 'roxn', amount: '100.00000000', status: 'paid', paidAt: at('2026-03-01T00:00:00Z') },
+      { userId: 7, rewardType: 'roxn', amount: '100.00000000', status: 'paid', paidAt: at('2026-05-01T00:00:00Z') },
+      { userId: 7, rewardType: 'roxn', amount: '100.00000000', status: 'pending' },
+    ]);
+    await db.insert(tokenPriceSnapshots).values([
+      { currency: 'ROXN', usdPrice: '0.10', source: 'exchange', capturedAt: at('2026-02-15T00:00:00Z') },
+      { currency: 'XDC', usdPrice: '0.05', source: 'exchange', capturedAt: at('2026-04-01T00:00:00Z') },
+      { currency: 'ROXN', usdPrice: '0.20', source: 'exchange', capturedAt: at('2026-04-15T00:00:00Z') },
+    ]);
+
+    const statement = await earningsStatementService.build(user, '2026-01-01', '2026-12-31', 'EUR');
+
+    expect(statement.lines.map(line => [line.amount, line.usdPrice, line.fiatValue])).toEqual([
+      ['100', '0.10', '9.50'],
+      ['100', '0.20', '19.00'],
+    ]);
+    expect(statement.totals).toEqual([{ currency: 'ROXN', amount: '200' }]);
+    expect(statement.totalFiatValue).toBe('28.50');
+  });
+
+  it('sorts every kind of earning by when it was paid', async () => {
+    config.roxnReferenceUsdPrice = '0.1';
+    await db.insert(issueSponsorships).values({
+      githubRepoId: '789', githubIssueNumber: 9, sponsorId: 8, currency: 'USDC', amount: '25', status: 'paid',
+      recipientUsername: 'alice', resolvedAt: at('2026-06-01T00:00:00Z'), payoutTxHash: '0xsp', expiresAt: at('2026-07-01T00:00:00Z'),
+    });
+    const [bounty] = await db.insert(promotionalBounties).values({
+      repoId: repositoryId, creatorId: 8, title: 'Write a blog post', description: 'Tell people about widgets', rewardAmount: '50.00000000',
+    }).returning();
+    await db.insert(promotionalSubmissions).values({ bountyId: bounty.id, contributorId: 7, status: 'APPROVED', reviewedAt: at('2026-01-15T00:00:00Z') });
+
+    const statement = await earningsStatementService.build(user, '2026-01-01', '2026-12-31', 'USD');
+
+    expect(statement.lines.map(line => line.kind)).toEqual(['promotional', 'sponsorship']);
+    expect(statement.totalFiatValue).toBe('30.00');
+  });
+
+  it('refuses a fiat currency it has no rate for', async () => {
+    await expect(earningsStatementService.build(user, '2026-01-01', '2026-12-31', 'XYZ')).rejects.toThrow('Unsupported fiat currency XYZ');
+  });
+
+  it('escapes CSV fields that a spreadsheet would run as formulas', () => {
+    const csv = renderStatementCsv({
+      githubUsername: 'alice',
+      from: '2026-01-01',
+      to: '2026-12-31',
+      fiatCurrency: 'USD',
+      generatedAt: '2026-12-31T00:00:00.000Z',
+      lines: [{
+        paidAt: '2026-01-15T00:00:00.000Z',
+        kind: 'promotional',
+        description: 'Promotional bounty: =HYPERLINK("x")',
+        repository: '=cmd',
+        currency: 'ROXN',
+        amount: '50',
+        usdPrice: null,
+        priceSource: null,
+        fiatValue: null,
+        transactionHash: null,
+      }],
+      totals: [],
+      totalFiatValue: '0.00',
+      unvaluedLines: 1,
+    });
+
+    expect(csv.split('\r\n')[1]).toBe('2026-01-15T00:00:00.000Z,promotional,"Promotional bounty: =HYPERLINK(""x"")",\'=cmd,ROXN,50,,,,');
+  });
+});
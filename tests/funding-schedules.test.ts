@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ethers } from 'ethers';
+import { fundingScheduleService, FundingScheduleService, nextRecurringRun } from '../server/services/fundingScheduleService';
+import { limitsService } from '../server/services/limitsService';
+import { blockchain } from '../server/blockchain';
+import { storage } from '../server/storage';
+import { config } from '../server/config';
+import { db } from '../server/db';
+import { fundingSchedules, limitUsage } from '../shared/schema';
+import { createUser } from './helpers/db';
+
+vi.mock('../server/blockchain', () => ({
+  blockchain: {
+    getRepository: vi.fn(),
+    getFundingBalance: vi.fn(),
+    getRoxnAllowance: vi.fn(),
+    addUSDCFundToRepository: vi.fn(),
+  },
+}));
+
+vi.mock('../server/storage');
+vi.mock('../server/email', () => ({ sendFundingScheduleReportEmail: vi.fn() }));
+
+const NOW = new Date('2026-03-10T12:00:00Z'); // A Tuesday
+const HOUR = 60 * 60 * 1000;
+
+const schedule = async (overrides: Partial<typeof fundingSchedules.$inferInsert> = {}) => {
+  const [created] = await db.insert(fundingSchedules).values({
+    githubRepoId: '789',
+    funderId: 7,
+    kind: 'recurring',
+    currency: 'USDC',
+    amount: '100',
+    cadence: 'weekly',
+    dayOfWeek: 1,
+    nextRunAt: new Date(Date.now() - HOUR),
+    ...overrides,
+  }).returning();
+  return created;
+};
+
+const reload = async (id: number) => (await fundingScheduleService.get(id, '789'))!;
+
+describe('Funding schedules', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    config.fundingScheduleMaxFailures = 3;
+    config.fundingSchedulerIntervalSeconds = 300;
+    config.fundingTopUpCooldownHours = 24;
+    vi.mocked(storage.getUserById).mockResolvedValue({
+      id: 7, role: 'poolmanager', xdcWalletAddress: '0xfunder', walletReferenceId: 'ref', email: null,
+    } as any);
+    vi.mocked(blockchain.getRepository).mockResolvedValue({ usdcPoolRewards: '50' } as any);
+    vi.mocked(blockchain.getFundingBalance).mockResolvedValue(ethers.parseUnits('1000', 6));
+    vi.mocked(blockchain.addUSDCFundToRepository).mockResolvedValue({ hash: '0xfund' } as any);
+    await createUser({ id: 7 });
+  });
+
+  it('finds the next calendar run at midnight UTC', () => {
+    expect(nextRecurringRun({ cadence: 'daily', dayOfWeek: null, dayOfMonth: null }, NOW)).toEqual(new Date('2026-03-11T00:00:00Z'));
+    expect(nextRecurringRun({ cadence: 'weekly', dayOfWeek: 2, dayOfMonth: null }, NOW)).toEqual(new Date('2026-03-17T00:00:00Z'));
+    expect(nextRecurringRun({ cadence: 'monthly', dayOfWeek: null, dayOfMonth: 10 }, NOW)).toEqual(new Date('2026-04-10T00:00:00Z'));
+    // February has no 31st, so the run moves on to March
+    expect(nextRecurringRun({ cadence: 'monthly', dayOfWeek: null, dayOfMonth: 31 }, new Date('2026-01-31T00:00:00Z')))
+      .toEqual(new Date('2026-03-31T00:00:00Z'));
+  });
+
+  it('funds a due recurring schedule within the funding limits', async () => {
+    const { id } = await schedule();
+
+    expect(await fundingScheduleService.processDueSchedules()).toBe(1);
+
+    expect(blockchain.addUSDCFundToRepository).toHaveBeenCalledWith(789, '100', 7);
+    expect((await limitsService.getStatus('repo_funding', '789', 'USDC')).dailyUsed).toBe('100.0');
+    expect(await db.select().from(limitUsage)).toEqual([expect.objectContaining({ transactionHash: '0xfund' })]);
+    expect(await fundingScheduleService.listRuns(id)).toEqual([expect.objectContaining({ status: 'funded', amount: '100', transactionHash: '0xfund', poolBalance: '50' })]);
+    const funded = await reload(id);
+    expect(funded).toMatchObject({ lastRunStatus: 'funded', consecutiveFailures: 0 });
+    expect(funded.nextRunAt.getUTCDay()).toBe(1);
+    expect(funded.nextRunAt.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('runs a schedule once when two servers pick it up together', async () => {
+    const { id } = await schedule();
+
+    const results = await Promise.all([new FundingScheduleService().processDueSchedules(), new FundingScheduleService().processDueSchedules()]);
+
+    expect(results.sort()).toEqual([0, 1]);
+    expect(blockchain.addUSDCFundToRepository).toHaveBeenCalledTimes(1);
+    expect(await fundingScheduleService.listRuns(id)).toHaveLength(1);
+  });
+
+  it('funds only what is left of the budget on the last run and completes the schedule', async () => {
+    const { id } = await schedule({ maxTotalAmount: '250', totalFunded: '200' });
+
+    await fundingScheduleService.processDueSchedules();
+
+    expect(blockchain.addUSDCFundToRepository).toHaveBeenCalledWith(789, '50.0', 7);
+    expect(await reload(id)).toMatchObject({ status: 'completed', totalFunded: '250.000000000000000000' });
+  });
+
+  it('does not top up a pool that is still above its threshold', async () => {
+    const { id } = await schedule({ kind: 'top_up', cadence: null, dayOfWeek: null, thresholdAmount: '50' });
+
+    expect(await fundingScheduleService.processDueSchedules()).toBe(0);
+
+    expect(blockchain.addUSDCFundToRepository).not.toHaveBeenCalled();
+    expect(await fundingScheduleService.listRuns(id)).toHaveLength(0);
+    expect((await reload(id)).nextRunAt.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('skips a run the wallet cannot cover and pauses after repeated misses', async () => {
+    vi.mocked(blockchain.getFundingBalance).mockResolvedValue(ethers.parseUnits('99', 6));
+    const { id } = await schedule({ consecutiveFailures: 2 });
+
+    await fundingScheduleService.processDueSchedules();
+
+    expect(await fundingScheduleService.listRuns(id)).toEqual([
+      expect.objectContaining({ status: 'skipped', reason: 'Wallet balance of 99.0 USDC is below the 100 USDC to fund' }),
+    ]);
+    expect(await reload(id)).toMatchObject({ consecutiveFailures: 3, status: 'paused' });
+    expect(await db.select().from(limitUsage)).toHaveLength(0);
+  });
+
+  it('gives the limit reservation back when the funding transaction fails', async () => {
+    vi.mocked(blockchain.addUSDCFundToRepository).mockRejectedValue(new Error('execution reverted'));
+    const { id } = await schedule();
+
+    await fundingScheduleService.processDueSchedules();
+
+    expect((await limitsService.getStatus('repo_funding', '789', 'USDC')).dailyUsed).toBe('0.0');
+    expect(await fundingScheduleService.listRuns(id)).toEqual([expect.objectContaining({ status: 'failed', reason: 'execution reverted' })]);
+  });
+});
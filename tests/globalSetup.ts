@@ -0,0 +1,54 @@
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { PGlite } from '@electric-sql/pglite';
+import { getTableName, is } from 'drizzle-orm';
+import { PgTable } from 'drizzle-orm/pg-core';
+import type { GlobalSetupContext } from 'vitest/node';
+import * as schema from '../shared/schema';
+
+declare module 'vitest' {
+  export interface ProvidedContext {
+    testDatabaseDump: string;
+  }
+}
+
+// Tables from this migration on are created by their migrations, with the partial and composite
+// unique constraints the Drizzle schema leaves out and the services rely on for conflict handling.
+const FIRST_TABLE_MIGRATION = '0020';
+
+// Creates the older tables in an in-memory Postgres once per run, the way `db:push` would, then
+// applies the later migrations and saves the data directory so each test file can start from a
+// copy instead of running initdb again.
+export default async function setup({ provide }: GlobalSetupContext) {
+  const migrationsDirectory = path.resolve(__dirname, '../migrations');
+  const migrations: string[] = [];
+  for (const file of (await readdir(migrationsDirectory)).sort()) {
+    if (file.endsWith('.sql') && file >= FIRST_TABLE_MIGRATION) {
+      migrations.push(await readFile(path.join(migrationsDirectory, file), 'utf8'));
+    }
+  }
+  const migrated = new Set(migrations.flatMap(sql => Array.from(sql.matchAll(/CREATE TABLE IF NOT EXISTS (\w+)/g), match => match[1])));
+  const pushed = Object.fromEntries(Object.entries(schema).filter(([, value]) => !is(value, PgTable) || !migrated.has(getTableName(value))));
+
+  const { generateDrizzleJson, generateMigration } = await import('drizzle-kit/api');
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(pushed));
+
+  const client = new PGlite();
+  await client.exec(statements.join('\n'));
+  for (const migration of migrations) {
+    await client.exec(migration);
+  }
+
+  const dump = await client.dumpDataDir('none');
+  await client.close();
+
+  const directory = await mkdtemp(path.join(tmpdir(), 'roxonn-test-db-'));
+  const file = path.join(directory, 'pgdata.tar');
+  await writeFile(file, Buffer.from(await dump.arrayBuffer()));
+  provide('testDatabaseDump', file);
+
+  return async () => {
+    await rm(directory, { recursive: true, force: true });
+  };
+}
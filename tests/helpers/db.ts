@@ -0,0 +1,30 @@
+import { db } from '../../server/db';
+import { users, registeredRepositories, type User } from '../../shared/schema';
+
+// Rows most features hang off. The test database is emptied before every test (see setup.ts),
+// so each test seeds what it needs.
+
+let created = 0;
+
+export async function createUser(overrides: Partial<typeof users.$inferInsert> = {}): Promise<User> {
+  created++;
+  const githubId = overrides.githubId ?? `${overrides.id ?? 1000 + created}`;
+  const githubUsername = overrides.githubUsername ?? overrides.username ?? `user${githubId}`;
+  const [user] = await db.insert(users).values({
+    githubId,
+    username: githubUsername,
+    githubUsername,
+    githubAccessToken: 'token',
+    ...overrides,
+  }).returning();
+  return user;
+}
+
+export async function createRepository(overrides: Partial<typeof registeredRepositories.$inferInsert> = {}) {
+  const [repository] = await db.insert(registeredRepositories).values({
+    githubRepoId: '789',
+    githubRepoFullName: 'acme/widgets',
+    ...overrides,
+  }).returning();
+  return repository;
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { issueSponsorshipService } from '../server/services/issueSponsorshipService';
+import { payoutAddressService } from '../server/services/payoutAddressService';
+import { blockchain } from '../server/blockchain';
+import { storage } from '../server/storage';
+import { db } from '../server/db';
+import { issueSponsorships, type IssueSponsorship } from '../shared/schema';
+import { createUser } from './helpers/db';
+
+vi.mock('../server/blockchain', () => ({
+  blockchain: {
+    transferToSponsorshipEscrow: vi.fn(),
+    transferFromSponsorshipEscrow: vi.fn(),
+    getTransactionReceipt: vi.fn(),
+    getEscrowTransferStatus: vi.fn(),
+  },
+}));
+
+vi.mock('../server/storage');
+
+const HOUR = 60 * 60 * 1000;
+
+// A USDC pledge on issue #5, held in escrow since an hour ago
+const pledge = async (overrides: Partial<typeof issueSponsorships.$inferInsert> = {}): Promise<IssueSponsorship> => {
+  const [sponsorship] = await db.insert(issueSponsorships).values({
+    githubRepoId: '789',
+    githubIssueNumber: 5,
+    sponsorId: 7,
+    currency: 'USDC',
+    amount: '25',
+    status: 'held',
+    escrowTxHash: '0xescrow',
+    expiresAt: new Date(Date.now() + 24 * HOUR),
+    updatedAt: new Date(Date.now() - HOUR),
+    ...overrides,
+  }).returning();
+  return sponsorship;
+};
+
+const reload = async (id: number) => (await db.query.issueSponsorships.findFirst({ where: (table, { eq }) => eq(table.id, id) }))!;
+
+describe('Issue sponsorship settlement', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await createUser({ id: 7 });
+    vi.mocked(storage.getUserByGithubUsername).mockResolvedValue({ id: 9, xdcWalletAddress: 'xdc123' } as any);
+    vi.spyOn(payoutAddressService, 'resolve').mockResolvedValue({ address: '0xcontributor', source: 'custodial' } as any);
+  });
+
+  it('stores the payout hash as soon as it is broadcast, then marks the pledge paid', async () => {
+    const { id } = await pledge();
+    vi.mocked(blockchain.transferFromSponsorshipEscrow).mockImplementation(async (_currency, _to, _amount, onBroadcast) => {
+      await onBroadcast!('0xpayout');
+      expect(await reload(id)).toMatchObject({ status: 'paying', payoutTxHash: '0xpayout', payoutAddress: '0xcontributor' });
+      return { hash: '0xpayout' } as any;
+    });
+
+    const [settlement] = await issueSponsorshipService.settleIssue('789', 5, 'contributor', 'unused');
+
+    expect(settlement.outcome).toBe('paid');
+    expect(await reload(id)).toMatchObject({ status: 'paid', payoutTxHash: '0xpayout', recipientUsername: 'contributor' });
+  });
+
+  it('keeps a broadcast payout out of held when waiting for it fails, so it is never sent twice', async () => {
+    const { id } = await pledge();
+    vi.mocked(blockchain.transferFromSponsorshipEscrow).mockImplementation(async (_currency, _to, _amount, onBroadcast) => {
+      await onBroadcast!('0xpayout');
+      throw new Error('RPC timeout');
+    });
+
+    const [settlement] = await issueSponsorshipService.settleIssue('789', 5, 'contributor', 'unused');
+
+    expect(settlement.outcome).toBe('failed');
+    expect(await reload(id)).toMatchObject({ status: 'paying', payoutTxHash: '0xpayout', failureReason: 'RPC timeout' });
+    expect(await issueSponsorshipService.settleIssue('789', 5, 'contributor', 'unused')).toEqual([]);
+    expect(blockchain.transferFromSponsorshipEscrow).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns the pledge to held when the payout fails before it is broadcast', async () => {
+    const { id } = await pledge();
+    vi.mocked(blockchain.transferFromSponsorshipEscrow).mockRejectedValue(new Error('insufficient funds'));
+
+    const [settlement] = await issueSponsorshipService.settleIssue('789', 5, 'contributor', 'unused');
+
+    expect(settlement.outcome).toBe('failed');
+    expect(await reload(id)).toMatchObject({ status: 'held', payoutTxHash: null, failureReason: 'insufficient funds' });
+  });
+
+  it('settles an unconfirmed payout from its receipt instead of sending it again', async () => {
+    const { id } = await pledge({ status: 'paying', recipientUsername: 'contributor', payoutTxHash: '0xpayout' });
+    vi.mocked(blockchain.getEscrowTransferStatus).mockResolvedValue('confirmed');
+
+    const settlements = await issueSponsorshipService.processDue();
+
+    expect(blockchain.getEscrowTransferStatus).toHaveBeenCalledWith('0xpayout');
+    expect(blockchain.transferFromSponsorshipEscrow).not.toHaveBeenCalled();
+    expect(settlements.map(s => s.outcome)).toEqual(['paid']);
+    expect(await reload(id)).toMatchObject({ status: 'paid', payoutTxHash: '0xpayout' });
+  });
+
+  it('sends a payout again once the first one reverted or was dropped', async () => {
+    const { id } = await pledge({ status: 'paying', recipientUsername: 'contributor', payoutTxHash: '0xreverted' });
+    vi.mocked(blockchain.getEscrowTransferStatus).mockResolvedValue('failed');
+    vi.mocked(blockchain.transferFromSponsorshipEscrow).mockResolvedValue({ hash: '0xpayout' } as any);
+
+    const settlements = await issueSponsorshipService.processDue();
+
+    expect(settlements.map(s => s.outcome)).toEqual(['paid']);
+    expect(blockchain.transferFromSponsorshipEscrow).toHaveBeenCalledTimes(1);
+    expect(await reload(id)).toMatchObject({ status: 'paid', payoutTxHash: '0xpayout' });
+  });
+
+  it('leaves a transfer that is not mined yet for the next sweep', async () => {
+    const refunding = await pledge({ status: 'refunding', refundTxHash: '0xrefund', refundReason: 'Issue closed' });
+    vi.mocked(blockchain.getEscrowTransferStatus).mockResolvedValue(null);
+
+    expect(await issueSponsorshipService.processDue()).toEqual([]);
+
+    expect(await reload(refunding.id)).toEqual(refunding);
+  });
+
+  it('does not mark a pledge failed once its escrow transfer was broadcast', async () => {
+    vi.mocked(blockchain.transferToSponsorshipEscrow).mockImplementation(async (_userId, _currency, _amount, onBroadcast) => {
+      await onBroadcast!('0xescrow');
+      throw new Error('RPC timeout');
+    });
+
+    await expect(issueSponsorshipService.sponsor({
+      githubRepoId: '789',
+      issueNumber: 5,
+      sponsorId: 7,
+      currency: 'USDC',
+      amount: '25',
+      expiresAt: new Date(Date.now() + 24 * HOUR),
+    })).rejects.toThrow('not confirmed yet');
+
+    expect(await issueSponsorshipService.listBySponsor(7)).toEqual([
+      expect.objectContaining({ status: 'pending', escrowTxHash: '0xescrow', failureReason: 'RPC timeout' }),
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { limitsService } from '../server/services/limitsService';
+import { db } from '../server/db';
+import { limitUsage, limitDecisions } from '../shared/schema';
+import { createUser } from './helpers/db';
+
+const HOUR = 60 * 60 * 1000;
+
+const reserve = (amount: string) => limitsService.reserve({ scope: 'transfer', subjectId: '7', currency: 'USDC', amount, userId: 7 });
+
+describe('Limits engine', () => {
+  let now: number;
+
+  // Count an earlier transfer against the user's windows
+  const used = (amount: string, hoursAgo: number) => db.insert(limitUsage).values({
+    scope: 'transfer', subjectId: '7', currency: 'USDC', amount, userId: 7, createdAt: new Date(now - hoursAgo * HOUR),
+  });
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    now = Date.now();
+    await createUser({ id: 7 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('works out what is left in each rolling window and when it frees up', async () => {
+    await used('1500.5', 20);
+    await used('17499.5', 6 * 24);
+    await used('999', 8 * 24); // Outside both windows
+    await db.insert(limitUsage).values({ scope: 'transfer', subjectId: '7', currency: 'XDC', amount: '10', userId: 7 });
+
+    const status = await limitsService.getStatus('transfer', '7', 'USDC');
+
+    expect(status).toMatchObject({ dailyUsed: '1500.5', weeklyUsed: '19000.0', dailyRemaining: '3499.5', weeklyRemaining: '1000.0' });
+    expect(status.dailyResetAt).toEqual(new Date(now + 4 * HOUR));
+    expect(status.weeklyResetAt).toEqual(new Date(now + 24 * HOUR));
+  });
+
+  it('never reports a negative remainder after the cap was lowered', async () => {
+    await used('800', 1);
+    await limitsService.setOverride({
+      scope: 'transfer', subjectId: '7', currency: 'USDC', dailyLimit: '500', weeklyLimit: null, perTransactionLimit: null, setBy: 7,
+    });
+
+    const status = await limitsService.getStatus('transfer', '7', 'USDC');
+
+    expect(status).toMatchObject({ limits: { daily: '500', weekly: '20000' }, dailyRemaining: '0.0' });
+  });
+
+  it('reserves an amount that fits and audits the decision', async () => {
+    await used('4000', 1);
+
+    const result = await reserve('1000');
+
+    expect(result).toMatchObject({ allowed: true });
+    expect((await limitsService.getStatus('transfer', '7', 'USDC')).dailyRemaining).toBe('0.0');
+    expect(await limitsService.listDecisions({ subjectId: '7' })).toEqual([expect.objectContaining({ allowed: true, dailyUsed: '4000.0' })]);
+
+    await limitsService.release(result.usageId!);
+    expect((await limitsService.getStatus('transfer', '7', 'USDC')).dailyRemaining).toBe('1000.0');
+  });
+
+  it('rejects an amount over the daily remainder without reserving it', async () => {
+    await used('4000', 1);
+
+    const result = await reserve('1000.000000000000000001');
+
+    expect(result).toMatchObject({ allowed: false, reason: 'Exceeds the daily limit. Remaining today: 1000.0 USDC' });
+    expect(await db.select().from(limitUsage)).toHaveLength(1);
+    expect(await limitsService.listDecisions({ allowed: false })).toEqual([expect.objectContaining({ reason: result.reason })]);
+  });
+
+  it('checks the per-transaction cap before the windows, then the weekly window', async () => {
+    expect((await reserve('5001')).reason).toBe('Exceeds the per-transaction limit of 5000 USDC');
+
+    await used('19500', 3 * 24);
+    expect((await reserve('600')).reason).toBe('Exceeds the weekly limit. Remaining this week: 500.0 USDC');
+    expect(await db.select().from(limitDecisions)).toHaveLength(2);
+  });
+
+  it('lets concurrent requests share a window without both squeezing under the cap', async () => {
+    await used('4000', 1);
+
+    const results = await Promise.all([reserve('600'), reserve('600')]);
+
+    expect(results.map(result => result.allowed).sort()).toEqual([false, true]);
+  });
+});
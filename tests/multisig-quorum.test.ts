@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { multisigService, MultisigPolicyError } from '../server/services/multisigService';
+import { storage } from '../server/storage';
+import type { MultisigPolicy } from '../shared/schema';
+import { createUser } from './helpers/db';
+
+vi.mock('../server/storage');
+vi.mock('../server/blockchain', () => ({ blockchain: {} }));
+
+const managers = [
+  { id: 1, githubUsername: 'alice' },
+  { id: 2, githubUsername: 'bob' },
+  { id: 3, githubUsername: 'carol' },
+];
+
+const policy = { githubRepoId: '789', requiredApprovals: 2, thresholds: { USDC: '100' }, enabled: true } as MultisigPolicy;
+
+const propose = (proposer: { id: number; githubUsername: string } | null = managers[0]) => multisigService.propose({
+  githubRepoId: '789',
+  issueNumber: 5,
+  action: 'allocate',
+  amounts: [{ amount: '500', currency: 'USDC' }],
+  source: 'dashboard',
+  proposer,
+  signerId: 1,
+  policy,
+});
+
+describe('Multisig quorum', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    for (const manager of [...managers, { id: 9, githubUsername: 'mallory' }]) {
+      await createUser(manager);
+    }
+    vi.mocked(storage.getRepositoryPoolManagers).mockResolvedValue(managers as any);
+  });
+
+  it('refuses a policy that needs more approvals than there are pool managers', async () => {
+    await expect(multisigService.setPolicy('789', { requiredApprovals: 4, thresholds: {}, enabled: true }, 1))
+      .rejects.toThrow(MultisigPolicyError);
+    expect(await multisigService.getPolicy('789')).toBeNull();
+
+    await multisigService.setPolicy('789', { requiredApprovals: 3, thresholds: {}, enabled: true }, 1);
+    expect(await multisigService.getPolicy('789')).toMatchObject({ requiredApprovals: 3 });
+  });
+
+  it('refuses to propose once pool managers were removed below the quorum, instead of lowering it', async () => {
+    vi.mocked(storage.getRepositoryPoolManagers).mockResolvedValue([managers[0]] as any);
+
+    await expect(propose()).rejects.toThrow('needs 2 approvals, but the repository has 1 pool manager');
+    expect(await multisigService.listProposals('789')).toHaveLength(0);
+  });
+
+  it('counts the proposer as the first approval and reaches the quorum on the second', async () => {
+    const proposed = await propose();
+    expect(proposed).toMatchObject({ quorumReached: false, proposal: { requiredApprovals: 2 } });
+
+    const vote = await multisigService.vote(proposed.proposal.id, '789', managers[1], 'approve');
+
+    expect(vote).toMatchObject({ success: true, quorumReached: true, proposal: { status: 'approved' } });
+  });
+
+  it('does not count a second vote from the same manager', async () => {
+    const { proposal } = await propose();
+
+    expect(await multisigService.vote(proposal.id, '789', managers[0], 'approve')).toEqual({ success: false, error: 'already_voted' });
+    expect(await multisigService.getProposal(proposal.id, '789')).toMatchObject({ status: 'pending' });
+    expect(await multisigService.listVotes(proposal.id)).toHaveLength(1);
+  });
+
+  it('rejects a proposal once the quorum can no longer be reached', async () => {
+    const { proposal } = await propose(null);
+
+    await multisigService.vote(proposal.id, '789', managers[0], 'reject');
+    expect(await multisigService.getProposal(proposal.id, '789')).toMatchObject({ status: 'pending' });
+    const vote = await multisigService.vote(proposal.id, '789', managers[1], 'reject');
+
+    expect(vote).toMatchObject({ success: true, quorumReached: false, proposal: { status: 'rejected' } });
+  });
+
+  it('only lets pool managers vote', async () => {
+    const { proposal } = await propose(null);
+
+    expect(await multisigService.vote(proposal.id, '789', { id: 9, githubUsername: 'mallory' }, 'approve'))
+      .toEqual({ success: false, error: 'not_pool_manager' });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { ethers } from 'ethers';
+import { payoutAddressService } from '../server/services/payoutAddressService';
+import { db } from '../server/db';
+import { walletLinkChallenges } from '../shared/schema';
+import { createUser } from './helpers/db';
+
+const CUSTODIAL = 'xdc00000000000000000000000000000000000000a1';
+
+// Ask for a challenge for the wallet and sign it with `signer`, the wallet itself unless given
+async function signChallenge(userId: number, wallet: ethers.Wallet, signer: ethers.Wallet = wallet) {
+  const { nonce, message } = await payoutAddressService.createChallenge(userId, wallet.address);
+  return { nonce, signature: await signer.signMessage(message) };
+}
+
+describe('Payout addresses', () => {
+  let alice: Awaited<ReturnType<typeof createUser>>;
+  let bob: Awaited<ReturnType<typeof createUser>>;
+  let wallet: ethers.Wallet;
+
+  beforeEach(async () => {
+    alice = await createUser({ id: 1, githubUsername: 'alice', xdcWalletAddress: CUSTODIAL });
+    bob = await createUser({ id: 2, githubUsername: 'bob' });
+    wallet = ethers.Wallet.createRandom() as unknown as ethers.Wallet;
+  });
+
+  it('issues a Sign-In with Ethereum message for the XDC chain', async () => {
+    const { nonce, message } = await payoutAddressService.createChallenge(alice.id, 'xdc' + wallet.address.slice(2).toLowerCase());
+
+    expect(message).toContain(`wants you to sign in with your Ethereum account:\n${wallet.address}\n`);
+    expect(message).toContain('Chain ID: 50');
+    expect(message).toContain(`Nonce: ${nonce}`);
+  });
+
+  it('links a wallet its owner signed for and pays there instead of the custodial wallet', async () => {
+    const { nonce, signature } = await signChallenge(alice.id, wallet);
+
+    expect(await payoutAddressService.link(alice.id, nonce, signature)).toMatchObject({ success: true, wallet: { address: wallet.address } });
+    expect(await payoutAddressService.resolve(alice)).toEqual({ address: wallet.address, source: 'linked' });
+  });
+
+  it('rejects a signature from another wallet', async () => {
+    const { nonce, signature } = await signChallenge(alice.id, wallet, ethers.Wallet.createRandom() as unknown as ethers.Wallet);
+
+    expect(await payoutAddressService.link(alice.id, nonce, signature)).toEqual({ success: false, error: 'bad_signature' });
+    expect(await payoutAddressService.getLinkedWallet(alice.id)).toBeNull();
+  });
+
+  it('does not accept a nonce twice, even after a bad signature', async () => {
+    const { nonce, signature } = await signChallenge(alice.id, wallet);
+    expect(await payoutAddressService.link(alice.id, nonce, '0xdeadbeef')).toEqual({ success: false, error: 'bad_signature' });
+
+    expect(await payoutAddressService.link(alice.id, nonce, signature)).toEqual({ success: false, error: 'invalid_challenge' });
+  });
+
+  it('does not accept an expired nonce', async () => {
+    const { nonce, signature } = await signChallenge(alice.id, wallet);
+    await db.update(walletLinkChallenges).set({ expiresAt: new Date(Date.now() - 1000) }).where(eq(walletLinkChallenges.nonce, nonce));
+
+    expect(await payoutAddressService.link(alice.id, nonce, signature)).toEqual({ success: false, error: 'invalid_challenge' });
+  });
+
+  it('does not let a user spend another user\'s nonce', async () => {
+    const { nonce, signature } = await signChallenge(alice.id, wallet);
+
+    expect(await payoutAddressService.link(bob.id, nonce, signature)).toEqual({ success: false, error: 'invalid_challenge' });
+    expect(await payoutAddressService.link(alice.id, nonce, signature)).toMatchObject({ success: true });
+  });
+
+  it('does not link an address another account already has', async () => {
+    const first = await signChallenge(alice.id, wallet);
+    await payoutAddressService.link(alice.id, first.nonce, first.signature);
+
+    const second = await signChallenge(bob.id, wallet);
+    expect(await payoutAddressService.link(bob.id, second.nonce, second.signature)).toEqual({ success: false, error: 'address_in_use' });
+    expect(await payoutAddressService.resolve(bob)).toBeNull();
+  });
+
+  it('falls back to the custodial wallet after unlinking, and remembers both for earnings', async () => {
+    const { nonce, signature } = await signChallenge(alice.id, wallet);
+    await payoutAddressService.link(alice.id, nonce, signature);
+
+    expect(await payoutAddressService.unlink(alice.id)).toMatchObject({ address: wallet.address });
+
+    expect(await payoutAddressService.resolve(alice)).toEqual({ address: CUSTODIAL, source: 'custodial' });
+    expect(await payoutAddressService.getKnownAddresses(alice)).toEqual([wallet.address, CUSTODIAL]);
+    expect(await payoutAddressService.unlink(alice.id)).toBeNull();
+  });
+});
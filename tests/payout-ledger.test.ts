@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { asc, eq } from 'drizzle-orm';
+import { payoutLedgerService } from '../server/services/payoutLedgerService';
+import { blockchain } from '../server/blockchain';
+import { db } from '../server/db';
+import { payoutLedger } from '../shared/schema';
+
+const payout = {
+  githubRepoId: '789',
+  issueNumber: 5,
+  currency: 'XDC' as const,
+  amount: '10',
+  recipients: [{ githubUsername: 'contributor', address: '0xabc', shareBps: 10000, amount: '10' }],
+  source: 'test',
+};
+
+const receipt = (hash: string) => ({ hash, gasUsed: BigInt(21000) }) as any;
+
+const entries = () => db.select().from(payoutLedger).orderBy(asc(payoutLedger.id));
+
+// Sends the transaction, then loses track of it before the receipt arrives
+const sendThenTimeOut = (hash: string) => async (onBroadcast: (txHash: string) => Promise<void>) => {
+  await onBroadcast(hash);
+  throw new Error('Timed out waiting for receipt');
+};
+
+const leaveStale = () => db.update(payoutLedger).set({ updatedAt: new Date(Date.now() - 20 * 60 * 1000) });
+
+describe('Payout ledger', () => {
+  beforeEach(() => {
+    vi.spyOn(blockchain, 'getTransactionReceipt').mockResolvedValue(null);
+    vi.spyOn(blockchain, 'getRewardEvents').mockResolvedValue([]);
+    vi.spyOn(blockchain, 'getIssueRewards').mockResolvedValue([]);
+  });
+
+  it('does not send a payout twice while the first one is in flight', async () => {
+    let finish!: () => void;
+    const firstSend = vi.fn(() => new Promise<any>(resolve => { finish = () => resolve(receipt('0x1')); }));
+    const secondSend = vi.fn();
+
+    const first = payoutLedgerService.runPayout(payout, firstSend);
+    await vi.waitFor(() => expect(firstSend).toHaveBeenCalled());
+    expect(await payoutLedgerService.hasPayoutInFlight('789', 5)).toBe(true);
+    const second = await payoutLedgerService.runPayout(payout, secondSend);
+    finish();
+
+    expect(second).toBeNull();
+    expect(secondSend).not.toHaveBeenCalled();
+    expect((await first)?.entry.allocationSeq).toBe(1);
+    expect(await entries()).toEqual([expect.objectContaining({ status: 'confirmed', transactionHash: '0x1', gasUsed: '21000' })]);
+    expect(await payoutLedgerService.hasPayoutInFlight('789', 5)).toBe(false);
+  });
+
+  it('retries a failed payout on the same entry', async () => {
+    await expect(payoutLedgerService.runPayout(payout, async () => { throw new Error('reverted'); })).rejects.toThrow('reverted');
+    expect(await entries()).toEqual([expect.objectContaining({ status: 'failed', lastError: 'reverted' })]);
+
+    const retried = await payoutLedgerService.runPayout(payout, async () => receipt('0x2'));
+
+    expect(retried?.entry.attempts).toBe(2);
+    expect(await entries()).toEqual([expect.objectContaining({ id: retried?.entry.id, status: 'confirmed', transactionHash: '0x2', attempts: 2 })]);
+  });
+
+  it('pays a later allocation on the same issue under its own entry', async () => {
+    await payoutLedgerService.runPayout(payout, async () => receipt('0x1'));
+
+    const next = await payoutLedgerService.runPayout({ ...payout, amount: '20' }, async () => receipt('0x2'));
+
+    expect(next?.entry.allocationSeq).toBe(2);
+    expect((await entries()).map(row => [row.allocationSeq, row.status, row.transactionHash])).toEqual([
+      [1, 'confirmed', '0x1'],
+      [2, 'confirmed', '0x2'],
+    ]);
+  });
+
+  it('lists confirmed payouts to any of a contributor\'s addresses as earnings', async () => {
+    await payoutLedgerService.runPayout({
+      ...payout,
+      recipients: [
+        { githubUsername: 'contributor', address: '0xabc', shareBps: 7000, amount: '7' },
+        { githubUsername: 'reviewer', address: '0xdef', shareBps: 3000, amount: '3' },
+      ],
+    }, async () => receipt('0x1'));
+    await expect(payoutLedgerService.runPayout({ ...payout, issueNumber: 6 }, async () => { throw new Error('reverted'); })).rejects.toThrow();
+
+    expect(await payoutLedgerService.getEarnings(['0xlinked', '0xabc'])).toEqual([
+      expect.objectContaining({ issueNumber: 5, amount: '7', shareBps: 7000, transactionHash: '0x1' }),
+    ]);
+    expect(await payoutLedgerService.getStatusCounts()).toEqual({ pending: 0, submitted: 0, confirmed: 1, failed: 1 });
+  });
+
+  it('keeps a payout that was sent but not confirmed in flight instead of failing it', async () => {
+    await expect(payoutLedgerService.runPayout(payout, sendThenTimeOut('0x1'))).rejects.toThrow('Payout was sent (TX 0x1) but is not confirmed yet');
+
+    expect(await entries()).toEqual([expect.objectContaining({ status: 'submitted', transactionHash: '0x1', lastError: 'Timed out waiting for receipt' })]);
+    expect(await payoutLedgerService.hasPayoutInFlight('789', 5)).toBe(true);
+    const retry = vi.fn();
+    expect(await payoutLedgerService.runPayout(payout, retry)).toBeNull();
+    expect(retry).not.toHaveBeenCalled();
+  });
+
+  it('settles stale payouts from their receipts and the reward events', async () => {
+    await expect(payoutLedgerService.runPayout(payout, sendThenTimeOut('0x1'))).rejects.toThrow();
+    await expect(payoutLedgerService.runPayout({ ...payout, issueNumber: 6 }, sendThenTimeOut('0x2'))).rejects.toThrow();
+    await expect(payoutLedgerService.runPayout({ ...payout, issueNumber: 7 }, sendThenTimeOut('0x3'))).rejects.toThrow();
+    await leaveStale();
+    vi.mocked(blockchain.getTransactionReceipt).mockImplementation(async hash => ({
+      hash, status: hash === '0x2' ? 0 : 1, blockNumber: 10, gasUsed: BigInt(21000),
+    }) as any);
+    // 0x3 was mined, but the relayed call into the rewards contract failed
+    vi.mocked(blockchain.getRewardEvents).mockResolvedValue([
+      { name: 'RewardDistributed', repoId: '789', issueId: 5, transactionHash: '0x1' } as any,
+    ]);
+
+    expect(await payoutLedgerService.settleStale()).toBe(3);
+
+    expect((await entries()).map(row => [row.githubIssueNumber, row.status, row.lastError])).toEqual([
+      [5, 'confirmed', 'Timed out waiting for receipt'],
+      [6, 'failed', 'Transaction 0x2 did not distribute the reward'],
+      [7, 'failed', 'Transaction 0x3 did not distribute the reward'],
+    ]);
+  });
+
+  it('leaves a stale payout in flight until the chain shows how it ended', async () => {
+    await expect(payoutLedgerService.runPayout(payout, sendThenTimeOut('0x1'))).rejects.toThrow();
+    await leaveStale();
+
+    expect(await payoutLedgerService.settleStale()).toBe(0);
+    expect(await payoutLedgerService.hasPayoutInFlight('789', 5)).toBe(true);
+  });
+
+  it('fails an interrupted payout that never reached the chain', async () => {
+    const [entry] = await db.insert(payoutLedger).values({
+      githubRepoId: '789', githubIssueNumber: 5, status: 'submitted', currency: 'XDC', amount: '10',
+      recipients: payout.recipients, source: 'test', submittedAt: new Date(), updatedAt: new Date(Date.now() - 20 * 60 * 1000),
+    }).returning();
+    vi.mocked(blockchain.getIssueRewards).mockResolvedValue([{ issueId: '5', status: 'Allocated' }] as any);
+
+    expect(await payoutLedgerService.settleStale()).toBe(1);
+
+    expect(await payoutLedgerService.hasPayoutInFlight('789', 5)).toBe(false);
+    expect((await entries())[0]).toMatchObject({ id: entry.id, status: 'failed', lastError: 'Payout was never sent: the bounty is still allocated on-chain' });
+  });
+
+  it('lets an admin resolve a payout that is still in flight', async () => {
+    await expect(payoutLedgerService.runPayout(payout, sendThenTimeOut('0x1'))).rejects.toThrow();
+    const [{ id }] = await entries();
+
+    expect(await payoutLedgerService.resolve(id, 'confirmed', { transactionHash: '0x1', note: 'Checked on the explorer' }))
+      .toMatchObject({ status: 'confirmed', transactionHash: '0x1', lastError: 'Checked on the explorer' });
+    expect(await payoutLedgerService.resolve(id, 'failed', { note: 'Changed my mind' })).toBeNull();
+    expect((await db.select().from(payoutLedger).where(eq(payoutLedger.id, id)))[0].status).toBe('confirmed');
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { aiMeteringService, InsufficientPromptsError, PromptCapExceededError } from '../server/services/aiMeteringService';
+import { promptOrganizationService, PromptOrganizationError, startOfMonthUtc } from '../server/services/promptOrganizationService';
+import { storage } from '../server/storage';
+import { db } from '../server/db';
+import { aiUsageAuthorizations, type AiModel } from '../shared/schema';
+import { createUser } from './helpers/db';
+
+vi.mock('../server/storage');
+vi.mock('../server/blockchain', () => ({ blockchain: {} }));
+
+const model = { modelId: 'gpt-4.1', promptCost: 1, inputRate: '1', outputRate: '2' } as AiModel;
+
+// With no input, 2000 output tokens cost 4 prompts at these rates
+const authorize = () => aiMeteringService.authorize(7, model, { messages: [], max_tokens: 2000 });
+
+const poolBalance = async (organizationId: number) => (await promptOrganizationService.getOrganization(organizationId))!.promptBalance;
+
+describe('Organisation prompt pools', () => {
+  let organizationId: number;
+  let memberId: number;
+
+  // Prompts the member already used from the pool
+  const used = (chargedPrompts: number, createdAt = new Date()) => db.insert(aiUsageAuthorizations).values({
+    userId: 7, organizationId, model: 'gpt-4.1', estimatedInputTokens: 0, estimatedOutputTokens: 0,
+    authorizedPrompts: chargedPrompts, chargedPrompts, status: 'settled', createdAt,
+  });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await createUser({ id: 1, githubUsername: 'admin' });
+    await createUser({ id: 7, githubUsername: 'alice' });
+    organizationId = (await promptOrganizationService.create('Acme', { id: 1, githubUsername: 'admin' })).id;
+    await promptOrganizationService.adminAdjust(organizationId, 100, 'Opening balance', 1);
+    const invite = await promptOrganizationService.invite({ organizationId, githubUsername: 'alice', role: 'member', monthlyPromptCap: null, invitedBy: 1 });
+    memberId = invite!.id;
+    await promptOrganizationService.accept(memberId, { id: 7, githubUsername: 'alice' });
+  });
+
+  it('holds a member\'s request against the pool, not their own balance', async () => {
+    const authorization = await authorize();
+
+    expect(authorization).toMatchObject({ organizationId, authorizedPrompts: 4 });
+    expect(await poolBalance(organizationId)).toBe(96);
+    expect((await promptOrganizationService.listTransactions(organizationId))[0])
+      .toMatchObject({ transactionType: 'usage_vscode_ai_hold', promptsChanged: -4, balanceAfterTx: 96, userId: 7 });
+    expect(storage.adjustUserPromptBalance).not.toHaveBeenCalled();
+  });
+
+  it('lets a member use their monthly cap exactly, and no further', async () => {
+    await promptOrganizationService.updateMember(memberId, organizationId, { role: 'member', monthlyPromptCap: 100 });
+    await used(96);
+    await used(50, new Date(startOfMonthUtc().getTime() - 1000)); // Last month
+    await authorize();
+
+    await expect(authorize()).rejects.toThrow(PromptCapExceededError);
+
+    expect(await poolBalance(organizationId)).toBe(96);
+    expect(await promptOrganizationService.getMonthlyUsage(organizationId, 7)).toBe(100);
+  });
+
+  it('refuses a member whose access was revoked after the lookup', async () => {
+    const membership = await promptOrganizationService.getActiveMembership(7);
+    vi.spyOn(promptOrganizationService, 'getActiveMembership').mockImplementationOnce(async () => {
+      await promptOrganizationService.revoke(memberId, organizationId);
+      return membership;
+    });
+
+    await expect(authorize()).rejects.toThrow(InsufficientPromptsError);
+    expect(await db.select().from(aiUsageAuthorizations)).toHaveLength(0);
+    expect(await poolBalance(organizationId)).toBe(100);
+  });
+
+  it('names the pool when it cannot cover the request', async () => {
+    await promptOrganizationService.adminAdjust(organizationId, -97, 'Correction', 1);
+
+    await expect(authorize()).rejects.toThrow('This request needs up to 4 prompts, but the Acme pool is 3');
+  });
+
+  it('counts the month from the first day in UTC', () => {
+    expect(startOfMonthUtc(new Date('2026-03-31T23:30:00-05:00'))).toEqual(new Date('2026-04-01T00:00:00Z'));
+  });
+
+  it('moves deposited prompts from the member into the pool', async () => {
+    vi.mocked(storage.adjustUserPromptBalance).mockResolvedValue({ success: true, newBalance: 20 });
+
+    expect(await promptOrganizationService.deposit(organizationId, 7, 30)).toEqual({ userBalance: 20, poolBalance: 130 });
+    expect(storage.adjustUserPromptBalance).toHaveBeenCalledWith(expect.anything(), 7, -30, 'organization_deposit', `Deposited into organisation ${organizationId}`);
+
+    vi.mocked(storage.adjustUserPromptBalance).mockResolvedValue({ success: false, error: 'Insufficient prompts for deduction' });
+    await expect(promptOrganizationService.deposit(organizationId, 7, 30)).rejects.toThrow(PromptOrganizationError);
+    expect(await poolBalance(organizationId)).toBe(130);
+  });
+
+  it('never takes a pool below zero', async () => {
+    await expect(promptOrganizationService.adminAdjust(organizationId, -101, 'Correction', 1)).rejects.toThrow('Insufficient prompts for deduction');
+
+    expect(await poolBalance(organizationId)).toBe(100);
+    expect(await promptOrganizationService.listTransactions(organizationId)).toHaveLength(1);
+  });
+
+  it('keeps a user active in only one organisation', async () => {
+    await expect(promptOrganizationService.create('Other', { id: 7, githubUsername: 'alice' }))
+      .rejects.toThrow('You are already a member of an organisation');
+  });
+});
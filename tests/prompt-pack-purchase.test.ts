@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { promptPackService, PromptPackPurchaseError } from '../server/services/promptPackService';
+import { blockchain } from '../server/blockchain';
+import { storage } from '../server/storage';
+import { db } from '../server/db';
+import { promptPackPurchases, promptPacks } from '../shared/schema';
+import { createUser } from './helpers/db';
+
+vi.mock('../server/blockchain', () => ({
+  blockchain: {
+    transferToTreasury: vi.fn(),
+    getTransactionReceipt: vi.fn(),
+  },
+}));
+
+vi.mock('../server/storage');
+vi.mock('../server/onrampCryptoService', () => ({ onrampCryptoService: { getOrderStatus: vi.fn() } }));
+vi.mock('../server/onrampMerchant', () => ({ onrampMerchantService: { isSuccessStatus: vi.fn() } }));
+vi.mock('../server/onrampService', () => ({ onrampService: { createTransaction: vi.fn() } }));
+
+const USER_ID = 7;
+
+const purchases = () => promptPackService.listPurchases(USER_ID);
+
+const sentButUnconfirmed = () => vi.mocked(blockchain.transferToTreasury).mockImplementation(async (_userId, _currency, _amount, _action, onBroadcast) => {
+  await onBroadcast!('0xpay');
+  throw new Error('RPC timeout');
+});
+
+describe('Prompt pack purchases', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await createUser({ id: USER_ID });
+    await db.insert(promptPacks).values({ id: 'starter', name: 'Starter', promptAmount: 100, priceMicros: 5_000_000, currencyCode: 'USD' });
+    vi.mocked(storage.adjustUserPromptBalance).mockResolvedValue({ success: true, newBalance: 100 } as any);
+  });
+
+  it('stores the transfer hash when it is sent, then credits the prompts', async () => {
+    vi.mocked(blockchain.transferToTreasury).mockImplementation(async (_userId, _currency, _amount, _action, onBroadcast) => {
+      await onBroadcast!('0xpay');
+      expect(await purchases()).toEqual([expect.objectContaining({ status: 'pending', txHash: '0xpay' })]);
+      return { hash: '0xpay' } as any;
+    });
+
+    const purchase = await promptPackService.purchaseWithWallet(USER_ID, 'starter');
+
+    expect(purchase).toMatchObject({ status: 'credited', txHash: '0xpay', priceUsdc: '5.0', promptAmount: 100 });
+    expect(blockchain.transferToTreasury).toHaveBeenCalledWith(USER_ID, 'USDC', '5.0', 'prompt_pack_purchase', expect.any(Function));
+    expect(storage.adjustUserPromptBalance).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves a sent payment pending when it cannot be confirmed', async () => {
+    sentButUnconfirmed();
+
+    await expect(promptPackService.purchaseWithWallet(USER_ID, 'starter')).rejects.toThrow(PromptPackPurchaseError);
+
+    expect(await purchases()).toEqual([expect.objectContaining({ status: 'pending', txHash: '0xpay' })]);
+    expect(storage.adjustUserPromptBalance).not.toHaveBeenCalled();
+  });
+
+  it('fails a purchase whose payment was never sent', async () => {
+    vi.mocked(blockchain.transferToTreasury).mockRejectedValue(new Error('insufficient USDC'));
+
+    await expect(promptPackService.purchaseWithWallet(USER_ID, 'starter')).rejects.toThrow('insufficient USDC');
+
+    expect(await purchases()).toEqual([expect.objectContaining({ status: 'failed', failureReason: 'insufficient USDC' })]);
+  });
+
+  it('keeps a wallet purchase pending until its transfer is mined, then credits it once', async () => {
+    sentButUnconfirmed();
+    await expect(promptPackService.purchaseWithWallet(USER_ID, 'starter')).rejects.toThrow();
+    const [{ id }] = await purchases();
+
+    vi.mocked(blockchain.getTransactionReceipt).mockResolvedValue(null);
+    expect(await promptPackService.verifyPurchase(USER_ID, id)).toMatchObject({ status: 'pending' });
+    expect(storage.adjustUserPromptBalance).not.toHaveBeenCalled();
+
+    vi.mocked(blockchain.getTransactionReceipt).mockResolvedValue({ status: 1 } as any);
+    expect(await promptPackService.verifyPurchase(USER_ID, id)).toMatchObject({ status: 'credited' });
+    expect(await promptPackService.verifyPurchase(USER_ID, id)).toMatchObject({ status: 'credited' });
+
+    expect(blockchain.getTransactionReceipt).toHaveBeenCalledWith('0xpay');
+    expect(storage.adjustUserPromptBalance).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails a wallet purchase whose transfer reverted', async () => {
+    sentButUnconfirmed();
+    await expect(promptPackService.purchaseWithWallet(USER_ID, 'starter')).rejects.toThrow();
+    const [{ id }] = await purchases();
+    vi.mocked(blockchain.getTransactionReceipt).mockResolvedValue({ status: 0 } as any);
+
+    await expect(promptPackService.verifyPurchase(USER_ID, id)).rejects.toThrow('failed on chain');
+
+    expect(await purchases()).toEqual([expect.objectContaining({ status: 'failed' })]);
+    expect(storage.adjustUserPromptBalance).not.toHaveBeenCalled();
+  });
+
+  it('credits an Onramp payment once however often the webhook repeats', async () => {
+    await db.insert(promptPackPurchases).values({
+      userId: USER_ID, packId: 'starter', promptAmount: 100, priceUsdc: '5.0', paymentMethod: 'onramp_merchant', merchantRecognitionId: 'pp-7',
+    });
+
+    await promptPackService.handleOnrampPayment('pp-7', { orderId: 'order-1', paidUsdc: '5' });
+    await promptPackService.handleOnrampPayment('pp-7', { orderId: 'order-1', paidUsdc: '5' });
+
+    expect(await purchases()).toEqual([expect.objectContaining({ status: 'credited', onrampOrderId: 'order-1' })]);
+    expect(storage.adjustUserPromptBalance).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { reconciliationService } from '../server/services/reconciliationService';
+import { blockchain, type RewardContractEvent } from '../server/blockchain';
+import { storage } from '../server/storage';
+import { config } from '../server/config';
+import { db } from '../server/db';
+import { chainRewardEvents, multiCurrencyBounties, reconciliationRuns } from '../shared/schema';
+import { createRepository } from './helpers/db';
+
+vi.mock('../server/blockchain', () => ({
+  blockchain: {
+    getBlockNumber: vi.fn(),
+    getRewardEvents: vi.fn(),
+    getRepository: vi.fn(),
+  },
+}));
+
+vi.mock('../server/storage');
+
+const event = (name: RewardContractEvent['name'], blockNumber: number, amount = BigInt(10_000_000)): RewardContractEvent => ({
+  name,
+  repoId: '789',
+  issueId: name.endsWith('FundAddedToRepository') ? null : 5,
+  currency: 'USDC',
+  amount,
+  address: null,
+  blockNumber,
+  transactionHash: `0x${blockNumber}`,
+  logIndex: 0,
+});
+
+// Events an earlier run already stored
+const stored = (...events: RewardContractEvent[]) => db.insert(chainRewardEvents).values(events.map(e => ({
+  eventName: e.name,
+  githubRepoId: e.repoId,
+  githubIssueNumber: e.issueId,
+  currency: e.currency,
+  amount: e.amount.toString(),
+  address: e.address,
+  blockNumber: e.blockNumber,
+  transactionHash: e.transactionHash,
+  logIndex: e.logIndex,
+})));
+
+const bounty = (status: 'allocated' | 'distributed') => db.insert(multiCurrencyBounties).values({
+  repoId: '789', issueId: 5, currencyType: 'USDC', network: 'xdc', amount: '10.0', status,
+});
+
+describe('Reconciliation', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    config.reconciliationStartBlock = 100;
+    config.reconciliationMaxBlocksPerRun = 200000;
+    config.reconciliationBlockChunk = 5000;
+    await createRepository();
+    await db.insert(reconciliationRuns).values({ status: 'completed', fromBlock: 100, toBlock: 999 });
+    await stored(event('USDCFundAddedToRepository', 900, BigInt(20_000_000)), event('RewardAllocated', 950));
+    vi.mocked(blockchain.getRewardEvents).mockResolvedValue([]);
+    vi.mocked(blockchain.getRepository).mockResolvedValue({ xdcPoolRewards: '0.0', roxnPoolRewards: '0.0', usdcPoolRewards: '10.0' } as any);
+  });
+
+  it('only replays events while it is still catching up with the chain', async () => {
+    vi.mocked(blockchain.getBlockNumber).mockResolvedValue(5_000_000);
+
+    const run = await reconciliationService.run();
+
+    expect(blockchain.getRewardEvents).toHaveBeenCalledWith(1000, 5999);
+    expect(blockchain.getRepository).not.toHaveBeenCalled();
+    expect(storage.upsertMultiCurrencyBounty).not.toHaveBeenCalled();
+    expect(run).toMatchObject({ status: 'completed', fromBlock: 1000, toBlock: 200999, mismatches: [] });
+  });
+
+  it('reads pool balances at the last replayed block once caught up', async () => {
+    vi.mocked(blockchain.getBlockNumber).mockResolvedValue(1000);
+    await bounty('allocated');
+
+    const run = await reconciliationService.run();
+
+    expect(blockchain.getRepository).toHaveBeenCalledWith(789, 1000);
+    expect(run?.mismatches).toEqual([]);
+    expect(await reconciliationService.getPoolBalances()).toEqual([
+      expect.objectContaining({ githubRepoId: '789', usdcBalance: '10.0', onChainUsdcBalance: '10.0', hasMismatch: false, lastEventBlock: 950 }),
+    ]);
+  });
+
+  it('closes an open bounty the chain has distributed', async () => {
+    vi.mocked(blockchain.getBlockNumber).mockResolvedValue(1000);
+    vi.mocked(blockchain.getRewardEvents).mockResolvedValue([event('RewardDistributed', 990)]);
+    await bounty('allocated');
+
+    const run = await reconciliationService.run();
+
+    expect(storage.upsertMultiCurrencyBounty).toHaveBeenCalledWith(expect.objectContaining({ status: 'distributed', amount: '10.0', transactionHash: '0x990' }));
+    expect(run).toMatchObject({ eventsProcessed: 1 });
+    expect(run?.mismatches).toEqual([expect.objectContaining({ type: 'bounty_state', expected: 'distributed', actual: 'allocated', resolved: true })]);
+  });
+
+  it('reports a distributed bounty the chain shows as allocated instead of reopening it', async () => {
+    vi.mocked(blockchain.getBlockNumber).mockResolvedValue(1000);
+    await bounty('distributed');
+
+    const run = await reconciliationService.run();
+
+    expect(storage.upsertMultiCurrencyBounty).not.toHaveBeenCalled();
+    expect(run?.mismatches).toEqual([expect.objectContaining({ type: 'bounty_state', expected: 'allocated', actual: 'distributed', resolved: false })]);
+  });
+
+  it('does not start from block 0 when no start block is configured', async () => {
+    await db.delete(reconciliationRuns);
+    config.reconciliationStartBlock = 0;
+
+    expect(await reconciliationService.run()).toBeNull();
+    expect(blockchain.getBlockNumber).not.toHaveBeenCalled();
+  });
+});
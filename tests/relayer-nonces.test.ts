@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ethers } from 'ethers';
+import { RelayerTransactionService } from '../server/services/relayerTransactionService';
+import { db } from '../server/db';
+import { config } from '../server/config';
+import { relayerTransactions } from '../shared/schema';
+
+const RELAYER = '0x0000000000000000000000000000000000000001';
+const TARGET = '0x0000000000000000000000000000000000000002';
+const GWEI = BigInt(1_000_000_000);
+
+describe('Relayer nonce management', () => {
+  let service: RelayerTransactionService;
+  let provider: Record<string, ReturnType<typeof vi.fn>>;
+  let sendTransaction: ReturnType<typeof vi.fn>;
+
+  const send = (purpose: string) => service.send({ to: TARGET, data: '0x', gasLimit: BigInt(100_000), gasPrice: BigInt(10) * GWEI }, purpose);
+
+  // A transaction the relayer sent earlier and has not seen mined
+  const recordPending = (nonce: number, overrides: Partial<typeof relayerTransactions.$inferInsert> = {}) => db.insert(relayerTransactions).values({
+    purpose: 'earlier',
+    fromAddress: RELAYER,
+    toAddress: TARGET,
+    data: '0x',
+    nonce,
+    gasLimit: '100000',
+    gasPrice: (BigInt(10) * GWEI).toString(),
+    transactionHash: `0xearlier${nonce}`,
+    broadcastHashes: [`0xearlier${nonce}`],
+    ...overrides,
+  }).returning();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    config.relayerStuckTxMinutes = 5;
+    config.relayerGasBumpPercent = 20;
+    config.relayerMaxGasBumps = 3;
+    config.relayerMaxGasPriceGwei = '100';
+    config.relayerMinBalanceXdc = '1';
+    config.relayerBalanceAlertXdc = '10';
+
+    provider = {
+      getTransactionCount: vi.fn().mockResolvedValue(5),
+      getFeeData: vi.fn().mockResolvedValue({ gasPrice: BigInt(10) * GWEI }),
+      getTransactionReceipt: vi.fn().mockResolvedValue(null),
+      getBalance: vi.fn().mockResolvedValue(ethers.parseEther('100')),
+    };
+    // Each broadcast takes a moment, so concurrent sends overlap unless they are serialized
+    sendTransaction = vi.fn().mockImplementation(async (tx: { nonce: number }) => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      return { hash: `0xhash${tx.nonce}-${sendTransaction.mock.calls.length}` };
+    });
+    service = new RelayerTransactionService();
+    service.initialize({ address: RELAYER, provider, sendTransaction } as unknown as ethers.Wallet);
+  });
+
+  it('gives concurrent sends consecutive nonces', async () => {
+    const records = await Promise.all([send('a'), send('b'), send('c')]);
+
+    expect(records.map(record => record.nonce)).toEqual([5, 6, 7]);
+    expect(sendTransaction.mock.calls.map(([tx]) => tx.nonce)).toEqual([5, 6, 7]);
+    expect((await service.listTransactions('pending')).map(record => record.purpose).sort()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('does not skip past a recorded transaction that fell out of the mempool', async () => {
+    await recordPending(8);
+    await recordPending(12, { status: 'dropped' });
+
+    expect((await send('a')).nonce).toBe(9);
+  });
+
+  it('reuses the nonce of a send the node refused', async () => {
+    sendTransaction.mockRejectedValueOnce(new Error('insufficient funds'));
+
+    await expect(send('a')).rejects.toThrow('insufficient funds');
+    expect((await send('b')).nonce).toBe(5);
+  });
+
+  it('resyncs from the chain once when the nonce was already used', async () => {
+    await send('a');
+    // The node lags behind a send made elsewhere from the wallet, then catches up
+    provider.getTransactionCount.mockResolvedValueOnce(6).mockResolvedValue(9);
+    sendTransaction.mockRejectedValueOnce(new Error('nonce too low'));
+
+    const record = await send('b');
+
+    expect(sendTransaction.mock.calls.map(([tx]) => tx.nonce)).toEqual([5, 6, 9]);
+    expect(record.nonce).toBe(9);
+  });
+
+  it('rebroadcasts a stuck transaction with the same nonce at a higher gas price', async () => {
+    const [stuck] = await recordPending(5, { lastBroadcastAt: new Date(Date.now() - 10 * 60 * 1000) });
+    provider.getTransactionCount.mockResolvedValue(5); // Nonce 5 not mined yet
+
+    await service.checkPendingTransactions();
+
+    expect(sendTransaction).toHaveBeenCalledWith(expect.objectContaining({ nonce: 5, gasPrice: BigInt(12) * GWEI }));
+    const [rebroadcast] = await service.listTransactions('pending');
+    expect(rebroadcast).toMatchObject({ id: stuck.id, gasPrice: (BigInt(12) * GWEI).toString(), bumpCount: 1 });
+    expect(rebroadcast.broadcastHashes).toEqual(['0xearlier5', rebroadcast.transactionHash]);
+  });
+
+  it('leaves transactions from another wallet, like the sponsorship escrow, to that wallet\'s service', async () => {
+    await recordPending(9, { fromAddress: '0x00000000000000000000000000000000000000e5', lastBroadcastAt: new Date(Date.now() - 10 * 60 * 1000) });
+
+    await service.checkPendingTransactions();
+    const record = await send('a');
+
+    expect(sendTransaction).toHaveBeenCalledTimes(1);
+    expect(record.nonce).toBe(5);
+  });
+
+  it('settles a transaction from the receipt of any of its broadcasts', async () => {
+    const [sent] = await recordPending(5, { broadcastHashes: ['0xearlier5', '0xbumped5'], transactionHash: '0xbumped5' });
+    provider.getTransactionReceipt.mockImplementation(async (hash: string) =>
+      hash === '0xearlier5' ? { hash, status: 1, blockNumber: 100, gasUsed: BigInt(21000), gasPrice: BigInt(10) * GWEI } : null);
+
+    const receipt = await service.waitForReceipt(sent);
+
+    expect(receipt.hash).toBe('0xearlier5');
+    expect(await service.listTransactions('confirmed')).toEqual([expect.objectContaining({ transactionHash: '0xearlier5', blockNumber: 100 })]);
+  });
+});
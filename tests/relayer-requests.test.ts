@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { relayerService } from '../server/services/relayerService';
+import { config } from '../server/config';
+import { db } from '../server/db';
+import { relayerRequests, type RelayAction } from '../shared/schema';
+import { createUser } from './helpers/db';
+
+const input = {
+  userId: 7,
+  repoId: '789',
+  action: 'fund_usdc' as RelayAction,
+  fromAddress: '0x00000000000000000000000000000000000000AB',
+  toAddress: '0x0000000000000000000000000000000000000002',
+  data: '0x',
+  gas: BigInt(200_000),
+};
+
+const sign = async (nonce: bigint) => `0xsig${nonce}`;
+
+// A sponsored call the relayer already paid for
+const confirmed = async (userId: number, repoId: string, costXdc: string, hoursAgo = 1) => {
+  const request = await relayerService.createRequest({ ...input, userId, repoId }, BigInt(0), sign);
+  await db.update(relayerRequests)
+    .set({ status: 'confirmed', costXdc, confirmedAt: new Date(Date.now() - hoursAgo * 60 * 60 * 1000) })
+    .where(eq(relayerRequests.id, request.id));
+};
+
+describe('Relayer forward requests', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    config.relayerSponsorshipEnabled = true;
+    config.relayerUserDailyBudgetXdc = '5';
+    config.relayerRepoDailyBudgetXdc = '20';
+    await createUser({ id: 7 });
+    await createUser({ id: 8 });
+  });
+
+  it('signs queued requests from the same wallet with consecutive forwarder nonces', async () => {
+    const first = await relayerService.createRequest(input, BigInt(3), sign);
+    const second = await relayerService.createRequest({ ...input, fromAddress: input.fromAddress.toLowerCase() }, BigInt(3), sign);
+
+    expect([first.nonce, second.nonce]).toEqual(['3', '4']);
+    expect(second.signature).toBe('0xsig4');
+    expect(await relayerService.getQueueDepth()).toBe(2);
+  });
+
+  it('reuses the nonce of a request that failed for good', async () => {
+    const first = await relayerService.createRequest(input, BigInt(0), sign);
+    await relayerService.markFailed(first, 'execution reverted', false);
+
+    expect((await relayerService.createRequest(input, BigInt(0), sign)).nonce).toBe('0');
+  });
+
+  it('follows the forwarder when it is ahead of the stored requests', async () => {
+    await relayerService.createRequest(input, BigInt(0), sign);
+
+    expect((await relayerService.createRequest(input, BigInt(10), sign)).nonce).toBe('10');
+  });
+
+  it('stops sponsoring a user or repository once their daily budget is spent', async () => {
+    await confirmed(7, '789', '1.5');
+    await confirmed(8, '789', '1.5');
+    await confirmed(7, '790', '10', 25); // Outside the window
+    expect(await relayerService.checkSponsorship(7, '789')).toEqual({ sponsored: true, reason: undefined, userSpentXdc: '1.5', repoSpentXdc: '3.0' });
+
+    await confirmed(7, '790', '3.5');
+    expect((await relayerService.checkSponsorship(7, '789')).reason).toBe('User 7 used the daily sponsorship budget of 5 XDC');
+
+    await confirmed(8, '789', '17');
+    expect((await relayerService.checkSponsorship(9, '789')).reason).toBe('Repository 789 used the daily sponsorship budget of 20 XDC');
+  });
+
+  it('requeues a failed send until it runs out of attempts', async () => {
+    const request = await relayerService.createRequest(input, BigInt(0), sign);
+
+    await relayerService.markFailed(request, 'timeout', true);
+    expect(await relayerService.getRequest(request.id)).toMatchObject({ status: 'queued', attempts: 1 });
+    expect(await relayerService.hasPending(input.fromAddress)).toBe(true);
+
+    await relayerService.markFailed({ ...request, attempts: 2 }, 'timeout', true);
+    expect(await relayerService.getRequest(request.id)).toMatchObject({ status: 'failed', lastError: 'timeout' });
+    expect(await relayerService.hasPending(input.fromAddress)).toBe(false);
+  });
+});
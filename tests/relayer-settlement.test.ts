@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { readFileSync } from 'fs';
+import { eq } from 'drizzle-orm';
+import { ethers } from 'ethers';
+import { blockchain } from '../server/blockchain';
+import { relayerService } from '../server/services/relayerService';
+import { relayerTransactionService } from '../server/services/relayerTransactionService';
+import { db } from '../server/db';
+import { relayerRequests, type RelayAction } from '../shared/schema';
+import { createUser } from './helpers/db';
+
+const REWARDS = '0x0000000000000000000000000000000000000002';
+const SIGNER = '0x00000000000000000000000000000000000000AB';
+const rewards = new ethers.Interface(JSON.parse(
+  readFileSync('contracts/artifacts/contracts/DualCurrencyRepoRewards.sol/DualCurrencyRepoRewards.json', 'utf-8')
+).abi);
+
+const queue = (action: RelayAction, data: string) => relayerService.createRequest(
+  { userId: 7, repoId: '789', action, fromAddress: SIGNER, toAddress: REWARDS, data, gas: BigInt(200_000) },
+  BigInt(0),
+  async nonce => ethers.toBeHex(nonce, 65)
+);
+
+const allocation = rewards.encodeFunctionData('allocateIssueReward', [789, 5, ethers.parseUnits('100', 6), 2]);
+
+// A mined forwarder transaction, with the events the rewards contract emitted during it
+const receipt = (hash: string, events: { name: string; args: unknown[] }[] = []) => ({
+  hash,
+  status: 1,
+  blockNumber: 10,
+  gasUsed: BigInt(21000),
+  gasPrice: BigInt(1_000_000_000),
+  logs: events.map(({ name, args }) => ({ address: REWARDS, ...rewards.encodeEventLog(name, args) })),
+}) as unknown as ethers.TransactionReceipt;
+
+const allocated = (hash: string) => receipt(hash, [{ name: 'RewardAllocated', args: [789, 5, ethers.parseUnits('100', 6), 2] }]);
+
+describe('Relayed call settlement', () => {
+  let getNonce: ReturnType<typeof vi.fn>;
+  let sent = 0;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await createUser({ id: 7 });
+    sent = 0;
+    getNonce = vi.fn().mockResolvedValue(BigInt(0));
+    Object.assign(blockchain, {
+      contract: { target: REWARDS, interface: rewards },
+      forwarderContract: { target: '0x0000000000000000000000000000000000000003', getNonce, execute: { staticCall: vi.fn().mockResolvedValue([true, '0x']) } },
+    });
+    vi.spyOn(blockchain, 'isRelayerBalanceLow').mockResolvedValue(false);
+    vi.spyOn(relayerTransactionService, 'send').mockImplementation(async () => ({ id: ++sent, transactionHash: `0xsent${sent}` }) as any);
+    vi.spyOn(relayerTransactionService, 'waitForReceipt').mockImplementation(async tx => allocated(tx.transactionHash));
+    vi.spyOn(relayerTransactionService, 'lookup').mockResolvedValue({ transaction: { status: 'pending' } as any, receipt: null });
+  });
+
+  it('hands a queued allocation over for bookkeeping once it confirms', async () => {
+    const request = await queue('allocate_bounty', allocation);
+    const onAllocated = vi.fn();
+
+    await blockchain.processRelayQueue(onAllocated);
+
+    expect(await relayerService.getRequest(request.id)).toMatchObject({ status: 'confirmed', transactionHash: '0xsent1', gasUsed: '21000' });
+    expect(onAllocated).toHaveBeenCalledWith({ repoId: 789, issueId: 5, amount: '100.0', currency: 'USDC', transactionHash: '0xsent1' });
+  });
+
+  it('fails a mined call whose forwarded call into the rewards contract did not run', async () => {
+    const request = await queue('allocate_bounty', allocation);
+    vi.mocked(relayerTransactionService.waitForReceipt).mockResolvedValue(receipt('0xsent1'));
+    const onAllocated = vi.fn();
+
+    await blockchain.processRelayQueue(onAllocated);
+
+    expect(await relayerService.getRequest(request.id)).toMatchObject({ status: 'failed', lastError: 'The forwarded call failed in 0xsent1' });
+    expect(onAllocated).not.toHaveBeenCalled();
+  });
+
+  it('keeps a request whose receipt wait timed out submitted, holding its nonce', async () => {
+    const request = await queue('allocate_bounty', allocation);
+    vi.mocked(relayerTransactionService.waitForReceipt).mockRejectedValue(new Error('Timed out waiting for relayer transaction 0xsent1'));
+
+    await blockchain.processRelayQueue();
+
+    expect(await relayerService.getRequest(request.id)).toMatchObject({ status: 'submitted', lastError: 'Timed out waiting for relayer transaction 0xsent1' });
+    expect(await relayerService.hasPending(SIGNER)).toBe(true);
+    expect((await queue('fund_usdc', '0x')).nonce).toBe('1');
+  });
+
+  it('settles stale submitted requests from the chain and leaves pending ones alone', async () => {
+    const mined = await queue('allocate_bounty', allocation);
+    const dropped = await queue('fund_usdc', '0x');
+    const pending = await queue('fund_usdc', '0x');
+    for (const [request, hash] of [[mined, '0xmined'], [dropped, '0xdropped'], [pending, '0xpending']] as const) {
+      await relayerService.markSubmitted(request.id, hash);
+    }
+    await db.update(relayerRequests).set({ submittedAt: new Date(Date.now() - 20 * 60 * 1000) });
+    vi.mocked(relayerTransactionService.lookup).mockImplementation(async hash => ({
+      '0xmined': { transaction: { status: 'confirmed' } as any, receipt: allocated('0xmined') },
+      '0xdropped': { transaction: { status: 'dropped', error: 'Nonce was used by another transaction' } as any, receipt: null },
+      '0xpending': { transaction: { status: 'pending' } as any, receipt: null },
+    })[hash]!);
+    const onAllocated = vi.fn();
+
+    await blockchain.settleStaleRelayRequests(onAllocated);
+
+    expect((await db.select().from(relayerRequests).orderBy(relayerRequests.id)).map(row => [row.id, row.status])).toEqual([
+      [mined.id, 'confirmed'],
+      [dropped.id, 'failed'],
+      [pending.id, 'submitted'],
+    ]);
+    expect(onAllocated).toHaveBeenCalledWith(expect.objectContaining({ issueId: 5, transactionHash: '0xmined' }));
+  });
+
+  it('confirms a relayed addPoolManager from the repository, as it emits no event', async () => {
+    const manager = '0x00000000000000000000000000000000000000cd';
+    const request = await queue('add_pool_manager', rewards.encodeFunctionData('addPoolManager', [789, manager, 'manager', 3]));
+    await relayerService.markSubmitted(request.id, '0xadded');
+    await db.update(relayerRequests).set({ submittedAt: new Date(Date.now() - 20 * 60 * 1000) }).where(eq(relayerRequests.id, request.id));
+    vi.mocked(relayerTransactionService.lookup).mockResolvedValue({ transaction: { status: 'confirmed' } as any, receipt: receipt('0xadded') });
+    const getRepository = vi.spyOn(blockchain, 'getRepository').mockResolvedValue({ poolManagers: [ethers.getAddress(manager)] });
+
+    await blockchain.settleStaleRelayRequests();
+
+    expect(getRepository).toHaveBeenCalledWith(789, 10);
+    expect(await relayerService.getRequest(request.id)).toMatchObject({ status: 'confirmed' });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { repositoryManagerService, type RepositoryAccess } from '../server/services/repositoryManagerService';
+import { storage } from '../server/storage';
+import { createUser, createRepository } from './helpers/db';
+
+const invite = (githubUsername: string, role: 'viewer' | 'allocator' | 'owner', allocationCaps = {}) =>
+  repositoryManagerService.invite({ githubRepoId: '789', githubUsername, role, allocationCaps, invitedBy: 1 });
+
+const allocator = (allocationCaps: RepositoryAccess['allocationCaps']): RepositoryAccess =>
+  ({ role: 'allocator', allocationCaps, signer: null });
+
+describe('Repository managers', () => {
+  let manager: Awaited<ReturnType<typeof createUser>>;
+
+  beforeEach(async () => {
+    manager = await createUser({ id: 1, githubUsername: 'Manager' });
+    await createRepository();
+    vi.spyOn(storage, 'getRepositoryPoolManagers').mockResolvedValue([manager]);
+  });
+
+  describe('getAccess', () => {
+    it('makes on-chain pool managers owners who sign for themselves', async () => {
+      expect(await repositoryManagerService.getAccess('789', 'manager')).toEqual({ role: 'owner', allocationCaps: {}, signer: manager });
+    });
+
+    it('lets active members act through the first pool manager', async () => {
+      const helper = await createUser({ id: 2, githubUsername: 'helper' });
+      const { id } = (await invite('Helper', 'allocator', { USDC: '50' }))!;
+      expect(await repositoryManagerService.getAccess('789', 'helper')).toBeNull(); // Not accepted yet
+
+      await repositoryManagerService.accept(id, { id: helper.id, githubUsername: 'helper' });
+
+      expect(await repositoryManagerService.getAccess('789', 'HELPER')).toEqual({ role: 'allocator', allocationCaps: { USDC: '50' }, signer: manager });
+    });
+
+    it('drops revoked members', async () => {
+      await createUser({ id: 2, githubUsername: 'helper' });
+      const { id } = (await invite('helper', 'viewer'))!;
+      await repositoryManagerService.accept(id, { id: 2, githubUsername: 'helper' });
+
+      await repositoryManagerService.revoke(id, '789');
+
+      expect(await repositoryManagerService.getAccess('789', 'helper')).toBeNull();
+    });
+
+    it('gives nobody access while the repository has no pool manager', async () => {
+      vi.mocked(storage.getRepositoryPoolManagers).mockResolvedValue([]);
+
+      expect(await repositoryManagerService.getAccess('789', 'manager')).toBeNull();
+    });
+  });
+
+  describe('hasRole and canAllocate', () => {
+    it('ranks owners above allocators above viewers', () => {
+      const viewer: RepositoryAccess = { role: 'viewer', allocationCaps: {}, signer: null };
+      expect(repositoryManagerService.hasRole(viewer, 'viewer')).toBe(true);
+      expect(repositoryManagerService.hasRole(viewer, 'allocator')).toBe(false);
+      expect(repositoryManagerService.hasRole(allocator({}), 'allocator')).toBe(true);
+      expect(repositoryManagerService.hasRole(allocator({}), 'owner')).toBe(false);
+      expect(repositoryManagerService.hasRole(null, 'viewer')).toBe(false);
+    });
+
+    it('holds allocators to their cap per bounty and currency', () => {
+      const access = allocator({ USDC: '50', XDC: '0.5' });
+      expect(repositoryManagerService.canAllocate(access, 'USDC', '50')).toBe(true);
+      expect(repositoryManagerService.canAllocate(access, 'USDC', '50.000001')).toBe(false);
+      expect(repositoryManagerService.canAllocate(access, 'XDC', '0.4')).toBe(true);
+      expect(repositoryManagerService.canAllocate(access, 'ROXN', '1')).toBe(false); // No cap for ROXN
+    });
+
+    it('lets owners allocate any amount and viewers none', () => {
+      expect(repositoryManagerService.canAllocate({ role: 'owner', allocationCaps: {}, signer: null }, 'XDC', '1000000')).toBe(true);
+      expect(repositoryManagerService.canAllocate({ role: 'viewer', allocationCaps: { XDC: '10' }, signer: null }, 'XDC', '1')).toBe(false);
+    });
+  });
+
+  describe('invites', () => {
+    it('does not invite someone twice, but can invite a revoked member again', async () => {
+      const first = (await invite('helper', 'viewer'))!;
+      expect(await invite('HELPER', 'allocator')).toBeNull();
+
+      await repositoryManagerService.revoke(first.id, '789');
+      const again = await invite('helper', 'allocator', { XDC: '10' });
+
+      expect(again).toMatchObject({ id: first.id, status: 'pending', role: 'allocator', allocationCaps: { XDC: '10' }, userId: null });
+    });
+
+    it('only lets the invited user accept', async () => {
+      await createUser({ id: 2, githubUsername: 'helper' });
+      const { id } = (await invite('helper', 'viewer'))!;
+
+      expect(await repositoryManagerService.accept(id, { id: 3, githubUsername: 'someone-else' })).toBeNull();
+      expect(await repositoryManagerService.accept(id, { id: 2, githubUsername: 'Helper' })).toMatchObject({ status: 'active', userId: 2 });
+      expect(await repositoryManagerService.accept(id, { id: 2, githubUsername: 'helper' })).toBeNull(); // Already accepted
+    });
+
+    it('keeps allocation caps only for allocators', async () => {
+      const { id } = (await invite('helper', 'viewer', { XDC: '10' }))!;
+      expect((await repositoryManagerService.getPendingInvite('789', 'helper'))?.allocationCaps).toEqual({});
+
+      const promoted = await repositoryManagerService.updateMember(id, '789', { role: 'allocator', allocationCaps: { XDC: '10' } });
+      expect(promoted?.allocationCaps).toEqual({ XDC: '10' });
+      const owner = await repositoryManagerService.updateMember(id, '789', { role: 'owner', allocationCaps: { XDC: '10' } });
+      expect(owner?.allocationCaps).toEqual({});
+
+      expect(await repositoryManagerService.updateMember(id, '790', { role: 'viewer', allocationCaps: {} })).toBeNull(); // Other repository
+    });
+
+    it('lists a user\'s pending invites with the repository name', async () => {
+      await invite('helper', 'viewer');
+
+      expect(await repositoryManagerService.listInvitesForUser('HELPER')).toEqual([
+        expect.objectContaining({ githubRepoId: '789', role: 'viewer', githubRepoFullName: 'acme/widgets' }),
+      ]);
+      expect(await repositoryManagerService.listMembers('789')).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,27 @@
+import { beforeEach, inject, vi } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+
+// server/db.ts connects to Postgres when it is imported. Tests get an in-memory Postgres with the
+// schema already applied instead (see globalSetup.ts), created the first time a file imports the
+// db, and emptied before every test. Seed rows with `db.insert` and read results back with `db`.
+const testDatabase = vi.hoisted(() => ({ client: null as PGlite | null, tables: [] as string[] }));
+
+vi.mock('../server/db', async () => {
+  const { readFile } = await import('fs/promises');
+  const { PGlite } = await import('@electric-sql/pglite');
+  const { drizzle } = await import('drizzle-orm/pglite');
+  const schema = await vi.importActual<typeof import('../shared/schema')>('../shared/schema');
+
+  const client = new PGlite({ loadDataDir: new Blob([await readFile(inject('testDatabaseDump'))]) });
+  const { rows } = await client.query<{ tablename: string }>(`SELECT tablename FROM pg_tables WHERE schemaname = 'public'`);
+  testDatabase.client = client;
+  testDatabase.tables = rows.map(row => `"${row.tablename}"`);
+
+  return { db: drizzle(client, { schema }), users: schema.users, onrampTransactions: schema.onrampTransactions };
+});
+
+beforeEach(async () => {
+  if (testDatabase.client) {
+    await testDatabase.client.exec(`TRUNCATE ${testDatabase.tables.join(', ')} RESTART IDENTITY CASCADE`);
+  }
+});
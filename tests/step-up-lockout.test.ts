@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { stepUpService } from '../server/services/stepUpService';
+import { sendOtpEmail } from '../server/email';
+import { config } from '../server/config';
+import { db } from '../server/db';
+import { createUser } from './helpers/db';
+
+vi.mock('../server/email', () => ({ sendOtpEmail: vi.fn() }));
+
+const MINUTE = 60 * 1000;
+const user = { id: 1, email: 'alice@example.com' };
+
+// The code in the latest step-up email
+const emailedCode = () => vi.mocked(sendOtpEmail).mock.calls.at(-1)![1];
+
+const lockout = () => db.query.stepUpLockouts.findFirst();
+
+const failThreeTimes = async () => {
+  for (const code of ['111111', '222222', '333333']) {
+    await stepUpService.verify(user.id, 'transfer', code);
+  }
+};
+
+describe('Step-up lockout', () => {
+  let now: number;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    now = Date.now();
+    config.encryptionKey = 'test-encryption-key';
+    config.stepUpLockoutThreshold = 3;
+    config.stepUpLockoutMinutes = 15;
+    config.stepUpCodeTtlMinutes = 60;
+    config.stepUpMaxAttempts = 5;
+    await createUser({ id: user.id, email: user.email });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('locks step-up once the threshold of failed codes is reached', async () => {
+    expect(await stepUpService.verify(user.id, 'transfer', '111111')).toEqual({ verified: false, reason: 'Invalid or expired code. Request a new one.' });
+    await stepUpService.verify(user.id, 'wallet_export', '222222');
+    const third = await stepUpService.verify(user.id, 'payout_request', '333333');
+
+    expect(third).toEqual({ verified: false, reason: 'Too many incorrect codes. Try again in 15 minutes.' });
+    expect((await lockout())?.lockedUntil).toEqual(new Date(now + 15 * MINUTE));
+  });
+
+  it('does not check codes at all while locked, even a correct one', async () => {
+    await failThreeTimes();
+    await stepUpService.requestEmailCode(user, 'transfer');
+
+    const locked = await stepUpService.verify(user.id, 'transfer', emailedCode());
+    expect(locked.verified).toBe(false);
+    expect(locked.reason).toContain('Too many incorrect codes');
+    expect((await lockout())?.failedAttempts).toBe(3);
+
+    // The code was neither counted nor spent, so it still works once the lock ends
+    vi.advanceTimersByTime(15 * MINUTE);
+    expect(await stepUpService.verify(user.id, 'transfer', emailedCode())).toEqual({ verified: true, method: 'email' });
+  });
+
+  it('doubles the lock for each further run of failures', async () => {
+    await failThreeTimes();
+    vi.advanceTimersByTime(16 * MINUTE);
+
+    for (const code of ['444444', '555555']) {
+      await stepUpService.verify(user.id, 'transfer', code);
+    }
+    const result = await stepUpService.verify(user.id, 'transfer', '666666');
+
+    expect(result.reason).toBe('Too many incorrect codes. Try again in 30 minutes.');
+    expect((await lockout())?.failedAttempts).toBe(6);
+  });
+
+  it('clears the failure count after a correct code', async () => {
+    await stepUpService.requestEmailCode(user, 'transfer');
+    await stepUpService.verify(user.id, 'transfer', '111111');
+    await stepUpService.verify(user.id, 'transfer', '222222');
+
+    expect(await stepUpService.verify(user.id, 'transfer', emailedCode())).toEqual({ verified: true, method: 'email' });
+    expect(await lockout()).toMatchObject({ failedAttempts: 0, lockedUntil: null });
+  });
+
+  it('does not count malformed codes', async () => {
+    const result = await stepUpService.verify(user.id, 'transfer', '12ab');
+
+    expect(result).toEqual({ verified: false, reason: 'Code must be 6 digits' });
+    expect(await lockout()).toBeUndefined();
+  });
+
+  it('counts failed authenticator codes when disabling the authenticator, and refuses while locked', async () => {
+    expect(await stepUpService.disableTotp(user.id, '111111')).toEqual({ verified: false, reason: 'Invalid authenticator code' });
+    await stepUpService.verify(user.id, 'transfer', '222222');
+    const locked = await stepUpService.disableTotp(user.id, '333333');
+    expect(locked.reason).toContain('Too many incorrect codes');
+
+    const refused = await stepUpService.disableTotp(user.id, '444444');
+    expect(refused.verified).toBe(false);
+    expect((await lockout())?.failedAttempts).toBe(3);
+  });
+});
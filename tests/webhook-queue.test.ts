@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { webhookQueueService } from '../server/services/webhookQueueService';
+import { handleBountyCommand, handlePullRequestMerged } from '../server/github';
+import { config } from '../server/config';
+import { db } from '../server/db';
+import { webhookEvents } from '../shared/schema';
+
+vi.mock('../server/github', () => ({ handleBountyCommand: vi.fn(), handleIssueClosed: vi.fn(), handlePullRequestMerged: vi.fn() }));
+
+const payload = { action: 'created', comment: { body: '/bounty 10 USDC' } };
+
+const queued = async () => (await db.select().from(webhookEvents))[0];
+
+describe('Webhook queue', () => {
+  let now: Date;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // Rows take their default timestamps from the database clock, which keeps real time. Run a
+    // minute ahead of it so a delivery queued during the test is already due.
+    now = new Date(Date.now() + 60_000);
+    vi.useFakeTimers({ toFake: ['Date'], now });
+    config.webhookMaxAttempts = 3;
+    config.webhookRetryBaseSeconds = 30;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('queues a delivery once however often GitHub redelivers it', async () => {
+    expect(await webhookQueueService.enqueue('delivery-1', 'issue_comment', '42', payload)).toBe(true);
+    expect(await webhookQueueService.enqueue('delivery-1', 'issue_comment', '42', payload)).toBe(false);
+
+    expect(await webhookQueueService.processDueEvents()).toBe(1);
+    expect(await webhookQueueService.processDueEvents()).toBe(0);
+
+    expect(handleBountyCommand).toHaveBeenCalledTimes(1);
+    expect(handleBountyCommand).toHaveBeenCalledWith(payload, '42', 'delivery-1');
+    expect(await queued()).toMatchObject({ status: 'completed', attempts: 1, lastError: null });
+  });
+
+  it('pays out merged pull requests from the queue', async () => {
+    const merged = { action: 'closed', pull_request: { number: 12, merged: true } };
+    await webhookQueueService.enqueue('delivery-1', 'pull_request', '42', merged);
+
+    await webhookQueueService.processDueEvents();
+
+    expect(handlePullRequestMerged).toHaveBeenCalledWith(merged, '42');
+    expect(await queued()).toMatchObject({ status: 'completed' });
+  });
+
+  it('retries a failed delivery with a doubling delay', async () => {
+    vi.mocked(handleBountyCommand).mockRejectedValue(new Error('GitHub API 502'));
+    await webhookQueueService.enqueue('delivery-1', 'issue_comment', '42', payload);
+
+    await webhookQueueService.processDueEvents();
+    expect(await queued()).toMatchObject({ status: 'failed', lastError: 'GitHub API 502' });
+    expect((await queued()).nextAttemptAt).toEqual(new Date(now.getTime() + 30_000));
+
+    expect(await webhookQueueService.processDueEvents()).toBe(0); // Not due yet
+
+    vi.advanceTimersByTime(30_000);
+    await webhookQueueService.processDueEvents();
+    expect((await queued()).nextAttemptAt).toEqual(new Date(now.getTime() + 90_000));
+  });
+
+  it('dead-letters a delivery that keeps failing, and replays it with a fresh budget', async () => {
+    vi.mocked(handleBountyCommand).mockRejectedValue(new Error('GitHub API 502'));
+    await webhookQueueService.enqueue('delivery-1', 'issue_comment', '42', payload);
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await webhookQueueService.processDueEvents();
+      vi.advanceTimersByTime(6 * 60 * 60 * 1000);
+    }
+    const { id } = await queued();
+    expect(await webhookQueueService.listEvents()).toEqual([expect.objectContaining({ id, status: 'dead_letter', attempts: 3 })]);
+    expect(await webhookQueueService.processDueEvents()).toBe(0);
+
+    vi.mocked(handleBountyCommand).mockResolvedValue(undefined);
+    expect(await webhookQueueService.replay(id)).toMatchObject({ status: 'pending', attempts: 0 });
+    await webhookQueueService.processDueEvents();
+
+    expect(await webhookQueueService.getEvent(id)).toMatchObject({ status: 'completed', attempts: 1 });
+  });
+
+  it('only replays deliveries that failed', async () => {
+    await webhookQueueService.enqueue('delivery-1', 'issue_comment', '42', payload);
+    await webhookQueueService.processDueEvents();
+
+    expect(await webhookQueueService.replay((await queued()).id)).toBeNull();
+    expect(handleBountyCommand).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns a delivery a dead worker left processing to the queue', async () => {
+    await webhookQueueService.enqueue('delivery-1', 'issue_comment', '42', payload);
+    await db.update(webhookEvents)
+      .set({ status: 'processing', attempts: 1, updatedAt: new Date(now.getTime() - 16 * 60 * 1000) })
+      .where(eq(webhookEvents.deliveryId, 'delivery-1'));
+
+    expect(await webhookQueueService.processDueEvents()).toBe(1);
+
+    expect(handleBountyCommand).toHaveBeenCalledTimes(1);
+    expect(await queued()).toMatchObject({ status: 'completed', attempts: 2 });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { asc } from 'drizzle-orm';
+import { withdrawalAddressService, WithdrawalAddressBlockedError } from '../server/services/withdrawalAddressService';
+import { sendWithdrawalAddressConfirmationEmail } from '../server/email';
+import { config } from '../server/config';
+import { db } from '../server/db';
+import { withdrawalAddressEvents } from '../shared/schema';
+import { createUser } from './helpers/db';
+
+vi.mock('../server/email', () => ({
+  sendWithdrawalAddressConfirmationEmail: vi.fn(),
+  sendWithdrawalAddressChangeEmail: vi.fn(),
+}));
+
+const HOUR = 60 * 60 * 1000;
+const ADDRESS = '0x00000000000000000000000000000000000000AB';
+const user = { id: 7, email: 'alice@example.com' };
+
+const emailedToken = () => {
+  const [, { confirmUrl }] = vi.mocked(sendWithdrawalAddressConfirmationEmail).mock.calls[0];
+  return new URL(confirmUrl).searchParams.get('confirmWithdrawalAddress')!;
+};
+
+const loggedActions = async () =>
+  (await db.select().from(withdrawalAddressEvents).orderBy(asc(withdrawalAddressEvents.id))).map(event => event.action);
+
+describe('Withdrawal address allowlist', () => {
+  let now: number;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    now = Date.now();
+    config.withdrawalAddressCoolingOffHours = 24;
+    config.withdrawalAddressConfirmationTtlHours = 2;
+    await createUser({ id: 7, email: user.email });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('blocks an address until it is confirmed and its cooling-off period has run', async () => {
+    await withdrawalAddressService.add(user, ADDRESS, 'Cold wallet');
+
+    await expect(withdrawalAddressService.assertCanWithdraw(7, ADDRESS)).rejects.toThrow('has not been confirmed');
+
+    const confirmed = await withdrawalAddressService.confirm(user, emailedToken());
+    expect(confirmed?.status).toBe('cooling_off');
+
+    vi.advanceTimersByTime(24 * HOUR - 1000);
+    await expect(withdrawalAddressService.assertCanWithdraw(7, ADDRESS)).rejects.toThrow(`cooling-off period until ${new Date(now + 24 * HOUR).toISOString()}`);
+
+    vi.advanceTimersByTime(1000);
+    await expect(withdrawalAddressService.assertCanWithdraw(7, ADDRESS)).resolves.toBeUndefined();
+  });
+
+  it('only confirms with an unexpired link sent to the same user', async () => {
+    await createUser({ id: 8 });
+    await withdrawalAddressService.add(user, ADDRESS, undefined);
+
+    expect(await withdrawalAddressService.confirm({ id: 8, email: null }, emailedToken())).toBeNull();
+
+    vi.advanceTimersByTime(2 * HOUR);
+    expect(await withdrawalAddressService.confirm(user, emailedToken())).toBeNull();
+    expect((await withdrawalAddressService.list(7))[0].status).toBe('pending_confirmation');
+  });
+
+  it('matches the destination whatever its prefix or case', async () => {
+    await withdrawalAddressService.add(user, ADDRESS, undefined);
+    await withdrawalAddressService.confirm(user, emailedToken());
+    vi.advanceTimersByTime(24 * HOUR);
+
+    expect((await withdrawalAddressService.list(7))[0]).toMatchObject({ address: ADDRESS.toLowerCase(), status: 'active' });
+    await expect(withdrawalAddressService.assertCanWithdraw(7, 'xdc00000000000000000000000000000000000000ab')).resolves.toBeUndefined();
+  });
+
+  it('refuses the same address twice', async () => {
+    await withdrawalAddressService.add(user, ADDRESS, undefined);
+
+    expect(await withdrawalAddressService.add(user, ADDRESS.toLowerCase(), undefined)).toEqual({ success: false, error: 'duplicate' });
+  });
+
+  it('logs a blocked withdrawal to an unknown address', async () => {
+    await expect(withdrawalAddressService.assertCanWithdraw(7, ADDRESS, { currency: 'USDC' }))
+      .rejects.toThrow(WithdrawalAddressBlockedError);
+
+    expect(await withdrawalAddressService.listEvents(7)).toEqual([expect.objectContaining({
+      action: 'transfer_blocked',
+      addressId: null,
+      details: { currency: 'USDC', reason: 'Destination is not in your withdrawal addresses' },
+    })]);
+  });
+
+  it('refuses a removed address straight away, and lets it be added again', async () => {
+    const added = await withdrawalAddressService.add(user, ADDRESS, undefined);
+    await withdrawalAddressService.confirm(user, emailedToken());
+    vi.advanceTimersByTime(24 * HOUR);
+
+    await withdrawalAddressService.remove(user, added.success ? added.address.id : 0);
+
+    await expect(withdrawalAddressService.assertCanWithdraw(7, ADDRESS)).rejects.toThrow(WithdrawalAddressBlockedError);
+    expect(await loggedActions()).toEqual(['added', 'confirmed', 'removed', 'transfer_blocked']);
+    expect(await withdrawalAddressService.add(user, ADDRESS, undefined)).toMatchObject({ success: true });
+  });
+});
@@ -6,6 +6,8 @@ export default defineConfig({
     globals: true,
     environment: 'node',
     include: ['tests/**/*.test.ts'],
+    globalSetup: ['tests/globalSetup.ts'],
+    setupFiles: ['tests/setup.ts'],
     exclude: ['node_modules/**', 'client/**'],
   },
   resolve: {